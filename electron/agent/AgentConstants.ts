@@ -15,9 +15,42 @@ export const AGENT_CONSTANTS = {
     MAX_HISTORY_SIZE: 200,
     HISTORY_TRIM_THRESHOLD: 0.9,  // Trigger trim at 90% capacity
     SYSTEM_MESSAGES_TO_KEEP: 3,
+
+    // Context compaction (fractions of the model's context window)
+    CONTEXT_COMPACTION_THRESHOLD: 0.75,  // Summarise once the prompt reaches 75% of the budget
+    CONTEXT_KEEP_RECENT_RATIO: 0.3,      // Recent history kept verbatim after compaction
+    SUMMARY_MAX_TOKENS: 2048,
     
     // Loop control
     MAX_ITERATIONS: 30,
+
+    // Sub-agent delegation (delegate_task)
+    SUB_AGENT_DEFAULT_ITERATIONS: 10,
+    SUB_AGENT_MAX_ITERATIONS: 20,
+    SUB_AGENT_REPORT_MAX_CHARS: 20000,
+
+    // Checkpoints (file snapshots taken before the first write of a turn)
+    CHECKPOINT_MAX_FILES: 5000,
+    CHECKPOINT_MAX_FILE_BYTES: 5 * 1024 * 1024,  // 5MB
+    CHECKPOINT_KEEP_COUNT: 200,
+
+    // Codebase search and ranged reads (glob_files, search_text, read_file)
+    READ_FILE_DEFAULT_LINES: 2000,
+    READ_FILE_MAX_LINE_CHARS: 2000,
+    READ_FILE_MAX_OUTPUT_CHARS: 100_000,
+    READ_FILE_COUNT_LINES_MAX_BYTES: 20 * 1024 * 1024,  // Larger files are not scanned to the end
+    SEARCH_MAX_FILES_SCANNED: 50_000,
+    SEARCH_MAX_FILE_BYTES: 2 * 1024 * 1024,
+    SEARCH_DEFAULT_RESULTS: 100,
+    SEARCH_MAX_RESULTS: 1000,
+    SEARCH_MAX_LINE_CHARS: 300,
+
+    // Background processes (start_process)
+    PROCESS_OUTPUT_BUFFER_CHARS: 256 * 1024,
+    PROCESS_READ_MAX_CHARS: 16000,
+    PROCESS_MAX_RUNNING: 10,
+    PROCESS_KEEP_EXITED: 20,
+    PROCESS_STOP_GRACE_MS: 3000,
     
     // Error recovery
     MAX_SENSITIVE_CONTENT_RETRIES: 3,
@@ -67,6 +100,72 @@ export const SENSITIVE_CONTENT_INDICATORS = [
     'safety_filter',
 ] as const;
 
+/**
+ * Tools a delegated sub-agent never gets: no further delegation, no blocking
+ * questions to the user, and no edits to the parent's plan or schedules
+ */
+export const SUB_AGENT_EXCLUDED_TOOLS: ReadonlySet<string> = new Set([
+    'delegate_task',
+    'ask_user_question',
+    'todo_write',
+    'create_schedule_task',
+    'execute_schedule_task',
+    'execute_schedule_task_by_name',
+]);
+
+/**
+ * Tools that can modify files in authorized folders; the first call in a turn takes a checkpoint
+ */
+export const CHECKPOINT_TRIGGER_TOOLS: ReadonlySet<string> = new Set([
+    'write_file',
+    'edit_file',
+    'apply_patch',
+    'run_command',
+    'start_process',
+    'send_process_input',
+]);
+
+/**
+ * Directories skipped when walking a folder for checkpoints or searches
+ * (generated or managed by other tools)
+ */
+export const WALK_IGNORED_DIRS: ReadonlySet<string> = new Set([
+    '.git',
+    'node_modules',
+    'dist',
+    'dist-electron',
+    'build',
+    '.next',
+    '.cache',
+    '.venv',
+    'venv',
+    '__pycache__',
+]);
+
+/**
+ * Error classes that may be retried or failed over to a backup model
+ */
+export type RetryableErrorClass = 'rate_limit' | 'server' | 'network' | 'model_unavailable' | 'auth';
+
+export interface RetryPolicy {
+    maxRetries: number;   // Retries on the same model before failing over
+    baseDelayMs: number;
+    maxDelayMs: number;
+    failover: boolean;    // Whether to move on to the next model in the fallback chain
+}
+
+/**
+ * Per-error-class retry and failover policy for LLM calls
+ */
+export const RETRY_POLICIES: Record<RetryableErrorClass, RetryPolicy> = {
+    rate_limit: { maxRetries: 3, baseDelayMs: 2000, maxDelayMs: 30000, failover: true },
+    server: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 8000, failover: true },
+    network: { maxRetries: 2, baseDelayMs: 500, maxDelayMs: 4000, failover: true },
+    // Retrying the same model cannot fix a wrong model name or a bad key
+    model_unavailable: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, failover: true },
+    auth: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, failover: true },
+};
+
 /**
  * Agent Message Type
  * Extends Anthropic.MessageParam with an optional ID for management
@@ -6,7 +6,7 @@
  */
 
 import { logs } from '../utils/logger';
-import { AGENT_CONSTANTS, SENSITIVE_CONTENT_INDICATORS } from './AgentConstants';
+import { AGENT_CONSTANTS, RETRY_POLICIES, RetryableErrorClass, SENSITIVE_CONTENT_INDICATORS } from './AgentConstants';
 
 /**
  * Extended error interface for Agent errors
@@ -19,7 +19,7 @@ export interface AgentError extends Error {
  * Error classification result
  */
 export interface ErrorClassification {
-    type: 'rate_limit' | 'auth' | 'sensitive_content' | 'network' | 'validation' | 'unknown';
+    type: 'rate_limit' | 'auth' | 'sensitive_content' | 'model_unavailable' | 'server' | 'network' | 'validation' | 'unknown';
     retryable: boolean;
     userMessage: string;
 }
@@ -83,7 +83,78 @@ export class AgentErrorHandler {
     static isNetworkError(error: unknown): boolean {
         const err = error as { message?: string };
         const message = String(err.message || '');
-        return /ENOTFOUND|ECONNREFUSED|ETIMEDOUT|fetch failed|network/i.test(message);
+        return /ENOTFOUND|ECONNREFUSED|ECONNRESET|ETIMEDOUT|EPIPE|socket hang up|fetch failed|connection error|timed out|network/i.test(message);
+    }
+
+    /**
+     * Check if an error is a provider-side failure (5xx) other than a content filter block
+     */
+    static isServerError(error: unknown): boolean {
+        const err = error as { status?: number };
+        return typeof err.status === 'number' && err.status >= 500 && !this.isSensitiveContentError(error);
+    }
+
+    /**
+     * Check if the provider rejected the model itself (unknown, retired or misspelled model name)
+     */
+    static isModelUnavailableError(error: unknown): boolean {
+        const err = error as { status?: number; message?: string };
+        const message = String(err.message || '');
+        if (err.status === 404) return true;
+        if (err.status !== 400) return false;
+        return /model/i.test(message) && /not found|not exist|does not exist|invalid|unknown|unsupported|不存在/i.test(message);
+    }
+
+    /**
+     * Get the retry/failover class of an LLM call error, or null when it should not be retried
+     */
+    static getRetryClass(error: unknown): RetryableErrorClass | null {
+        if (this.isRateLimitError(error)) return 'rate_limit';
+        if (this.isAuthError(error)) return 'auth';
+        if (this.isModelUnavailableError(error)) return 'model_unavailable';
+        if (this.isServerError(error)) return 'server';
+        if (this.isNetworkError(error)) return 'network';
+        return null;
+    }
+
+    /**
+     * Exponential backoff for the given error class, honouring Retry-After when the provider sends one
+     * @param attempt Zero-based retry attempt on the current model
+     */
+    static getBackoffDelay(errorClass: RetryableErrorClass, attempt: number, error?: unknown): number {
+        const policy = RETRY_POLICIES[errorClass];
+        const retryAfterMs = this.getRetryAfterMs(error);
+        if (retryAfterMs !== null) return Math.min(retryAfterMs, policy.maxDelayMs);
+        return Math.min(policy.baseDelayMs * Math.pow(2, attempt), policy.maxDelayMs);
+    }
+
+    /**
+     * Read the Retry-After header (seconds) from an SDK error, if any
+     */
+    static getRetryAfterMs(error: unknown): number | null {
+        const headers = (error as { headers?: unknown })?.headers;
+        if (!headers) return null;
+        const raw = typeof (headers as Headers).get === 'function'
+            ? (headers as Headers).get('retry-after')
+            : (headers as Record<string, string | undefined>)['retry-after'];
+        const seconds = Number(raw);
+        return raw && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+    }
+
+    /**
+     * Sleep before a retry; resolves early when the turn is aborted
+     */
+    static waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+        return new Promise(resolve => {
+            if (delayMs <= 0 || signal?.aborted) return resolve();
+            const timer = setTimeout(done, delayMs);
+            function done() {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', done);
+                resolve();
+            }
+            signal?.addEventListener('abort', done, { once: true });
+        });
     }
 
     /**
@@ -114,6 +185,23 @@ export class AgentErrorHandler {
             };
         }
 
+        if (this.isModelUnavailableError(error)) {
+            const err = error as { message?: string };
+            return {
+                type: 'model_unavailable',
+                retryable: false,
+                userMessage: `模型不可用：${String(err.message || '')}`.trim()
+            };
+        }
+
+        if (this.isServerError(error)) {
+            return {
+                type: 'server',
+                retryable: true,
+                userMessage: '模型服务暂时不可用（5xx），请稍后重试或在设置中配置备用模型。'
+            };
+        }
+
         if (this.isNetworkError(error)) {
             return {
                 type: 'network',
@@ -16,36 +16,75 @@ import { BrowserWindow } from 'electron';
 
 import { FileSystemTools } from './tools/FileSystemTools';
 import { BrowserTools } from './tools/BrowserTools';
+import { parseUnifiedDiff } from './tools/PatchTools';
 import { SkillManager } from './skills/SkillManager';
 import { MCPClientService } from './mcp/MCPClientService';
+import { samplingMessagesToAnthropic, summarizeSamplingMessages } from './mcp/mcpContent';
+import type { MCPListKind } from './mcp/types';
+import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
 import { ApiProvider, WorkMode, configStore } from '../config/ConfigStore';
 import { PromptService } from './services/PromptService';
-import { ToolRegistry } from './services/ToolRegistry';
+import { getMemoryManager, onMemoriesChanged } from './memory/MemoryManager';
+import type { Memory } from './memory/types';
+import { ToolRegistry, ToolCallAuthorization } from './services/ToolRegistry';
 import { TaskAnalyzer } from './services/TaskAnalyzer';
+import { ContextCompactor, estimateTextTokens } from './services/ContextCompactor';
 import { permissionManager } from './security/PermissionManager';
-import { BaseLLMProvider } from './providers/BaseLLMProvider';
+import { auditLog } from './security/AuditLog';
+import { PromptInjectionGuard } from './security/PromptInjectionGuard';
+import {
+    PermissionRequest,
+    PermissionRule,
+    PermissionRuleScope,
+    createRememberedRule,
+    describePermissionRequest,
+    evaluatePermissionRules,
+    matchesPathPattern,
+    permissionRequestFromArgs
+} from './security/PermissionRules';
+import { BaseLLMProvider, TokenUsage, addTokenUsage, emptyTokenUsage } from './providers/BaseLLMProvider';
 import { AnthropicProvider } from './providers/AnthropicProvider';
 import { OpenAIProvider } from './providers/OpenAIProvider';
 import { MiniMaxProvider } from './providers/MiniMaxProvider';
+import { OllamaProvider } from './providers/OllamaProvider';
 import { generateResponse, ProviderId } from './providers/generateResponse';
 import { logs } from '../utils/logger';
+import { resolveContextWindow, toTransportProvider, FailoverModel } from '../types/models';
 import { createPendingConfirmation } from '../ipc/handlers/agentHandlers';
+import { sessionStore } from '../config/SessionStore';
 
 // Import refactored modules
-import { AGENT_CONSTANTS, SUPPORTED_IMAGE_TYPES, AgentStage, AgentMessage } from './AgentConstants';
+import { AGENT_CONSTANTS, CHECKPOINT_TRIGGER_TOOLS, RETRY_POLICIES, SUB_AGENT_EXCLUDED_TOOLS, SUPPORTED_IMAGE_TYPES, AgentStage, AgentMessage } from './AgentConstants';
 import { AgentErrorHandler, AgentError } from './AgentErrorHandler';
 import { AgentStateManager, AgentEventSink } from './AgentStateManager';
 import { AgentUIBridge } from './AgentUIBridge';
+import { SubAgentRuntime } from './SubAgentRuntime';
+import { CheckpointStore } from './checkpoint/CheckpointStore';
+import { ProcessManager } from './process/ProcessManager';
+import { ContainerManager } from './container/ContainerManager';
+import type { CheckpointRestoreResult } from './checkpoint/types';
+import type { DelegateTaskRequest } from './services/ToolExecutor';
 
 // Re-export types for compatibility
 export type { AgentStage, AgentEventSink };
 
+type LLMConfig = {
+    model?: string;
+    provider?: ApiProvider;
+    apiUrl?: string;
+    apiKey?: string;
+    contextWindow?: number;
+    reasoningBudget?: number;
+};
+
 export class AgentRuntime {
     private llmProvider: BaseLLMProvider;
     private provider: ApiProvider;
     private apiKey: string;
     private apiUrl: string;
     private model: string;
+    private contextWindow: number;
+    private reasoningBudget = 0;
     private workMode: WorkMode = 'cowork';
 
     // Core Services
@@ -56,6 +95,7 @@ export class AgentRuntime {
     private promptService: PromptService;
     private toolRegistry: ToolRegistry;
     private taskAnalyzer: TaskAnalyzer;
+    private contextCompactor: ContextCompactor;
 
     // Refactored modules
     private stateManager: AgentStateManager;
@@ -65,6 +105,25 @@ export class AgentRuntime {
     private artifacts: { path: string; name: string; type: string }[] = [];
     private currentToolUseId: string | null = null;
     private eventSink?: AgentEventSink;
+    private turnUsage: TokenUsage = emptyTokenUsage();
+    // Open confirmation dialogs, kept so "remember" can turn them into rules
+    private pendingPermissionRequests = new Map<string, PermissionRequest>();
+
+    // Provider failover (per turn)
+    private failoverResolver?: () => Promise<FailoverModel[]>;
+    private failoverQueue: FailoverModel[] | null = null;
+    private primaryLLMConfig: LLMConfig | null = null;
+    private llmRetries = 0;
+
+    // Checkpoints (per turn): id of the user message that started the turn
+    private turnMessageId: string | null = null;
+    private turnCheckpoint: Promise<unknown> | null = null;
+
+    // Prompt injection (per turn): untrusted tool output escalates sensitive tools
+    private injectionGuard = new PromptInjectionGuard();
+
+    // Pinned memories are part of the cached system prompt
+    private removeMemoryListener: () => void;
 
     // Performance optimization: Lazy loading
     private skillsLoaded = false;
@@ -73,6 +132,9 @@ export class AgentRuntime {
     // Cache for tools and system prompt
     private cachedTools: Anthropic.Tool[] | null = null;
     private cachedSystemPrompt: string | null = null;
+    // Memories retrieved for the latest user message, part of the system prompt
+    private relevantMemories: Memory[] = [];
+    private cachedMemoryContext: string | null = null;
     private cachedWorkMode: WorkMode | null = null;
     private cacheInvalidated = false;
 
@@ -86,6 +148,7 @@ export class AgentRuntime {
     ) {
         this.provider = provider;
         this.model = model;
+        this.contextWindow = resolveContextWindow(model);
         this.workMode = configStore.get('workMode') || 'cowork';
         this.apiKey = apiKey;
         this.apiUrl = String(apiUrl || '').trim().replace(/\/+$/, '');
@@ -106,6 +169,7 @@ export class AgentRuntime {
         // Initialize Services
         this.promptService = new PromptService();
         this.taskAnalyzer = new TaskAnalyzer();
+        this.contextCompactor = new ContextCompactor();
         this.toolRegistry = new ToolRegistry(
             this.fsTools,
             this.browserTools,
@@ -114,11 +178,13 @@ export class AgentRuntime {
             () => this.workMode,
             {
                 requestConfirmation: this.requestConfirmation.bind(this),
+                authorizeToolCall: this.authorizeToolCall.bind(this),
                 onArtifactCreated: (artifact) => {
                     this.artifacts.push(artifact);
                     this.broadcast('agent:artifact-created', artifact);
                 },
                 askUser: (question, options) => this.uiBridge.askUser(question, options),
+                delegateTask: (request, parentCallId) => this.delegateTask(request, parentCallId),
                 onToolStream: (chunk: string, type: 'stdout' | 'stderr') => {
                     if (this.currentToolUseId) {
                         this.broadcast('agent:tool-output-stream', {
@@ -130,6 +196,10 @@ export class AgentRuntime {
                 }
             }
         );
+
+        this.mcpService.setSamplingHandler((server, params) => this.handleSamplingRequest(server, params));
+        this.mcpService.onListChanged((server, kind) => { void this.handleMCPListChanged(server, kind); });
+        this.removeMemoryListener = onMemoriesChanged(() => this.invalidateCache());
     }
 
     // Public API - Work Mode
@@ -145,14 +215,59 @@ export class AgentRuntime {
     // Public API - Model & Config
     public setModel(model: string) {
         const normalized = String(model || '').trim();
-        if (normalized) this.model = normalized;
+        if (normalized) {
+            this.model = normalized;
+            this.contextWindow = resolveContextWindow(normalized);
+        }
     }
 
     public getMCPService(): MCPClientService { return this.mcpService; }
     public getToolRegistry(): ToolRegistry { return this.toolRegistry; }
 
-    public updateLLMConfig(next: { model?: string; provider?: ApiProvider; apiUrl?: string; apiKey?: string }) {
-        if (next?.model) this.model = String(next.model).trim();
+    /**
+     * Connect skills and MCP servers now instead of on the first message
+     * (the chat input lists MCP resources and prompts before anything is sent)
+     */
+    public async ensureExtensionsLoaded(): Promise<void> {
+        await this.lazyLoadSkillsAndMCP();
+    }
+
+    /**
+     * Skills without connecting MCP servers (Bingowork's own MCP server lists them as prompts)
+     */
+    public async getLoadedSkillManager(): Promise<SkillManager> {
+        await this.lazyLoadSkills();
+        return this.skillManager;
+    }
+
+    public updateLLMConfig(next: LLMConfig) {
+        // An explicit model change replaces whatever a failover switched to
+        this.primaryLLMConfig = null;
+        this.applyLLMConfig(next);
+    }
+
+    /**
+     * Supply the ordered backup models to try when the active model fails.
+     * Resolved lazily on the first failure of a turn so keys and settings are current.
+     */
+    public setFailoverResolver(resolver: () => Promise<FailoverModel[]>) {
+        this.failoverResolver = resolver;
+    }
+
+    /**
+     * Connection of the active model, for background passes that call it directly
+     */
+    public getLLMConnection(): { provider: ProviderId; model: string; apiKey: string; apiUrl: string } {
+        return { provider: this.provider as ProviderId, model: this.model, apiKey: this.apiKey, apiUrl: this.apiUrl };
+    }
+
+    private applyLLMConfig(next: LLMConfig) {
+        if (next?.model) {
+            this.model = String(next.model).trim();
+            this.contextWindow = resolveContextWindow(this.model);
+        }
+        if (next?.contextWindow && next.contextWindow > 0) this.contextWindow = next.contextWindow;
+        if (typeof next?.reasoningBudget === 'number') this.reasoningBudget = Math.max(0, next.reasoningBudget);
 
         const nextProvider = next?.provider || this.provider;
         const nextApiUrl = typeof next?.apiUrl === 'string' ? String(next.apiUrl).trim().replace(/\/+$/, '') : this.apiUrl;
@@ -166,6 +281,17 @@ export class AgentRuntime {
         }
     }
 
+    private snapshotLLMConfig(): LLMConfig {
+        return {
+            model: this.model,
+            provider: this.provider,
+            apiUrl: this.apiUrl,
+            apiKey: this.apiKey,
+            contextWindow: this.contextWindow,
+            reasoningBudget: this.reasoningBudget
+        };
+    }
+
     // Public API - Window Management (delegate to UIBridge)
     public addWindow(win: BrowserWindow) { this.uiBridge.addWindow(win); }
     public removeWindow(win: BrowserWindow) { this.uiBridge.removeWindow(win); }
@@ -173,6 +299,9 @@ export class AgentRuntime {
     // Public API - Lifecycle
     public async shutdown() {
         this.abortController?.abort();
+        this.removeMemoryListener();
+        ProcessManager.getInstance().stopAll();
+        ContainerManager.getInstance().stopAll();
         try { await this.mcpService.closeAll(); } catch { void 0; }
     }
 
@@ -203,7 +332,7 @@ export class AgentRuntime {
         this.notifyUpdate();
     }
 
-    public async regenerate(id: string) {
+    public async regenerate(id: string, options: { resend?: boolean } = {}) {
         logs.agent.info(`[AgentRuntime] Regenerating message: ${id}`);
         // Abort current processing if any
         if (this.stateManager.getIsProcessing()) {
@@ -222,15 +351,21 @@ export class AgentRuntime {
         this.stateManager.truncateHistory(id);
         this.notifyUpdate();
 
+        if (options.resend === false) return;
+
         if (targetMsg.role === 'assistant') {
             // Regenerate assistant response
             this.stateManager.setIsProcessing(true);
+            this.turnUsage = emptyTokenUsage();
+            this.resetFailoverState();
+            this.beginTurn(this.findTurnMessageId());
             try {
                  this.stateManager.setStage('THINKING');
                  await this.runLoop();
             } catch (error) {
                  this.handleProcessingError(error);
             } finally {
+                 this.restorePrimaryModel();
                  this.stateManager.setIsProcessing(false);
                  this.stateManager.setStage('IDLE');
                  this.notifyUpdate();
@@ -259,6 +394,57 @@ export class AgentRuntime {
         }
     }
 
+    /**
+     * Restore the files from the checkpoint taken at or after a message and drop
+     * the message and everything after it from the history
+     */
+    public async revertToMessage(id: string): Promise<CheckpointRestoreResult | null> {
+        if (this.stateManager.getIsProcessing()) {
+            this.abort();
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+
+        const history = this.stateManager.getHistory();
+        const targetIndex = history.findIndex(m => m.id === id);
+        if (targetIndex === -1) {
+            throw new Error(`Message ${id} not found`);
+        }
+
+        // The first checkpoint from this message on holds the files as they were before it
+        const store = CheckpointStore.getInstance();
+        const checkpointId = history.slice(targetIndex).find(m => m.id && store.hasCheckpoint(m.id))?.id;
+        const result = checkpointId ? await store.restore(checkpointId) : null;
+
+        await this.regenerate(id, { resend: false });
+        this.eventSink?.logEvent('checkpoint_restored', {
+            messageId: id,
+            checkpointId: checkpointId ?? null,
+            restored: result?.restored.length ?? 0,
+            removed: result?.removed.length ?? 0,
+            kept: result?.kept.length ?? 0,
+            failed: result?.failed.length ?? 0
+        });
+        return result;
+    }
+
+    /**
+     * Ids of user messages that can be reverted, i.e. with a checkpoint at or after them
+     */
+    public getRevertableMessageIds(): string[] {
+        const store = CheckpointStore.getInstance();
+        const history = this.stateManager.getHistory();
+        const ids: string[] = [];
+        let checkpointAhead = false;
+
+        for (let i = history.length - 1; i >= 0; i--) {
+            const message = history[i];
+            if (!message.id) continue;
+            checkpointAhead = checkpointAhead || store.hasCheckpoint(message.id);
+            if (checkpointAhead && this.isPromptMessage(message)) ids.push(message.id);
+        }
+        return ids.reverse();
+    }
+
     // Public API - Confirmations
     public handleConfirmResponse(id: string, approved: boolean) {
         this.uiBridge.handleConfirmResponse(id, approved);
@@ -268,8 +454,24 @@ export class AgentRuntime {
         this.uiBridge.handleUserQuestionResponse(id, answer);
     }
 
-    public handleConfirmResponseWithRemember(id: string, approved: boolean, _remember: boolean): void {
+    /**
+     * Answer a confirmation and, when approved with "remember", save an allow
+     * rule for the same call in the chosen scope
+     */
+    public handleConfirmResponseWithRemember(id: string, approved: boolean, remember: PermissionRuleScope | null): PermissionRule | null {
+        const request = this.pendingPermissionRequests.get(id);
+        let rule: PermissionRule | null = null;
+        if (approved && remember && request) {
+            const scopeValue = remember === 'session'
+                ? request.sessionId
+                : remember === 'folder' ? this.authorizedFolderFor(request.path) : undefined;
+            if (remember === 'global' || scopeValue) {
+                rule = createRememberedRule(request, remember, scopeValue);
+                configStore.savePermissionRule(rule);
+            }
+        }
         this.uiBridge.handleConfirmResponse(id, approved);
+        return rule;
     }
 
     public abort() { this.abortController?.abort(); }
@@ -283,6 +485,8 @@ export class AgentRuntime {
 
         this.stateManager.setIsProcessing(true);
         this.stateManager.resetSensitiveContentRetries();
+        this.turnUsage = emptyTokenUsage();
+        this.resetFailoverState();
 
         try {
             this.abortController = new AbortController();
@@ -293,7 +497,9 @@ export class AgentRuntime {
             this.stateManager.checkMemoryUsage();
 
             const userContent = await this.prepareUserContent(input);
+            await this.retrieveRelevantMemories(typeof input === 'string' ? input : input.content);
             this.stateManager.addToHistory({ role: 'user', content: userContent });
+            this.beginTurn(this.findTurnMessageId());
             this.notifyUpdate();
 
             await this.runLoop();
@@ -301,6 +507,7 @@ export class AgentRuntime {
         } catch (error: unknown) {
             this.handleProcessingError(error);
         } finally {
+            this.restorePrimaryModel();
             this.stateManager.setIsProcessing(false);
             this.abortController = null;
             this.stateManager.setStage('IDLE');
@@ -319,10 +526,38 @@ export class AgentRuntime {
         return this.toolRegistry.executeTool(toolName, args);
     }
 
+    /**
+     * Tool call from a client of Bingowork's own MCP server: deny rules refuse
+     * it, allow rules let it run and anything else is confirmed by the user
+     */
+    async executeExternalToolCall(client: string, toolName: string, args: Record<string, unknown>): Promise<string> {
+        const request = this.buildPermissionRequest(toolName, args);
+        const { decision, rule } = evaluatePermissionRules(configStore.getPermissionRules(), request);
+        this.eventSink?.logEvent('mcp_server_call', { client, tool: toolName, decision });
+
+        if (decision === 'deny' || decision === 'allow') {
+            this.auditRuleDecision(request, args, decision, rule);
+            if (decision === 'deny') {
+                return `Error: 权限规则禁止此操作（${rule?.note || `规则 ${rule?.id}`}）。`;
+            }
+        } else {
+            const approved = await this.promptConfirmation(
+                toolName,
+                `外部 MCP 客户端 ${client} 请求调用 ${toolName}：${describePermissionRequest(request) || toolName}`,
+                args,
+                request
+            );
+            if (!approved) return 'Error: User denied the operation.';
+        }
+
+        return this.toolRegistry.executeTool(toolName, args, () => undefined, undefined, undefined, { ok: true, confirmed: true });
+    }
+
     // Private helpers
     private createProvider(apiKey: string, apiUrl: string, provider: ApiProvider): BaseLLMProvider {
         if (provider === 'openai') return new OpenAIProvider(apiKey, apiUrl);
         if (provider === 'minimax') return new MiniMaxProvider(apiKey, apiUrl);
+        if (provider === 'ollama') return new OllamaProvider(apiKey, apiUrl);
         return new AnthropicProvider(apiKey, apiUrl);
     }
 
@@ -342,23 +577,40 @@ export class AgentRuntime {
         return this.cachedTools;
     }
 
-    private getSystemPromptIfNeeded(): string {
-        if (!this.cacheInvalidated && this.cachedSystemPrompt && this.cachedWorkMode === this.workMode) {
+    private async getSystemPromptIfNeeded(): Promise<string> {
+        // Pinned project and session memories change with the folder and session
+        const memoryContext = JSON.stringify(getMemoryManager().currentContext());
+        if (!this.cacheInvalidated && this.cachedSystemPrompt && this.cachedWorkMode === this.workMode && this.cachedMemoryContext === memoryContext) {
             return this.cachedSystemPrompt;
         }
-        this.cachedSystemPrompt = this.promptService.buildSystemPrompt(this.skillManager, this.workMode);
+        this.cachedMemoryContext = memoryContext;
+        const pinnedMemories = await getMemoryManager().getPinnedMemories();
+        this.cachedSystemPrompt = this.promptService.buildSystemPrompt(this.skillManager, this.workMode, pinnedMemories, this.relevantMemories);
         this.cachedWorkMode = this.workMode;
         this.cacheInvalidated = false;
         return this.cachedSystemPrompt;
     }
 
-    private async lazyLoadSkillsAndMCP(): Promise<void> {
+    private async retrieveRelevantMemories(message: string): Promise<void> {
+        const memories = await getMemoryManager().retrieveRelevant(message);
+        const key = (list: Memory[]) => list.map(m => `${m.id}:${m.updatedAt}`).join(',');
+        if (key(memories) === key(this.relevantMemories)) return;
+        this.relevantMemories = memories;
+        // Only the prompt changes; the tool list stays cached
+        this.cachedSystemPrompt = null;
+    }
+
+    private async lazyLoadSkills(): Promise<void> {
         if (!this.skillsLoaded) {
             await this.skillManager.loadSkills();
             await this.toolRegistry.loadDynamicTools();
             this.skillsLoaded = true;
             this.invalidateCache();
         }
+    }
+
+    private async lazyLoadSkillsAndMCP(): Promise<void> {
+        await this.lazyLoadSkills();
 
         if (!this.mcpLoaded) {
             if (configStore.getNetworkAccess()) {
@@ -372,6 +624,73 @@ export class AgentRuntime {
         }
     }
 
+    /**
+     * A server changed its tool, resource or prompt list: tools are re-registered
+     * right away and the renderer refreshes its resource and prompt menus
+     */
+    private async handleMCPListChanged(server: string, kind: MCPListKind): Promise<void> {
+        if (kind === 'tools') {
+            try {
+                await this.toolRegistry.loadDynamicTools();
+                this.invalidateCache();
+            } catch (error) {
+                logs.mcp.error(`[MCP] Failed to reload tools for ${server}:`, error);
+            }
+        }
+        this.broadcast('mcp:lists-changed', { server, kind });
+    }
+
+    /**
+     * sampling/createMessage from an MCP server: the user approves each request,
+     * then it runs on the active provider without tools
+     */
+    private async handleSamplingRequest(server: string, params: CreateMessageRequest['params']): Promise<CreateMessageResult> {
+        if (params.tools?.length) {
+            throw new Error('Tool use in sampling requests is not supported');
+        }
+        const maxTokens = Math.min(params.maxTokens, AGENT_CONSTANTS.DEFAULT_MAX_TOKENS);
+        const tool = `${server}__sampling`;
+        const args = {
+            systemPrompt: params.systemPrompt,
+            messages: summarizeSamplingMessages(params.messages),
+            maxTokens
+        };
+        // Deny rules still refuse, but no allow rule stands in for the user's approval
+        const request = this.buildPermissionRequest(tool, args);
+        const { decision, rule } = evaluatePermissionRules(configStore.getPermissionRules(), request);
+        if (decision === 'deny') {
+            this.auditRuleDecision(request, args, decision, rule);
+            throw new Error('Sampling request denied by a permission rule');
+        }
+        const approved = await this.promptConfirmation(
+            tool,
+            `MCP 服务器 ${server} 请求使用当前模型生成内容（最多 ${maxTokens} tokens）`,
+            args,
+            request,
+            { remember: false }
+        );
+        if (!approved) {
+            throw new Error('User rejected the sampling request');
+        }
+
+        this.validateConfig();
+        this.eventSink?.logEvent('mcp_sampling', { server, model: this.model, maxTokens });
+        const content = await this.llmProvider.streamChat({
+            model: this.model,
+            systemPrompt: params.systemPrompt || '',
+            messages: samplingMessagesToAnthropic(params.messages),
+            tools: [],
+            maxTokens,
+            contextWindow: this.contextWindow,
+            onUsage: (usage) => this.recordUsage(usage)
+        });
+        const text = content
+            .filter((b): b is Anthropic.TextBlock => b.type === 'text')
+            .map(b => b.text)
+            .join('');
+        return { role: 'assistant', content: { type: 'text', text }, model: this.model, stopReason: 'endTurn' };
+    }
+
     private async prepareUserContent(input: string | { content: string, images: string[] }): Promise<string | Anthropic.ContentBlockParam[]> {
         let userText = typeof input === 'string' ? input : (input.content || '');
 
@@ -436,11 +755,13 @@ export class AgentRuntime {
             if (this.workMode !== configuredWorkMode) this.workMode = configuredWorkMode;
 
             const tools = await this.getToolsIfNeeded();
-            const systemPrompt = this.getSystemPromptIfNeeded();
+            const systemPrompt = await this.getSystemPromptIfNeeded();
 
             try {
                 this.validateConfig();
                 this.stateManager.setStage('THINKING', { iteration: iterationCount });
+                await this.compactContextIfNeeded(systemPrompt, tools);
+                if (this.abortController?.signal.aborted) return;
 
                 const finalContent = await generateResponse(
                     this.provider as ProviderId,
@@ -450,14 +771,19 @@ export class AgentRuntime {
                         messages: this.stateManager.getHistory(),
                         tools,
                         maxTokens: AGENT_CONSTANTS.DEFAULT_MAX_TOKENS,
+                        thinkingBudget: this.reasoningBudget || undefined,
+                        contextWindow: this.contextWindow,
                         signal: this.abortController?.signal,
-                        onToken: (token) => this.broadcast('agent:stream-token', token)
+                        onToken: (token) => this.broadcast('agent:stream-token', token),
+                        onThinking: (token) => this.broadcast('agent:stream-thinking', token),
+                        onUsage: (usage) => this.recordUsage(usage)
                     },
                     { apiKey: this.apiKey, apiUrl: this.apiUrl },
                     this.llmProvider
                 );
 
                 if (this.abortController?.signal.aborted) return;
+                this.llmRetries = 0;
                 keepGoing = await this.processContent(finalContent, iterationCount);
 
             } catch (loopError: unknown) {
@@ -468,8 +794,61 @@ export class AgentRuntime {
         }
     }
 
+    /**
+     * Summarise older turns once the prompt approaches the model's context window
+     */
+    private async compactContextIfNeeded(systemPrompt: string, tools: Anthropic.Tool[]): Promise<void> {
+        const history = this.stateManager.getHistory();
+        const overheadTokens = estimateTextTokens(systemPrompt) + estimateTextTokens(JSON.stringify(tools));
+        if (!this.contextCompactor.shouldCompact(history, overheadTokens, this.contextWindow)) return;
+
+        this.broadcast('agent:status', '正在压缩上下文...');
+        const result = await this.contextCompactor.compact({
+            history,
+            contextWindow: this.contextWindow,
+            provider: this.llmProvider,
+            model: this.model,
+            signal: this.abortController?.signal,
+            onUsage: (usage) => this.recordUsage(usage)
+        });
+        if (!result) {
+            logs.agent.warn('[AgentRuntime] Context is near the limit but no turn boundary allows compaction');
+            return;
+        }
+
+        this.stateManager.replaceHistory(result.history);
+        const detail = {
+            compactedCount: result.compactedCount,
+            tokensBefore: result.tokensBefore,
+            tokensAfter: result.tokensAfter,
+            summarized: result.summarized,
+            contextWindow: this.contextWindow
+        };
+        logs.agent.info('[AgentRuntime] Context compacted', detail);
+        this.eventSink?.logEvent('context_compacted', detail);
+        this.broadcast('agent:context-compacted', detail);
+        this.notifyUpdate();
+    }
+
+    private recordUsage(usage: TokenUsage): void {
+        this.turnUsage = addTokenUsage(this.turnUsage, usage);
+        this.eventSink?.recordUsage?.({ provider: this.provider, model: this.model, usage });
+        if (usage.cacheReadTokens > 0 || usage.cacheWriteTokens > 0) {
+            const promptTokens = usage.inputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+            this.eventSink?.logEvent('prompt_cache', {
+                model: this.model,
+                cacheReadTokens: usage.cacheReadTokens,
+                cacheWriteTokens: usage.cacheWriteTokens,
+                uncachedInputTokens: usage.inputTokens,
+                hitRate: promptTokens > 0 ? usage.cacheReadTokens / promptTokens : 0
+            });
+        }
+        this.broadcast('agent:usage', { model: this.model, usage, turn: this.turnUsage });
+    }
+
     private validateConfig(): void {
-        if (!String(this.apiKey || '').trim()) {
+        // Local servers run without authentication
+        if (this.provider !== 'ollama' && !String(this.apiKey || '').trim()) {
             throw AgentErrorHandler.createError('API Key 未配置', 401);
         }
         if (!String(this.model || '').trim()) {
@@ -580,12 +959,15 @@ export class AgentRuntime {
          let result = "";
          
          try {
+            await this.checkpointBeforeWrite(toolUse.name, toolUse.input as Record<string, unknown>);
             result = await this.toolRegistry.executeTool(
                 toolUse.name,
                 toolUse.input as Record<string, unknown>,
                 undefined,
-                this.abortController?.signal
+                this.abortController?.signal,
+                toolUse.id
             );
+            result = this.guardToolOutput(toolUse.name, result, toolUse.id);
             this.broadcast('agent:tool-result', { callId: toolUse.id, status: 'done' });
             this.eventSink?.logEvent('tool_executed', {
                 tool: toolUse.name, toolUseId: toolUse.id,
@@ -606,6 +988,151 @@ export class AgentRuntime {
          return result;
     }
 
+    /**
+     * Run a delegate_task call in an isolated child runtime and return only its report
+     */
+    private async delegateTask(request: DelegateTaskRequest, parentCallId?: string): Promise<string> {
+        const available = (await this.getToolsIfNeeded()).filter(t => !SUB_AGENT_EXCLUDED_TOOLS.has(t.name));
+        let tools = available;
+        let unavailable: string[] = [];
+        if (request.tools && request.tools.length > 0) {
+            const requested = new Set(request.tools);
+            tools = available.filter(t => requested.has(t.name));
+            unavailable = request.tools.filter(name => !tools.some(t => t.name === name));
+            if (tools.length === 0) {
+                return `Error: none of the requested tools are available to a sub-agent: ${unavailable.join(', ')}`;
+            }
+        }
+
+        const maxIterations = Math.min(
+            Math.max(Math.floor(request.maxIterations || AGENT_CONSTANTS.SUB_AGENT_DEFAULT_ITERATIONS), 1),
+            AGENT_CONSTANTS.SUB_AGENT_MAX_ITERATIONS
+        );
+
+        const child = new SubAgentRuntime({
+            task: request.task,
+            context: request.context,
+            systemPrompt: this.promptService.buildSubAgentPrompt(),
+            tools,
+            maxIterations,
+            llm: {
+                provider: this.provider as ProviderId,
+                model: this.model,
+                apiKey: this.apiKey,
+                apiUrl: this.apiUrl,
+                llmProvider: this.llmProvider,
+                reasoningBudget: this.reasoningBudget
+            },
+            // Child tool output is not streamed into the parent's tool block
+            executeTool: async (name, input, signal) => {
+                await this.checkpointBeforeWrite(name, input);
+                const output = await this.toolRegistry.executeTool(name, input, () => undefined, signal);
+                return this.guardToolOutput(name, output);
+            },
+            signal: this.abortController?.signal,
+            onProgress: (progress) => {
+                if (parentCallId) this.broadcast('agent:subagent-progress', { parentCallId, ...progress });
+            },
+            onUsage: (usage) => this.recordUsage(usage)
+        });
+
+        this.eventSink?.logEvent('subagent_started', {
+            agentId: child.id,
+            parentCallId,
+            task: request.task.slice(0, 500),
+            tools: tools.map(t => t.name),
+            maxIterations
+        });
+        const result = await child.run();
+        this.eventSink?.logEvent('subagent_finished', {
+            agentId: result.agentId,
+            parentCallId,
+            status: result.status,
+            iterations: result.iterations,
+            toolCalls: result.toolCalls
+        });
+
+        const notes = unavailable.length > 0 ? `\nUnavailable tools ignored: ${unavailable.join(', ')}` : '';
+        return `[Sub-agent ${result.status} after ${result.iterations} iteration(s), ${result.toolCalls} tool call(s)]${notes}\n\n${result.report}`;
+    }
+
+    /**
+     * Wrap untrusted tool output in an envelope and log suspected injections
+     */
+    private guardToolOutput(tool: string, output: string, toolUseId?: string): string {
+        const guarded = this.injectionGuard.inspect(tool, output);
+        if (guarded.findings.length > 0) {
+            logs.agent.warn(`[PromptInjection] ${tool} output flagged: ${guarded.findings.map(f => f.kind).join(', ')}`);
+            this.eventSink?.logEvent('prompt_injection_detected', {
+                tool,
+                toolUseId,
+                source: guarded.source,
+                findings: guarded.findings
+            });
+        }
+        return guarded.content;
+    }
+
+    private beginTurn(messageId: string | null) {
+        this.turnMessageId = messageId;
+        this.turnCheckpoint = null;
+        this.injectionGuard.resetTurn();
+    }
+
+    /**
+     * Prompts typed by the user, as opposed to tool results sent back in a user turn
+     */
+    private isPromptMessage(message: AgentMessage): boolean {
+        if (message.role !== 'user') return false;
+        if (!Array.isArray(message.content)) return true;
+        return message.content.some(block => block.type !== 'tool_result');
+    }
+
+    private findTurnMessageId(): string | null {
+        const history = this.stateManager.getHistory();
+        for (let i = history.length - 1; i >= 0; i--) {
+            if (this.isPromptMessage(history[i])) return history[i].id ?? null;
+        }
+        return null;
+    }
+
+    /**
+     * Snapshot the authorized folders before the turn's first file-modifying tool call,
+     * and record the files a write tool is about to touch so a revert removes the ones
+     * it creates. A failed snapshot is logged but never blocks the tool.
+     */
+    private async checkpointBeforeWrite(toolName: string, input: Record<string, unknown>): Promise<void> {
+        if (!CHECKPOINT_TRIGGER_TOOLS.has(toolName) || !this.turnMessageId) return;
+
+        const messageId = this.turnMessageId;
+        const store = CheckpointStore.getInstance();
+        try {
+            if (!this.turnCheckpoint) {
+                this.turnCheckpoint = store.createCheckpoint(messageId, permissionManager.getAuthorizedFolders());
+            }
+            await this.turnCheckpoint;
+            const targets = this.writeTargets(toolName, input);
+            if (targets.length > 0) {
+                await store.addFiles(messageId, targets);
+            }
+        } catch (error) {
+            logs.agent.warn(`[Checkpoint] Failed to snapshot files before ${toolName}:`, error);
+        }
+    }
+
+    private writeTargets(toolName: string, input: Record<string, unknown>): string[] {
+        if (typeof input?.path === 'string') return [input.path];
+        if (toolName !== 'apply_patch' || typeof input?.patch !== 'string') return [];
+        try {
+            return parseUnifiedDiff(input.patch)
+                .map(file => file.newPath ?? file.oldPath)
+                .filter((target): target is string => !!target);
+        } catch {
+            // The tool reports the malformed patch itself
+            return [];
+        }
+    }
+
     private isSerialTool(name: string): boolean {
         // run_command is the main one that streams and needs serial execution
         // We also treat all MCP tools as serial for safety unless we know otherwise
@@ -616,12 +1143,6 @@ export class AgentRuntime {
     }
 
     private async handleLoopError(error: unknown, _iterationCount: number): Promise<{ continue: boolean; decrementIteration?: boolean }> {
-        if (AgentErrorHandler.isRateLimitError(error)) {
-            await AgentErrorHandler.handleRateLimit(0);
-            this.broadcast('agent:status', 'Rate limit hit, retrying...');
-            return { continue: true, decrementIteration: true };
-        }
-
         if (AgentErrorHandler.isSensitiveContentError(error)) {
             if (this.stateManager.hasExceededSensitiveContentRetries()) {
                 this.broadcast('agent:error', `内容安全拦截次数过多，请修改输入后重试。`);
@@ -641,9 +1162,92 @@ export class AgentRuntime {
             return { continue: true };
         }
 
+        const errorClass = AgentErrorHandler.getRetryClass(error);
+        const signal = this.abortController?.signal;
+        if (!errorClass || signal?.aborted) return { continue: false };
+
+        // Back off and retry on the same model first, then move down the fallback chain
+        const policy = RETRY_POLICIES[errorClass];
+        if (this.llmRetries < policy.maxRetries) {
+            const delay = AgentErrorHandler.getBackoffDelay(errorClass, this.llmRetries, error);
+            this.llmRetries++;
+            logs.agent.warn(`[AgentRuntime] ${errorClass} error, retry ${this.llmRetries}/${policy.maxRetries} in ${delay}ms`);
+            this.broadcast('agent:status', `请求失败（${errorClass}），${Math.ceil(delay / 1000)} 秒后重试（${this.llmRetries}/${policy.maxRetries}）...`);
+            await AgentErrorHandler.waitForRetry(delay, signal);
+            return { continue: !signal?.aborted, decrementIteration: true };
+        }
+
+        if (policy.failover && await this.failoverToNextModel(error, errorClass)) {
+            return { continue: true, decrementIteration: true };
+        }
+
         return { continue: false };
     }
 
+    /**
+     * Switch to the next configured backup model, keeping the history as is
+     * @returns false when there is no backup left to try
+     */
+    private async failoverToNextModel(error: unknown, errorClass: string): Promise<boolean> {
+        if (!this.failoverResolver) return false;
+
+        if (!this.failoverQueue) {
+            try {
+                this.failoverQueue = await this.failoverResolver();
+            } catch (resolveError) {
+                logs.agent.warn('[AgentRuntime] Failed to resolve fallback models:', resolveError);
+                this.failoverQueue = [];
+            }
+        }
+
+        // Skip entries that point at the model that just failed
+        let next = this.failoverQueue.shift();
+        while (next && next.modelId === this.model && next.baseUrl === this.apiUrl) {
+            next = this.failoverQueue.shift();
+        }
+        if (!next) return false;
+
+        const from = this.model;
+        if (!this.primaryLLMConfig) this.primaryLLMConfig = this.snapshotLLMConfig();
+        this.applyLLMConfig({
+            model: next.modelId,
+            provider: toTransportProvider(next.protocol),
+            apiUrl: next.baseUrl,
+            apiKey: next.apiKey,
+            contextWindow: next.contextWindow,
+            reasoningBudget: next.reasoningBudget ?? 0
+        });
+        this.llmRetries = 0;
+
+        const detail = {
+            from,
+            to: next.modelId,
+            toDisplayName: next.displayName,
+            errorClass,
+            reason: (error as Error)?.message || String(error)
+        };
+        logs.agent.warn('[AgentRuntime] Failing over to backup model', detail);
+        this.eventSink?.logEvent('model_failover', detail);
+        this.broadcast('agent:model-failover', detail);
+        this.broadcast('agent:status', `${from} 调用失败，已切换到备用模型 ${next.displayName}`);
+        return true;
+    }
+
+    private resetFailoverState(): void {
+        this.failoverQueue = null;
+        this.llmRetries = 0;
+    }
+
+    /**
+     * Go back to the configured model after a turn that failed over,
+     * so the next turn gives it another chance
+     */
+    private restorePrimaryModel(): void {
+        if (!this.primaryLLMConfig) return;
+        this.applyLLMConfig(this.primaryLLMConfig);
+        this.primaryLLMConfig = null;
+    }
+
     private handleProcessingError(error: unknown): void {
         logs.agent.error('Agent Loop Error:', error);
         this.eventSink?.logEvent('error', {
@@ -654,24 +1258,139 @@ export class AgentRuntime {
     }
 
     private async requestConfirmation(tool: string, description: string, args: Record<string, unknown>): Promise<boolean> {
-        const path = (args?.path || args?.cwd) as string | undefined;
+        const request = this.buildPermissionRequest(tool, args);
+        const { decision, rule } = evaluatePermissionRules(configStore.getPermissionRules(), request);
+        if (decision === 'allow' || decision === 'deny') {
+            this.auditRuleDecision(request, args, decision, rule);
+            return decision === 'allow';
+        }
+        if (decision === null && tool === 'write_file' && request.path && permissionManager.isPathAuthorized(request.path)) {
+            auditLog.record({ type: 'rule_decision', outcome: 'allowed', tool, args, subject: request.path, detail: 'Inside an authorized folder' });
+            return true;
+        }
+        return this.promptConfirmation(tool, description, args, request);
+    }
+
+    /**
+     * Apply the permission rules before a tool runs: deny refuses it, allow
+     * skips its confirmation and ask confirms even tools that never ask
+     */
+    private async authorizeToolCall(tool: string, args: Record<string, unknown>): Promise<ToolCallAuthorization> {
+        const request = this.buildPermissionRequest(tool, args);
+        const { decision, rule } = evaluatePermissionRules(configStore.getPermissionRules(), request);
+        if (decision !== 'deny' && this.injectionGuard.requiresConfirmation(tool)) {
+            return this.confirmAfterUntrustedContent(tool, args, request);
+        }
+        if (!decision || !rule) return { ok: true, confirmed: false };
+
+        this.eventSink?.logEvent('permission_rule', { tool, decision, ruleId: rule.id });
+        this.auditRuleDecision(request, args, decision, rule);
+        if (decision === 'allow') return { ok: true, confirmed: true };
+        if (decision === 'deny') {
+            logs.agent.warn(`[Permission] Rule ${rule.id} denied ${tool}`);
+            return { ok: false, error: `Error: 权限规则禁止此操作（${rule.note || `规则 ${rule.id}`}）。` };
+        }
+
+        const approved = await this.promptConfirmation(tool, `权限规则要求确认此操作：${rule.note || tool}`, args, request);
+        return approved ? { ok: true, confirmed: true } : { ok: false, error: 'User denied the operation.' };
+    }
 
-        if (configStore.hasPermission(tool, path)) return true;
-        if (tool === 'write_file' && path && permissionManager.isPathAuthorized(path)) return true;
+    /**
+     * Sensitive tools after untrusted content in the same turn always ask,
+     * whatever the allow rules say
+     */
+    private async confirmAfterUntrustedContent(tool: string, args: Record<string, unknown>, request: PermissionRequest): Promise<ToolCallAuthorization> {
+        const sources = this.injectionGuard.getTaintSources();
+        this.eventSink?.logEvent('prompt_injection_escalated', { tool, sources });
+        const approved = await this.promptConfirmation(
+            tool,
+            `本轮对话读取了不受信任的内容（${sources.join(', ')}），执行敏感操作前需要确认：${describePermissionRequest(request) || tool}`,
+            args,
+            request
+        );
+        return approved ? { ok: true, confirmed: true } : { ok: false, error: 'User denied the operation.' };
+    }
 
+    /**
+     * Ask the user; with remember: false the dialog offers no "remember" and
+     * no allow rule can be saved from the answer
+     */
+    private async promptConfirmation(
+        tool: string,
+        description: string,
+        args: Record<string, unknown>,
+        request: PermissionRequest,
+        options: { remember?: boolean } = {}
+    ): Promise<boolean> {
         const id = `confirm-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-        const token = createPendingConfirmation(id, tool, path || '');
-        return this.uiBridge.requestConfirmation(id, { id, tool, description, args, token });
+        const token = createPendingConfirmation(id, tool, request.path || '');
+        // Scopes the dialog can offer for "remember"
+        const rememberScopes = options.remember === false ? null : {
+            session: Boolean(request.sessionId),
+            folder: this.authorizedFolderFor(request.path) || null
+        };
+        if (rememberScopes) this.pendingPermissionRequests.set(id, request);
+        const subject = describePermissionRequest(request);
+        auditLog.record({ type: 'permission_prompt', outcome: 'prompted', tool, args, subject, detail: description });
+        let approved = false;
+        try {
+            approved = await this.uiBridge.requestConfirmation(id, { id, tool, description, args, token, rememberScopes });
+            return approved;
+        } finally {
+            this.pendingPermissionRequests.delete(id);
+            auditLog.record({ type: 'permission_decision', outcome: approved ? 'approved' : 'denied', tool, args, subject });
+        }
     }
 
     private async checkToolPermission(toolName: string, args: Record<string, unknown>): Promise<boolean> {
-        const path = (args?.path || args?.cwd) as string | undefined;
-        if (configStore.hasPermission(toolName, path)) return true;
-        if (toolName === 'write_file' && path && permissionManager.isPathAuthorized(path)) return true;
+        const request = this.buildPermissionRequest(toolName, args);
+        const { decision, rule } = evaluatePermissionRules(configStore.getPermissionRules(), request);
+        if (decision === 'allow') {
+            this.auditRuleDecision(request, args, decision, rule);
+            return true;
+        }
+        if (decision === null && toolName === 'write_file' && request.path && permissionManager.isPathAuthorized(request.path)) {
+            auditLog.record({ type: 'rule_decision', outcome: 'allowed', tool: toolName, args, subject: request.path, detail: 'Scheduled task, inside an authorized folder' });
+            return true;
+        }
         logs.agent.warn(`[executeToolDirectly] Permission denied for ${toolName}`);
+        // Scheduled calls cannot prompt, so anything short of an allow rule is denied
+        auditLog.record({
+            type: 'permission_decision',
+            outcome: 'denied',
+            tool: toolName,
+            args,
+            subject: describePermissionRequest(request),
+            ruleId: rule?.id,
+            detail: decision ? `Scheduled task, rule decision: ${decision}` : 'Scheduled task, no allow rule'
+        });
         return false;
     }
 
+    private auditRuleDecision(request: PermissionRequest, args: Record<string, unknown>, decision: 'allow' | 'deny' | 'ask', rule?: PermissionRule) {
+        auditLog.record({
+            type: 'rule_decision',
+            outcome: decision === 'allow' ? 'allowed' : decision === 'deny' ? 'denied' : 'ask',
+            tool: request.tool,
+            args,
+            subject: describePermissionRequest(request),
+            ruleId: rule?.id,
+            detail: rule?.note
+        });
+    }
+
+    private buildPermissionRequest(tool: string, args: Record<string, unknown>): PermissionRequest {
+        return permissionRequestFromArgs(tool, args, {
+            baseDir: permissionManager.getAuthorizedFolders()[0],
+            sessionId: sessionStore.getCurrentSessionId() || undefined
+        });
+    }
+
+    private authorizedFolderFor(filePath?: string): string | undefined {
+        if (!filePath) return undefined;
+        return permissionManager.getAuthorizedFolders().find(folder => matchesPathPattern(filePath, folder));
+    }
+
     private buildTodoReminder(analysis: { complexity: string; reason: string; estimatedSteps?: number }): string {
         return `<SYSTEM REMINDER>
 COMPLEX TASK DETECTED - TODO_WRITE USAGE REQUIRED
@@ -9,12 +9,15 @@ import Anthropic from '@anthropic-ai/sdk';
 import { nanoid } from 'nanoid';
 import { logs } from '../utils/logger';
 import { AGENT_CONSTANTS, AgentStage, AgentMessage } from './AgentConstants';
+import type { TokenUsage } from './providers/BaseLLMProvider';
+import { buildSummaryMessage, isTurnBoundary } from './services/ContextCompactor';
 
 /**
  * Event sink interface for logging events
  */
 export interface AgentEventSink {
     logEvent: (type: string, payload: unknown) => void;
+    recordUsage?: (record: { provider: string; model: string; usage: TokenUsage }) => void;
 }
 
 /**
@@ -124,6 +127,13 @@ export class AgentStateManager {
         this.history = withIds.slice(0, AGENT_CONSTANTS.MAX_HISTORY_SIZE);
     }
 
+    /**
+     * Replace history wholesale (e.g. after context compaction), keeping message ids
+     */
+    replaceHistory(messages: AgentMessage[]): void {
+        this.history = messages.map((m) => ({ ...m, id: m.id || nanoid() }));
+    }
+
     deleteMessage(id: string): void {
         const next = this.history.filter((m) => m.id !== id);
         this.history = next;
@@ -138,8 +148,9 @@ export class AgentStateManager {
     }
 
     /**
-     * Smart history management that preserves important context
-     * while keeping memory usage under control
+     * Emergency trim used under memory pressure or repeated retries.
+     * Token-aware summarisation lives in ContextCompactor; this only drops the
+     * oldest turns, cutting at a turn boundary so tool_use/tool_result pairs stay intact.
      */
     manageHistory(): void {
         const threshold = AGENT_CONSTANTS.MAX_HISTORY_SIZE * AGENT_CONSTANTS.HISTORY_TRIM_THRESHOLD;
@@ -147,14 +158,27 @@ export class AgentStateManager {
             return; // Still has room
         }
 
-        const messagesToKeep = AGENT_CONSTANTS.MAX_HISTORY_SIZE - AGENT_CONSTANTS.SYSTEM_MESSAGES_TO_KEEP;
         const oldSize = this.history.length;
+        // Leave room for the truncation notice
+        const earliestStart = this.history.length - (AGENT_CONSTANTS.MAX_HISTORY_SIZE - AGENT_CONSTANTS.SYSTEM_MESSAGES_TO_KEEP);
+        let start = -1;
+        for (let i = Math.max(1, earliestStart); i < this.history.length; i++) {
+            if (isTurnBoundary(this.history, i)) {
+                start = i;
+                break;
+            }
+        }
+        if (start === -1) {
+            logs.agent.warn('[AgentStateManager] No turn boundary found, history left untouched');
+            return;
+        }
 
-        // Preserve beginning (system messages) and end (recent context)
-        this.history = [
-            ...this.history.slice(0, AGENT_CONSTANTS.SYSTEM_MESSAGES_TO_KEEP),
-            ...this.history.slice(-messagesToKeep)
-        ];
+        const notice = buildSummaryMessage(
+            `(${start} earlier messages were removed to reduce memory usage.)`,
+            start
+        );
+        this.history = [notice, ...this.history.slice(start)];
+        this.eventSink?.logEvent('history_trimmed', { before: oldSize, after: this.history.length });
 
         logs.agent.info(`[AgentStateManager] History trimmed from ${oldSize} to ${this.history.length} messages`);
     }
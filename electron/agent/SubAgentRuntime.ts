@@ -0,0 +1,210 @@
+/**
+ * Sub-Agent Runtime
+ *
+ * Runs a delegated subtask (delegate_task) in an isolated history with a
+ * restricted tool set and its own iteration budget. Only the final report
+ * is handed back to the parent runtime, keeping intermediate tool output
+ * out of the parent's context.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { nanoid } from 'nanoid';
+import { logs } from '../utils/logger';
+import { AGENT_CONSTANTS } from './AgentConstants';
+import { AgentStateManager } from './AgentStateManager';
+import type { BaseLLMProvider, TokenUsage } from './providers/BaseLLMProvider';
+import { generateResponse, ProviderId } from './providers/generateResponse';
+
+export interface SubAgentLLMConfig {
+    provider: ProviderId;
+    model: string;
+    apiKey: string;
+    apiUrl: string;
+    llmProvider: BaseLLMProvider;
+    reasoningBudget?: number;
+}
+
+export type SubAgentStepStatus = 'running' | 'done' | 'error';
+
+export interface SubAgentProgress {
+    agentId: string;
+    iteration: number;
+    maxIterations: number;
+    step?: { callId: string; name: string; status: SubAgentStepStatus };
+    status?: SubAgentResult['status'];
+}
+
+export interface SubAgentOptions {
+    task: string;
+    context?: string;
+    systemPrompt: string;
+    tools: Anthropic.Tool[];
+    maxIterations: number;
+    llm: SubAgentLLMConfig;
+    executeTool: (name: string, input: Record<string, unknown>, signal?: AbortSignal) => Promise<string>;
+    signal?: AbortSignal;
+    onProgress?: (progress: SubAgentProgress) => void;
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface SubAgentResult {
+    agentId: string;
+    status: 'completed' | 'budget_exhausted' | 'aborted' | 'failed';
+    report: string;
+    iterations: number;
+    toolCalls: number;
+}
+
+const REPORT_REQUEST = 'Your iteration budget is used up. Do not call any more tools. Write your final report now: what you did, what you found, and anything left unfinished.';
+
+function extractText(content: Anthropic.ContentBlock[]): string {
+    return content
+        .filter((b): b is Anthropic.TextBlock => b.type === 'text')
+        .map(b => b.text)
+        .join('\n')
+        .trim();
+}
+
+export class SubAgentRuntime {
+    readonly id = `sub-${nanoid(8)}`;
+
+    private stateManager = new AgentStateManager();
+    private allowedTools: Set<string>;
+    private iteration = 0;
+    private toolCalls = 0;
+
+    constructor(private options: SubAgentOptions) {
+        this.allowedTools = new Set(options.tools.map(t => t.name));
+    }
+
+    getHistory() {
+        return this.stateManager.getHistory();
+    }
+
+    async run(): Promise<SubAgentResult> {
+        const { task, context, maxIterations, signal } = this.options;
+
+        this.stateManager.setIsProcessing(true);
+        this.stateManager.addToHistory({
+            role: 'user',
+            content: context ? `${task}\n\n<context>\n${context}\n</context>` : task
+        });
+
+        try {
+            while (this.iteration < maxIterations) {
+                if (signal?.aborted) return this.finish('aborted', '');
+                this.iteration++;
+                this.stateManager.setStage('THINKING', { iteration: this.iteration });
+                this.emit();
+
+                const content = await this.callModel();
+                if (signal?.aborted) return this.finish('aborted', extractText(content));
+                this.stateManager.addToHistory({ role: 'assistant', content });
+
+                const toolUses = content.filter((b): b is Anthropic.ToolUseBlock => b.type === 'tool_use');
+                if (toolUses.length === 0) return this.finish('completed', extractText(content));
+
+                this.stateManager.setStage('EXECUTING', { toolCount: toolUses.length });
+                const results: Anthropic.ContentBlockParam[] = await this.executeTools(toolUses);
+                // Ask for the report in the same user turn as the last tool results
+                if (this.iteration >= maxIterations) {
+                    results.push({ type: 'text', text: REPORT_REQUEST });
+                }
+                this.stateManager.addToHistory({ role: 'user', content: results });
+            }
+
+            if (signal?.aborted) return this.finish('aborted', '');
+            // Tools stay declared because the history contains tool_use blocks; any further calls are ignored
+            const content = await this.callModel();
+            return this.finish('budget_exhausted', extractText(content));
+        } catch (error) {
+            if (signal?.aborted) return this.finish('aborted', '');
+            logs.agent.error(`[SubAgent ${this.id}] Failed:`, error);
+            return this.finish('failed', `Sub-agent failed: ${(error as Error)?.message || String(error)}`);
+        } finally {
+            this.stateManager.setIsProcessing(false);
+            this.stateManager.setStage('IDLE');
+        }
+    }
+
+    private async callModel(): Promise<Anthropic.ContentBlock[]> {
+        const { llm, systemPrompt, tools, signal, onUsage } = this.options;
+        return await generateResponse(
+            llm.provider,
+            {
+                model: llm.model,
+                systemPrompt,
+                messages: this.stateManager.getHistory(),
+                tools,
+                maxTokens: AGENT_CONSTANTS.DEFAULT_MAX_TOKENS,
+                thinkingBudget: llm.reasoningBudget || undefined,
+                signal,
+                onUsage
+            },
+            { apiKey: llm.apiKey, apiUrl: llm.apiUrl },
+            llm.llmProvider
+        );
+    }
+
+    /**
+     * Execute the child's tool calls one by one; concurrency comes from running several sub-agents
+     */
+    private async executeTools(toolUses: Anthropic.ToolUseBlock[]): Promise<Anthropic.ToolResultBlockParam[]> {
+        const results: Anthropic.ToolResultBlockParam[] = [];
+
+        for (const toolUse of toolUses) {
+            if (this.options.signal?.aborted) {
+                results.push({ type: 'tool_result', tool_use_id: toolUse.id, content: 'Error: aborted', is_error: true });
+                continue;
+            }
+
+            this.toolCalls++;
+            this.emit({ callId: toolUse.id, name: toolUse.name, status: 'running' });
+
+            let content: string;
+            let failed = false;
+            if (!this.allowedTools.has(toolUse.name)) {
+                content = `Error: tool ${toolUse.name} is not available to this sub-agent.`;
+                failed = true;
+            } else {
+                try {
+                    content = await this.options.executeTool(toolUse.name, toolUse.input as Record<string, unknown>, this.options.signal);
+                    failed = content.startsWith('Error');
+                } catch (error) {
+                    content = `Error executing tool: ${(error as Error)?.message || String(error)}`;
+                    failed = true;
+                }
+            }
+
+            this.emit({ callId: toolUse.id, name: toolUse.name, status: failed ? 'error' : 'done' });
+            results.push({ type: 'tool_result', tool_use_id: toolUse.id, content });
+        }
+
+        return results;
+    }
+
+    private finish(status: SubAgentResult['status'], report: string): SubAgentResult {
+        let text = report.trim();
+        if (!text) {
+            text = status === 'aborted'
+                ? 'Sub-agent was aborted before it finished.'
+                : `Sub-agent stopped after ${this.iteration} iteration(s) without a final report.`;
+        }
+        if (text.length > AGENT_CONSTANTS.SUB_AGENT_REPORT_MAX_CHARS) {
+            text = `${text.slice(0, AGENT_CONSTANTS.SUB_AGENT_REPORT_MAX_CHARS)}\n...[report truncated]`;
+        }
+
+        this.emit(undefined, status);
+        return { agentId: this.id, status, report: text, iterations: this.iteration, toolCalls: this.toolCalls };
+    }
+
+    private emit(step?: SubAgentProgress['step'], status?: SubAgentResult['status']) {
+        this.options.onProgress?.({
+            agentId: this.id,
+            iteration: this.iteration,
+            maxIterations: this.options.maxIterations,
+            step,
+            status
+        });
+    }
+}
@@ -191,4 +191,46 @@ describe('AgentErrorHandler', () => {
             expect(delay).toBe(5000); // Max delay
         }, 10000); // Increase timeout to 10s to accommodate 5s delay
     });
+
+    describe('getRetryClass', () => {
+        it('should classify retryable LLM errors', () => {
+            expect(AgentErrorHandler.getRetryClass({ status: 429 })).toBe('rate_limit');
+            expect(AgentErrorHandler.getRetryClass({ status: 503, message: 'Service Unavailable' })).toBe('server');
+            expect(AgentErrorHandler.getRetryClass({ message: 'read ECONNRESET' })).toBe('network');
+            expect(AgentErrorHandler.getRetryClass({ status: 404, message: 'Not found' })).toBe('model_unavailable');
+            expect(AgentErrorHandler.getRetryClass({ status: 400, message: 'model glm-9 does not exist' })).toBe('model_unavailable');
+            expect(AgentErrorHandler.getRetryClass({ status: 401 })).toBe('auth');
+        });
+
+        it('should not retry validation or content filter errors', () => {
+            expect(AgentErrorHandler.getRetryClass({ status: 400, message: 'Invalid input' })).toBeNull();
+            expect(AgentErrorHandler.getRetryClass({ status: 500, message: 'Error 1027: content blocked' })).toBeNull();
+        });
+    });
+
+    describe('getBackoffDelay', () => {
+        it('should back off exponentially per error class up to its cap', () => {
+            expect(AgentErrorHandler.getBackoffDelay('server', 0)).toBe(1000);
+            expect(AgentErrorHandler.getBackoffDelay('server', 1)).toBe(2000);
+            expect(AgentErrorHandler.getBackoffDelay('server', 10)).toBe(8000);
+            expect(AgentErrorHandler.getBackoffDelay('network', 0)).toBe(500);
+        });
+
+        it('should honour Retry-After within the class cap', () => {
+            const error = { status: 429, headers: new Headers({ 'retry-after': '7' }) };
+            expect(AgentErrorHandler.getBackoffDelay('rate_limit', 0, error)).toBe(7000);
+            expect(AgentErrorHandler.getBackoffDelay('rate_limit', 0, { headers: { 'retry-after': '120' } })).toBe(30000);
+        });
+    });
+
+    describe('waitForRetry', () => {
+        it('should resolve early when aborted', async () => {
+            const controller = new AbortController();
+            const startTime = Date.now();
+            const wait = AgentErrorHandler.waitForRetry(5000, controller.signal);
+            controller.abort();
+            await wait;
+            expect(Date.now() - startTime).toBeLessThan(1000);
+        });
+    });
 });
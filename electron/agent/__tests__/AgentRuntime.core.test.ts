@@ -6,6 +6,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { EventEmitter } from 'events';
 import { AgentRuntime, AgentMessage, AgentStage } from '../AgentRuntime';
+import { configStore } from '../../config/ConfigStore';
 import type { WorkMode, ApiProvider } from '../../config/ConfigStore';
 import type { AgentEventSink } from '../AgentRuntime';
 
@@ -47,6 +48,8 @@ vi.mock('../../config/ConfigStore', () => ({
     })),
     getNetworkAccess: vi.fn(() => false),
     hasPermission: vi.fn(() => false),
+    getPermissionRules: vi.fn(() => []),
+    savePermissionRule: vi.fn(),
   },
   permissionManager: {
     isPathAuthorized: vi.fn(() => false),
@@ -61,6 +64,11 @@ vi.mock('../../utils/logger', () => ({
       warn: vi.fn(),
       error: vi.fn(),
     },
+    ipc: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
   },
 }));
 
@@ -523,6 +531,46 @@ describe('AgentRuntime Core Functionality', () => {
     });
   });
 
+  describe('MCP Sampling', () => {
+    it('should ask the user even when an allow rule matches', async () => {
+      vi.mocked(configStore.getPermissionRules).mockReturnValueOnce([
+        { id: 'allow-all', decision: 'allow', tool: '*', scope: 'global', source: 'manual', createdAt: 0 },
+      ]);
+      const internals = runtime as unknown as {
+        buildPermissionRequest: (tool: string) => { tool: string };
+        promptConfirmation: (...args: unknown[]) => Promise<boolean>;
+        handleSamplingRequest: (server: string, params: unknown) => Promise<unknown>;
+      };
+      internals.buildPermissionRequest = (tool: string) => ({ tool });
+      const prompt = vi.fn(async () => false);
+      internals.promptConfirmation = prompt;
+
+      await expect(internals.handleSamplingRequest('docs', {
+        messages: [{ role: 'user', content: { type: 'text', text: 'Summarize' } }],
+        maxTokens: 100,
+      })).rejects.toThrow('User rejected the sampling request');
+      expect(prompt).toHaveBeenCalledWith('docs__sampling', expect.any(String), expect.any(Object), { tool: 'docs__sampling' }, { remember: false });
+    });
+
+    it('should not offer or save "remember" when a prompt opts out of it', async () => {
+      const internals = runtime as unknown as {
+        uiBridge: { requestConfirmation: (id: string, data: unknown) => Promise<boolean>; handleConfirmResponse: (id: string, approved: boolean) => void };
+        promptConfirmation: (...args: unknown[]) => Promise<boolean>;
+      };
+      let confirmId = '';
+      const requestConfirmation = vi.fn(async (id: string) => {
+        confirmId = id;
+        return runtime.handleConfirmResponseWithRemember(id, true, 'global') === null;
+      });
+      internals.uiBridge.requestConfirmation = requestConfirmation;
+      internals.uiBridge.handleConfirmResponse = vi.fn();
+
+      await expect(internals.promptConfirmation('docs__sampling', 'desc', {}, { tool: 'docs__sampling' }, { remember: false })).resolves.toBe(true);
+      expect(requestConfirmation).toHaveBeenCalledWith(confirmId, expect.objectContaining({ rememberScopes: null }));
+      expect(configStore.savePermissionRule).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Cleanup', () => {
     it('should shutdown gracefully', async () => {
       await expect(runtime.shutdown()).resolves.toBeUndefined();
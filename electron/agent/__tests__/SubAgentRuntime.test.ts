@@ -0,0 +1,135 @@
+/**
+ * SubAgentRuntime Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Anthropic from '@anthropic-ai/sdk';
+import { SubAgentRuntime, SubAgentOptions, SubAgentProgress } from '../SubAgentRuntime';
+import { generateResponse } from '../providers/generateResponse';
+import { coreToolExecutors } from '../services/executors/CoreToolExecutors';
+import type { BaseLLMProvider } from '../providers/BaseLLMProvider';
+
+vi.mock('../../utils/logger', () => ({
+    logs: {
+        agent: {
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../providers/generateResponse', () => ({
+    generateResponse: vi.fn(),
+}));
+
+const mockGenerate = vi.mocked(generateResponse);
+
+const tools: Anthropic.Tool[] = [
+    { name: 'read_file', description: 'Read a file', input_schema: { type: 'object', properties: {} } },
+];
+
+function text(value: string): Anthropic.ContentBlock {
+    return { type: 'text', text: value, citations: null };
+}
+
+function toolUse(id: string, name: string, input: Record<string, unknown> = {}): Anthropic.ContentBlock {
+    return { type: 'tool_use', id, name, input } as Anthropic.ContentBlock;
+}
+
+function createOptions(overrides: Partial<SubAgentOptions> = {}): SubAgentOptions {
+    return {
+        task: 'Summarise the README',
+        systemPrompt: 'sub-agent prompt',
+        tools,
+        maxIterations: 5,
+        llm: { provider: 'anthropic', model: 'test-model', apiKey: 'k', apiUrl: 'http://x', llmProvider: {} as BaseLLMProvider },
+        executeTool: vi.fn().mockResolvedValue('file contents'),
+        ...overrides,
+    };
+}
+
+describe('SubAgentRuntime', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should run tools in its own history and return only the final report', async () => {
+        mockGenerate
+            .mockResolvedValueOnce([toolUse('t1', 'read_file', { path: '/a/README.md' })])
+            .mockResolvedValueOnce([text('README describes the build.')]);
+        const progress: SubAgentProgress[] = [];
+        const options = createOptions({ context: 'Repo at /a', onProgress: (p) => progress.push(p) });
+
+        const child = new SubAgentRuntime(options);
+        const result = await child.run();
+
+        expect(result).toMatchObject({ status: 'completed', report: 'README describes the build.', iterations: 2, toolCalls: 1 });
+        expect(options.executeTool).toHaveBeenCalledWith('read_file', { path: '/a/README.md' }, undefined);
+        expect(child.getHistory()[0].content).toContain('<context>\nRepo at /a\n</context>');
+        expect(child.getHistory()).toHaveLength(4);
+        expect(progress.filter(p => p.step).map(p => p.step?.status)).toEqual(['running', 'done']);
+        expect(progress[progress.length - 1].status).toBe('completed');
+    });
+
+    it('should refuse tools outside its subset', async () => {
+        mockGenerate
+            .mockResolvedValueOnce([toolUse('t1', 'delegate_task', { task: 'nested' })])
+            .mockResolvedValueOnce([text('done')]);
+        const options = createOptions();
+
+        await new SubAgentRuntime(options).run();
+
+        expect(options.executeTool).not.toHaveBeenCalled();
+        const secondCallHistory = mockGenerate.mock.calls[1][1].messages;
+        const toolResult = (secondCallHistory[2].content as Anthropic.ToolResultBlockParam[])[0];
+        expect(toolResult.content).toContain('not available to this sub-agent');
+    });
+
+    it('should ask for a report once the iteration budget is used up', async () => {
+        mockGenerate
+            .mockResolvedValueOnce([toolUse('t1', 'read_file')])
+            .mockResolvedValueOnce([toolUse('t2', 'read_file')])
+            .mockResolvedValueOnce([text('Partial findings.')]);
+
+        const result = await new SubAgentRuntime(createOptions({ maxIterations: 2 })).run();
+
+        expect(result).toMatchObject({ status: 'budget_exhausted', report: 'Partial findings.', iterations: 2 });
+        const finalHistory = mockGenerate.mock.calls[2][1].messages;
+        const lastTurn = finalHistory[finalHistory.length - 1].content as Anthropic.ContentBlockParam[];
+        expect(lastTurn[lastTurn.length - 1]).toMatchObject({ type: 'text' });
+    });
+
+    it('should report model failures instead of throwing', async () => {
+        mockGenerate.mockRejectedValueOnce(new Error('upstream 503'));
+
+        const result = await new SubAgentRuntime(createOptions()).run();
+
+        expect(result.status).toBe('failed');
+        expect(result.report).toContain('upstream 503');
+    });
+});
+
+describe('delegate_task executor', () => {
+    const executor = coreToolExecutors.find(e => e.name === 'delegate_task')!;
+    const baseContext = { requestConfirmation: vi.fn(), onArtifactCreated: vi.fn() };
+
+    it('should pass the request and parent call id to the runtime', async () => {
+        const delegateTask = vi.fn().mockResolvedValue('report');
+
+        const result = await executor.execute(
+            { task: 'Explore', tools: ['read_file'], max_iterations: 3 },
+            { ...baseContext, toolUseId: 'call-1', delegateTask }
+        );
+
+        expect(result).toBe('report');
+        expect(delegateTask).toHaveBeenCalledWith({ task: 'Explore', context: undefined, tools: ['read_file'], maxIterations: 3 }, 'call-1');
+    });
+
+    it('should reject empty tasks and be unavailable in chat mode', () => {
+        expect(executor.validate?.({ task: '  ' }).ok).toBe(false);
+        expect(executor.isAllowedInMode('chat')).toBe(false);
+        expect(executor.isAllowedInMode('cowork')).toBe(true);
+    });
+});
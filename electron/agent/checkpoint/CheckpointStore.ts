@@ -0,0 +1,290 @@
+/**
+ * CheckpointStore
+ *
+ * Snapshots the files of the authorized folders before the agent first writes
+ * in a turn, so a turn's file changes can be rolled back. File contents live in
+ * a content-addressed object store (sha256) under userData; each checkpoint is
+ * a manifest keyed by the id of the user message that started the turn.
+ */
+
+import { app } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { logs } from '../../utils/logger';
+import { AGENT_CONSTANTS, WALK_IGNORED_DIRS } from '../AgentConstants';
+import type { CheckpointManifest, CheckpointRestoreResult } from './types';
+
+type HashCacheEntry = { size: number; mtimeMs: number; hash: string };
+
+export class CheckpointStore {
+    private static instance: CheckpointStore | null = null;
+
+    private objectsDir: string;
+    private manifestsDir: string;
+    // Avoid re-reading files that have not changed since the previous snapshot
+    private hashCache = new Map<string, HashCacheEntry>();
+    // Manifest updates are serialized; parallel write tools may capture files at the same time
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(baseDir: string = path.join(app.getPath('userData'), 'checkpoints')) {
+        this.objectsDir = path.join(baseDir, 'objects');
+        this.manifestsDir = path.join(baseDir, 'manifests');
+    }
+
+    public static getInstance(): CheckpointStore {
+        if (!CheckpointStore.instance) {
+            CheckpointStore.instance = new CheckpointStore();
+        }
+        return CheckpointStore.instance;
+    }
+
+    public hasCheckpoint(messageId: string): boolean {
+        return existsSync(this.manifestPath(messageId));
+    }
+
+    public async getCheckpoint(messageId: string): Promise<CheckpointManifest | null> {
+        try {
+            return JSON.parse(await fs.readFile(this.manifestPath(messageId), 'utf-8')) as CheckpointManifest;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Snapshot every file under the given folders. An existing checkpoint for the
+     * message is kept as is: it already holds the state before the turn's first write.
+     */
+    public async createCheckpoint(messageId: string, roots: string[]): Promise<CheckpointManifest> {
+        return this.enqueue(async () => {
+            const existing = await this.getCheckpoint(messageId);
+            if (existing) return existing;
+
+            const manifest: CheckpointManifest = {
+                messageId,
+                createdAt: Date.now(),
+                roots: roots.map(root => path.resolve(root)),
+                files: {},
+                truncated: false
+            };
+
+            for (const root of manifest.roots) {
+                const { files, truncated } = await this.listFiles(root, AGENT_CONSTANTS.CHECKPOINT_MAX_FILES - Object.keys(manifest.files).length);
+                manifest.truncated = manifest.truncated || truncated;
+                for (const file of files) {
+                    const entry = await this.captureFile(file);
+                    if (entry !== undefined) manifest.files[file] = entry;
+                }
+            }
+
+            await this.writeManifest(manifest);
+            logs.agent.info(`[Checkpoint] Created ${messageId}: ${Object.keys(manifest.files).length} file(s)${manifest.truncated ? ' (truncated)' : ''}`);
+            void this.prune().catch(error => logs.agent.warn('[Checkpoint] Prune failed:', error));
+            return manifest;
+        });
+    }
+
+    /**
+     * Add files the walk did not cover (e.g. outside the folders or past the file limit)
+     * to an existing checkpoint; files already captured keep their original content.
+     * Relative paths resolve against the first folder, like the file tools do.
+     */
+    public async addFiles(messageId: string, filePaths: string[]): Promise<void> {
+        await this.enqueue(async () => {
+            const manifest = await this.getCheckpoint(messageId);
+            if (!manifest) return;
+
+            let changed = false;
+            for (const filePath of filePaths.map(p => path.resolve(manifest.roots[0] || '', p))) {
+                if (filePath in manifest.files) continue;
+                const entry = await this.captureFile(filePath);
+                if (entry === undefined) continue;
+                manifest.files[filePath] = entry;
+                changed = true;
+            }
+            if (changed) await this.writeManifest(manifest);
+        });
+    }
+
+    /**
+     * Put every file back the way it was when the checkpoint was taken. Files the write
+     * tools created since then (recorded through addFiles) are removed; other new files
+     * inside the snapshotted folders are left in place and reported, unless the snapshot
+     * was truncated and it cannot be told which files are new.
+     */
+    public async restore(messageId: string): Promise<CheckpointRestoreResult> {
+        return this.enqueue(async () => {
+            const manifest = await this.getCheckpoint(messageId);
+            if (!manifest) {
+                throw new Error(`Checkpoint for message ${messageId} not found`);
+            }
+
+            const result: CheckpointRestoreResult = { messageId, restored: [], removed: [], kept: [], failed: [] };
+
+            for (const [filePath, entry] of Object.entries(manifest.files)) {
+                try {
+                    const current = await this.hashIfExists(filePath);
+                    if (entry === null) {
+                        if (current !== null) {
+                            await fs.rm(filePath, { force: true });
+                            result.removed.push(filePath);
+                        }
+                        continue;
+                    }
+                    if (current === entry.hash) continue;
+                    await fs.mkdir(path.dirname(filePath), { recursive: true });
+                    await fs.writeFile(filePath, await fs.readFile(this.objectPath(entry.hash)));
+                    await fs.chmod(filePath, entry.mode).catch(() => undefined);
+                    result.restored.push(filePath);
+                } catch (error) {
+                    result.failed.push({ path: filePath, error: (error as Error).message });
+                }
+            }
+
+            if (!manifest.truncated) {
+                for (const root of manifest.roots) {
+                    const { files } = await this.listFiles(root, Number.POSITIVE_INFINITY);
+                    result.kept.push(...files.filter(file => !(file in manifest.files)));
+                }
+            }
+
+            this.hashCache.clear();
+            logs.agent.info(`[Checkpoint] Restored ${messageId}: ${result.restored.length} restored, ${result.removed.length} removed, ${result.kept.length} kept, ${result.failed.length} failed`);
+            return result;
+        });
+    }
+
+    /**
+     * Keep the newest checkpoints and drop objects no manifest refers to any more
+     */
+    public async prune(keep: number = AGENT_CONSTANTS.CHECKPOINT_KEEP_COUNT): Promise<void> {
+        await this.enqueue(async () => {
+            const names = await fs.readdir(this.manifestsDir).catch(() => [] as string[]);
+            const manifests: CheckpointManifest[] = [];
+            for (const name of names.filter(n => n.endsWith('.json'))) {
+                const manifest = await this.getCheckpoint(name.slice(0, -'.json'.length));
+                if (manifest) manifests.push(manifest);
+            }
+            if (manifests.length <= keep) return;
+
+            manifests.sort((a, b) => b.createdAt - a.createdAt);
+            for (const stale of manifests.slice(keep)) {
+                await fs.rm(this.manifestPath(stale.messageId), { force: true });
+            }
+
+            const referenced = new Set<string>();
+            for (const manifest of manifests.slice(0, keep)) {
+                for (const entry of Object.values(manifest.files)) {
+                    if (entry) referenced.add(entry.hash);
+                }
+            }
+            for (const prefix of await fs.readdir(this.objectsDir).catch(() => [] as string[])) {
+                const dir = path.join(this.objectsDir, prefix);
+                for (const rest of await fs.readdir(dir).catch(() => [] as string[])) {
+                    if (!referenced.has(prefix + rest)) {
+                        await fs.rm(path.join(dir, rest), { force: true });
+                    }
+                }
+            }
+        });
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task, task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Store a file's content; null records that it did not exist, undefined that it was skipped
+     */
+    private async captureFile(filePath: string): Promise<CheckpointManifest['files'][string] | undefined> {
+        let stats;
+        try {
+            stats = await fs.stat(filePath);
+        } catch {
+            return null;
+        }
+        if (!stats.isFile() || stats.size > AGENT_CONSTANTS.CHECKPOINT_MAX_FILE_BYTES) {
+            return undefined;
+        }
+
+        const cached = this.hashCache.get(filePath);
+        if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs && existsSync(this.objectPath(cached.hash))) {
+            return { hash: cached.hash, size: stats.size, mode: stats.mode & 0o777 };
+        }
+
+        const content = await fs.readFile(filePath);
+        const hash = crypto.createHash('sha256').update(content).digest('hex');
+        const objectPath = this.objectPath(hash);
+        if (!existsSync(objectPath)) {
+            await fs.mkdir(path.dirname(objectPath), { recursive: true });
+            await fs.writeFile(objectPath, content);
+        }
+
+        this.hashCache.set(filePath, { size: stats.size, mtimeMs: stats.mtimeMs, hash });
+        return { hash, size: stats.size, mode: stats.mode & 0o777 };
+    }
+
+    private async hashIfExists(filePath: string): Promise<string | null> {
+        try {
+            const content = await fs.readFile(filePath);
+            return crypto.createHash('sha256').update(content).digest('hex');
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Regular files under a folder, skipping symlinks, ignored directories and large files
+     */
+    private async listFiles(root: string, limit: number): Promise<{ files: string[]; truncated: boolean }> {
+        const files: string[] = [];
+        const pending = [root];
+
+        while (pending.length > 0) {
+            const dir = pending.pop()!;
+            let entries;
+            try {
+                entries = await fs.readdir(dir, { withFileTypes: true });
+            } catch {
+                continue;
+            }
+
+            for (const entry of entries) {
+                const fullPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    if (!WALK_IGNORED_DIRS.has(entry.name)) pending.push(fullPath);
+                    continue;
+                }
+                if (!entry.isFile()) continue;
+
+                const stats = await fs.stat(fullPath).catch(() => null);
+                if (!stats || stats.size > AGENT_CONSTANTS.CHECKPOINT_MAX_FILE_BYTES) continue;
+                if (files.length >= limit) {
+                    return { files, truncated: true };
+                }
+                files.push(fullPath);
+            }
+        }
+
+        return { files, truncated: false };
+    }
+
+    private async writeManifest(manifest: CheckpointManifest): Promise<void> {
+        await fs.mkdir(this.manifestsDir, { recursive: true });
+        const target = this.manifestPath(manifest.messageId);
+        // Write then rename so an interrupted write never leaves a half manifest behind
+        await fs.writeFile(`${target}.tmp`, JSON.stringify(manifest), 'utf-8');
+        await fs.rename(`${target}.tmp`, target);
+    }
+
+    private manifestPath(messageId: string): string {
+        return path.join(this.manifestsDir, `${messageId.replace(/[^\w-]/g, '_')}.json`);
+    }
+
+    private objectPath(hash: string): string {
+        return path.join(this.objectsDir, hash.slice(0, 2), hash.slice(2));
+    }
+}
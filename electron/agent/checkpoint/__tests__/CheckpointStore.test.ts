@@ -0,0 +1,132 @@
+/**
+ * CheckpointStore Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+vi.mock('electron', () => ({
+    app: {
+        getPath: vi.fn(() => '/tmp/test-userdata'),
+    },
+}));
+
+vi.mock('../../../utils/logger', () => ({
+    logs: {
+        agent: {
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        },
+    },
+}));
+
+import { CheckpointStore } from '../CheckpointStore';
+
+describe('CheckpointStore', () => {
+    let tmp: string;
+    let workspace: string;
+    let store: CheckpointStore;
+
+    beforeEach(async () => {
+        tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoint-store-'));
+        workspace = path.join(tmp, 'workspace');
+        await fs.mkdir(path.join(workspace, 'src'), { recursive: true });
+        await fs.writeFile(path.join(workspace, 'README.md'), 'hand-edited readme', 'utf-8');
+        await fs.writeFile(path.join(workspace, 'src', 'app.ts'), 'export const a = 1;\n', 'utf-8');
+        store = new CheckpointStore(path.join(tmp, 'checkpoints'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(tmp, { recursive: true, force: true });
+    });
+
+    it('should restore modified and deleted files and remove files the agent created', async () => {
+        await store.createCheckpoint('msg-1', [workspace]);
+        await store.addFiles('msg-1', ['new-file.txt']);
+
+        await fs.writeFile(path.join(workspace, 'README.md'), 'clobbered by the agent', 'utf-8');
+        await fs.rm(path.join(workspace, 'src', 'app.ts'));
+        await fs.writeFile(path.join(workspace, 'new-file.txt'), 'created later', 'utf-8');
+
+        const result = await store.restore('msg-1');
+
+        expect(await fs.readFile(path.join(workspace, 'README.md'), 'utf-8')).toBe('hand-edited readme');
+        expect(await fs.readFile(path.join(workspace, 'src', 'app.ts'), 'utf-8')).toBe('export const a = 1;\n');
+        await expect(fs.stat(path.join(workspace, 'new-file.txt'))).rejects.toThrow();
+        expect(result.restored.sort()).toEqual([path.join(workspace, 'README.md'), path.join(workspace, 'src', 'app.ts')].sort());
+        expect(result.removed).toEqual([path.join(workspace, 'new-file.txt')]);
+        expect(result.kept).toEqual([]);
+        expect(result.failed).toEqual([]);
+    });
+
+    it('should keep and report new files no write tool recorded', async () => {
+        await store.createCheckpoint('msg-1', [workspace]);
+        await fs.writeFile(path.join(workspace, 'notes.md'), 'written by hand', 'utf-8');
+
+        const result = await store.restore('msg-1');
+
+        expect(await fs.readFile(path.join(workspace, 'notes.md'), 'utf-8')).toBe('written by hand');
+        expect(result.kept).toEqual([path.join(workspace, 'notes.md')]);
+        expect(result.removed).toEqual([]);
+    });
+
+    it('should keep the first snapshot of a turn and store identical content once', async () => {
+        await fs.writeFile(path.join(workspace, 'copy.ts'), 'export const a = 1;\n', 'utf-8');
+        const first = await store.createCheckpoint('msg-1', [workspace]);
+
+        await fs.writeFile(path.join(workspace, 'README.md'), 'first write of the turn', 'utf-8');
+        const second = await store.createCheckpoint('msg-1', [workspace]);
+
+        expect(second).toEqual(first);
+        const hashes = Object.values(first.files).map(entry => entry?.hash);
+        expect(new Set(hashes).size).toBe(2);
+        expect(store.hasCheckpoint('msg-1')).toBe(true);
+        expect(store.hasCheckpoint('msg-2')).toBe(false);
+    });
+
+    it('should capture extra files, recording ones that did not exist yet', async () => {
+        const outside = path.join(tmp, 'outside.txt');
+        await fs.writeFile(outside, 'outside original', 'utf-8');
+        await store.createCheckpoint('msg-1', [workspace]);
+        await store.addFiles('msg-1', [outside, 'src/generated.ts']);
+
+        await fs.writeFile(outside, 'outside changed', 'utf-8');
+        await fs.writeFile(path.join(workspace, 'src', 'generated.ts'), 'generated', 'utf-8');
+        await store.restore('msg-1');
+
+        expect(await fs.readFile(outside, 'utf-8')).toBe('outside original');
+        await expect(fs.stat(path.join(workspace, 'src', 'generated.ts'))).rejects.toThrow();
+    });
+
+    it('should skip ignored directories', async () => {
+        await fs.mkdir(path.join(workspace, 'node_modules', 'pkg'), { recursive: true });
+        await fs.writeFile(path.join(workspace, 'node_modules', 'pkg', 'index.js'), 'module', 'utf-8');
+
+        const manifest = await store.createCheckpoint('msg-1', [workspace]);
+        await fs.writeFile(path.join(workspace, 'node_modules', 'pkg', 'extra.js'), 'installed later', 'utf-8');
+        await store.restore('msg-1');
+
+        expect(Object.keys(manifest.files).some(p => p.includes('node_modules'))).toBe(false);
+        expect(await fs.readFile(path.join(workspace, 'node_modules', 'pkg', 'extra.js'), 'utf-8')).toBe('installed later');
+    });
+
+    it('should prune old checkpoints and unreferenced objects', async () => {
+        await store.createCheckpoint('old', [workspace]);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await fs.writeFile(path.join(workspace, 'README.md'), 'v2', 'utf-8');
+        await store.createCheckpoint('new', [workspace]);
+
+        await store.prune(1);
+
+        expect(store.hasCheckpoint('old')).toBe(false);
+        expect(store.hasCheckpoint('new')).toBe(true);
+        const objects = await fs.readdir(path.join(tmp, 'checkpoints', 'objects'), { recursive: true });
+        const files = (objects as string[]).filter(name => name.includes(path.sep));
+        expect(files).toHaveLength(2);
+        await expect(store.restore('old')).rejects.toThrow('not found');
+    });
+});
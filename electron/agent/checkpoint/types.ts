@@ -0,0 +1,29 @@
+/**
+ * Checkpoint Types
+ */
+
+export interface CheckpointFileEntry {
+    hash: string;
+    size: number;
+    mode: number;
+}
+
+export interface CheckpointManifest {
+    // Id of the user message whose turn the checkpoint precedes
+    messageId: string;
+    createdAt: number;
+    roots: string[];
+    // Absolute path -> stored content, or null if the file did not exist yet
+    files: Record<string, CheckpointFileEntry | null>;
+    // The file limit was hit, so files missing from the manifest are not necessarily new
+    truncated: boolean;
+}
+
+export interface CheckpointRestoreResult {
+    messageId: string;
+    restored: string[];
+    removed: string[];
+    // New files no write tool recorded (e.g. created by hand or by a command); left in place
+    kept: string[];
+    failed: Array<{ path: string; error: string }>;
+}
@@ -0,0 +1,320 @@
+/**
+ * ContainerManager
+ *
+ * Docker execution mode: each session gets one long-lived container that
+ * run_command, start_process and skill scripts execute in (`docker exec`).
+ * Authorized folders are mounted read-write at the same paths (so paths in
+ * commands mean the same thing inside and outside), the skills folder
+ * read-only. Containers are health-checked while they exist, recreated when
+ * their spec changes or they die, and removed with their session, on shutdown
+ * and (for leftovers of a crashed run) on first use.
+ */
+
+import { execFile, spawn } from 'child_process';
+import { nanoid } from 'nanoid';
+import { logs } from '../../utils/logger';
+import type { CommandLauncher } from '../process/types';
+import { toContainerPath } from './containerSpec';
+import type { ContainerSpec, DockerAvailability, SessionContainerInfo } from './types';
+
+export interface DockerResult {
+    code: number;
+    stdout: string;
+    stderr: string;
+}
+
+export type DockerRunner = (args: string[], timeoutMs: number) => Promise<DockerResult>;
+
+const MANAGED_LABEL = 'bingowork.managed=true';
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+const DOCKER_INFO_TTL_MS = 30_000;
+// Starting a container may include pulling its image
+const CONTAINER_START_TIMEOUT_MS = 10 * 60_000;
+const DOCKER_COMMAND_TIMEOUT_MS = 30_000;
+// Keeps the container alive and lets `docker stop` end it right away
+const KEEPALIVE_SCRIPT = 'trap "exit 0" TERM INT; while :; do sleep 3600 & wait $!; done';
+
+/**
+ * Run the docker CLI; a missing binary is reported as exit code 127
+ */
+export const runDockerCli: DockerRunner = (args, timeoutMs) => new Promise((resolve) => {
+    execFile('docker', args, { timeout: timeoutMs, maxBuffer: 4 * 1024 * 1024, windowsHide: true }, (error, stdout, stderr) => {
+        if (error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+            resolve({ code: 127, stdout: '', stderr: 'docker command not found. Install Docker and make sure it is on PATH.' });
+            return;
+        }
+        const code = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+        resolve({ code, stdout: String(stdout), stderr: String(stderr) || (error?.killed ? `docker ${args[0]} timed out` : '') });
+    });
+});
+
+type SessionContainer = {
+    info: SessionContainerInfo;
+    specKey: string;
+    spec: ContainerSpec;
+};
+
+export class ContainerManager {
+    private static instance: ContainerManager | null = null;
+
+    private containers = new Map<string, SessionContainer>();
+    private starting = new Map<string, Promise<SessionContainer>>();
+    private listeners = new Set<() => void>();
+    private healthTimer: ReturnType<typeof setInterval> | null = null;
+    private dockerInfo: { checkedAt: number; value: DockerAvailability } | null = null;
+    private orphansRemoved = false;
+
+    constructor(private docker: DockerRunner = runDockerCli) { }
+
+    public static getInstance(): ContainerManager {
+        if (!ContainerManager.instance) {
+            ContainerManager.instance = new ContainerManager();
+        }
+        return ContainerManager.instance;
+    }
+
+    public onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    /**
+     * Whether the docker CLI can reach a daemon (cached briefly)
+     */
+    public async checkDocker(refresh = false): Promise<DockerAvailability> {
+        if (!refresh && this.dockerInfo && Date.now() - this.dockerInfo.checkedAt < DOCKER_INFO_TTL_MS) {
+            return this.dockerInfo.value;
+        }
+        const result = await this.docker(['version', '--format', '{{.Server.Version}}'], DOCKER_COMMAND_TIMEOUT_MS);
+        const value: DockerAvailability = result.code === 0
+            ? { available: true, version: result.stdout.trim() }
+            : { available: false, error: result.stderr.trim() || `docker version exited with code ${result.code}` };
+        this.dockerInfo = { checkedAt: Date.now(), value };
+        return value;
+    }
+
+    public list(): SessionContainerInfo[] {
+        return Array.from(this.containers.values()).map(c => ({ ...c.info }));
+    }
+
+    public get(sessionId: string): SessionContainerInfo | null {
+        const container = this.containers.get(sessionId);
+        return container ? { ...container.info } : null;
+    }
+
+    /**
+     * Running container for the session, created (or recreated) as needed
+     */
+    public async ensureContainer(sessionId: string, spec: ContainerSpec): Promise<SessionContainerInfo> {
+        const pending = this.starting.get(sessionId);
+        if (pending) return { ...(await pending).info };
+
+        const promise = this.startIfNeeded(sessionId, spec);
+        this.starting.set(sessionId, promise);
+        try {
+            return { ...(await promise).info };
+        } finally {
+            this.starting.delete(sessionId);
+        }
+    }
+
+    /**
+     * Launcher that runs commands in the session container
+     */
+    public async createLauncher(sessionId: string, spec: ContainerSpec): Promise<CommandLauncher> {
+        const info = await this.ensureContainer(sessionId, spec);
+        // Tags the processes of this command so they can be killed inside the container
+        const execId = nanoid(10);
+        return {
+            label: `docker container ${info.name}`,
+            shell: '/bin/sh',
+            wrap: (cwd, file, args) => ({
+                file: 'docker',
+                args: [
+                    'exec', '-i', '-e', `BINGOWORK_EXEC_ID=${execId}`,
+                    ...(spec.user ? ['--user', spec.user] : []),
+                    '-w', toContainerPath(spec, cwd), info.name, file, ...args
+                ]
+            }),
+            kill: () => { void this.killExec(info.name, execId); }
+        };
+    }
+
+    public async stopSession(sessionId: string): Promise<void> {
+        const container = this.containers.get(sessionId);
+        if (!container) return;
+        this.containers.delete(sessionId);
+        this.updateHealthTimer();
+        this.emit();
+        await this.docker(['rm', '-f', container.info.name], DOCKER_COMMAND_TIMEOUT_MS);
+        logs.agent.info(`[Container] Removed ${container.info.name}`);
+    }
+
+    /**
+     * Remove all session containers; the docker CLI keeps running after the app exits
+     */
+    public stopAll(): void {
+        const names = Array.from(this.containers.values()).map(c => c.info.name);
+        this.containers.clear();
+        this.updateHealthTimer();
+        if (names.length === 0) return;
+        try {
+            spawn('docker', ['rm', '-f', ...names], { detached: true, stdio: 'ignore', windowsHide: true }).unref();
+        } catch (error) {
+            logs.agent.warn('[Container] Failed to remove containers on shutdown:', error);
+        }
+    }
+
+    /**
+     * Inspect every container and record the ones that stopped or were OOM-killed
+     */
+    public async healthCheck(): Promise<void> {
+        for (const container of Array.from(this.containers.values())) {
+            if (container.info.state !== 'running') continue;
+            const result = await this.docker(
+                ['inspect', '--format', '{{.State.Running}}|{{.State.Status}}|{{.State.ExitCode}}|{{.State.OOMKilled}}', container.info.name],
+                DOCKER_COMMAND_TIMEOUT_MS
+            );
+            container.info.lastHealthCheck = Date.now();
+            if (result.code !== 0) {
+                this.markDown(container, 'stopped', 'Container no longer exists');
+                continue;
+            }
+            const [running, status, exitCode, oomKilled] = result.stdout.trim().split('|');
+            if (running !== 'true') {
+                this.markDown(container, 'stopped', oomKilled === 'true'
+                    ? `Container was killed after exceeding its memory limit (${container.info.memoryMb} MB)`
+                    : `Container ${status} (exit code ${exitCode})`);
+            }
+        }
+        this.emit();
+    }
+
+    private async startIfNeeded(sessionId: string, spec: ContainerSpec): Promise<SessionContainer> {
+        const specKey = JSON.stringify(spec);
+        const existing = this.containers.get(sessionId);
+        if (existing && existing.specKey === specKey && existing.info.state === 'running') {
+            // Verify before use; a container killed behind our back is recreated below
+            await this.healthCheck();
+            if (existing.info.state === 'running') return existing;
+        }
+
+        const docker = await this.checkDocker();
+        if (!docker.available) {
+            throw new Error(`Docker is not available: ${docker.error}`);
+        }
+        await this.removeOrphans();
+
+        const name = `bingowork-${sessionId.replace(/[^a-zA-Z0-9_.-]/g, '-').slice(0, 40)}-${nanoid(6)}`;
+        if (existing) {
+            await this.docker(['rm', '-f', existing.info.name], DOCKER_COMMAND_TIMEOUT_MS);
+        }
+
+        const container: SessionContainer = {
+            specKey,
+            spec,
+            info: {
+                sessionId,
+                name,
+                containerId: null,
+                image: spec.image,
+                state: 'starting',
+                network: spec.network,
+                cpus: spec.cpus,
+                memoryMb: spec.memoryMb,
+                mounts: spec.mounts,
+                startedAt: null,
+                lastHealthCheck: null
+            }
+        };
+        this.containers.set(sessionId, container);
+        this.emit();
+
+        const args = [
+            'run', '-d', '--init',
+            '--name', name,
+            '--label', MANAGED_LABEL,
+            '--label', `bingowork.session=${sessionId}`,
+            '--network', spec.network,
+            ...(spec.cpus > 0 ? ['--cpus', String(spec.cpus)] : []),
+            ...(spec.memoryMb > 0 ? ['--memory', `${spec.memoryMb}m`] : []),
+            ...spec.mounts.flatMap(m => ['-v', `${m.hostPath}:${m.containerPath}${m.readOnly ? ':ro' : ''}`]),
+            // The host uid usually has no home directory in the image
+            ...(spec.user ? ['--user', spec.user, '-e', 'HOME=/tmp'] : []),
+            '--entrypoint', '/bin/sh',
+            spec.image,
+            '-c', KEEPALIVE_SCRIPT
+        ];
+        logs.agent.info(`[Container] Starting ${name} (${spec.image}) for session ${sessionId}`);
+        const result = await this.docker(args, CONTAINER_START_TIMEOUT_MS);
+
+        if (result.code !== 0) {
+            container.info.state = 'error';
+            container.info.error = result.stderr.trim() || `docker run exited with code ${result.code}`;
+            this.emit();
+            throw new Error(`Failed to start container: ${container.info.error}`);
+        }
+
+        container.info.containerId = result.stdout.trim().slice(0, 12);
+        container.info.state = 'running';
+        container.info.startedAt = Date.now();
+        container.info.lastHealthCheck = Date.now();
+        this.updateHealthTimer();
+        this.emit();
+        return container;
+    }
+
+    /**
+     * Kill the processes of one exec inside the container (the docker CLI
+     * process going away does not stop them)
+     */
+    private async killExec(name: string, execId: string): Promise<void> {
+        const script = `for p in /proc/[0-9]*; do tr '\\0' '\\n' < "$p/environ" 2>/dev/null | grep -qx 'BINGOWORK_EXEC_ID=${execId}' && kill -9 "\${p#/proc/}" 2>/dev/null; done; true`;
+        const result = await this.docker(['exec', name, '/bin/sh', '-c', script], DOCKER_COMMAND_TIMEOUT_MS);
+        if (result.code !== 0) {
+            logs.agent.warn(`[Container] Failed to stop exec ${execId} in ${name}: ${result.stderr.trim()}`);
+        }
+    }
+
+    /**
+     * Containers of an earlier run that did not shut down cleanly
+     */
+    private async removeOrphans(): Promise<void> {
+        if (this.orphansRemoved) return;
+        this.orphansRemoved = true;
+        const result = await this.docker(['ps', '-aq', '--filter', `label=${MANAGED_LABEL}`], DOCKER_COMMAND_TIMEOUT_MS);
+        const ids = result.stdout.split('\n').map(id => id.trim()).filter(Boolean);
+        if (ids.length > 0) {
+            logs.agent.info(`[Container] Removing ${ids.length} leftover container(s)`);
+            await this.docker(['rm', '-f', ...ids], DOCKER_COMMAND_TIMEOUT_MS);
+        }
+    }
+
+    private markDown(container: SessionContainer, state: 'stopped' | 'error', reason: string): void {
+        container.info.state = state;
+        container.info.error = reason;
+        logs.agent.warn(`[Container] ${container.info.name}: ${reason}`);
+        this.updateHealthTimer();
+    }
+
+    private updateHealthTimer(): void {
+        const anyRunning = Array.from(this.containers.values()).some(c => c.info.state === 'running');
+        if (anyRunning && !this.healthTimer) {
+            this.healthTimer = setInterval(() => { void this.healthCheck(); }, HEALTH_CHECK_INTERVAL_MS);
+            this.healthTimer.unref?.();
+        } else if (!anyRunning && this.healthTimer) {
+            clearInterval(this.healthTimer);
+            this.healthTimer = null;
+        }
+    }
+
+    private emit(): void {
+        for (const listener of this.listeners) {
+            try {
+                listener();
+            } catch (error) {
+                logs.agent.warn('[Container] Listener failed:', error);
+            }
+        }
+    }
+}
@@ -0,0 +1,148 @@
+/**
+ * ContainerManager Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../utils/logger', () => ({
+    logs: {
+        agent: {
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        },
+    },
+}));
+
+import { ContainerManager, type DockerResult } from '../ContainerManager';
+import { hostContainerUser, specFromConfig, toContainerPath } from '../containerSpec';
+
+const ok = (stdout = ''): DockerResult => ({ code: 0, stdout, stderr: '' });
+
+describe.skipIf(process.platform === 'win32')('ContainerManager', () => {
+    let calls: string[][];
+    let inspectOutput: string;
+    let docker: (args: string[]) => Promise<DockerResult>;
+    let manager: ContainerManager;
+
+    const spec = {
+        ...specFromConfig(
+            { image: 'python:3.11-slim', cpus: 2, memoryMb: 1024, network: 'follow' },
+            ['/work/project'],
+            ['/home/user/.bingowork/skills'],
+            false
+        ),
+        user: '1000:1000'
+    };
+
+    beforeEach(() => {
+        calls = [];
+        inspectOutput = 'true|running|0|false';
+        docker = async (args) => {
+            switch (args[0]) {
+                case 'version': return ok('27.0.1\n');
+                case 'run': return ok('0123456789abcdef\n');
+                case 'inspect': return ok(inspectOutput);
+                default: return ok();
+            }
+        };
+        manager = new ContainerManager(async (args) => {
+            calls.push(args);
+            return docker(args);
+        });
+    });
+
+    it('should start one container per session with mounts, limits and network policy', async () => {
+        const info = await manager.ensureContainer('session-1', spec);
+
+        expect(info.state).toBe('running');
+        expect(info.containerId).toBe('0123456789ab');
+        const run = calls.find(c => c[0] === 'run')!.join(' ');
+        expect(run).toContain('--network none --cpus 2 --memory 1024m');
+        expect(run).toContain('-v /work/project:/work/project -v /home/user/.bingowork/skills:/home/user/.bingowork/skills:ro');
+        expect(run).toContain('--label bingowork.session=session-1');
+        expect(run).toContain('--user 1000:1000 -e HOME=/tmp');
+
+        await manager.ensureContainer('session-1', spec);
+        expect(calls.filter(c => c[0] === 'run')).toHaveLength(1);
+    });
+
+    it('should recreate the container when the spec changes', async () => {
+        const first = await manager.ensureContainer('session-1', spec);
+        const second = await manager.ensureContainer('session-1', { ...spec, network: 'bridge' });
+
+        expect(second.name).not.toBe(first.name);
+        expect(calls).toContainEqual(['rm', '-f', first.name]);
+        expect(manager.list()).toHaveLength(1);
+    });
+
+    it('should refuse to start when docker is unavailable', async () => {
+        docker = async () => ({ code: 127, stdout: '', stderr: 'docker command not found.' });
+
+        await expect(manager.ensureContainer('session-1', spec)).rejects.toThrow('Docker is not available: docker command not found.');
+        expect(manager.list()).toEqual([]);
+    });
+
+    it('should run commands through docker exec in the mapped working directory', async () => {
+        const launcher = await manager.createLauncher('session-1', spec);
+        const info = manager.get('session-1')!;
+        const launch = launcher.wrap('/work/project/src', '/bin/sh', ['-c', 'python main.py']);
+
+        expect(launcher.shell).toBe('/bin/sh');
+        expect(launch.file).toBe('docker');
+        expect(launch.args.slice(0, 3)).toEqual(['exec', '-i', '-e']);
+        expect(launch.args.slice(4)).toEqual(['--user', '1000:1000', '-w', '/work/project/src', info.name, '/bin/sh', '-c', 'python main.py']);
+    });
+
+    it('should run as the host user on Linux and as the image user elsewhere', async () => {
+        const built = specFromConfig({ image: 'node:20', cpus: 0, memoryMb: 0, network: 'none' }, ['/work/project'], [], false);
+        expect(built.user).toBe(hostContainerUser());
+        if (process.platform === 'linux') {
+            expect(built.user).toBe(`${process.getuid!()}:${process.getgid!()}`);
+        }
+
+        await manager.ensureContainer('session-1', { ...spec, user: null });
+        expect(calls.find(c => c[0] === 'run')).not.toContain('--user');
+    });
+
+    it('should mark containers that died as stopped and recreate them on next use', async () => {
+        const info = await manager.ensureContainer('session-1', spec);
+        const changes = vi.fn();
+        manager.onChange(changes);
+
+        inspectOutput = 'false|exited|137|true';
+        await manager.healthCheck();
+
+        const stopped = manager.get('session-1')!;
+        expect(stopped.state).toBe('stopped');
+        expect(stopped.error).toContain('memory limit (1024 MB)');
+        expect(changes).toHaveBeenCalled();
+
+        inspectOutput = 'true|running|0|false';
+        const restarted = await manager.ensureContainer('session-1', spec);
+        expect(restarted.state).toBe('running');
+        expect(restarted.name).not.toBe(info.name);
+    });
+
+    it('should remove the session container when the session is stopped', async () => {
+        const info = await manager.ensureContainer('session-1', spec);
+        await manager.stopSession('session-1');
+
+        expect(calls).toContainEqual(['rm', '-f', info.name]);
+        expect(manager.get('session-1')).toBeNull();
+    });
+});
+
+describe('toContainerPath', () => {
+    it('should map paths below a mount and leave others unchanged', () => {
+        const spec = {
+            image: 'alpine', cpus: 1, memoryMb: 512, network: 'none' as const,
+            mounts: [{ hostPath: '/work/project', containerPath: '/workspace/0-project', readOnly: false }]
+        };
+
+        expect(toContainerPath(spec, '/work/project')).toBe('/workspace/0-project');
+        expect(toContainerPath(spec, '/work/project/a/b')).toBe('/workspace/0-project/a/b');
+        expect(toContainerPath(spec, '/work/project-other')).toBe('/work/project-other');
+    });
+});
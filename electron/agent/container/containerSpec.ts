@@ -0,0 +1,64 @@
+/**
+ * Container spec and path mapping for the Docker execution mode (no Docker
+ * or Electron dependencies, so tool executors can build specs cheaply)
+ */
+
+import path from 'path';
+import type { DockerExecutionConfig } from '../../config/ConfigStore';
+import type { ContainerMount, ContainerSpec } from './types';
+
+/**
+ * Path inside the container for a mounted host folder: the same path on
+ * macOS/Linux, /workspace/<n>-<name> for Windows drive paths
+ */
+export function containerPathFor(hostPath: string, index: number): string {
+    if (process.platform !== 'win32') return hostPath;
+    return `/workspace/${index}-${path.win32.basename(hostPath) || 'root'}`;
+}
+
+/**
+ * Translate a host path below one of the mounts to the container path
+ */
+export function toContainerPath(spec: ContainerSpec, hostPath: string): string {
+    const sep = process.platform === 'win32' ? '\\' : '/';
+    for (const mount of spec.mounts) {
+        if (hostPath === mount.hostPath || hostPath.startsWith(mount.hostPath + sep)) {
+            const rest = hostPath.slice(mount.hostPath.length).split(sep).filter(Boolean);
+            return [mount.containerPath, ...rest].join('/');
+        }
+    }
+    return hostPath;
+}
+
+/**
+ * The host user on Linux, where bind mounts keep numeric owners; Docker Desktop
+ * on macOS and Windows maps file ownership by itself
+ */
+export function hostContainerUser(): string | null {
+    if (process.platform !== 'linux' || !process.getuid || !process.getgid) return null;
+    return `${process.getuid()}:${process.getgid()}`;
+}
+
+/**
+ * Container spec for the current settings
+ */
+export function specFromConfig(
+    config: DockerExecutionConfig,
+    writablePaths: string[],
+    readOnlyPaths: string[],
+    networkAccess: boolean
+): ContainerSpec {
+    const mounts: ContainerMount[] = [
+        ...writablePaths.map(hostPath => ({ hostPath, readOnly: false })),
+        ...readOnlyPaths.map(hostPath => ({ hostPath, readOnly: true }))
+    ].map((mount, index) => ({ ...mount, containerPath: containerPathFor(mount.hostPath, index) }));
+
+    return {
+        image: config.image,
+        cpus: config.cpus,
+        memoryMb: config.memoryMb,
+        network: config.network === 'follow' ? (networkAccess ? 'bridge' : 'none') : config.network,
+        mounts,
+        user: hostContainerUser()
+    };
+}
@@ -0,0 +1,53 @@
+/**
+ * Docker Execution Types
+ */
+
+export type SessionContainerState = 'starting' | 'running' | 'stopped' | 'error';
+
+export interface ContainerMount {
+    hostPath: string;
+    containerPath: string;
+    readOnly: boolean;
+}
+
+/**
+ * Everything that defines a session container; a change recreates it
+ */
+export interface ContainerSpec {
+    image: string;
+    cpus: number;
+    memoryMb: number;
+    network: 'none' | 'bridge';
+    mounts: ContainerMount[];
+    // uid:gid commands run as, so files in mounted folders belong to the host
+    // user; null keeps the image's user
+    user: string | null;
+}
+
+export interface SessionContainerInfo {
+    sessionId: string;
+    name: string;
+    containerId: string | null;
+    image: string;
+    state: SessionContainerState;
+    error?: string;
+    network: 'none' | 'bridge';
+    cpus: number;
+    memoryMb: number;
+    mounts: ContainerMount[];
+    startedAt: number | null;
+    lastHealthCheck: number | null;
+}
+
+export interface DockerAvailability {
+    available: boolean;
+    // Docker server (daemon) version
+    version?: string;
+    error?: string;
+}
+
+export interface ContainerStatus {
+    enabled: boolean;
+    docker: DockerAvailability;
+    containers: SessionContainerInfo[];
+}
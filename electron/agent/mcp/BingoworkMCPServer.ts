@@ -0,0 +1,299 @@
+/**
+ * BingoworkMCPServer
+ *
+ * Publishes a few ToolRegistry tools and the skills (as prompts) to other MCP
+ * clients over streamable HTTP on 127.0.0.1, guarded by a bearer token. Stdio
+ * clients go through the CLI bridge (electron/cli/mcpStdio.ts), which finds the
+ * endpoint in the discovery file written here.
+ *
+ * Every tool call goes through AgentRuntime.executeExternalToolCall, so the
+ * permission rules and the confirmation dialog apply as for the agent's own calls.
+ */
+
+import http from 'http';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { app } from 'electron';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+    CallToolRequestSchema,
+    ErrorCode,
+    GetPromptRequestSchema,
+    ListPromptsRequestSchema,
+    ListToolsRequestSchema,
+    McpError,
+    isInitializeRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { MAIN_DIST } from '../../config/AppConfig';
+import { configStore, type MCPServerExposureConfig } from '../../config/ConfigStore';
+import { logs } from '../../utils/logger';
+import type { AgentRuntime } from '../AgentRuntime';
+import {
+    EXPOSABLE_TOOLS,
+    MCP_SERVER_PATH,
+    generateServerToken,
+    isAuthorizedRequest,
+    removeServerDiscovery,
+    skillPromptText,
+    toolCallResult,
+    writeServerDiscovery
+} from './serverExposure';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const MAX_SESSIONS = 32;
+
+export interface MCPServerExposureStatus {
+    config: MCPServerExposureConfig;
+    running: boolean;
+    url: string | null;
+    sessions: number;
+    error: string | null;
+    exposableTools: Array<{ name: string; description: string }>;
+    // How stdio-only clients launch the bridge
+    stdioCommand: { command: string; args: string[]; env: Record<string, string> };
+}
+
+interface ServerSession {
+    server: Server;
+    transport: StreamableHTTPServerTransport;
+}
+
+export class BingoworkMCPServer {
+    private agent: AgentRuntime | null = null;
+    private httpServer: http.Server | null = null;
+    private url: string | null = null;
+    private lastError: string | null = null;
+    private sessions = new Map<string, ServerSession>();
+
+    setAgent(agent: AgentRuntime | null): void {
+        this.agent = agent;
+    }
+
+    /**
+     * Start, restart or stop the server to match the settings
+     */
+    async apply(): Promise<void> {
+        await this.stop();
+        const config = configStore.getMCPServer();
+        if (!config.enabled) return;
+        try {
+            await this.start(config);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            logs.mcp.error('[MCPServer] Failed to start:', error);
+        }
+    }
+
+    async stop(): Promise<void> {
+        const sessions = Array.from(this.sessions.values());
+        this.sessions.clear();
+        await Promise.allSettled(sessions.map(s => s.server.close()));
+
+        const httpServer = this.httpServer;
+        this.httpServer = null;
+        this.url = null;
+        this.lastError = null;
+        if (httpServer) {
+            httpServer.closeAllConnections();
+            await new Promise<void>(resolve => httpServer.close(() => resolve()));
+            removeServerDiscovery();
+            logs.mcp.info('[MCPServer] Stopped');
+        }
+    }
+
+    getStatus(): MCPServerExposureStatus {
+        const registry = this.agent?.getToolRegistry();
+        return {
+            config: configStore.getMCPServer(),
+            running: this.httpServer !== null,
+            url: this.url,
+            sessions: this.sessions.size,
+            error: this.lastError,
+            exposableTools: EXPOSABLE_TOOLS.map(name => ({
+                name,
+                description: registry?.getToolSchema(name)?.description || ''
+            })),
+            stdioCommand: {
+                command: process.execPath,
+                args: [path.join(MAIN_DIST, 'mcp-stdio.js')],
+                env: { ELECTRON_RUN_AS_NODE: '1' }
+            }
+        };
+    }
+
+    private async start(config: MCPServerExposureConfig): Promise<void> {
+        let token = config.token;
+        if (!token) {
+            token = generateServerToken();
+            configStore.setMCPServer({ token });
+        }
+
+        const httpServer = http.createServer((req, res) => {
+            this.handleRequest(req, res, token).catch(error => {
+                logs.mcp.error('[MCPServer] Request failed:', error);
+                if (!res.headersSent) sendError(res, 500, ErrorCode.InternalError, 'Internal server error');
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            httpServer.once('error', reject);
+            httpServer.listen(config.port, '127.0.0.1', () => {
+                httpServer.off('error', reject);
+                resolve();
+            });
+        });
+
+        const { port } = httpServer.address() as AddressInfo;
+        this.httpServer = httpServer;
+        this.url = `http://127.0.0.1:${port}${MCP_SERVER_PATH}`;
+        writeServerDiscovery({ url: this.url, token, pid: process.pid });
+        logs.mcp.info(`[MCPServer] Listening on ${this.url}`);
+    }
+
+    private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse, token: string): Promise<void> {
+        const { pathname } = new URL(req.url || '/', 'http://127.0.0.1');
+        if (pathname !== MCP_SERVER_PATH) {
+            sendError(res, 404, ErrorCode.InvalidRequest, 'Not found');
+            return;
+        }
+        if (!isAuthorizedRequest(req.headers.authorization, token)) {
+            res.setHeader('WWW-Authenticate', 'Bearer');
+            sendError(res, 401, ErrorCode.InvalidRequest, 'Unauthorized');
+            return;
+        }
+
+        let body: unknown;
+        if (req.method === 'POST') {
+            try {
+                body = await readJsonBody(req);
+            } catch (error) {
+                sendError(res, 400, ErrorCode.ParseError, error instanceof Error ? error.message : 'Parse error');
+                return;
+            }
+        }
+
+        const sessionId = req.headers['mcp-session-id'];
+        let session = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined;
+        if (!session) {
+            if (sessionId || !isInitializeRequest(body)) {
+                sendError(res, sessionId ? 404 : 400, ErrorCode.InvalidRequest, 'No valid session');
+                return;
+            }
+            session = await this.createSession();
+        }
+        await session.transport.handleRequest(req, res, body);
+    }
+
+    private async createSession(): Promise<ServerSession> {
+        if (this.sessions.size >= MAX_SESSIONS) {
+            // Clients that vanish without DELETE leave sessions behind; drop the oldest
+            const [oldestId, oldest] = this.sessions.entries().next().value as [string, ServerSession];
+            this.sessions.delete(oldestId);
+            void oldest.server.close();
+        }
+
+        const { port } = this.httpServer!.address() as AddressInfo;
+        const server = this.createMCPServer();
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            enableDnsRebindingProtection: true,
+            allowedHosts: [`127.0.0.1:${port}`, `localhost:${port}`],
+            onsessioninitialized: (id) => {
+                this.sessions.set(id, { server, transport });
+            }
+        });
+        transport.onclose = () => {
+            if (transport.sessionId) this.sessions.delete(transport.sessionId);
+        };
+        await server.connect(transport);
+        return { server, transport };
+    }
+
+    private createMCPServer(): Server {
+        const { exposeSkills } = configStore.getMCPServer();
+        const server = new Server(
+            { name: 'bingowork', version: app.getVersion() },
+            { capabilities: exposeSkills ? { tools: {}, prompts: {} } : { tools: {} } }
+        );
+        const clientName = () => server.getClientVersion()?.name || 'MCP client';
+
+        server.setRequestHandler(ListToolsRequestSchema, async () => {
+            const registry = this.requireAgent().getToolRegistry();
+            const tools = configStore.getMCPServer().tools.flatMap(name => {
+                const schema = registry.getToolSchema(name);
+                return schema
+                    ? [{ name, description: schema.description, inputSchema: schema.input_schema as { type: 'object' } }]
+                    : [];
+            });
+            return { tools };
+        });
+
+        server.setRequestHandler(CallToolRequestSchema, async (request) => {
+            const { name, arguments: args } = request.params;
+            const agent = this.requireAgent();
+            if (!configStore.getMCPServer().tools.includes(name) || !agent.getToolRegistry().getToolSchema(name)) {
+                throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+            }
+            logs.mcp.info(`[MCPServer] ${clientName()} calls ${name}`);
+            return toolCallResult(await agent.executeExternalToolCall(clientName(), name, args ?? {}));
+        });
+
+        if (exposeSkills) {
+            server.setRequestHandler(ListPromptsRequestSchema, async () => {
+                const skills = await this.requireAgent().getLoadedSkillManager();
+                return {
+                    prompts: skills.getTools().map(skill => ({
+                        name: skill.name,
+                        description: skill.description,
+                        arguments: [{ name: 'task', description: 'What to do with the skill', required: false }]
+                    }))
+                };
+            });
+
+            server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+                const { name, arguments: args } = request.params;
+                const skills = await this.requireAgent().getLoadedSkillManager();
+                const skill = skills.getTools().find(s => s.name === name);
+                const info = skill && skills.getSkillInfo(skill.name);
+                if (!skill || !info) {
+                    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+                }
+                return {
+                    description: skill.description,
+                    messages: [{
+                        role: 'user' as const,
+                        content: { type: 'text' as const, text: skillPromptText({ name, ...info }, args?.task) }
+                    }]
+                };
+            });
+        }
+
+        return server;
+    }
+
+    private requireAgent(): AgentRuntime {
+        if (!this.agent) {
+            throw new McpError(ErrorCode.InternalError, 'Bingowork is still starting, try again shortly');
+        }
+        return this.agent;
+    }
+}
+
+function sendError(res: http.ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) throw new Error('Request body too large');
+        chunks.push(chunk as Buffer);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+export const bingoworkMCPServer = new BingoworkMCPServer();
@@ -1,13 +1,28 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import {
+    CreateMessageRequestSchema,
+    ErrorCode,
+    McpError,
+    PromptListChangedNotificationSchema,
+    ResourceListChangedNotificationSchema,
+    ToolListChangedNotificationSchema,
+    type CreateMessageRequest,
+    type CreateMessageResult,
+    type GetPromptResult,
+    type ReadResourceResult
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import path from 'path';
 import fs from 'fs/promises';
 import os from 'os';
+import { auditLog } from '../security/AuditLog';
+import { MCPSupervisor, type MCPLogEntry, type MCPServerStatus } from './MCPSupervisor';
 // app import removed
 
 // Import new type definitions
-import type { MCPServerConfig, MCPConfigFile } from './types.js';
+import type { MCPServerConfig, MCPConfigFile, MCPListKind, MCPPromptInfo, MCPResourceInfo } from './types.js';
 
 /** @deprecated Use MCPServerConfig from './types.ts' instead */
 export interface LegacyMCPServerConfig {
@@ -18,8 +33,34 @@ export interface LegacyMCPServerConfig {
     env?: Record<string, string>;
 }
 
+/**
+ * Answers a server's sampling/createMessage request; throwing rejects it
+ */
+export type MCPSamplingHandler = (server: string, params: CreateMessageRequest['params']) => Promise<CreateMessageResult>;
+
+export type MCPListChangedListener = (server: string, kind: MCPListKind) => void;
+
+// Upper bound on list pages per server, in case a server keeps returning cursors
+const MAX_LIST_PAGES = 20;
+
+const DEFAULT_CALL_TIMEOUT_MS = 60_000;
+
+/**
+ * Timeouts and lost connections count against the server's health; errors the
+ * server itself returned (bad params, unknown tool) do not
+ */
+function isTransportFailure(error: unknown): boolean {
+    if (!(error instanceof McpError)) return true;
+    return error.code === ErrorCode.RequestTimeout || error.code === ErrorCode.ConnectionClosed;
+}
+
 export class MCPClientService {
     private clients: Map<string, Client> = new Map();
+    // Enabled servers from the configuration, by id
+    private configs: Map<string, MCPServerConfig> = new Map();
+    private supervisor = new MCPSupervisor((id) => this.connectToServer(id));
+    private samplingHandler: MCPSamplingHandler | null = null;
+    private listChangedListeners = new Set<MCPListChangedListener>();
     private configPath: string;
     private oldConfigPath: string;
 
@@ -69,17 +110,57 @@ export class MCPClientService {
         }
     }
 
+    /**
+     * Route sampling requests from servers; without a handler they are rejected
+     */
+    setSamplingHandler(handler: MCPSamplingHandler | null): void {
+        this.samplingHandler = handler;
+    }
+
+    /**
+     * Subscribe to tools/resources/prompts list_changed notifications
+     */
+    onListChanged(listener: MCPListChangedListener): () => void {
+        this.listChangedListeners.add(listener);
+        return () => this.listChangedListeners.delete(listener);
+    }
+
+    /**
+     * Subscribe to connection state changes of any server
+     */
+    onStatusChange(listener: (status: MCPServerStatus) => void): () => void {
+        return this.supervisor.onStatusChange(listener);
+    }
+
+    getServerStatuses(): MCPServerStatus[] {
+        return this.supervisor.getStatuses();
+    }
+
+    getServerLogs(id: string): MCPLogEntry[] {
+        return this.supervisor.getLogs(id);
+    }
+
+    clearServerLogs(id: string): void {
+        this.supervisor.clearLogs(id);
+    }
+
+    /**
+     * Reconnect now, resetting the backoff (also brings back a failed server)
+     */
+    async reconnectServer(id: string): Promise<boolean> {
+        if (!this.configs.has(id)) {
+            throw new Error(`MCP server ${id} is not enabled`);
+        }
+        const connected = await this.supervisor.restart(id);
+        if (connected) this.notifyListChanged(id, 'tools');
+        return connected;
+    }
+
     async closeAll() {
-        for (const [name, client] of this.clients) {
-            try {
-                const anyClient = client as unknown as { close?: () => unknown; disconnect?: () => unknown };
-                if (typeof anyClient.close === 'function') await anyClient.close();
-                else if (typeof anyClient.disconnect === 'function') await anyClient.disconnect();
-            } catch (e) {
-                console.error(`Failed to close MCP server ${name}:`, e);
-            }
+        this.supervisor.stopAll();
+        for (const name of Array.from(this.clients.keys())) {
+            await this.closeClient(name);
         }
-        this.clients.clear();
     }
 
     async loadClients() {
@@ -96,23 +177,20 @@ export class MCPClientService {
             void 0;
         }
 
-        let config: { mcpServers: Record<string, MCPServerConfig> } = { mcpServers: {} };
-        try {
-            const content = await fs.readFile(this.configPath, 'utf-8');
-            config = JSON.parse(content);
-        } catch (e) {
-            // No config, create default
-            console.log('Creating default MCP config');
-        }
+        const config = await this.loadConfigFileV2();
+        const enabled = config.servers.filter(s => s.enabled);
 
-        if (!config.mcpServers) {
-            config.mcpServers = {};
+        // Servers that were disabled or removed since the last load
+        for (const id of Array.from(this.configs.keys())) {
+            if (!enabled.some(s => s.id === id)) {
+                await this.disconnectServerById(id);
+                this.configs.delete(id);
+            }
         }
 
-        // Default config logic for MiniMax removed
-
-        for (const [key, serverConfig] of Object.entries(config.mcpServers || {})) {
-            await this.connectToServer(key, serverConfig);
+        for (const server of enabled) {
+            this.configs.set(server.id, server);
+            await this.supervisor.start(server.id);
         }
 
         // Log summary of connected servers
@@ -151,69 +229,152 @@ export class MCPClientService {
         return resolved;
     }
 
-    private async connectToServer(name: string, config: MCPServerConfig) {
-        if (this.clients.has(name)) return;
-
-        try {
-            let finalEnv = { ...(process.env as Record<string, string>), ...config.env };
-
-            // Compatibility: Auto-inject MiniMax key if missing/placeholder
-            // This replaces the previous hardcoded check with a dynamic injection
-            if (name.toLowerCase() === 'minimax') {
-                const configKey = config.env?.MINIMAX_API_KEY;
-                if (!configKey || configKey === "YOUR_API_KEY_HERE" || configKey.includes("API密钥")) {
-                    console.log('[MCP] Auto-injecting MiniMax API Key via placeholder');
-                    finalEnv['MINIMAX_API_KEY'] = '{{App.ApiKey:minimax}}';
-                }
+    /**
+     * Open a connection for the supervisor; throws so it can retry
+     */
+    private async connectToServer(name: string): Promise<void> {
+        const config = this.configs.get(name);
+        if (!config) {
+            throw new Error(`MCP server ${name} is not configured`);
+        }
+        const isReconnect = (this.supervisor.getStatus(name)?.attempts ?? 0) > 0;
+        // A reconnect replaces whatever is left of the previous connection
+        await this.closeClient(name);
+
+        let finalEnv = { ...(process.env as Record<string, string>), ...config.env };
+
+        // Compatibility: Auto-inject MiniMax key if missing/placeholder
+        // This replaces the previous hardcoded check with a dynamic injection
+        if (name.toLowerCase() === 'minimax') {
+            const configKey = config.env?.MINIMAX_API_KEY;
+            if (!configKey || configKey === "YOUR_API_KEY_HERE" || configKey.includes("API密钥")) {
+                console.log('[MCP] Auto-injecting MiniMax API Key via placeholder');
+                finalEnv['MINIMAX_API_KEY'] = '{{App.ApiKey:minimax}}';
             }
+        }
 
-            // Resolve all environment variables including placeholders
-            finalEnv = await this.resolveEnvVariables(finalEnv);
-
-            // Choose transport based on config type
-            let transport;
-            if (config.url) {
-                // Use Streamable HTTP transport for URL-based connections
-                console.log(`Connecting to MCP server ${name} via Streamable HTTP: ${config.url}`);
-                transport = new StreamableHTTPClientTransport(
-                    new URL(config.url)
-                );
-            } else if (config.command) {
-                // Use stdio transport for command-based connections
-                console.log(`Connecting to MCP server ${name} via stdio: ${config.command}`);
-                transport = new StdioClientTransport({
-                    command: config.command,
-                    args: config.args || [],
-                    env: finalEnv
-                });
-            } else {
-                throw new Error(`Invalid MCP server config for ${name}: must provide either 'url' or 'command'`);
-            }
+        // Resolve all environment variables including placeholders
+        finalEnv = await this.resolveEnvVariables(finalEnv);
 
-            const client = new Client({
-                name: "bingowork-client",
-                version: "1.0.0",
-            }, {
-                capabilities: {
-                    // Start with empty capabilities
-                },
+        // Choose transport based on config type
+        let transport;
+        if (config.url) {
+            // Use Streamable HTTP transport for URL-based connections
+            console.log(`Connecting to MCP server ${name} via Streamable HTTP: ${config.url}`);
+            transport = new StreamableHTTPClientTransport(
+                new URL(config.url)
+            );
+        } else if (config.command) {
+            // Use stdio transport for command-based connections
+            console.log(`Connecting to MCP server ${name} via stdio: ${config.command}`);
+            const stdioTransport = new StdioClientTransport({
+                command: config.command,
+                args: config.args || [],
+                env: finalEnv,
+                // Captured for the server's log instead of going to our stderr
+                stderr: 'pipe'
             });
+            stdioTransport.stderr?.on('data', (chunk: Buffer | string) => {
+                this.supervisor.appendStderr(name, chunk.toString());
+            });
+            transport = stdioTransport;
+        } else {
+            throw new Error(`Invalid MCP server config for ${name}: must provide either 'url' or 'command'`);
+        }
 
-            await client.connect(transport);
-            this.clients.set(name, client);
-            console.log(`[MCP] ✓ Connected to server: ${name}`);
+        const client = new Client({
+            name: "bingowork-client",
+            version: "1.0.0",
+        }, {
+            capabilities: {
+                // Servers may ask us to run a completion; each request is approved by the user
+                sampling: {},
+            },
+        });
+        this.registerClientHandlers(name, client);
+        client.onclose = () => {
+            // Ignore connections we closed or already replaced
+            if (this.clients.get(name) !== client) return;
+            this.clients.delete(name);
+            this.supervisor.connectionLost(name, 'Connection closed');
+            this.notifyListChanged(name, 'tools');
+        };
+        client.onerror = (error) => {
+            this.supervisor.logEvent(name, `Transport error: ${error.message}`);
+        };
+
+        try {
+            await client.connect(transport, this.requestOptions(name));
         } catch (e) {
             const errorMessage = e instanceof Error ? e.message : String(e);
             console.error(`[MCP] ✗ Failed to connect to server "${name}": ${errorMessage}`);
-            // Continue with other servers even if this one fails
+            await client.close().catch(() => undefined);
+            throw e;
         }
+        this.clients.set(name, client);
+        console.log(`[MCP] ✓ Connected to server: ${name}`);
+        if (isReconnect) this.notifyListChanged(name, 'tools');
+    }
+
+    private requestOptions(server: string): RequestOptions {
+        return { timeout: this.configs.get(server)?.timeoutMs || DEFAULT_CALL_TIMEOUT_MS };
+    }
+
+    /**
+     * Run a request against a connected server, feeding the outcome into its health
+     */
+    private async withClient<T>(server: string, request: (client: Client, options: RequestOptions) => Promise<T>): Promise<T> {
+        const client = this.clients.get(server);
+        if (!client) {
+            const status = this.supervisor.getStatus(server);
+            throw new Error(status && status.state !== 'stopped'
+                ? `MCP Server ${server} is ${status.state}${status.lastError ? ` (${status.lastError})` : ''}`
+                : `MCP Server ${server} not found`);
+        }
+        try {
+            const result = await request(client, this.requestOptions(server));
+            this.supervisor.recordCallSuccess(server);
+            return result;
+        } catch (error) {
+            if (isTransportFailure(error)) {
+                this.supervisor.recordCallFailure(server, (error as Error).message || String(error));
+            }
+            throw error;
+        }
+    }
+
+    private notifyListChanged(server: string, kind: MCPListKind): void {
+        for (const listener of this.listChangedListeners) {
+            try {
+                listener(server, kind);
+            } catch (e) {
+                console.error('[MCP] list_changed listener failed:', e);
+            }
+        }
+    }
+
+    private registerClientHandlers(name: string, client: Client): void {
+        client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+            if (!this.samplingHandler) {
+                throw new Error('Sampling is not available');
+            }
+            return this.samplingHandler(name, request.params);
+        });
+
+        const notify = (kind: MCPListKind) => () => {
+            console.log(`[MCP] ${name}: ${kind} list changed`);
+            this.notifyListChanged(name, kind);
+        };
+        client.setNotificationHandler(ToolListChangedNotificationSchema, notify('tools'));
+        client.setNotificationHandler(ResourceListChangedNotificationSchema, notify('resources'));
+        client.setNotificationHandler(PromptListChangedNotificationSchema, notify('prompts'));
     }
 
     async getTools(): Promise<{ name: string; description?: string; input_schema: Record<string, unknown> }[]> {
         const allTools: { name: string; description?: string; input_schema: Record<string, unknown> }[] = [];
         for (const [name, client] of this.clients) {
             try {
-                const toolsList = await client.listTools();
+                const toolsList = await client.listTools(undefined, this.requestOptions(name));
                 const tools = toolsList.tools.map(t => ({
                     name: `${name}__${t.name}`, // Namespacing tools
                     description: t.description,
@@ -230,18 +391,120 @@ export class MCPClientService {
     async callTool(name: string, args: Record<string, unknown>) {
         // Parse namespaced tool name "server__tool"
         const [serverName, toolName] = name.split('__');
-        const client = this.clients.get(serverName);
-        if (!client) throw new Error(`MCP Server ${serverName} not found`);
+        const connected = this.clients.has(serverName);
+        if (!connected) {
+            auditLog.record({ type: 'mcp_tool_call', outcome: 'error', tool: name, args, subject: serverName, detail: 'Server not connected' });
+        }
 
-        const result = await client.callTool({
-            name: toolName,
-            arguments: args
+        const startedAt = Date.now();
+        let result;
+        try {
+            result = await this.withClient(serverName, (client, options) => client.callTool({
+                name: toolName,
+                arguments: args
+            }, undefined, options));
+        } catch (error) {
+            // Already audited above; withClient reports the server's state
+            if (!connected) throw error;
+            auditLog.record({
+                type: 'mcp_tool_call',
+                outcome: 'error',
+                tool: name,
+                args,
+                subject: serverName,
+                detail: `${(error as Error).message} (${Date.now() - startedAt}ms)`
+            });
+            throw error;
+        }
+        auditLog.record({
+            type: 'mcp_tool_call',
+            outcome: result.isError ? 'error' : 'success',
+            tool: name,
+            args,
+            subject: serverName,
+            detail: `${Date.now() - startedAt}ms`
         });
 
         // Convert MCP result to Anthropic ToolResult
         return JSON.stringify(result);
     }
 
+    /**
+     * Resources and resource templates of every connected server that offers them
+     */
+    async listResources(): Promise<MCPResourceInfo[]> {
+        const all: MCPResourceInfo[] = [];
+        for (const [name, client] of this.clients) {
+            if (!client.getServerCapabilities()?.resources) continue;
+            try {
+                let cursor: string | undefined;
+                for (let page = 0; page < MAX_LIST_PAGES; page++) {
+                    const result = await client.listResources(cursor ? { cursor } : undefined, this.requestOptions(name));
+                    all.push(...result.resources.map(r => ({
+                        server: name,
+                        uri: r.uri,
+                        name: r.name,
+                        title: r.title,
+                        description: r.description,
+                        mimeType: r.mimeType
+                    })));
+                    cursor = result.nextCursor;
+                    if (!cursor) break;
+                }
+
+                const templates = await client.listResourceTemplates(undefined, this.requestOptions(name));
+                all.push(...templates.resourceTemplates.map(t => ({
+                    server: name,
+                    uri: t.uriTemplate,
+                    name: t.name,
+                    title: t.title,
+                    description: t.description,
+                    mimeType: t.mimeType,
+                    template: true
+                })));
+            } catch (e) {
+                console.error(`Error listing resources for ${name}:`, e);
+            }
+        }
+        return all;
+    }
+
+    async readResource(server: string, uri: string): Promise<ReadResourceResult> {
+        return this.withClient(server, (client, options) => client.readResource({ uri }, options));
+    }
+
+    /**
+     * Prompts of every connected server that offers them
+     */
+    async listPrompts(): Promise<MCPPromptInfo[]> {
+        const all: MCPPromptInfo[] = [];
+        for (const [name, client] of this.clients) {
+            if (!client.getServerCapabilities()?.prompts) continue;
+            try {
+                let cursor: string | undefined;
+                for (let page = 0; page < MAX_LIST_PAGES; page++) {
+                    const result = await client.listPrompts(cursor ? { cursor } : undefined, this.requestOptions(name));
+                    all.push(...result.prompts.map(p => ({
+                        server: name,
+                        name: p.name,
+                        title: p.title,
+                        description: p.description,
+                        arguments: (p.arguments || []).map(a => ({ name: a.name, description: a.description, required: a.required }))
+                    })));
+                    cursor = result.nextCursor;
+                    if (!cursor) break;
+                }
+            } catch (e) {
+                console.error(`Error listing prompts for ${name}:`, e);
+            }
+        }
+        return all;
+    }
+
+    async getPrompt(server: string, name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+        return this.withClient(server, (client, options) => client.getPrompt({ name, arguments: args }, options));
+    }
+
     // =====================================================
     // New CRUD Methods for v2 Configuration Format
     // =====================================================
@@ -333,7 +596,8 @@ export class MCPClientService {
             return { success: false, error: `Server "${id}" not found` };
         }
 
-        await this.disconnectServerById(id);
+        await this.disconnectServerById(id, true);
+        this.configs.delete(id);
         config.servers.splice(index, 1);
         await this.saveConfigFileV2(config);
 
@@ -441,19 +705,27 @@ export class MCPClientService {
     }
 
     /**
-     * Disconnect a specific server by ID
+     * Disconnect a specific server by ID and stop reconnecting it; `forget`
+     * also drops its status and logs (the server was deleted)
+     */
+    async disconnectServerById(id: string, forget = false): Promise<void> {
+        if (forget) this.supervisor.remove(id);
+        else this.supervisor.stop(id);
+        await this.closeClient(id);
+    }
+
+    /**
+     * Close a connection; removed from the map first so onclose does not
+     * report it as lost
      */
-    private async disconnectServerById(id: string): Promise<void> {
+    private async closeClient(id: string): Promise<void> {
         const client = this.clients.get(id);
-        if (client) {
-            try {
-                const anyClient = client as unknown as { close?: () => unknown; disconnect?: () => unknown };
-                if (typeof anyClient.close === 'function') await anyClient.close();
-                else if (typeof anyClient.disconnect === 'function') await anyClient.disconnect();
-            } catch (e) {
-                console.error(`Failed to disconnect MCP server ${id}:`, e);
-            }
-            this.clients.delete(id);
+        if (!client) return;
+        this.clients.delete(id);
+        try {
+            await client.close();
+        } catch (e) {
+            console.error(`Failed to disconnect MCP server ${id}:`, e);
         }
     }
 }
@@ -0,0 +1,302 @@
+/**
+ * MCPSupervisor
+ *
+ * Keeps track of every configured MCP server's connection: it connects,
+ * notices drops and repeated call failures, and reconnects with exponential
+ * backoff. Stderr of stdio servers and connection events go to a per-server
+ * ring buffer for the settings log viewer.
+ */
+
+export type MCPServerState = 'connecting' | 'ready' | 'degraded' | 'failed' | 'stopped';
+
+export interface MCPServerStatus {
+    id: string;
+    state: MCPServerState;
+    // Reconnect attempts since the server was last ready
+    attempts: number;
+    lastError?: string;
+    connectedAt?: number;
+    nextRetryAt?: number;
+}
+
+export interface MCPLogEntry {
+    ts: number;
+    stream: 'stderr' | 'event';
+    line: string;
+}
+
+export interface MCPSupervisorOptions {
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    // Give up (state "failed") after this many reconnect attempts in a row
+    maxAttempts?: number;
+    // Consecutive call failures (timeouts, transport errors) before a reconnect
+    failureThreshold?: number;
+    logCapacity?: number;
+}
+
+const DEFAULTS: Required<MCPSupervisorOptions> = {
+    baseDelayMs: 1000,
+    maxDelayMs: 60_000,
+    maxAttempts: 8,
+    failureThreshold: 3,
+    logCapacity: 500
+};
+
+const MAX_LINE_LENGTH = 2000;
+
+/**
+ * Delay before reconnect attempt n (1-based): base * 2^(n-1), capped
+ */
+export function reconnectDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+    return Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+}
+
+/**
+ * Fixed-size log of lines; stream chunks are split on newlines, keeping a
+ * partial last line until the rest arrives
+ */
+export class LogRingBuffer {
+    private entries: MCPLogEntry[] = [];
+    private partial = '';
+
+    constructor(private readonly capacity: number) {}
+
+    push(stream: MCPLogEntry['stream'], line: string, ts = Date.now()): void {
+        this.entries.push({ ts, stream, line: line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}…` : line });
+        if (this.entries.length > this.capacity) {
+            this.entries.splice(0, this.entries.length - this.capacity);
+        }
+    }
+
+    pushChunk(chunk: string, ts = Date.now()): void {
+        const lines = (this.partial + chunk).split(/\r?\n/);
+        this.partial = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line) this.push('stderr', line, ts);
+        }
+    }
+
+    list(): MCPLogEntry[] {
+        return this.partial ? [...this.entries, { ts: Date.now(), stream: 'stderr', line: this.partial }] : [...this.entries];
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.partial = '';
+    }
+}
+
+interface SupervisedServer {
+    status: MCPServerStatus;
+    logs: LogRingBuffer;
+    consecutiveFailures: number;
+    retryTimer: ReturnType<typeof setTimeout> | null;
+    // Bumped on stop/restart so a late connect result is ignored
+    generation: number;
+}
+
+export class MCPSupervisor {
+    private servers = new Map<string, SupervisedServer>();
+    private options: Required<MCPSupervisorOptions>;
+    private listeners = new Set<(status: MCPServerStatus) => void>();
+
+    /**
+     * @param connect Opens the connection to a server; rejects on failure
+     */
+    constructor(private readonly connect: (id: string) => Promise<void>, options: MCPSupervisorOptions = {}) {
+        this.options = { ...DEFAULTS, ...options };
+    }
+
+    onStatusChange(listener: (status: MCPServerStatus) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Connect a server (first attempt is immediate); failures schedule retries.
+     * Resolves to whether the first attempt succeeded
+     */
+    async start(id: string): Promise<boolean> {
+        const server = this.ensure(id);
+        if (server.status.state === 'ready' || server.status.state === 'connecting') {
+            return server.status.state === 'ready';
+        }
+        this.clearRetry(server);
+        server.status.attempts = 0;
+        return this.attempt(id, server);
+    }
+
+    /**
+     * Stop supervising; the caller closes the connection
+     */
+    stop(id: string): void {
+        const server = this.servers.get(id);
+        if (!server) return;
+        this.clearRetry(server);
+        server.generation++;
+        server.consecutiveFailures = 0;
+        if (server.status.state !== 'stopped') {
+            server.logs.push('event', 'Disconnected');
+            this.update(server, { state: 'stopped', attempts: 0, nextRetryAt: undefined, connectedAt: undefined });
+        }
+    }
+
+    stopAll(): void {
+        for (const id of this.servers.keys()) this.stop(id);
+    }
+
+    /**
+     * Forget a server entirely (deleted from the configuration)
+     */
+    remove(id: string): void {
+        this.stop(id);
+        this.servers.delete(id);
+    }
+
+    /**
+     * Manual retry, also out of the "failed" state
+     */
+    async restart(id: string): Promise<boolean> {
+        this.stop(id);
+        return this.start(id);
+    }
+
+    /**
+     * The connection closed or errored without us closing it
+     */
+    connectionLost(id: string, reason: string): void {
+        const server = this.servers.get(id);
+        if (!server || server.retryTimer || server.status.state === 'stopped' || server.status.state === 'connecting') return;
+        server.logs.push('event', `Connection lost: ${reason}`);
+        this.scheduleRetry(id, server, { lastError: reason, connectedAt: undefined });
+    }
+
+    recordCallSuccess(id: string): void {
+        const server = this.servers.get(id);
+        if (!server) return;
+        server.consecutiveFailures = 0;
+        if (server.status.state === 'degraded' && !server.retryTimer) {
+            this.update(server, { state: 'ready' });
+        }
+    }
+
+    /**
+     * A call timed out or failed in transport: degraded at once, reconnect
+     * after `failureThreshold` failures in a row
+     */
+    recordCallFailure(id: string, reason: string): void {
+        const server = this.servers.get(id);
+        if (!server || (server.status.state !== 'ready' && server.status.state !== 'degraded')) return;
+        server.consecutiveFailures++;
+        server.logs.push('event', `Call failed: ${reason}`);
+        if (server.consecutiveFailures >= this.options.failureThreshold && !server.retryTimer) {
+            this.connectionLost(id, `${server.consecutiveFailures} consecutive call failures`);
+            return;
+        }
+        if (server.status.state === 'ready') {
+            this.update(server, { state: 'degraded', lastError: reason });
+        }
+    }
+
+    appendStderr(id: string, chunk: string): void {
+        this.ensure(id).logs.pushChunk(chunk);
+    }
+
+    logEvent(id: string, line: string): void {
+        this.ensure(id).logs.push('event', line);
+    }
+
+    getStatus(id: string): MCPServerStatus | undefined {
+        const server = this.servers.get(id);
+        return server ? { ...server.status } : undefined;
+    }
+
+    getStatuses(): MCPServerStatus[] {
+        return Array.from(this.servers.values(), s => ({ ...s.status }));
+    }
+
+    getLogs(id: string): MCPLogEntry[] {
+        return this.servers.get(id)?.logs.list() ?? [];
+    }
+
+    clearLogs(id: string): void {
+        this.servers.get(id)?.logs.clear();
+    }
+
+    private ensure(id: string): SupervisedServer {
+        let server = this.servers.get(id);
+        if (!server) {
+            server = {
+                status: { id, state: 'stopped', attempts: 0 },
+                logs: new LogRingBuffer(this.options.logCapacity),
+                consecutiveFailures: 0,
+                retryTimer: null,
+                generation: 0
+            };
+            this.servers.set(id, server);
+        }
+        return server;
+    }
+
+    private async attempt(id: string, server: SupervisedServer): Promise<boolean> {
+        const generation = server.generation;
+        server.logs.push('event', server.status.attempts > 0 ? `Reconnecting (attempt ${server.status.attempts})` : 'Connecting');
+        this.update(server, { state: 'connecting', nextRetryAt: undefined });
+        try {
+            await this.connect(id);
+        } catch (error) {
+            if (server.generation !== generation) return false;
+            const message = error instanceof Error ? error.message : String(error);
+            server.logs.push('event', `Connection failed: ${message}`);
+            this.scheduleRetry(id, server, { lastError: message });
+            return false;
+        }
+        if (server.generation !== generation) return false;
+        server.consecutiveFailures = 0;
+        server.logs.push('event', 'Connected');
+        this.update(server, { state: 'ready', attempts: 0, connectedAt: Date.now(), lastError: undefined });
+        return true;
+    }
+
+    private scheduleRetry(id: string, server: SupervisedServer, patch: Partial<MCPServerStatus>): void {
+        this.clearRetry(server);
+        const attempts = server.status.attempts + 1;
+        if (attempts > this.options.maxAttempts) {
+            server.logs.push('event', `Giving up after ${server.status.attempts} reconnect attempts`);
+            this.update(server, { ...patch, state: 'failed', nextRetryAt: undefined });
+            return;
+        }
+        const delay = reconnectDelay(attempts, this.options.baseDelayMs, this.options.maxDelayMs);
+        const generation = server.generation;
+        server.retryTimer = setTimeout(() => {
+            server.retryTimer = null;
+            if (server.generation === generation) void this.attempt(id, server);
+        }, delay);
+        this.update(server, {
+            ...patch,
+            state: 'degraded',
+            attempts,
+            nextRetryAt: Date.now() + delay
+        });
+    }
+
+    private clearRetry(server: SupervisedServer): void {
+        if (server.retryTimer) {
+            clearTimeout(server.retryTimer);
+            server.retryTimer = null;
+        }
+    }
+
+    private update(server: SupervisedServer, patch: Partial<MCPServerStatus>): void {
+        server.status = { ...server.status, ...patch };
+        const snapshot = { ...server.status };
+        for (const listener of this.listeners) {
+            try {
+                listener(snapshot);
+            } catch (error) {
+                console.error('[MCPSupervisor] Status listener failed:', error);
+            }
+        }
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for MCP server supervision
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LogRingBuffer, MCPSupervisor, reconnectDelay } from '../MCPSupervisor';
+
+describe('reconnectDelay', () => {
+  it('doubles per attempt up to the cap', () => {
+    expect([1, 2, 3, 4].map(n => reconnectDelay(n, 1000, 5000))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe('LogRingBuffer', () => {
+  it('keeps the newest lines and joins partial chunks', () => {
+    const buffer = new LogRingBuffer(2);
+    buffer.pushChunk('one\ntw');
+    buffer.pushChunk('o\nthree\nfour');
+
+    expect(buffer.list().map(e => e.line)).toEqual(['two', 'three', 'four']);
+    buffer.pushChunk('\n');
+    expect(buffer.list().map(e => e.line)).toEqual(['three', 'four']);
+  });
+});
+
+describe('MCPSupervisor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries a failing connection with backoff until it is ready', async () => {
+    const connect = vi.fn()
+      .mockRejectedValueOnce(new Error('spawn ENOENT'))
+      .mockRejectedValueOnce(new Error('spawn ENOENT'))
+      .mockResolvedValue(undefined);
+    const supervisor = new MCPSupervisor(connect, { baseDelayMs: 100 });
+
+    expect(await supervisor.start('fs')).toBe(false);
+    expect(supervisor.getStatus('fs')).toMatchObject({ state: 'degraded', attempts: 1, lastError: 'spawn ENOENT' });
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(supervisor.getStatus('fs')).toMatchObject({ state: 'degraded', attempts: 2 });
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(connect).toHaveBeenCalledTimes(3);
+    expect(supervisor.getStatus('fs')).toMatchObject({ state: 'ready', attempts: 0, lastError: undefined });
+  });
+
+  it('gives up after maxAttempts and can be restarted by hand', async () => {
+    const connect = vi.fn().mockRejectedValue(new Error('refused'));
+    const supervisor = new MCPSupervisor(connect, { baseDelayMs: 10, maxAttempts: 2 });
+
+    await supervisor.start('web');
+    await vi.advanceTimersByTimeAsync(10);
+    await vi.advanceTimersByTimeAsync(20);
+    expect(supervisor.getStatus('web')?.state).toBe('failed');
+    expect(connect).toHaveBeenCalledTimes(3);
+
+    connect.mockResolvedValue(undefined);
+    expect(await supervisor.restart('web')).toBe(true);
+    expect(supervisor.getStatus('web')?.state).toBe('ready');
+  });
+
+  it('reconnects after a dropped connection', async () => {
+    const connect = vi.fn().mockResolvedValue(undefined);
+    const supervisor = new MCPSupervisor(connect, { baseDelayMs: 50 });
+    const states: string[] = [];
+    supervisor.onStatusChange(s => states.push(s.state));
+
+    await supervisor.start('fs');
+    supervisor.connectionLost('fs', 'Connection closed');
+    expect(supervisor.getStatus('fs')?.state).toBe('degraded');
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(connect).toHaveBeenCalledTimes(2);
+    expect(supervisor.getStatus('fs')?.state).toBe('ready');
+    expect(states).toEqual(['connecting', 'ready', 'degraded', 'connecting', 'ready']);
+    expect(supervisor.getLogs('fs').map(e => e.line)).toContain('Connection lost: Connection closed');
+  });
+
+  it('degrades on call failures and reconnects at the threshold', async () => {
+    const connect = vi.fn().mockResolvedValue(undefined);
+    const supervisor = new MCPSupervisor(connect, { baseDelayMs: 10, failureThreshold: 2 });
+    await supervisor.start('slow');
+
+    supervisor.recordCallFailure('slow', 'Request timed out');
+    expect(supervisor.getStatus('slow')?.state).toBe('degraded');
+    supervisor.recordCallSuccess('slow');
+    expect(supervisor.getStatus('slow')?.state).toBe('ready');
+
+    supervisor.recordCallFailure('slow', 'Request timed out');
+    supervisor.recordCallFailure('slow', 'Request timed out');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(connect).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not reconnect a stopped server', async () => {
+    const connect = vi.fn().mockRejectedValue(new Error('down'));
+    const supervisor = new MCPSupervisor(connect, { baseDelayMs: 10 });
+
+    await supervisor.start('fs');
+    supervisor.stop('fs');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(supervisor.getStatus('fs')?.state).toBe('stopped');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for MCP content conversions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  promptMessagesToText,
+  resourceContentsToAttachment,
+  samplingMessagesToAnthropic,
+  summarizeSamplingMessages,
+} from '../mcpContent';
+
+describe('samplingMessagesToAnthropic', () => {
+  it('converts text and supported images', () => {
+    const messages = samplingMessagesToAnthropic([
+      { role: 'user', content: { type: 'text', text: 'Describe this' } },
+      { role: 'user', content: [{ type: 'image', data: 'AAAA', mimeType: 'image/png' }] },
+    ]);
+
+    expect(messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Describe this' }] },
+      { role: 'user', content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } }] },
+    ]);
+  });
+
+  it('replaces content the provider cannot take with a placeholder', () => {
+    const [message] = samplingMessagesToAnthropic([
+      { role: 'user', content: { type: 'audio', data: 'AAAA', mimeType: 'audio/wav' } },
+    ]);
+
+    expect(message.content).toEqual([{ type: 'text', text: '[audio content omitted]' }]);
+  });
+});
+
+describe('summarizeSamplingMessages', () => {
+  it('shortens long requests', () => {
+    const summary = summarizeSamplingMessages([{ role: 'user', content: { type: 'text', text: 'x'.repeat(50) } }], 20);
+
+    expect(summary).toBe(`user: ${'x'.repeat(14)}…`);
+  });
+});
+
+describe('resourceContentsToAttachment', () => {
+  it('keeps text, turns images into data URLs and notes other blobs', () => {
+    const attachment = resourceContentsToAttachment({
+      contents: [
+        { uri: 'file:///a.md', mimeType: 'text/markdown', text: '# A' },
+        { uri: 'file:///b.png', mimeType: 'image/png', blob: 'iVBORw0K' },
+        { uri: 'file:///c.bin', mimeType: 'application/octet-stream', blob: 'AAAA' },
+      ],
+    });
+
+    expect(attachment.images).toEqual(['data:image/png;base64,iVBORw0K']);
+    expect(attachment.text).toBe('# A\n\n[binary content application/octet-stream, 3 bytes]');
+  });
+});
+
+describe('promptMessagesToText', () => {
+  it('joins text and embedded resources', () => {
+    const text = promptMessagesToText({
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Review this PR' } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'pr://1', text: 'diff --git a b' } } },
+        { role: 'user', content: { type: 'image', data: 'AAAA', mimeType: 'image/png' } },
+      ],
+    });
+
+    expect(text).toBe('Review this PR\n\ndiff --git a b\n\n[image content omitted]');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for Bingowork's own MCP server helpers
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  isAuthorizedRequest,
+  readServerDiscovery,
+  removeServerDiscovery,
+  sanitizeExposedTools,
+  skillPromptText,
+  toolCallResult,
+  writeServerDiscovery,
+} from '../serverExposure';
+
+describe('isAuthorizedRequest', () => {
+  it('accepts only the bearer token', () => {
+    expect(isAuthorizedRequest('Bearer s3cret', 's3cret')).toBe(true);
+    expect(isAuthorizedRequest('bearer  s3cret ', 's3cret')).toBe(true);
+    expect(isAuthorizedRequest('Bearer s3cre', 's3cret')).toBe(false);
+    expect(isAuthorizedRequest('Basic s3cret', 's3cret')).toBe(false);
+    expect(isAuthorizedRequest(undefined, 's3cret')).toBe(false);
+    expect(isAuthorizedRequest('Bearer ', '')).toBe(false);
+  });
+});
+
+describe('sanitizeExposedTools', () => {
+  it('keeps exposable tools once and drops the rest', () => {
+    expect(sanitizeExposedTools(['record_fact', 'run_command', 'record_fact', 42])).toEqual(['record_fact']);
+    expect(sanitizeExposedTools(undefined)).toContain('search_memory');
+  });
+});
+
+describe('skillPromptText', () => {
+  it('includes the skill directory, instructions and task', () => {
+    const text = skillPromptText({ name: 'pdf', instructions: 'Use pypdf.\n', skillDir: '/skills/pdf' }, ' Merge a.pdf and b.pdf ');
+
+    expect(text).toBe('Use the Bingowork skill "pdf". Its files are in /skills/pdf.\n\nUse pypdf.\n\nTask: Merge a.pdf and b.pdf');
+  });
+});
+
+describe('toolCallResult', () => {
+  it('flags registry errors', () => {
+    expect(toolCallResult('Error: User denied the operation.').isError).toBe(true);
+    expect(toolCallResult('Recorded fact #3').isError).toBe(false);
+  });
+});
+
+describe('server discovery file', () => {
+  const file = path.join(os.tmpdir(), `bingowork-mcp-server-${process.pid}.json`);
+
+  afterEach(() => {
+    fs.rmSync(file, { force: true });
+  });
+
+  it('round-trips for a live process and is removed by its owner only', () => {
+    writeServerDiscovery({ url: 'http://127.0.0.1:1234/mcp', token: 't', pid: process.pid }, file);
+    expect(readServerDiscovery(file)).toEqual({ url: 'http://127.0.0.1:1234/mcp', token: 't', pid: process.pid });
+
+    removeServerDiscovery(process.pid + 1, file);
+    expect(fs.existsSync(file)).toBe(true);
+    removeServerDiscovery(process.pid, file);
+    expect(fs.existsSync(file)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Conversions between MCP content (resources, prompts, sampling messages)
+ * and what the agent and the chat input work with
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { GetPromptResult, ReadResourceResult, SamplingMessage } from '@modelcontextprotocol/sdk/types.js';
+import { SUPPORTED_IMAGE_TYPES, SupportedImageType } from '../AgentConstants';
+
+type SamplingBlock = Extract<SamplingMessage['content'], { type: string }>;
+type PromptContent = GetPromptResult['messages'][number]['content'];
+
+export interface ResourceAttachment {
+    // Text contents, one section per entry
+    text: string;
+    // Image contents as data URLs, ready for the chat input's image list
+    images: string[];
+}
+
+const isSupportedImage = (mimeType?: string): mimeType is SupportedImageType =>
+    Boolean(mimeType && (SUPPORTED_IMAGE_TYPES as readonly string[]).includes(mimeType));
+
+function samplingBlockToAnthropic(block: SamplingBlock): Anthropic.TextBlockParam | Anthropic.ImageBlockParam {
+    if (block.type === 'text') return { type: 'text', text: block.text };
+    if (block.type === 'image' && isSupportedImage(block.mimeType)) {
+        return { type: 'image', source: { type: 'base64', media_type: block.mimeType, data: block.data } };
+    }
+    // Audio, unsupported image types and tool blocks have no equivalent here
+    return { type: 'text', text: `[${block.type} content omitted]` };
+}
+
+/**
+ * Turn the messages of a sampling/createMessage request into chat messages
+ */
+export function samplingMessagesToAnthropic(messages: SamplingMessage[]): Anthropic.MessageParam[] {
+    return messages.map(message => {
+        const blocks = Array.isArray(message.content) ? message.content : [message.content];
+        return { role: message.role, content: blocks.map(samplingBlockToAnthropic) };
+    });
+}
+
+/**
+ * Plain text of the sampling request, for the approval dialog
+ */
+export function summarizeSamplingMessages(messages: SamplingMessage[], maxLength = 500): string {
+    const text = messages
+        .map(message => {
+            const blocks = Array.isArray(message.content) ? message.content : [message.content];
+            return `${message.role}: ${blocks.map(b => b.type === 'text' ? b.text : `[${b.type}]`).join(' ')}`;
+        })
+        .join('\n');
+    return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+/**
+ * Split the contents of a read resource into text for the message and images
+ */
+export function resourceContentsToAttachment(result: ReadResourceResult): ResourceAttachment {
+    const sections: string[] = [];
+    const images: string[] = [];
+    for (const content of result.contents) {
+        if ('text' in content && typeof content.text === 'string') {
+            sections.push(content.text);
+        } else if ('blob' in content && typeof content.blob === 'string') {
+            if (isSupportedImage(content.mimeType)) {
+                images.push(`data:${content.mimeType};base64,${content.blob}`);
+            } else {
+                sections.push(`[binary content ${content.mimeType || 'application/octet-stream'}, ${Buffer.byteLength(content.blob, 'base64')} bytes]`);
+            }
+        }
+    }
+    return { text: sections.join('\n\n'), images };
+}
+
+function promptContentToText(content: PromptContent): string {
+    switch (content.type) {
+        case 'text':
+            return content.text;
+        case 'resource':
+            return 'text' in content.resource && typeof content.resource.text === 'string'
+                ? content.resource.text
+                : `[resource ${content.resource.uri}]`;
+        case 'resource_link':
+            return `[resource ${content.uri}]`;
+        default:
+            return `[${content.type} content omitted]`;
+    }
+}
+
+/**
+ * Flatten an expanded prompt into text the user can edit before sending
+ */
+export function promptMessagesToText(result: GetPromptResult): string {
+    return result.messages
+        .map(message => promptContentToText(message.content))
+        .filter(Boolean)
+        .join('\n\n');
+}
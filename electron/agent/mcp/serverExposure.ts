@@ -0,0 +1,111 @@
+/**
+ * Bingowork's own MCP server: which tools it may publish, request
+ * authentication and the discovery file the stdio bridge reads
+ *
+ * Shared by the main process (BingoworkMCPServer) and the stdio CLI entry, so
+ * it must not import electron.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Tools that make sense outside the app; file system, shell and browser tools stay private
+export const EXPOSABLE_TOOLS = [
+    'search_memory',
+    'list_memories',
+    'record_fact',
+    'forget_fact',
+    'list_schedule_tasks',
+    'create_schedule_task',
+    'execute_schedule_task'
+] as const;
+
+export const DEFAULT_EXPOSED_TOOLS: string[] = ['search_memory', 'record_fact', 'list_schedule_tasks', 'create_schedule_task'];
+
+export const DEFAULT_MCP_SERVER_PORT = 37651;
+
+export const MCP_SERVER_PATH = '/mcp';
+
+export const SERVER_DISCOVERY_PATH = path.join(os.homedir(), '.bingowork', 'mcp-server.json');
+
+export interface ServerDiscovery {
+    url: string;
+    token: string;
+    pid: number;
+}
+
+export function sanitizeExposedTools(tools: unknown): string[] {
+    if (!Array.isArray(tools)) return [...DEFAULT_EXPOSED_TOOLS];
+    const allowed = new Set<string>(EXPOSABLE_TOOLS);
+    return Array.from(new Set(tools.filter((t): t is string => typeof t === 'string' && allowed.has(t))));
+}
+
+export function generateServerToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Check an Authorization header against the server token in constant time
+ */
+export function isAuthorizedRequest(authorization: string | undefined, token: string): boolean {
+    if (!token || !authorization) return false;
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization.trim());
+    if (!match) return false;
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(match[1]), digest(token));
+}
+
+/**
+ * Prompt text for a skill published as an MCP prompt; the optional task is
+ * what the client wants done with it
+ */
+export function skillPromptText(skill: { name: string; instructions: string; skillDir: string }, task?: string): string {
+    const parts = [
+        `Use the Bingowork skill "${skill.name}". Its files are in ${skill.skillDir}.`,
+        skill.instructions.trim()
+    ];
+    if (task?.trim()) parts.push(`Task: ${task.trim()}`);
+    return parts.join('\n\n');
+}
+
+/**
+ * ToolRegistry results are plain strings; failures start with "Error"
+ */
+export function toolCallResult(text: string): { content: Array<{ type: 'text'; text: string }>; isError: boolean } {
+    return { content: [{ type: 'text', text }], isError: /^Error\b/.test(text) };
+}
+
+export function writeServerDiscovery(discovery: ServerDiscovery, file = SERVER_DISCOVERY_PATH): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(discovery, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    // The mode only applies when the file is created
+    fs.chmodSync(file, 0o600);
+}
+
+/**
+ * The running app's endpoint, or null when the server is off or the app is gone
+ */
+export function readServerDiscovery(file = SERVER_DISCOVERY_PATH): ServerDiscovery | null {
+    try {
+        const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as Partial<ServerDiscovery>;
+        if (typeof data.url !== 'string' || typeof data.token !== 'string' || typeof data.pid !== 'number') return null;
+        process.kill(data.pid, 0);
+        return { url: data.url, token: data.token, pid: data.pid };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Remove the discovery file if this process wrote it
+ */
+export function removeServerDiscovery(pid = process.pid, file = SERVER_DISCOVERY_PATH): void {
+    try {
+        const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as Partial<ServerDiscovery>;
+        if (data.pid === pid) fs.unlinkSync(file);
+    } catch {
+        // Missing or unreadable: nothing to clean up
+    }
+}
@@ -24,6 +24,8 @@ export interface MCPServerConfig {
     url?: string;
     /** Environment variables for the server process */
     env?: Record<string, string>;
+    /** Per-request timeout in milliseconds (default 60s) */
+    timeoutMs?: number;
     /** Creation timestamp */
     createdAt?: number;
     /** Last update timestamp */
@@ -47,3 +49,35 @@ export interface MCPConfigFile {
 export interface LegacyMCPConfig {
     mcpServers: Record<string, Omit<MCPServerConfig, 'id' | 'name' | 'enabled' | 'transportType'>>;
 }
+
+/**
+ * A resource (or resource template) offered by a connected server
+ */
+export interface MCPResourceInfo {
+    /** Server id the resource belongs to */
+    server: string;
+    /** Resource URI, or the URI template for templates */
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+    /** True for RFC 6570 URI templates that need to be filled in before reading */
+    template?: boolean;
+}
+
+/**
+ * A prompt offered by a connected server, surfaced as a slash command
+ */
+export interface MCPPromptInfo {
+    server: string;
+    name: string;
+    title?: string;
+    description?: string;
+    arguments: { name: string; description?: string; required?: boolean }[];
+}
+
+/**
+ * Which list a server reported as changed
+ */
+export type MCPListKind = 'tools' | 'resources' | 'prompts';
@@ -0,0 +1,342 @@
+import path from 'path';
+import Anthropic from '@anthropic-ai/sdk';
+import { TaskDatabase, MemoryProposalInsert, MemoryProposalRow } from '../../config/TaskDatabase';
+import type { AgentMessage } from '../AgentConstants';
+import { generateResponse, ProviderId } from '../providers/generateResponse';
+import { getMemoryManager } from './MemoryManager';
+import {
+    DUPLICATE_SIMILARITY,
+    EXTRACTION_SYSTEM_PROMPT,
+    ExtractedFact,
+    MERGE_SIMILARITY,
+    buildExtractionRequest,
+    closestFact,
+    parseExtractedFacts,
+    renderExtractionTranscript
+} from './memoryExtraction';
+import { normalizeTags } from './memoryTransfer';
+import type { Memory, MemoryExtractionStatus, MemoryProposal, MemoryProposalEdit } from './types';
+import { logs } from '../../utils/logger';
+
+const EXTRACTION_MAX_TOKENS = 2000;
+// New messages a session needs before another pass is worth it
+const MIN_NEW_MESSAGES = 2;
+// Existing memories shown to the model, and looked up per fact when de-duplicating
+const EXISTING_MEMORY_LIMIT = 30;
+const RELATED_PER_FACT = 5;
+const QUERY_CHARS = 2000;
+
+export interface ExtractionLLM {
+    provider: ProviderId;
+    model: string;
+    apiKey: string;
+    apiUrl: string;
+}
+
+// What the extractor needs from the app; supplied by the IPC layer
+export interface MemoryExtractorHost {
+    settings(): { enabled: boolean; idleMinutes: number };
+    // null when no model is configured
+    resolveLLM(): Promise<ExtractionLLM | null>;
+    getSession(id: string): { messages: AgentMessage[] } | null;
+    // Without loading the messages
+    sessionTitle(id: string): string | null;
+    projectPath(): string | null;
+}
+
+const proposalListeners = new Set<() => void>();
+
+export function onProposalsChanged(listener: () => void): () => void {
+    proposalListeners.add(listener);
+    return () => proposalListeners.delete(listener);
+}
+
+function messageText(message: AgentMessage): string {
+    if (typeof message.content === 'string') return message.content;
+    return message.content
+        .filter((b): b is Anthropic.TextBlockParam => b.type === 'text')
+        .map(b => b.text)
+        .join('\n');
+}
+
+/**
+ * MemoryExtractor
+ * Reads conversations once they go idle or are left, proposes durable facts
+ * and keeps them in a review inbox until the user accepts or rejects them
+ */
+export class MemoryExtractor {
+    private static instance: MemoryExtractor | null = null;
+    private host: MemoryExtractorHost | null = null;
+    private running = new Map<string, Promise<number>>();
+    private idleTimer: { sessionId: string; timer: NodeJS.Timeout } | null = null;
+    private lastError: string | null = null;
+
+    private constructor(private readonly db: TaskDatabase) {}
+
+    public static getInstance(): MemoryExtractor {
+        if (!MemoryExtractor.instance) {
+            MemoryExtractor.instance = new MemoryExtractor(new TaskDatabase());
+        }
+        return MemoryExtractor.instance;
+    }
+
+    public configure(host: MemoryExtractorHost): void {
+        this.host = host;
+    }
+
+    /**
+     * The session's transcript grew; it is read once it has been quiet for the idle time
+     */
+    public sessionActive(sessionId: string): void {
+        this.cancelIdle();
+        const settings = this.host?.settings();
+        if (!settings?.enabled) return;
+        const timer = setTimeout(() => {
+            this.idleTimer = null;
+            void this.extractSession(sessionId);
+        }, settings.idleMinutes * 60 * 1000);
+        timer.unref();
+        this.idleTimer = { sessionId, timer };
+    }
+
+    /**
+     * The user left the session (opened another or started a new one)
+     */
+    public sessionClosed(sessionId: string | null): void {
+        if (!sessionId) return;
+        if (this.idleTimer?.sessionId === sessionId) this.cancelIdle();
+        void this.extractSession(sessionId);
+    }
+
+    /**
+     * A deleted session is not read; proposals already made from it stay in the inbox
+     */
+    public sessionDeleted(sessionId: string): void {
+        if (this.idleTimer?.sessionId === sessionId) this.cancelIdle();
+        this.db.deleteMemoryExtractionCursor(sessionId);
+    }
+
+    /**
+     * Read the messages added since the last pass and queue proposals; returns how
+     * many were queued. `manual` runs even when automatic extraction is off.
+     */
+    public extractSession(sessionId: string, manual = false): Promise<number> {
+        let run = this.running.get(sessionId);
+        if (!run) {
+            run = this.runExtraction(sessionId, manual)
+                .catch((error) => {
+                    this.lastError = (error as Error).message;
+                    logs.agent.warn(`[MemoryExtractor] Extraction for session ${sessionId} failed: ${this.lastError}`);
+                    if (manual) throw error;
+                    return 0;
+                })
+                .finally(() => {
+                    this.running.delete(sessionId);
+                    this.notifyChanged();
+                });
+            this.running.set(sessionId, run);
+            this.notifyChanged();
+        }
+        return run;
+    }
+
+    public getStatus(): MemoryExtractionStatus {
+        return {
+            running: Array.from(this.running.keys()),
+            pending: this.db.countMemoryProposals('pending'),
+            lastError: this.lastError
+        };
+    }
+
+    /**
+     * Pending proposals, newest first
+     */
+    public async listProposals(): Promise<MemoryProposal[]> {
+        const titles = new Map<string, string | null>();
+        const title = (sessionId: string) => {
+            if (!titles.has(sessionId)) titles.set(sessionId, this.host?.sessionTitle(sessionId) ?? null);
+            return titles.get(sessionId) ?? null;
+        };
+        const proposals: MemoryProposal[] = [];
+        for (const row of this.db.listMemoryProposals('pending')) {
+            const mergeTarget = row.merge_target_id ? await getMemoryManager().getMemory(row.merge_target_id) : null;
+            proposals.push(this.toProposal(row, mergeTarget, title(row.session_id)));
+        }
+        return proposals;
+    }
+
+    /**
+     * Write accepted proposals as memories, with the conversation they came from;
+     * a proposal refining an existing memory rewrites it. Returns how many were accepted.
+     */
+    public async acceptProposals(ids: number[], edits: Record<number, MemoryProposalEdit> = {}): Promise<number> {
+        const manager = getMemoryManager();
+        let accepted = 0;
+        for (const row of this.db.getMemoryProposalsByIds(ids)) {
+            if (row.status !== 'pending') continue;
+            const edit = edits[row.id] ?? {};
+            const content = (edit.content ?? row.content).trim();
+            if (!content) continue;
+            const tags = edit.tags ? normalizeTags(edit.tags) : this.parseTags(row.tags_json);
+            const source = { sessionId: row.session_id, messageId: row.message_id };
+
+            // The target may have been deleted since; the fact is then added on its own
+            const target = row.merge_target_id ? await manager.getMemory(row.merge_target_id) : null;
+            if (target) {
+                await manager.updateMemory(target.id, { content, tags: [...target.tags, ...tags], source });
+            } else {
+                await manager.addMemory(content, tags, {
+                    scope: row.scope === 'project' && row.scope_key ? 'project' : 'global',
+                    scopeKey: row.scope_key,
+                    source
+                });
+            }
+            accepted += this.db.setMemoryProposalStatus([row.id], 'accepted');
+        }
+        if (accepted > 0) this.notifyChanged();
+        return accepted;
+    }
+
+    public rejectProposals(ids: number[]): number {
+        const rejected = this.db.setMemoryProposalStatus(ids, 'rejected');
+        if (rejected > 0) this.notifyChanged();
+        return rejected;
+    }
+
+    private async runExtraction(sessionId: string, manual: boolean): Promise<number> {
+        const host = this.host;
+        if (!host || (!manual && !host.settings().enabled)) return 0;
+        const session = host.getSession(sessionId);
+        if (!session) return 0;
+
+        const messages = session.messages;
+        const cursor = this.db.getMemoryExtractionCursor(sessionId);
+        // Compaction can drop the last message read; the whole session is then read
+        // again and facts already proposed are filtered out below
+        const lastRead = cursor?.last_message_id ? messages.findIndex(m => m.id === cursor.last_message_id) : -1;
+        const fresh = messages.slice(lastRead + 1);
+        if (fresh.length < MIN_NEW_MESSAGES || !fresh.some(m => m.role === 'user' && messageText(m).trim())) return 0;
+
+        const llm = await host.resolveLLM();
+        if (!llm) throw new Error('No model is configured for memory extraction');
+
+        const projectPath = host.projectPath();
+        const query = fresh.filter(m => m.role === 'user').map(messageText).join('\n').slice(0, QUERY_CHARS);
+        // Only memories visible from this session's project are shown, merged into or updated
+        const existing = await getMemoryManager().findRelated(query, EXISTING_MEMORY_LIMIT, projectPath);
+
+        logs.agent.info(`[MemoryExtractor] Reading ${fresh.length} messages of session ${sessionId}`);
+        const content = await generateResponse(
+            llm.provider,
+            {
+                model: llm.model,
+                systemPrompt: EXTRACTION_SYSTEM_PROMPT,
+                messages: [{ role: 'user', content: buildExtractionRequest(renderExtractionTranscript(fresh), existing, projectPath) }],
+                tools: [],
+                maxTokens: EXTRACTION_MAX_TOKENS
+            },
+            { apiKey: llm.apiKey, apiUrl: llm.apiUrl }
+        );
+        const reply = content
+            .filter((b): b is Anthropic.TextBlock => b.type === 'text')
+            .map(b => b.text)
+            .join('');
+
+        const messageIds = new Set(fresh.flatMap(m => (m.id ? [m.id] : [])));
+        const facts = parseExtractedFacts(reply, messageIds, new Set(existing.map(m => m.id)));
+        const proposals = await this.reconcile(facts, existing, sessionId, projectPath);
+        if (proposals.length > 0) this.db.insertMemoryProposals(proposals);
+
+        this.db.saveMemoryExtractionCursor(sessionId, messages[messages.length - 1]?.id ?? null, messages.length);
+        this.lastError = null;
+        logs.agent.info(`[MemoryExtractor] Proposed ${proposals.length} of ${facts.length} facts from session ${sessionId}`);
+        return proposals.length;
+    }
+
+    /**
+     * Drop facts that are already memories or were proposed before (rejected ones
+     * included), and turn facts close to an existing memory into merge proposals
+     */
+    private async reconcile(
+        facts: ExtractedFact[],
+        existing: Memory[],
+        sessionId: string,
+        projectPath: string | null
+    ): Promise<MemoryProposalInsert[]> {
+        const proposed = this.db.listMemoryProposals()
+            .filter(row => row.status !== 'accepted')
+            .map(row => row.content);
+        const proposals: MemoryProposalInsert[] = [];
+
+        for (const fact of facts) {
+            const seen = closestFact(fact.content, proposed, text => text);
+            if (seen && seen.similarity >= DUPLICATE_SIMILARITY) continue;
+
+            const related = await getMemoryManager().findRelated(fact.content, RELATED_PER_FACT, projectPath);
+            const visible = [...existing, ...related];
+            const closest = closestFact(fact.content, visible, m => m.content);
+            if (closest && closest.similarity >= DUPLICATE_SIMILARITY) continue;
+
+            const updates = fact.updates !== null && visible.some(m => m.id === fact.updates) ? fact.updates : null;
+            const mergeTargetId = updates
+                ?? (closest && closest.similarity >= MERGE_SIMILARITY ? closest.item.id : null);
+            const projectScoped = fact.scope === 'project' && projectPath !== null;
+            proposals.push({
+                content: fact.content,
+                tagsJson: JSON.stringify(fact.tags),
+                scope: projectScoped ? 'project' : 'global',
+                scopeKey: projectScoped ? path.resolve(projectPath) : null,
+                mergeTargetId,
+                sessionId,
+                messageId: fact.messageId
+            });
+            proposed.push(fact.content);
+        }
+        return proposals;
+    }
+
+    private toProposal(row: MemoryProposalRow, mergeTarget: Memory | null, sessionTitle: string | null): MemoryProposal {
+        return {
+            id: row.id,
+            content: row.content,
+            tags: this.parseTags(row.tags_json),
+            scope: row.scope === 'project' ? 'project' : 'global',
+            scopeKey: row.scope_key,
+            mergeTarget,
+            source: { sessionId: row.session_id, messageId: row.message_id },
+            sessionTitle,
+            status: row.status === 'accepted' || row.status === 'rejected' ? row.status : 'pending',
+            createdAt: row.created_at
+        };
+    }
+
+    private parseTags(tagsJson: string): string[] {
+        try {
+            return normalizeTags(JSON.parse(tagsJson || '[]'));
+        } catch {
+            return [];
+        }
+    }
+
+    private cancelIdle(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer.timer);
+            this.idleTimer = null;
+        }
+    }
+
+    private notifyChanged(): void {
+        for (const listener of proposalListeners) {
+            try {
+                listener();
+            } catch (error) {
+                logs.agent.error(`[MemoryExtractor] Change listener failed: ${(error as Error).message}`);
+            }
+        }
+    }
+}
+
+// Global accessor
+export function getMemoryExtractor(): MemoryExtractor {
+    return MemoryExtractor.getInstance();
+}
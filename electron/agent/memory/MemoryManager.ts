@@ -1,8 +1,76 @@
-
-import { TaskDatabase } from '../../config/TaskDatabase';
-import { Memory, MemorySearchParams } from './types';
+import path from 'path';
+import { TaskDatabase, MemoryRow, MemoryVisibility } from '../../config/TaskDatabase';
+import {
+    Memory,
+    MemoryContext,
+    MemoryCreateOptions,
+    MemoryExportFormat,
+    MemoryImportResult,
+    MemoryIndexStatus,
+    MemoryListFilter,
+    MemoryRetrievalOptions,
+    MemoryScope,
+    MemorySearchParams,
+    MemoryUpdateInput
+} from './types';
+import { isMemoryScope, projectScopeKeys } from './memoryScope';
+import { memoryContentKey, normalizeTags, parseMemoryPack, retagList, serializeMemoryPack } from './memoryTransfer';
+import type { EmbeddingProvider } from './embeddings';
+import { decodeVector, encodeVector, fitTokenBudget, mmrRerank, rankHybrid } from './hybridRetrieval';
+import { estimateTextTokens } from '../services/ContextCompactor';
 import { logs } from '../../utils/logger';
 
+const INDEX_BATCH_SIZE = 32;
+// How long a search waits for the query embedding before ranking by keywords only;
+// the first call may have to load the local model
+const SEARCH_EMBED_TIMEOUT_MS = 30000;
+const PROMPT_EMBED_TIMEOUT_MS = 3000;
+// Blended score a memory needs before it is injected unasked
+const MIN_PROMPT_RELEVANCE = 0.25;
+
+// Notified after any change made through MemoryManager (the system prompt caches pinned memories)
+const changeListeners = new Set<() => void>();
+
+export function onMemoriesChanged(listener: () => void): () => void {
+    changeListeners.add(listener);
+    return () => changeListeners.delete(listener);
+}
+
+// Text that gets embedded: tags carry meaning the content may not spell out
+function embeddingText(row: MemoryRow): string {
+    const tags = toMemory(row).tags;
+    return tags.length > 0 ? `${row.content}\ntags: ${tags.join(', ')}` : row.content;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function toMemory(row: MemoryRow): Memory {
+    let tags: string[] = [];
+    try {
+        tags = normalizeTags(JSON.parse(row.tags_json || '[]'));
+    } catch {
+        // Malformed tags are dropped rather than hiding the memory
+    }
+    return {
+        id: row.id,
+        content: row.content,
+        tags,
+        pinned: Boolean(row.pinned),
+        scope: isMemoryScope(row.scope) ? row.scope : 'global',
+        scopeKey: row.scope_key ?? null,
+        expiresAt: row.expires_at ?? null,
+        source: row.source_session_id ? { sessionId: row.source_session_id, messageId: row.source_message_id ?? null } : null,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    };
+}
+
 /**
  * MemoryManager
  * Manages permanent memories using SQLite and FTS5
@@ -10,6 +78,11 @@ import { logs } from '../../utils/logger';
 export class MemoryManager {
     private static instance: MemoryManager | null = null;
     private db: TaskDatabase;
+    private embeddings: EmbeddingProvider | null = null;
+    private retrievalOptions: MemoryRetrievalOptions | null = null;
+    private indexing: Promise<void> | null = null;
+    private indexError: string | null = null;
+    private contextResolver: () => MemoryContext = () => ({ projectPath: null, sessionId: null });
 
     private constructor() {
         this.db = new TaskDatabase();
@@ -23,18 +96,47 @@ export class MemoryManager {
     }
 
     /**
-     * Add a new memory
+     * Where the agent is working: the primary authorized folder and the current session
      */
-    public async addMemory(content: string, tags: string[] = []): Promise<Memory> {
+    public setContextResolver(resolver: () => MemoryContext): void {
+        this.contextResolver = resolver;
+    }
+
+    public currentContext(): MemoryContext {
+        return this.contextResolver();
+    }
+
+    /**
+     * Add a new memory; scoped memories default to the current project or session
+     */
+    public async addMemory(content: string, tags: string[] = [], options: MemoryCreateOptions = {}): Promise<Memory> {
         try {
-            const tagsJson = JSON.stringify(tags);
-            const id = this.db.insertMemory(content, tagsJson);
+            const normalizedTags = normalizeTags(tags);
+            const scope = options.scope ?? 'global';
+            const scopeKey = this.resolveScopeKey(scope, options.scopeKey);
+            const expiresAt = options.expiresAt ?? null;
+            const pinned = Boolean(options.pinned);
+            const source = options.source ?? null;
+            const id = this.db.insertMemory(content, JSON.stringify(normalizedTags), {
+                pinned,
+                scope,
+                scopeKey,
+                expiresAt,
+                sourceSessionId: source?.sessionId,
+                sourceMessageId: source?.messageId
+            });
+            this.notifyChanged();
 
             const now = Date.now();
             return {
                 id,
                 content,
-                tags,
+                tags: normalizedTags,
+                pinned,
+                scope,
+                scopeKey,
+                expiresAt,
+                source,
                 createdAt: now,
                 updatedAt: now
             };
@@ -52,19 +154,15 @@ export class MemoryManager {
             const { query, limit = 10 } = params;
 
             let results;
-            if (query) {
-                results = this.db.searchMemories(query, limit);
+            if (query && this.embeddings) {
+                return await this.hybridSearch(query, limit, SEARCH_EMBED_TIMEOUT_MS);
+            } else if (query) {
+                results = this.db.searchMemories(query, limit, this.visibility());
             } else {
-                results = this.db.getRecentMemories(limit);
+                results = this.db.getRecentMemories(limit, this.visibility());
             }
 
-            return results.map(row => ({
-                id: row.id,
-                content: row.content,
-                tags: JSON.parse(row.tags_json || '[]'),
-                createdAt: row.created_at,
-                updatedAt: row.updated_at
-            }));
+            return results.map(toMemory);
         } catch (error) {
             logs.agent.error(`[Memory] Failed to search memories: ${(error as Error).message}`);
             return [];
@@ -78,17 +176,329 @@ export class MemoryManager {
         return this.searchMemories({ limit });
     }
 
+    /**
+     * Memories for the management view: substring search, tag and pin filters, paging
+     */
+    public async listMemories(filter: MemoryListFilter = {}): Promise<{ memories: Memory[]; total: number }> {
+        const { scope, ...rest } = filter;
+        const { rows, total } = this.db.queryMemories({
+            ...rest,
+            scope: scope === 'current' ? undefined : scope,
+            visibility: scope === 'current' ? this.visibility() : undefined
+        });
+        return { memories: rows.map(toMemory), total };
+    }
+
+    /**
+     * Memories related to a text among the global ones and those of a project
+     * (and its parent folders), for de-duplication; session memories are left out
+     */
+    public async findRelated(text: string, limit: number = 10, projectPath: string | null = null): Promise<Memory[]> {
+        const visibility = this.visibility({ projectPath, sessionId: null });
+        try {
+            if (this.embeddings) {
+                return await this.hybridSearch(text, limit, SEARCH_EMBED_TIMEOUT_MS, visibility);
+            }
+            return this.db.searchMemories(text, limit, visibility).map(toMemory);
+        } catch (error) {
+            logs.agent.error(`[Memory] Failed to find related memories: ${(error as Error).message}`);
+            return [];
+        }
+    }
+
+    public async getMemory(id: number): Promise<Memory | null> {
+        const row = this.db.getMemory(id);
+        return row ? toMemory(row) : null;
+    }
+
+    public async listTags(): Promise<Array<{ tag: string; count: number }>> {
+        return this.db.listMemoryTags();
+    }
+
+    /**
+     * Pinned memories, injected into every system prompt
+     */
+    public async getPinnedMemories(): Promise<Memory[]> {
+        try {
+            return this.db.queryMemories({ pinned: true, visibility: this.visibility() }).rows.map(toMemory);
+        } catch (error) {
+            logs.agent.error(`[Memory] Failed to load pinned memories: ${(error as Error).message}`);
+            return [];
+        }
+    }
+
+    /**
+     * Update content, tags or pin state; null when the memory does not exist
+     */
+    public async updateMemory(id: number, input: MemoryUpdateInput): Promise<Memory | null> {
+        const content = input.content?.trim();
+        if (input.content !== undefined && !content) {
+            throw new Error('Memory content cannot be empty');
+        }
+        const updated = this.db.updateMemory(id, {
+            content,
+            tagsJson: input.tags ? JSON.stringify(normalizeTags(input.tags)) : undefined,
+            pinned: input.pinned,
+            scope: input.scope,
+            scopeKey: input.scope ? this.resolveScopeKey(input.scope, input.scopeKey) : undefined,
+            expiresAt: input.expiresAt,
+            sourceSessionId: input.source === undefined ? undefined : input.source?.sessionId ?? null,
+            sourceMessageId: input.source?.messageId
+        });
+        if (!updated) return null;
+        this.notifyChanged();
+        return this.getMemory(id);
+    }
+
+    /**
+     * Add and remove tags on several memories at once; returns how many changed
+     */
+    public async retagMemories(ids: number[], add: string[] = [], remove: string[] = []): Promise<number> {
+        const updates = ids.flatMap(id => {
+            const row = this.db.getMemory(id);
+            if (!row) return [];
+            return [{ id, tagsJson: JSON.stringify(retagList(toMemory(row).tags, add, remove)) }];
+        });
+        const changed = this.db.updateMemories(updates);
+        if (changed > 0) this.notifyChanged();
+        return changed;
+    }
+
+    /**
+     * Move memories to another scope; returns how many changed
+     */
+    public async moveMemories(ids: number[], scope: MemoryScope, scopeKey?: string | null): Promise<number> {
+        const key = this.resolveScopeKey(scope, scopeKey);
+        const changed = this.db.updateMemories(ids.map(id => ({ id, scope, scopeKey: key })));
+        if (changed > 0) this.notifyChanged();
+        return changed;
+    }
+
+    /**
+     * Delete memories whose time-to-live has passed
+     */
+    public purgeExpired(): number {
+        try {
+            const purged = this.db.purgeExpiredMemories();
+            if (purged > 0) {
+                logs.agent.info(`[Memory] Purged ${purged} expired memories`);
+                this.notifyChanged();
+            }
+            return purged;
+        } catch (error) {
+            logs.agent.error(`[Memory] Failed to purge expired memories: ${(error as Error).message}`);
+            return 0;
+        }
+    }
+
     /**
      * Delete memory
      */
     public async deleteMemory(id: number): Promise<boolean> {
         try {
-            return this.db.deleteMemory(id);
+            const deleted = this.db.deleteMemory(id);
+            if (deleted) this.notifyChanged();
+            return deleted;
         } catch (error) {
             logs.agent.error(`[Memory] Failed to delete memory ${id}: ${(error as Error).message}`);
             return false;
         }
     }
+
+    public async deleteMemories(ids: number[]): Promise<number> {
+        const deleted = this.db.deleteMemories(ids);
+        if (deleted > 0) this.notifyChanged();
+        return deleted;
+    }
+
+    /**
+     * Export the given memories, or all of them, as a memory pack
+     */
+    public async exportMemories(format: MemoryExportFormat, ids?: number[]): Promise<string> {
+        const all = this.db.queryMemories().rows.map(toMemory);
+        const selected = ids ? all.filter(m => ids.includes(m.id)) : all;
+        return serializeMemoryPack(
+            selected.map(m => ({
+                content: m.content,
+                tags: m.tags,
+                pinned: m.pinned,
+                createdAt: m.createdAt,
+                ...(m.scope !== 'global' && { scope: m.scope, scopeKey: m.scopeKey }),
+                ...(m.expiresAt && { expiresAt: m.expiresAt })
+            })),
+            format
+        );
+    }
+
+    /**
+     * Import a JSON or Markdown memory pack, skipping memories whose content already exists
+     */
+    public async importMemories(text: string, extraTags: string[] = []): Promise<MemoryImportResult> {
+        const entries = parseMemoryPack(text);
+        const existing = new Set(this.db.queryMemories().rows.map(row => memoryContentKey(row.content)));
+        let imported = 0;
+        let skipped = 0;
+
+        for (const entry of entries) {
+            const key = memoryContentKey(entry.content);
+            if (existing.has(key)) {
+                skipped++;
+                continue;
+            }
+            existing.add(key);
+            this.db.insertMemory(entry.content, JSON.stringify(normalizeTags([...entry.tags, ...extraTags])), {
+                pinned: entry.pinned,
+                scope: entry.scope,
+                scopeKey: entry.scope ? entry.scopeKey : null,
+                expiresAt: entry.expiresAt,
+                createdAt: entry.createdAt
+            });
+            imported++;
+        }
+
+        if (imported > 0) this.notifyChanged();
+        logs.agent.info(`[Memory] Imported ${imported} memories, skipped ${skipped} duplicates`);
+        return { imported, skipped };
+    }
+
+    /**
+     * Turn semantic retrieval on with an embedding backend, or off with null.
+     * Memories without a vector for the backend's model are indexed in the background.
+     */
+    public configureRetrieval(provider: EmbeddingProvider | null, options: MemoryRetrievalOptions | null = null): void {
+        this.embeddings = provider;
+        this.retrievalOptions = provider ? options : null;
+        this.indexError = null;
+        if (provider) void this.indexPending();
+    }
+
+    /**
+     * Memories relevant to a user message, for the system prompt: at most topK,
+     * within the token budget, pinned ones excluded since they are always present
+     */
+    public async retrieveRelevant(query: string): Promise<Memory[]> {
+        const options = this.retrievalOptions;
+        if (!options || !query.trim()) return [];
+        try {
+            const scored = await this.hybridSearch(query, options.topK * 2, PROMPT_EMBED_TIMEOUT_MS);
+            const relevant = scored.filter(m => !m.pinned && m.score >= MIN_PROMPT_RELEVANCE).slice(0, options.topK);
+            return fitTokenBudget(relevant, options.tokenBudget, m => estimateTextTokens(m.content) + 4)
+                .map(({ score: _score, ...memory }) => memory);
+        } catch (error) {
+            logs.agent.error(`[Memory] Failed to retrieve relevant memories: ${(error as Error).message}`);
+            return [];
+        }
+    }
+
+    public getIndexStatus(): MemoryIndexStatus {
+        const modelKey = this.embeddings?.modelKey ?? null;
+        const counts = modelKey ? this.db.countMemoryEmbeddings(modelKey) : { indexed: 0, total: 0 };
+        return {
+            enabled: this.embeddings !== null,
+            modelKey,
+            ...counts,
+            indexing: this.indexing !== null,
+            error: this.indexError
+        };
+    }
+
+    /**
+     * Drop all vectors and embed every memory again
+     */
+    public rebuildIndex(): Promise<void> {
+        // A pass already running picks up the cleared rows, it re-reads them per batch
+        this.db.clearMemoryEmbeddings();
+        this.indexError = null;
+        return this.indexPending();
+    }
+
+    private indexPending(): Promise<void> {
+        if (!this.indexing) {
+            this.indexing = this.runIndexing().finally(() => { this.indexing = null; });
+        }
+        return this.indexing;
+    }
+
+    private async runIndexing(): Promise<void> {
+        const provider = this.embeddings;
+        if (!provider) return;
+        try {
+            let batch = this.db.getMemoriesWithoutEmbedding(provider.modelKey, INDEX_BATCH_SIZE);
+            while (batch.length > 0 && this.embeddings === provider) {
+                const vectors = await provider.embed(batch.map(embeddingText));
+                this.db.saveMemoryEmbeddings(provider.modelKey, batch.map((row, i) => ({
+                    memoryId: row.id,
+                    vector: encodeVector(vectors[i]),
+                    dims: vectors[i].length
+                })));
+                batch = this.db.getMemoriesWithoutEmbedding(provider.modelKey, INDEX_BATCH_SIZE);
+            }
+            this.indexError = null;
+        } catch (error) {
+            this.indexError = (error as Error).message;
+            logs.agent.warn(`[Memory] Embedding index update failed, using keyword search: ${this.indexError}`);
+        }
+    }
+
+    /**
+     * BM25 candidates plus embedding neighbours, blended and reranked
+     */
+    private async hybridSearch(
+        query: string,
+        limit: number,
+        embedTimeoutMs: number,
+        visibility: MemoryVisibility | undefined = this.visibility()
+    ): Promise<Array<Memory & { score: number }>> {
+        const lexical = this.db.searchMemories(query, limit * 3, visibility);
+        const vectors = new Map<number, Float32Array>();
+        let queryVector: Float32Array | null = null;
+
+        const provider = this.embeddings;
+        if (provider) {
+            void this.indexPending();
+            try {
+                [queryVector] = await withTimeout(provider.embed([query]), embedTimeoutMs, 'Query embedding');
+                for (const row of this.db.getMemoryEmbeddings(provider.modelKey, visibility)) {
+                    vectors.set(row.memory_id, decodeVector(row.vector));
+                }
+            } catch (error) {
+                queryVector = null;
+                logs.agent.warn(`[Memory] Semantic search unavailable, using keyword search: ${(error as Error).message}`);
+            }
+        }
+
+        const ranked = mmrRerank(rankHybrid({ lexicalIds: lexical.map(row => row.id), queryVector, vectors }), vectors, limit);
+        const scores = new Map(ranked.map(r => [r.id, r.score]));
+        return this.db.getMemoriesByIds(ranked.map(r => r.id)).map(row => ({ ...toMemory(row), score: scores.get(row.id) ?? 0 }));
+    }
+
+    private visibility(context: MemoryContext = this.currentContext()): MemoryVisibility {
+        return { projectKeys: projectScopeKeys(context.projectPath), sessionId: context.sessionId, now: Date.now() };
+    }
+
+    private resolveScopeKey(scope: MemoryScope, scopeKey?: string | null): string | null {
+        if (scope === 'global') return null;
+        const context = this.currentContext();
+        if (scope === 'project') {
+            const folder = scopeKey || context.projectPath;
+            if (!folder) throw new Error('No project folder is open; authorize a folder first or use the global scope');
+            return path.resolve(folder);
+        }
+        const sessionId = scopeKey || context.sessionId;
+        if (!sessionId) throw new Error('No active session for a session-scoped memory');
+        return sessionId;
+    }
+
+    private notifyChanged(): void {
+        if (this.embeddings) void this.indexPending();
+        for (const listener of changeListeners) {
+            try {
+                listener();
+            } catch (error) {
+                logs.agent.error(`[Memory] Change listener failed: ${(error as Error).message}`);
+            }
+        }
+    }
 }
 
 // Global accessor
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for MemoryExtractor scoping of existing memories
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Memory } from '../types';
+
+const mocks = vi.hoisted(() => ({
+  findRelated: vi.fn(),
+  generateResponse: vi.fn(),
+  insertMemoryProposals: vi.fn(),
+}));
+
+vi.mock('../../../utils/logger', () => ({
+  logs: {
+    agent: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  },
+}));
+
+vi.mock('../../../config/TaskDatabase', () => ({
+  TaskDatabase: class {
+    getMemoryExtractionCursor() { return null; }
+    listMemoryProposals() { return []; }
+    countMemoryProposals() { return 0; }
+    insertMemoryProposals = mocks.insertMemoryProposals;
+    saveMemoryExtractionCursor() {}
+  },
+}));
+
+vi.mock('../MemoryManager', () => ({
+  getMemoryManager: () => ({ findRelated: mocks.findRelated }),
+}));
+
+vi.mock('../../providers/generateResponse', () => ({
+  generateResponse: mocks.generateResponse,
+}));
+
+import { getMemoryExtractor } from '../MemoryExtractor';
+
+const memory = (id: number, content: string, scope: Memory['scope'], scopeKey: string | null): Memory => ({
+  id, content, tags: [], pinned: false, scope, scopeKey, expiresAt: null, source: null, createdAt: 0, updatedAt: 0,
+});
+
+describe('MemoryExtractor', () => {
+  it('only compares and merges with memories visible from the session project', async () => {
+    mocks.findRelated.mockResolvedValue([memory(1, 'Deploys run on Fridays', 'global', null)]);
+    mocks.generateResponse.mockResolvedValue([{
+      type: 'text',
+      text: JSON.stringify([
+        { content: 'This repo uses pnpm workspaces', scope: 'project', message_id: 'u1', updates: 42 },
+      ]),
+    }]);
+
+    const extractor = getMemoryExtractor();
+    extractor.configure({
+      settings: () => ({ enabled: true, idleMinutes: 15 }),
+      resolveLLM: async () => ({ provider: 'anthropic', model: 'm', apiKey: 'k', apiUrl: 'u' }),
+      getSession: () => ({
+        messages: [
+          { id: 'u1', role: 'user', content: 'We use pnpm workspaces in this repo' },
+          { id: 'a1', role: 'assistant', content: 'Got it' },
+        ],
+      }),
+      sessionTitle: () => null,
+      projectPath: () => '/work/b',
+    });
+
+    await expect(extractor.extractSession('s1', true)).resolves.toBe(1);
+
+    expect(mocks.findRelated).toHaveBeenCalled();
+    for (const call of mocks.findRelated.mock.calls) {
+      expect(call[2]).toBe('/work/b');
+    }
+    expect(mocks.insertMemoryProposals).toHaveBeenCalledWith([
+      expect.objectContaining({ content: 'This repo uses pnpm workspaces', scope: 'project', mergeTargetId: null }),
+    ]);
+  });
+});
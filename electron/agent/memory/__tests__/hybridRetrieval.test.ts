@@ -0,0 +1,70 @@
+/**
+ * Unit tests for hybrid (BM25 + embedding) memory ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  cosineSimilarity,
+  decodeVector,
+  encodeVector,
+  fitTokenBudget,
+  mmrRerank,
+  normalizeVector,
+  rankHybrid,
+} from '../hybridRetrieval';
+
+const vec = (...values: number[]) => normalizeVector(Float32Array.from(values));
+
+describe('vectors', () => {
+  it('normalizes to unit length and round-trips through a blob', () => {
+    const v = vec(3, 4);
+    expect(cosineSimilarity(v, v)).toBeCloseTo(1);
+
+    const blob = Buffer.concat([Buffer.from([0]), encodeVector(v)]).subarray(1);
+    expect(Array.from(decodeVector(blob))).toEqual(Array.from(v));
+  });
+});
+
+describe('rankHybrid', () => {
+  const vectors = new Map([
+    [1, vec(1, 0)],
+    [2, vec(0, 1)],
+    [3, vec(0.9, 0.1)],
+  ]);
+
+  it('finds semantic matches that have no keyword hit', () => {
+    const ranked = rankHybrid({ lexicalIds: [2], queryVector: vec(1, 0), vectors });
+
+    expect(ranked.map(r => r.id)).toEqual([1, 3, 2]);
+    expect(ranked[2]).toMatchObject({ lexical: 1, semantic: 0 });
+  });
+
+  it('falls back to keyword order without a query vector', () => {
+    const ranked = rankHybrid({ lexicalIds: [3, 2], queryVector: null, vectors });
+
+    expect(ranked.map(r => [r.id, r.score])).toEqual([[3, 1], [2, 0.5]]);
+  });
+});
+
+describe('mmrRerank', () => {
+  it('prefers a diverse result over a near-duplicate', () => {
+    const vectors = new Map([
+      [1, vec(1, 0)],
+      [2, vec(0.99, 0.01)],
+      [3, vec(0, 1)],
+    ]);
+    const scored = [
+      { id: 1, score: 0.9, semantic: null, lexical: null },
+      { id: 2, score: 0.85, semantic: null, lexical: null },
+      { id: 3, score: 0.7, semantic: null, lexical: null },
+    ];
+
+    expect(mmrRerank(scored, vectors, 2).map(r => r.id)).toEqual([1, 3]);
+  });
+});
+
+describe('fitTokenBudget', () => {
+  it('skips items that no longer fit and keeps smaller later ones', () => {
+    expect(fitTokenBudget([40, 70, 30, 20], 100, n => n)).toEqual([40, 30, 20]);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for memory extraction parsing and de-duplication helpers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../utils/logger', () => ({
+  logs: {
+    agent: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  },
+}));
+
+import {
+  DUPLICATE_SIMILARITY,
+  closestFact,
+  factSimilarity,
+  parseExtractedFacts,
+  renderExtractionTranscript,
+} from '../memoryExtraction';
+
+describe('renderExtractionTranscript', () => {
+  it('prefixes each message with its id', () => {
+    const text = renderExtractionTranscript([
+      { id: 'm1', role: 'user', content: 'Use pnpm here' },
+      { id: 'm2', role: 'assistant', content: [{ type: 'text', text: 'Noted' }] },
+    ]);
+    expect(text).toBe('[#m1]\nUser: Use pnpm here\n\n[#m2]\nAssistant: Noted');
+  });
+
+  it('keeps the newest messages when clipping', () => {
+    const text = renderExtractionTranscript([
+      { id: 'old', role: 'user', content: 'x'.repeat(100) },
+      { id: 'new', role: 'user', content: 'latest' },
+    ], 50);
+    expect(text).toContain('[#new]');
+    expect(text).not.toContain('[#old]');
+  });
+});
+
+describe('parseExtractedFacts', () => {
+  it('reads a fenced JSON array and validates references', () => {
+    const reply = 'Here you go:\n```json\n' + JSON.stringify([
+      { content: 'The user prefers pnpm', tags: ['tooling', 'tooling'], scope: 'global', message_id: 'm1', updates: 7 },
+      { content: 'Tests live in __tests__', scope: 'project', message_id: 'unknown', updates: 99 },
+      { content: '  ' },
+      { content: 'the user prefers PNPM' },
+    ]) + '\n```';
+    const facts = parseExtractedFacts(reply, new Set(['m1']), new Set([7]));
+    expect(facts).toEqual([
+      { content: 'The user prefers pnpm', tags: ['tooling'], scope: 'global', messageId: 'm1', updates: 7 },
+      { content: 'Tests live in __tests__', tags: [], scope: 'project', messageId: null, updates: null },
+    ]);
+  });
+
+  it('returns nothing for prose or invalid JSON', () => {
+    expect(parseExtractedFacts('Nothing worth remembering.', new Set(), new Set())).toEqual([]);
+    expect(parseExtractedFacts('[{"content": ]', new Set(), new Set())).toEqual([]);
+  });
+});
+
+describe('factSimilarity', () => {
+  it('treats rewordings of the same fact as duplicates', () => {
+    expect(factSimilarity('The user prefers pnpm.', 'the user prefers  PNPM')).toBeGreaterThanOrEqual(DUPLICATE_SIMILARITY);
+    expect(factSimilarity('用户喜欢使用 pnpm', '用户喜欢使用pnpm')).toBeGreaterThanOrEqual(DUPLICATE_SIMILARITY);
+  });
+
+  it('scores unrelated facts low', () => {
+    expect(factSimilarity('The user prefers pnpm', 'Deploys run on Fridays')).toBeLessThan(0.2);
+  });
+
+  it('finds the closest candidate', () => {
+    const closest = closestFact('User prefers tabs', [{ id: 1, content: 'Deploy on Fridays' }, { id: 2, content: 'User prefers tabs over spaces' }], m => m.content);
+    expect(closest?.item.id).toBe(2);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for memory scope helpers
+ */
+
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { describeMemoryScope, expiryFromTtlDays, isMemoryScope, projectScopeKeys } from '../memoryScope';
+
+describe('projectScopeKeys', () => {
+  it('includes the folder and every ancestor, nearest first', () => {
+    const keys = projectScopeKeys(path.resolve('/work/app/packages'));
+    expect(keys[0]).toBe(path.resolve('/work/app/packages'));
+    expect(keys).toContain(path.resolve('/work/app'));
+    expect(keys[keys.length - 1]).toBe(path.parse(keys[0]).root);
+  });
+
+  it('is empty without a project folder', () => {
+    expect(projectScopeKeys(null)).toEqual([]);
+  });
+});
+
+describe('expiryFromTtlDays', () => {
+  it('adds whole or fractional days to now', () => {
+    expect(expiryFromTtlDays(1, 1000)).toBe(1000 + 24 * 60 * 60 * 1000);
+    expect(expiryFromTtlDays('0.5', 0)).toBe(12 * 60 * 60 * 1000);
+  });
+
+  it('treats missing, zero and invalid values as no expiry', () => {
+    expect(expiryFromTtlDays(undefined)).toBeNull();
+    expect(expiryFromTtlDays(0)).toBeNull();
+    expect(expiryFromTtlDays('soon')).toBeNull();
+  });
+});
+
+describe('describeMemoryScope', () => {
+  it('labels each scope and the expiry date', () => {
+    expect(describeMemoryScope({ scope: 'global', scopeKey: null, expiresAt: null })).toBe('global');
+    expect(describeMemoryScope({ scope: 'session', scopeKey: 's1', expiresAt: null })).toBe('this session');
+    expect(describeMemoryScope({ scope: 'project', scopeKey: '/work/app', expiresAt: Date.UTC(2026, 4, 1) }))
+      .toBe('project /work/app, expires 2026-05-01');
+  });
+
+  it('recognizes valid scope names only', () => {
+    expect(isMemoryScope('project')).toBe(true);
+    expect(isMemoryScope('folder')).toBe(false);
+  });
+});
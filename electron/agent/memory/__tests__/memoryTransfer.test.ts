@@ -0,0 +1,51 @@
+/**
+ * Unit tests for memory packs and bulk retagging
+ */
+
+import { describe, it, expect } from 'vitest';
+import { memoryContentKey, parseMemoryPack, retagList, serializeMemoryPack } from '../memoryTransfer';
+import type { MemoryPackEntry } from '../types';
+
+const entries: MemoryPackEntry[] = [
+  { content: 'Always reply in Chinese', tags: ['language', 'preference'], pinned: true, createdAt: 1700000000000 },
+  { content: 'The API lives in services/api\nTests use vitest', tags: [], pinned: false, createdAt: 1700000001000 },
+];
+
+describe('memory packs', () => {
+  it('round-trips through JSON', () => {
+    const text = serializeMemoryPack(entries, 'json', 0);
+
+    expect(JSON.parse(text)).toMatchObject({ version: 1, exportedAt: '1970-01-01T00:00:00.000Z' });
+    expect(parseMemoryPack(text)).toEqual(entries);
+  });
+
+  it('round-trips through Markdown without timestamps', () => {
+    const text = serializeMemoryPack(entries, 'markdown', 0);
+
+    expect(text).toContain('## Pinned\n\n- Always reply in Chinese\n  tags: language, preference');
+    expect(parseMemoryPack(text)).toEqual(entries.map(({ createdAt: _createdAt, ...entry }) => entry));
+  });
+
+  it('accepts hand-written packs', () => {
+    expect(parseMemoryPack('["Use pnpm", {"content": " ", "tags": ["x"]}]')).toEqual([
+      { content: 'Use pnpm', tags: [], pinned: false, createdAt: undefined },
+    ]);
+    expect(parseMemoryPack('## 置顶\n* Use tabs\n\n## Notes\n- Deploy on Fridays')).toEqual([
+      { content: 'Use tabs', tags: [], pinned: true },
+      { content: 'Deploy on Fridays', tags: [], pinned: false },
+    ]);
+    expect(() => parseMemoryPack('{"memories": 3}')).toThrow('"memories" array');
+  });
+});
+
+describe('retagList', () => {
+  it('removes before adding and drops duplicates', () => {
+    expect(retagList(['a', 'b'], ['c', ' a ', ''], ['b', 'a'])).toEqual(['c', 'a']);
+  });
+});
+
+describe('memoryContentKey', () => {
+  it('ignores case and whitespace', () => {
+    expect(memoryContentKey('  Use   PNPM\n')).toBe(memoryContentKey('use pnpm'));
+  });
+});
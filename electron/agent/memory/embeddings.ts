@@ -0,0 +1,84 @@
+/**
+ * Embedding backends for semantic memory retrieval
+ *
+ * The local backend runs a small multilingual sentence model through
+ * transformers.js (ONNX runtime); the API backend calls any OpenAI-compatible
+ * /embeddings endpoint (OpenAI, Ollama, LM Studio, vLLM ...).
+ */
+
+import os from 'os';
+import path from 'path';
+import OpenAI from 'openai';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { normalizeOpenAIBaseURL } from '../providers/OpenAIProvider';
+import { normalizeVector } from './hybridRetrieval';
+
+export type EmbeddingBackend = 'local' | 'api';
+
+export const DEFAULT_LOCAL_EMBEDDING_MODEL = 'Xenova/paraphrase-multilingual-MiniLM-L12-v2';
+export const DEFAULT_API_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const EMBEDDING_MODELS_DIR = path.join(os.homedir(), '.bingowork', 'models');
+
+export interface EmbeddingProvider {
+    // Identifies the vector space; vectors from different models are never compared
+    readonly modelKey: string;
+    // One unit-length vector per text, in order
+    embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    readonly modelKey: string;
+    private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+    // Without downloads only a model already in EMBEDDING_MODELS_DIR can be used
+    constructor(private readonly model: string = DEFAULT_LOCAL_EMBEDDING_MODEL, private readonly allowDownload = true) {
+        this.modelKey = `local:${model}`;
+    }
+
+    async embed(texts: string[]): Promise<Float32Array[]> {
+        if (texts.length === 0) return [];
+        const extractor = await this.load();
+        const output = await extractor(texts, { pooling: 'mean', normalize: true });
+        const dims = output.dims[output.dims.length - 1];
+        const data = output.data as Float32Array;
+        return texts.map((_, i) => data.slice(i * dims, (i + 1) * dims));
+    }
+
+    private load(): Promise<FeatureExtractionPipeline> {
+        // The runtime and the weights (downloaded once) are only loaded when first needed
+        if (!this.extractor) {
+            this.extractor = (async () => {
+                const { env, pipeline } = await import('@huggingface/transformers');
+                env.cacheDir = EMBEDDING_MODELS_DIR;
+                env.allowRemoteModels = this.allowDownload;
+                return pipeline('feature-extraction', this.model, { dtype: 'q8' }) as Promise<FeatureExtractionPipeline>;
+            })();
+            // Let a later call retry after a failed download
+            this.extractor.catch(() => { this.extractor = null; });
+        }
+        return this.extractor;
+    }
+}
+
+export class ApiEmbeddingProvider implements EmbeddingProvider {
+    readonly modelKey: string;
+    private client: OpenAI;
+
+    constructor(apiUrl: string, apiKey: string, private readonly model: string = DEFAULT_API_EMBEDDING_MODEL) {
+        this.modelKey = `api:${model}`;
+        this.client = new OpenAI({
+            // Local servers usually accept any key
+            apiKey: apiKey || 'none',
+            baseURL: normalizeOpenAIBaseURL(apiUrl).replace(/\/embeddings$/i, ''),
+            dangerouslyAllowBrowser: true
+        });
+    }
+
+    async embed(texts: string[]): Promise<Float32Array[]> {
+        if (texts.length === 0) return [];
+        const response = await this.client.embeddings.create({ model: this.model, input: texts, encoding_format: 'float' });
+        return [...response.data]
+            .sort((a, b) => a.index - b.index)
+            .map(item => normalizeVector(Float32Array.from(item.embedding)));
+    }
+}
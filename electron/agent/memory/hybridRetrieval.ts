@@ -0,0 +1,127 @@
+/**
+ * Hybrid memory ranking: BM25 (FTS5) and embedding similarity are blended,
+ * then reranked with maximal marginal relevance so near-duplicate memories
+ * don't crowd out the rest
+ */
+
+// Weight of the cosine score in the blend; the lexical rank gets the rest
+export const SEMANTIC_WEIGHT = 0.6;
+// Below this similarity a memory with no keyword match is not a candidate
+export const MIN_SEMANTIC_SIMILARITY = 0.3;
+// Trade-off between relevance (1) and diversity (0) when reranking
+export const MMR_LAMBDA = 0.75;
+
+export interface HybridScore {
+    id: number;
+    score: number;
+    semantic: number | null;
+    lexical: number | null;
+}
+
+export function normalizeVector(vector: Float32Array): Float32Array {
+    let norm = 0;
+    for (const value of vector) norm += value * value;
+    norm = Math.sqrt(norm);
+    if (norm === 0) return vector;
+    return vector.map(value => value / norm);
+}
+
+// Vectors are stored unit length, so the dot product is the cosine
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+    if (a.length !== b.length) return 0;
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+    return dot;
+}
+
+export function encodeVector(vector: Float32Array): Buffer {
+    return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function decodeVector(blob: Buffer): Float32Array {
+    // Copy: SQLite buffers are not guaranteed to be 4-byte aligned
+    const bytes = new Uint8Array(blob);
+    return new Float32Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 4));
+}
+
+/**
+ * Blend scores for every candidate. `lexicalIds` is the FTS order (best first);
+ * its rank is normalized to (0, 1] because BM25 values are not comparable
+ * across queries. Without a query vector this degrades to lexical ranking.
+ */
+export function rankHybrid(params: {
+    lexicalIds: number[];
+    queryVector: Float32Array | null;
+    vectors: Map<number, Float32Array>;
+    semanticWeight?: number;
+}): HybridScore[] {
+    const { lexicalIds, queryVector, vectors, semanticWeight = SEMANTIC_WEIGHT } = params;
+    const lexical = new Map(lexicalIds.map((id, i) => [id, (lexicalIds.length - i) / lexicalIds.length]));
+    const ids = new Set<number>(lexicalIds);
+
+    const semantic = new Map<number, number>();
+    if (queryVector) {
+        for (const [id, vector] of vectors) {
+            const similarity = cosineSimilarity(queryVector, vector);
+            semantic.set(id, similarity);
+            if (similarity >= MIN_SEMANTIC_SIMILARITY) ids.add(id);
+        }
+    }
+
+    const weight = queryVector ? semanticWeight : 0;
+    return Array.from(ids, id => {
+        const sem = semantic.get(id) ?? null;
+        const lex = lexical.get(id) ?? null;
+        return {
+            id,
+            score: weight * Math.max(sem ?? 0, 0) + (1 - weight) * (lex ?? 0),
+            semantic: sem,
+            lexical: lex
+        };
+    }).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pick `limit` results, penalizing each by its similarity to those already picked
+ */
+export function mmrRerank(scored: HybridScore[], vectors: Map<number, Float32Array>, limit: number, lambda = MMR_LAMBDA): HybridScore[] {
+    const remaining = [...scored];
+    const picked: HybridScore[] = [];
+
+    while (picked.length < limit && remaining.length > 0) {
+        let bestIndex = 0;
+        let bestValue = -Infinity;
+        remaining.forEach((candidate, index) => {
+            const vector = vectors.get(candidate.id);
+            let redundancy = 0;
+            if (vector) {
+                for (const chosen of picked) {
+                    const other = vectors.get(chosen.id);
+                    if (other) redundancy = Math.max(redundancy, cosineSimilarity(vector, other));
+                }
+            }
+            const value = lambda * candidate.score - (1 - lambda) * redundancy;
+            if (value > bestValue) {
+                bestValue = value;
+                bestIndex = index;
+            }
+        });
+        picked.push(remaining.splice(bestIndex, 1)[0]);
+    }
+    return picked;
+}
+
+/**
+ * Keep items in order while they fit the token budget; oversized items are skipped
+ */
+export function fitTokenBudget<T>(items: T[], budget: number, cost: (item: T) => number): T[] {
+    const kept: T[] = [];
+    let used = 0;
+    for (const item of items) {
+        const tokens = cost(item);
+        if (used + tokens > budget) continue;
+        kept.push(item);
+        used += tokens;
+    }
+    return kept;
+}
@@ -0,0 +1,144 @@
+/**
+ * Memory extraction: prompt, transcript and parsing for the pass that proposes
+ * durable facts from a finished conversation, and the similarity check that
+ * keeps known facts out of the review inbox
+ */
+
+import type { AgentMessage } from '../AgentConstants';
+import { renderTranscript } from '../services/ContextCompactor';
+import { memoryContentKey, normalizeTags } from './memoryTransfer';
+import type { Memory } from './types';
+
+// The newest part of a long conversation is kept when the transcript is clipped
+const MAX_TRANSCRIPT_CHARS = 60000;
+const MAX_FACT_CHARS = 500;
+const MAX_FACTS_PER_PASS = 20;
+// At or above this similarity a proposed fact is a duplicate of a known one
+export const DUPLICATE_SIMILARITY = 0.85;
+// At or above this the fact refines an existing memory and is proposed as a merge
+export const MERGE_SIMILARITY = 0.55;
+
+export const EXTRACTION_SYSTEM_PROMPT = `You read a finished conversation between a user and an AI agent and pick out facts worth remembering in future conversations.
+Extract only durable facts:
+- the user's preferences (tools, style, language, workflow)
+- conventions of the project being worked on (structure, commands, naming, rules)
+- people and their roles, and other long-lived facts about the user's environment
+Skip one-off task details, anything the agent did or said on its own, secrets (keys, passwords, tokens) and facts already listed in <existing_memories>.
+If a fact corrects or extends an existing memory, set "updates" to that memory's id and write the complete merged fact.
+Each fact is one self-contained sentence, in the language the user used.
+Reply with a JSON array only, no prose:
+[{"content": "...", "tags": ["..."], "scope": "global" | "project", "message_id": "<id of the message that states the fact>", "updates": <memory id or null>}]
+Use "project" for facts that only hold in the current project. Reply [] when there is nothing worth remembering.`;
+
+export interface ExtractedFact {
+    content: string;
+    tags: string[];
+    scope: 'global' | 'project';
+    messageId: string | null;
+    updates: number | null;
+}
+
+/**
+ * Transcript with each message prefixed by its id so facts can cite their source
+ */
+export function renderExtractionTranscript(messages: AgentMessage[], maxChars = MAX_TRANSCRIPT_CHARS): string {
+    const parts: string[] = [];
+    let used = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const text = renderTranscript([messages[i]]);
+        if (!text) continue;
+        const part = `[#${messages[i].id ?? i}]\n${text}`;
+        if (used + part.length > maxChars && parts.length > 0) break;
+        parts.unshift(part.slice(0, maxChars));
+        used += part.length;
+    }
+    return parts.join('\n\n');
+}
+
+export function buildExtractionRequest(transcript: string, existing: Memory[], projectPath: string | null): string {
+    const memories = existing.length > 0
+        ? existing.map(m => `[${m.id}] ${m.content}`).join('\n')
+        : '(none)';
+    return [
+        `<existing_memories>\n${memories}\n</existing_memories>`,
+        `<project>${projectPath ?? 'none'}</project>`,
+        `<transcript>\n${transcript}\n</transcript>`
+    ].join('\n\n');
+}
+
+/**
+ * Facts from the model's reply; anything malformed is dropped. Message ids and
+ * update targets not in the given sets are cleared rather than trusted.
+ */
+export function parseExtractedFacts(reply: string, messageIds: Set<string>, memoryIds: Set<number>): ExtractedFact[] {
+    const start = reply.indexOf('[');
+    const end = reply.lastIndexOf(']');
+    if (start < 0 || end <= start) return [];
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(reply.slice(start, end + 1));
+    } catch {
+        return [];
+    }
+    if (!Array.isArray(raw)) return [];
+
+    const facts: ExtractedFact[] = [];
+    const seen = new Set<string>();
+    for (const item of raw) {
+        if (!item || typeof item !== 'object') continue;
+        const entry = item as Record<string, unknown>;
+        const content = typeof entry.content === 'string' ? entry.content.trim().slice(0, MAX_FACT_CHARS) : '';
+        const key = memoryContentKey(content);
+        if (!content || seen.has(key)) continue;
+        seen.add(key);
+
+        const messageId = entry.message_id === undefined || entry.message_id === null ? '' : String(entry.message_id);
+        const updates = Number(entry.updates);
+        facts.push({
+            content,
+            tags: normalizeTags(entry.tags),
+            scope: entry.scope === 'project' ? 'project' : 'global',
+            messageId: messageIds.has(messageId) ? messageId : null,
+            updates: memoryIds.has(updates) ? updates : null
+        });
+        if (facts.length >= MAX_FACTS_PER_PASS) break;
+    }
+    return facts;
+}
+
+// Latin words plus CJK character bigrams, so the measure works for Chinese too
+function factTokens(text: string): Set<string> {
+    const normalized = memoryContentKey(text);
+    const tokens = new Set(normalized.match(/[a-z0-9_]+/g) ?? []);
+    const cjk = normalized.match(/[\u3400-\u9fff]+/g) ?? [];
+    for (const run of cjk) {
+        if (run.length === 1) tokens.add(run);
+        for (let i = 0; i < run.length - 1; i++) tokens.add(run.slice(i, i + 2));
+    }
+    return tokens;
+}
+
+/**
+ * Jaccard similarity of two facts' tokens, 0..1
+ */
+export function factSimilarity(a: string, b: string): number {
+    const left = factTokens(a);
+    const right = factTokens(b);
+    if (left.size === 0 || right.size === 0) return memoryContentKey(a) === memoryContentKey(b) ? 1 : 0;
+    let shared = 0;
+    for (const token of left) if (right.has(token)) shared++;
+    return shared / (left.size + right.size - shared);
+}
+
+/**
+ * The most similar of `candidates` to `content`, with its similarity
+ */
+export function closestFact<T>(content: string, candidates: T[], text: (candidate: T) => string): { item: T; similarity: number } | null {
+    let best: { item: T; similarity: number } | null = null;
+    for (const item of candidates) {
+        const similarity = factSimilarity(content, text(item));
+        if (!best || similarity > best.similarity) best = { item, similarity };
+    }
+    return best;
+}
@@ -0,0 +1,46 @@
+/**
+ * Memory scopes: which memories apply to the current project and session
+ */
+
+import path from 'path';
+import type { Memory, MemoryScope } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isMemoryScope(value: unknown): value is MemoryScope {
+    return value === 'global' || value === 'project' || value === 'session';
+}
+
+/**
+ * Scope keys of project memories visible from a working directory: the
+ * directory itself and each of its ancestors, so a memory recorded for a
+ * repository also applies in its subfolders
+ */
+export function projectScopeKeys(projectPath: string | null): string[] {
+    if (!projectPath) return [];
+    const keys: string[] = [];
+    let current = path.resolve(projectPath);
+    for (;;) {
+        keys.push(current);
+        const parent = path.dirname(current);
+        if (parent === current) return keys;
+        current = parent;
+    }
+}
+
+export function expiryFromTtlDays(days: unknown, now = Date.now()): number | null {
+    const value = Number(days);
+    return Number.isFinite(value) && value > 0 ? now + Math.round(value * DAY_MS) : null;
+}
+
+/**
+ * Short label for tool output, e.g. "project /work/app, expires 2026-05-01"
+ */
+export function describeMemoryScope(memory: Pick<Memory, 'scope' | 'scopeKey' | 'expiresAt'>): string {
+    const parts: string[] = [];
+    if (memory.scope === 'project') parts.push(`project ${memory.scopeKey}`);
+    else if (memory.scope === 'session') parts.push('this session');
+    else parts.push('global');
+    if (memory.expiresAt) parts.push(`expires ${new Date(memory.expiresAt).toISOString().slice(0, 10)}`);
+    return parts.join(', ');
+}
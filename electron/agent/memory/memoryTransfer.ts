@@ -0,0 +1,147 @@
+/**
+ * Memory packs: JSON and Markdown export / import of memories, plus the tag
+ * helpers shared by the editor and bulk retagging
+ *
+ * Markdown packs are meant to be read and edited by people:
+ *
+ *   ## Pinned
+ *   - Always reply in Chinese
+ *     tags: language, preference
+ *
+ *   ## Memories
+ *   - The API lives in services/api
+ */
+
+import type { MemoryExportFormat, MemoryPackEntry } from './types';
+import { isMemoryScope } from './memoryScope';
+
+const PACK_VERSION = 1;
+const MAX_TAG_LENGTH = 50;
+
+export function normalizeTags(tags: unknown): string[] {
+    if (!Array.isArray(tags)) return [];
+    const seen = new Set<string>();
+    for (const tag of tags) {
+        if (typeof tag !== 'string') continue;
+        const value = tag.trim().slice(0, MAX_TAG_LENGTH);
+        if (value) seen.add(value);
+    }
+    return Array.from(seen);
+}
+
+/**
+ * Tags after a bulk retag: removals first, then additions
+ */
+export function retagList(tags: string[], add: string[] = [], remove: string[] = []): string[] {
+    const removed = new Set(normalizeTags(remove));
+    return normalizeTags([...tags.filter(t => !removed.has(t)), ...add]);
+}
+
+/**
+ * Key used to skip duplicates on import
+ */
+export function memoryContentKey(content: string): string {
+    return content.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function serializeMemoryPack(entries: MemoryPackEntry[], format: MemoryExportFormat, exportedAt = Date.now()): string {
+    if (format === 'json') {
+        return JSON.stringify({ version: PACK_VERSION, exportedAt: new Date(exportedAt).toISOString(), memories: entries }, null, 2);
+    }
+
+    const section = (title: string, items: MemoryPackEntry[]) => {
+        if (items.length === 0) return [];
+        const lines = [`## ${title}`, ''];
+        for (const entry of items) {
+            const [first, ...rest] = entry.content.trim().split('\n');
+            lines.push(`- ${first}`, ...rest.map(line => `  ${line}`));
+            if (entry.tags.length > 0) lines.push(`  tags: ${entry.tags.join(', ')}`);
+        }
+        lines.push('');
+        return lines;
+    };
+
+    return [
+        '# Bingowork Memory Pack',
+        '',
+        `Exported ${new Date(exportedAt).toISOString()}`,
+        '',
+        ...section('Pinned', entries.filter(e => e.pinned)),
+        ...section('Memories', entries.filter(e => !e.pinned))
+    ].join('\n');
+}
+
+/**
+ * Read a pack in either format (JSON is detected by its first character)
+ */
+export function parseMemoryPack(text: string): MemoryPackEntry[] {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        return parseJsonPack(trimmed);
+    }
+    return parseMarkdownPack(trimmed);
+}
+
+function parseJsonPack(text: string): MemoryPackEntry[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+    const items = Array.isArray(data) ? data : (data as { memories?: unknown })?.memories;
+    if (!Array.isArray(items)) {
+        throw new Error('JSON memory pack must be an array or have a "memories" array');
+    }
+    return items.flatMap((item): MemoryPackEntry[] => {
+        const entry = typeof item === 'string' ? { content: item } : item as Partial<MemoryPackEntry>;
+        const content = typeof entry?.content === 'string' ? entry.content.trim() : '';
+        if (!content) return [];
+        // A scope only carries over with its project folder or session id
+        const scoped = isMemoryScope(entry.scope) && entry.scope !== 'global' && typeof entry.scopeKey === 'string' && entry.scopeKey;
+        return [{
+            content,
+            tags: normalizeTags(entry.tags),
+            pinned: entry.pinned === true,
+            createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : undefined,
+            ...(scoped && { scope: entry.scope, scopeKey: entry.scopeKey }),
+            ...(typeof entry.expiresAt === 'number' && { expiresAt: entry.expiresAt })
+        }];
+    });
+}
+
+function parseMarkdownPack(text: string): MemoryPackEntry[] {
+    const entries: MemoryPackEntry[] = [];
+    let pinned = false;
+    let current: { lines: string[]; tags: string[]; pinned: boolean } | null = null;
+
+    const flush = () => {
+        const content = current?.lines.join('\n').trim();
+        if (current && content) entries.push({ content, tags: current.tags, pinned: current.pinned });
+        current = null;
+    };
+
+    for (const line of text.split(/\r?\n/)) {
+        const heading = /^#{1,6}\s+(.*)$/.exec(line);
+        if (heading) {
+            flush();
+            pinned = /^(pinned\b|置顶)/i.test(heading[1].trim());
+            continue;
+        }
+        const item = /^[-*]\s+(.*)$/.exec(line);
+        if (item) {
+            flush();
+            current = { lines: [item[1]], tags: [], pinned };
+            continue;
+        }
+        if (!current) continue;
+        const tags = /^\s+tags:\s*(.*)$/i.exec(line);
+        if (tags) {
+            current.tags = normalizeTags(tags[1].split(','));
+        } else {
+            current.lines.push(line.replace(/^ {2}/, ''));
+        }
+    }
+    flush();
+    return entries;
+}
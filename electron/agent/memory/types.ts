@@ -1,18 +1,139 @@
-
 /**
  * Memory Types
  */
 
+// global: everywhere; project: while its folder (or a subfolder) is the working
+// directory; session: only in the chat session that recorded it
+export type MemoryScope = 'global' | 'project' | 'session';
+
+// The conversation a memory was extracted from
+export interface MemorySource {
+    sessionId: string;
+    messageId: string | null;
+}
+
 export interface Memory {
     id: number;
     content: string;
     tags: string[];
+    // Pinned memories are always part of the system prompt
+    pinned: boolean;
+    scope: MemoryScope;
+    // Project folder or session id; null for global memories
+    scopeKey: string | null;
+    // Expired memories are hidden and purged
+    expiresAt: number | null;
+    // Set for facts accepted from the review inbox
+    source: MemorySource | null;
     createdAt: number;
     updatedAt: number;
 }
 
+// Where the agent is working; decides which scoped memories are visible
+export interface MemoryContext {
+    projectPath: string | null;
+    sessionId: string | null;
+}
+
+export interface MemoryCreateOptions {
+    pinned?: boolean;
+    scope?: MemoryScope;
+    // Defaults to the current project or session
+    scopeKey?: string | null;
+    expiresAt?: number | null;
+    source?: MemorySource | null;
+}
+
 export interface MemorySearchParams {
     query?: string;
     tags?: string[];
     limit?: number;
 }
+
+export interface MemoryListFilter {
+    search?: string;
+    tag?: string;
+    pinned?: boolean;
+    // 'current' lists what is visible in the current project and session
+    scope?: MemoryScope | 'current';
+    limit?: number;
+    offset?: number;
+}
+
+export interface MemoryUpdateInput {
+    content?: string;
+    tags?: string[];
+    pinned?: boolean;
+    scope?: MemoryScope;
+    scopeKey?: string | null;
+    // null removes the expiry
+    expiresAt?: number | null;
+    source?: MemorySource | null;
+}
+
+export type MemoryExportFormat = 'json' | 'markdown';
+
+// One memory in an exported pack; ids are local to a database and not exported
+export interface MemoryPackEntry {
+    content: string;
+    tags: string[];
+    pinned: boolean;
+    createdAt?: number;
+    // Only in JSON packs, and only for memories that are not global or expire
+    scope?: MemoryScope;
+    scopeKey?: string | null;
+    expiresAt?: number;
+}
+
+export interface MemoryImportResult {
+    imported: number;
+    // Already present (same content)
+    skipped: number;
+}
+
+// Limits for memories injected into the system prompt per user message
+export interface MemoryRetrievalOptions {
+    topK: number;
+    tokenBudget: number;
+}
+
+export interface MemoryIndexStatus {
+    enabled: boolean;
+    // Embedding model in use, e.g. "local:Xenova/..." or "api:text-embedding-3-small"
+    modelKey: string | null;
+    indexed: number;
+    total: number;
+    indexing: boolean;
+    // Last embedding failure; search falls back to keywords meanwhile
+    error: string | null;
+}
+
+export type MemoryProposalStatus = 'pending' | 'accepted' | 'rejected';
+
+// A fact extracted from a finished conversation, waiting in the review inbox
+export interface MemoryProposal {
+    id: number;
+    content: string;
+    tags: string[];
+    scope: Exclude<MemoryScope, 'session'>;
+    scopeKey: string | null;
+    // Existing memory this fact refines; accepting rewrites it instead of adding one
+    mergeTarget: Memory | null;
+    source: MemorySource;
+    sessionTitle: string | null;
+    status: MemoryProposalStatus;
+    createdAt: number;
+}
+
+// Reviewer edits applied when a proposal is accepted
+export interface MemoryProposalEdit {
+    content?: string;
+    tags?: string[];
+}
+
+export interface MemoryExtractionStatus {
+    // Sessions being read right now
+    running: string[];
+    pending: number;
+    lastError: string | null;
+}
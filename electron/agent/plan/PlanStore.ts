@@ -0,0 +1,453 @@
+/**
+ * PlanStore
+ *
+ * Structured per-session task plan persisted in TaskDatabase. Items have stable
+ * ids, a status and an optional parent, so edits never depend on line positions.
+ * A plan can optionally be mirrored to a TODO.md file; edits made to that file
+ * are read back on refresh (two-way export).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import { TaskDatabase, PlanItemRow } from '../../config/TaskDatabase';
+import {
+    isPlanItemStatus,
+    PlanItem,
+    PlanItemDraft,
+    PlanItemPatch,
+    PlanItemStatus,
+    PlanNode,
+    PlanProgress,
+    PlanSnapshot
+} from './types';
+
+export type PlanDatabase = Pick<TaskDatabase,
+    'listPlanItems' | 'insertPlanItem' | 'updatePlanItem' | 'deletePlanItems' | 'deletePlanItemsForSession' |
+    'getKV' | 'setKV' | 'deleteKV'>;
+
+type PlanChangeListener = (snapshot: PlanSnapshot) => void;
+
+type ExportLink = { path: string; syncedAt: number };
+
+export interface ParsedPlanLine {
+    id?: string;
+    title: string;
+    status: PlanItemStatus;
+    // Index of the parent line, or null for top-level items
+    parent: number | null;
+}
+
+// Session id used when the agent runs before any session has been saved
+export const DEFAULT_PLAN_SESSION = 'default';
+
+const STATUS_MARKERS: Record<PlanItemStatus, string> = {
+    pending: ' ',
+    in_progress: '~',
+    done: 'x',
+    blocked: '!'
+};
+
+const PLAN_LINE_PATTERN = /^(\s*)[-*+]\s*\[([ xX~!]?)\]\s*(.*?)\s*(?:<!--\s*plan:([\w-]+)\s*-->)?\s*$/;
+
+function markerToStatus(marker: string): PlanItemStatus {
+    switch (marker.toLowerCase()) {
+        case 'x': return 'done';
+        case '~': return 'in_progress';
+        case '!': return 'blocked';
+        default: return 'pending';
+    }
+}
+
+/**
+ * Render a plan tree as markdown checkboxes; item ids ride along in HTML comments
+ */
+export function planToMarkdown(nodes: PlanNode[], depth = 0): string {
+    return nodes
+        .map(node => {
+            const line = `${'  '.repeat(depth)}- [${STATUS_MARKERS[node.status]}] ${node.title} <!-- plan:${node.id} -->`;
+            const children = planToMarkdown(node.children, depth + 1);
+            return children ? `${line}\n${children}` : line;
+        })
+        .join('\n');
+}
+
+/**
+ * Parse markdown checkboxes (ours or hand-written) into plan lines; nesting follows indentation
+ */
+export function parsePlanMarkdown(content: string): ParsedPlanLine[] {
+    const lines: ParsedPlanLine[] = [];
+    const stack: Array<{ indent: number; index: number }> = [];
+
+    for (const raw of content.split('\n')) {
+        const match = raw.replace(/\t/g, '  ').match(PLAN_LINE_PATTERN);
+        if (!match || !match[3]) continue;
+
+        const indent = match[1].length;
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+            stack.pop();
+        }
+
+        lines.push({
+            id: match[4],
+            title: match[3],
+            status: markerToStatus(match[2]),
+            parent: stack.length > 0 ? stack[stack.length - 1].index : null
+        });
+        stack.push({ indent, index: lines.length - 1 });
+    }
+
+    return lines;
+}
+
+function toPlanItem(row: PlanItemRow): PlanItem {
+    return {
+        id: row.id,
+        sessionId: row.session_id,
+        parentId: row.parent_id,
+        title: row.title,
+        status: isPlanItemStatus(row.status) ? row.status : 'pending',
+        note: row.note ?? undefined,
+        position: row.position,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    };
+}
+
+export class PlanStore {
+    private static instance: PlanStore | null = null;
+    private listeners = new Set<PlanChangeListener>();
+
+    constructor(private db: PlanDatabase) { }
+
+    public static getInstance(): PlanStore {
+        if (!PlanStore.instance) {
+            PlanStore.instance = new PlanStore(new TaskDatabase());
+        }
+        return PlanStore.instance;
+    }
+
+    /**
+     * Subscribe to plan changes; returns an unsubscribe function
+     */
+    public onChange(listener: PlanChangeListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    public getItems(sessionId: string): PlanItem[] {
+        return this.db.listPlanItems(sessionId).map(toPlanItem);
+    }
+
+    public getPlan(sessionId: string): PlanSnapshot {
+        const items = this.getItems(sessionId);
+        const byParent = new Map<string | null, PlanNode[]>();
+        const ids = new Set(items.map(item => item.id));
+
+        for (const item of items) {
+            // Orphans (parent deleted out from under them) are shown at the top level
+            const parentKey = item.parentId && ids.has(item.parentId) ? item.parentId : null;
+            const siblings = byParent.get(parentKey) || [];
+            siblings.push({ ...item, children: [] });
+            byParent.set(parentKey, siblings);
+        }
+
+        const attach = (nodes: PlanNode[]): PlanNode[] => nodes.map(node => ({
+            ...node,
+            children: attach(byParent.get(node.id) || [])
+        }));
+
+        const progress: PlanProgress = { total: items.length, pending: 0, inProgress: 0, done: 0, blocked: 0 };
+        for (const item of items) {
+            if (item.status === 'in_progress') progress.inProgress++;
+            else progress[item.status]++;
+        }
+
+        return {
+            sessionId,
+            items: attach(byParent.get(null) || []),
+            progress,
+            exportPath: this.getExportLink(sessionId)?.path
+        };
+    }
+
+    public async addItem(sessionId: string, draft: PlanItemDraft): Promise<PlanItem> {
+        const title = draft.title?.trim();
+        if (!title) {
+            throw new Error('Plan item title is required');
+        }
+        const items = this.getItems(sessionId);
+        const parentId = draft.parentId || null;
+        if (parentId && !items.some(item => item.id === parentId)) {
+            throw new Error(`Parent item "${parentId}" not found`);
+        }
+
+        const id = nanoid(8);
+        this.db.insertPlanItem({
+            id,
+            sessionId,
+            parentId,
+            title,
+            status: draft.status || 'pending',
+            note: draft.note,
+            position: this.nextPosition(items, parentId)
+        });
+
+        await this.commit(sessionId);
+        return this.requireItem(sessionId, id);
+    }
+
+    public async updateItem(sessionId: string, id: string, patch: PlanItemPatch): Promise<PlanItem> {
+        const items = this.getItems(sessionId);
+        const item = items.find(i => i.id === id);
+        if (!item) {
+            throw new Error(`Plan item "${id}" not found`);
+        }
+        if (patch.title !== undefined && !patch.title.trim()) {
+            throw new Error('Plan item title cannot be empty');
+        }
+
+        let position: number | undefined;
+        const parentId = patch.parentId === undefined ? undefined : (patch.parentId || null);
+        if (parentId !== undefined && parentId !== item.parentId) {
+            if (parentId && !items.some(i => i.id === parentId)) {
+                throw new Error(`Parent item "${parentId}" not found`);
+            }
+            if (parentId && this.collectSubtree(items, id).includes(parentId)) {
+                throw new Error('An item cannot be moved under itself or one of its sub-items');
+            }
+            position = this.nextPosition(items, parentId);
+        }
+
+        this.db.updatePlanItem(id, {
+            title: patch.title?.trim(),
+            status: patch.status,
+            note: patch.note,
+            parentId,
+            position
+        });
+
+        await this.commit(sessionId);
+        return this.requireItem(sessionId, id);
+    }
+
+    public async completeItem(sessionId: string, id: string): Promise<PlanItem> {
+        return await this.updateItem(sessionId, id, { status: 'done' });
+    }
+
+    /**
+     * Delete an item together with its sub-items; returns the number of removed items
+     */
+    public async removeItem(sessionId: string, id: string): Promise<number> {
+        const items = this.getItems(sessionId);
+        if (!items.some(item => item.id === id)) {
+            throw new Error(`Plan item "${id}" not found`);
+        }
+
+        const removed = this.db.deletePlanItems(this.collectSubtree(items, id));
+        await this.commit(sessionId);
+        return removed;
+    }
+
+    /**
+     * Put the given siblings in order; siblings not listed keep their relative order after them
+     */
+    public async reorder(sessionId: string, orderedIds: string[], parentId: string | null = null): Promise<void> {
+        const siblings = this.getItems(sessionId).filter(item => item.parentId === parentId);
+        const siblingIds = new Set(siblings.map(item => item.id));
+        const unknown = orderedIds.filter(id => !siblingIds.has(id));
+        if (unknown.length > 0) {
+            throw new Error(`Items not found under ${parentId ? `"${parentId}"` : 'the top level'}: ${unknown.join(', ')}`);
+        }
+
+        const listed = new Set(orderedIds);
+        const finalOrder = [...orderedIds, ...siblings.filter(item => !listed.has(item.id)).map(item => item.id)];
+        finalOrder.forEach((id, position) => this.db.updatePlanItem(id, { position }));
+
+        await this.commit(sessionId);
+    }
+
+    public async clearCompleted(sessionId: string): Promise<number> {
+        const items = this.getItems(sessionId);
+        const ids = new Set<string>();
+        for (const item of items) {
+            if (item.status === 'done') {
+                this.collectSubtree(items, item.id).forEach(id => ids.add(id));
+            }
+        }
+
+        const removed = this.db.deletePlanItems(Array.from(ids));
+        await this.commit(sessionId);
+        return removed;
+    }
+
+    /**
+     * Drop a session's plan and export link (used when the session is deleted)
+     */
+    public clearSession(sessionId: string): void {
+        this.db.deletePlanItemsForSession(sessionId);
+        this.db.deleteKV(this.exportKey(sessionId));
+    }
+
+    /**
+     * Mirror the plan to a markdown file from now on. An existing file is imported
+     * first when the plan is still empty, so an existing TODO.md is picked up.
+     */
+    public async enableExport(sessionId: string, filePath: string): Promise<string> {
+        const resolved = path.resolve(filePath);
+        this.db.setKV(this.exportKey(sessionId), { path: resolved, syncedAt: 0 } satisfies ExportLink);
+
+        if (this.getItems(sessionId).length === 0) {
+            const content = await fs.readFile(resolved, 'utf-8').catch(() => null);
+            if (content !== null) {
+                this.applyMarkdown(sessionId, content);
+            }
+        }
+
+        await this.commit(sessionId);
+        return resolved;
+    }
+
+    public async disableExport(sessionId: string): Promise<void> {
+        this.db.deleteKV(this.exportKey(sessionId));
+        await this.commit(sessionId);
+    }
+
+    /**
+     * Replace the plan with the contents of a markdown file; ids found in the file are kept
+     */
+    public async importMarkdown(sessionId: string, filePath: string): Promise<number> {
+        const content = await fs.readFile(filePath, 'utf-8');
+        const count = this.applyMarkdown(sessionId, content);
+        await this.commit(sessionId);
+        return count;
+    }
+
+    /**
+     * Pull edits made to the exported file since the last write; returns whether anything was read
+     */
+    public async syncFromExport(sessionId: string): Promise<boolean> {
+        const link = this.getExportLink(sessionId);
+        if (!link) return false;
+
+        let mtime: number;
+        try {
+            mtime = (await fs.stat(link.path)).mtimeMs;
+        } catch {
+            return false;
+        }
+        if (mtime <= link.syncedAt) return false;
+
+        this.applyMarkdown(sessionId, await fs.readFile(link.path, 'utf-8'));
+        await this.commit(sessionId);
+        return true;
+    }
+
+    /**
+     * Plain-text rendering for tool results, with ids the model can refer to
+     */
+    public renderText(sessionId: string): string {
+        const plan = this.getPlan(sessionId);
+        if (plan.progress.total === 0) {
+            return 'The plan is empty.';
+        }
+
+        const lines: string[] = [];
+        const walk = (nodes: PlanNode[], depth: number) => {
+            for (const node of nodes) {
+                lines.push(`${'  '.repeat(depth)}- [${node.status}] ${node.title} (id: ${node.id})`);
+                walk(node.children, depth + 1);
+            }
+        };
+        walk(plan.items, 0);
+
+        const header = `Plan: ${plan.progress.done}/${plan.progress.total} done`;
+        const footer = plan.exportPath ? `\nExported to ${plan.exportPath}` : '';
+        return `${header}\n${lines.join('\n')}${footer}`;
+    }
+
+    private applyMarkdown(sessionId: string, content: string): number {
+        const parsed = parsePlanMarkdown(content);
+        const existing = new Map(this.getItems(sessionId).map(item => [item.id, item]));
+        const resolvedIds: string[] = [];
+        const seen = new Set<string>();
+        const positions = new Map<string | null, number>();
+
+        parsed.forEach((line, index) => {
+            const reuse = line.id && existing.has(line.id) && !seen.has(line.id);
+            const id = reuse ? line.id! : nanoid(8);
+            const parentId = line.parent === null ? null : resolvedIds[line.parent];
+            const position = positions.get(parentId) ?? 0;
+            positions.set(parentId, position + 1);
+            resolvedIds[index] = id;
+            seen.add(id);
+
+            if (reuse) {
+                this.db.updatePlanItem(id, { title: line.title, status: line.status, parentId, position });
+            } else {
+                this.db.insertPlanItem({ id, sessionId, parentId, title: line.title, status: line.status, position });
+            }
+        });
+
+        this.db.deletePlanItems(Array.from(existing.keys()).filter(id => !seen.has(id)));
+        return parsed.length;
+    }
+
+    private async commit(sessionId: string): Promise<void> {
+        await this.writeExport(sessionId);
+        const snapshot = this.getPlan(sessionId);
+        for (const listener of this.listeners) {
+            try {
+                listener(snapshot);
+            } catch (error) {
+                console.error('[PlanStore] Change listener failed:', error);
+            }
+        }
+    }
+
+    private async writeExport(sessionId: string): Promise<void> {
+        const link = this.getExportLink(sessionId);
+        if (!link) return;
+
+        try {
+            const markdown = planToMarkdown(this.getPlan(sessionId).items);
+            await fs.mkdir(path.dirname(link.path), { recursive: true });
+            await fs.writeFile(link.path, markdown ? `${markdown}\n` : '', 'utf-8');
+            const stats = await fs.stat(link.path);
+            this.db.setKV(this.exportKey(sessionId), { ...link, syncedAt: stats.mtimeMs } satisfies ExportLink);
+        } catch (error) {
+            console.error(`[PlanStore] Failed to export plan to ${link.path}:`, error);
+        }
+    }
+
+    private getExportLink(sessionId: string): ExportLink | null {
+        return this.db.getKV<ExportLink>(this.exportKey(sessionId));
+    }
+
+    private exportKey(sessionId: string): string {
+        return `plan:export:${sessionId}`;
+    }
+
+    private nextPosition(items: PlanItem[], parentId: string | null): number {
+        const siblings = items.filter(item => item.parentId === parentId);
+        return siblings.length === 0 ? 0 : Math.max(...siblings.map(item => item.position)) + 1;
+    }
+
+    private collectSubtree(items: PlanItem[], rootId: string): string[] {
+        const ids = [rootId];
+        for (let i = 0; i < ids.length; i++) {
+            for (const item of items) {
+                if (item.parentId === ids[i]) ids.push(item.id);
+            }
+        }
+        return ids;
+    }
+
+    private requireItem(sessionId: string, id: string): PlanItem {
+        const item = this.getItems(sessionId).find(i => i.id === id);
+        if (!item) {
+            throw new Error(`Plan item "${id}" not found`);
+        }
+        return item;
+    }
+}
@@ -0,0 +1,210 @@
+/**
+ * PlanStore Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { PlanItemInsert, PlanItemRow, PlanItemUpdate } from '../../../config/TaskDatabase';
+
+vi.mock('../../../config/TaskDatabase', () => ({
+    TaskDatabase: class { },
+}));
+
+import { PlanStore, PlanDatabase, parsePlanMarkdown, planToMarkdown } from '../PlanStore';
+
+/**
+ * In-memory stand-in for the plan_items table and kv_store
+ */
+function createFakeDb(): PlanDatabase {
+    const rows = new Map<string, PlanItemRow>();
+    const kv = new Map<string, unknown>();
+    const columns: Record<keyof PlanItemUpdate, keyof PlanItemRow> = {
+        parentId: 'parent_id',
+        title: 'title',
+        status: 'status',
+        note: 'note',
+        position: 'position'
+    };
+
+    const db = {
+        listPlanItems: (sessionId: string) => Array.from(rows.values())
+            .filter(r => r.session_id === sessionId)
+            .sort((a, b) => a.position - b.position || a.created_at - b.created_at)
+            .map(r => ({ ...r })),
+        insertPlanItem: (item: PlanItemInsert) => {
+            const now = Date.now();
+            rows.set(item.id, {
+                id: item.id,
+                session_id: item.sessionId,
+                parent_id: item.parentId,
+                title: item.title,
+                status: item.status,
+                note: item.note ?? null,
+                position: item.position,
+                created_at: now,
+                updated_at: now
+            });
+        },
+        updatePlanItem: (id: string, patch: PlanItemUpdate) => {
+            const row = rows.get(id) as Record<string, unknown> | undefined;
+            if (!row) return false;
+            for (const key of Object.keys(columns) as Array<keyof PlanItemUpdate>) {
+                if (patch[key] !== undefined) row[columns[key]] = patch[key];
+            }
+            return true;
+        },
+        deletePlanItems: (ids: string[]) => ids.filter(id => rows.delete(id)).length,
+        deletePlanItemsForSession: (sessionId: string) => {
+            let removed = 0;
+            for (const [id, row] of rows) {
+                if (row.session_id === sessionId && rows.delete(id)) removed++;
+            }
+            return removed;
+        },
+        getKV: <T,>(key: string) => (kv.has(key) ? kv.get(key) as T : null),
+        setKV: (key: string, value: unknown) => { kv.set(key, value); },
+        deleteKV: (key: string) => { kv.delete(key); },
+    };
+    return db as unknown as PlanDatabase;
+}
+
+describe('PlanStore', () => {
+    let store: PlanStore;
+
+    beforeEach(() => {
+        store = new PlanStore(createFakeDb());
+    });
+
+    it('should keep plans per session and build a nested tree with progress', async () => {
+        const parent = await store.addItem('s1', { title: 'Build feature' });
+        await store.addItem('s1', { title: 'Write code', parentId: parent.id, status: 'in_progress' });
+        await store.addItem('s1', { title: 'Write tests', parentId: parent.id, status: 'blocked' });
+        await store.addItem('s2', { title: 'Other session' });
+
+        const plan = store.getPlan('s1');
+
+        expect(plan.items).toHaveLength(1);
+        expect(plan.items[0].children.map(c => c.title)).toEqual(['Write code', 'Write tests']);
+        expect(plan.progress).toEqual({ total: 3, pending: 1, inProgress: 1, done: 0, blocked: 1 });
+        expect(store.getPlan('s2').items.map(i => i.title)).toEqual(['Other session']);
+    });
+
+    it('should update and complete items by id and notify listeners', async () => {
+        const listener = vi.fn();
+        store.onChange(listener);
+        const item = await store.addItem('s1', { title: 'Draft' });
+
+        await store.updateItem('s1', item.id, { title: 'Final draft', note: 'needs review' });
+        const done = await store.completeItem('s1', item.id);
+
+        expect(done).toMatchObject({ id: item.id, title: 'Final draft', status: 'done', note: 'needs review' });
+        expect(listener).toHaveBeenCalledTimes(3);
+        expect(listener.mock.calls[2][0].progress.done).toBe(1);
+        await expect(store.completeItem('s1', 'missing')).rejects.toThrow('not found');
+    });
+
+    it('should reject moving an item under its own descendant', async () => {
+        const a = await store.addItem('s1', { title: 'A' });
+        const b = await store.addItem('s1', { title: 'B', parentId: a.id });
+
+        await expect(store.updateItem('s1', a.id, { parentId: b.id })).rejects.toThrow('under itself');
+        await store.updateItem('s1', b.id, { parentId: '' });
+
+        expect(store.getPlan('s1').items.map(i => i.title)).toEqual(['A', 'B']);
+    });
+
+    it('should reorder siblings and remove items with their sub-items', async () => {
+        const a = await store.addItem('s1', { title: 'A' });
+        const b = await store.addItem('s1', { title: 'B' });
+        const c = await store.addItem('s1', { title: 'C' });
+        await store.addItem('s1', { title: 'B.1', parentId: b.id });
+
+        await store.reorder('s1', [c.id, a.id]);
+        expect(store.getPlan('s1').items.map(i => i.title)).toEqual(['C', 'A', 'B']);
+
+        expect(await store.removeItem('s1', b.id)).toBe(2);
+        expect(store.getItems('s1').map(i => i.title)).toEqual(['C', 'A']);
+        await expect(store.reorder('s1', ['nope'])).rejects.toThrow('Items not found');
+    });
+
+    describe('TODO.md export', () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await fs.mkdtemp(path.join(os.tmpdir(), 'plan-store-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(dir, { recursive: true, force: true });
+        });
+
+        it('should import an existing TODO.md when enabling export on an empty plan', async () => {
+            const file = path.join(dir, 'TODO.md');
+            await fs.writeFile(file, '# Notes\n- [x] Done already\n- [ ] Next\n  - [~] Sub step\n', 'utf-8');
+
+            await store.enableExport('s1', file);
+
+            const plan = store.getPlan('s1');
+            expect(plan.exportPath).toBe(file);
+            expect(plan.items.map(i => [i.title, i.status])).toEqual([['Done already', 'done'], ['Next', 'pending']]);
+            expect(plan.items[1].children[0]).toMatchObject({ title: 'Sub step', status: 'in_progress' });
+            // The file is rewritten in the plan format with ids
+            expect(await fs.readFile(file, 'utf-8')).toContain(`<!-- plan:${plan.items[0].id} -->`);
+        });
+
+        it('should write changes to the file and read hand edits back by id', async () => {
+            const file = path.join(dir, 'TODO.md');
+            const item = await store.addItem('s1', { title: 'Ship it', note: 'kept across sync' });
+            await store.enableExport('s1', file);
+
+            const exported = await fs.readFile(file, 'utf-8');
+            const edited = exported.replace('- [ ] Ship it', '- [x] Ship it now') + '- [!] New blocker\n';
+            await fs.writeFile(file, edited, 'utf-8');
+            const future = new Date(Date.now() + 5000);
+            await fs.utimes(file, future, future);
+
+            expect(await store.syncFromExport('s1')).toBe(true);
+            const items = store.getItems('s1');
+            expect(items[0]).toMatchObject({ id: item.id, title: 'Ship it now', status: 'done', note: 'kept across sync' });
+            expect(items[1]).toMatchObject({ title: 'New blocker', status: 'blocked' });
+            expect(await store.syncFromExport('s1')).toBe(false);
+        });
+    });
+});
+
+describe('plan markdown', () => {
+    it('should round-trip statuses, nesting and ids', () => {
+        const markdown = [
+            '- [ ] Top <!-- plan:a1 -->',
+            '  - [~] Child <!-- plan:b2 -->',
+            '    - [!] Grandchild <!-- plan:c3 -->',
+            '- [x] Second <!-- plan:d4 -->'
+        ].join('\n');
+
+        const parsed = parsePlanMarkdown(markdown);
+
+        expect(parsed).toEqual([
+            { id: 'a1', title: 'Top', status: 'pending', parent: null },
+            { id: 'b2', title: 'Child', status: 'in_progress', parent: 0 },
+            { id: 'c3', title: 'Grandchild', status: 'blocked', parent: 1 },
+            { id: 'd4', title: 'Second', status: 'done', parent: null }
+        ]);
+
+        const node = (id: string, title: string, status: 'pending' | 'in_progress' | 'done' | 'blocked', children: ReturnType<typeof node>[] = []) => ({
+            id, title, status, children, sessionId: 's', parentId: null, position: 0, createdAt: 0, updatedAt: 0
+        });
+        const tree = [
+            node('a1', 'Top', 'pending', [node('b2', 'Child', 'in_progress', [node('c3', 'Grandchild', 'blocked')])]),
+            node('d4', 'Second', 'done')
+        ];
+        expect(planToMarkdown(tree)).toBe(markdown);
+    });
+
+    it('should ignore non-checkbox lines', () => {
+        expect(parsePlanMarkdown('# Title\n\nSome prose\n- plain bullet\n* [X] Upper-case done')).toEqual([
+            { id: undefined, title: 'Upper-case done', status: 'done', parent: null }
+        ]);
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Plan Types
+ */
+
+export const PLAN_ITEM_STATUSES = ['pending', 'in_progress', 'done', 'blocked'] as const;
+
+export type PlanItemStatus = typeof PLAN_ITEM_STATUSES[number];
+
+export function isPlanItemStatus(value: unknown): value is PlanItemStatus {
+    return typeof value === 'string' && (PLAN_ITEM_STATUSES as readonly string[]).includes(value);
+}
+
+export interface PlanItem {
+    id: string;
+    sessionId: string;
+    parentId: string | null;
+    title: string;
+    status: PlanItemStatus;
+    note?: string;
+    position: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface PlanNode extends PlanItem {
+    children: PlanNode[];
+}
+
+export interface PlanProgress {
+    total: number;
+    pending: number;
+    inProgress: number;
+    done: number;
+    blocked: number;
+}
+
+export interface PlanSnapshot {
+    sessionId: string;
+    items: PlanNode[];
+    progress: PlanProgress;
+    // TODO.md the plan is mirrored to, when export is enabled
+    exportPath?: string;
+}
+
+export interface PlanItemDraft {
+    title: string;
+    parentId?: string | null;
+    status?: PlanItemStatus;
+    note?: string;
+}
+
+export interface PlanItemPatch {
+    title?: string;
+    parentId?: string | null;
+    status?: PlanItemStatus;
+    note?: string;
+}
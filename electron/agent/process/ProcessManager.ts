@@ -0,0 +1,303 @@
+/**
+ * ProcessManager
+ *
+ * Runs long-lived commands (dev servers, watchers, long builds) in the
+ * background so the agent can keep working while they run. Each process keeps
+ * its combined stdout/stderr in a ring buffer that can be read incrementally
+ * by offset, belongs to the session that started it, and is stopped together
+ * with that session or when the agent shuts down.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { nanoid } from 'nanoid';
+import { logs } from '../../utils/logger';
+import { AGENT_CONSTANTS } from '../AgentConstants';
+import type { CommandLauncher, ManagedProcessInfo, ProcessEvent, ProcessOutputSlice } from './types';
+
+/**
+ * Fixed-size text log addressed by absolute character offsets
+ */
+export class OutputRingBuffer {
+    private data = '';
+    // Absolute offset of data[0]
+    private start = 0;
+
+    constructor(private capacity: number) { }
+
+    get length(): number {
+        return this.start + this.data.length;
+    }
+
+    append(text: string): number {
+        const offset = this.length;
+        this.data += text;
+        if (this.data.length > this.capacity) {
+            const cut = this.data.length - this.capacity;
+            this.data = this.data.slice(cut);
+            this.start += cut;
+        }
+        return offset;
+    }
+
+    /**
+     * Read from an offset; without one, return the most recent maxChars
+     */
+    read(offset: number | undefined, maxChars: number): { text: string; offset: number; nextOffset: number; dropped: boolean } {
+        const end = this.length;
+        const requested = offset === undefined ? Math.max(this.start, end - maxChars) : Math.min(Math.max(0, offset), end);
+        const from = Math.max(requested, this.start);
+        const text = this.data.slice(from - this.start, from - this.start + maxChars);
+        return { text, offset: from, nextOffset: from + text.length, dropped: requested < this.start };
+    }
+}
+
+type ManagedProcess = {
+    info: ManagedProcessInfo;
+    child: ChildProcess | null;
+    output: OutputRingBuffer;
+    killTimer: ReturnType<typeof setTimeout> | null;
+    launcher: CommandLauncher | null;
+};
+
+export interface StartProcessOptions {
+    sessionId: string;
+    command: string;
+    cwd: string;
+    name?: string;
+    env?: Record<string, string>;
+    // Run through a launcher (command sandbox or Docker container) instead of directly
+    launcher?: CommandLauncher | null;
+}
+
+export class ProcessManager {
+    private static instance: ProcessManager | null = null;
+
+    private processes = new Map<string, ManagedProcess>();
+    private listeners = new Set<(event: ProcessEvent) => void>();
+
+    public static getInstance(): ProcessManager {
+        if (!ProcessManager.instance) {
+            ProcessManager.instance = new ProcessManager();
+        }
+        return ProcessManager.instance;
+    }
+
+    public onEvent(listener: (event: ProcessEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    public start(options: StartProcessOptions): ManagedProcessInfo {
+        const running = Array.from(this.processes.values()).filter(p => p.info.status === 'running');
+        if (running.length >= AGENT_CONSTANTS.PROCESS_MAX_RUNNING) {
+            throw new Error(`Too many background processes running (${running.length}); stop one before starting another`);
+        }
+
+        const id = `proc_${nanoid(8)}`;
+        const isWindows = process.platform === 'win32';
+        const spawnOptions = {
+            cwd: options.cwd,
+            env: { ...process.env, ...options.env },
+            // Own process group, so stopping also reaches the children the shell starts
+            detached: !isWindows,
+            stdio: ['pipe', 'pipe', 'pipe'] as ['pipe', 'pipe', 'pipe'],
+            windowsHide: true
+        };
+        const launch = options.launcher
+            ? options.launcher.wrap(options.cwd, options.launcher.shell, ['-c', options.command])
+            : null;
+        const child = launch
+            ? spawn(launch.file, launch.args, spawnOptions)
+            : spawn(options.command, { ...spawnOptions, shell: isWindows ? 'powershell.exe' : '/bin/bash' });
+
+        const managed: ManagedProcess = {
+            info: {
+                id,
+                sessionId: options.sessionId,
+                name: options.name?.trim() || options.command.split(/\s+/).slice(0, 3).join(' '),
+                command: options.command,
+                cwd: options.cwd,
+                pid: child.pid ?? null,
+                status: 'running',
+                exitCode: null,
+                signal: null,
+                startedAt: Date.now(),
+                endedAt: null,
+                outputLength: 0
+            },
+            child,
+            output: new OutputRingBuffer(AGENT_CONSTANTS.PROCESS_OUTPUT_BUFFER_CHARS),
+            killTimer: null,
+            launcher: options.launcher ?? null
+        };
+        this.processes.set(id, managed);
+
+        const onData = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+            const chunk = data.toString();
+            const offset = managed.output.append(chunk);
+            managed.info.outputLength = managed.output.length;
+            this.emit({ type: 'output', id, sessionId: managed.info.sessionId, chunk, offset, stream });
+        };
+        child.stdout?.on('data', onData('stdout'));
+        child.stderr?.on('data', onData('stderr'));
+        // Writing to a process that already exited must not crash the main process
+        child.stdin?.on('error', () => undefined);
+
+        child.on('error', (error) => {
+            this.finish(managed, { status: 'failed', error: error.message });
+        });
+        // 'close' rather than 'exit': it fires after the output streams are drained
+        child.on('close', (code, signal) => {
+            const stopped = managed.info.status === 'stopped' || signal !== null;
+            this.finish(managed, {
+                status: stopped ? 'stopped' : code === 0 ? 'exited' : 'failed',
+                exitCode: code,
+                signal
+            });
+        });
+
+        logs.agent.info(`[Process] Started ${id} (pid ${child.pid}): ${options.command}`);
+        this.emit({ type: 'updated', process: { ...managed.info } });
+        this.pruneExited(options.sessionId);
+        return { ...managed.info };
+    }
+
+    public get(id: string): ManagedProcessInfo | null {
+        const managed = this.processes.get(id);
+        return managed ? { ...managed.info } : null;
+    }
+
+    public list(sessionId?: string): ManagedProcessInfo[] {
+        return Array.from(this.processes.values())
+            .filter(p => sessionId === undefined || p.info.sessionId === sessionId)
+            .map(p => ({ ...p.info }))
+            .sort((a, b) => b.startedAt - a.startedAt);
+    }
+
+    public readOutput(id: string, offset?: number, maxChars: number = AGENT_CONSTANTS.PROCESS_READ_MAX_CHARS): ProcessOutputSlice {
+        const managed = this.require(id);
+        const slice = managed.output.read(offset, maxChars);
+        return {
+            id,
+            status: managed.info.status,
+            output: slice.text,
+            offset: slice.offset,
+            nextOffset: slice.nextOffset,
+            dropped: slice.dropped
+        };
+    }
+
+    public sendInput(id: string, input: string): void {
+        const managed = this.require(id);
+        if (managed.info.status !== 'running' || !managed.child?.stdin || managed.child.stdin.destroyed) {
+            throw new Error(`Process ${id} is not running`);
+        }
+        managed.child.stdin.write(input);
+    }
+
+    /**
+     * Send a signal to the process group; SIGTERM escalates to SIGKILL after a grace period
+     */
+    public stop(id: string, signal: NodeJS.Signals = 'SIGTERM'): ManagedProcessInfo {
+        const managed = this.require(id);
+        // A process that ignored SIGTERM can still be stopped again with SIGKILL
+        if (managed.info.endedAt !== null || !managed.child) {
+            return { ...managed.info };
+        }
+
+        managed.info.status = 'stopped';
+        this.signal(managed, signal);
+        managed.launcher?.kill?.();
+        if (signal !== 'SIGKILL' && !managed.killTimer) {
+            managed.killTimer = setTimeout(() => {
+                if (managed.info.endedAt === null) this.signal(managed, 'SIGKILL');
+            }, AGENT_CONSTANTS.PROCESS_STOP_GRACE_MS);
+            managed.killTimer.unref?.();
+        }
+        this.emit({ type: 'updated', process: { ...managed.info } });
+        return { ...managed.info };
+    }
+
+    /**
+     * Forget a process that has finished (running ones must be stopped first)
+     */
+    public remove(id: string): void {
+        const managed = this.require(id);
+        if (managed.info.endedAt === null) {
+            throw new Error(`Process ${id} is still running`);
+        }
+        this.processes.delete(id);
+        this.emit({ type: 'removed', process: { ...managed.info } });
+    }
+
+    public stopSession(sessionId: string): void {
+        for (const managed of Array.from(this.processes.values())) {
+            if (managed.info.sessionId !== sessionId) continue;
+            if (managed.info.status === 'running') this.stop(managed.info.id);
+            this.processes.delete(managed.info.id);
+            this.emit({ type: 'removed', process: { ...managed.info } });
+        }
+    }
+
+    public stopAll(): void {
+        for (const managed of this.processes.values()) {
+            if (managed.info.status === 'running') this.stop(managed.info.id);
+        }
+    }
+
+    private require(id: string): ManagedProcess {
+        const managed = this.processes.get(id);
+        if (!managed) {
+            throw new Error(`Process ${id} not found`);
+        }
+        return managed;
+    }
+
+    private signal(managed: ManagedProcess, signal: NodeJS.Signals): void {
+        const pid = managed.child?.pid;
+        if (!pid) return;
+        try {
+            if (process.platform === 'win32') {
+                // taskkill /T also ends the process tree started by the shell
+                spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true });
+            } else {
+                process.kill(-pid, signal);
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+                logs.agent.warn(`[Process] Failed to signal ${managed.info.id}:`, error);
+            }
+        }
+    }
+
+    private finish(managed: ManagedProcess, result: Partial<ManagedProcessInfo>): void {
+        if (managed.info.endedAt !== null) return;
+        if (managed.killTimer) clearTimeout(managed.killTimer);
+        managed.killTimer = null;
+        Object.assign(managed.info, result, { endedAt: Date.now() });
+        managed.child = null;
+        logs.agent.info(`[Process] ${managed.info.id} ${managed.info.status} (exit ${managed.info.exitCode ?? managed.info.signal ?? 'n/a'})`);
+        this.emit({ type: 'updated', process: { ...managed.info } });
+    }
+
+    /**
+     * Keep only the most recent finished processes of a session
+     */
+    private pruneExited(sessionId: string): void {
+        const exited = this.list(sessionId).filter(p => p.status !== 'running');
+        for (const stale of exited.slice(AGENT_CONSTANTS.PROCESS_KEEP_EXITED)) {
+            this.processes.delete(stale.id);
+            this.emit({ type: 'removed', process: stale });
+        }
+    }
+
+    private emit(event: ProcessEvent): void {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                logs.agent.warn('[Process] Listener failed:', error);
+            }
+        }
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * ProcessManager Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+
+vi.mock('../../../utils/logger', () => ({
+    logs: {
+        agent: {
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        },
+    },
+}));
+
+import { OutputRingBuffer, ProcessManager } from '../ProcessManager';
+import type { ProcessEvent } from '../types';
+
+describe('OutputRingBuffer', () => {
+    it('should address output by absolute offset and report dropped ranges', () => {
+        const buffer = new OutputRingBuffer(10);
+        expect(buffer.append('hello ')).toBe(0);
+        expect(buffer.append('world!!')).toBe(6);
+
+        expect(buffer.length).toBe(13);
+        expect(buffer.read(8, 100)).toEqual({ text: 'rld!!', offset: 8, nextOffset: 13, dropped: false });
+        expect(buffer.read(0, 4)).toEqual({ text: 'lo w', offset: 3, nextOffset: 7, dropped: true });
+        expect(buffer.read(undefined, 3)).toEqual({ text: 'd!!', offset: 10, nextOffset: 13, dropped: false });
+        expect(buffer.read(13, 5).text).toBe('');
+    });
+});
+
+describe.skipIf(process.platform === 'win32')('ProcessManager', () => {
+    let manager: ProcessManager;
+    let events: ProcessEvent[];
+
+    const waitFor = async (predicate: () => boolean, timeoutMs = 5000) => {
+        const deadline = Date.now() + timeoutMs;
+        while (!predicate()) {
+            if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+    };
+
+    beforeEach(() => {
+        manager = new ProcessManager();
+        events = [];
+        manager.onEvent(event => events.push(event));
+    });
+
+    afterEach(() => {
+        manager.stopAll();
+    });
+
+    it('should capture output incrementally and record the exit', async () => {
+        const info = manager.start({ sessionId: 's1', command: 'echo first; echo second >&2; exit 3', cwd: os.tmpdir() });
+
+        await waitFor(() => manager.get(info.id)?.endedAt !== null);
+
+        const all = manager.readOutput(info.id, 0);
+        expect(all.output).toContain('first\n');
+        expect(all.output).toContain('second\n');
+        expect(manager.readOutput(info.id, all.nextOffset).output).toBe('');
+        expect(manager.get(info.id)).toMatchObject({ status: 'failed', exitCode: 3, outputLength: all.nextOffset });
+        expect(events.some(e => e.type === 'output' && e.stream === 'stderr')).toBe(true);
+    });
+
+    it('should pass input to the process and stop it with its children', async () => {
+        const info = manager.start({ sessionId: 's1', command: 'cat', cwd: os.tmpdir(), name: 'echo back' });
+
+        manager.sendInput(info.id, 'ping\n');
+        await waitFor(() => manager.readOutput(info.id, 0).output.includes('ping'));
+        manager.stop(info.id);
+        await waitFor(() => manager.get(info.id)?.endedAt !== null);
+
+        expect(manager.get(info.id)).toMatchObject({ name: 'echo back', status: 'stopped' });
+        expect(() => manager.sendInput(info.id, 'late\n')).toThrow('not running');
+    });
+
+    it('should keep processes per session and stop a session\'s processes together', async () => {
+        const a = manager.start({ sessionId: 's1', command: 'sleep 30', cwd: os.tmpdir() });
+        const b = manager.start({ sessionId: 's2', command: 'sleep 30', cwd: os.tmpdir() });
+
+        expect(manager.list('s1').map(p => p.id)).toEqual([a.id]);
+        expect(() => manager.remove(a.id)).toThrow('still running');
+
+        manager.stopSession('s1');
+
+        expect(manager.get(a.id)).toBeNull();
+        expect(manager.list().map(p => p.id)).toEqual([b.id]);
+        expect(events.some(e => e.type === 'removed' && e.process.id === a.id)).toBe(true);
+    });
+});
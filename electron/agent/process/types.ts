@@ -0,0 +1,62 @@
+/**
+ * Background Process Types
+ */
+
+/**
+ * How a command is started when it should not run directly on the host,
+ * e.g. inside the command sandbox or the session's Docker container
+ */
+export interface CommandLauncher {
+    // Shown in tool output, e.g. "bubblewrap sandbox"
+    label: string;
+    // Shell used for commands with shell syntax
+    shell: string;
+    wrap(cwd: string, file: string, args: string[]): { file: string; args: string[] };
+    // Stop what the launched command left running beyond the local process
+    kill?(): void;
+}
+
+export type ManagedProcessStatus = 'running' | 'exited' | 'stopped' | 'failed';
+
+export interface ManagedProcessInfo {
+    id: string;
+    // Session that started the process; it is stopped when the session is deleted
+    sessionId: string;
+    name: string;
+    command: string;
+    cwd: string;
+    pid: number | null;
+    status: ManagedProcessStatus;
+    exitCode: number | null;
+    signal: string | null;
+    error?: string;
+    startedAt: number;
+    endedAt: number | null;
+    // Characters written to the log so far; offsets into the output are measured against this
+    outputLength: number;
+}
+
+export interface ProcessOutputSlice {
+    id: string;
+    status: ManagedProcessStatus;
+    output: string;
+    // Offset of the first returned character
+    offset: number;
+    // Pass as offset to continue reading where this slice ended
+    nextOffset: number;
+    // Part of the requested range was already pushed out of the ring buffer
+    dropped: boolean;
+}
+
+export interface ProcessOutputChunk {
+    id: string;
+    sessionId: string;
+    chunk: string;
+    offset: number;
+    stream: 'stdout' | 'stderr';
+}
+
+export type ProcessEvent =
+    | { type: 'updated'; process: ManagedProcessInfo }
+    | { type: 'removed'; process: ManagedProcessInfo }
+    | ({ type: 'output' } & ProcessOutputChunk);
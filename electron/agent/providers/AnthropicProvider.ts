@@ -1,6 +1,10 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { BaseLLMProvider, StreamChatParams } from './BaseLLMProvider';
+import { BaseLLMProvider, StreamChatParams, emptyTokenUsage } from './BaseLLMProvider';
 import { createTokenBuffer } from './TokenBuffer';
+import { cacheHistory, cacheSystemPrompt, cacheTools } from './PromptCache';
+
+// Anthropic rejects thinking budgets below this
+const MIN_THINKING_BUDGET = 1024;
 
 export class AnthropicProvider extends BaseLLMProvider {
     private client: Anthropic;
@@ -33,22 +37,40 @@ export class AnthropicProvider extends BaseLLMProvider {
     }
 
     async streamChat(params: StreamChatParams): Promise<Anthropic.ContentBlock[]> {
-        const { model, systemPrompt, messages, tools, maxTokens, signal, onToken } = params;
+        const { model, systemPrompt, messages, tools, maxTokens, thinkingBudget, signal, onToken, onThinking, onUsage } = params;
         const finalContent: Anthropic.ContentBlock[] = [];
         let currentToolUse: { id: string; name: string; input: string } | null = null;
+        let currentThinking: Anthropic.ThinkingBlock | null = null;
         let textBuffer = '';
+        const usage = emptyTokenUsage();
 
         // Create token buffer for batched IPC communication
         const tokenBuffer = onToken ? createTokenBuffer(onToken, 10, 50) : null;
+        const thinkingBuffer = onThinking ? createTokenBuffer(onThinking, 10, 50) : null;
+
+        // The thinking budget counts towards max_tokens, so extend it rather than starve the answer
+        const budget = thinkingBudget && thinkingBudget > 0
+            ? Math.max(MIN_THINKING_BUDGET, Math.floor(thinkingBudget))
+            : 0;
+
+        const flushText = () => {
+            if (textBuffer) {
+                finalContent.push({ type: 'text', text: textBuffer, citations: null });
+                textBuffer = '';
+            }
+            tokenBuffer?.flush();
+        };
 
         try {
+            // System prompt, tools and history prefix repeat across loop iterations; mark them for caching
             const stream = await this.client.messages.create({
                 model,
-                max_tokens: maxTokens,
-                system: systemPrompt,
-                messages,
+                max_tokens: maxTokens + budget,
+                system: cacheSystemPrompt(systemPrompt),
+                messages: cacheHistory(toAnthropicHistory(messages)),
                 stream: true,
-                tools,
+                tools: cacheTools(tools),
+                ...(budget > 0 ? { thinking: { type: 'enabled', budget_tokens: budget } } : {}),
                 signal
             } as unknown as Anthropic.MessageCreateParamsStreaming);
 
@@ -59,16 +81,32 @@ export class AnthropicProvider extends BaseLLMProvider {
                 }
 
                 switch (chunk.type) {
+                    case 'message_start': {
+                        const startUsage = chunk.message.usage;
+                        usage.inputTokens = startUsage?.input_tokens ?? 0;
+                        usage.outputTokens = startUsage?.output_tokens ?? 0;
+                        usage.cacheReadTokens = startUsage?.cache_read_input_tokens ?? 0;
+                        usage.cacheWriteTokens = startUsage?.cache_creation_input_tokens ?? 0;
+                        break;
+                    }
+                    case 'message_delta':
+                        // output_tokens in message_delta is cumulative for the whole message
+                        if (chunk.usage?.output_tokens != null) {
+                            usage.outputTokens = chunk.usage.output_tokens;
+                        }
+                        break;
                     case 'content_block_start':
                         if (chunk.content_block.type === 'tool_use') {
                             // Flush any buffered text before starting tool use
-                            if (textBuffer) {
-                                finalContent.push({ type: 'text', text: textBuffer, citations: null });
-                                textBuffer = '';
-                            }
-                            // Flush token buffer to ensure all text is sent
-                            tokenBuffer?.flush();
+                            flushText();
                             currentToolUse = { ...chunk.content_block, input: '' };
+                        } else if (chunk.content_block.type === 'thinking') {
+                            flushText();
+                            currentThinking = { type: 'thinking', thinking: '', signature: '' };
+                        } else if (chunk.content_block.type === 'redacted_thinking') {
+                            flushText();
+                            // Encrypted reasoning must be sent back verbatim on the next request
+                            finalContent.push({ type: 'redacted_thinking', data: chunk.content_block.data });
                         }
                         break;
                     case 'content_block_delta':
@@ -78,10 +116,19 @@ export class AnthropicProvider extends BaseLLMProvider {
                             tokenBuffer?.add(chunk.delta.text);
                         } else if (chunk.delta.type === 'input_json_delta' && currentToolUse) {
                             currentToolUse.input += chunk.delta.partial_json;
+                        } else if (chunk.delta.type === 'thinking_delta' && currentThinking) {
+                            currentThinking.thinking += chunk.delta.thinking;
+                            thinkingBuffer?.add(chunk.delta.thinking);
+                        } else if (chunk.delta.type === 'signature_delta' && currentThinking) {
+                            currentThinking.signature += chunk.delta.signature;
                         }
                         break;
                     case 'content_block_stop':
-                        if (currentToolUse) {
+                        if (currentThinking) {
+                            thinkingBuffer?.flush();
+                            finalContent.push(currentThinking);
+                            currentThinking = null;
+                        } else if (currentToolUse) {
                             try {
                                 const parsedInput = JSON.parse(currentToolUse.input || '{}');
                                 finalContent.push({
@@ -104,6 +151,7 @@ export class AnthropicProvider extends BaseLLMProvider {
                     case 'message_stop':
                         // Flush remaining tokens on message stop
                         tokenBuffer?.flush();
+                        thinkingBuffer?.flush();
                         break;
                     default:
                         break;
@@ -112,13 +160,28 @@ export class AnthropicProvider extends BaseLLMProvider {
         } finally {
             // Ensure token buffer is flushed and cleaned up
             tokenBuffer?.destroy();
+            thinkingBuffer?.destroy();
         }
 
         if (textBuffer) {
             finalContent.push({ type: 'text', text: textBuffer, citations: null });
         }
 
+        onUsage?.(usage);
+
         return finalContent;
     }
 }
 
+/**
+ * Drop reasoning that Anthropic cannot verify.
+ * Thinking blocks produced by OpenAI-compatible providers carry no signature
+ * and would be rejected, e.g. after switching models mid-session.
+ */
+function toAnthropicHistory(messages: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+    return messages.map((message) => {
+        if (message.role !== 'assistant' || typeof message.content === 'string') return message;
+        const content = message.content.filter(b => b.type !== 'thinking' || Boolean(b.signature));
+        return content.length === message.content.length ? message : { ...message, content };
+    });
+}
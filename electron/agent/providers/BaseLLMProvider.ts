@@ -1,19 +1,47 @@
 import Anthropic from '@anthropic-ai/sdk';
 
+/**
+ * Token counts reported by a provider for a single request
+ */
+export type TokenUsage = {
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+};
+
 export type StreamChatParams = {
     model: string;
     systemPrompt: string;
     messages: Anthropic.MessageParam[];
     tools: Anthropic.Tool[];
     maxTokens: number;
+    // Token budget for extended thinking / reasoning; unset or 0 leaves the provider default
+    thinkingBudget?: number;
+    // Context window the conversation is budgeted against; local servers size their context from it
+    contextWindow?: number;
     signal?: AbortSignal;
     onToken?: (token: string) => void;
+    onThinking?: (token: string) => void;
+    onUsage?: (usage: TokenUsage) => void;
 };
 
+export function emptyTokenUsage(): TokenUsage {
+    return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+}
+
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+    return {
+        inputTokens: a.inputTokens + b.inputTokens,
+        outputTokens: a.outputTokens + b.outputTokens,
+        cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+        cacheWriteTokens: a.cacheWriteTokens + b.cacheWriteTokens,
+    };
+}
+
 export abstract class BaseLLMProvider {
     abstract getProviderName(): string;
     abstract getBaseURL(): string | undefined;
     abstract checkConnection(): Promise<boolean>;
     abstract streamChat(params: StreamChatParams): Promise<Anthropic.ContentBlock[]>;
 }
-
@@ -4,5 +4,10 @@ export class MiniMaxProvider extends OpenAIProvider {
     getProviderName(): string {
         return 'minimax';
     }
+
+    // MiniMax takes the `thinking` switch whatever host it is reached through
+    protected reasoningParams(_model: string, budget: number): Record<string, unknown> {
+        return { thinking: { type: 'enabled', budget_tokens: Math.floor(budget) } };
+    }
 }
 
@@ -0,0 +1,468 @@
+/**
+ * OllamaProvider - local models served by Ollama or llama.cpp
+ *
+ * Ollama is spoken to over its native API (/api/chat, NDJSON streaming).
+ * llama.cpp's llama-server has no /api/chat; its chat endpoint is the
+ * OpenAI-compatible /v1/chat/completions, so that flavour is delegated to
+ * OpenAIProvider. Both flavours fall back to JSON-in-text tool calls for
+ * models that cannot use native tools.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { nanoid } from 'nanoid';
+import { BaseLLMProvider, StreamChatParams, TokenUsage } from './BaseLLMProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { createTokenBuffer } from './TokenBuffer';
+import { buildToolPrompt, parseTextToolCalls, renderToolCall } from './TextToolCallParser';
+import { resolveContextWindow } from '../../types/models';
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+// Discovery requests must not hang the settings page when nothing is listening
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+export type LocalServerKind = 'ollama' | 'llamacpp';
+
+export interface LocalModelInfo {
+    name: string;
+    sizeBytes?: number;
+    family?: string;
+    parameterSize?: string;
+    // Currently loaded into memory (Ollama /api/ps); llama.cpp serves exactly one model
+    loaded: boolean;
+}
+
+type OllamaToolCall = { function: { name: string; arguments: Record<string, unknown> | string } };
+
+type OllamaMessage = {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    images?: string[];
+    thinking?: string;
+    tool_calls?: OllamaToolCall[];
+    tool_name?: string;
+};
+
+type OllamaChatChunk = {
+    message?: { content?: string; thinking?: string; tool_calls?: OllamaToolCall[] };
+    done?: boolean;
+    prompt_eval_count?: number;
+    eval_count?: number;
+    error?: string;
+};
+
+export function normalizeLocalBaseURL(raw: string): string {
+    const trimmed = String(raw || '').trim().replace(/\/+$/, '');
+    if (!trimmed) return DEFAULT_OLLAMA_URL;
+    // Users often paste the OpenAI-compatible URL; the native API lives at the root
+    return trimmed.replace(/\/(v1|api)$/i, '');
+}
+
+export class OllamaProvider extends BaseLLMProvider {
+    private readonly baseURL: string;
+    private readonly apiKey: string;
+    private serverKind: Promise<LocalServerKind> | null = null;
+    private openAICompat: OpenAIProvider | null = null;
+    // Models that rejected the tools parameter; they get the text protocol from then on
+    private readonly textToolModels = new Set<string>();
+
+    constructor(apiKey: string, baseURL: string) {
+        super();
+        this.apiKey = apiKey;
+        this.baseURL = normalizeLocalBaseURL(baseURL);
+    }
+
+    getProviderName(): string {
+        return 'ollama';
+    }
+
+    getBaseURL(): string | undefined {
+        return this.baseURL;
+    }
+
+    async checkConnection(): Promise<boolean> {
+        const models = await this.listModels();
+        if (models.length === 0) {
+            throw new Error('本地服务已连接，但没有可用的模型');
+        }
+        return true;
+    }
+
+    /**
+     * Models available on the local server, with the ones currently in memory flagged
+     */
+    async listModels(): Promise<LocalModelInfo[]> {
+        const kind = await this.detectServerKind();
+        if (kind === 'llamacpp') {
+            const body = await this.getJson<{ data?: { id: string }[] }>('/v1/models');
+            return (body.data || []).map(m => ({ name: m.id, loaded: true }));
+        }
+
+        const tags = await this.getJson<{ models?: { name: string; size?: number; details?: { family?: string; parameter_size?: string } }[] }>('/api/tags');
+        let loaded = new Set<string>();
+        try {
+            const ps = await this.getJson<{ models?: { name: string }[] }>('/api/ps');
+            loaded = new Set((ps.models || []).map(m => m.name));
+        } catch {
+            // /api/ps is missing on old Ollama versions; report everything as not loaded
+        }
+        return (tags.models || []).map(m => ({
+            name: m.name,
+            sizeBytes: m.size,
+            family: m.details?.family,
+            parameterSize: m.details?.parameter_size,
+            loaded: loaded.has(m.name)
+        }));
+    }
+
+    async streamChat(params: StreamChatParams): Promise<Anthropic.ContentBlock[]> {
+        const kind = await this.detectServerKind();
+        const useTextTools = params.tools.length > 0 && this.textToolModels.has(params.model);
+
+        if (kind === 'llamacpp') {
+            return this.streamChatOpenAICompat(params, useTextTools);
+        }
+
+        try {
+            return await this.streamOllamaChat(params, useTextTools);
+        } catch (error) {
+            if (!useTextTools && params.tools.length > 0 && isToolsUnsupportedError(error)) {
+                this.textToolModels.add(params.model);
+                return this.streamOllamaChat(params, true);
+            }
+            throw error;
+        }
+    }
+
+    private async streamOllamaChat(params: StreamChatParams, useTextTools: boolean): Promise<Anthropic.ContentBlock[]> {
+        const { model, systemPrompt, messages, tools, maxTokens, thinkingBudget, contextWindow, signal, onToken, onThinking, onUsage } = params;
+
+        const body: Record<string, unknown> = {
+            model,
+            messages: toOllamaMessages(messages, useTextTools ? systemPrompt + buildToolPrompt(tools) : systemPrompt, useTextTools),
+            stream: true,
+            // Ollama otherwise loads the model with its small default context and silently truncates the prompt
+            options: { num_predict: maxTokens, num_ctx: contextWindow || resolveContextWindow(model) }
+        };
+        if (!useTextTools && tools.length > 0) {
+            body.tools = tools.map(t => ({
+                type: 'function',
+                function: { name: t.name, description: t.description, parameters: t.input_schema }
+            }));
+        }
+        if (thinkingBudget && thinkingBudget > 0) {
+            // Ollama exposes thinking as an on/off switch without a budget
+            body.think = true;
+        }
+
+        const response = await fetch(`${this.baseURL}/api/chat`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(body),
+            signal
+        });
+        if (!response.ok || !response.body) {
+            throw await toHttpError(response);
+        }
+
+        const tokenBuffer = onToken ? createTokenBuffer(onToken, 10, 50) : null;
+        const thinkingBuffer = onThinking ? createTokenBuffer(onThinking, 10, 50) : null;
+        let text = '';
+        let thinking = '';
+        const toolCalls: OllamaToolCall[] = [];
+        let usage: TokenUsage | null = null;
+
+        try {
+            for await (const chunk of readNdjson<OllamaChatChunk>(response.body, signal)) {
+                if (chunk.error) throw new Error(chunk.error);
+                const message = chunk.message;
+                if (message?.thinking) {
+                    thinking += message.thinking;
+                    thinkingBuffer?.add(message.thinking);
+                }
+                if (message?.content) {
+                    text += message.content;
+                    // Text-protocol replies are mostly JSON; showing them raw would only flicker
+                    if (!useTextTools) tokenBuffer?.add(message.content);
+                }
+                if (message?.tool_calls) {
+                    toolCalls.push(...message.tool_calls);
+                }
+                if (chunk.done) {
+                    usage = {
+                        inputTokens: chunk.prompt_eval_count ?? 0,
+                        outputTokens: chunk.eval_count ?? 0,
+                        cacheReadTokens: 0,
+                        cacheWriteTokens: 0
+                    };
+                }
+            }
+            tokenBuffer?.flush();
+            thinkingBuffer?.flush();
+        } finally {
+            tokenBuffer?.destroy();
+            thinkingBuffer?.destroy();
+        }
+
+        const finalContent: Anthropic.ContentBlock[] = [];
+        if (thinking) {
+            finalContent.push({ type: 'thinking', thinking, signature: '' });
+        }
+
+        if (toolCalls.length > 0) {
+            if (text) finalContent.push({ type: 'text', text, citations: null });
+            for (const call of toolCalls) {
+                finalContent.push({
+                    type: 'tool_use',
+                    id: `call_${nanoid()}`,
+                    name: call.function.name,
+                    input: parseArguments(call.function.arguments)
+                });
+            }
+        } else {
+            // Models with native tools still sometimes answer with a JSON call in the text
+            finalContent.push(...textWithToolCalls(text, tools));
+            if (useTextTools && onToken) {
+                const visible = finalContent.find((b): b is Anthropic.TextBlock => b.type === 'text');
+                if (visible) onToken(visible.text);
+            }
+        }
+
+        if (usage) onUsage?.(usage);
+        return finalContent;
+    }
+
+    private async streamChatOpenAICompat(params: StreamChatParams, useTextTools: boolean): Promise<Anthropic.ContentBlock[]> {
+        if (!this.openAICompat) {
+            this.openAICompat = new OpenAIProvider(this.apiKey || 'sk-no-key-required', `${this.baseURL}/v1`);
+        }
+        const compat = this.openAICompat;
+
+        const run = async (textTools: boolean) => {
+            const content = await compat.streamChat(textTools
+                ? { ...params, systemPrompt: params.systemPrompt + buildToolPrompt(params.tools), tools: [], messages: toTextToolHistory(params.messages) }
+                : params);
+            if (content.some(b => b.type === 'tool_use')) return content;
+            // Either protocol may leave the call in the text; parse it back into tool_use blocks
+            return content.flatMap(b => b.type === 'text' ? textWithToolCalls(b.text, params.tools) : [b]);
+        };
+
+        try {
+            return await run(useTextTools);
+        } catch (error) {
+            // llama-server started without --jinja rejects the tools parameter
+            if (!useTextTools && params.tools.length > 0 && isToolsUnsupportedError(error)) {
+                this.textToolModels.add(params.model);
+                return run(true);
+            }
+            throw error;
+        }
+    }
+
+    private detectServerKind(): Promise<LocalServerKind> {
+        if (!this.serverKind) {
+            this.serverKind = (async (): Promise<LocalServerKind> => {
+                try {
+                    await this.getJson('/api/tags');
+                    return 'ollama';
+                } catch (ollamaError) {
+                    try {
+                        await this.getJson('/v1/models');
+                        return 'llamacpp';
+                    } catch {
+                        throw ollamaError;
+                    }
+                }
+            })();
+            // Let a later call retry once the server is started
+            this.serverKind.catch(() => { this.serverKind = null; });
+        }
+        return this.serverKind;
+    }
+
+    private headers(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        // Local servers usually run without auth; a key is only sent when configured (e.g. behind a proxy)
+        if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+        return headers;
+    }
+
+    private async getJson<T = unknown>(path: string): Promise<T> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseURL}${path}`, {
+                headers: this.headers(),
+                signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS)
+            });
+        } catch (error) {
+            throw new Error(`无法连接本地模型服务 ${this.baseURL}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!response.ok) throw await toHttpError(response);
+        return await response.json() as T;
+    }
+}
+
+function parseArguments(raw: Record<string, unknown> | string): Record<string, unknown> {
+    if (typeof raw !== 'string') return raw || {};
+    try {
+        return JSON.parse(raw || '{}');
+    } catch {
+        return { error: 'Invalid JSON input', raw };
+    }
+}
+
+function textWithToolCalls(text: string, tools: Anthropic.Tool[]): Anthropic.ContentBlock[] {
+    const parsed = parseTextToolCalls(text, tools);
+    const blocks: Anthropic.ContentBlock[] = [];
+    if (parsed.text) blocks.push({ type: 'text', text: parsed.text, citations: null });
+    for (const call of parsed.calls) {
+        blocks.push({ type: 'tool_use', id: `call_${nanoid()}`, name: call.name, input: call.input });
+    }
+    return blocks;
+}
+
+function isToolsUnsupportedError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return /does not support tools|tools? (?:are|is) not supported|--jinja/i.test(message);
+}
+
+async function toHttpError(response: Response): Promise<Error> {
+    let detail = '';
+    try {
+        detail = await response.text();
+        // Both Ollama and llama-server wrap failures as {"error": ...}
+        const parsed = JSON.parse(detail) as { error?: string | { message?: string } };
+        detail = typeof parsed.error === 'string' ? parsed.error : (parsed.error?.message || detail);
+    } catch {
+        // Plain-text or empty body; keep what was read
+    }
+    const error = new Error(`${response.status} ${detail || response.statusText}`.trim()) as Error & { status?: number };
+    error.status = response.status;
+    return error;
+}
+
+async function* readNdjson<T>(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<T> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            if (signal?.aborted) break;
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.slice(0, newline).trim();
+                buffer = buffer.slice(newline + 1);
+                if (line) yield JSON.parse(line) as T;
+            }
+        }
+        const rest = buffer.trim();
+        if (rest && !signal?.aborted) yield JSON.parse(rest) as T;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+function collectToolNames(history: Anthropic.MessageParam[]): Map<string, string> {
+    const names = new Map<string, string>();
+    for (const msg of history) {
+        if (msg.role !== 'assistant' || typeof msg.content === 'string') continue;
+        for (const block of msg.content) {
+            if (block.type === 'tool_use') names.set(block.id, block.name);
+        }
+    }
+    return names;
+}
+
+function toolResultText(block: Anthropic.ToolResultBlockParam): string {
+    if (typeof block.content === 'string') return block.content;
+    return (block.content || [])
+        .map(part => part.type === 'text' ? part.text : `[${part.type}]`)
+        .join('\n');
+}
+
+/**
+ * Convert Anthropic-format history to Ollama chat messages.
+ * In text-tool mode tool calls and results are replayed as plain text,
+ * since the model was never given the tools parameter.
+ */
+export function toOllamaMessages(history: Anthropic.MessageParam[], systemPrompt: string, textTools = false): OllamaMessage[] {
+    const messages: OllamaMessage[] = [{ role: 'system', content: systemPrompt }];
+    const toolNames = collectToolNames(history);
+
+    for (const msg of history) {
+        if (typeof msg.content === 'string') {
+            messages.push({ role: msg.role, content: msg.content });
+            continue;
+        }
+
+        if (msg.role === 'user') {
+            const texts: string[] = [];
+            const images: string[] = [];
+            for (const block of msg.content) {
+                if (block.type === 'text') {
+                    texts.push(block.text);
+                } else if (block.type === 'image' && block.source.type === 'base64') {
+                    images.push(block.source.data);
+                } else if (block.type === 'tool_result') {
+                    const name = toolNames.get(block.tool_use_id) || 'tool';
+                    if (textTools) {
+                        texts.push(`Result of ${name}${block.is_error ? ' (error)' : ''}:\n${toolResultText(block)}`);
+                    } else {
+                        messages.push({ role: 'tool', content: toolResultText(block), tool_name: name });
+                    }
+                }
+            }
+            if (texts.length > 0 || images.length > 0) {
+                messages.push({ role: 'user', content: texts.join('\n\n'), ...(images.length > 0 ? { images } : {}) });
+            }
+            continue;
+        }
+
+        const texts: string[] = [];
+        const thinking: string[] = [];
+        const calls: OllamaToolCall[] = [];
+        for (const block of msg.content) {
+            if (block.type === 'text') {
+                texts.push(block.text);
+            } else if (block.type === 'thinking') {
+                thinking.push(block.thinking);
+            } else if (block.type === 'tool_use') {
+                if (textTools) {
+                    texts.push(renderToolCall(block.name, block.input));
+                } else {
+                    calls.push({ function: { name: block.name, arguments: (block.input || {}) as Record<string, unknown> } });
+                }
+            }
+        }
+        const assistant: OllamaMessage = { role: 'assistant', content: texts.join('\n\n') };
+        if (thinking.length > 0) assistant.thinking = thinking.join('\n');
+        if (calls.length > 0) assistant.tool_calls = calls;
+        messages.push(assistant);
+    }
+
+    return messages;
+}
+
+/**
+ * Rewrite tool_use / tool_result blocks as text for OpenAI-compatible servers in text-tool mode
+ */
+function toTextToolHistory(history: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+    const toolNames = collectToolNames(history);
+    return history.map((msg) => {
+        if (typeof msg.content === 'string') return msg;
+        const content = msg.content.map((block): Anthropic.ContentBlockParam => {
+            if (block.type === 'tool_use') {
+                return { type: 'text', text: renderToolCall(block.name, block.input) };
+            }
+            if (block.type === 'tool_result') {
+                const name = toolNames.get(block.tool_use_id) || 'tool';
+                return { type: 'text', text: `Result of ${name}${block.is_error ? ' (error)' : ''}:\n${toolResultText(block)}` };
+            }
+            return block;
+        });
+        return { ...msg, content };
+    });
+}
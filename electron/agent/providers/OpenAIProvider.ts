@@ -1,10 +1,10 @@
 import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
 import type { ChatCompletionContentPart, ChatCompletionMessageFunctionToolCall, ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
-import { BaseLLMProvider, StreamChatParams } from './BaseLLMProvider';
+import { BaseLLMProvider, StreamChatParams, TokenUsage } from './BaseLLMProvider';
 import { createTokenBuffer } from './TokenBuffer';
 
-function normalizeOpenAIBaseURL(raw: string): string {
+export function normalizeOpenAIBaseURL(raw: string): string {
     const trimmed = String(raw || '').trim().replace(/\/+$/, '');
     if (!trimmed) return trimmed;
 
@@ -24,14 +24,36 @@ function normalizeOpenAIBaseURL(raw: string): string {
     return trimmed;
 }
 
+// OpenAI-compatible hosts that accept the GLM / Doubao style `thinking` switch
+const THINKING_SWITCH_HOSTS = ['bigmodel.cn', 'volces.com', 'minimax.io', 'minimaxi.com', 'minimax.chat'];
+
+function hostOf(baseURL: string): string {
+    try {
+        return new URL(baseURL).hostname.toLowerCase();
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Map a thinking budget to OpenAI's reasoning_effort levels
+ */
+export function reasoningEffortFor(budget: number): 'low' | 'medium' | 'high' {
+    if (budget <= 4096) return 'low';
+    if (budget <= 16384) return 'medium';
+    return 'high';
+}
+
 export class OpenAIProvider extends BaseLLMProvider {
     protected client: OpenAI;
+    protected readonly baseURL: string;
 
     constructor(apiKey: string, baseURL: string) {
         super();
+        this.baseURL = normalizeOpenAIBaseURL(baseURL);
         this.client = new OpenAI({
             apiKey,
-            baseURL: normalizeOpenAIBaseURL(baseURL),
+            baseURL: this.baseURL,
             dangerouslyAllowBrowser: true
         });
     }
@@ -66,6 +88,20 @@ export class OpenAIProvider extends BaseLLMProvider {
         }
     }
 
+    protected extractUsage(raw: OpenAI.CompletionUsage): TokenUsage {
+        const cacheReadTokens = raw.prompt_tokens_details?.cached_tokens
+            // DeepSeek reports context cache hits with its own field names
+            ?? (raw as { prompt_cache_hit_tokens?: number }).prompt_cache_hit_tokens
+            ?? 0;
+        return {
+            // prompt_tokens includes cached tokens; keep the two counts disjoint like Anthropic does
+            inputTokens: Math.max(0, (raw.prompt_tokens ?? 0) - cacheReadTokens),
+            outputTokens: raw.completion_tokens ?? 0,
+            cacheReadTokens,
+            cacheWriteTokens: 0,
+        };
+    }
+
     protected async convertToOpenAIMessages(history: Anthropic.MessageParam[], systemPrompt: string): Promise<ChatCompletionMessageParam[]> {
         const messages: ChatCompletionMessageParam[] = [{ role: 'system', content: systemPrompt }];
 
@@ -110,15 +146,18 @@ export class OpenAIProvider extends BaseLLMProvider {
                     const blocks = msg.content as Anthropic.ContentBlockParam[];
                     const textBlocks = blocks.filter((b): b is Anthropic.TextBlockParam => b.type === 'text');
                     const toolUseBlocks = blocks.filter((b): b is Anthropic.ToolUseBlockParam => b.type === 'tool_use');
+                    const thinkingBlocks = blocks.filter((b): b is Anthropic.ThinkingBlockParam => b.type === 'thinking');
 
                     let content: string | null = null;
-                    let reasoning_content: string | null = null;
+                    let reasoning_content: string | null = thinkingBlocks.length > 0
+                        ? thinkingBlocks.map(b => b.thinking).join('\n')
+                        : null;
 
                     if (textBlocks.length > 0) {
                         content = textBlocks.map(b => b.text).join('\n');
-                        // Capture reasoning_content if present in the text block (stored as custom prop)
+                        // Sessions saved before thinking blocks existed kept reasoning on the text block
                         const blockWithReasoning = textBlocks.find(b => (b as any).reasoning_content);
-                        if (blockWithReasoning) {
+                        if (!reasoning_content && blockWithReasoning) {
                             reasoning_content = (blockWithReasoning as any).reasoning_content;
                         }
                     }
@@ -148,8 +187,25 @@ export class OpenAIProvider extends BaseLLMProvider {
         return messages;
     }
 
+    /**
+     * Request fields that turn on reasoning with the given budget. `thinking` is not part of the
+     * OpenAI API and api.openai.com rejects the request, so it only goes to hosts known to take it;
+     * endpoints that reason by default (DeepSeek) get nothing.
+     */
+    protected reasoningParams(model: string, budget: number): Record<string, unknown> {
+        const host = hostOf(this.baseURL);
+        if (host === 'api.openai.com') {
+            // Only reasoning models accept reasoning_effort
+            return /^(o\d|gpt-5)/i.test(model) ? { reasoning_effort: reasoningEffortFor(budget) } : {};
+        }
+        if (THINKING_SWITCH_HOSTS.some(h => host === h || host.endsWith(`.${h}`))) {
+            return { thinking: { type: 'enabled', budget_tokens: Math.floor(budget) } };
+        }
+        return {};
+    }
+
     async streamChat(params: StreamChatParams): Promise<Anthropic.ContentBlock[]> {
-        const { model, systemPrompt, messages, tools, maxTokens, signal, onToken } = params;
+        const { model, systemPrompt, messages, tools, maxTokens, thinkingBudget, signal, onToken, onThinking, onUsage } = params;
 
         const openAIMessages = await this.convertToOpenAIMessages(messages, systemPrompt);
         const openAITools: ChatCompletionTool[] = tools.map(t => ({
@@ -163,6 +219,7 @@ export class OpenAIProvider extends BaseLLMProvider {
 
         // Create token buffer for batched IPC communication
         const tokenBuffer = onToken ? createTokenBuffer(onToken, 10, 50) : null;
+        const thinkingBuffer = onThinking ? createTokenBuffer(onThinking, 10, 50) : null;
 
         try {
             const stream = await this.client.chat.completions.create({
@@ -170,13 +227,16 @@ export class OpenAIProvider extends BaseLLMProvider {
                 messages: openAIMessages,
                 tools: openAITools,
                 stream: true,
-                max_tokens: maxTokens
-            });
+                stream_options: { include_usage: true },
+                max_tokens: maxTokens,
+                ...(thinkingBudget && thinkingBudget > 0 ? this.reasoningParams(model, thinkingBudget) : {})
+            } as OpenAI.ChatCompletionCreateParamsStreaming);
 
             const finalContent: Anthropic.ContentBlock[] = [];
             let textBuffer = '';
             let reasoningBuffer = '';
             const toolCallsMap = new Map<number, { id: string; name: string; arguments: string }>();
+            let usage: TokenUsage | null = null;
 
             for await (const chunk of stream) {
                 if (signal?.aborted) {
@@ -184,15 +244,19 @@ export class OpenAIProvider extends BaseLLMProvider {
                     break;
                 }
 
+                // The usage chunk arrives last, with an empty choices array
+                if (chunk.usage) {
+                    usage = this.extractUsage(chunk.usage);
+                }
+
                 const delta = chunk.choices?.[0]?.delta;
                 if (!delta) continue;
 
-                // Capture reasoning_content (used by Kimi, DeepSeek etc)
-                if ((delta as any).reasoning_content) {
-                    reasoningBuffer += (delta as any).reasoning_content;
-                    // We treat reasoning as part of the output stream for UI visibility if needed,
-                    // but usually it's separate. For now, we just buffer it.
-                    // If we want to show it, we might need a specific UI event.
+                // Capture reasoning_content (used by Kimi, DeepSeek, GLM etc)
+                const reasoning = (delta as { reasoning_content?: string | null }).reasoning_content;
+                if (reasoning) {
+                    reasoningBuffer += reasoning;
+                    thinkingBuffer?.add(reasoning);
                 }
 
                 if (delta.content) {
@@ -219,14 +283,14 @@ export class OpenAIProvider extends BaseLLMProvider {
 
             // Flush remaining tokens
             tokenBuffer?.flush();
+            thinkingBuffer?.flush();
 
-            if (textBuffer || reasoningBuffer) {
-                const textBlock: Anthropic.TextBlock = { type: 'text', text: textBuffer, citations: null };
-                // Attach reasoning content as a custom property
-                if (reasoningBuffer) {
-                    (textBlock as any).reasoning_content = reasoningBuffer;
-                }
-                finalContent.push(textBlock);
+            // Reasoning is kept as an unsigned thinking block so it can be replayed as reasoning_content
+            if (reasoningBuffer) {
+                finalContent.push({ type: 'thinking', thinking: reasoningBuffer, signature: '' });
+            }
+            if (textBuffer) {
+                finalContent.push({ type: 'text', text: textBuffer, citations: null });
             }
 
             for (const tc of toolCallsMap.values()) {
@@ -247,10 +311,13 @@ export class OpenAIProvider extends BaseLLMProvider {
                 }
             }
 
+            if (usage) onUsage?.(usage);
+
             return finalContent;
         } finally {
             // Ensure token buffer is flushed and cleaned up
             tokenBuffer?.destroy();
+            thinkingBuffer?.destroy();
         }
     }
 }
@@ -0,0 +1,74 @@
+/**
+ * PromptCache - Anthropic prompt caching breakpoints
+ *
+ * The agent loop resends the same system prompt, tool list and history prefix
+ * on every iteration. Marking them with cache_control lets the API bill the
+ * repeated prefix at the cache-read rate instead of the full input rate.
+ *
+ * Anthropic allows at most 4 breakpoints per request:
+ *   1. end of the system prompt
+ *   2. last tool definition (the whole tool list is cached)
+ *   3. last message of the history (written for the next iteration)
+ *   4. the previous user message (read back from the prior iteration's write)
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+
+const EPHEMERAL = { type: 'ephemeral' as const };
+
+// Only these block types accept cache_control
+const CACHEABLE_BLOCK_TYPES = new Set(['text', 'image', 'tool_use', 'tool_result', 'document']);
+
+// Rolling history breakpoints, leaving two for the system prompt and tools
+const HISTORY_BREAKPOINTS = 2;
+
+export function cacheSystemPrompt(systemPrompt: string): Anthropic.TextBlockParam[] | undefined {
+    if (!systemPrompt) return undefined;
+    return [{ type: 'text', text: systemPrompt, cache_control: EPHEMERAL }];
+}
+
+export function cacheTools(tools: Anthropic.Tool[]): Anthropic.Tool[] {
+    if (tools.length === 0) return tools;
+    const cached = tools.slice();
+    cached[cached.length - 1] = { ...cached[cached.length - 1], cache_control: EPHEMERAL };
+    return cached;
+}
+
+/**
+ * Mark the last message and the user message before it, so the prefix written
+ * by one loop iteration is read back by the next. Messages are copied; the
+ * caller's history is never mutated.
+ */
+export function cacheHistory(messages: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+    const cached = messages.slice();
+    let remaining = HISTORY_BREAKPOINTS;
+
+    for (let i = cached.length - 1; i >= 0 && remaining > 0; i--) {
+        // The newest message is always marked; older breakpoints sit on user turns
+        if (i !== cached.length - 1 && cached[i].role !== 'user') continue;
+        const marked = withCacheControl(cached[i]);
+        if (marked) {
+            cached[i] = marked;
+            remaining--;
+        }
+    }
+    return cached;
+}
+
+function withCacheControl(message: Anthropic.MessageParam): Anthropic.MessageParam | null {
+    if (typeof message.content === 'string') {
+        if (!message.content) return null;
+        return { ...message, content: [{ type: 'text', text: message.content, cache_control: EPHEMERAL }] };
+    }
+
+    for (let i = message.content.length - 1; i >= 0; i--) {
+        const block = message.content[i];
+        if (!CACHEABLE_BLOCK_TYPES.has(block.type)) continue;
+        // Empty text blocks are rejected by the API when they carry cache_control
+        if (block.type === 'text' && !block.text) continue;
+        const content = message.content.slice();
+        content[i] = { ...block, cache_control: EPHEMERAL } as Anthropic.ContentBlockParam;
+        return { ...message, content };
+    }
+    return null;
+}
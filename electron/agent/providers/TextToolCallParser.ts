@@ -0,0 +1,143 @@
+/**
+ * TextToolCallParser - tool calls for models without native tool support
+ *
+ * Many small local models cannot use the tools API. They are instead given the
+ * tool list in the system prompt and asked to answer with a JSON object; this
+ * module builds that prompt and parses the calls back out of the reply text.
+ *
+ * Accepted shapes (optionally fenced in ```json or wrapped in <tool_call>):
+ *   {"tool": "name", "arguments": {...}}
+ *   {"name": "name", "arguments": {...}}   // also "input" / "parameters"
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+
+export interface ParsedToolCall {
+    name: string;
+    input: Record<string, unknown>;
+}
+
+export interface TextToolCallResult {
+    text: string;
+    calls: ParsedToolCall[];
+}
+
+export function buildToolPrompt(tools: Anthropic.Tool[]): string {
+    if (tools.length === 0) return '';
+    const specs = tools.map(t => JSON.stringify({
+        name: t.name,
+        description: t.description,
+        parameters: t.input_schema
+    })).join('\n');
+    return [
+        '',
+        '# Tools',
+        'You can call the tools below. To call a tool, reply with ONLY a JSON object in a ```json block:',
+        '```json',
+        '{"tool": "<tool name>", "arguments": { ... }}',
+        '```',
+        'Call one tool per JSON block. You will receive the result in the next message.',
+        'When no tool is needed, answer normally without JSON.',
+        '',
+        specs
+    ].join('\n');
+}
+
+/**
+ * Render a tool call the way the model was asked to write it,
+ * so replayed history matches the format in the system prompt
+ */
+export function renderToolCall(name: string, input: unknown): string {
+    return '```json\n' + JSON.stringify({ tool: name, arguments: input ?? {} }) + '\n```';
+}
+
+function toCall(value: unknown, toolNames: Set<string>): ParsedToolCall | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+    const obj = value as Record<string, unknown>;
+    // OpenAI-style {"function": {...}} wrappers show up in fine-tuned models
+    const target = (obj.function && typeof obj.function === 'object') ? obj.function as Record<string, unknown> : obj;
+    const name = typeof target.tool === 'string' ? target.tool : (typeof target.name === 'string' ? target.name : '');
+    if (!name || !toolNames.has(name)) return null;
+
+    let args = target.arguments ?? target.input ?? target.parameters ?? {};
+    if (typeof args === 'string') {
+        try {
+            args = JSON.parse(args);
+        } catch {
+            return null;
+        }
+    }
+    if (!args || typeof args !== 'object' || Array.isArray(args)) return null;
+    return { name, input: args as Record<string, unknown> };
+}
+
+/**
+ * Find balanced top-level JSON objects in free text.
+ * Braces inside strings are skipped so code in arguments does not confuse the scan.
+ */
+function findJsonObjects(text: string): { start: number; end: number }[] {
+    const spans: { start: number; end: number }[] = [];
+    let depth = 0;
+    let start = -1;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"' && depth > 0) {
+            inString = true;
+        } else if (ch === '{') {
+            if (depth === 0) start = i;
+            depth++;
+        } else if (ch === '}' && depth > 0) {
+            depth--;
+            if (depth === 0) spans.push({ start, end: i + 1 });
+        }
+    }
+    return spans;
+}
+
+export function parseTextToolCalls(text: string, tools: Anthropic.Tool[]): TextToolCallResult {
+    const toolNames = new Set(tools.map(t => t.name));
+    if (!text || toolNames.size === 0) return { text, calls: [] };
+
+    const calls: ParsedToolCall[] = [];
+    const removals: { start: number; end: number }[] = [];
+
+    for (const span of findJsonObjects(text)) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text.slice(span.start, span.end));
+        } catch {
+            continue;
+        }
+        const call = toCall(parsed, toolNames);
+        if (!call) continue;
+        calls.push(call);
+        removals.push(span);
+    }
+
+    if (calls.length === 0) return { text, calls };
+
+    let remaining = '';
+    let cursor = 0;
+    for (const span of removals) {
+        remaining += text.slice(cursor, span.start);
+        cursor = span.end;
+    }
+    remaining += text.slice(cursor);
+
+    // Drop the now-empty fences and wrappers the calls were written in
+    remaining = remaining
+        .replace(/```(?:json)?\s*```/g, '')
+        .replace(/<tool_call>\s*<\/tool_call>/g, '')
+        .trim();
+
+    return { text: remaining, calls };
+}
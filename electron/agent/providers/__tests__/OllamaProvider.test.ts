@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Anthropic from '@anthropic-ai/sdk';
+import { OllamaProvider, normalizeLocalBaseURL, toOllamaMessages } from '../OllamaProvider';
+import { parseTextToolCalls } from '../TextToolCallParser';
+
+const tools: Anthropic.Tool[] = [
+  { name: 'read_file', description: 'Read a file', input_schema: { type: 'object', properties: { path: { type: 'string' } } } },
+];
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function ndjsonResponse(chunks: unknown[]) {
+  return new Response(chunks.map((c) => JSON.stringify(c)).join('\n') + '\n', { status: 200 });
+}
+
+describe('TextToolCallParser', () => {
+  it('parses fenced JSON tool calls and strips them from the text', () => {
+    const text = 'Let me look.\n```json\n{"tool": "read_file", "arguments": {"path": "a.txt"}}\n```';
+    const result = parseTextToolCalls(text, tools);
+    expect(result.calls).toEqual([{ name: 'read_file', input: { path: 'a.txt' } }]);
+    expect(result.text).toBe('Let me look.');
+  });
+
+  it('accepts name/arguments with stringified arguments inside <tool_call>', () => {
+    const text = '<tool_call>{"name": "read_file", "arguments": "{\\"path\\": \\"b\\"}"}</tool_call>';
+    expect(parseTextToolCalls(text, tools).calls).toEqual([{ name: 'read_file', input: { path: 'b' } }]);
+  });
+
+  it('ignores JSON that does not name a known tool', () => {
+    const text = 'Config: {"tool": "rm_rf", "arguments": {}} and {"a": "}"}';
+    const result = parseTextToolCalls(text, tools);
+    expect(result.calls).toEqual([]);
+    expect(result.text).toBe(text);
+  });
+});
+
+describe('OllamaProvider', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('normalizes OpenAI-style base URLs to the server root', () => {
+    expect(normalizeLocalBaseURL('http://localhost:11434/v1/')).toBe('http://localhost:11434');
+    expect(normalizeLocalBaseURL('')).toBe('http://localhost:11434');
+  });
+
+  it('lists models and flags the loaded ones', async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('/api/tags')) {
+        return jsonResponse({ models: [{ name: 'qwen3:8b', size: 5, details: { parameter_size: '8B' } }, { name: 'llama3.2:3b' }] });
+      }
+      if (url.endsWith('/api/ps')) return jsonResponse({ models: [{ name: 'qwen3:8b' }] });
+      throw new Error(`unexpected ${url}`);
+    });
+
+    const models = await new OllamaProvider('', 'http://localhost:11434').listModels();
+    expect(models).toEqual([
+      { name: 'qwen3:8b', sizeBytes: 5, family: undefined, parameterSize: '8B', loaded: true },
+      { name: 'llama3.2:3b', sizeBytes: undefined, family: undefined, parameterSize: undefined, loaded: false },
+    ]);
+  });
+
+  it('streams native chat and translates tool calls to tool_use blocks', async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('/api/tags')) return jsonResponse({ models: [] });
+      return ndjsonResponse([
+        { message: { role: 'assistant', content: 'Reading' } },
+        { message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'read_file', arguments: { path: 'x' } } }] } },
+        { done: true, prompt_eval_count: 50, eval_count: 7 },
+      ]);
+    });
+
+    const onUsage = vi.fn();
+    const content = await new OllamaProvider('', 'http://localhost:11434').streamChat({
+      model: 'qwen3:8b', systemPrompt: 'sys', messages: [{ role: 'user', content: 'hi' }], tools, maxTokens: 100, onUsage,
+    });
+
+    expect(content[0]).toEqual({ type: 'text', text: 'Reading', citations: null });
+    expect(content[1]).toMatchObject({ type: 'tool_use', name: 'read_file', input: { path: 'x' } });
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 50, outputTokens: 7, cacheReadTokens: 0, cacheWriteTokens: 0 });
+
+    const body = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(body.tools[0].function.name).toBe('read_file');
+    expect(body.options.num_predict).toBe(100);
+    expect(body.options.num_ctx).toBe(32768);
+  });
+
+  it('sizes the Ollama context from the model context window', async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('/api/tags')) return jsonResponse({ models: [] });
+      return ndjsonResponse([{ message: { content: 'ok' } }, { done: true }]);
+    });
+
+    const provider = new OllamaProvider('', 'http://localhost:11434');
+    await provider.streamChat({
+      model: 'qwen3:8b', systemPrompt: 'sys', messages: [{ role: 'user', content: 'hi' }], tools: [], maxTokens: 100, contextWindow: 65536,
+    });
+    await provider.streamChat({
+      model: 'qwen3:8b', systemPrompt: 'sys', messages: [{ role: 'user', content: 'hi' }], tools: [], maxTokens: 100,
+    });
+
+    const bodies = fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/api/chat')).map(([, init]) => JSON.parse(init.body));
+    expect(bodies.map(b => b.options.num_ctx)).toEqual([65536, 32768]);
+  });
+
+  it('falls back to text tool calls when the model does not support tools', async () => {
+    fetchMock.mockImplementation(async (url: string, init?: RequestInit) => {
+      if (url.endsWith('/api/tags')) return jsonResponse({ models: [] });
+      const body = JSON.parse(String(init?.body));
+      if (body.tools) return jsonResponse({ error: 'registry.ollama.ai/library/gemma:2b does not support tools' }, 400);
+      return ndjsonResponse([
+        { message: { content: '```json\n{"tool": "read_file", "arguments": {"path": "y"}}\n```' } },
+        { done: true },
+      ]);
+    });
+
+    const content = await new OllamaProvider('', 'http://localhost:11434').streamChat({
+      model: 'gemma:2b', systemPrompt: 'sys', messages: [{ role: 'user', content: 'hi' }], tools, maxTokens: 100,
+    });
+
+    expect(content).toHaveLength(1);
+    expect(content[0]).toMatchObject({ type: 'tool_use', name: 'read_file', input: { path: 'y' } });
+    const retryBody = JSON.parse(fetchMock.mock.calls[2][1].body);
+    expect(retryBody.messages[0].content).toContain('# Tools');
+  });
+
+  it('converts tool history to Ollama tool messages', () => {
+    const messages = toOllamaMessages([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'read_file', input: { path: 'a' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'data' }] },
+    ], 'sys');
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: '', tool_calls: [{ function: { name: 'read_file', arguments: { path: 'a' } } }] },
+      { role: 'tool', content: 'data', tool_name: 'read_file' },
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import Anthropic from '@anthropic-ai/sdk';
+import { cacheHistory, cacheSystemPrompt, cacheTools } from '../PromptCache';
+
+const countBreakpoints = (messages: Anthropic.MessageParam[]) =>
+  messages.reduce((sum, m) => {
+    if (typeof m.content === 'string') return sum;
+    return sum + m.content.filter((b) => 'cache_control' in b && b.cache_control).length;
+  }, 0);
+
+describe('PromptCache', () => {
+  it('marks the system prompt and the last tool', () => {
+    expect(cacheSystemPrompt('You are helpful')).toEqual([
+      { type: 'text', text: 'You are helpful', cache_control: { type: 'ephemeral' } },
+    ]);
+    expect(cacheSystemPrompt('')).toBeUndefined();
+
+    const tools: Anthropic.Tool[] = [
+      { name: 'a', input_schema: { type: 'object' } },
+      { name: 'b', input_schema: { type: 'object' } },
+    ];
+    const cached = cacheTools(tools);
+    expect(cached[0]).not.toHaveProperty('cache_control');
+    expect(cached[1].cache_control).toEqual({ type: 'ephemeral' });
+    expect(tools[1]).not.toHaveProperty('cache_control');
+  });
+
+  it('places two rolling breakpoints without mutating history', () => {
+    const history: Anthropic.MessageParam[] = [
+      { role: 'user', content: 'first' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'read_file', input: {} }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'data' }] },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 't2', name: 'read_file', input: {} }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't2', content: 'more' }] },
+    ];
+    const snapshot = JSON.stringify(history);
+
+    const cached = cacheHistory(history);
+
+    expect(countBreakpoints(cached)).toBe(2);
+    expect((cached[4].content as Anthropic.ToolResultBlockParam[])[0].cache_control).toBeDefined();
+    expect((cached[2].content as Anthropic.ToolResultBlockParam[])[0].cache_control).toBeDefined();
+    expect(JSON.stringify(history)).toBe(snapshot);
+  });
+
+  it('skips blocks that cannot carry cache_control', () => {
+    const history: Anthropic.MessageParam[] = [
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'answer' },
+          { type: 'thinking', thinking: 'hmm', signature: 'sig' },
+        ],
+      },
+    ];
+    const cached = cacheHistory(history);
+    const blocks = cached[0].content as Anthropic.ContentBlockParam[];
+    expect(blocks[0]).toHaveProperty('cache_control');
+    expect(blocks[1]).not.toHaveProperty('cache_control');
+  });
+});
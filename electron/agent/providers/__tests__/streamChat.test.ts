@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpenAIProvider } from '../OpenAIProvider';
+import { AnthropicProvider } from '../AnthropicProvider';
+import { MiniMaxProvider } from '../MiniMaxProvider';
+
+vi.mock('openai', () => {
+  const MockOpenAI = vi.fn();
+  MockOpenAI.prototype.chat = {
+    completions: {
+      create: vi.fn(),
+    },
+  };
+  return { default: MockOpenAI };
+});
+
+vi.mock('@anthropic-ai/sdk', () => {
+  const MockAnthropic = vi.fn();
+  MockAnthropic.prototype.messages = {
+    create: vi.fn(),
+  };
+  return { default: MockAnthropic };
+});
+
+function mockStream<T>(chunks: T[]) {
+  return {
+    controller: { abort: vi.fn() },
+    async *[Symbol.asyncIterator]() {
+      for (const chunk of chunks) yield chunk;
+    },
+  };
+}
+
+const baseParams = {
+  model: 'test-model',
+  systemPrompt: 'system',
+  messages: [{ role: 'user' as const, content: 'hi' }],
+  tools: [],
+  maxTokens: 100,
+};
+
+describe('streamChat usage reporting', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('AnthropicProvider reports input, output and cache tokens', async () => {
+    const provider = new AnthropicProvider('key', 'https://api.anthropic.com');
+    const create = provider['client'].messages.create as any;
+    create.mockResolvedValueOnce(mockStream([
+      {
+        type: 'message_start',
+        message: { usage: { input_tokens: 120, output_tokens: 1, cache_read_input_tokens: 900, cache_creation_input_tokens: 40 } },
+      },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hello' } },
+      { type: 'message_delta', usage: { output_tokens: 25 } },
+      { type: 'message_stop' },
+    ]));
+
+    const onUsage = vi.fn();
+    const content = await provider.streamChat({ ...baseParams, onUsage });
+
+    expect(content).toEqual([{ type: 'text', text: 'Hello', citations: null }]);
+    expect(onUsage).toHaveBeenCalledWith({
+      inputTokens: 120,
+      outputTokens: 25,
+      cacheReadTokens: 900,
+      cacheWriteTokens: 40,
+    });
+  });
+
+  it('OpenAIProvider requests usage and keeps cached tokens separate from input', async () => {
+    const provider = new OpenAIProvider('key', 'https://api.openai.com/v1');
+    const create = provider['client'].chat.completions.create as any;
+    create.mockResolvedValueOnce(mockStream([
+      { choices: [{ delta: { content: 'Hi' } }] },
+      { choices: [], usage: { prompt_tokens: 1000, completion_tokens: 30, prompt_tokens_details: { cached_tokens: 800 } } },
+    ]));
+
+    const onUsage = vi.fn();
+    await provider.streamChat({ ...baseParams, onUsage });
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      stream_options: { include_usage: true },
+    }));
+    expect(onUsage).toHaveBeenCalledWith({
+      inputTokens: 200,
+      outputTokens: 30,
+      cacheReadTokens: 800,
+      cacheWriteTokens: 0,
+    });
+  });
+
+  it('OpenAIProvider skips usage reporting when the endpoint sends none', async () => {
+    const provider = new OpenAIProvider('key', 'https://api.openai.com/v1');
+    const create = provider['client'].chat.completions.create as any;
+    create.mockResolvedValueOnce(mockStream([
+      { choices: [{ delta: { content: 'Hi' } }] },
+    ]));
+
+    const onUsage = vi.fn();
+    await provider.streamChat({ ...baseParams, onUsage });
+
+    expect(onUsage).not.toHaveBeenCalled();
+  });
+});
+
+describe('streamChat thinking blocks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('AnthropicProvider requests a thinking budget and keeps signed thinking blocks', async () => {
+    const provider = new AnthropicProvider('key', 'https://api.anthropic.com');
+    const create = provider['client'].messages.create as any;
+    create.mockResolvedValueOnce(mockStream([
+      { type: 'content_block_start', content_block: { type: 'thinking', thinking: '', signature: '' } },
+      { type: 'content_block_delta', delta: { type: 'thinking_delta', thinking: 'Let me check' } },
+      { type: 'content_block_delta', delta: { type: 'signature_delta', signature: 'sig-1' } },
+      { type: 'content_block_stop' },
+      { type: 'content_block_start', content_block: { type: 'tool_use', id: 'tu1', name: 'read_file' } },
+      { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{"path":"a"}' } },
+      { type: 'content_block_stop' },
+      { type: 'message_stop' },
+    ]));
+
+    const onThinking = vi.fn();
+    const content = await provider.streamChat({
+      ...baseParams,
+      thinkingBudget: 500,
+      onThinking,
+      messages: [
+        { role: 'user', content: 'hi' },
+        { role: 'assistant', content: [{ type: 'thinking', thinking: 'unsigned', signature: '' }, { type: 'text', text: 'ok' }] },
+        { role: 'user', content: 'go on' },
+      ],
+    });
+
+    expect(content).toEqual([
+      { type: 'thinking', thinking: 'Let me check', signature: 'sig-1' },
+      { type: 'tool_use', id: 'tu1', name: 'read_file', input: { path: 'a' } },
+    ]);
+    expect(onThinking).toHaveBeenCalledWith('Let me check');
+
+    const request = create.mock.calls[0][0];
+    // Budget is raised to the API minimum and added on top of max_tokens
+    expect(request.thinking).toEqual({ type: 'enabled', budget_tokens: 1024 });
+    expect(request.max_tokens).toBe(100 + 1024);
+    // Unsigned reasoning from other providers is not replayed to Anthropic
+    expect(request.messages[1].content.map((b: any) => b.type)).toEqual(['text']);
+  });
+
+  it('OpenAIProvider turns reasoning_content into a thinking block and replays it', async () => {
+    const provider = new OpenAIProvider('key', 'https://api.deepseek.com/v1');
+    const create = provider['client'].chat.completions.create as any;
+    create.mockResolvedValueOnce(mockStream([
+      { choices: [{ delta: { reasoning_content: 'Thinking ' } }] },
+      { choices: [{ delta: { reasoning_content: 'hard' } }] },
+      { choices: [{ delta: { content: 'Answer' } }] },
+    ]));
+
+    const onThinking = vi.fn();
+    const content = await provider.streamChat({ ...baseParams, onThinking });
+
+    expect(content).toEqual([
+      { type: 'thinking', thinking: 'Thinking hard', signature: '' },
+      { type: 'text', text: 'Answer', citations: null },
+    ]);
+    expect(onThinking).toHaveBeenCalled();
+
+    const converted = await provider['convertToOpenAIMessages']([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: content as any },
+    ], 'system');
+    expect(converted[2]).toEqual({ role: 'assistant', content: 'Answer', reasoning_content: 'Thinking hard' });
+  });
+
+  it('OpenAI-compatible providers only send the thinking switch to hosts that accept it', async () => {
+    const requestFor = async (provider: OpenAIProvider, model = 'test-model') => {
+      const create = provider['client'].chat.completions.create as any;
+      create.mockResolvedValueOnce(mockStream([{ choices: [{ delta: { content: 'ok' } }] }]));
+      await provider.streamChat({ ...baseParams, model, thinkingBudget: 8000 });
+      return create.mock.calls[create.mock.calls.length - 1][0];
+    };
+
+    const glm = await requestFor(new OpenAIProvider('key', 'https://open.bigmodel.cn/api/paas/v4'));
+    expect(glm.thinking).toEqual({ type: 'enabled', budget_tokens: 8000 });
+
+    const minimax = await requestFor(new MiniMaxProvider('key', 'https://proxy.example.com/v1'));
+    expect(minimax.thinking).toEqual({ type: 'enabled', budget_tokens: 8000 });
+
+    const gpt4o = await requestFor(new OpenAIProvider('key', 'https://api.openai.com/v1'), 'gpt-4o');
+    expect(gpt4o).not.toHaveProperty('thinking');
+    expect(gpt4o).not.toHaveProperty('reasoning_effort');
+
+    const o3 = await requestFor(new OpenAIProvider('key', 'https://api.openai.com/v1'), 'o3-mini');
+    expect(o3).not.toHaveProperty('thinking');
+    expect(o3.reasoning_effort).toBe('medium');
+
+    const deepseek = await requestFor(new OpenAIProvider('key', 'https://api.deepseek.com/v1'));
+    expect(deepseek).not.toHaveProperty('thinking');
+  });
+});
@@ -2,10 +2,11 @@ import Anthropic from '@anthropic-ai/sdk';
 import type { StreamChatParams } from './BaseLLMProvider';
 import { AnthropicProvider } from './AnthropicProvider';
 import { MiniMaxProvider } from './MiniMaxProvider';
+import { OllamaProvider } from './OllamaProvider';
 import { OpenAIProvider } from './OpenAIProvider';
 import type { BaseLLMProvider } from './BaseLLMProvider';
 
-export type ProviderId = 'anthropic' | 'openai' | 'minimax';
+export type ProviderId = 'anthropic' | 'openai' | 'minimax' | 'ollama';
 
 export type ProviderRuntimeConfig = {
     apiKey: string;
@@ -16,6 +17,7 @@ export function createProvider(provider: ProviderId, config: ProviderRuntimeConf
     const apiUrl = String(config.apiUrl || '').trim().replace(/\/+$/, '');
     if (provider === 'openai') return new OpenAIProvider(config.apiKey, apiUrl);
     if (provider === 'minimax') return new MiniMaxProvider(config.apiKey, apiUrl);
+    if (provider === 'ollama') return new OllamaProvider(config.apiKey, apiUrl);
     return new AnthropicProvider(config.apiKey, apiUrl);
 }
 
@@ -0,0 +1,184 @@
+/**
+ * AuditLog
+ *
+ * Persistent security audit trail in TaskDatabase: permission prompts and the
+ * user's answers, rule decisions, blocked commands, folder authorizations and
+ * MCP tool calls. Records carry the session, the tool, a hash of the arguments
+ * (not the arguments themselves) and the outcome, so a reviewer can see what
+ * the agent did on this machine without the log holding file contents.
+ */
+
+import crypto from 'crypto';
+import type { AuditLogFilter, AuditRecord, AuditRecordInsert, TaskDatabase } from '../../config/TaskDatabase';
+
+export type AuditEventType =
+    | 'permission_prompt'
+    | 'permission_decision'
+    | 'rule_decision'
+    | 'rule_saved'
+    | 'confirmation_rejected'
+    | 'command_blocked'
+    | 'path_authorization'
+    | 'mcp_tool_call';
+
+export const AUDIT_EVENT_TYPES: AuditEventType[] = [
+    'permission_prompt',
+    'permission_decision',
+    'rule_decision',
+    'rule_saved',
+    'confirmation_rejected',
+    'command_blocked',
+    'path_authorization',
+    'mcp_tool_call'
+];
+
+export interface AuditEntry {
+    type: AuditEventType;
+    outcome: string;
+    tool?: string;
+    // Hashed, never stored
+    args?: unknown;
+    // What the call touched: path, command or target (kept short)
+    subject?: string;
+    detail?: string;
+    ruleId?: string;
+    // Defaults to the current session
+    sessionId?: string | null;
+}
+
+export type AuditDatabase = Pick<TaskDatabase, 'insertAuditRecord' | 'queryAuditLog'>;
+
+const MAX_SUBJECT_LENGTH = 500;
+const MAX_DETAIL_LENGTH = 1000;
+// Records kept in memory until the database is attached at startup
+const MAX_PENDING = 200;
+
+const CSV_COLUMNS: (keyof AuditRecord)[] = ['id', 'ts', 'sessionId', 'type', 'tool', 'argsHash', 'outcome', 'ruleId', 'subject', 'detail'];
+
+function stableStringify(value: unknown): string {
+    if (value === undefined) return 'null';
+    if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    const entries = Object.keys(value as Record<string, unknown>)
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+}
+
+function truncate(text: string | undefined, max: number): string | undefined {
+    if (text === undefined) return undefined;
+    return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/**
+ * SHA-256 of the arguments; key order does not change the hash
+ */
+export function hashArgs(args: unknown): string {
+    return crypto.createHash('sha256').update(stableStringify(args)).digest('hex');
+}
+
+function csvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    // Spreadsheets evaluate a leading = + - @ as a formula; subjects are often model-written commands
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditRecordsToCsv(records: AuditRecord[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const record of records) {
+        lines.push(CSV_COLUMNS.map(column => column === 'ts'
+            ? csvCell(new Date(record.ts).toISOString())
+            : csvCell(record[column])).join(','));
+    }
+    return `${lines.join('\r\n')}\r\n`;
+}
+
+export function auditRecordsToJson(records: AuditRecord[], filter: AuditLogFilter = {}): string {
+    return JSON.stringify({ version: 1, exportedAt: Date.now(), filter, records }, null, 2);
+}
+
+export class AuditLog {
+    private db: AuditDatabase | null = null;
+    private pending: AuditRecordInsert[] = [];
+    private sessionResolver: () => string | null = () => null;
+
+    /**
+     * Attach the database; records made before this are written now
+     */
+    setDatabase(db: AuditDatabase | null): void {
+        this.db = db;
+        if (!db) return;
+        const queued = this.pending;
+        this.pending = [];
+        for (const record of queued) this.write(record);
+    }
+
+    /**
+     * Where records without an explicit session get their session id from
+     */
+    setSessionResolver(resolver: () => string | null): void {
+        this.sessionResolver = resolver;
+    }
+
+    record(entry: AuditEntry): void {
+        let sessionId = entry.sessionId;
+        if (sessionId === undefined) {
+            try {
+                sessionId = this.sessionResolver();
+            } catch {
+                sessionId = null;
+            }
+        }
+
+        const record: AuditRecordInsert = {
+            ts: Date.now(),
+            sessionId,
+            type: entry.type,
+            tool: entry.tool ?? null,
+            argsHash: entry.args === undefined ? null : hashArgs(entry.args),
+            outcome: entry.outcome,
+            ruleId: entry.ruleId ?? null,
+            subject: truncate(entry.subject, MAX_SUBJECT_LENGTH) ?? null,
+            detail: truncate(entry.detail, MAX_DETAIL_LENGTH) ?? null
+        };
+
+        if (!this.db) {
+            this.pending.push(record);
+            if (this.pending.length > MAX_PENDING) this.pending.shift();
+            return;
+        }
+        this.write(record);
+    }
+
+    /**
+     * Record the folders added to and removed from the authorized list
+     */
+    recordFolderChanges(previous: string[], next: string[], detail: string): void {
+        for (const folder of next.filter(f => !previous.includes(f))) {
+            this.record({ type: 'path_authorization', outcome: 'authorized', subject: folder, detail });
+        }
+        for (const folder of previous.filter(f => !next.includes(f))) {
+            this.record({ type: 'path_authorization', outcome: 'revoked', subject: folder, detail });
+        }
+    }
+
+    query(filter: AuditLogFilter = {}): { records: AuditRecord[]; total: number } {
+        if (!this.db) {
+            throw new Error('Task database not initialized');
+        }
+        return this.db.queryAuditLog(filter);
+    }
+
+    private write(record: AuditRecordInsert): void {
+        try {
+            this.db?.insertAuditRecord(record);
+        } catch (error) {
+            // Auditing must never break the action being audited
+            console.error('[AuditLog] Failed to write audit record:', error, JSON.stringify(record));
+        }
+    }
+}
+
+export const auditLog = new AuditLog();
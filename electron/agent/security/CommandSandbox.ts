@@ -0,0 +1,239 @@
+/**
+ * Command Sandbox
+ *
+ * OS-level isolation for commands the agent runs (run_command, start_process and
+ * the skill scripts started through them). On Linux the command runs inside new
+ * namespaces, using bubblewrap when installed and `unshare` otherwise:
+ *
+ * - the whole filesystem is mounted read-only
+ * - authorized folders are bind-mounted read-write
+ * - /tmp is a private tmpfs
+ * - the network namespace is empty when network access is off
+ *
+ * With unshare the command sees itself as root inside the user namespace; files
+ * it creates are still owned by the real user. After the mounts are set up,
+ * setpriv drops every capability, so the command cannot remount them writable.
+ *
+ * The regex checks in FileSystemToolExecutors still run first; the sandbox is
+ * what holds when they are bypassed (e.g. `python -c ...`).
+ */
+
+import { spawnSync } from 'child_process';
+import type { CommandSandboxConfig, SandboxBackend } from '../../config/ConfigStore';
+import type { CommandLauncher } from '../process/types';
+
+export type ResolvedSandboxBackend = Exclude<SandboxBackend, 'auto'>;
+
+/**
+ * What a sandboxed command may touch
+ */
+export interface SandboxPolicy {
+    backend: ResolvedSandboxBackend;
+    writablePaths: string[];
+    networkAccess: boolean;
+}
+
+export interface SandboxBackendStatus {
+    backend: ResolvedSandboxBackend;
+    available: boolean;
+    version?: string;
+    reason?: string;
+}
+
+export interface SandboxStatus {
+    enabled: boolean;
+    configuredBackend: SandboxBackend;
+    fallbackToHost: boolean;
+    // Backend commands will use, null when none is usable
+    activeBackend: ResolvedSandboxBackend | null;
+    backends: SandboxBackendStatus[];
+    // Why commands cannot be sandboxed, when activeBackend is null
+    reason?: string;
+}
+
+export type SandboxResolution =
+    | { ok: true; policy: SandboxPolicy | null; notice?: string }
+    | { ok: false; error: string };
+
+const PROBE_TIMEOUT_MS = 5000;
+
+// Probe results only change when packages or kernel settings change
+const probeCache = new Map<ResolvedSandboxBackend, SandboxBackendStatus>();
+
+/**
+ * Check whether a backend is installed and can actually create namespaces
+ * (unprivileged user namespaces may be disabled by the kernel or a container)
+ */
+export function probeSandboxBackend(backend: ResolvedSandboxBackend, refresh = false): SandboxBackendStatus {
+    const cached = probeCache.get(backend);
+    if (cached && !refresh) return cached;
+
+    let status: SandboxBackendStatus;
+    if (process.platform !== 'linux') {
+        status = { backend, available: false, reason: `Sandboxing is only supported on Linux (current platform: ${process.platform})` };
+    } else {
+        const binary = backend === 'bubblewrap' ? 'bwrap' : 'unshare';
+        const version = spawnSync(binary, ['--version'], { encoding: 'utf-8', timeout: PROBE_TIMEOUT_MS });
+        if (version.error) {
+            const missing = (version.error as NodeJS.ErrnoException).code === 'ENOENT';
+            status = {
+                backend,
+                available: false,
+                reason: missing
+                    ? `${binary} is not installed${backend === 'bubblewrap' ? ' (install the "bubblewrap" package)' : ' (part of util-linux)'}`
+                    : `${binary} could not be started: ${version.error.message}`
+            };
+        } else if (backend === 'unshare' && spawnSync('setpriv', ['--version'], { timeout: PROBE_TIMEOUT_MS }).error) {
+            status = {
+                backend,
+                available: false,
+                reason: 'setpriv is not installed (part of util-linux); without it the unshare sandbox cannot drop capabilities'
+            };
+        } else {
+            const probeArgs = backend === 'bubblewrap'
+                ? ['--ro-bind', '/', '/', '--dev', '/dev', '--unshare-net', '--', 'true']
+                : ['--user', '--map-root-user', '--mount', '--net', '--', 'true'];
+            const probe = spawnSync(binary, probeArgs, { encoding: 'utf-8', timeout: PROBE_TIMEOUT_MS });
+            const versionText = `${version.stdout || version.stderr}`.trim().split('\n')[0];
+            status = probe.status === 0
+                ? { backend, available: true, version: versionText }
+                : {
+                    backend,
+                    available: false,
+                    version: versionText,
+                    reason: `${binary} cannot create namespaces: ${(probe.stderr || probe.error?.message || `exit code ${probe.status}`).trim()} (unprivileged user namespaces may be disabled)`
+                };
+        }
+    }
+
+    probeCache.set(backend, status);
+    return status;
+}
+
+/**
+ * Sandbox availability for the current configuration
+ */
+export function getSandboxStatus(config: CommandSandboxConfig, refresh = false): SandboxStatus {
+    const candidates: ResolvedSandboxBackend[] = config.backend === 'auto' ? ['bubblewrap', 'unshare'] : [config.backend];
+    const backends = candidates.map(backend => probeSandboxBackend(backend, refresh));
+    const active = backends.find(b => b.available) ?? null;
+
+    return {
+        enabled: config.enabled,
+        configuredBackend: config.backend,
+        fallbackToHost: config.fallbackToHost,
+        activeBackend: active?.backend ?? null,
+        backends,
+        ...(active ? {} : { reason: backends.map(b => b.reason).filter(Boolean).join('; ') })
+    };
+}
+
+/**
+ * Decide how a command runs under the current configuration: sandboxed,
+ * unsandboxed (sandbox off, or unavailable with fallback allowed) or not at all
+ */
+export function resolveSandbox(config: CommandSandboxConfig, writablePaths: string[], networkAccess: boolean): SandboxResolution {
+    if (!config.enabled) {
+        return { ok: true, policy: null };
+    }
+
+    const status = getSandboxStatus(config);
+    if (!status.activeBackend) {
+        if (config.fallbackToHost) {
+            return { ok: true, policy: null, notice: `[Sandbox unavailable, command ran without isolation: ${status.reason}]` };
+        }
+        return {
+            ok: false,
+            error: `Error: 命令沙箱已启用但不可用，已拒绝执行。${status.reason}。请安装 bubblewrap，或在设置中关闭沙箱/允许无沙箱运行。`
+        };
+    }
+
+    return { ok: true, policy: { backend: status.activeBackend, writablePaths, networkAccess } };
+}
+
+/**
+ * Mount setup for the unshare backend.
+ * Arguments: <count> <writable paths...> <cwd> <command...>
+ */
+const UNSHARE_SETUP_SCRIPT = `
+n=$1; shift
+writable=()
+for ((i = 0; i < n; i++)); do writable+=("$1"); shift; done
+cwd=$1; shift
+while IFS=' ' read -r opts m; do
+    m=$(printf '%b' "$m")
+    case "$m" in /proc|/proc/*|/dev|/dev/*) continue ;; esac
+    # A mount that cannot be remounted is only acceptable if it is read-only already
+    mount -o remount,bind,ro "$m" 2>/dev/null || case ",$opts," in
+        *,ro,*) ;;
+        *) echo "sandbox: cannot make $m read-only" >&2; exit 126 ;;
+    esac
+done < <(awk '{print $6, $5}' /proc/self/mountinfo)
+private_tmp=1
+for p in "\${writable[@]}"; do case "$p/" in /tmp/*) private_tmp=0 ;; esac; done
+[ "$private_tmp" = 1 ] && mount -t tmpfs -o mode=1777 tmpfs /tmp
+for p in "\${writable[@]}"; do
+    mount --bind "$p" "$p" && mount -o remount,bind,rw "$p" || { echo "sandbox: cannot make $p writable" >&2; exit 126; }
+done
+cd "$cwd" || exit 126
+# Root in the user namespace could undo the read-only remounts; run without capabilities
+exec setpriv --inh-caps=-all --bounding-set=-all --no-new-privs -- "$@"
+`;
+
+/**
+ * Wrap a command (executable plus arguments) so it runs inside the sandbox
+ */
+export function wrapCommandForSandbox(policy: SandboxPolicy, cwd: string, file: string, args: string[]): { file: string; args: string[] } {
+    if (policy.backend === 'bubblewrap') {
+        return {
+            file: 'bwrap',
+            args: [
+                '--ro-bind', '/', '/',
+                '--dev', '/dev',
+                '--proc', '/proc',
+                '--tmpfs', '/tmp',
+                // After the tmpfs, so authorized folders below /tmp stay visible
+                ...policy.writablePaths.flatMap(p => ['--bind', p, p]),
+                '--unshare-pid',
+                '--unshare-ipc',
+                '--unshare-uts',
+                ...(policy.networkAccess ? [] : ['--unshare-net']),
+                '--die-with-parent',
+                '--new-session',
+                '--chdir', cwd,
+                '--',
+                file,
+                ...args
+            ]
+        };
+    }
+
+    // unshare has no bind options, so a setup script builds the mounts inside the
+    // new mount namespace before exec'ing the command. Paths travel as arguments.
+    return {
+        file: 'unshare',
+        args: [
+            '--user', '--map-root-user',
+            '--mount', '--pid', '--fork', '--kill-child', '--mount-proc',
+            '--ipc', '--uts',
+            ...(policy.networkAccess ? [] : ['--net']),
+            '--',
+            '/bin/bash', '-c', UNSHARE_SETUP_SCRIPT, 'bingowork-sandbox',
+            String(policy.writablePaths.length), ...policy.writablePaths,
+            cwd,
+            file,
+            ...args
+        ]
+    };
+}
+
+/**
+ * Launcher that runs commands inside the sandbox described by the policy
+ */
+export function createSandboxLauncher(policy: SandboxPolicy): CommandLauncher {
+    return {
+        label: `${policy.backend} sandbox`,
+        shell: '/bin/bash',
+        wrap: (cwd, file, args) => wrapCommandForSandbox(policy, cwd, file, args)
+    };
+}
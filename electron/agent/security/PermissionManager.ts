@@ -1,7 +1,7 @@
 import path from 'path';
 import fs from 'fs';
 import { configStore } from '../../config/ConfigStore';
-import type { TaskDatabase } from '../../config/TaskDatabase';
+import { auditLog } from './AuditLog';
 
 /**
  * SECURITY: Sensitive system directories that should never be authorized
@@ -56,23 +56,26 @@ interface AuthorizationAuditLogEntry {
   details?: Record<string, unknown>;
 }
 
-const auditLog: AuthorizationAuditLogEntry[] = [];
+const recentAuthorizationChanges: AuthorizationAuditLogEntry[] = [];
 
 /**
  * Log authorization change for audit purposes
  */
 function logAuthorizationChange(entry: AuthorizationAuditLogEntry): void {
-  auditLog.push(entry);
+  recentAuthorizationChanges.push(entry);
 
   // Keep only last 200 entries
-  if (auditLog.length > 200) {
-    auditLog.shift();
+  if (recentAuthorizationChanges.length > 200) {
+    recentAuthorizationChanges.shift();
   }
 
-  // Log to persistent storage if available
-  if (permissionManager) {
-    permissionManager.logToDatabase(entry);
-  }
+  // Persistent security audit trail
+  auditLog.record({
+    type: 'path_authorization',
+    outcome: entry.action === 'authorize' ? 'authorized' : entry.action,
+    subject: entry.path,
+    detail: entry.reason
+  });
 
   // Log security-relevant events
   if (entry.action === 'blocked') {
@@ -139,36 +142,10 @@ function isSensitiveSystemDirectory(normalizedPath: string): { isSensitive: bool
 
 export class PermissionManager {
 
-  private taskDb: TaskDatabase | null = null;
-
   constructor() {
     // No initialization needed
   }
 
-  /**
-   * Inject TaskDatabase for audit logging
-   */
-  setTaskDatabase(db: TaskDatabase | null) {
-    this.taskDb = db;
-  }
-
-  /**
-   * Log entry to persistent database
-   */
-  logToDatabase(entry: AuthorizationAuditLogEntry) {
-    if (this.taskDb) {
-      try {
-        this.taskDb.logEvent({
-          type: 'security_audit',
-          payload: entry,
-          ts: entry.timestamp
-        });
-      } catch (error) {
-        console.error('[PermissionManager] Failed to log to database:', error);
-      }
-    }
-  }
-
   /**
    * SECURITY: Enhanced folder authorization with comprehensive security checks
    */
@@ -389,17 +366,17 @@ export class PermissionManager {
   }
 
   /**
-   * SECURITY: Get audit log entries (for debugging/admin purposes)
+   * SECURITY: Recent authorization changes of this run (the full history is in the audit log)
    */
   getAuditLog(): AuthorizationAuditLogEntry[] {
-    return [...auditLog];
+    return [...recentAuthorizationChanges];
   }
 
   /**
    * SECURITY: Clear audit log
    */
   clearAuditLog(): void {
-    auditLog.length = 0;
+    recentAuthorizationChanges.length = 0;
   }
 }
 
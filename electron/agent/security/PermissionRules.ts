@@ -0,0 +1,344 @@
+/**
+ * PermissionRules
+ *
+ * Policy-as-code for tool calls: an ordered list of allow / deny / ask rules.
+ * A rule matches on the tool name (glob, so `github__*` covers an MCP server),
+ * and optionally on the path the call touches, the shell command and the
+ * network / browser target. Rules apply globally, inside one authorized
+ * folder or to one session. The first matching rule decides; no match falls
+ * back to each tool's own confirmation behaviour.
+ */
+
+import os from 'os';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import { globToRegExp } from '../tools/SearchTools';
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+export type PermissionRuleScope = 'global' | 'folder' | 'session';
+export type PermissionRuleSource = 'manual' | 'remember' | 'import' | 'legacy';
+
+export interface PermissionRule {
+    id: string;
+    decision: PermissionDecision;
+    // Tool name or glob: run_command, browser_*, github__create_issue, github__*, *
+    tool: string;
+    // Path globs (absolute, ~ allowed); a plain path also covers everything below it
+    paths?: string[];
+    // Command patterns; `*` is a wildcard, so `git status*` is a prefix match
+    commands?: string[];
+    // Network / browser targets: host globs (*.example.com) or URL globs (https://example.com/*)
+    targets?: string[];
+    scope: PermissionRuleScope;
+    // Authorized folder for folder rules, session id for session rules
+    scopeValue?: string;
+    note?: string;
+    // Tool, paths, commands and targets are plain text without wildcards or globs
+    // (rules remembered from a confirmation prompt hold whatever was approved)
+    literal?: boolean;
+    source: PermissionRuleSource;
+    createdAt: number;
+}
+
+/**
+ * What a tool call touches, as seen by the rules
+ */
+export interface PermissionRequest {
+    tool: string;
+    path?: string;
+    command?: string;
+    target?: string;
+    sessionId?: string;
+}
+
+export interface PermissionEvaluation {
+    // null when no rule matched
+    decision: PermissionDecision | null;
+    rule?: PermissionRule;
+}
+
+export interface PermissionRulesExport {
+    version: 1;
+    exportedAt: number;
+    rules: PermissionRule[];
+}
+
+const DECISIONS: PermissionDecision[] = ['allow', 'deny', 'ask'];
+const SCOPES: PermissionRuleScope[] = ['global', 'folder', 'session'];
+const SOURCES: PermissionRuleSource[] = ['manual', 'remember', 'import', 'legacy'];
+const GLOB_CHARS = /[*?[\]{}]/;
+// Command substitution can run anything, whatever the visible command is
+const COMMAND_SUBSTITUTION = /\$\(|`/;
+// File redirections and process substitution, checked outside quotes
+const REDIRECTION = /[<>]/;
+// Duplicating or closing a descriptor (2>&1, >&-) writes to no file
+const FD_DUPLICATION = /\d*[<>]&(?:\d+|-)(?=\s|$)/g;
+const QUOTED = /'[^']*'|"(?:[^"\\]|\\.)*"/g;
+// In allow patterns `*` stays within one simple command
+const COMMAND_WILDCARD = '[^;&|<>\\n]*';
+
+function expandHome(p: string): string {
+    if (p === '~') return os.homedir();
+    if (p.startsWith('~/') || p.startsWith('~\\')) return path.join(os.homedir(), p.slice(2));
+    return p;
+}
+
+function toSlashes(p: string): string {
+    return p.replace(/\\/g, '/').replace(/\/+$/, '') || '/';
+}
+
+function wildcardToRegExp(pattern: string, flags = '', wildcard = '.*'): RegExp {
+    const body = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join(wildcard);
+    return new RegExp(`^${body}$`, flags);
+}
+
+function isWithin(child: string, parent: string): boolean {
+    return child === parent || child.startsWith(parent === '/' ? '/' : `${parent}/`);
+}
+
+/**
+ * Whether a tool name matches a rule's tool pattern
+ */
+export function matchesToolPattern(tool: string, pattern: string, literal = false): boolean {
+    return !literal && pattern.includes('*') ? wildcardToRegExp(pattern).test(tool) : pattern === tool;
+}
+
+/**
+ * Whether an absolute path matches a path pattern
+ */
+export function matchesPathPattern(filePath: string, pattern: string, literal = false): boolean {
+    const target = toSlashes(path.resolve(expandHome(filePath)));
+    const normalized = toSlashes(expandHome(pattern.trim()));
+    if (literal || !GLOB_CHARS.test(normalized)) {
+        return isWithin(target, toSlashes(path.resolve(normalized)));
+    }
+    return globToRegExp(normalized).test(target);
+}
+
+function normalizeCommand(command: string): string {
+    return command.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Simple commands of a shell command line (split on ;, &&, ||, |, a background
+ * & and newlines; the & of >&, <& and &> stays with its redirection)
+ */
+export function splitCommandSegments(command: string): string[] {
+    return command.split(/&&|\|\||(?<![<>])&(?!>)|[;|\n]/).map(normalizeCommand).filter(Boolean);
+}
+
+/**
+ * Segment as an allow rule sees it: descriptor duplications dropped, or null
+ * when it still redirects to a file or substitutes a process
+ */
+function allowableSegment(segment: string): string | null {
+    const stripped = normalizeCommand(segment.replace(FD_DUPLICATION, ''));
+    return REDIRECTION.test(stripped.replace(QUOTED, '')) ? null : stripped;
+}
+
+function matchesCommandPattern(command: string, pattern: string, strict = false, literal = false): boolean {
+    const normalized = normalizeCommand(pattern);
+    if (literal || !normalized.includes('*')) return normalized === command;
+    return wildcardToRegExp(normalized, '', strict ? COMMAND_WILDCARD : '.*').test(command);
+}
+
+/**
+ * Command condition of a rule. Allow rules must cover every simple command of
+ * the line (so `git status*` does not allow `git status && rm -rf ~`), never
+ * match command substitution, redirections or process substitution, and their
+ * `*` does not reach across shell operators; deny and ask rules match if any
+ * part does.
+ */
+function matchesCommand(command: string, patterns: string[], decision: PermissionDecision, literal = false): boolean {
+    const whole = normalizeCommand(command);
+    const segments = splitCommandSegments(command);
+    if (decision === 'allow') {
+        return !COMMAND_SUBSTITUTION.test(whole)
+            && segments.length > 0
+            && segments.every(segment => {
+                const allowable = allowableSegment(segment);
+                if (allowable === null) return false;
+                // Literal patterns were remembered as the segment was written, 2>&1 included
+                return patterns.some(p => literal ? matchesCommandPattern(segment, p, true, true) : matchesCommandPattern(allowable, p, true));
+            });
+    }
+    const matchesAny = (text: string) => patterns.some(p => matchesCommandPattern(text, p, false, literal));
+    return matchesAny(whole) || segments.some(matchesAny);
+}
+
+/**
+ * Whether a URL or host matches a target pattern
+ */
+export function matchesTargetPattern(target: string, pattern: string, literal = false): boolean {
+    const trimmed = pattern.trim();
+    if (literal) return target === trimmed;
+    if (trimmed.includes('://')) {
+        return wildcardToRegExp(trimmed, 'i').test(target);
+    }
+    let host = target;
+    try {
+        host = new URL(target).hostname;
+    } catch {
+        host = target.split('/')[0].split(':')[0];
+    }
+    return wildcardToRegExp(trimmed.toLowerCase()).test(host.toLowerCase());
+}
+
+/**
+ * Whether a rule applies to a request
+ */
+export function ruleMatches(rule: PermissionRule, request: PermissionRequest): boolean {
+    const literal = rule.literal === true;
+    if (!matchesToolPattern(request.tool, rule.tool, literal)) return false;
+
+    if (rule.scope === 'session' && (!request.sessionId || request.sessionId !== rule.scopeValue)) return false;
+    if (rule.scope === 'folder' && (!request.path || !rule.scopeValue || !matchesPathPattern(request.path, rule.scopeValue, literal))) return false;
+
+    if (rule.paths?.length && (!request.path || !rule.paths.some(p => matchesPathPattern(request.path!, p, literal)))) return false;
+    if (rule.commands?.length && (!request.command || !matchesCommand(request.command, rule.commands, rule.decision, literal))) return false;
+    if (rule.targets?.length && (!request.target || !rule.targets.some(t => matchesTargetPattern(request.target!, t, literal)))) return false;
+    return true;
+}
+
+/**
+ * First matching rule decides
+ */
+export function evaluatePermissionRules(rules: PermissionRule[], request: PermissionRequest): PermissionEvaluation {
+    const rule = rules.find(r => ruleMatches(r, request));
+    return rule ? { decision: rule.decision, rule } : { decision: null };
+}
+
+/**
+ * Describe a tool call for the rules; relative paths resolve against baseDir
+ */
+export function permissionRequestFromArgs(
+    tool: string,
+    args: Record<string, unknown> | undefined,
+    options: { baseDir?: string; sessionId?: string } = {}
+): PermissionRequest {
+    const request: PermissionRequest = { tool, sessionId: options.sessionId };
+    const rawPath = args?.path ?? args?.cwd;
+    if (typeof rawPath === 'string' && rawPath.trim()) {
+        const expanded = expandHome(rawPath.trim());
+        request.path = path.isAbsolute(expanded) || !options.baseDir ? path.resolve(expanded) : path.resolve(options.baseDir, expanded);
+    } else if (options.baseDir && typeof args?.command === 'string') {
+        // Commands without a cwd run in the first authorized folder
+        request.path = options.baseDir;
+    }
+    if (typeof args?.command === 'string') request.command = args.command;
+    if (typeof args?.url === 'string') request.target = args.url;
+    return request;
+}
+
+/**
+ * One-line summary of what a request touches (for logs)
+ */
+export function describePermissionRequest(request: PermissionRequest): string | undefined {
+    return request.command ?? request.target ?? request.path;
+}
+
+/**
+ * Rule created by "remember this choice" in the confirmation dialog: the same
+ * tool with the same command, path or target, in the chosen scope. It is literal,
+ * so a `*` in the approved command or path matches only itself.
+ */
+export function createRememberedRule(
+    request: PermissionRequest,
+    scope: PermissionRuleScope,
+    scopeValue?: string
+): PermissionRule {
+    const rule: PermissionRule = {
+        id: nanoid(10),
+        decision: 'allow',
+        tool: request.tool,
+        scope,
+        scopeValue: scope === 'global' ? undefined : scopeValue,
+        literal: true,
+        source: 'remember',
+        createdAt: Date.now()
+    };
+    if (request.command) {
+        rule.commands = splitCommandSegments(request.command);
+    } else if (request.path) {
+        rule.paths = [request.path];
+    }
+    if (request.target) {
+        rule.targets = [request.target];
+    }
+    return rule;
+}
+
+function stringList(value: unknown, field: string): string[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+        throw new Error(`${field} must be an array of strings`);
+    }
+    const list = value.map(v => v.trim()).filter(Boolean);
+    return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Validate a rule from the settings page or an import file
+ */
+export function normalizePermissionRule(input: unknown, source: PermissionRuleSource = 'manual'): PermissionRule {
+    if (!input || typeof input !== 'object') throw new Error('Rule must be an object');
+    const raw = input as Record<string, unknown>;
+
+    const decision = raw.decision as PermissionDecision;
+    if (!DECISIONS.includes(decision)) throw new Error(`Invalid decision: ${String(raw.decision)}`);
+    const tool = typeof raw.tool === 'string' ? raw.tool.trim() : '';
+    if (!tool) throw new Error('Rule needs a tool name or pattern');
+    const scope = (raw.scope ?? 'global') as PermissionRuleScope;
+    if (!SCOPES.includes(scope)) throw new Error(`Invalid scope: ${String(raw.scope)}`);
+    const scopeValue = typeof raw.scopeValue === 'string' ? raw.scopeValue.trim() : '';
+    if (scope !== 'global' && !scopeValue) {
+        throw new Error(scope === 'folder' ? 'Folder rules need a folder' : 'Session rules need a session id');
+    }
+
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : nanoid(10),
+        decision,
+        tool,
+        paths: stringList(raw.paths, 'paths'),
+        commands: stringList(raw.commands, 'commands'),
+        targets: stringList(raw.targets, 'targets'),
+        scope,
+        scopeValue: scope === 'global' ? undefined : scopeValue,
+        note: typeof raw.note === 'string' && raw.note.trim() ? raw.note.trim() : undefined,
+        literal: raw.literal === true ? true : undefined,
+        source: SOURCES.includes(raw.source as PermissionRuleSource) ? raw.source as PermissionRuleSource : source,
+        createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now()
+    };
+}
+
+export function exportPermissionRules(rules: PermissionRule[]): string {
+    const data: PermissionRulesExport = { version: 1, exportedAt: Date.now(), rules };
+    return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Parse an export file (or a bare rule array); ids that clash with existing
+ * rules are replaced
+ */
+export function importPermissionRules(json: string, existingIds: Iterable<string> = []): PermissionRule[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+    const list = Array.isArray(data) ? data : (data as { rules?: unknown })?.rules;
+    if (!Array.isArray(list)) throw new Error('Expected an array of rules or { "rules": [...] }');
+
+    const taken = new Set(existingIds);
+    return list.map((item, index) => {
+        try {
+            const rule = normalizePermissionRule(item, 'import');
+            if (taken.has(rule.id)) rule.id = nanoid(10);
+            taken.add(rule.id);
+            return rule;
+        } catch (error) {
+            throw new Error(`Rule ${index + 1}: ${(error as Error).message}`);
+        }
+    });
+}
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the security audit log
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { AuditLog, auditRecordsToCsv, hashArgs } from '../AuditLog';
+import type { AuditRecord, AuditRecordInsert } from '../../../config/TaskDatabase';
+
+function createFakeDatabase() {
+  const inserted: AuditRecordInsert[] = [];
+  return {
+    inserted,
+    insertAuditRecord: vi.fn((record: AuditRecordInsert) => { inserted.push(record); }),
+    queryAuditLog: vi.fn(() => ({ records: [], total: 0 })),
+  };
+}
+
+describe('hashArgs', () => {
+  it('does not depend on key order', () => {
+    expect(hashArgs({ path: '/a', content: 'x' })).toBe(hashArgs({ content: 'x', path: '/a' }));
+  });
+
+  it('changes with the arguments', () => {
+    expect(hashArgs({ command: 'ls' })).not.toBe(hashArgs({ command: 'ls -la' }));
+    expect(hashArgs({ command: 'ls' })).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('AuditLog', () => {
+  it('stores a hash of the arguments and the current session', () => {
+    const log = new AuditLog();
+    const db = createFakeDatabase();
+    log.setDatabase(db);
+    log.setSessionResolver(() => 'session-1');
+
+    log.record({ type: 'permission_decision', outcome: 'approved', tool: 'write_file', args: { path: '/p', content: 'secret' }, subject: '/p' });
+
+    expect(db.inserted).toHaveLength(1);
+    expect(db.inserted[0]).toMatchObject({
+      sessionId: 'session-1',
+      type: 'permission_decision',
+      tool: 'write_file',
+      outcome: 'approved',
+      argsHash: hashArgs({ path: '/p', content: 'secret' }),
+      subject: '/p',
+    });
+    expect(JSON.stringify(db.inserted[0])).not.toContain('secret');
+  });
+
+  it('keeps an explicit session id, including null', () => {
+    const log = new AuditLog();
+    const db = createFakeDatabase();
+    log.setDatabase(db);
+    log.setSessionResolver(() => 'session-1');
+
+    log.record({ type: 'path_authorization', outcome: 'authorized', subject: '/p', sessionId: null });
+
+    expect(db.inserted[0].sessionId).toBeNull();
+  });
+
+  it('writes records made before the database is attached', () => {
+    const log = new AuditLog();
+    log.record({ type: 'command_blocked', outcome: 'blocked', tool: 'run_command', subject: 'rm -rf /' });
+
+    const db = createFakeDatabase();
+    log.setDatabase(db);
+
+    expect(db.inserted).toHaveLength(1);
+    expect(db.inserted[0].type).toBe('command_blocked');
+  });
+
+  it('never throws when the database write fails', () => {
+    const log = new AuditLog();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    log.setDatabase({
+      insertAuditRecord: () => { throw new Error('disk full'); },
+      queryAuditLog: () => ({ records: [], total: 0 }),
+    });
+
+    expect(() => log.record({ type: 'mcp_tool_call', outcome: 'success', tool: 'github__list' })).not.toThrow();
+    consoleError.mockRestore();
+  });
+
+  it('records added and removed folders', () => {
+    const log = new AuditLog();
+    const db = createFakeDatabase();
+    log.setDatabase(db);
+
+    log.recordFolderChanges(['/a', '/b'], ['/b', '/c'], 'Settings');
+
+    expect(db.inserted.map(r => [r.outcome, r.subject])).toEqual([
+      ['authorized', '/c'],
+      ['revoked', '/a'],
+    ]);
+  });
+});
+
+describe('auditRecordsToCsv', () => {
+  it('quotes cells with commas, quotes and newlines', () => {
+    const record: AuditRecord = {
+      id: 1,
+      ts: Date.UTC(2026, 0, 2, 3, 4, 5),
+      sessionId: 's1',
+      type: 'command_blocked',
+      tool: 'run_command',
+      argsHash: 'abc',
+      outcome: 'blocked',
+      ruleId: null,
+      subject: 'echo "a, b"',
+      detail: 'line1\nline2',
+    };
+
+    const lines = auditRecordsToCsv([record]).split('\r\n');
+
+    expect(lines[0]).toBe('id,ts,sessionId,type,tool,argsHash,outcome,ruleId,subject,detail');
+    expect(lines[1]).toBe('1,2026-01-02T03:04:05.000Z,s1,command_blocked,run_command,abc,blocked,,"echo ""a, b""","line1\nline2"');
+  });
+
+  it('neutralizes cells a spreadsheet would read as a formula', () => {
+    const record: AuditRecord = {
+      id: 2,
+      ts: Date.UTC(2026, 0, 2, 3, 4, 5),
+      sessionId: '@s1',
+      type: 'command_blocked',
+      tool: 'run_command',
+      argsHash: 'abc',
+      outcome: 'blocked',
+      ruleId: '-r1',
+      subject: '=HYPERLINK("http://evil.example","x")',
+      detail: '+1',
+    };
+
+    const lines = auditRecordsToCsv([record]).split('\r\n');
+
+    expect(lines[1]).toBe(`2,2026-01-02T03:04:05.000Z,'@s1,command_blocked,run_command,abc,blocked,'-r1,"'=HYPERLINK(""http://evil.example"",""x"")",'+1`);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * CommandSandbox Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { probeSandboxBackend, resolveSandbox, wrapCommandForSandbox } from '../CommandSandbox';
+
+describe('CommandSandbox', () => {
+    it('should run commands unsandboxed when the sandbox is disabled', () => {
+        expect(resolveSandbox({ enabled: false, backend: 'auto', fallbackToHost: false }, ['/work'], true))
+            .toEqual({ ok: true, policy: null });
+    });
+
+    it('should build a bubblewrap invocation with writable folders and no network', () => {
+        const launch = wrapCommandForSandbox(
+            { backend: 'bubblewrap', writablePaths: ['/work/a', '/tmp/b'], networkAccess: false },
+            '/work/a',
+            '/bin/bash',
+            ['-c', 'npm test']
+        );
+
+        expect(launch.file).toBe('bwrap');
+        const args = launch.args.join(' ');
+        expect(args).toContain('--ro-bind / /');
+        expect(args).toContain('--tmpfs /tmp --bind /work/a /work/a --bind /tmp/b /tmp/b');
+        expect(args).toContain('--unshare-net');
+        expect(args).toContain('--chdir /work/a -- /bin/bash -c npm test');
+    });
+
+    it('should keep the network namespace when network access is on', () => {
+        const launch = wrapCommandForSandbox({ backend: 'unshare', writablePaths: ['/work'], networkAccess: true }, '/work', 'ls', ['-la']);
+
+        expect(launch.file).toBe('unshare');
+        expect(launch.args).not.toContain('--net');
+        expect(launch.args.slice(-5)).toEqual(['1', '/work', '/work', 'ls', '-la']);
+    });
+});
+
+describe.skipIf(process.platform !== 'linux' || !probeSandboxBackend('unshare').available)('CommandSandbox (unshare)', () => {
+    let workspace: string;
+
+    beforeAll(() => {
+        workspace = fs.mkdtempSync(path.join(os.homedir(), '.bingowork-sandbox-test-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it('should allow writes only inside the authorized folders', () => {
+        const outside = path.join(os.homedir(), `.bingowork-sandbox-escape-${process.pid}`);
+        const launch = wrapCommandForSandbox(
+            { backend: 'unshare', writablePaths: [workspace], networkAccess: false },
+            workspace,
+            '/bin/bash',
+            ['-c', `echo inside > inside.txt; echo outside > "${outside}" 2>/dev/null || echo blocked`]
+        );
+
+        const result = spawnSync(launch.file, launch.args, { encoding: 'utf-8', timeout: 10_000 });
+
+        expect(result.stdout).toContain('blocked');
+        expect(fs.readFileSync(path.join(workspace, 'inside.txt'), 'utf-8')).toBe('inside\n');
+        expect(fs.existsSync(outside)).toBe(false);
+    });
+
+    it('should not let the command remount the filesystem writable', () => {
+        const outside = path.join(os.homedir(), `.bingowork-sandbox-remount-${process.pid}`);
+        const launch = wrapCommandForSandbox(
+            { backend: 'unshare', writablePaths: [workspace], networkAccess: false },
+            workspace,
+            '/bin/bash',
+            ['-c', `mount -o remount,bind,rw / 2>/dev/null && echo remounted || echo refused; echo escape > "${outside}" 2>/dev/null`]
+        );
+
+        const result = spawnSync(launch.file, launch.args, { encoding: 'utf-8', timeout: 10_000 });
+
+        expect(result.stdout).toContain('refused');
+        expect(fs.existsSync(outside)).toBe(false);
+        fs.rmSync(outside, { force: true });
+    });
+});
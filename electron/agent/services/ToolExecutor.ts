@@ -11,11 +11,22 @@ import Anthropic from '@anthropic-ai/sdk';
 // Type Definitions
 // ============================================================================
 
+export interface DelegateTaskRequest {
+    task: string;
+    context?: string;
+    tools?: string[];
+    maxIterations?: number;
+}
+
 export interface ToolExecutionContext {
     requestConfirmation: (tool: string, description: string, args: Record<string, unknown>) => Promise<boolean>;
     onArtifactCreated: (artifact: { path: string; name: string; type: string }) => void;
     onToolStream?: (chunk: string, type: 'stdout' | 'stderr') => void;
     signal?: AbortSignal;
+    // ID of the tool_use block being executed, when known
+    toolUseId?: string;
+    // Starts a sub-agent; supplied by AgentRuntime (sub-agents never get delegate_task in their tool set)
+    delegateTask?: (request: DelegateTaskRequest, parentCallId?: string) => Promise<string>;
 }
 
 export interface ToolInput {
@@ -15,6 +15,7 @@ import { configStore, WorkMode } from '../../config/ConfigStore';
 
 // Import executor system
 import {
+    DelegateTaskRequest,
     ToolExecutor,
     ToolExecutionContext,
     toolExecutorRegistry
@@ -23,6 +24,9 @@ import {
 // Import executor factories
 import { coreToolExecutors } from './executors/CoreToolExecutors';
 import { createFileSystemToolExecutors } from './executors/FileSystemToolExecutors';
+import { editToolExecutors } from './executors/EditToolExecutors';
+import { searchToolExecutors } from './executors/SearchToolExecutors';
+import { processToolExecutors } from './executors/ProcessToolExecutors';
 import { createBrowserToolExecutors } from './executors/BrowserToolExecutors';
 import { createSkillToolExecutors, isSkillTool } from './executors/SkillToolExecutor';
 import { createMCPToolExecutors, isMCPTool } from './executors/MCPToolExecutor';
@@ -33,11 +37,20 @@ import { memoryToolExecutors } from './executors/MemoryToolExecutors';
 // Public Interfaces
 // ============================================================================
 
+/**
+ * Outcome of the permission rules for a call: refused, or allowed (confirmed
+ * when a rule or the user already approved it, so the tool does not ask again)
+ */
+export type ToolCallAuthorization = { ok: true; confirmed: boolean } | { ok: false; error: string };
+
 export interface ToolCallbacks {
     requestConfirmation: (tool: string, description: string, args: Record<string, unknown>) => Promise<boolean>;
+    // Applies permission rules before any tool runs
+    authorizeToolCall?: (tool: string, args: Record<string, unknown>) => Promise<ToolCallAuthorization>;
     onArtifactCreated: (artifact: { path: string; name: string; type: string }) => void;
     askUser: (question: string, options?: string[]) => Promise<string>;
     onToolStream?: (chunk: string, type: 'stdout' | 'stderr') => void;
+    delegateTask?: (request: DelegateTaskRequest, parentCallId?: string) => Promise<string>;
 }
 
 // ============================================================================
@@ -48,6 +61,9 @@ export class ToolRegistry {
     // Store executor references
     private coreToolExecutors: ToolExecutor[];
     private fsToolExecutors: ToolExecutor[];
+    private editToolExecutors: ToolExecutor[];
+    private searchToolExecutors: ToolExecutor[];
+    private processToolExecutors: ToolExecutor[];
     private browserToolExecutors: ToolExecutor[];
     private scheduleToolExecutors: ToolExecutor[];
     private memoryToolExecutors: ToolExecutor[];
@@ -67,6 +83,9 @@ export class ToolRegistry {
         // Register static tool executors
         this.coreToolExecutors = coreToolExecutors;
         this.fsToolExecutors = createFileSystemToolExecutors(fsTools);
+        this.editToolExecutors = editToolExecutors;
+        this.searchToolExecutors = searchToolExecutors;
+        this.processToolExecutors = processToolExecutors;
         this.browserToolExecutors = createBrowserToolExecutors(browserTools);
         this.scheduleToolExecutors = scheduleToolExecutors;
         this.memoryToolExecutors = memoryToolExecutors;
@@ -86,6 +105,21 @@ export class ToolRegistry {
             toolExecutorRegistry.register(executor);
         }
 
+        // Register edit tools
+        for (const executor of this.editToolExecutors) {
+            toolExecutorRegistry.register(executor);
+        }
+
+        // Register search tools
+        for (const executor of this.searchToolExecutors) {
+            toolExecutorRegistry.register(executor);
+        }
+
+        // Register background process tools
+        for (const executor of this.processToolExecutors) {
+            toolExecutorRegistry.register(executor);
+        }
+
         // Register browser tools
         for (const executor of this.browserToolExecutors) {
             toolExecutorRegistry.register(executor);
@@ -107,6 +141,11 @@ export class ToolRegistry {
      * This should be called after skills and MCP clients are loaded
      */
     async loadDynamicTools(): Promise<void> {
+        // Drop the previous set so tools a server or skill no longer offers go away
+        for (const executor of [...this.skillToolExecutors, ...this.mcpToolExecutors]) {
+            toolExecutorRegistry.unregister(executor.name);
+        }
+
         // Load skill executors
         this.skillToolExecutors = createSkillToolExecutors(this.skillManager);
         for (const executor of this.skillToolExecutors) {
@@ -146,7 +185,10 @@ export class ToolRegistry {
         name: string,
         input: Record<string, unknown>,
         streamCallback?: (chunk: string, type: 'stdout' | 'stderr') => void,
-        signal?: AbortSignal
+        signal?: AbortSignal,
+        toolUseId?: string,
+        // Already decided by the caller (calls through Bingowork's own MCP server)
+        preAuthorized?: ToolCallAuthorization
     ): Promise<string> {
         const mode = this.getWorkMode();
 
@@ -166,6 +208,8 @@ export class ToolRegistry {
                 if (!configStore.getNetworkAccess()) {
                     return 'Error: 当前已关闭网络访问，MCP 工具不可用。';
                 }
+                const authorization = preAuthorized ?? await this.authorize(name, input);
+                if (!authorization.ok) return authorization.error;
                 return await this.mcpService.callTool(name, input);
             }
 
@@ -206,12 +250,17 @@ ${skillInfo.instructions}
             }
         }
 
+        const authorization = preAuthorized ?? await this.authorize(name, input);
+        if (!authorization.ok) return authorization.error;
+
         // Build execution context
         const context: ToolExecutionContext = {
-            requestConfirmation: this.callbacks.requestConfirmation,
+            requestConfirmation: authorization.confirmed ? async () => true : this.callbacks.requestConfirmation,
             onArtifactCreated: this.callbacks.onArtifactCreated,
             onToolStream: streamCallback || this.callbacks.onToolStream,
-            signal
+            signal,
+            toolUseId,
+            delegateTask: this.callbacks.delegateTask
         };
 
         // Execute the tool
@@ -223,6 +272,12 @@ ${skillInfo.instructions}
         }
     }
 
+    private async authorize(name: string, input: Record<string, unknown>): Promise<ToolCallAuthorization> {
+        return this.callbacks.authorizeToolCall
+            ? await this.callbacks.authorizeToolCall(name, input)
+            : { ok: true, confirmed: false };
+    }
+
     /**
      * Check if a tool exists
      */
@@ -230,6 +285,13 @@ ${skillInfo.instructions}
         return toolExecutorRegistry.has(name);
     }
 
+    /**
+     * Schema of a registered tool, whatever the current work mode
+     */
+    getToolSchema(name: string): Anthropic.Tool | undefined {
+        return toolExecutorRegistry.get(name)?.schema;
+    }
+
     /**
      * Get all registered tool names
      */
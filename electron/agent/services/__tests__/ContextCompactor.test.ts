@@ -0,0 +1,126 @@
+/**
+ * Unit tests for ContextCompactor
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../utils/logger', () => ({
+  logs: {
+    agent: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  },
+}));
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  ContextCompactor,
+  findCompactionSplit,
+  isSummaryMessage,
+  estimateTextTokens,
+} from '../ContextCompactor';
+import type { AgentMessage } from '../../AgentConstants';
+import type { BaseLLMProvider } from '../../providers/BaseLLMProvider';
+
+const filler = 'x'.repeat(4000); // ~1000 tokens
+
+function toolTurn(n: number): AgentMessage[] {
+  return [
+    { role: 'user', content: `request ${n} ${filler}` },
+    { role: 'assistant', content: [{ type: 'tool_use', id: `t${n}`, name: 'read_file', input: { path: `/f${n}` } }] },
+    { role: 'user', content: [{ type: 'tool_result', tool_use_id: `t${n}`, content: filler }] },
+    { role: 'assistant', content: [{ type: 'text', text: `done ${n}` }] },
+  ];
+}
+
+function providerReturning(impl: () => Promise<Anthropic.ContentBlock[]>) {
+  return { streamChat: vi.fn(impl) } as unknown as BaseLLMProvider & { streamChat: ReturnType<typeof vi.fn> };
+}
+
+describe('ContextCompactor', () => {
+  it('estimates CJK text at roughly one token per character', () => {
+    expect(estimateTextTokens('你好世界')).toBe(4);
+    expect(estimateTextTokens('abcdefgh')).toBe(2);
+  });
+
+  it('only splits before a user message without tool results', () => {
+    const history = [...toolTurn(1), ...toolTurn(2), ...toolTurn(3)];
+    for (let keep = 100; keep < 8000; keep += 300) {
+      const split = findCompactionSplit(history, keep);
+      if (split === 0) continue;
+      const first = history[split];
+      expect(first.role).toBe('user');
+      expect(typeof first.content).toBe('string');
+    }
+  });
+
+  it('returns 0 when nothing older than the kept window can be removed', () => {
+    expect(findCompactionSplit(toolTurn(1), 100)).toBe(0);
+  });
+
+  it('detects when compaction is needed', () => {
+    const compactor = new ContextCompactor();
+    const history = [...toolTurn(1), ...toolTurn(2)];
+    expect(compactor.shouldCompact(history, 0, 200000)).toBe(false);
+    expect(compactor.shouldCompact(history, 0, 6000)).toBe(true);
+  });
+
+  it('replaces older turns with an LLM summary', async () => {
+    const history = [...toolTurn(1), ...toolTurn(2), ...toolTurn(3)];
+    const provider = providerReturning(async () => [
+      { type: 'text', text: 'User asked to read three files.', citations: null },
+    ] as Anthropic.ContentBlock[]);
+
+    const result = await new ContextCompactor().compact({
+      history,
+      contextWindow: 8000,
+      provider,
+      model: 'test-model',
+    });
+
+    expect(result).not.toBeNull();
+    expect(provider.streamChat).toHaveBeenCalledTimes(1);
+    const request = provider.streamChat.mock.calls[0][0];
+    expect(request.messages[0].content).toContain('Assistant called read_file');
+
+    const compacted = result!.history;
+    expect(isSummaryMessage(compacted[0])).toBe(true);
+    expect(JSON.stringify(compacted[0].content)).toContain('User asked to read three files.');
+    expect(result!.summarized).toBe(true);
+    expect(result!.compactedCount + compacted.length - 1).toBe(history.length);
+    expect(result!.tokensAfter).toBeLessThan(result!.tokensBefore);
+  });
+
+  it('falls back to a notice when summarisation fails', async () => {
+    const history = [...toolTurn(1), ...toolTurn(2), ...toolTurn(3)];
+    const provider = providerReturning(async () => {
+      throw new Error('rate limited');
+    });
+
+    const result = await new ContextCompactor().compact({
+      history,
+      contextWindow: 8000,
+      provider,
+      model: 'test-model',
+    });
+
+    expect(result!.summarized).toBe(false);
+    expect(isSummaryMessage(result!.history[0])).toBe(true);
+  });
+
+  it('does not re-summarise a history that is only a summary plus recent turns', async () => {
+    const history: AgentMessage[] = [
+      { role: 'user', content: [{ type: 'text', text: '<conversation_summary messages="4">\nold\n</conversation_summary>' }] },
+      ...toolTurn(1),
+    ];
+    const provider = providerReturning(async () => []);
+
+    const result = await new ContextCompactor().compact({
+      history,
+      contextWindow: 4000,
+      provider,
+      model: 'test-model',
+    });
+
+    expect(result).toBeNull();
+    expect(provider.streamChat).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for the edit_file and apply_patch executors
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../../../config/ConfigStore', () => ({
+    configStore: {
+        getNetworkAccess: vi.fn(() => false),
+    }
+}));
+
+vi.mock('../../security/PermissionManager', () => ({
+    permissionManager: {
+        getAuthorizedFolders: vi.fn(() => [])
+    }
+}));
+
+import { permissionManager } from '../../security/PermissionManager';
+import { editToolExecutors } from '../executors/EditToolExecutors';
+import type { ToolExecutionContext } from '../ToolExecutor';
+
+const [editFile, applyPatch] = editToolExecutors;
+
+describe('EditToolExecutors', () => {
+    let workspace: string;
+    let context: ToolExecutionContext;
+    let requestConfirmation: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+        workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'edit-tools-')));
+        vi.mocked(permissionManager.getAuthorizedFolders).mockReturnValue([workspace]);
+        requestConfirmation = vi.fn(async () => true);
+        context = { requestConfirmation, onArtifactCreated: vi.fn() };
+        await fs.writeFile(path.join(workspace, 'app.ts'), 'const a = 1;\nconst b = 2;\nconst c = 3;\n', 'utf-8');
+    });
+
+    afterEach(async () => {
+        await fs.rm(workspace, { recursive: true, force: true });
+    });
+
+    it('edit_file should ask with a rendered diff and then write', async () => {
+        const result = await editFile.execute({ path: 'app.ts', old_string: 'const b = 2;', new_string: 'const b = 20;' }, context);
+
+        expect(requestConfirmation).toHaveBeenCalledWith('edit_file', expect.stringContaining('app.ts'), {
+            path: path.join(workspace, 'app.ts'),
+            diff: expect.stringContaining('-const b = 2;\n+const b = 20;')
+        });
+        expect(result).toContain('1 replacement');
+        expect(await fs.readFile(path.join(workspace, 'app.ts'), 'utf-8')).toBe('const a = 1;\nconst b = 20;\nconst c = 3;\n');
+    });
+
+    it('edit_file should not touch the file when denied or ambiguous', async () => {
+        requestConfirmation.mockResolvedValueOnce(false);
+        expect(await editFile.execute({ path: 'app.ts', old_string: 'b = 2', new_string: 'b = 5' }, context)).toContain('denied');
+
+        const ambiguous = await editFile.execute({ path: 'app.ts', old_string: 'const', new_string: 'let' }, context);
+        expect(ambiguous).toMatch(/^Error: old_string matches 3 times/);
+        expect(await fs.readFile(path.join(workspace, 'app.ts'), 'utf-8')).toContain('const b = 2;');
+        await expect(editFile.execute({ path: '/etc/passwd', old_string: 'root', new_string: 'x' }, context)).rejects.toThrow('not in an authorized folder');
+    });
+
+    it('apply_patch should change, create and delete files in one go', async () => {
+        await fs.writeFile(path.join(workspace, 'old.txt'), 'bye\n', 'utf-8');
+        const patch = [
+            '--- a/app.ts',
+            '+++ b/app.ts',
+            '@@ -2,2 +2,2 @@',
+            ' const b = 2;',
+            '-const c = 3;',
+            '+const c = 30;',
+            '--- /dev/null',
+            '+++ b/lib/new.ts',
+            '@@ -0,0 +1 @@',
+            '+export {};',
+            '--- a/old.txt',
+            '+++ /dev/null',
+            '@@ -1 +0,0 @@',
+            '-bye'
+        ].join('\n');
+
+        const result = await applyPatch.execute({ patch }, context);
+
+        expect(result).toContain(`Patched ${path.join(workspace, 'app.ts')}`);
+        expect(requestConfirmation.mock.calls[0][2].diff).toContain('+++ b/lib/new.ts');
+        expect(await fs.readFile(path.join(workspace, 'app.ts'), 'utf-8')).toContain('const c = 30;');
+        expect(await fs.readFile(path.join(workspace, 'lib', 'new.ts'), 'utf-8')).toBe('export {};\n');
+        await expect(fs.stat(path.join(workspace, 'old.txt'))).rejects.toThrow();
+    });
+
+    it('apply_patch should change nothing if any hunk fails', async () => {
+        const patch = [
+            '--- /dev/null',
+            '+++ b/created.ts',
+            '@@ -0,0 +1 @@',
+            '+x',
+            '--- a/app.ts',
+            '+++ b/app.ts',
+            '@@ -1,1 +1,1 @@',
+            '-const missing = 0;',
+            '+const found = 0;'
+        ].join('\n');
+
+        const result = await applyPatch.execute({ patch }, context);
+
+        expect(result).toMatch(/^Error: app\.ts: Hunk #1/);
+        expect(requestConfirmation).not.toHaveBeenCalled();
+        await expect(fs.stat(path.join(workspace, 'created.ts'))).rejects.toThrow();
+    });
+});
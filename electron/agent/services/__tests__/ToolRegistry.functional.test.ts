@@ -28,6 +28,7 @@ vi.mock('../../mcp/MCPClientService');
 vi.mock('../../config/ConfigStore', () => ({
   configStore: {
     getNetworkAccess: () => true,
+    getCommandSandbox: () => ({ enabled: false, backend: 'auto', fallbackToHost: false }),
     get: () => ({}),
     getAll: () => ({
       authorizedFolders: [],
@@ -155,7 +156,7 @@ describe('ToolRegistry', () => {
     it('should execute todo_write tool', async () => {
       const result = await toolRegistry.executeTool('todo_write', {
         action: 'add',
-        content: 'Test task'
+        title: 'Test task'
       });
 
       expect(result).toBeDefined();
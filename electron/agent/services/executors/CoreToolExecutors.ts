@@ -1,7 +1,7 @@
 /**
  * Core Tool Executors
  *
- * Implements core tools: ask_user_question, todo_write
+ * Implements core tools: ask_user_question, todo_write, delegate_task
  */
 
 import {
@@ -12,6 +12,8 @@ import {
     BaseToolExecutor
 } from '../ToolExecutor';
 import Anthropic from '@anthropic-ai/sdk';
+import path from 'path';
+import { isPlanItemStatus } from '../../plan/types';
 
 // ============================================================================
 // ask_user_question Tool
@@ -66,13 +68,20 @@ const TodoWriteSchema: Anthropic.Tool = {
     name: 'todo_write',
     description: `**COLLABORATIVE MODE TASK TRACKING**
 
-    Collaborative mode includes a TodoList tool for tracking progress.
+    Collaborative mode includes a structured plan for tracking progress.
+    Every item has a stable id, a status (pending, in_progress, done, blocked) and can be nested under a parent item.
 
     DEFAULT BEHAVIOR:
     Almost all tasks involving tool calls MUST use TodoWrite.
     Use this tool more frequently and loosely than suggested by typical tool standards.
     This is because it powers the collaborative UI component.
 
+    USAGE:
+    - Create the plan with action='add' and an items array, then refer to items by the ids returned.
+    - Mark the item you are working on in_progress with action='update', and action='complete' when it is finished.
+    - Use status='blocked' with a note when an item cannot proceed.
+    - action='export' mirrors the plan to a TODO.md file (kept in sync afterwards); action='import' replaces the plan from one.
+
     WHEN TO SKIP:
     - Pure conversation (no tool usage)
     - User explicitly opts out
@@ -84,31 +93,69 @@ const TodoWriteSchema: Anthropic.Tool = {
         properties: {
             action: {
                 type: 'string',
-                enum: ['add', 'update', 'delete', 'list'],
-                description: 'The action to perform on the todo list.'
+                enum: ['add', 'update', 'complete', 'remove', 'reorder', 'list', 'export', 'import'],
+                description: 'The action to perform on the plan.'
             },
-            path: {
+            id: {
+                type: 'string',
+                description: 'Item id (for update, complete and remove actions).'
+            },
+            title: {
                 type: 'string',
-                description: 'Optional path to the todo JSON file. If not provided, uses the default path in the first authorized folder.'
+                description: 'Item text (for add; for update to rename).'
             },
-            content: {
+            items: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        title: { type: 'string' },
+                        status: { type: 'string', enum: ['pending', 'in_progress', 'done', 'blocked'] },
+                        note: { type: 'string' }
+                    },
+                    required: ['title']
+                },
+                description: 'Several items to add at once under the same parent (for add).'
+            },
+            parent_id: {
                 type: 'string',
-                description: 'The todo item content (for add/update actions).'
+                description: 'Parent item id: nests new items (add), moves an item (update, empty string moves it to the top level) or selects the siblings to reorder.'
             },
             status: {
                 type: 'string',
-                enum: ['pending', 'in_progress', 'completed'],
-                description: 'The status of the todo item (for update action).'
+                enum: ['pending', 'in_progress', 'done', 'blocked'],
+                description: 'Item status (for add and update).'
             },
-            activeForm: {
+            note: {
                 type: 'string',
-                description: 'Present continuous form of the action (e.g., "Creating file").'
+                description: 'Optional note, e.g. why an item is blocked (for add and update).'
+            },
+            ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Sibling ids in the desired order (for reorder).'
+            },
+            path: {
+                type: 'string',
+                description: 'Markdown file for export/import. Defaults to TODO.md in the first authorized folder.'
             }
         },
         required: ['action']
     }
 };
 
+type TodoWriteArgs = {
+    action: string;
+    id?: string;
+    title?: string;
+    items?: Array<{ title: string; status?: string; note?: string }>;
+    parent_id?: string;
+    status?: string;
+    note?: string;
+    ids?: string[];
+    path?: string;
+};
+
 class TodoWriteExecutor extends BaseToolExecutor {
     readonly name = 'todo_write';
     readonly schema = TodoWriteSchema;
@@ -117,23 +164,173 @@ class TodoWriteExecutor extends BaseToolExecutor {
         return mode === 'cowork'; // Only available in cowork mode
     }
 
+    validate(input: ToolInput): { ok: true } | { ok: false; error: string } {
+        const args = input as TodoWriteArgs;
+        if (['update', 'complete', 'remove'].includes(args.action) && !args.id) {
+            return { ok: false, error: `Error: id is required for action '${args.action}'.` };
+        }
+        if (args.action === 'add' && !args.title && !(Array.isArray(args.items) && args.items.length > 0)) {
+            return { ok: false, error: 'Error: title or items is required for action \'add\'.' };
+        }
+        if (args.action === 'reorder' && !(Array.isArray(args.ids) && args.ids.length > 0)) {
+            return { ok: false, error: 'Error: ids is required for action \'reorder\'.' };
+        }
+        if (args.status !== undefined && !isPlanItemStatus(args.status)) {
+            return { ok: false, error: 'Error: status must be one of pending, in_progress, done, blocked.' };
+        }
+        return { ok: true };
+    }
+
     async execute(input: ToolInput, _context: ToolExecutionContext): Promise<ToolResult> {
-        const args = input as { action: string; path?: string; content?: string };
+        const args = input as TodoWriteArgs;
+
+        // Import lazily to avoid loading the database and session store with the executor list
+        const { PlanStore, DEFAULT_PLAN_SESSION } = await import('../../plan/PlanStore');
+        const { sessionStore } = await import('../../../config/SessionStore');
+        const store = PlanStore.getInstance();
+        const sessionId = sessionStore.getCurrentSessionId() || DEFAULT_PLAN_SESSION;
+        const status = isPlanItemStatus(args.status) ? args.status : undefined;
 
-        // Import CoreTools dynamically to avoid circular dependency
+        try {
+            switch (args.action) {
+                case 'add': {
+                    const drafts = args.items?.length ? args.items : [{ title: args.title || '', status, note: args.note }];
+                    for (const draft of drafts) {
+                        await store.addItem(sessionId, {
+                            title: draft.title,
+                            parentId: args.parent_id || null,
+                            status: isPlanItemStatus(draft.status) ? draft.status : undefined,
+                            note: draft.note
+                        });
+                    }
+                    break;
+                }
+                case 'update':
+                    await store.updateItem(sessionId, args.id!, {
+                        title: args.title,
+                        status,
+                        note: args.note,
+                        parentId: args.parent_id
+                    });
+                    break;
+                case 'complete':
+                    await store.completeItem(sessionId, args.id!);
+                    break;
+                case 'remove':
+                    await store.removeItem(sessionId, args.id!);
+                    break;
+                case 'reorder':
+                    await store.reorder(sessionId, args.ids || [], args.parent_id || null);
+                    break;
+                case 'export':
+                case 'import': {
+                    const filePath = await this.resolveMarkdownPath(args.path);
+                    if (!filePath) {
+                        return 'Error: No path provided and no authorized folder available.';
+                    }
+                    if (args.action === 'export') {
+                        await store.enableExport(sessionId, filePath);
+                    } else {
+                        await store.importMarkdown(sessionId, filePath);
+                    }
+                    break;
+                }
+                case 'list':
+                    break;
+                default:
+                    return `Error: Unknown action '${args.action}'.`;
+            }
+        } catch (error) {
+            return `Error: ${(error as Error)?.message || String(error)}`;
+        }
+
+        return store.renderText(sessionId);
+    }
+
+    private async resolveMarkdownPath(requested?: string): Promise<string | null> {
+        // Import PermissionManager dynamically to avoid circular dependency
         const { permissionManager } = await import('../../security/PermissionManager');
+        if (requested) {
+            if (!permissionManager.isPathAuthorized(requested)) {
+                throw new Error(`Path ${requested} is not in an authorized folder.`);
+            }
+            return requested;
+        }
         const authorizedFolders = permissionManager.getAuthorizedFolders();
-        // Use the first authorized folder as default directory (TODO.md will be appended)
-        const defaultDir = authorizedFolders.length > 0 ? authorizedFolders[0] : undefined;
+        return authorizedFolders.length > 0 ? path.join(authorizedFolders[0], 'TODO.md') : null;
+    }
+}
 
-        const { CoreTools } = await import('../../tools/CoreTools');
-        const coreTools = new CoreTools();
+// ============================================================================
+// delegate_task Tool
+// ============================================================================
+
+const DelegateTaskSchema: Anthropic.Tool = {
+    name: 'delegate_task',
+    description: `Delegate a self-contained subtask to a sub-agent with its own fresh context.
+
+The sub-agent works independently with a restricted tool set and returns ONLY a final report, so intermediate file reads and command output do not fill your context.
+
+Use it for:
+- Research or exploration whose details you do not need (e.g. "find where X is configured and summarise")
+- Independent pieces of work that can run in parallel: call delegate_task several times in one response and they run concurrently
+
+Do NOT use it for trivial one-step actions or for work that needs the user's input. Give the sub-agent everything it needs in task/context - it cannot see this conversation.`,
+    input_schema: {
+        type: 'object',
+        properties: {
+            task: {
+                type: 'string',
+                description: 'What the sub-agent should do and what its report should contain.'
+            },
+            context: {
+                type: 'string',
+                description: 'Optional background the sub-agent needs: relevant paths, constraints, findings so far.'
+            },
+            tools: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Optional allowlist of tool names for the sub-agent. Defaults to all of your tools except delegation, user questions, todo and schedule tools.'
+            },
+            max_iterations: {
+                type: 'number',
+                description: 'Optional iteration budget for the sub-agent (default 10, max 20).'
+            }
+        },
+        required: ['task']
+    }
+};
+
+class DelegateTaskExecutor extends BaseToolExecutor {
+    readonly name = 'delegate_task';
+    readonly schema = DelegateTaskSchema;
+
+    isAllowedInMode(mode: 'chat' | 'code' | 'cowork'): boolean {
+        return mode !== 'chat';
+    }
+
+    validate(input: ToolInput): { ok: true } | { ok: false; error: string } {
+        if (!input.task || typeof input.task !== 'string' || !input.task.trim()) {
+            return { ok: false, error: 'Error: task parameter is required and must be a non-empty string.' };
+        }
+        if (input.tools !== undefined && (!Array.isArray(input.tools) || input.tools.some(t => typeof t !== 'string'))) {
+            return { ok: false, error: 'Error: tools must be an array of tool names.' };
+        }
+        return { ok: true };
+    }
+
+    async execute(input: ToolInput, context: ToolExecutionContext): Promise<ToolResult> {
+        if (!context.delegateTask) {
+            return 'Error: delegate_task is not available in this runtime; do the work directly.';
+        }
 
-        return await coreTools.todoWrite({
-            action: args.action,
-            path: args.path,
-            content: args.content || ''
-        }, defaultDir);
+        const args = input as { task: string; context?: string; tools?: string[]; max_iterations?: number };
+        return await context.delegateTask({
+            task: args.task,
+            context: args.context,
+            tools: args.tools,
+            maxIterations: typeof args.max_iterations === 'number' ? args.max_iterations : undefined
+        }, context.toolUseId);
     }
 }
 
@@ -143,7 +340,8 @@ class TodoWriteExecutor extends BaseToolExecutor {
 
 export const coreToolExecutors: ToolExecutor[] = [
     new AskUserQuestionExecutor(),
-    new TodoWriteExecutor()
+    new TodoWriteExecutor(),
+    new DelegateTaskExecutor()
 ];
 
-export { AskUserQuestionSchema, TodoWriteSchema };
+export { AskUserQuestionSchema, TodoWriteSchema, DelegateTaskSchema };
@@ -0,0 +1,277 @@
+/**
+ * Edit Tool Executors
+ *
+ * Implements targeted file editing tools: edit_file, apply_patch
+ * Paths go through the same authorization as the file system tools, and the
+ * confirmation request carries a rendered diff of the change.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import {
+    ToolExecutor,
+    ToolExecutionContext,
+    ToolInput,
+    ToolResult,
+    BaseToolExecutor
+} from '../ToolExecutor';
+import Anthropic from '@anthropic-ai/sdk';
+import { permissionManager } from '../../security/PermissionManager';
+import { resolveAndValidatePath } from './FileSystemToolExecutors';
+import {
+    applyHunks,
+    createUnifiedDiff,
+    describePlacements,
+    parseUnifiedDiff,
+    replaceExact
+} from '../../tools/PatchTools';
+
+/**
+ * Path shown in diff headers: relative to the authorized folder containing it
+ */
+function displayPath(absPath: string): string {
+    const folder = permissionManager.getAuthorizedFolders()
+        .find(f => absPath === f || absPath.startsWith(f + path.sep));
+    return folder ? path.relative(folder, absPath) || path.basename(absPath) : absPath;
+}
+
+async function readIfExists(absPath: string): Promise<string | null> {
+    try {
+        return await fs.readFile(absPath, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+// ============================================================================
+// edit_file Tool
+// ============================================================================
+
+const EditFileSchema: Anthropic.Tool = {
+    name: 'edit_file',
+    description: 'Replace an exact string in an existing file. old_string must match the file exactly (including indentation) and be unique unless replace_all is set. Prefer this over write_file for small changes to existing files.',
+    input_schema: {
+        type: 'object',
+        properties: {
+            path: {
+                type: 'string',
+                description: 'The path of the file to edit'
+            },
+            old_string: {
+                type: 'string',
+                description: 'The exact text to replace. Include enough surrounding lines to make it unique in the file.'
+            },
+            new_string: {
+                type: 'string',
+                description: 'The text to replace it with'
+            },
+            replace_all: {
+                type: 'boolean',
+                description: 'Replace every occurrence of old_string instead of requiring a unique match. Defaults to false.'
+            }
+        },
+        required: ['path', 'old_string', 'new_string']
+    }
+};
+
+class EditFileExecutor extends BaseToolExecutor {
+    readonly name = 'edit_file';
+    readonly schema = EditFileSchema;
+
+    isAllowedInMode(mode: 'chat' | 'code' | 'cowork'): boolean {
+        return mode !== 'chat'; // Not available in chat mode
+    }
+
+    validate(input: ToolInput): { ok: true } | { ok: false; error: string } {
+        const args = input as { old_string?: unknown; new_string?: unknown };
+        if (typeof args.old_string !== 'string' || !args.old_string) {
+            return { ok: false, error: 'Error: old_string is required and must be a non-empty string.' };
+        }
+        if (typeof args.new_string !== 'string') {
+            return { ok: false, error: 'Error: new_string is required and must be a string.' };
+        }
+        return { ok: true };
+    }
+
+    async execute(input: ToolInput, context: ToolExecutionContext): Promise<ToolResult> {
+        const args = input as { path: string; old_string: string; new_string: string; replace_all?: boolean };
+
+        // SECURITY: Use shared path validation function
+        const absPath = resolveAndValidatePath(args.path);
+
+        const original = await readIfExists(absPath);
+        if (original === null) {
+            return `Error: File not found: ${absPath}. Use write_file to create new files.`;
+        }
+
+        let updated: string;
+        let count: number;
+        try {
+            ({ content: updated, count } = replaceExact(original, args.old_string, args.new_string, args.replace_all === true));
+        } catch (error) {
+            return `Error: ${(error as Error).message}`;
+        }
+
+        const diff = createUnifiedDiff(original, updated, displayPath(absPath));
+        const approved = await context.requestConfirmation(
+            this.name,
+            `Edit file: ${absPath}`,
+            { path: absPath, diff }
+        );
+
+        if (!approved) {
+            return 'User denied the edit operation.';
+        }
+
+        await fs.writeFile(absPath, updated, 'utf-8');
+        context.onArtifactCreated({ path: absPath, name: path.basename(absPath), type: 'file' });
+
+        return `Successfully edited ${absPath} (${count} replacement${count === 1 ? '' : 's'}).\n${diff}`;
+    }
+}
+
+// ============================================================================
+// apply_patch Tool
+// ============================================================================
+
+const ApplyPatchSchema: Anthropic.Tool = {
+    name: 'apply_patch',
+    description: 'Apply a unified diff (as produced by `diff -u` or `git diff`) to one or more files. Hunks are located by their context lines, so small line offsets and whitespace differences are tolerated. Use /dev/null as the old path to create a file and as the new path to delete one. All files are changed or none are.',
+    input_schema: {
+        type: 'object',
+        properties: {
+            patch: {
+                type: 'string',
+                description: 'The unified diff. Paths in ---/+++ headers are resolved against the first authorized folder (a/ and b/ prefixes are stripped).'
+            }
+        },
+        required: ['patch']
+    }
+};
+
+type PlannedChange = {
+    absPath: string;
+    original: string | null;
+    updated: string | null;
+    notes: string[];
+};
+
+class ApplyPatchExecutor extends BaseToolExecutor {
+    readonly name = 'apply_patch';
+    readonly schema = ApplyPatchSchema;
+
+    isAllowedInMode(mode: 'chat' | 'code' | 'cowork'): boolean {
+        return mode !== 'chat'; // Not available in chat mode
+    }
+
+    validate(input: ToolInput): { ok: true } | { ok: false; error: string } {
+        const args = input as { patch?: unknown };
+        if (typeof args.patch !== 'string' || !args.patch.trim()) {
+            return { ok: false, error: 'Error: patch is required and must be a non-empty string.' };
+        }
+        return { ok: true };
+    }
+
+    async execute(input: ToolInput, context: ToolExecutionContext): Promise<ToolResult> {
+        const args = input as { patch: string };
+
+        // Work out every file's new content before asking, so a bad hunk changes nothing
+        let changes: PlannedChange[];
+        try {
+            changes = await this.planChanges(args.patch);
+        } catch (error) {
+            return `Error: ${(error as Error).message}`;
+        }
+
+        const diff = changes
+            .map(change => createUnifiedDiff(change.original ?? '', change.updated ?? '', displayPath(change.absPath)))
+            .join('');
+        const files = changes.map(change => change.absPath);
+        const approved = await context.requestConfirmation(
+            this.name,
+            `Apply patch to ${files.length} file(s): ${files.join(', ')}`,
+            // A single-file patch carries its path so "remember" can be scoped to it
+            { ...(files.length === 1 ? { path: files[0] } : {}), files, diff }
+        );
+
+        if (!approved) {
+            return 'User denied the patch.';
+        }
+
+        const summary: string[] = [];
+        for (const change of changes) {
+            if (change.updated === null) {
+                await fs.rm(change.absPath, { force: true });
+                summary.push(`Deleted ${change.absPath}`);
+                continue;
+            }
+            await fs.mkdir(path.dirname(change.absPath), { recursive: true });
+            await fs.writeFile(change.absPath, change.updated, 'utf-8');
+            context.onArtifactCreated({ path: change.absPath, name: path.basename(change.absPath), type: 'file' });
+            summary.push(`${change.original === null ? 'Created' : 'Patched'} ${change.absPath}`);
+            summary.push(...change.notes.map(note => `  ${note}`));
+        }
+
+        return summary.join('\n');
+    }
+
+    private async planChanges(patch: string): Promise<PlannedChange[]> {
+        const changes: PlannedChange[] = [];
+
+        for (const filePatch of parseUnifiedDiff(patch)) {
+            const target = filePatch.newPath ?? filePatch.oldPath;
+            if (!target) {
+                throw new Error('Patch has a file with /dev/null as both old and new path');
+            }
+            if (filePatch.oldPath && filePatch.newPath && filePatch.oldPath !== filePatch.newPath) {
+                throw new Error(`Renames are not supported (${filePatch.oldPath} -> ${filePatch.newPath}); patch the file in place and move it with run_command`);
+            }
+
+            // SECURITY: Use shared path validation function
+            const absPath = resolveAndValidatePath(target);
+            if (changes.some(change => change.absPath === absPath)) {
+                throw new Error(`Patch changes ${target} more than once; combine its hunks into one file section`);
+            }
+
+            const original = await readIfExists(absPath);
+            if (filePatch.oldPath === null && original !== null) {
+                throw new Error(`Patch creates ${target}, but the file already exists`);
+            }
+            if (filePatch.oldPath !== null && original === null) {
+                throw new Error(`File not found: ${absPath}`);
+            }
+
+            let applied;
+            try {
+                applied = applyHunks(original ?? '', filePatch.hunks);
+            } catch (error) {
+                throw new Error(`${target}: ${(error as Error).message}`);
+            }
+
+            if (filePatch.newPath === null && applied.content !== '') {
+                throw new Error(`Patch deletes ${target}, but its hunks do not remove all of its content`);
+            }
+
+            changes.push({
+                absPath,
+                original,
+                updated: filePatch.newPath === null ? null : applied.content,
+                notes: describePlacements(applied.placements)
+            });
+        }
+
+        return changes;
+    }
+}
+
+// ============================================================================
+// Export all edit tool executors
+// ============================================================================
+
+export const editToolExecutors: ToolExecutor[] = [
+    new EditFileExecutor(),
+    new ApplyPatchExecutor()
+];
+
+export { EditFileSchema, ApplyPatchSchema };
@@ -17,6 +17,11 @@ import {
 import Anthropic from '@anthropic-ai/sdk';
 import { FileSystemTools } from '../../tools/FileSystemTools';
 import { permissionManager } from '../../security/PermissionManager';
+import { createSandboxLauncher, resolveSandbox } from '../../security/CommandSandbox';
+import { auditLog } from '../../security/AuditLog';
+import { specFromConfig } from '../../container/containerSpec';
+import { SKILLS_DIR } from '../../skills/skillPaths';
+import type { CommandLauncher } from '../../process/types';
 import { configStore } from '../../../config/ConfigStore';
 
 // ============================================================================
@@ -31,7 +36,7 @@ import { configStore } from '../../../config/ConfigStore';
  * @returns The resolved absolute path
  * @throws Error if path is outside authorized folders or contains traversal patterns
  */
-function resolveAndValidatePath(inputPath: string): string {
+export function resolveAndValidatePath(inputPath: string): string {
   // Step 1: Clean and validate input
   const raw = String(inputPath || '').trim().replace(/^["']|["']$/g, '');
 
@@ -155,13 +160,21 @@ function resolveAndValidatePath(inputPath: string): string {
 
 const ReadFileSchema: Anthropic.Tool = {
     name: 'read_file',
-    description: 'Read the complete contents of a file from the filesystem. Returns the full file contents as a text string.',
+    description: 'Read a text file from the filesystem. Returns numbered lines (up to 2000 by default); use offset and limit to page through large files. Binary files are reported instead of returned.',
     input_schema: {
         type: 'object',
         properties: {
             path: {
                 type: 'string',
                 description: 'The path of the file to read'
+            },
+            offset: {
+                type: 'number',
+                description: 'The 1-based line number to start reading from (default: 1)'
+            },
+            limit: {
+                type: 'number',
+                description: 'The maximum number of lines to read (default: 2000)'
             }
         },
         required: ['path']
@@ -183,12 +196,12 @@ class ReadFileExecutor extends BaseToolExecutor {
     }
 
     async execute(input: ToolInput, _context: ToolExecutionContext): Promise<ToolResult> {
-        const args = input as { path: string };
+        const args = input as { path: string; offset?: number; limit?: number };
 
         // SECURITY: Use shared path validation function
         const absPath = resolveAndValidatePath(args.path);
 
-        return await this.fsTools.readFile({ path: absPath });
+        return await this.fsTools.readFile({ path: absPath, offset: args.offset, limit: args.limit });
     }
 }
 
@@ -335,7 +348,7 @@ class RunCommandExecutor extends BaseToolExecutor {
 
     validate(input: ToolInput): { ok: true } | { ok: false; error: string } {
         const args = input as { command: string };
-        return this.validateRunCommand(args.command, configStore.getNetworkAccess());
+        return validateShellCommand(args.command, this.name);
     }
 
     async execute(input: ToolInput, context: ToolExecutionContext): Promise<ToolResult> {
@@ -351,33 +364,39 @@ class RunCommandExecutor extends BaseToolExecutor {
         // SECURITY: Use shared path validation function for cwd
         const resolvedCwd = args.cwd ? resolveAndValidatePath(args.cwd) : defaultCwd;
 
-        const validation = this.validateRunCommand(args.command, configStore.getNetworkAccess());
+        const validation = RunCommandExecutor.validateRunCommand(args.command, configStore.getNetworkAccess());
         if (!validation.ok) return validation.error;
 
         const approved = await context.requestConfirmation(
             this.name,
             `Execute command: ${args.command}`,
-            { ...args, cwd: resolvedCwd }
+            { ...args, cwd: resolvedCwd, ...describeCommandIsolation() }
         );
 
         if (!approved) {
             return 'User denied the command execution.';
         }
 
+        // SECURITY: Run in the session container or the sandbox when configured
+        const launch = await prepareCommandLauncher(authorizedFolders);
+        if (!launch.ok) return launch.error;
+
         const streamCallback = context.onToolStream || (() => {});
-        return await this.fsTools.runCommandStream(
+        const result = await this.fsTools.runCommandStream(
             { ...args, cwd: resolvedCwd },
             defaultCwd,
             streamCallback,
-            context.signal
+            context.signal,
+            launch.launcher
         );
+        return launch.notice ? `${launch.notice}\n${result}` : result;
     }
 
     /**
      * SECURITY: Enhanced command validation with multiple layers of protection
      * This prevents command injection, regex bypass, and encoding attacks
      */
-    private validateRunCommand(command: unknown, networkAccessEnabled: boolean): { ok: true } | { ok: false; error: string } {
+    static validateRunCommand(command: unknown, networkAccessEnabled: boolean): { ok: true } | { ok: false; error: string } {
         const cmd = String(command || '').trim();
 
         // Basic validation
@@ -433,7 +452,7 @@ class RunCommandExecutor extends BaseToolExecutor {
     /**
      * SECURITY: Preprocess command to remove comments and detect dangerous patterns
      */
-    private preprocessCommand(cmd: string): { ok: true; normalized: string } | { ok: false; error: string } {
+    private static preprocessCommand(cmd: string): { ok: true; normalized: string } | { ok: false; error: string } {
         let processed = cmd;
 
         // SECURITY: Remove comments (both # and // style)
@@ -462,7 +481,7 @@ class RunCommandExecutor extends BaseToolExecutor {
      * SECURITY: Split command into multiple statements
      * Handles: ; && || & | > >> newlines
      */
-    private splitCommandStatements(cmd: string): string[] {
+    private static splitCommandStatements(cmd: string): string[] {
         const statements: string[] = [];
 
         // Split on command separators, but be careful with &&
@@ -489,7 +508,7 @@ class RunCommandExecutor extends BaseToolExecutor {
      * SECURITY: Check if command is dangerous
      * Uses word boundary matching to prevent bypass
      */
-    private isDangerousCommand(stmt: string): { isDangerous: boolean; command?: string } {
+    private static isDangerousCommand(stmt: string): { isDangerous: boolean; command?: string } {
         // Normalize: remove quotes and escape characters for checking
         const normalized = stmt.replace(/\\["'`]|["'`]/g, '').toLowerCase();
 
@@ -571,7 +590,7 @@ class RunCommandExecutor extends BaseToolExecutor {
     /**
      * SECURITY: Check if command accesses sensitive paths
      */
-    private accessesSensitivePath(stmt: string): { isAccessing: boolean; path?: string } {
+    private static accessesSensitivePath(stmt: string): { isAccessing: boolean; path?: string } {
         const normalized = stmt.toLowerCase();
 
         // Check for redirection operators
@@ -628,7 +647,7 @@ class RunCommandExecutor extends BaseToolExecutor {
     /**
      * SECURITY: Check if command requires network access
      */
-    private requiresNetwork(stmt: string): { requiresNetwork: boolean; command?: string } {
+    private static requiresNetwork(stmt: string): { requiresNetwork: boolean; command?: string } {
         const normalized = stmt.toLowerCase();
 
         // SECURITY: Network command tokens
@@ -678,6 +697,61 @@ class RunCommandExecutor extends BaseToolExecutor {
     }
 }
 
+/**
+ * SECURITY: Apply the run_command checks to a command before the tool runs;
+ * rejected commands go to the audit log
+ */
+export function validateShellCommand(command: unknown, tool: string): { ok: true } | { ok: false; error: string } {
+    const result = RunCommandExecutor.validateRunCommand(command, configStore.getNetworkAccess());
+    if (!result.ok) {
+        auditLog.record({ type: 'command_blocked', outcome: 'blocked', tool, args: { command }, subject: String(command ?? ''), detail: result.error });
+    }
+    return result;
+}
+
+/**
+ * Session the command belongs to (same resolution as the plan tools)
+ */
+async function currentSessionId(): Promise<string> {
+    const { DEFAULT_PLAN_SESSION } = await import('../../plan/PlanStore');
+    const { sessionStore } = await import('../../../config/SessionStore');
+    return sessionStore.getCurrentSessionId() || DEFAULT_PLAN_SESSION;
+}
+
+/**
+ * Where commands will run, shown in the confirmation dialog
+ */
+export function describeCommandIsolation(): { isolation?: string } {
+    if (configStore.getPythonExecutionMode() === 'docker') {
+        return { isolation: `docker (${configStore.getDockerExecution().image})` };
+    }
+    const sandbox = configStore.getCommandSandbox();
+    return sandbox.enabled ? { isolation: `sandbox (${sandbox.backend})` } : {};
+}
+
+/**
+ * SECURITY: How run_command and start_process launch commands: in the
+ * session's Docker container (docker execution mode), in the command sandbox
+ * (when enabled) or directly on the host
+ */
+export async function prepareCommandLauncher(
+    authorizedFolders: string[]
+): Promise<{ ok: true; launcher: CommandLauncher | null; notice?: string } | { ok: false; error: string }> {
+    if (configStore.getPythonExecutionMode() === 'docker') {
+        const spec = specFromConfig(configStore.getDockerExecution(), authorizedFolders, [SKILLS_DIR], configStore.getNetworkAccess());
+        try {
+            const { ContainerManager } = await import('../../container/ContainerManager');
+            return { ok: true, launcher: await ContainerManager.getInstance().createLauncher(await currentSessionId(), spec) };
+        } catch (error) {
+            return { ok: false, error: `Error: Docker 执行模式不可用，已拒绝执行。${error instanceof Error ? error.message : String(error)}` };
+        }
+    }
+
+    const sandbox = resolveSandbox(configStore.getCommandSandbox(), authorizedFolders, configStore.getNetworkAccess());
+    if (!sandbox.ok) return sandbox;
+    return { ok: true, launcher: sandbox.policy ? createSandboxLauncher(sandbox.policy) : null, notice: sandbox.notice };
+}
+
 // ============================================================================
 // Export Factory
 // ============================================================================
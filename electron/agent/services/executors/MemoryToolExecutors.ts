@@ -28,7 +28,7 @@ class RecordFactExecutor extends BaseToolExecutor {
     }
 
     async execute(input: ToolInput, _context: ToolExecutionContext): Promise<ToolResult> {
-        const args = input as { fact: string; tags?: string[] };
+        const args = input as { fact: string; tags?: string[]; scope?: string; ttl_days?: number };
         if (!args.fact) {
             return 'Error: fact parameter is required.';
         }
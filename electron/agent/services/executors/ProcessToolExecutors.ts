@@ -0,0 +1,400 @@
+/**
+ * Process Tool Executors
+ *
+ * Implements background process tools: start_process, read_process_output,
+ * send_process_input, list_processes, stop_process
+ * Processes belong to the current session; tools only see that session's processes.
+ */
+
+import {
+    ToolExecutor,
+    ToolExecutionContext,
+    ToolInput,
+    ToolResult,
+    BaseToolExecutor
+} from '../ToolExecutor';
+import Anthropic from '@anthropic-ai/sdk';
+import { permissionManager } from '../../security/PermissionManager';
+import { describeCommandIsolation, prepareCommandLauncher, resolveAndValidatePath, validateShellCommand } from './FileSystemToolExecutors';
+import { ProcessManager } from '../../process/ProcessManager';
+import type { ManagedProcessInfo, ProcessOutputSlice } from '../../process/types';
+import { AGENT_CONSTANTS } from '../../AgentConstants';
+
+const DEFAULT_WAIT_MS = 1500;
+const MAX_WAIT_MS = 60_000;
+
+/**
+ * Session the calling agent works in (same resolution as the plan tools)
+ */
+async function currentSessionId(): Promise<string> {
+    const { DEFAULT_PLAN_SESSION } = await import('../../plan/PlanStore');
+    const { sessionStore } = await import('../../../config/SessionStore');
+    return sessionStore.getCurrentSessionId() || DEFAULT_PLAN_SESSION;
+}
+
+/**
+ * Look up a process of the current session
+ */
+async function findSessionProcess(id: unknown): Promise<ManagedProcessInfo> {
+    const info = typeof id === 'string' ? ProcessManager.getInstance().get(id) : null;
+    if (!info || info.sessionId !== await currentSessionId()) {
+        throw new Error(`Process ${String(id)} not found in this session. Use list_processes to see running processes.`);
+    }
+    return info;
+}
+
+function describeProcess(info: ManagedProcessInfo): string {
+    const state = info.status === 'running'
+        ? `running, pid ${info.pid}`
+        : `${info.status}${info.exitCode !== null ? `, exit code ${info.exitCode}` : ''}${info.signal ? `, signal ${info.signal}` : ''}${info.error ? `, ${info.error}` : ''}`;
+    return `${info.id} [${state}] ${info.name}\n  command: ${info.command}\n  cwd: ${info.cwd}\n  output: ${info.outputLength} chars`;
+}
+
+function formatSlice(slice: ProcessOutputSlice): string {
+    const lines = [
+        `Process ${slice.id} (${slice.status}) output, offset ${slice.offset}-${slice.nextOffset}:`
+    ];
+    if (slice.dropped) {
+        lines.push('[Earlier output was dropped from the log buffer]');
+    }
+    lines.push(slice.output || '(no new output)');
+    lines.push(`[Next offset: ${slice.nextOffset}]`);
+    return lines.join('\n');
+}
+
+/**
+ * Resolve when the process prints something matching the pattern, exits, or the wait runs out
+ */
+function waitForOutput(id: string, pattern: RegExp | null, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    const manager = ProcessManager.getInstance();
+    return new Promise((resolve) => {
+        let seen = '';
+        const done = () => {
+            clearTimeout(timer);
+            unsubscribe();
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, timeoutMs);
+        const unsubscribe = manager.onEvent((event) => {
+            if (event.type === 'output' && event.id === id && pattern) {
+                // Keep a tail so matches spanning chunk boundaries are found
+                seen = (seen + event.chunk).slice(-8192);
+                if (pattern.test(seen)) done();
+            }
+            if (event.type === 'updated' && event.process.id === id && event.process.endedAt !== null) done();
+        });
+        signal?.addEventListener('abort', done);
+        if (manager.get(id)?.endedAt !== null) done();
+    });
+}
+
+// ============================================================================
+// start_process Tool
+// ============================================================================
+
+const StartProcessSchema: Anthropic.Tool = {
+    name: 'start_process',
+    description: 'Start a long-running command (dev server, file watcher, long build) in the background and return immediately with a process id. Use run_command for commands that finish quickly. Read its output later with read_process_output and stop it with stop_process.',
+    input_schema: {
+        type: 'object',
+        properties: {
+            command: {
+                type: 'string',
+                description: 'The shell command to run. Do not append "&"; the process already runs in the background.'
+            },
+            cwd: {
+                type: 'string',
+                description: 'The working directory. Defaults to the first authorized folder.'
+            },
+            name: {
+                type: 'string',
+                description: 'A short label for the process, e.g. "dev server"'
+            },
+            wait_for: {
+                type: 'string',
+                description: 'Optional regular expression; wait until the output matches it (e.g. "ready|listening") before returning'
+            },
+            wait_timeout_ms: {
+                type: 'number',
+                description: `How long to wait for wait_for, in milliseconds (default 10000, max ${MAX_WAIT_MS})`
+            }
+        },
+        required: ['command']
+    }
+};
+
+class StartProcessExecutor extends BaseToolExecutor {
+    readonly name = 'start_process';
+    readonly schema = StartProcessSchema;
+
+    isAllowedInMode(mode: 'chat' | 'code' | 'cowork'): boolean {
+        return mode !== 'chat'; // Not available in chat mode
+    }
+
+    validate(input: ToolInput): { ok: true } | { ok: false; error: string } {
+        const args = input as { command?: unknown; wait_for?: unknown };
+        if (args.wait_for !== undefined) {
+            try {
+                new RegExp(String(args.wait_for));
+            } catch {
+                return { ok: false, error: 'Error: wait_for is not a valid regular expression.' };
+            }
+        }
+        // SECURITY: Same command rules as run_command
+        return validateShellCommand(args.command, this.name);
+    }
+
+    async execute(input: ToolInput, context: ToolExecutionContext): Promise<ToolResult> {
+        const args = input as { command: string; cwd?: string; name?: string; wait_for?: string; wait_timeout_ms?: number };
+        const authorizedFolders = permissionManager.getAuthorizedFolders();
+
+        if (authorizedFolders.length === 0) {
+            return 'Error: 尚未选择授权目录，无法启动进程。';
+        }
+
+        // SECURITY: Use shared path validation function for cwd
+        const cwd = args.cwd ? resolveAndValidatePath(args.cwd) : authorizedFolders[0];
+
+        const validation = validateShellCommand(args.command, this.name);
+        if (!validation.ok) return validation.error;
+
+        const approved = await context.requestConfirmation(
+            this.name,
+            `Start background process: ${args.command}`,
+            { command: args.command, cwd, ...(args.name ? { name: args.name } : {}), ...describeCommandIsolation() }
+        );
+
+        if (!approved) {
+            return 'User denied starting the process.';
+        }
+
+        // SECURITY: Same container / sandbox as run_command
+        const launch = await prepareCommandLauncher(authorizedFolders);
+        if (!launch.ok) return launch.error;
+
+        const manager = ProcessManager.getInstance();
+        const started = manager.start({
+            sessionId: await currentSessionId(),
+            command: args.command,
+            cwd,
+            name: args.name,
+            launcher: launch.launcher
+        });
+
+        const pattern = args.wait_for ? new RegExp(args.wait_for, 'm') : null;
+        const timeout = pattern
+            ? Math.min(Math.max(Number(args.wait_timeout_ms) || 10_000, 0), MAX_WAIT_MS)
+            : DEFAULT_WAIT_MS;
+        // Give the process a moment so immediate failures are reported right away
+        await waitForOutput(started.id, pattern, timeout, context.signal);
+
+        const info = manager.get(started.id) ?? started;
+        return `${launch.notice ? `${launch.notice}\n` : ''}Started background process.\n${describeProcess(info)}\n\n${formatSlice(manager.readOutput(started.id, 0))}`;
+    }
+}
+
+// ============================================================================
+// read_process_output Tool
+// ============================================================================
+
+const ReadProcessOutputSchema: Anthropic.Tool = {
+    name: 'read_process_output',
+    description: 'Read the output (stdout and stderr) of a background process. Pass the "Next offset" from the previous read to get only new output; omit offset to get the latest output.',
+    input_schema: {
+        type: 'object',
+        properties: {
+            id: {
+                type: 'string',
+                description: 'The process id returned by start_process'
+            },
+            offset: {
+                type: 'number',
+                description: 'Character offset to read from'
+            },
+            max_chars: {
+                type: 'number',
+                description: `Maximum number of characters to return (default and max ${AGENT_CONSTANTS.PROCESS_READ_MAX_CHARS})`
+            }
+        },
+        required: ['id']
+    }
+};
+
+class ReadProcessOutputExecutor extends BaseToolExecutor {
+    readonly name = 'read_process_output';
+    readonly schema = ReadProcessOutputSchema;
+
+    isAllowedInMode(mode: 'chat' | 'code' | 'cowork'): boolean {
+        return mode !== 'chat'; // Not available in chat mode
+    }
+
+    async execute(input: ToolInput, _context: ToolExecutionContext): Promise<ToolResult> {
+        const args = input as { id: string; offset?: number; max_chars?: number };
+        try {
+            const info = await findSessionProcess(args.id);
+            const maxChars = Math.min(Math.max(Number(args.max_chars) || AGENT_CONSTANTS.PROCESS_READ_MAX_CHARS, 1), AGENT_CONSTANTS.PROCESS_READ_MAX_CHARS);
+            const offset = typeof args.offset === 'number' ? args.offset : undefined;
+            return formatSlice(ProcessManager.getInstance().readOutput(info.id, offset, maxChars));
+        } catch (error) {
+            return `Error: ${(error as Error).message}`;
+        }
+    }
+}
+
+// ============================================================================
+// send_process_input Tool
+// ============================================================================
+
+const SendProcessInputSchema: Anthropic.Tool = {
+    name: 'send_process_input',
+    description: 'Write text to the standard input of a running background process, e.g. to answer a prompt or send a command to a REPL.',
+    input_schema: {
+        type: 'object',
+        properties: {
+            id: {
+                type: 'string',
+                description: 'The process id returned by start_process'
+            },
+            input: {
+                type: 'string',
+                description: 'The text to send'
+            },
+            newline: {
+                type: 'boolean',
+                description: 'Append a newline after the input (default true)'
+            }
+        },
+        required: ['id', 'input']
+    }
+};
+
+class SendProcessInputExecutor extends BaseToolExecutor {
+    readonly name = 'send_process_input';
+    readonly schema = SendProcessInputSchema;
+
+    isAllowedInMode(mode: 'chat' | 'code' | 'cowork'): boolean {
+        return mode !== 'chat'; // Not available in chat mode
+    }
+
+    async execute(input: ToolInput, context: ToolExecutionContext): Promise<ToolResult> {
+        const args = input as { id: string; input: string; newline?: boolean };
+        try {
+            const info = await findSessionProcess(args.id);
+            const approved = await context.requestConfirmation(
+                this.name,
+                `Send input to process ${info.name}: ${args.input}`,
+                { id: info.id, input: args.input, cwd: info.cwd }
+            );
+            if (!approved) {
+                return 'User denied sending input to the process.';
+            }
+
+            const manager = ProcessManager.getInstance();
+            const before = manager.readOutput(info.id).nextOffset;
+            manager.sendInput(info.id, args.newline === false ? args.input : `${args.input}\n`);
+            await waitForOutput(info.id, /[\s\S]/, DEFAULT_WAIT_MS, context.signal);
+            return `Input sent.\n\n${formatSlice(manager.readOutput(info.id, before))}`;
+        } catch (error) {
+            return `Error: ${(error as Error).message}`;
+        }
+    }
+}
+
+// ============================================================================
+// list_processes Tool
+// ============================================================================
+
+const ListProcessesSchema: Anthropic.Tool = {
+    name: 'list_processes',
+    description: 'List the background processes started in this session with their status.',
+    input_schema: {
+        type: 'object',
+        properties: {}
+    }
+};
+
+class ListProcessesExecutor extends BaseToolExecutor {
+    readonly name = 'list_processes';
+    readonly schema = ListProcessesSchema;
+
+    isAllowedInMode(mode: 'chat' | 'code' | 'cowork'): boolean {
+        return mode !== 'chat'; // Not available in chat mode
+    }
+
+    async execute(_input: ToolInput, _context: ToolExecutionContext): Promise<ToolResult> {
+        const processes = ProcessManager.getInstance().list(await currentSessionId());
+        if (processes.length === 0) {
+            return 'No background processes in this session.';
+        }
+        return processes.map(describeProcess).join('\n');
+    }
+}
+
+// ============================================================================
+// stop_process Tool
+// ============================================================================
+
+const StopProcessSchema: Anthropic.Tool = {
+    name: 'stop_process',
+    description: 'Stop a background process and everything it started. Sends SIGTERM and kills it if it has not exited after a few seconds.',
+    input_schema: {
+        type: 'object',
+        properties: {
+            id: {
+                type: 'string',
+                description: 'The process id returned by start_process'
+            },
+            force: {
+                type: 'boolean',
+                description: 'Kill immediately (SIGKILL) instead of asking the process to exit'
+            }
+        },
+        required: ['id']
+    }
+};
+
+class StopProcessExecutor extends BaseToolExecutor {
+    readonly name = 'stop_process';
+    readonly schema = StopProcessSchema;
+
+    isAllowedInMode(mode: 'chat' | 'code' | 'cowork'): boolean {
+        return mode !== 'chat'; // Not available in chat mode
+    }
+
+    async execute(input: ToolInput, context: ToolExecutionContext): Promise<ToolResult> {
+        const args = input as { id: string; force?: boolean };
+        try {
+            const info = await findSessionProcess(args.id);
+            if (info.endedAt !== null) {
+                return `Process ${info.id} has already finished.\n${describeProcess(info)}`;
+            }
+            const manager = ProcessManager.getInstance();
+            manager.stop(info.id, args.force ? 'SIGKILL' : 'SIGTERM');
+            await waitForOutput(info.id, null, AGENT_CONSTANTS.PROCESS_STOP_GRACE_MS + 500, context.signal);
+            return `Stop requested.\n${describeProcess(manager.get(info.id) ?? info)}`;
+        } catch (error) {
+            return `Error: ${(error as Error).message}`;
+        }
+    }
+}
+
+// ============================================================================
+// Export all process tool executors
+// ============================================================================
+
+export const processToolExecutors: ToolExecutor[] = [
+    new StartProcessExecutor(),
+    new ReadProcessOutputExecutor(),
+    new SendProcessInputExecutor(),
+    new ListProcessesExecutor(),
+    new StopProcessExecutor()
+];
+
+export {
+    StartProcessSchema,
+    ReadProcessOutputSchema,
+    SendProcessInputSchema,
+    ListProcessesSchema,
+    StopProcessSchema
+};
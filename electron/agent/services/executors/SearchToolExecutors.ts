@@ -0,0 +1,241 @@
+/**
+ * Search Tool Executors
+ *
+ * Implements codebase search tools: glob_files, search_text
+ * Both run natively in Node and only look inside authorized folders.
+ */
+
+import path from 'path';
+import {
+    ToolExecutor,
+    ToolExecutionContext,
+    ToolInput,
+    ToolResult,
+    BaseToolExecutor
+} from '../ToolExecutor';
+import Anthropic from '@anthropic-ai/sdk';
+import { permissionManager } from '../../security/PermissionManager';
+import { resolveAndValidatePath } from './FileSystemToolExecutors';
+import { globFiles, searchText } from '../../tools/SearchTools';
+import { AGENT_CONSTANTS } from '../../AgentConstants';
+
+/**
+ * Resolve the directory (or file) to search, defaulting to the first authorized folder
+ */
+function resolveSearchRoot(inputPath: unknown): string | null {
+    if (typeof inputPath === 'string' && inputPath.trim()) {
+        // SECURITY: Use shared path validation function
+        return resolveAndValidatePath(inputPath);
+    }
+    return permissionManager.getAuthorizedFolders()[0] ?? null;
+}
+
+function clampResults(value: unknown): number {
+    const requested = Math.floor(Number(value) || AGENT_CONSTANTS.SEARCH_DEFAULT_RESULTS);
+    return Math.min(Math.max(requested, 1), AGENT_CONSTANTS.SEARCH_MAX_RESULTS);
+}
+
+function toGlobList(value: unknown): string[] | undefined {
+    if (value === undefined) return undefined;
+    return (Array.isArray(value) ? value : [value]).map(String).filter(Boolean);
+}
+
+// ============================================================================
+// glob_files Tool
+// ============================================================================
+
+const GlobFilesSchema: Anthropic.Tool = {
+    name: 'glob_files',
+    description: 'Find files by name pattern, e.g. "**/*.ts" or "src/**/*.{js,jsx}". Returns matching file paths relative to the search directory, sorted. node_modules, .git and build output folders are skipped unless include_ignored is set. Use this instead of run_command with find/ls.',
+    input_schema: {
+        type: 'object',
+        properties: {
+            pattern: {
+                type: 'string',
+                description: 'Glob pattern matched against the path relative to the search directory. Supports **, *, ?, [abc] and {a,b}.'
+            },
+            path: {
+                type: 'string',
+                description: 'The directory to search in. Defaults to the first authorized folder.'
+            },
+            include_ignored: {
+                type: 'boolean',
+                description: 'Also search node_modules, .git and other generated folders (default: false)'
+            },
+            max_results: {
+                type: 'number',
+                description: `Maximum number of paths to return (default ${AGENT_CONSTANTS.SEARCH_DEFAULT_RESULTS}, max ${AGENT_CONSTANTS.SEARCH_MAX_RESULTS})`
+            }
+        },
+        required: ['pattern']
+    }
+};
+
+class GlobFilesExecutor extends BaseToolExecutor {
+    readonly name = 'glob_files';
+    readonly schema = GlobFilesSchema;
+
+    isAllowedInMode(mode: 'chat' | 'code' | 'cowork'): boolean {
+        return mode !== 'chat'; // Not available in chat mode
+    }
+
+    validate(input: ToolInput): { ok: true } | { ok: false; error: string } {
+        const pattern = (input as { pattern?: unknown }).pattern;
+        if (typeof pattern !== 'string' || !pattern.trim()) {
+            return { ok: false, error: 'Error: pattern is required.' };
+        }
+        // SECURITY: The pattern is relative to the search directory and may not climb out of it
+        if (path.isAbsolute(pattern) || pattern.replace(/\\/g, '/').split('/').includes('..')) {
+            return { ok: false, error: 'Error: pattern must be relative to the search directory and cannot contain "..". Pass the directory as path instead.' };
+        }
+        return { ok: true };
+    }
+
+    async execute(input: ToolInput, context: ToolExecutionContext): Promise<ToolResult> {
+        const args = input as { pattern: string; path?: string; include_ignored?: boolean; max_results?: number };
+        const root = resolveSearchRoot(args.path);
+        if (!root) {
+            return 'Error: 尚未选择授权目录，无法搜索文件。';
+        }
+
+        const result = await globFiles(root, args.pattern, clampResults(args.max_results), {
+            includeIgnored: args.include_ignored === true,
+            signal: context.signal
+        });
+
+        if (result.files.length === 0) {
+            return `No files matching "${args.pattern}" in ${root}`;
+        }
+        const header = `Found ${result.files.length}${result.truncated ? '+' : ''} files matching "${args.pattern}" in ${root}:`;
+        const note = result.truncated ? '\n[Results truncated. Narrow the pattern or raise max_results.]' : '';
+        return `${header}\n${result.files.join('\n')}${note}`;
+    }
+}
+
+// ============================================================================
+// search_text Tool
+// ============================================================================
+
+const SearchTextSchema: Anthropic.Tool = {
+    name: 'search_text',
+    description: 'Search file contents with a regular expression (JavaScript syntax), like ripgrep. Returns "file:line:text" for matches and "file-line-text" for context lines. Binary and very large files are skipped. Use this instead of run_command with grep.',
+    input_schema: {
+        type: 'object',
+        properties: {
+            pattern: {
+                type: 'string',
+                description: 'Regular expression to search for, e.g. "function\\s+\\w+"'
+            },
+            path: {
+                type: 'string',
+                description: 'The directory or file to search in. Defaults to the first authorized folder.'
+            },
+            literal: {
+                type: 'boolean',
+                description: 'Treat the pattern as plain text instead of a regular expression (default: false)'
+            },
+            case_insensitive: {
+                type: 'boolean',
+                description: 'Ignore case when matching (default: false)'
+            },
+            include: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only search files matching these globs, e.g. ["*.ts", "src/**/*.tsx"]. Globs without "/" match the file name.'
+            },
+            exclude: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Skip files matching these globs, e.g. ["*.test.ts"]'
+            },
+            context: {
+                type: 'number',
+                description: 'Number of lines to show before and after each match (default 0, max 10)'
+            },
+            include_ignored: {
+                type: 'boolean',
+                description: 'Also search node_modules, .git and other generated folders (default: false)'
+            },
+            max_results: {
+                type: 'number',
+                description: `Maximum number of matches to return (default ${AGENT_CONSTANTS.SEARCH_DEFAULT_RESULTS}, max ${AGENT_CONSTANTS.SEARCH_MAX_RESULTS})`
+            }
+        },
+        required: ['pattern']
+    }
+};
+
+class SearchTextExecutor extends BaseToolExecutor {
+    readonly name = 'search_text';
+    readonly schema = SearchTextSchema;
+
+    isAllowedInMode(mode: 'chat' | 'code' | 'cowork'): boolean {
+        return mode !== 'chat'; // Not available in chat mode
+    }
+
+    validate(input: ToolInput): { ok: true } | { ok: false; error: string } {
+        const args = input as { pattern?: unknown; literal?: unknown };
+        if (typeof args.pattern !== 'string' || args.pattern === '') {
+            return { ok: false, error: 'Error: pattern is required.' };
+        }
+        if (args.literal !== true) {
+            try {
+                new RegExp(args.pattern);
+            } catch (error) {
+                return { ok: false, error: `Error: pattern is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}` };
+            }
+        }
+        return { ok: true };
+    }
+
+    async execute(input: ToolInput, context: ToolExecutionContext): Promise<ToolResult> {
+        const args = input as {
+            pattern: string;
+            path?: string;
+            literal?: boolean;
+            case_insensitive?: boolean;
+            include?: string[] | string;
+            exclude?: string[] | string;
+            context?: number;
+            include_ignored?: boolean;
+            max_results?: number;
+        };
+        const root = resolveSearchRoot(args.path);
+        if (!root) {
+            return 'Error: 尚未选择授权目录，无法搜索文件。';
+        }
+
+        const result = await searchText(root, {
+            pattern: args.pattern,
+            literal: args.literal === true,
+            caseInsensitive: args.case_insensitive === true,
+            include: toGlobList(args.include),
+            exclude: toGlobList(args.exclude),
+            context: Math.min(Math.max(Math.floor(Number(args.context) || 0), 0), 10),
+            maxResults: clampResults(args.max_results),
+            includeIgnored: args.include_ignored === true,
+            signal: context.signal
+        });
+
+        const skipped = result.skippedFiles > 0
+            ? `\n[${result.skippedFiles} files skipped: larger than ${Math.round(AGENT_CONSTANTS.SEARCH_MAX_FILE_BYTES / 1024 / 1024)}MB or unreadable]`
+            : '';
+        if (result.matchCount === 0) {
+            return `No matches for "${args.pattern}" in ${root} (${result.filesScanned} files searched)${skipped}`;
+        }
+        const header = `Found ${result.matchCount}${result.truncated ? '+' : ''} matches in ${result.fileCount} files under ${root}:`;
+        const note = result.truncated ? '\n[Results truncated. Narrow the search with include/path or raise max_results.]' : '';
+        return `${header}\n${result.lines.join('\n')}${note}${skipped}`;
+    }
+}
+
+// ============================================================================
+// Export all search tool executors
+// ============================================================================
+
+export const searchToolExecutors: ToolExecutor[] = [
+    new GlobFilesExecutor(),
+    new SearchTextExecutor()
+];
+
+export { GlobFilesSchema, SearchTextSchema };
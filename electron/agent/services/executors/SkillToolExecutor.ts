@@ -13,7 +13,10 @@ import {
 } from '../ToolExecutor';
 import Anthropic from '@anthropic-ai/sdk';
 import { SkillManager } from '../../skills/SkillManager';
+import { SKILLS_DIR } from '../../skills/skillPaths';
 import { configStore } from '../../../config/ConfigStore';
+import { permissionManager } from '../../security/PermissionManager';
+import { specFromConfig, toContainerPath } from '../../container/containerSpec';
 
 // ============================================================================
 // Skill Tool Executor
@@ -47,14 +50,18 @@ class SkillToolExecutor extends BaseToolExecutor {
         let executionInstruction = '';
 
         if (mode === 'docker') {
-            // Docker Sandbox Mode
-            // Mount the skill directory to /app and set it as working directory
-            // Use --rm to clean up container after exit
-            // Use python:3.10-slim as default image (lightweight)
+            // Docker Mode: run_command already executes inside this session's container,
+            // where the skills folder is mounted read-only at the same path
+            const docker = configStore.getDockerExecution();
+            const spec = specFromConfig(docker, permissionManager.getAuthorizedFolders(), [SKILLS_DIR], configStore.getNetworkAccess());
+            const skillDir = toContainerPath(spec, skillInfo.skillDir);
             executionInstruction = `
-run_command: docker run --rm -v "${skillInfo.skillDir}:/app" -w /app python:3.10-slim python /app/your_script.py
+Commands run inside a Docker container (image: ${docker.image}). Authorized folders are mounted at ${spec.mounts.filter(m => !m.readOnly).map(m => m.containerPath).join(', ') || '(none)'}; the skill directory is read-only.
 
-Note: Ensure your script is relative to the skill directory.
+run_command: python "${skillDir}/your_script.py"
+
+Or add to the top of your script:
+import sys; sys.path.insert(0, r"${skillDir}")
 `;
         } else {
             // Host Mode (Default)
@@ -66,11 +73,16 @@ import sys; sys.path.insert(0, r"${skillInfo.skillDir}")
 `;
         }
 
+        // Skill scripts run through run_command, so they inherit the command sandbox
+        const sandboxNote = mode !== 'docker' && configStore.getCommandSandbox().enabled
+            ? `SANDBOX: Commands run in a sandbox. Only the authorized folders are writable${configStore.getNetworkAccess() ? '' : ' and there is no network access'}; write outputs to the working directory, not the skill directory.\n`
+            : '';
+
         return `[SKILL LOADED: ${this.name}]
 
 SKILL DIRECTORY: ${skillInfo.skillDir}
 EXECUTION MODE: ${mode.toUpperCase()}
-
+${sandboxNote}
 Follow these instructions to complete the user's request. When the instructions reference Python modules in core/, create your script in the working directory and run it using the command below:
 
 ${executionInstruction}
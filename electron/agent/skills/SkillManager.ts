@@ -3,6 +3,7 @@ import path from 'path';
 import yaml from 'js-yaml';
 import os from 'os';
 import { app } from 'electron';
+import { SKILLS_DIR } from './skillPaths';
 
 export interface SkillDefinition {
     name: string;
@@ -17,7 +18,7 @@ export class SkillManager {
     private skills: Map<string, SkillDefinition> = new Map();
 
     constructor() {
-        this.skillsDir = path.join(os.homedir(), '.bingowork', 'skills');
+        this.skillsDir = SKILLS_DIR;
         this.oldSkillsDir = path.join(os.homedir(), '.opencowork', 'skills');
     }
 
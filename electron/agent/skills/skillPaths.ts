@@ -0,0 +1,9 @@
+/**
+ * Skill folder locations (kept free of Electron imports so tool executors can use them)
+ */
+
+import os from 'os';
+import path from 'path';
+
+// Where user and built-in skills live; also mounted into Docker execution containers
+export const SKILLS_DIR = path.join(os.homedir(), '.bingowork', 'skills');
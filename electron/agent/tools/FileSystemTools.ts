@@ -1,6 +1,11 @@
 import fs from 'fs/promises';
+import { createReadStream } from 'fs';
 import path from 'path';
+import readline from 'readline';
 import { parseCommandToSafe } from '../security/CommandSecurity';
+import { AGENT_CONSTANTS } from '../AgentConstants';
+import { isBinaryContent } from './SearchTools';
+import type { CommandLauncher } from '../process/types';
 
 // Type definitions for FileSystemTools
 export interface ToolInput {
@@ -27,11 +32,13 @@ export type StreamCallback = (chunk: string, type: 'stdout' | 'stderr') => void;
 
 export const ReadFileSchema = {
     name: "read_file",
-    description: "Read the content of a file from the local filesystem. Use this to analyze code or documents.",
+    description: "Read the content of a file from the local filesystem as numbered lines. Use offset/limit to page through large files.",
     input_schema: {
         type: "object" as const,
         properties: {
-            path: { type: "string", description: "Absolute path to the file." }
+            path: { type: "string", description: "Absolute path to the file." },
+            offset: { type: "number", description: "1-based line number to start reading from." },
+            limit: { type: "number", description: "Maximum number of lines to read." }
         },
         required: ["path"]
     }
@@ -77,10 +84,78 @@ export const RunCommandSchema = {
 
 export class FileSystemTools {
 
-    async readFile(args: { path: string }) {
+    /**
+     * Read a file as numbered lines (cat -n style), starting at the 1-based
+     * `offset` line and returning at most `limit` lines. Binary files and
+     * directories are reported instead of dumped.
+     */
+    async readFile(args: { path: string, offset?: number, limit?: number }) {
         try {
-            const content = await fs.readFile(args.path, 'utf-8');
-            return `Successfully read file ${args.path}: \n${content} `;
+            const stats = await fs.stat(args.path);
+            if (stats.isDirectory()) {
+                return `Error reading file: ${args.path} is a directory, use list_dir or glob_files instead `;
+            }
+
+            const head = Buffer.alloc(Math.min(8000, stats.size));
+            const handle = await fs.open(args.path, 'r');
+            try {
+                await handle.read(head, 0, head.length, 0);
+            } finally {
+                await handle.close();
+            }
+            if (isBinaryContent(head)) {
+                return `Error reading file: ${args.path} appears to be a binary file (${stats.size} bytes) `;
+            }
+
+            const offset = Math.max(1, Math.floor(args.offset ?? 1));
+            const limit = Math.max(1, Math.floor(args.limit ?? AGENT_CONSTANTS.READ_FILE_DEFAULT_LINES));
+            // Counting every line of a huge file costs a full read, so only do it for reasonable sizes
+            const countAll = stats.size <= AGENT_CONSTANTS.READ_FILE_COUNT_LINES_MAX_BYTES;
+
+            const output: string[] = [];
+            let outputChars = 0;
+            let lineNo = 0;
+            let lastLine = offset - 1;
+            let cappedByOutput = false;
+
+            const rl = readline.createInterface({ input: createReadStream(args.path, { encoding: 'utf-8' }), crlfDelay: Infinity });
+            try {
+                for await (const line of rl) {
+                    lineNo++;
+                    if (lineNo < offset || cappedByOutput || lineNo >= offset + limit) {
+                        if (lineNo >= offset + limit && !countAll) break;
+                        continue;
+                    }
+                    const max = AGENT_CONSTANTS.READ_FILE_MAX_LINE_CHARS;
+                    const text = line.length > max ? `${line.slice(0, max)}… [line truncated, ${line.length - max} more chars]` : line;
+                    const numbered = `${String(lineNo).padStart(6)}\t${text}`;
+                    if (outputChars + numbered.length > AGENT_CONSTANTS.READ_FILE_MAX_OUTPUT_CHARS && output.length > 0) {
+                        cappedByOutput = true;
+                        if (!countAll) break;
+                        continue;
+                    }
+                    output.push(numbered);
+                    outputChars += numbered.length + 1;
+                    lastLine = lineNo;
+                }
+            } finally {
+                rl.close();
+            }
+
+            const total = countAll ? lineNo : null;
+            if (total === 0) {
+                return `Successfully read file ${args.path}: (empty file) `;
+            }
+            if (output.length === 0) {
+                return `Error reading file: offset ${offset} is past the end of ${args.path} (${lineNo} lines) `;
+            }
+
+            const range = `lines ${offset}-${lastLine} of ${total ?? 'unknown'}`;
+            const hasMore = total === null || lastLine < total;
+            const note = hasMore
+                ? `\n[${total === null ? 'More lines' : `${total - lastLine} more lines`} not shown. Use offset=${lastLine + 1} to continue reading.]`
+                : '';
+            return `Successfully read file ${args.path} (${range}): \n${output.join('\n')}${note} `;
         } catch (error: unknown) {
             return `Error reading file: ${error instanceof Error ? error.message : String(error)} `;
         }
@@ -116,7 +191,8 @@ export class FileSystemTools {
         args: { command: string, cwd?: string },
         defaultCwd: string,
         onOutput: (chunk: string, type: 'stdout' | 'stderr') => void,
-        signal?: AbortSignal
+        signal?: AbortSignal,
+        launcher?: CommandLauncher | null
     ): Promise<string> {
         const workingDir = args.cwd || defaultCwd;
 
@@ -128,21 +204,40 @@ export class FileSystemTools {
         const useShell = /[|&;<>()$`\\"']/.test(args.command); // Detect shell features
 
         return new Promise((resolve) => {
-            console.log(`[FileSystemTools] Executing command (stream): ${args.command} in ${workingDir}`);
-
-            // SECURITY: Use parameterized execution when possible
-            const child = useShell
-                ? spawn(args.command, {
-                    cwd: workingDir,
-                    shell: process.platform === 'win32' ? 'powershell.exe' : '/bin/bash'
-                })
-                : spawn(parsed.command, parsed.args || [], {
-                    cwd: workingDir,
-                    shell: false  // SECURITY: Prevent shell interpretation
-                });
+            console.log(`[FileSystemTools] Executing command (stream${launcher ? `, ${launcher.label}` : ''}): ${args.command} in ${workingDir}`);
+
+            let child;
+            if (launcher) {
+                // SECURITY: The launcher runs the (shell) command inside the sandbox or container
+                const launch = useShell
+                    ? launcher.wrap(workingDir, launcher.shell, ['-c', args.command])
+                    : launcher.wrap(workingDir, parsed.command, parsed.args || []);
+                child = spawn(launch.file, launch.args, { cwd: workingDir, shell: false });
+            } else {
+                // SECURITY: Use parameterized execution when possible
+                child = useShell
+                    ? spawn(args.command, {
+                        cwd: workingDir,
+                        shell: process.platform === 'win32' ? 'powershell.exe' : '/bin/bash'
+                    })
+                    : spawn(parsed.command, parsed.args || [], {
+                        cwd: workingDir,
+                        shell: false  // SECURITY: Prevent shell interpretation
+                    });
+            }
 
             const timeoutMs = 120_000;
             const maxOutputChars = 1_000_000;
+            const location = launcher ? `${workingDir} (${launcher.label})` : workingDir;
+
+            const stopChild = () => {
+                try {
+                    child.kill();
+                } catch {
+                    void 0;
+                }
+                launcher?.kill?.();
+            };
 
             let settled = false;
             let timeoutHandle: ReturnType<typeof setTimeout> | null = null;
@@ -155,11 +250,7 @@ export class FileSystemTools {
 
             if (signal) {
                 signal.addEventListener('abort', () => {
-                    try {
-                        child.kill();
-                    } catch {
-                        void 0;
-                    }
+                    stopChild();
                     settle(`Command execution aborted by user.`);
                 });
             }
@@ -174,14 +265,10 @@ export class FileSystemTools {
                 onOutput(chunk, type);
 
                 if (fullOutput.length > maxOutputChars) {
-                    try {
-                        child.kill();
-                    } catch {
-                        void 0;
-                    }
+                    stopChild();
                     const truncated = fullOutput.slice(0, maxOutputChars);
                     settle(
-                        `Command '${args.command}' executed in ${workingDir}.\\nExit Code: null\\n\\nOutput (truncated):\\n${truncated}\\n\\n[Output truncated and process terminated due to hard limit.]`
+                        `Command '${args.command}' executed in ${location}.\\nExit Code: null\\n\\nOutput (truncated):\\n${truncated}\\n\\n[Output truncated and process terminated due to hard limit.]`
                     );
                 }
             };
@@ -190,13 +277,9 @@ export class FileSystemTools {
             child.stderr?.on('data', (data) => handleOutput(data, 'stderr'));
 
             timeoutHandle = setTimeout(() => {
-                try {
-                    child.kill();
-                } catch {
-                    void 0;
-                }
+                stopChild();
                 settle(
-                    `Command '${args.command}' executed in ${workingDir}.\\nExit Code: null\\n\\nOutput:\\n${fullOutput}\\n\\n[Process terminated due to hard timeout: ${timeoutMs}ms]`
+                    `Command '${args.command}' executed in ${location}.\\nExit Code: null\\n\\nOutput:\\n${fullOutput}\\n\\n[Process terminated due to hard timeout: ${timeoutMs}ms]`
                 );
             }, timeoutMs);
 
@@ -207,7 +290,7 @@ export class FileSystemTools {
             });
 
             child.on('close', (code) => {
-                const finalResponse = `Command '${args.command}' executed in ${workingDir}.\\nExit Code: ${code}\\n\\nOutput:\\n${fullOutput}`;
+                const finalResponse = `Command '${args.command}' executed in ${location}.\\nExit Code: ${code}\\n\\nOutput:\\n${fullOutput}`;
                 settle(finalResponse);
             });
         });
@@ -1,13 +1,14 @@
 
 import { Anthropic } from '@anthropic-ai/sdk';
 import { getMemoryManager } from '../memory/MemoryManager';
+import { describeMemoryScope, expiryFromTtlDays, isMemoryScope } from '../memory/memoryScope';
 
 /**
  * Tool schema for recording a fact (adding memory)
  */
 export const RecordFactSchema: Anthropic.Tool = {
     name: 'record_fact',
-    description: 'Save an important fact, user preference, or project context for permanent memory. Use this when you learn something that should be remembered across different sessions.',
+    description: 'Save an important fact, user preference, or project context for permanent memory. Use this when you learn something that should be remembered across different sessions. Choose the scope so facts about one project do not show up in unrelated work.',
     input_schema: {
         type: 'object',
         properties: {
@@ -19,6 +20,15 @@ export const RecordFactSchema: Anthropic.Tool = {
                 type: 'array',
                 items: { type: 'string' },
                 description: 'Optional tags to categorize the memory (e.g., "preference", "background", "technical").'
+            },
+            scope: {
+                type: 'string',
+                enum: ['global', 'project', 'session'],
+                description: 'Where the fact applies: "global" for the user and their general preferences (default), "project" for the current working directory\'s project, "session" for context that only matters in this conversation.'
+            },
+            ttl_days: {
+                type: 'number',
+                description: 'Optional lifetime in days for transient context (e.g., a deadline this week); the memory is forgotten afterwards.'
             }
         },
         required: ['fact']
@@ -30,7 +40,7 @@ export const RecordFactSchema: Anthropic.Tool = {
  */
 export const SearchMemorySchema: Anthropic.Tool = {
     name: 'search_memory',
-    description: 'Search through previously saved facts, user preferences, and permanent memories. Use this proactively when asked about the user identity, their history, or past interactions to recall relevant context.',
+    description: 'Search through previously saved facts, user preferences, and permanent memories. Use this proactively when asked about the user identity, their history, or past interactions to recall relevant context. Covers global memories plus those of the current project and session.',
     input_schema: {
         type: 'object',
         properties: {
@@ -52,7 +62,7 @@ export const SearchMemorySchema: Anthropic.Tool = {
  */
 export const ListMemoriesSchema: Anthropic.Tool = {
     name: 'list_memories',
-    description: 'List the most recent permanent memories. Use this as a first step to understand who the user is and what they have previously shared if no specific search query is obvious.',
+    description: 'List the most recent permanent memories. Use this as a first step to understand who the user is and what they have previously shared if no specific search query is obvious. Only global memories and those of the current project and session are listed.',
     input_schema: {
         type: 'object',
         properties: {
@@ -90,10 +100,20 @@ export class MemoryTools {
     /**
      * Record a new fact
      */
-    async recordFact(args: { fact: string; tags?: string[] }): Promise<string> {
+    async recordFact(args: { fact: string; tags?: string[]; scope?: string; ttl_days?: number }): Promise<string> {
+        if (args.scope !== undefined && !isMemoryScope(args.scope)) {
+            return `Error: scope must be one of global, project, session.`;
+        }
         const memoryManager = getMemoryManager();
-        const memory = await memoryManager.addMemory(args.fact, args.tags || []);
-        return `Fact recorded successfully. Memory ID: ${memory.id}`;
+        try {
+            const memory = await memoryManager.addMemory(args.fact, args.tags || [], {
+                scope: args.scope,
+                expiresAt: expiryFromTtlDays(args.ttl_days)
+            });
+            return `Fact recorded successfully (${describeMemoryScope(memory)}). Memory ID: ${memory.id}`;
+        } catch (error) {
+            return `Error: ${(error as Error).message}`;
+        }
     }
 
     /**
@@ -110,7 +130,7 @@ export class MemoryTools {
             return `No matching memories found for query: "${args.query}"`;
         }
 
-        const formatted = memories.map(m => `[ID: ${m.id}] ${m.content} (Tags: ${m.tags?.join(', ') || 'none'})`).join('\n---\n');
+        const formatted = memories.map(m => `[ID: ${m.id}] ${m.content} (Tags: ${m.tags?.join(', ') || 'none'}; Scope: ${describeMemoryScope(m)})`).join('\n---\n');
         return `Found ${memories.length} matching memories:\n\n${formatted}`;
     }
 
@@ -125,7 +145,7 @@ export class MemoryTools {
             return "No permanent memories found.";
         }
 
-        const formatted = memories.map(m => `[ID: ${m.id}] ${m.content} (Created: ${new Date(m.createdAt).toLocaleString()})`).join('\n---\n');
+        const formatted = memories.map(m => `[ID: ${m.id}] ${m.content} (Created: ${new Date(m.createdAt).toLocaleString()}; Scope: ${describeMemoryScope(m)})`).join('\n---\n');
         return `Most recent memories:\n\n${formatted}`;
     }
 
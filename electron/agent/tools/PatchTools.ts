@@ -0,0 +1,417 @@
+/**
+ * Patch Tools
+ *
+ * Pure text helpers behind the edit_file and apply_patch tools: exact string
+ * replacement, unified diff rendering, and unified diff parsing/application
+ * with fuzzy hunk matching (offset search, whitespace tolerance and dropping
+ * outer context lines, in the spirit of GNU patch's fuzz factor).
+ */
+
+export interface DiffLine {
+    type: ' ' | '-' | '+';
+    text: string;
+}
+
+export interface PatchHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: DiffLine[];
+}
+
+export interface FilePatch {
+    // Path as written in the patch with a/ b/ prefixes removed; null for /dev/null
+    oldPath: string | null;
+    newPath: string | null;
+    hunks: PatchHunk[];
+}
+
+export interface HunkPlacement {
+    hunk: number;
+    // Distance in lines from where the hunk header said it would apply
+    offset: number;
+    // Number of outer context lines that had to be ignored
+    fuzz: number;
+    // Matched only after ignoring whitespace differences
+    whitespace: boolean;
+}
+
+export interface ApplyHunksResult {
+    content: string;
+    placements: HunkPlacement[];
+}
+
+export interface ReplaceResult {
+    content: string;
+    count: number;
+}
+
+// Above this many line comparisons the diff falls back to replacing the changed block
+const MAX_DIFF_CELLS = 4_000_000;
+const MAX_FUZZ = 2;
+
+/**
+ * Replace old_string with new_string. Without replaceAll the match must be
+ * unique so the edit cannot land in the wrong place.
+ */
+export function replaceExact(content: string, oldString: string, newString: string, replaceAll = false): ReplaceResult {
+    if (!oldString) {
+        throw new Error('old_string must not be empty');
+    }
+    if (oldString === newString) {
+        throw new Error('old_string and new_string are identical; nothing to change');
+    }
+
+    const positions = findAll(content, oldString);
+    if (positions.length === 0) {
+        const hint = findAll(normalizeWhitespace(content), normalizeWhitespace(oldString)).length > 0
+            ? ' A match exists when whitespace is ignored; copy the exact indentation and line breaks from the file.'
+            : '';
+        throw new Error(`old_string was not found in the file.${hint}`);
+    }
+    if (positions.length > 1 && !replaceAll) {
+        const lines = positions.map(pos => content.slice(0, pos).split('\n').length);
+        throw new Error(
+            `old_string matches ${positions.length} times (lines ${lines.join(', ')}). ` +
+            'Include more surrounding context to make it unique, or set replace_all to true.'
+        );
+    }
+
+    return {
+        content: content.split(oldString).join(newString),
+        count: positions.length
+    };
+}
+
+/**
+ * Render a unified diff between two versions of a file
+ */
+export function createUnifiedDiff(oldContent: string, newContent: string, filePath: string, context = 3): string {
+    const oldLines = splitLines(oldContent);
+    const newLines = splitLines(newContent);
+    const ops = diffLines(oldLines, newLines);
+    if (!ops.some(op => op.type !== ' ')) return '';
+
+    const header = [
+        `--- ${oldContent === '' ? '/dev/null' : `a/${filePath}`}`,
+        `+++ ${newContent === '' ? '/dev/null' : `b/${filePath}`}`
+    ];
+    return [...header, ...buildHunks(ops, context).map(formatHunk)].join('\n') + '\n';
+}
+
+/**
+ * Parse a unified diff (plain or git style) into per-file hunks.
+ * Hunk line counts are taken from the body, so headers with wrong or missing
+ * counts (common in hand-written patches) are still accepted.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+    const lines = patch.replace(/\r\n/g, '\n').split('\n');
+    const files: FilePatch[] = [];
+    let file: FilePatch | null = null;
+    let hunk: PatchHunk | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.startsWith('--- ') && (lines[i + 1] || '').startsWith('+++ ')) {
+            file = {
+                oldPath: parsePatchPath(line.slice(4)),
+                newPath: parsePatchPath(lines[i + 1].slice(4)),
+                hunks: []
+            };
+            files.push(file);
+            hunk = null;
+            i++;
+            continue;
+        }
+
+        const header = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line) || (/^@@/.test(line) ? [] : null);
+        if (header) {
+            if (!file) {
+                throw new Error(`Hunk on line ${i + 1} has no preceding ---/+++ file header`);
+            }
+            hunk = {
+                oldStart: Number(header[1] || 0),
+                oldLines: 0,
+                newStart: Number(header[3] || 0),
+                newLines: 0,
+                lines: []
+            };
+            file.hunks.push(hunk);
+            continue;
+        }
+
+        if (!hunk) continue;
+
+        if (line.startsWith('\\')) {
+            // "\ No newline at end of file" only affects the last line; handled by content
+            continue;
+        }
+        const type = line[0];
+        if (type === ' ' || type === '-' || type === '+') {
+            hunk.lines.push({ type, text: line.slice(1) });
+            if (type !== '+') hunk.oldLines++;
+            if (type !== '-') hunk.newLines++;
+        } else if (line === '') {
+            // Editors and models often strip the single space of empty context lines
+            let next = i + 1;
+            while (next < lines.length && lines[next] === '') next++;
+            if (next < lines.length && /^[ +-]/.test(lines[next]) && !lines[next].startsWith('--- ')) {
+                hunk.lines.push({ type: ' ', text: '' });
+                hunk.oldLines++;
+                hunk.newLines++;
+            }
+        } else {
+            // diff --git, index, mode lines etc. end the hunk
+            hunk = null;
+        }
+    }
+
+    const withHunks = files.filter(f => f.hunks.length > 0 || f.oldPath === null || f.newPath === null);
+    if (withHunks.length === 0) {
+        throw new Error('No file changes found in patch; expected unified diff format with ---/+++ headers and @@ hunks');
+    }
+    return withHunks;
+}
+
+/**
+ * Apply hunks to file content. Each hunk is searched for near the line its
+ * header names, first exactly, then ignoring whitespace, then with up to two
+ * outer context lines dropped. Throws if a hunk cannot be placed.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): ApplyHunksResult {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const endsWithNewline = content === '' || content.endsWith('\n');
+    const lines = splitLines(content);
+    const placements: HunkPlacement[] = [];
+    // Lines before this index were already produced by earlier hunks
+    let floor = 0;
+    let delta = 0;
+
+    hunks.forEach((hunk, index) => {
+        const placement = placeHunk(lines, hunk, floor, Math.max(0, hunk.oldStart - 1) + delta);
+        if (!placement) {
+            const expected = hunk.lines.filter(l => l.type !== '+').map(l => l.text);
+            throw new Error(
+                `Hunk #${index + 1} (@@ -${hunk.oldStart} @@) does not match the file. Expected lines:\n` +
+                expected.slice(0, 8).join('\n') + (expected.length > 8 ? '\n...' : '')
+            );
+        }
+
+        const { start, lead, trail, whitespace } = placement;
+        const body = hunk.lines.slice(lead, hunk.lines.length - trail);
+        const replacement: string[] = [];
+        let cursor = start;
+        for (const line of body) {
+            if (line.type === '+') {
+                replacement.push(line.text);
+            } else {
+                // Keep the file's own version of context lines (it may differ in whitespace)
+                if (line.type === ' ') replacement.push(lines[cursor]);
+                cursor++;
+            }
+        }
+
+        lines.splice(start, cursor - start, ...replacement);
+        placements.push({
+            hunk: index + 1,
+            offset: start - (Math.max(0, hunk.oldStart - 1) + delta + lead),
+            fuzz: Math.max(lead, trail),
+            whitespace
+        });
+        floor = start + replacement.length;
+        delta += replacement.length - (cursor - start);
+    });
+
+    let result = lines.join(eol);
+    if (lines.length > 0 && endsWithNewline) result += eol;
+    return { content: result, placements };
+}
+
+/**
+ * Describe hunks that did not apply cleanly, for the tool result
+ */
+export function describePlacements(placements: HunkPlacement[]): string[] {
+    return placements
+        .filter(p => p.offset !== 0 || p.fuzz > 0 || p.whitespace)
+        .map(p => {
+            const notes = [];
+            if (p.offset !== 0) notes.push(`offset ${p.offset > 0 ? '+' : ''}${p.offset} line(s)`);
+            if (p.fuzz > 0) notes.push(`fuzz ${p.fuzz}`);
+            if (p.whitespace) notes.push('ignoring whitespace');
+            return `Hunk #${p.hunk} applied with ${notes.join(', ')}`;
+        });
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+function findAll(haystack: string, needle: string): number[] {
+    const positions: number[] = [];
+    let from = 0;
+    while (needle) {
+        const pos = haystack.indexOf(needle, from);
+        if (pos === -1) break;
+        positions.push(pos);
+        from = pos + needle.length;
+    }
+    return positions;
+}
+
+function normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function splitLines(content: string): string[] {
+    if (content === '') return [];
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+function parsePatchPath(raw: string): string | null {
+    // Drop a trailing timestamp ("file.ts\t2024-01-01 ...") and quotes
+    const value = raw.split('\t')[0].trim().replace(/^"|"$/g, '');
+    if (value === '/dev/null') return null;
+    return value.replace(/^[ab]\//, '');
+}
+
+type Placement = { start: number; lead: number; trail: number; whitespace: boolean };
+
+function placeHunk(lines: string[], hunk: PatchHunk, floor: number, expected: number): Placement | null {
+    const leadingContext = countWhile(hunk.lines, l => l.type === ' ');
+    const trailingContext = countWhile([...hunk.lines].reverse(), l => l.type === ' ');
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+        const lead = Math.min(fuzz, leadingContext);
+        const trail = Math.min(fuzz, trailingContext);
+        if (fuzz > 0 && lead === 0 && trail === 0) break;
+
+        const body = hunk.lines.slice(lead, hunk.lines.length - trail);
+        const old = body.filter(l => l.type !== '+').map(l => l.text);
+        // A pure insertion with no context can only go where the header says
+        if (old.length === 0) {
+            return { start: Math.min(Math.max(expected + lead, floor), lines.length), lead, trail, whitespace: false };
+        }
+
+        for (const compare of [exactEquals, whitespaceEquals]) {
+            const start = searchNear(lines, old, floor, expected + lead, compare);
+            if (start !== -1) {
+                return { start, lead, trail, whitespace: compare === whitespaceEquals };
+            }
+        }
+    }
+    return null;
+}
+
+function searchNear(lines: string[], old: string[], floor: number, expected: number, equals: (a: string, b: string) => boolean): number {
+    const last = lines.length - old.length;
+    if (last < floor) return -1;
+    const origin = Math.min(Math.max(expected, floor), last);
+
+    const matchesAt = (start: number) => old.every((text, i) => equals(lines[start + i], text));
+    // Search outwards from the expected position, closest match first
+    for (let distance = 0; origin - distance >= floor || origin + distance <= last; distance++) {
+        if (origin + distance <= last && matchesAt(origin + distance)) return origin + distance;
+        if (distance > 0 && origin - distance >= floor && matchesAt(origin - distance)) return origin - distance;
+    }
+    return -1;
+}
+
+function exactEquals(a: string, b: string): boolean {
+    return a === b;
+}
+
+function whitespaceEquals(a: string, b: string): boolean {
+    return a.replace(/\s+/g, '') === b.replace(/\s+/g, '');
+}
+
+function countWhile<T>(items: T[], predicate: (item: T) => boolean): number {
+    let count = 0;
+    while (count < items.length && predicate(items[count])) count++;
+    return count;
+}
+
+/**
+ * Line-level edit script. Common prefix and suffix are trimmed first; the rest
+ * uses an LCS table, or a plain remove/add block when that would be too large.
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const ops: DiffLine[] = a.slice(0, prefix).map(text => ({ type: ' ' as const, text }));
+
+    if (midA.length * midB.length > MAX_DIFF_CELLS) {
+        ops.push(...midA.map(text => ({ type: '-' as const, text })));
+        ops.push(...midB.map(text => ({ type: '+' as const, text })));
+    } else {
+        const n = midA.length;
+        const m = midB.length;
+        // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+        const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && midA[i] === midB[j]) {
+                ops.push({ type: ' ', text: midA[i] });
+                i++;
+                j++;
+            } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+                // Removals before additions, as diff -u prints them
+                ops.push({ type: '-', text: midA[i++] });
+            } else {
+                ops.push({ type: '+', text: midB[j++] });
+            }
+        }
+    }
+
+    ops.push(...a.slice(a.length - suffix).map(text => ({ type: ' ' as const, text })));
+    return ops;
+}
+
+function buildHunks(ops: DiffLine[], context: number): PatchHunk[] {
+    const hunks: PatchHunk[] = [];
+    const changed = ops.map((op, index) => (op.type !== ' ' ? index : -1)).filter(index => index !== -1);
+
+    let i = 0;
+    while (i < changed.length) {
+        const first = changed[i];
+        let last = first;
+        // Merge changes whose context windows touch
+        while (i + 1 < changed.length && changed[i + 1] - last <= context * 2 + 1) {
+            last = changed[++i];
+        }
+        i++;
+
+        const from = Math.max(0, first - context);
+        const to = Math.min(ops.length, last + context + 1);
+        const before = ops.slice(0, from);
+        const lines = ops.slice(from, to);
+        const oldLines = lines.filter(l => l.type !== '+').length;
+        const newLines = lines.filter(l => l.type !== '-').length;
+        const oldStart = before.filter(l => l.type !== '+').length + (oldLines > 0 ? 1 : 0);
+        const newStart = before.filter(l => l.type !== '-').length + (newLines > 0 ? 1 : 0);
+        hunks.push({ oldStart, oldLines, newStart, newLines, lines });
+    }
+    return hunks;
+}
+
+function formatHunk(hunk: PatchHunk): string {
+    return [
+        `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+        ...hunk.lines.map(line => `${line.type}${line.text}`)
+    ].join('\n');
+}
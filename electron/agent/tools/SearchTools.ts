@@ -0,0 +1,282 @@
+/**
+ * Search Tools
+ *
+ * Native Node implementations behind glob_files and search_text: glob matching,
+ * a bounded directory walk and a ripgrep-style regex search with context lines.
+ * Callers pass an already authorized root; the walk never follows symlinks, so
+ * it cannot leave that folder.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { AGENT_CONSTANTS, WALK_IGNORED_DIRS } from '../AgentConstants';
+
+export interface WalkOptions {
+    // Also descend into node_modules, .git and the other generated directories
+    includeIgnored?: boolean;
+    maxFiles?: number;
+    signal?: AbortSignal;
+}
+
+export interface WalkedFile {
+    absPath: string;
+    // Path relative to the walk root, always with forward slashes
+    relPath: string;
+}
+
+export interface GlobResult {
+    files: string[];
+    truncated: boolean;
+}
+
+export interface SearchTextOptions extends WalkOptions {
+    pattern: string;
+    literal?: boolean;
+    caseInsensitive?: boolean;
+    include?: string[];
+    exclude?: string[];
+    context?: number;
+    maxResults?: number;
+}
+
+export interface SearchTextResult {
+    // ripgrep-style lines: "file:line:text" for matches, "file-line-text" for context, "--" between groups
+    lines: string[];
+    matchCount: number;
+    fileCount: number;
+    filesScanned: number;
+    skippedFiles: number;
+    truncated: boolean;
+}
+
+/**
+ * Translate a glob to an anchored regular expression.
+ * Supports **, *, ?, [abc], [!abc] and {a,b}; paths use forward slashes.
+ */
+export function globToRegExp(glob: string): RegExp {
+    return new RegExp(`^${globBody(glob.replace(/\\/g, '/').replace(/^\.\//, ''))}$`);
+}
+
+/**
+ * Whether a relative path matches a filter glob. Globs without a slash match the
+ * file name at any depth (like ripgrep's --glob), others match the whole path.
+ */
+export function matchesFilterGlob(relPath: string, glob: string): boolean {
+    const target = glob.includes('/') ? relPath : relPath.split('/').pop() || relPath;
+    return globToRegExp(glob).test(target);
+}
+
+/**
+ * NUL bytes in the first block are the usual sign of a binary file
+ */
+export function isBinaryContent(buffer: Buffer): boolean {
+    const sample = buffer.subarray(0, 8000);
+    return sample.includes(0);
+}
+
+/**
+ * Regular files under root, depth first in name order
+ */
+export async function* walkFiles(root: string, options: WalkOptions = {}): AsyncGenerator<WalkedFile> {
+    const pending: string[] = [''];
+    let yielded = 0;
+    const maxFiles = options.maxFiles ?? AGENT_CONSTANTS.SEARCH_MAX_FILES_SCANNED;
+
+    while (pending.length > 0) {
+        if (options.signal?.aborted) return;
+        const rel = pending.pop()!;
+        let entries;
+        try {
+            entries = await fs.readdir(path.join(root, rel), { withFileTypes: true });
+        } catch {
+            continue;
+        }
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+
+        const dirs: string[] = [];
+        for (const entry of entries) {
+            const entryRel = rel ? `${rel}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (options.includeIgnored || !WALK_IGNORED_DIRS.has(entry.name)) dirs.push(entryRel);
+            } else if (entry.isFile()) {
+                if (yielded >= maxFiles) return;
+                yielded++;
+                yield { absPath: path.join(root, entryRel), relPath: entryRel };
+            }
+        }
+        // Reverse so the stack pops directories in name order
+        pending.push(...dirs.reverse());
+    }
+}
+
+/**
+ * Files under root whose relative path matches the glob, sorted by path
+ */
+export async function globFiles(root: string, glob: string, maxResults: number, options: WalkOptions = {}): Promise<GlobResult> {
+    const normalized = glob.replace(/\\/g, '/').replace(/^\.\//, '');
+    const matcher = globToRegExp(normalized);
+    // Start below the literal leading directories of the pattern ("src/**/*.ts" walks only src)
+    const segments = normalized.split('/');
+    const literal: string[] = [];
+    while (segments.length > 1 && !/[*?[{]/.test(segments[0])) literal.push(segments.shift()!);
+    const base = literal.join('/');
+
+    const files: string[] = [];
+    for await (const file of walkFiles(path.join(root, base), options)) {
+        const relPath = base ? `${base}/${file.relPath}` : file.relPath;
+        if (!matcher.test(relPath)) continue;
+        if (files.length >= maxResults) {
+            return { files: files.sort(), truncated: true };
+        }
+        files.push(relPath);
+    }
+    return { files: files.sort(), truncated: false };
+}
+
+/**
+ * Regex search over the files under root (or a single file)
+ */
+export async function searchText(root: string, options: SearchTextOptions): Promise<SearchTextResult> {
+    const flags = options.caseInsensitive ? 'i' : '';
+    const source = options.literal ? options.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : options.pattern;
+    const regex = new RegExp(source, flags);
+    const context = Math.max(0, options.context ?? 0);
+    const maxResults = options.maxResults ?? AGENT_CONSTANTS.SEARCH_DEFAULT_RESULTS;
+
+    const result: SearchTextResult = { lines: [], matchCount: 0, fileCount: 0, filesScanned: 0, skippedFiles: 0, truncated: false };
+
+    const stats = await fs.stat(root);
+    const files: AsyncIterable<WalkedFile> | WalkedFile[] = stats.isFile()
+        ? [{ absPath: root, relPath: path.basename(root) }]
+        : walkFiles(root, options);
+
+    for await (const file of files) {
+        if (options.include?.length && !options.include.some(glob => matchesFilterGlob(file.relPath, glob))) continue;
+        if (options.exclude?.some(glob => matchesFilterGlob(file.relPath, glob))) continue;
+
+        result.filesScanned++;
+        let buffer: Buffer;
+        try {
+            const size = (await fs.stat(file.absPath)).size;
+            if (size > AGENT_CONSTANTS.SEARCH_MAX_FILE_BYTES) {
+                result.skippedFiles++;
+                continue;
+            }
+            buffer = await fs.readFile(file.absPath);
+        } catch {
+            result.skippedFiles++;
+            continue;
+        }
+        if (isBinaryContent(buffer)) continue;
+
+        const lines = buffer.toString('utf-8').split(/\r?\n/);
+        const matched = lines.map((line, index) => (regex.test(line) ? index : -1)).filter(index => index !== -1);
+        if (matched.length === 0) continue;
+        const matchedSet = new Set(matched);
+
+        result.fileCount++;
+        let lastPrinted = -1;
+        for (const index of matched) {
+            if (result.matchCount >= maxResults) {
+                result.truncated = true;
+                return result;
+            }
+            const from = Math.max(index - context, lastPrinted + 1);
+            if (context > 0 && lastPrinted !== -1 && from > lastPrinted + 1) result.lines.push('--');
+            if (context > 0 && lastPrinted === -1 && result.lines.length > 0) result.lines.push('--');
+            for (let i = from; i <= Math.min(index + context, lines.length - 1); i++) {
+                if (i <= lastPrinted) continue;
+                const separator = matchedSet.has(i) ? ':' : '-';
+                result.lines.push(`${file.relPath}${separator}${i + 1}${separator}${truncateLine(lines[i])}`);
+                lastPrinted = i;
+            }
+            result.matchCount++;
+        }
+    }
+
+    return result;
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+function truncateLine(line: string): string {
+    const max = AGENT_CONSTANTS.SEARCH_MAX_LINE_CHARS;
+    return line.length > max ? `${line.slice(0, max)}… [${line.length - max} more chars]` : line;
+}
+
+function globBody(glob: string): string {
+    let out = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*') {
+            if (glob[i + 1] === '*') {
+                const atSegmentStart = i === 0 || glob[i - 1] === '/';
+                if (atSegmentStart && glob[i + 2] === '/') {
+                    // "**/" matches zero or more directories
+                    out += '(?:.*/)?';
+                    i += 2;
+                } else if (atSegmentStart && i + 2 === glob.length) {
+                    out += '.*';
+                    i += 1;
+                } else {
+                    out += '[^/]*';
+                    i += 1;
+                }
+            } else {
+                out += '[^/]*';
+            }
+        } else if (ch === '?') {
+            out += '[^/]';
+        } else if (ch === '[') {
+            const close = glob.indexOf(']', i + 2);
+            if (close === -1) {
+                out += '\\[';
+            } else {
+                let set = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+                if (set.startsWith('!')) set = `^${set.slice(1)}`;
+                out += `[${set}]`;
+                i = close;
+            }
+        } else if (ch === '{') {
+            const close = findBraceEnd(glob, i);
+            if (close === -1) {
+                out += '\\{';
+            } else {
+                out += `(?:${splitAlternatives(glob.slice(i + 1, close)).map(globBody).join('|')})`;
+                i = close;
+            }
+        } else {
+            out += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return out;
+}
+
+function findBraceEnd(glob: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < glob.length; i++) {
+        if (glob[i] === '{') depth++;
+        if (glob[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+function splitAlternatives(body: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of body) {
+        if (ch === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        if (ch === '{') depth++;
+        if (ch === '}') depth--;
+        current += ch;
+    }
+    parts.push(current);
+    return parts;
+}
@@ -57,6 +57,26 @@ describe('FileSystemTools', () => {
 
       expect(result).toContain(testContent);
     });
+
+    it('should return numbered lines for the requested range', async () => {
+      const testFilePath = path.join(testDir, 'lines.txt');
+      await fs.writeFile(testFilePath, Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join('\n') + '\n', 'utf-8');
+
+      const result = await fsTools.readFile({ path: testFilePath, offset: 3, limit: 2 });
+
+      expect(result).toContain('(lines 3-4 of 10)');
+      expect(result).toContain('     3\tline 3\n     4\tline 4');
+      expect(result).not.toContain('line 5');
+      expect(result).toContain('Use offset=5 to continue reading');
+    });
+
+    it('should report binary files and directories instead of reading them', async () => {
+      const binaryPath = path.join(testDir, 'image.bin');
+      await fs.writeFile(binaryPath, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+
+      expect(await fsTools.readFile({ path: binaryPath })).toContain('binary file (6 bytes)');
+      expect(await fsTools.readFile({ path: testDir })).toContain('is a directory');
+    });
   });
 
   describe('writeFile', () => {
@@ -0,0 +1,177 @@
+/**
+ * PatchTools Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    applyHunks,
+    createUnifiedDiff,
+    describePlacements,
+    parseUnifiedDiff,
+    replaceExact
+} from '../PatchTools';
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+describe('replaceExact', () => {
+    it('should replace a unique match', () => {
+        expect(replaceExact('const a = 1;\nconst b = 2;\n', 'b = 2', 'b = 3')).toEqual({
+            content: 'const a = 1;\nconst b = 3;\n',
+            count: 1
+        });
+    });
+
+    it('should reject ambiguous matches unless replaceAll is set', () => {
+        const content = 'foo();\nbar();\nfoo();\n';
+
+        expect(() => replaceExact(content, 'foo();', 'baz();')).toThrow('matches 2 times (lines 1, 3)');
+        expect(replaceExact(content, 'foo();', 'baz();', true)).toEqual({ content: 'baz();\nbar();\nbaz();\n', count: 2 });
+    });
+
+    it('should hint at whitespace differences when nothing matches', () => {
+        expect(() => replaceExact('if (x) {\n    run();\n}\n', 'if (x) {\n  run();', 'x')).toThrow('whitespace is ignored');
+        expect(() => replaceExact('abc', 'xyz', 'x')).toThrow('not found');
+        expect(() => replaceExact('abc', 'abc', 'abc')).toThrow('identical');
+    });
+});
+
+describe('createUnifiedDiff', () => {
+    it('should render hunks with context and merge nearby changes', () => {
+        const before = numbered(20);
+        const after = before.replace('line 5\n', 'line five\n').replace('line 8\n', '').replace('line 18\n', 'line 18\nadded\n');
+
+        const diff = createUnifiedDiff(before, after, 'src/a.txt');
+
+        expect(diff).toBe([
+            '--- a/src/a.txt',
+            '+++ b/src/a.txt',
+            '@@ -2,10 +2,9 @@',
+            ' line 2',
+            ' line 3',
+            ' line 4',
+            '-line 5',
+            '+line five',
+            ' line 6',
+            ' line 7',
+            '-line 8',
+            ' line 9',
+            ' line 10',
+            ' line 11',
+            '@@ -16,5 +15,6 @@',
+            ' line 16',
+            ' line 17',
+            ' line 18',
+            '+added',
+            ' line 19',
+            ' line 20',
+            ''
+        ].join('\n'));
+    });
+
+    it('should return an empty string when nothing changed and use /dev/null for new files', () => {
+        expect(createUnifiedDiff('same\n', 'same\n', 'a.txt')).toBe('');
+        expect(createUnifiedDiff('', 'hello\n', 'new.txt')).toBe('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+hello\n');
+    });
+
+    it('should round-trip through parse and apply', () => {
+        const before = numbered(40);
+        const after = before.replace('line 3\n', '').replace('line 30\n', 'LINE 30\nline 30b\n');
+
+        const [file] = parseUnifiedDiff(createUnifiedDiff(before, after, 'x.txt'));
+
+        expect(file.oldPath).toBe('x.txt');
+        expect(applyHunks(before, file.hunks).content).toBe(after);
+    });
+});
+
+describe('parseUnifiedDiff', () => {
+    it('should parse git-style multi-file patches with creation and deletion', () => {
+        const patch = [
+            'diff --git a/src/app.ts b/src/app.ts',
+            'index 1234567..89abcde 100644',
+            '--- a/src/app.ts',
+            '+++ b/src/app.ts',
+            '@@ -1,2 +1,2 @@',
+            ' keep',
+            '-old',
+            '+new',
+            'diff --git a/new.txt b/new.txt',
+            'new file mode 100644',
+            '--- /dev/null',
+            '+++ b/new.txt',
+            '@@ -0,0 +1 @@',
+            '+hello',
+            '--- a/gone.txt',
+            '+++ /dev/null',
+            '@@ -1 +0,0 @@',
+            '-bye',
+            '\\ No newline at end of file'
+        ].join('\n');
+
+        const files = parseUnifiedDiff(patch);
+
+        expect(files.map(f => [f.oldPath, f.newPath])).toEqual([
+            ['src/app.ts', 'src/app.ts'],
+            [null, 'new.txt'],
+            ['gone.txt', null]
+        ]);
+        expect(files[0].hunks[0]).toMatchObject({ oldStart: 1, oldLines: 2, newStart: 1, newLines: 2 });
+        expect(files[2].hunks[0].lines).toEqual([{ type: '-', text: 'bye' }]);
+    });
+
+    it('should accept hunk headers without line numbers and blank context lines', () => {
+        const [file] = parseUnifiedDiff('--- a/f\n+++ b/f\n@@\n a\n\n-b\n+c\n');
+
+        expect(file.hunks[0].lines).toEqual([
+            { type: ' ', text: 'a' },
+            { type: ' ', text: '' },
+            { type: '-', text: 'b' },
+            { type: '+', text: 'c' }
+        ]);
+    });
+
+    it('should reject input without file changes', () => {
+        expect(() => parseUnifiedDiff('just some text')).toThrow('No file changes');
+        expect(() => parseUnifiedDiff('@@ -1 +1 @@\n-a\n+b')).toThrow('no preceding');
+    });
+});
+
+describe('applyHunks', () => {
+    it('should place a hunk whose line numbers are off', () => {
+        const content = 'header\nextra 1\nextra 2\n' + numbered(10);
+        const [file] = parseUnifiedDiff('--- a/f\n+++ b/f\n@@ -4,3 +4,3 @@\n line 4\n-line 5\n+line 5 changed\n line 6\n');
+
+        const result = applyHunks(content, file.hunks);
+
+        expect(result.content).toContain('line 4\nline 5 changed\nline 6\n');
+        expect(result.placements[0]).toMatchObject({ offset: 3, fuzz: 0, whitespace: false });
+        expect(describePlacements(result.placements)).toEqual(['Hunk #1 applied with offset +3 line(s)']);
+    });
+
+    it('should tolerate whitespace drift and keep the file\'s own context lines', () => {
+        const content = 'function f() {\n\treturn 1;\n}\n';
+        const [file] = parseUnifiedDiff('--- a/f\n+++ b/f\n@@ -1,3 +1,3 @@\n function f()  {\n-    return 1;\n+\treturn 2;\n }\n');
+
+        const result = applyHunks(content, file.hunks);
+
+        expect(result.content).toBe('function f() {\n\treturn 2;\n}\n');
+        expect(result.placements[0].whitespace).toBe(true);
+    });
+
+    it('should drop stale outer context lines (fuzz)', () => {
+        const content = numbered(10).replace('line 2\n', 'line 2 edited since\n');
+        const [file] = parseUnifiedDiff('--- a/f\n+++ b/f\n@@ -2,3 +2,3 @@\n line 2\n-line 3\n+line three\n line 4\n');
+
+        const result = applyHunks(content, file.hunks);
+
+        expect(result.content).toContain('line 2 edited since\nline three\nline 4\n');
+        expect(result.placements[0].fuzz).toBe(1);
+    });
+
+    it('should preserve CRLF line endings and fail on hunks that do not match', () => {
+        const [file] = parseUnifiedDiff('--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n-a\n+A\n b\n');
+
+        expect(applyHunks('a\r\nb\r\n', file.hunks).content).toBe('A\r\nb\r\n');
+        expect(() => applyHunks('x\ny\n', file.hunks)).toThrow('Hunk #1');
+    });
+});
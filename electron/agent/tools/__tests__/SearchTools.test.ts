@@ -0,0 +1,91 @@
+/**
+ * SearchTools Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { globToRegExp, matchesFilterGlob, globFiles, searchText } from '../SearchTools';
+
+describe('globToRegExp', () => {
+    it('should treat ** as any number of directories and * as one segment', () => {
+        expect(globToRegExp('**/*.ts').test('a.ts')).toBe(true);
+        expect(globToRegExp('**/*.ts').test('src/deep/a.ts')).toBe(true);
+        expect(globToRegExp('src/*.ts').test('src/deep/a.ts')).toBe(false);
+        expect(globToRegExp('src/**').test('src/deep/a.ts')).toBe(true);
+    });
+
+    it('should support ?, character classes and brace alternatives', () => {
+        expect(globToRegExp('file?.{js,jsx}').test('file1.jsx')).toBe(true);
+        expect(globToRegExp('file?.{js,jsx}').test('file10.js')).toBe(false);
+        expect(globToRegExp('[!a]*.md').test('readme.md')).toBe(true);
+        expect(globToRegExp('[!a]*.md').test('about.md')).toBe(false);
+        expect(globToRegExp('a+b(1).txt').test('a+b(1).txt')).toBe(true);
+    });
+
+    it('should match filter globs without a slash against the file name', () => {
+        expect(matchesFilterGlob('src/app/main.test.ts', '*.test.ts')).toBe(true);
+        expect(matchesFilterGlob('src/app/main.ts', 'app/*.ts')).toBe(false);
+        expect(matchesFilterGlob('src/app/main.ts', 'src/**/*.ts')).toBe(true);
+    });
+});
+
+describe('globFiles and searchText', () => {
+    let root: string;
+
+    beforeAll(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'search-tools-'));
+        const files: Record<string, string | Buffer> = {
+            'README.md': '# Demo\nTODO: write docs\n',
+            'src/index.ts': 'import { helper } from "./util";\n\nexport function main() {\n    // TODO: handle errors\n    return helper();\n}\n',
+            'src/util.ts': 'export function helper() {\n    return 42;\n}\n',
+            'src/util.test.ts': 'it("todo", () => {});\n',
+            'node_modules/pkg/index.ts': '// TODO: vendored\n',
+            'assets/logo.bin': Buffer.from([0x89, 0x50, 0x00, 0x54, 0x4f, 0x44, 0x4f])
+        };
+        for (const [rel, content] of Object.entries(files)) {
+            await fs.mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+            await fs.writeFile(path.join(root, rel), content);
+        }
+    });
+
+    afterAll(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should list matching files sorted and skip ignored directories', async () => {
+        expect((await globFiles(root, '**/*.ts', 100)).files).toEqual(['src/index.ts', 'src/util.test.ts', 'src/util.ts']);
+        expect((await globFiles(root, '**/*.ts', 100, { includeIgnored: true })).files).toContain('node_modules/pkg/index.ts');
+        expect(await globFiles(root, 'src/*.ts', 2)).toEqual({ files: ['src/index.ts', 'src/util.test.ts'], truncated: true });
+    });
+
+    it('should report matches with context and separators in ripgrep format', async () => {
+        const result = await searchText(root, { pattern: 'helper\\(\\)', context: 1 });
+
+        expect(result.lines).toEqual([
+            'src/index.ts-4-    // TODO: handle errors',
+            'src/index.ts:5:    return helper();',
+            'src/index.ts-6-}',
+            '--',
+            'src/util.ts:1:export function helper() {',
+            'src/util.ts-2-    return 42;'
+        ]);
+        expect(result).toMatchObject({ matchCount: 2, fileCount: 2, truncated: false });
+    });
+
+    it('should apply include/exclude globs, case folding and skip binary files', async () => {
+        const result = await searchText(root, { pattern: 'todo', caseInsensitive: true, include: ['*.ts', '*.bin'], exclude: ['*.test.ts'] });
+
+        expect(result.lines).toEqual(['src/index.ts:4:    // TODO: handle errors']);
+        expect(result.filesScanned).toBe(3);
+    });
+
+    it('should stop at the result cap and treat literal patterns as plain text', async () => {
+        const capped = await searchText(root, { pattern: 'TODO', maxResults: 1 });
+        expect(capped).toMatchObject({ matchCount: 1, truncated: true });
+
+        const literal = await searchText(root, { pattern: 'return helper()', literal: true });
+        expect(literal.lines).toEqual(['src/index.ts:5:    return helper();']);
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * Bingowork MCP server over stdio
+ *
+ * For MCP clients that only launch stdio servers: forwards every message to the
+ * running app's local HTTP endpoint, found in ~/.bingowork/mcp-server.json.
+ * Runs under plain Node or the app's own executable:
+ *
+ *   ELECTRON_RUN_AS_NODE=1 <Bingowork executable> <app>/dist-electron/mcp-stdio.js
+ */
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ErrorCode, isJSONRPCRequest, isJSONRPCResultResponse } from '@modelcontextprotocol/sdk/types.js';
+import { readServerDiscovery } from '../agent/mcp/serverExposure';
+
+async function main(): Promise<void> {
+    const discovery = readServerDiscovery();
+    if (!discovery) {
+        process.stderr.write('Bingowork is not running or its MCP server is disabled (Settings → MCP).\n');
+        process.exit(1);
+    }
+
+    const upstream = new StreamableHTTPClientTransport(new URL(discovery.url), {
+        requestInit: { headers: { Authorization: `Bearer ${discovery.token}` } }
+    });
+    const downstream = new StdioServerTransport();
+
+    let closing = false;
+    const shutdown = (code: number) => {
+        if (closing) return;
+        closing = true;
+        void Promise.allSettled([upstream.close(), downstream.close()]).then(() => process.exit(code));
+    };
+
+    downstream.onmessage = (message) => {
+        upstream.send(message).catch((error: Error) => {
+            process.stderr.write(`[bingowork-mcp] ${error.message}\n`);
+            // Answer requests so the client does not wait forever
+            if (isJSONRPCRequest(message)) {
+                void downstream.send({
+                    jsonrpc: '2.0',
+                    id: message.id,
+                    error: { code: ErrorCode.ConnectionClosed, message: `Bingowork is unreachable: ${error.message}` }
+                });
+            }
+        });
+    };
+    upstream.onmessage = (message) => {
+        // Later HTTP requests must carry the negotiated protocol version
+        if (isJSONRPCResultResponse(message) && typeof message.result.protocolVersion === 'string') {
+            upstream.setProtocolVersion(message.result.protocolVersion);
+        }
+        void downstream.send(message);
+    };
+    upstream.onerror = (error) => process.stderr.write(`[bingowork-mcp] ${error.message}\n`);
+    downstream.onerror = (error) => process.stderr.write(`[bingowork-mcp] ${error.message}\n`);
+    upstream.onclose = () => shutdown(0);
+    downstream.onclose = () => shutdown(0);
+    process.stdin.on('end', () => shutdown(0));
+
+    await upstream.start();
+    await downstream.start();
+}
+
+main().catch((error) => {
+    process.stderr.write(`[bingowork-mcp] ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+});
@@ -1,15 +1,75 @@
 import path from 'path';
 import fs from 'fs';
 import { app } from 'electron';
+import { nanoid } from 'nanoid';
 import { SecureCredentials } from './SecureCredentials';
+import type { PermissionRule } from '../agent/security/PermissionRules';
+import { DEFAULT_EXPOSED_TOOLS, DEFAULT_MCP_SERVER_PORT, sanitizeExposedTools } from '../agent/mcp/serverExposure';
+import { DEFAULT_API_EMBEDDING_MODEL, DEFAULT_LOCAL_EMBEDDING_MODEL, type EmbeddingBackend } from '../agent/memory/embeddings';
 
+// Legacy "remembered" grant; migrated to permission rules on load
 export interface ToolPermission {
     tool: string;           // 'write_file', 'run_command', etc.
     pathPattern?: string;   // Optional: specific path or '*' for all
     grantedAt: number;      // Timestamp
 }
 
-export type ApiProvider = 'anthropic' | 'openai' | 'minimax';
+export type SandboxBackend = 'auto' | 'bubblewrap' | 'unshare';
+
+export interface CommandSandboxConfig {
+    enabled: boolean;
+    // 'auto' prefers bubblewrap and falls back to unshare
+    backend: SandboxBackend;
+    // Run commands unsandboxed when no sandbox is available instead of refusing them
+    fallbackToHost: boolean;
+}
+
+export interface DockerExecutionConfig {
+    image: string;
+    // CPU and memory limits for the container, 0 means no limit
+    cpus: number;
+    memoryMb: number;
+    // 'follow' uses the bridge network when network access is on and none otherwise
+    network: 'follow' | 'none' | 'bridge';
+}
+
+// Bingowork's own MCP server for other clients (IDEs, CLI agents)
+export interface MCPServerExposureConfig {
+    enabled: boolean;
+    // Port on 127.0.0.1, 0 picks a free one
+    port: number;
+    // Bearer token clients send; generated on first start
+    token: string;
+    // Published ToolRegistry tools, a subset of EXPOSABLE_TOOLS
+    tools: string[];
+    // Publish skills as MCP prompts
+    exposeSkills: boolean;
+}
+
+// Semantic memory search and automatic injection of relevant memories
+export interface MemoryRetrievalConfig {
+    enabled: boolean;
+    backend: EmbeddingBackend;
+    // transformers.js model id for the local backend
+    localModel: string;
+    // OpenAI-compatible endpoint for the api backend; its key is kept in the keychain
+    apiUrl: string;
+    apiModel: string;
+    // Memories injected into the system prompt per user message, and the tokens they may use
+    topK: number;
+    tokenBudget: number;
+}
+
+// Background pass that proposes memories from finished conversations
+export interface MemoryExtractionConfig {
+    enabled: boolean;
+    // Model for the pass on the current provider; empty uses the chat model
+    model: string;
+    // Minutes without new messages before a session counts as idle
+    idleMinutes: number;
+}
+
+export type ApiProvider = 'anthropic' | 'openai' | 'minimax' | 'ollama';
 export type WorkMode = 'chat' | 'code' | 'cowork';
 
 export type LLMProfile = {
@@ -34,8 +94,15 @@ export interface AppConfig {
     browserAccess: boolean;
     shortcut: string;
     allowedPermissions: ToolPermission[];
+    // Ordered allow / deny / ask rules; the first match decides
+    permissionRules: PermissionRule[];
     workMode: WorkMode;
     pythonExecutionMode: 'host' | 'docker';
+    commandSandbox: CommandSandboxConfig;
+    dockerExecution: DockerExecutionConfig;
+    mcpServer: MCPServerExposureConfig;
+    memoryRetrieval: MemoryRetrievalConfig;
+    memoryExtraction: MemoryExtractionConfig;
     autoUpdateEnabled?: boolean;
     lastUpdateCheck?: number;
 }
@@ -64,8 +131,41 @@ const defaults: AppConfig = {
     browserAccess: false, // Disabled by default, requires agent-browser install
     shortcut: 'Alt+Space',
     allowedPermissions: [],
+    permissionRules: [],
     workMode: 'cowork',
-    pythonExecutionMode: 'host'
+    pythonExecutionMode: 'host',
+    commandSandbox: {
+        enabled: false,
+        backend: 'auto',
+        fallbackToHost: false
+    },
+    dockerExecution: {
+        image: 'python:3.11-slim',
+        cpus: 2,
+        memoryMb: 2048,
+        network: 'follow'
+    },
+    mcpServer: {
+        enabled: false,
+        port: DEFAULT_MCP_SERVER_PORT,
+        token: '',
+        tools: DEFAULT_EXPOSED_TOOLS,
+        exposeSkills: true
+    },
+    memoryRetrieval: {
+        enabled: true,
+        backend: 'local',
+        localModel: DEFAULT_LOCAL_EMBEDDING_MODEL,
+        apiUrl: 'https://api.openai.com/v1',
+        apiModel: DEFAULT_API_EMBEDDING_MODEL,
+        topK: 5,
+        tokenBudget: 800
+    },
+    memoryExtraction: {
+        enabled: true,
+        model: '',
+        idleMinutes: 15
+    }
 };
 
 /**
@@ -105,6 +205,7 @@ class ConfigStore {
                 const content = fs.readFileSync(this.configPath, 'utf-8');
                 const loadedData = JSON.parse(content);
                 this.data = { ...defaults, ...loadedData };
+                this.migrateLegacyPermissions();
 
                 // Start migration (will be awaited by initialize())
                 this.migrationPromise = this.migrateApiKeysIfNeeded().catch(err => {
@@ -465,7 +566,7 @@ class ConfigStore {
     }
 
     // =====================================================
-    // Python Execution Mode
+    // Execution Mode (host or Docker container)
     // =====================================================
 
     getPythonExecutionMode(): 'host' | 'docker' {
@@ -477,6 +578,101 @@ class ConfigStore {
         this.save();
     }
 
+    getDockerExecution(): DockerExecutionConfig {
+        return { ...defaults.dockerExecution, ...this.data.dockerExecution };
+    }
+
+    setDockerExecution(config: Partial<DockerExecutionConfig>): void {
+        const next = { ...this.getDockerExecution(), ...config };
+        this.data.dockerExecution = {
+            image: String(next.image || '').trim() || defaults.dockerExecution.image,
+            cpus: Math.max(0, Number(next.cpus) || 0),
+            memoryMb: Math.max(0, Math.floor(Number(next.memoryMb) || 0)),
+            network: ['follow', 'none', 'bridge'].includes(next.network) ? next.network : 'follow'
+        };
+        this.save();
+    }
+
+    // =====================================================
+    // Command Sandbox
+    // =====================================================
+
+    getCommandSandbox(): CommandSandboxConfig {
+        return { ...defaults.commandSandbox, ...this.data.commandSandbox };
+    }
+
+    setCommandSandbox(config: Partial<CommandSandboxConfig>): void {
+        const next = { ...this.getCommandSandbox(), ...config };
+        if (!['auto', 'bubblewrap', 'unshare'].includes(next.backend)) {
+            next.backend = 'auto';
+        }
+        this.data.commandSandbox = {
+            enabled: Boolean(next.enabled),
+            backend: next.backend,
+            fallbackToHost: Boolean(next.fallbackToHost)
+        };
+        this.save();
+    }
+
+    // =====================================================
+    // Bingowork MCP Server
+    // =====================================================
+
+    getMCPServer(): MCPServerExposureConfig {
+        return { ...defaults.mcpServer, ...this.data.mcpServer };
+    }
+
+    setMCPServer(config: Partial<MCPServerExposureConfig>): void {
+        const next = { ...this.getMCPServer(), ...config };
+        const port = Math.floor(Number(next.port));
+        this.data.mcpServer = {
+            enabled: Boolean(next.enabled),
+            port: port >= 0 && port <= 65535 ? port : DEFAULT_MCP_SERVER_PORT,
+            token: String(next.token || ''),
+            tools: sanitizeExposedTools(next.tools),
+            exposeSkills: Boolean(next.exposeSkills)
+        };
+        this.save();
+    }
+
+    // =====================================================
+    // Memory Retrieval
+    // =====================================================
+
+    getMemoryRetrieval(): MemoryRetrievalConfig {
+        return { ...defaults.memoryRetrieval, ...this.data.memoryRetrieval };
+    }
+
+    setMemoryRetrieval(config: Partial<MemoryRetrievalConfig>): void {
+        const next = { ...this.getMemoryRetrieval(), ...config };
+        const fallback = defaults.memoryRetrieval;
+        this.data.memoryRetrieval = {
+            enabled: Boolean(next.enabled),
+            backend: next.backend === 'api' ? 'api' : 'local',
+            localModel: String(next.localModel || '').trim() || fallback.localModel,
+            apiUrl: String(next.apiUrl || '').trim() || fallback.apiUrl,
+            apiModel: String(next.apiModel || '').trim() || fallback.apiModel,
+            topK: Math.min(Math.max(Math.floor(Number(next.topK)) || fallback.topK, 1), 20),
+            tokenBudget: Math.min(Math.max(Math.floor(Number(next.tokenBudget)) || fallback.tokenBudget, 100), 8000)
+        };
+        this.save();
+    }
+
+    getMemoryExtraction(): MemoryExtractionConfig {
+        return { ...defaults.memoryExtraction, ...this.data.memoryExtraction };
+    }
+
+    setMemoryExtraction(config: Partial<MemoryExtractionConfig>): void {
+        const next = { ...this.getMemoryExtraction(), ...config };
+        const fallback = defaults.memoryExtraction;
+        this.data.memoryExtraction = {
+            enabled: Boolean(next.enabled),
+            model: String(next.model || '').trim(),
+            idleMinutes: Math.min(Math.max(Math.floor(Number(next.idleMinutes)) || fallback.idleMinutes, 1), 240)
+        };
+        this.save();
+    }
+
     // =====================================================
     // Shortcut Management
     // =====================================================
@@ -498,62 +694,81 @@ class ConfigStore {
     // Tool Permissions Management
     // =====================================================
 
-    hasPermission(tool: string, pathPattern?: string): boolean {
-        const permissions = this.data.allowedPermissions || [];
-        return permissions.some(p =>
-            p.tool === tool && (!pathPattern || p.pathPattern === pathPattern || p.pathPattern === '*')
-        );
+    getPermissionRules(): PermissionRule[] {
+        return this.data.permissionRules || [];
     }
 
-    grantPermission(tool: string, pathPattern?: string): void {
-        const permissions = this.data.allowedPermissions || [];
-        const existing = permissions.findIndex(p =>
-            p.tool === tool && p.pathPattern === pathPattern
-        );
-        if (existing >= 0) {
-            permissions[existing].grantedAt = Date.now();
-        } else {
-            permissions.push({ tool, pathPattern, grantedAt: Date.now() });
-        }
-        this.data.allowedPermissions = permissions;
+    setPermissionRules(rules: PermissionRule[]): void {
+        this.data.permissionRules = rules;
         this.save();
     }
 
-    // Alias for compatibility
-    addPermission(tool: string, pathPattern?: string): void {
-        this.grantPermission(tool, pathPattern);
-    }
-
-    revokePermission(tool: string, pathPattern?: string): void {
-        const permissions = this.data.allowedPermissions || [];
-        this.data.allowedPermissions = permissions.filter(p =>
-            !(p.tool === tool && (!pathPattern || p.pathPattern === pathPattern))
-        );
-        this.save();
+    /**
+     * Insert or replace a rule; new rules go first unless appended
+     */
+    savePermissionRule(rule: PermissionRule, append = false): void {
+        const rules = [...this.getPermissionRules()];
+        const index = rules.findIndex(r => r.id === rule.id);
+        if (index >= 0) {
+            rules[index] = rule;
+        } else if (append) {
+            rules.push(rule);
+        } else {
+            rules.unshift(rule);
+        }
+        this.setPermissionRules(rules);
     }
 
-    // Alias for compatibility
-    removePermission(tool: string, pathPattern?: string): void {
-        this.revokePermission(tool, pathPattern);
+    deletePermissionRule(id: string): void {
+        this.setPermissionRules(this.getPermissionRules().filter(r => r.id !== id));
     }
 
-    clearPermissions(): void {
-        this.data.allowedPermissions = [];
-        this.save();
+    /**
+     * Move a rule up or down; order decides which rule wins
+     */
+    movePermissionRule(id: string, offset: number): void {
+        const rules = [...this.getPermissionRules()];
+        const index = rules.findIndex(r => r.id === id);
+        const target = index + offset;
+        if (index < 0 || target < 0 || target >= rules.length) return;
+        const [rule] = rules.splice(index, 1);
+        rules.splice(target, 0, rule);
+        this.setPermissionRules(rules);
     }
 
-    // Alias for compatibility
-    clearAllPermissions(): void {
-        this.clearPermissions();
+    /**
+     * Drop the rules scoped to a deleted session
+     */
+    removeSessionPermissionRules(sessionId: string): void {
+        const rules = this.getPermissionRules();
+        const kept = rules.filter(r => !(r.scope === 'session' && r.scopeValue === sessionId));
+        if (kept.length !== rules.length) {
+            this.setPermissionRules(kept);
+        }
     }
 
-    getPermissions(): ToolPermission[] {
-        return this.data.allowedPermissions || [];
+    clearPermissionRules(): void {
+        this.setPermissionRules([]);
     }
 
-    // Alias for compatibility
-    getAllowedPermissions(): ToolPermission[] {
-        return this.getPermissions();
+    /**
+     * Turn legacy remembered grants (tool + optional path) into global allow rules
+     */
+    private migrateLegacyPermissions(): void {
+        const legacy = this.data.allowedPermissions || [];
+        if (legacy.length === 0) return;
+        const migrated: PermissionRule[] = legacy.map(p => ({
+            id: nanoid(10),
+            decision: 'allow',
+            tool: p.tool,
+            paths: p.pathPattern && p.pathPattern !== '*' ? [p.pathPattern] : undefined,
+            scope: 'global',
+            source: 'legacy',
+            createdAt: p.grantedAt || Date.now()
+        }));
+        this.data.permissionRules = [...(this.data.permissionRules || []), ...migrated];
+        this.data.allowedPermissions = [];
+        this.save();
     }
 
     // =====================================================
@@ -1,8 +1,10 @@
-import Store from 'electron-store';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
+import { app } from 'electron';
 import { nanoid } from 'nanoid';
 import { AgentMessage } from '../agent/AgentConstants';
+import { TaskDatabase, SessionMessageInsert, SessionRow } from './TaskDatabase';
 
 export interface Session {
     id: string;
@@ -12,129 +14,185 @@ export interface Session {
     messages: AgentMessage[];
 }
 
-interface SessionStoreSchema {
-    sessions: Session[];
-    currentSessionId: string | null;
+export type SessionInfo = Omit<Session, 'messages'>;
+
+// Sessions used to live in this electron-store JSON file; it is imported once
+const LEGACY_STORE_NAME = 'bingowork-sessions';
+const MIGRATION_KEY = 'sessions.migratedFromJson';
+const CURRENT_SESSION_KEY = 'sessions.currentId';
+const DEFAULT_TITLE = '新会话';
+
+export function toSessionMessageInsert(message: AgentMessage): SessionMessageInsert {
+    const { id, ...rest } = message;
+    const contentJson = JSON.stringify(rest);
+    return {
+        messageId: id ?? null,
+        role: message.role,
+        contentJson,
+        contentHash: crypto.createHash('sha1').update(contentJson).digest('hex')
+    };
 }
 
-const defaults: SessionStoreSchema = {
-    sessions: [],
-    currentSessionId: null
-};
+function toSessionInfo(row: SessionRow): SessionInfo {
+    return { id: row.id, title: row.title, createdAt: row.created_at, updatedAt: row.updated_at };
+}
+
+// Title from the first user message, for sessions still carrying the default title
+function titleFromMessages(messages: AgentMessage[]): string | null {
+    const firstUserMsg = messages.find(m => m.role === 'user');
+    if (!firstUserMsg) return null;
+    const text = typeof firstUserMsg.content === 'string'
+        ? firstUserMsg.content
+        : (Array.isArray(firstUserMsg.content)
+            ? (firstUserMsg.content as Array<{ type: string; text?: string }>).find(b => b.type === 'text')?.text
+            : '');
+    return text ? text.slice(0, 50) + (text.length > 50 ? '...' : '') : null;
+}
 
+/**
+ * SessionStore
+ * Sessions and their messages in SQLite, one row per message. The database is
+ * opened on first use, after the app has settled its userData path.
+ */
 export class SessionStore {
-    private store: Store<SessionStoreSchema>;
+    private db: TaskDatabase | null = null;
+    private currentSessionId: string | null | undefined;
 
-    constructor() {
-        const cwd = process.env.VITE_DEV_SERVER_URL
-            ? path.join(process.cwd(), 'local-data', 'electron-userdata')
-            : undefined;
-        if (cwd) fs.mkdirSync(cwd, { recursive: true });
-        this.store = new Store<SessionStoreSchema>({
-            name: 'bingowork-sessions',
-            defaults,
-            cwd
-        });
+    private database(): TaskDatabase {
+        if (!this.db) {
+            this.db = new TaskDatabase();
+            this.migrateLegacyStore(this.db);
+        }
+        return this.db;
     }
 
     // Get all sessions (summary only, without full messages for list view)
-    getSessions(): Omit<Session, 'messages'>[] {
-        const sessions = this.store.get('sessions') || [];
-        return sessions
-            .slice()
-            .sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0))
-            .map(s => ({
-                id: s.id,
-                title: s.title,
-                createdAt: s.createdAt,
-                updatedAt: s.updatedAt
-            }));
+    getSessions(): SessionInfo[] {
+        return this.database().listSessions().map(toSessionInfo);
     }
 
-    // Get full session by ID
+    // Session summary without loading its messages
+    getSessionInfo(id: string): SessionInfo | null {
+        const row = this.database().getSession(id);
+        return row ? toSessionInfo(row) : null;
+    }
+
+    // Get full session by ID; messages are read from the database only here
     getSession(id: string): Session | null {
-        const sessions = this.store.get('sessions') || [];
-        return sessions.find(s => s.id === id) || null;
+        const info = this.getSessionInfo(id);
+        if (!info) return null;
+        const messages = this.database().getSessionMessages(id).map(row => ({
+            ...(JSON.parse(row.content_json) as AgentMessage),
+            ...(row.message_id ? { id: row.message_id } : {})
+        }));
+        return { ...info, messages };
     }
 
     // Create new session
     createSession(title?: string): Session {
         const session: Session = {
             id: nanoid(),
-            title: title || '新会话',
+            title: title || DEFAULT_TITLE,
             createdAt: Date.now(),
             updatedAt: Date.now(),
             messages: []
         };
-        const sessions = this.store.get('sessions') || [];
-        sessions.unshift(session); // Add to beginning
-        this.store.set('sessions', sessions);
-        this.store.set('currentSessionId', session.id);
+        this.database().insertSession(session);
+        this.setCurrentSession(session.id);
         return session;
     }
 
-    // Update session messages
+    // Update session messages; only messages that changed are written
     // onlyUpdateTitle: if true, don't update timestamp (used for loading sessions)
     updateSession(id: string, messages: AgentMessage[], title?: string, onlyUpdateTitle = false): void {
-        const sessions = this.store.get('sessions') || [];
-        const index = sessions.findIndex(s => s.id === id);
-        if (index >= 0) {
-            const oldMessageCount = sessions[index].messages.length;
-            sessions[index].messages = messages;
-
-            // Only update timestamp if new messages were added (not just loading/viewing)
-            if (!onlyUpdateTitle && messages.length > oldMessageCount) {
-                sessions[index].updatedAt = Date.now();
-            }
+        const db = this.database();
+        const row = db.getSession(id);
+        if (!row) return;
 
-            if (title) {
-                sessions[index].title = title;
-            } else if (sessions[index].title === '新会话' && messages.length > 0) {
-                // Auto-generate title from first user message
-                const firstUserMsg = messages.find(m => m.role === 'user');
-                if (firstUserMsg) {
-                    const text = typeof firstUserMsg.content === 'string'
-                        ? firstUserMsg.content
-                        : (Array.isArray(firstUserMsg.content)
-                            ? (firstUserMsg.content as Array<{ type: string; text?: string }>).find(b => b.type === 'text')?.text
-                            : '');
-                    if (text) {
-                        sessions[index].title = text.slice(0, 50) + (text.length > 50 ? '...' : '');
-                    }
-                }
-            }
-            this.store.set('sessions', sessions);
-        }
+        db.syncSessionMessages(id, messages.map(toSessionMessageInsert));
+
+        // Only update timestamp if new messages were added (not just loading/viewing)
+        const updatedAt = !onlyUpdateTitle && messages.length > row.message_count ? Date.now() : undefined;
+        const nextTitle = title || (row.title === DEFAULT_TITLE && messages.length > 0 ? titleFromMessages(messages) : null);
+        db.updateSessionMeta(id, { title: nextTitle ?? undefined, updatedAt });
     }
 
     // Delete session
     deleteSession(id: string): void {
-        const sessions = (this.store.get('sessions') || []).filter(s => s.id !== id);
-        this.store.set('sessions', sessions);
-        if (this.store.get('currentSessionId') === id) {
-            this.store.set('currentSessionId', sessions.length > 0 ? sessions[0].id : null);
+        this.database().deleteSession(id);
+        if (this.getCurrentSessionId() === id) {
+            const sessions = this.database().listSessions();
+            this.setCurrentSession(sessions.length > 0 ? sessions[0].id : null);
         }
     }
 
     // Get current session ID
     getCurrentSessionId(): string | null {
-        return this.store.get('currentSessionId');
+        if (this.currentSessionId === undefined) {
+            this.currentSessionId = this.database().getKV<string>(CURRENT_SESSION_KEY);
+        }
+        return this.currentSessionId;
     }
 
     // Set current session
-    setCurrentSession(id: string): void {
-        this.store.set('currentSessionId', id);
+    setCurrentSession(id: string | null): void {
+        this.currentSessionId = id;
+        if (id) {
+            this.database().setKV(CURRENT_SESSION_KEY, id);
+        } else {
+            this.database().deleteKV(CURRENT_SESSION_KEY);
+        }
     }
 
     // Rename session (don't update timestamp - only new conversations should)
     renameSession(id: string, title: string): void {
-        const sessions = this.store.get('sessions') || [];
-        const index = sessions.findIndex(s => s.id === id);
-        if (index >= 0) {
-            sessions[index].title = title;
-            // Don't update updatedAt on rename - only update when new messages are added
-            this.store.set('sessions', sessions);
+        this.database().updateSessionMeta(id, { title });
+    }
+
+    /**
+     * One-time import of the electron-store file. Sessions and the done-marker are
+     * written in one transaction, so an interrupted run is repeated from scratch;
+     * afterwards the file is kept as a backup under a new name.
+     */
+    private migrateLegacyStore(db: TaskDatabase): void {
+        if (db.getKV(MIGRATION_KEY)) return;
+
+        const legacyDir = process.env.VITE_DEV_SERVER_URL
+            ? path.join(process.cwd(), 'local-data', 'electron-userdata')
+            : app.getPath('userData');
+        const legacyPath = path.join(legacyDir, `${LEGACY_STORE_NAME}.json`);
+
+        let legacy: { sessions?: Session[]; currentSessionId?: string | null } = {};
+        if (fs.existsSync(legacyPath)) {
+            try {
+                legacy = JSON.parse(fs.readFileSync(legacyPath, 'utf-8'));
+            } catch (error) {
+                // Leave the marker unset so a repaired file is picked up next time
+                console.error('[SessionStore] Could not read legacy sessions, skipping import:', error);
+                return;
+            }
+        }
+
+        const sessions = (Array.isArray(legacy.sessions) ? legacy.sessions : []).filter(s => s && typeof s.id === 'string');
+        const imported = db.importSessions(sessions.map(s => ({
+            id: s.id,
+            title: s.title || DEFAULT_TITLE,
+            createdAt: s.createdAt || Date.now(),
+            updatedAt: s.updatedAt || s.createdAt || Date.now(),
+            messages: (Array.isArray(s.messages) ? s.messages : []).map(toSessionMessageInsert)
+        })), MIGRATION_KEY);
+
+        if (legacy.currentSessionId && db.getSession(legacy.currentSessionId) && !db.getKV(CURRENT_SESSION_KEY)) {
+            db.setKV(CURRENT_SESSION_KEY, legacy.currentSessionId);
+        }
+        if (fs.existsSync(legacyPath)) {
+            try {
+                fs.renameSync(legacyPath, `${legacyPath}.migrated`);
+            } catch (error) {
+                console.warn('[SessionStore] Sessions imported but the legacy file could not be renamed:', error);
+            }
         }
+        console.log(`[SessionStore] Imported ${imported} sessions from ${legacyPath}`);
     }
 }
 
@@ -9,6 +9,225 @@ export type TaskEventInsert = {
     payload: unknown;
 };
 
+export type TokenUsageInsert = {
+    ts?: number;
+    sessionId?: string | null;
+    provider: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens?: number;
+    cacheWriteTokens?: number;
+};
+
+export type TokenUsageAggregate = {
+    model: string;
+    sessionId: string | null;
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+    firstTs: number;
+    lastTs: number;
+};
+
+export type PlanItemInsert = {
+    id: string;
+    sessionId: string;
+    parentId: string | null;
+    title: string;
+    status: string;
+    note?: string | null;
+    position: number;
+    createdAt?: number;
+};
+
+export type PlanItemUpdate = {
+    parentId?: string | null;
+    title?: string;
+    status?: string;
+    note?: string | null;
+    position?: number;
+};
+
+export type PlanItemRow = {
+    id: string;
+    session_id: string;
+    parent_id: string | null;
+    title: string;
+    status: string;
+    note: string | null;
+    position: number;
+    created_at: number;
+    updated_at: number;
+};
+
+export type MemoryRow = {
+    id: number;
+    content: string;
+    tags_json: string;
+    pinned: number;
+    scope: string;
+    scope_key: string | null;
+    expires_at: number | null;
+    source_session_id: string | null;
+    source_message_id: string | null;
+    created_at: number;
+    updated_at: number;
+};
+
+export type MemoryInsertOptions = {
+    pinned?: boolean;
+    scope?: string;
+    scopeKey?: string | null;
+    expiresAt?: number | null;
+    sourceSessionId?: string | null;
+    sourceMessageId?: string | null;
+    createdAt?: number;
+};
+
+export type MemoryUpdate = {
+    content?: string;
+    tagsJson?: string;
+    pinned?: boolean;
+    scope?: string;
+    scopeKey?: string | null;
+    expiresAt?: number | null;
+    // Provenance is replaced as a pair
+    sourceSessionId?: string | null;
+    sourceMessageId?: string | null;
+};
+
+// Memories that apply in a context: global ones, project ones keyed by one of
+// `projectKeys`, the session's own, and none that have expired
+export type MemoryVisibility = {
+    projectKeys: string[];
+    sessionId: string | null;
+    now: number;
+};
+
+export type MemoryFilter = {
+    // Substring of the content or tags
+    search?: string;
+    tag?: string;
+    pinned?: boolean;
+    scope?: string;
+    visibility?: MemoryVisibility;
+    limit?: number;
+    offset?: number;
+};
+
+export type MemoryProposalInsert = {
+    content: string;
+    tagsJson: string;
+    scope: string;
+    scopeKey: string | null;
+    mergeTargetId: number | null;
+    sessionId: string;
+    messageId: string | null;
+};
+
+export type MemoryProposalRow = {
+    id: number;
+    content: string;
+    tags_json: string;
+    scope: string;
+    scope_key: string | null;
+    merge_target_id: number | null;
+    session_id: string;
+    message_id: string | null;
+    status: string;
+    created_at: number;
+    decided_at: number | null;
+};
+
+export type MemoryExtractionCursorRow = {
+    session_id: string;
+    last_message_id: string | null;
+    message_count: number;
+    extracted_at: number;
+};
+
+export type MemoryEmbeddingRow = {
+    memory_id: number;
+    vector: Buffer;
+};
+
+export type SessionRow = {
+    id: string;
+    title: string;
+    created_at: number;
+    updated_at: number;
+    message_count: number;
+};
+
+export type SessionMessageInsert = {
+    messageId: string | null;
+    role: string;
+    contentJson: string;
+    // Detects a message rewritten in place (same id, new content)
+    contentHash: string;
+};
+
+export type SessionMessageRow = {
+    position: number;
+    message_id: string | null;
+    role: string;
+    content_json: string;
+};
+
+export type AuditRecordInsert = {
+    ts?: number;
+    sessionId?: string | null;
+    type: string;
+    tool?: string | null;
+    argsHash?: string | null;
+    outcome: string;
+    ruleId?: string | null;
+    subject?: string | null;
+    detail?: string | null;
+};
+
+export type AuditRecord = {
+    id: number;
+    ts: number;
+    sessionId: string | null;
+    type: string;
+    tool: string | null;
+    argsHash: string | null;
+    outcome: string;
+    ruleId: string | null;
+    subject: string | null;
+    detail: string | null;
+};
+
+export type AuditLogFilter = {
+    sessionId?: string;
+    types?: string[];
+    tool?: string;
+    outcome?: string;
+    since?: number;
+    until?: number;
+    // Substring of the subject (path, command, target) or detail
+    search?: string;
+    limit?: number;
+    offset?: number;
+};
+
+type AuditRecordRow = {
+    id: number;
+    ts: number;
+    session_id: string | null;
+    type: string;
+    tool: string | null;
+    args_hash: string | null;
+    outcome: string;
+    rule_id: string | null;
+    subject: string | null;
+    detail: string | null;
+};
+
 export class TaskDatabase {
     private db: Database.Database;
 
@@ -106,6 +325,21 @@ export class TaskDatabase {
             CREATE INDEX IF NOT EXISTS idx_task_events_session_ts ON task_events(session_id, ts);
             CREATE INDEX IF NOT EXISTS idx_task_events_type_ts ON task_events(type, ts);
 
+            CREATE TABLE IF NOT EXISTS token_usage (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                ts INTEGER NOT NULL,
+                session_id TEXT,
+                provider TEXT NOT NULL,
+                model TEXT NOT NULL,
+                input_tokens INTEGER NOT NULL DEFAULT 0,
+                output_tokens INTEGER NOT NULL DEFAULT 0,
+                cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+                cache_write_tokens INTEGER NOT NULL DEFAULT 0
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_token_usage_ts ON token_usage(ts);
+            CREATE INDEX IF NOT EXISTS idx_token_usage_session_ts ON token_usage(session_id, ts);
+
             CREATE TABLE IF NOT EXISTS memories (
                 id INTEGER PRIMARY KEY AUTOINCREMENT,
                 content TEXT NOT NULL,
@@ -133,6 +367,71 @@ export class TaskDatabase {
                 INSERT INTO memories_fts(rowid, content, tags_json) VALUES (new.id, new.content, new.tags_json);
             END;
 
+            -- Embedding vectors for semantic memory search, one per memory and model
+            CREATE TABLE IF NOT EXISTS memory_embeddings (
+                memory_id INTEGER NOT NULL,
+                model TEXT NOT NULL,
+                dims INTEGER NOT NULL,
+                vector BLOB NOT NULL,
+                updated_at INTEGER NOT NULL,
+                PRIMARY KEY (memory_id, model)
+            );
+
+            -- Vectors go stale when the memory is deleted or its content changes
+            CREATE TRIGGER IF NOT EXISTS memories_embeddings_ad AFTER DELETE ON memories BEGIN
+                DELETE FROM memory_embeddings WHERE memory_id = old.id;
+            END;
+            CREATE TRIGGER IF NOT EXISTS memories_embeddings_au AFTER UPDATE OF content, tags_json ON memories BEGIN
+                DELETE FROM memory_embeddings WHERE memory_id = new.id;
+            END;
+
+            -- Facts extracted from conversations, waiting for review; decided ones are
+            -- kept so the same fact is not proposed again
+            CREATE TABLE IF NOT EXISTS memory_proposals (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                content TEXT NOT NULL,
+                tags_json TEXT,
+                scope TEXT NOT NULL DEFAULT 'global',
+                scope_key TEXT,
+                merge_target_id INTEGER,
+                session_id TEXT NOT NULL,
+                message_id TEXT,
+                status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+                created_at INTEGER NOT NULL,
+                decided_at INTEGER
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_memory_proposals_status ON memory_proposals(status, created_at);
+
+            -- How far each session's transcript has been read for memories
+            CREATE TABLE IF NOT EXISTS memory_extraction_cursors (
+                session_id TEXT PRIMARY KEY,
+                last_message_id TEXT,
+                message_count INTEGER NOT NULL,
+                extracted_at INTEGER NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS sessions (
+                id TEXT PRIMARY KEY,
+                title TEXT NOT NULL,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL,
+                message_count INTEGER NOT NULL DEFAULT 0
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_sessions_updated ON sessions(updated_at DESC);
+
+            -- One row per message so saves append instead of rewriting the conversation
+            CREATE TABLE IF NOT EXISTS session_messages (
+                session_id TEXT NOT NULL,
+                position INTEGER NOT NULL,
+                message_id TEXT,
+                role TEXT NOT NULL,
+                content_json TEXT NOT NULL,
+                content_hash TEXT NOT NULL,
+                PRIMARY KEY (session_id, position)
+            );
+
             CREATE TABLE IF NOT EXISTS task_execution_logs (
                 id TEXT PRIMARY KEY,
                 task_id TEXT NOT NULL,
@@ -146,7 +445,54 @@ export class TaskDatabase {
 
             CREATE INDEX IF NOT EXISTS idx_logs_task_id ON task_execution_logs(task_id);
             CREATE INDEX IF NOT EXISTS idx_logs_created_at ON task_execution_logs(created_at);
+
+            CREATE TABLE IF NOT EXISTS plan_items (
+                id TEXT PRIMARY KEY,
+                session_id TEXT NOT NULL,
+                parent_id TEXT,
+                title TEXT NOT NULL,
+                status TEXT NOT NULL CHECK (status IN ('pending', 'in_progress', 'done', 'blocked')),
+                note TEXT,
+                position INTEGER NOT NULL DEFAULT 0,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_plan_items_session ON plan_items(session_id, parent_id, position);
+
+            CREATE TABLE IF NOT EXISTS audit_log (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                ts INTEGER NOT NULL,
+                session_id TEXT,
+                type TEXT NOT NULL,
+                tool TEXT,
+                args_hash TEXT,
+                outcome TEXT NOT NULL,
+                rule_id TEXT,
+                subject TEXT,
+                detail TEXT
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_audit_log_ts ON audit_log(ts);
+            CREATE INDEX IF NOT EXISTS idx_audit_log_session_ts ON audit_log(session_id, ts);
+            CREATE INDEX IF NOT EXISTS idx_audit_log_type_ts ON audit_log(type, ts);
         `);
+
+        // Columns added after the first release
+        this.addColumnIfMissing('memories', 'pinned', 'INTEGER NOT NULL DEFAULT 0');
+        this.addColumnIfMissing('memories', 'scope', "TEXT NOT NULL DEFAULT 'global'");
+        this.addColumnIfMissing('memories', 'scope_key', 'TEXT');
+        this.addColumnIfMissing('memories', 'expires_at', 'INTEGER');
+        this.addColumnIfMissing('memories', 'source_session_id', 'TEXT');
+        this.addColumnIfMissing('memories', 'source_message_id', 'TEXT');
+        this.db.exec('CREATE INDEX IF NOT EXISTS idx_memories_scope ON memories(scope, scope_key)');
+    }
+
+    private addColumnIfMissing(table: string, column: string, definition: string) {
+        const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+        if (!columns.some(c => c.name === column)) {
+            this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
     }
 
     upsertConfig(config: unknown) {
@@ -227,6 +573,86 @@ export class TaskDatabase {
         });
     }
 
+    /**
+     * Token Usage Methods
+     */
+
+    insertTokenUsage(record: TokenUsageInsert) {
+        const stmt = this.db.prepare(`
+            INSERT INTO token_usage (ts, session_id, provider, model, input_tokens, output_tokens, cache_read_tokens, cache_write_tokens)
+            VALUES (@ts, @session_id, @provider, @model, @input_tokens, @output_tokens, @cache_read_tokens, @cache_write_tokens)
+        `);
+
+        stmt.run({
+            ts: record.ts ?? Date.now(),
+            session_id: record.sessionId ?? null,
+            provider: record.provider,
+            model: record.model,
+            input_tokens: record.inputTokens || 0,
+            output_tokens: record.outputTokens || 0,
+            cache_read_tokens: record.cacheReadTokens || 0,
+            cache_write_tokens: record.cacheWriteTokens || 0
+        });
+    }
+
+    /**
+     * Aggregate token usage grouped by session and model
+     * Optionally restricted to one session and/or a time window
+     */
+    getTokenUsageAggregates(filter: { sessionId?: string; since?: number } = {}): TokenUsageAggregate[] {
+        const conditions: string[] = [];
+        const params: { sessionId?: string; since?: number } = {};
+
+        if (filter.sessionId) {
+            conditions.push('session_id = @sessionId');
+            params.sessionId = filter.sessionId;
+        }
+        if (filter.since) {
+            conditions.push('ts >= @since');
+            params.since = filter.since;
+        }
+
+        const stmt = this.db.prepare(`
+            SELECT
+                session_id,
+                model,
+                COUNT(*) AS requests,
+                SUM(input_tokens) AS input_tokens,
+                SUM(output_tokens) AS output_tokens,
+                SUM(cache_read_tokens) AS cache_read_tokens,
+                SUM(cache_write_tokens) AS cache_write_tokens,
+                MIN(ts) AS first_ts,
+                MAX(ts) AS last_ts
+            FROM token_usage
+            ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+            GROUP BY session_id, model
+            ORDER BY last_ts DESC
+        `);
+        const rows = stmt.all(params) as Array<{
+            session_id: string | null;
+            model: string;
+            requests: number;
+            input_tokens: number;
+            output_tokens: number;
+            cache_read_tokens: number;
+            cache_write_tokens: number;
+            first_ts: number;
+            last_ts: number;
+        }>;
+
+        return rows.map(row => ({
+            sessionId: row.session_id,
+            model: row.model,
+            requests: row.requests,
+            inputTokens: row.input_tokens || 0,
+            outputTokens: row.output_tokens || 0,
+            cacheReadTokens: row.cache_read_tokens || 0,
+            cacheWriteTokens: row.cache_write_tokens || 0,
+            firstTs: row.first_ts,
+            lastTs: row.last_ts
+        }));
+    }
+
     /**
      * Get all KV entries with a given prefix
      * Useful for querying related data (e.g., all schedule tasks)
@@ -390,22 +816,31 @@ export class TaskDatabase {
      * Permanent Memory Methods
      */
 
-    insertMemory(content: string, tagsJson: string): number {
+    insertMemory(content: string, tagsJson: string, options: MemoryInsertOptions = {}): number {
         const stmt = this.db.prepare(`
-            INSERT INTO memories (content, tags_json, created_at, updated_at)
-            VALUES (@content, @tags_json, @created_at, @updated_at)
+            INSERT INTO memories (content, tags_json, pinned, scope, scope_key, expires_at, source_session_id, source_message_id, created_at, updated_at)
+            VALUES (@content, @tags_json, @pinned, @scope, @scope_key, @expires_at, @source_session_id, @source_message_id, @created_at, @updated_at)
         `);
         const result = stmt.run({
             content,
             tags_json: tagsJson,
-            created_at: Date.now(),
+            pinned: options.pinned ? 1 : 0,
+            scope: options.scope ?? 'global',
+            scope_key: options.scopeKey ?? null,
+            expires_at: options.expiresAt ?? null,
+            source_session_id: options.sourceSessionId ?? null,
+            source_message_id: options.sourceMessageId ?? null,
+            created_at: options.createdAt ?? Date.now(),
             updated_at: Date.now()
         });
         return result.lastInsertRowid as number;
     }
 
-    searchMemories(query: string, limit: number = 20): Array<{ id: number; content: string; tags_json: string; created_at: number; updated_at: number }> {
-        let results: Array<{ id: number; content: string; tags_json: string; created_at: number; updated_at: number }> = [];
+    searchMemories(query: string, limit: number = 20, visibility?: MemoryVisibility): MemoryRow[] {
+        let results: MemoryRow[] = [];
+        const visibilityParams: Record<string, unknown> = {};
+        const visibleFts = this.memoryVisibilityClause(visibility, 'm', visibilityParams);
+        const visibleLike = this.memoryVisibilityClause(visibility, '', visibilityParams);
         const normalizedQuery = this.normalizeSearchQuery(query);
         const tokens = this.extractSearchTokens(normalizedQuery);
         const ftsQuery = this.buildFtsQuery(tokens) || normalizedQuery;
@@ -414,15 +849,15 @@ export class TaskDatabase {
         if (ftsQuery) {
             try {
                 const ftsStmt = this.db.prepare(`
-                    SELECT m.id, m.content, m.tags_json, m.created_at, m.updated_at, bm25(f) AS score
+                    SELECT m.id, m.content, m.tags_json, m.pinned, m.scope, m.scope_key, m.expires_at, m.source_session_id, m.source_message_id, m.created_at, m.updated_at, bm25(f) AS score
                     FROM memories m
                     JOIN memories_fts f ON m.id = f.rowid
-                    WHERE memories_fts MATCH @query
+                    WHERE memories_fts MATCH @query AND ${visibleFts}
                     ORDER BY score, m.updated_at DESC
                     LIMIT @limit
                 `);
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                results = ftsStmt.all({ query: ftsQuery, limit }) as any;
+                results = ftsStmt.all({ ...visibilityParams, query: ftsQuery, limit }) as any;
             } catch (error) {
                 console.warn('[TaskDatabase] FTS search failed or invalid query, falling back to LIKE', error);
             }
@@ -439,14 +874,14 @@ export class TaskDatabase {
                 const likeConditions = keywords.map((_, i) => `(content LIKE @k${i} OR tags_json LIKE @k${i})`).join(' OR ');
                 const scoreFragments = keywords.map((_, i) => `(content LIKE @k${i}) + (tags_json LIKE @k${i})`).join(' + ');
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const params: Record<string, any> = { limit: remainingLimit };
+                const params: Record<string, any> = { ...visibilityParams, limit: remainingLimit };
                 keywords.forEach((k, i) => params[`k${i}`] = `%${k}%`);
 
                 try {
                     const likeQuery = `
-                        SELECT id, content, tags_json, created_at, updated_at, (${scoreFragments}) AS score
+                        SELECT id, content, tags_json, pinned, scope, scope_key, expires_at, source_session_id, source_message_id, created_at, updated_at, (${scoreFragments}) AS score
                         FROM memories
-                        WHERE (${likeConditions})
+                        WHERE (${likeConditions}) AND ${visibleLike}
                         ${existingIds.size > 0 ? `AND id NOT IN (${Array.from(existingIds).join(',')})` : ''}
                         ORDER BY score DESC, updated_at DESC
                         LIMIT @limit
@@ -465,15 +900,17 @@ export class TaskDatabase {
         return results;
     }
 
-    getRecentMemories(limit: number = 20): Array<{ id: number; content: string; tags_json: string; created_at: number; updated_at: number }> {
+    getRecentMemories(limit: number = 20, visibility?: MemoryVisibility): MemoryRow[] {
+        const params: Record<string, unknown> = { limit };
         const stmt = this.db.prepare(`
-            SELECT id, content, tags_json, created_at, updated_at
+            SELECT id, content, tags_json, pinned, scope, scope_key, expires_at, source_session_id, source_message_id, created_at, updated_at
             FROM memories
+            WHERE ${this.memoryVisibilityClause(visibility, '', params)}
             ORDER BY created_at DESC
             LIMIT @limit
         `);
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return stmt.all({ limit }) as any;
+        return stmt.all(params) as any;
     }
 
     deleteMemory(id: number): boolean {
@@ -482,6 +919,621 @@ export class TaskDatabase {
         return result.changes > 0;
     }
 
+    getMemory(id: number): MemoryRow | undefined {
+        return this.db.prepare(`
+            SELECT id, content, tags_json, pinned, scope, scope_key, expires_at, source_session_id, source_message_id, created_at, updated_at
+            FROM memories
+            WHERE id = @id
+        `).get({ id }) as MemoryRow | undefined;
+    }
+
+    /**
+     * Memories matching a filter, pinned first then most recently updated,
+     * with the total match count
+     */
+    queryMemories(filter: MemoryFilter = {}): { rows: MemoryRow[]; total: number } {
+        const conditions: string[] = [];
+        const params: Record<string, unknown> = {};
+
+        if (filter.search) {
+            conditions.push("(content LIKE @search ESCAPE '\\' OR tags_json LIKE @search ESCAPE '\\')");
+            params.search = `%${filter.search.replace(/[\\%_]/g, '\\$&')}%`;
+        }
+        if (filter.tag) {
+            conditions.push('EXISTS (SELECT 1 FROM json_each(memories.tags_json) WHERE value = @tag)');
+            params.tag = filter.tag;
+        }
+        if (filter.pinned !== undefined) {
+            conditions.push('pinned = @pinned');
+            params.pinned = filter.pinned ? 1 : 0;
+        }
+        if (filter.scope) {
+            conditions.push('scope = @scope');
+            params.scope = filter.scope;
+        }
+        if (filter.visibility) {
+            conditions.push(this.memoryVisibilityClause(filter.visibility, '', params));
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const total = (this.db.prepare(`SELECT COUNT(*) AS total FROM memories ${where}`).get(params) as { total: number }).total;
+
+        const paging = filter.limit ? 'LIMIT @limit OFFSET @offset' : '';
+        if (filter.limit) {
+            params.limit = filter.limit;
+            params.offset = filter.offset || 0;
+        }
+        const rows = this.db.prepare(`
+            SELECT id, content, tags_json, pinned, scope, scope_key, expires_at, source_session_id, source_message_id, created_at, updated_at
+            FROM memories
+            ${where}
+            ORDER BY pinned DESC, updated_at DESC, id DESC
+            ${paging}
+        `).all(params) as MemoryRow[];
+
+        return { rows, total };
+    }
+
+    /**
+     * Every tag in use with the number of memories carrying it
+     */
+    listMemoryTags(): Array<{ tag: string; count: number }> {
+        return this.db.prepare(`
+            SELECT j.value AS tag, COUNT(*) AS count
+            FROM memories, json_each(memories.tags_json) AS j
+            WHERE json_valid(memories.tags_json)
+            GROUP BY j.value
+            ORDER BY count DESC, tag ASC
+        `).all() as Array<{ tag: string; count: number }>;
+    }
+
+    updateMemory(id: number, update: MemoryUpdate): boolean {
+        const sets: string[] = ['updated_at = @updated_at'];
+        const params: Record<string, unknown> = { id, updated_at: Date.now() };
+        if (update.content !== undefined) {
+            sets.push('content = @content');
+            params.content = update.content;
+        }
+        if (update.tagsJson !== undefined) {
+            sets.push('tags_json = @tags_json');
+            params.tags_json = update.tagsJson;
+        }
+        if (update.pinned !== undefined) {
+            sets.push('pinned = @pinned');
+            params.pinned = update.pinned ? 1 : 0;
+        }
+        if (update.scope !== undefined) {
+            sets.push('scope = @scope', 'scope_key = @scope_key');
+            params.scope = update.scope;
+            params.scope_key = update.scopeKey ?? null;
+        }
+        if (update.expiresAt !== undefined) {
+            sets.push('expires_at = @expires_at');
+            params.expires_at = update.expiresAt;
+        }
+        if (update.sourceSessionId !== undefined) {
+            sets.push('source_session_id = @source_session_id', 'source_message_id = @source_message_id');
+            params.source_session_id = update.sourceSessionId;
+            params.source_message_id = update.sourceMessageId ?? null;
+        }
+        const result = this.db.prepare(`UPDATE memories SET ${sets.join(', ')} WHERE id = @id`).run(params);
+        return result.changes > 0;
+    }
+
+    /**
+     * Apply several updates in one transaction; returns how many rows changed
+     */
+    updateMemories(updates: Array<{ id: number } & MemoryUpdate>): number {
+        const run = this.db.transaction((items: Array<{ id: number } & MemoryUpdate>) =>
+            items.reduce((changed, { id, ...update }) => changed + (this.updateMemory(id, update) ? 1 : 0), 0)
+        );
+        return run(updates);
+    }
+
+    deleteMemories(ids: number[]): number {
+        const stmt = this.db.prepare('DELETE FROM memories WHERE id = @id');
+        const run = this.db.transaction((items: number[]) =>
+            items.reduce((deleted, id) => deleted + stmt.run({ id }).changes, 0)
+        );
+        return run(ids);
+    }
+
+    purgeExpiredMemories(now: number = Date.now()): number {
+        return this.db.prepare('DELETE FROM memories WHERE expires_at IS NOT NULL AND expires_at <= @now').run({ now }).changes;
+    }
+
+    /**
+     * SQL condition for MemoryVisibility; adds its parameters to `params`
+     */
+    private memoryVisibilityClause(visibility: MemoryVisibility | undefined, alias: string, params: Record<string, unknown>): string {
+        if (!visibility) return '1 = 1';
+        const column = (name: string) => (alias ? `${alias}.${name}` : name);
+        const scopes = [`${column('scope')} = 'global'`];
+        if (visibility.projectKeys.length > 0) {
+            const keys = visibility.projectKeys.map((key, i) => {
+                params[`vis_project${i}`] = key;
+                return `@vis_project${i}`;
+            });
+            scopes.push(`(${column('scope')} = 'project' AND ${column('scope_key')} IN (${keys.join(', ')}))`);
+        }
+        if (visibility.sessionId) {
+            params.vis_session = visibility.sessionId;
+            scopes.push(`(${column('scope')} = 'session' AND ${column('scope_key')} = @vis_session)`);
+        }
+        params.vis_now = visibility.now;
+        return `(${column('expires_at')} IS NULL OR ${column('expires_at')} > @vis_now) AND (${scopes.join(' OR ')})`;
+    }
+
+    getMemoriesByIds(ids: number[]): MemoryRow[] {
+        if (ids.length === 0) return [];
+        const rows = this.db.prepare(`
+            SELECT id, content, tags_json, pinned, scope, scope_key, expires_at, source_session_id, source_message_id, created_at, updated_at
+            FROM memories
+            WHERE id IN (${ids.map(() => '?').join(',')})
+        `).all(...ids) as MemoryRow[];
+        const byId = new Map(rows.map(row => [row.id, row]));
+        return ids.flatMap(id => byId.get(id) ?? []);
+    }
+
+    /**
+     * Memory Embedding Methods
+     */
+
+    getMemoriesWithoutEmbedding(model: string, limit: number): MemoryRow[] {
+        return this.db.prepare(`
+            SELECT m.id, m.content, m.tags_json, m.pinned, m.scope, m.scope_key, m.expires_at, m.source_session_id, m.source_message_id, m.created_at, m.updated_at
+            FROM memories m
+            LEFT JOIN memory_embeddings e ON e.memory_id = m.id AND e.model = @model
+            WHERE e.memory_id IS NULL
+            ORDER BY m.id
+            LIMIT @limit
+        `).all({ model, limit }) as MemoryRow[];
+    }
+
+    saveMemoryEmbeddings(model: string, items: Array<{ memoryId: number; vector: Buffer; dims: number }>): void {
+        const stmt = this.db.prepare(`
+            INSERT OR REPLACE INTO memory_embeddings (memory_id, model, dims, vector, updated_at)
+            VALUES (@memory_id, @model, @dims, @vector, @updated_at)
+        `);
+        const run = this.db.transaction(() => {
+            const now = Date.now();
+            for (const item of items) {
+                stmt.run({ memory_id: item.memoryId, model, dims: item.dims, vector: item.vector, updated_at: now });
+            }
+        });
+        run();
+    }
+
+    getMemoryEmbeddings(model: string, visibility?: MemoryVisibility): MemoryEmbeddingRow[] {
+        const params: Record<string, unknown> = { model };
+        return this.db.prepare(`
+            SELECT e.memory_id, e.vector
+            FROM memory_embeddings e
+            JOIN memories m ON m.id = e.memory_id
+            WHERE e.model = @model AND ${this.memoryVisibilityClause(visibility, 'm', params)}
+        `).all(params) as MemoryEmbeddingRow[];
+    }
+
+    countMemoryEmbeddings(model: string): { indexed: number; total: number } {
+        return this.db.prepare(`
+            SELECT
+                (SELECT COUNT(*) FROM memory_embeddings WHERE model = @model) AS indexed,
+                (SELECT COUNT(*) FROM memories) AS total
+        `).get({ model }) as { indexed: number; total: number };
+    }
+
+    // Drops vectors of every model, so a rebuild starts from scratch
+    clearMemoryEmbeddings(): void {
+        this.db.exec('DELETE FROM memory_embeddings');
+    }
+
+    /**
+     * Session Methods
+     */
+
+    listSessions(): SessionRow[] {
+        return this.db.prepare(`
+            SELECT id, title, created_at, updated_at, message_count
+            FROM sessions
+            ORDER BY updated_at DESC, created_at DESC
+        `).all() as SessionRow[];
+    }
+
+    getSession(id: string): SessionRow | undefined {
+        return this.db.prepare(`
+            SELECT id, title, created_at, updated_at, message_count
+            FROM sessions
+            WHERE id = @id
+        `).get({ id }) as SessionRow | undefined;
+    }
+
+    insertSession(session: { id: string; title: string; createdAt: number; updatedAt: number }): void {
+        this.db.prepare(`
+            INSERT INTO sessions (id, title, created_at, updated_at, message_count)
+            VALUES (@id, @title, @created_at, @updated_at, 0)
+        `).run({ id: session.id, title: session.title, created_at: session.createdAt, updated_at: session.updatedAt });
+    }
+
+    updateSessionMeta(id: string, update: { title?: string; updatedAt?: number }): boolean {
+        const sets: string[] = [];
+        const params: Record<string, unknown> = { id };
+        if (update.title !== undefined) {
+            sets.push('title = @title');
+            params.title = update.title;
+        }
+        if (update.updatedAt !== undefined) {
+            sets.push('updated_at = @updated_at');
+            params.updated_at = update.updatedAt;
+        }
+        if (sets.length === 0) return false;
+        return this.db.prepare(`UPDATE sessions SET ${sets.join(', ')} WHERE id = @id`).run(params).changes > 0;
+    }
+
+    deleteSession(id: string): void {
+        this.db.transaction(() => {
+            this.db.prepare('DELETE FROM session_messages WHERE session_id = @id').run({ id });
+            this.db.prepare('DELETE FROM sessions WHERE id = @id').run({ id });
+        })();
+    }
+
+    getSessionMessages(sessionId: string): SessionMessageRow[] {
+        return this.db.prepare(`
+            SELECT position, message_id, role, content_json
+            FROM session_messages
+            WHERE session_id = @sessionId
+            ORDER BY position
+        `).all({ sessionId }) as SessionMessageRow[];
+    }
+
+    /**
+     * Make the stored messages equal `messages`: rows before the first difference
+     * are kept, the rest is rewritten, so appending only inserts the new messages.
+     * Returns how many rows were written.
+     */
+    syncSessionMessages(sessionId: string, messages: SessionMessageInsert[]): number {
+        const run = this.db.transaction(() => {
+            const stored = this.db.prepare(`
+                SELECT message_id, content_hash
+                FROM session_messages
+                WHERE session_id = @sessionId
+                ORDER BY position
+            `).all({ sessionId }) as Array<{ message_id: string | null; content_hash: string }>;
+
+            let keep = 0;
+            while (
+                keep < stored.length &&
+                keep < messages.length &&
+                stored[keep].message_id === messages[keep].messageId &&
+                stored[keep].content_hash === messages[keep].contentHash
+            ) {
+                keep++;
+            }
+
+            this.db.prepare('DELETE FROM session_messages WHERE session_id = @sessionId AND position >= @keep')
+                .run({ sessionId, keep });
+            const insert = this.db.prepare(`
+                INSERT INTO session_messages (session_id, position, message_id, role, content_json, content_hash)
+                VALUES (@session_id, @position, @message_id, @role, @content_json, @content_hash)
+            `);
+            for (let position = keep; position < messages.length; position++) {
+                const message = messages[position];
+                insert.run({
+                    session_id: sessionId,
+                    position,
+                    message_id: message.messageId,
+                    role: message.role,
+                    content_json: message.contentJson,
+                    content_hash: message.contentHash
+                });
+            }
+            this.db.prepare('UPDATE sessions SET message_count = @count WHERE id = @sessionId')
+                .run({ sessionId, count: messages.length });
+            return messages.length - keep;
+        });
+        return run();
+    }
+
+    /**
+     * Copy sessions from the legacy JSON store and set `markerKey` in the same
+     * transaction: an interrupted import leaves nothing behind and is simply redone
+     */
+    importSessions(
+        sessions: Array<{ id: string; title: string; createdAt: number; updatedAt: number; messages: SessionMessageInsert[] }>,
+        markerKey: string
+    ): number {
+        const insertSession = this.db.prepare(`
+            INSERT OR IGNORE INTO sessions (id, title, created_at, updated_at, message_count)
+            VALUES (@id, @title, @created_at, @updated_at, @message_count)
+        `);
+        const insertMessage = this.db.prepare(`
+            INSERT OR IGNORE INTO session_messages (session_id, position, message_id, role, content_json, content_hash)
+            VALUES (@session_id, @position, @message_id, @role, @content_json, @content_hash)
+        `);
+        const run = this.db.transaction(() => {
+            let imported = 0;
+            for (const session of sessions) {
+                const inserted = insertSession.run({
+                    id: session.id,
+                    title: session.title,
+                    created_at: session.createdAt,
+                    updated_at: session.updatedAt,
+                    message_count: session.messages.length
+                }).changes;
+                if (inserted === 0) continue;
+                session.messages.forEach((message, position) => insertMessage.run({
+                    session_id: session.id,
+                    position,
+                    message_id: message.messageId,
+                    role: message.role,
+                    content_json: message.contentJson,
+                    content_hash: message.contentHash
+                }));
+                imported++;
+            }
+            this.setKV(markerKey, { migratedAt: Date.now(), sessions: imported });
+            return imported;
+        });
+        return run();
+    }
+
+    /**
+     * Memory Proposal Methods
+     */
+
+    insertMemoryProposals(items: MemoryProposalInsert[]): number {
+        const stmt = this.db.prepare(`
+            INSERT INTO memory_proposals (content, tags_json, scope, scope_key, merge_target_id, session_id, message_id, status, created_at)
+            VALUES (@content, @tags_json, @scope, @scope_key, @merge_target_id, @session_id, @message_id, 'pending', @created_at)
+        `);
+        const run = this.db.transaction((rows: MemoryProposalInsert[]) => {
+            const now = Date.now();
+            for (const item of rows) {
+                stmt.run({
+                    content: item.content,
+                    tags_json: item.tagsJson,
+                    scope: item.scope,
+                    scope_key: item.scopeKey,
+                    merge_target_id: item.mergeTargetId,
+                    session_id: item.sessionId,
+                    message_id: item.messageId,
+                    created_at: now
+                });
+            }
+            return rows.length;
+        });
+        return run(items);
+    }
+
+    listMemoryProposals(status?: string): MemoryProposalRow[] {
+        return this.db.prepare(`
+            SELECT id, content, tags_json, scope, scope_key, merge_target_id, session_id, message_id, status, created_at, decided_at
+            FROM memory_proposals
+            ${status ? 'WHERE status = @status' : ''}
+            ORDER BY created_at DESC, id DESC
+        `).all(status ? { status } : {}) as MemoryProposalRow[];
+    }
+
+    getMemoryProposalsByIds(ids: number[]): MemoryProposalRow[] {
+        if (ids.length === 0) return [];
+        return this.db.prepare(`
+            SELECT id, content, tags_json, scope, scope_key, merge_target_id, session_id, message_id, status, created_at, decided_at
+            FROM memory_proposals
+            WHERE id IN (${ids.map(() => '?').join(',')})
+            ORDER BY created_at DESC, id DESC
+        `).all(...ids) as MemoryProposalRow[];
+    }
+
+    countMemoryProposals(status: string): number {
+        return (this.db.prepare('SELECT COUNT(*) AS total FROM memory_proposals WHERE status = @status')
+            .get({ status }) as { total: number }).total;
+    }
+
+    /**
+     * Decide pending proposals; returns how many changed
+     */
+    setMemoryProposalStatus(ids: number[], status: string): number {
+        const stmt = this.db.prepare(`
+            UPDATE memory_proposals SET status = @status, decided_at = @decided_at
+            WHERE id = @id AND status = 'pending'
+        `);
+        const run = this.db.transaction((items: number[]) => {
+            const now = Date.now();
+            return items.reduce((changed, id) => changed + stmt.run({ id, status, decided_at: now }).changes, 0);
+        });
+        return run(ids);
+    }
+
+    getMemoryExtractionCursor(sessionId: string): MemoryExtractionCursorRow | undefined {
+        return this.db.prepare(`
+            SELECT session_id, last_message_id, message_count, extracted_at
+            FROM memory_extraction_cursors
+            WHERE session_id = @sessionId
+        `).get({ sessionId }) as MemoryExtractionCursorRow | undefined;
+    }
+
+    saveMemoryExtractionCursor(sessionId: string, lastMessageId: string | null, messageCount: number): void {
+        this.db.prepare(`
+            INSERT INTO memory_extraction_cursors (session_id, last_message_id, message_count, extracted_at)
+            VALUES (@session_id, @last_message_id, @message_count, @extracted_at)
+            ON CONFLICT(session_id) DO UPDATE SET
+                last_message_id = excluded.last_message_id,
+                message_count = excluded.message_count,
+                extracted_at = excluded.extracted_at
+        `).run({ session_id: sessionId, last_message_id: lastMessageId, message_count: messageCount, extracted_at: Date.now() });
+    }
+
+    deleteMemoryExtractionCursor(sessionId: string): void {
+        this.db.prepare('DELETE FROM memory_extraction_cursors WHERE session_id = @sessionId').run({ sessionId });
+    }
+
+    /**
+     * Plan Item Methods
+     */
+
+    listPlanItems(sessionId: string): PlanItemRow[] {
+        const stmt = this.db.prepare(`
+            SELECT id, session_id, parent_id, title, status, note, position, created_at, updated_at
+            FROM plan_items
+            WHERE session_id = @sessionId
+            ORDER BY position ASC, created_at ASC
+        `);
+        return stmt.all({ sessionId }) as PlanItemRow[];
+    }
+
+    insertPlanItem(item: PlanItemInsert) {
+        const now = item.createdAt ?? Date.now();
+        const stmt = this.db.prepare(`
+            INSERT INTO plan_items (id, session_id, parent_id, title, status, note, position, created_at, updated_at)
+            VALUES (@id, @session_id, @parent_id, @title, @status, @note, @position, @created_at, @updated_at)
+        `);
+        stmt.run({
+            id: item.id,
+            session_id: item.sessionId,
+            parent_id: item.parentId,
+            title: item.title,
+            status: item.status,
+            note: item.note ?? null,
+            position: item.position,
+            created_at: now,
+            updated_at: now
+        });
+    }
+
+    updatePlanItem(id: string, patch: PlanItemUpdate): boolean {
+        const columns: Record<keyof PlanItemUpdate, string> = {
+            parentId: 'parent_id',
+            title: 'title',
+            status: 'status',
+            note: 'note',
+            position: 'position'
+        };
+        const assignments: string[] = ['updated_at = @updated_at'];
+        const params: Record<string, unknown> = { id, updated_at: Date.now() };
+
+        for (const key of Object.keys(columns) as Array<keyof PlanItemUpdate>) {
+            if (patch[key] === undefined) continue;
+            assignments.push(`${columns[key]} = @${key}`);
+            params[key] = patch[key];
+        }
+
+        const stmt = this.db.prepare(`UPDATE plan_items SET ${assignments.join(', ')} WHERE id = @id`);
+        return stmt.run(params).changes > 0;
+    }
+
+    deletePlanItems(ids: string[]): number {
+        if (ids.length === 0) return 0;
+        const stmt = this.db.prepare('DELETE FROM plan_items WHERE id = @id');
+        const deleteAll = this.db.transaction((list: string[]) => {
+            let changes = 0;
+            for (const id of list) {
+                changes += stmt.run({ id }).changes;
+            }
+            return changes;
+        });
+        return deleteAll(ids);
+    }
+
+    deletePlanItemsForSession(sessionId: string): number {
+        const stmt = this.db.prepare('DELETE FROM plan_items WHERE session_id = @sessionId');
+        return stmt.run({ sessionId }).changes;
+    }
+
+    /**
+     * Security Audit Methods
+     */
+
+    insertAuditRecord(record: AuditRecordInsert) {
+        const stmt = this.db.prepare(`
+            INSERT INTO audit_log (ts, session_id, type, tool, args_hash, outcome, rule_id, subject, detail)
+            VALUES (@ts, @session_id, @type, @tool, @args_hash, @outcome, @rule_id, @subject, @detail)
+        `);
+
+        stmt.run({
+            ts: record.ts ?? Date.now(),
+            session_id: record.sessionId ?? null,
+            type: record.type,
+            tool: record.tool ?? null,
+            args_hash: record.argsHash ?? null,
+            outcome: record.outcome,
+            rule_id: record.ruleId ?? null,
+            subject: record.subject ?? null,
+            detail: record.detail ?? null
+        });
+    }
+
+    /**
+     * Audit records matching a filter, newest first, with the total match count
+     * Without a limit every matching record is returned (used by export)
+     */
+    queryAuditLog(filter: AuditLogFilter = {}): { records: AuditRecord[]; total: number } {
+        const conditions: string[] = [];
+        const params: Record<string, unknown> = {};
+
+        if (filter.sessionId) {
+            conditions.push('session_id = @sessionId');
+            params.sessionId = filter.sessionId;
+        }
+        if (filter.types && filter.types.length > 0) {
+            const names = filter.types.map((type, index) => {
+                params[`type${index}`] = type;
+                return `@type${index}`;
+            });
+            conditions.push(`type IN (${names.join(', ')})`);
+        }
+        if (filter.tool) {
+            conditions.push('tool = @tool');
+            params.tool = filter.tool;
+        }
+        if (filter.outcome) {
+            conditions.push('outcome = @outcome');
+            params.outcome = filter.outcome;
+        }
+        if (filter.since) {
+            conditions.push('ts >= @since');
+            params.since = filter.since;
+        }
+        if (filter.until) {
+            conditions.push('ts <= @until');
+            params.until = filter.until;
+        }
+        if (filter.search) {
+            conditions.push("(subject LIKE @search ESCAPE '\\' OR detail LIKE @search ESCAPE '\\')");
+            params.search = `%${filter.search.replace(/[\\%_]/g, '\\$&')}%`;
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const total = (this.db.prepare(`SELECT COUNT(*) AS total FROM audit_log ${where}`).get(params) as { total: number }).total;
+
+        const paging = filter.limit ? 'LIMIT @limit OFFSET @offset' : '';
+        if (filter.limit) {
+            params.limit = filter.limit;
+            params.offset = filter.offset || 0;
+        }
+        const rows = this.db.prepare(`
+            SELECT id, ts, session_id, type, tool, args_hash, outcome, rule_id, subject, detail
+            FROM audit_log
+            ${where}
+            ORDER BY ts DESC, id DESC
+            ${paging}
+        `).all(params) as AuditRecordRow[];
+
+        return {
+            total,
+            records: rows.map(row => ({
+                id: row.id,
+                ts: row.ts,
+                sessionId: row.session_id,
+                type: row.type,
+                tool: row.tool,
+                argsHash: row.args_hash,
+                outcome: row.outcome,
+                ruleId: row.rule_id,
+                subject: row.subject,
+                detail: row.detail
+            }))
+        };
+    }
+
     close() {
         this.db.close();
     }
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for SessionStore and the session tables of TaskDatabase,
+ * against a real SQLite file
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const paths = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: vi.fn(() => paths.userData),
+    isPackaged: false,
+  },
+}));
+
+import { TaskDatabase } from '../TaskDatabase';
+import { SessionStore, toSessionMessageInsert } from '../SessionStore';
+import type { AgentMessage } from '../../agent/AgentConstants';
+
+// The native module may be built for Electron only
+function sqliteAvailable(): boolean {
+  try {
+    new Database(':memory:').close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const MIGRATION_KEY = 'sessions.migratedFromJson';
+
+const user = (id: string, content: string): AgentMessage => ({ id, role: 'user', content });
+const assistant = (id: string, content: string): AgentMessage => ({ id, role: 'assistant', content });
+
+function writeLegacy() {
+  fs.writeFileSync(path.join(paths.userData, 'bingowork-sessions.json'), JSON.stringify({
+    currentSessionId: 'b',
+    sessions: [
+      { id: 'a', title: 'First', createdAt: 1, updatedAt: 2, messages: [user('m1', 'hi'), assistant('m2', 'hello')] },
+      { id: 'b', title: 'Second', createdAt: 3, updatedAt: 4, messages: [] },
+    ],
+  }));
+}
+
+describe.skipIf(!sqliteAvailable())('SessionStore', () => {
+  beforeEach(() => {
+    paths.userData = fs.mkdtempSync(path.join(os.tmpdir(), 'bingowork-sessions-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    fs.rmSync(paths.userData, { recursive: true, force: true });
+  });
+
+  describe('TaskDatabase sessions', () => {
+    it('keeps the unchanged prefix and rewrites only the changed tail', () => {
+      const db = new TaskDatabase(path.join(paths.userData, 'test.sqlite3'));
+      db.insertSession({ id: 's', title: 't', createdAt: 1, updatedAt: 1 });
+      const first = [user('u1', 'one'), assistant('a1', 'two')].map(toSessionMessageInsert);
+
+      expect(db.syncSessionMessages('s', first)).toBe(2);
+      expect(db.syncSessionMessages('s', first)).toBe(0);
+      expect(db.syncSessionMessages('s', [...first, toSessionMessageInsert(user('u2', 'three'))])).toBe(1);
+      expect(db.syncSessionMessages('s', [first[0], toSessionMessageInsert(assistant('a1', 'edited'))])).toBe(1);
+
+      expect(db.getSessionMessages('s').map(row => JSON.parse(row.content_json).content)).toEqual(['one', 'edited']);
+      expect(db.getSession('s')?.message_count).toBe(2);
+    });
+
+    it('imports sessions and the done-marker all or nothing', () => {
+      const db = new TaskDatabase(path.join(paths.userData, 'test.sqlite3'));
+      const sessions = [{ id: 'x', title: 'x', createdAt: 1, updatedAt: 1, messages: [toSessionMessageInsert(user('m', 'hi'))] }];
+
+      vi.spyOn(db, 'setKV').mockImplementationOnce(() => { throw new Error('disk I/O error'); });
+      expect(() => db.importSessions(sessions, MIGRATION_KEY)).toThrow('disk I/O error');
+      expect(db.listSessions()).toEqual([]);
+      expect(db.getSessionMessages('x')).toEqual([]);
+      expect(db.getKV(MIGRATION_KEY)).toBeNull();
+
+      expect(db.importSessions(sessions, MIGRATION_KEY)).toBe(1);
+      expect(db.importSessions(sessions, MIGRATION_KEY)).toBe(0);
+      expect(db.getSessionMessages('x')).toHaveLength(1);
+      expect(db.getKV(MIGRATION_KEY)).not.toBeNull();
+    });
+  });
+
+  it('imports the legacy JSON store once and keeps it as a backup', () => {
+    writeLegacy();
+    const store = new SessionStore();
+
+    expect(store.getSessions().map(s => s.id)).toEqual(['b', 'a']);
+    expect(store.getCurrentSessionId()).toBe('b');
+    expect(store.getSession('a')?.messages).toEqual([user('m1', 'hi'), assistant('m2', 'hello')]);
+    expect(fs.existsSync(path.join(paths.userData, 'bingowork-sessions.json'))).toBe(false);
+    expect(fs.existsSync(path.join(paths.userData, 'bingowork-sessions.json.migrated'))).toBe(true);
+  });
+
+  it('retries an interrupted import on the next start', () => {
+    writeLegacy();
+    const setKV = vi.spyOn(TaskDatabase.prototype, 'setKV').mockImplementationOnce(() => { throw new Error('disk I/O error'); });
+    expect(() => new SessionStore().getSessions()).toThrow('disk I/O error');
+    expect(fs.existsSync(path.join(paths.userData, 'bingowork-sessions.json'))).toBe(true);
+    setKV.mockRestore();
+
+    const store = new SessionStore();
+    expect(store.getSessions()).toHaveLength(2);
+    expect(store.getSession('a')?.messages).toHaveLength(2);
+  });
+
+  it('appends messages and titles new sessions from the first user message', () => {
+    const store = new SessionStore();
+    const session = store.createSession();
+    expect(store.getCurrentSessionId()).toBe(session.id);
+
+    const first = [user('u1', 'Plan the release')];
+    store.updateSession(session.id, first);
+    const sync = vi.spyOn(TaskDatabase.prototype, 'syncSessionMessages');
+    store.updateSession(session.id, [...first, assistant('a1', 'Sure')]);
+
+    expect(sync).toHaveReturnedWith(1);
+    expect(store.getSessionInfo(session.id)?.title).toBe('Plan the release');
+    expect(store.getSession(session.id)?.messages).toEqual([...first, assistant('a1', 'Sure')]);
+  });
+
+  it('moves the current session to the most recent one on delete', () => {
+    const store = new SessionStore();
+    vi.useFakeTimers();
+    vi.setSystemTime(1000);
+    const older = store.createSession('older');
+    vi.setSystemTime(2000);
+    const newer = store.createSession('newer');
+
+    store.deleteSession(newer.id);
+    expect(store.getCurrentSessionId()).toBe(older.id);
+    expect(store.getSession(newer.id)).toBeNull();
+    store.deleteSession(older.id);
+    expect(store.getCurrentSessionId()).toBeNull();
+  });
+});
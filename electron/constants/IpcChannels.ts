@@ -14,9 +14,12 @@ export const AGENT_CHANNELS = {
   ABORT: 'agent:abort',
   DELETE_MESSAGE: 'agent:delete-message',
   REGENERATE: 'agent:regenerate',
+  REVERT_TO_MESSAGE: 'agent:revert-to-message',
+  GET_REVERTABLE_MESSAGES: 'agent:get-revertable-messages',
 
   // Events (from main to renderer)
   STREAM_TOKEN: 'agent:stream-token',
+  STREAM_THINKING: 'agent:stream-thinking',
   HISTORY_UPDATE: 'agent:history-update',
   STAGE: 'agent:stage',
   TOOL_CALL: 'agent:tool-call',
@@ -27,6 +30,10 @@ export const AGENT_CHANNELS = {
   ARTIFACT_CREATED: 'agent:artifact-created',
   ERROR: 'agent:error',
   STATUS: 'agent:status',
+  USAGE: 'agent:usage',
+  CONTEXT_COMPACTED: 'agent:context-compacted',
+  MODEL_FAILOVER: 'agent:model-failover',
+  SUBAGENT_PROGRESS: 'agent:subagent-progress',
 
   // Confirmation responses
   CONFIRM_RESPONSE: 'agent:confirm-response',
@@ -64,6 +71,7 @@ export const CONFIG_CHANNELS = {
   SET_ALL: 'config:set-all',
   GET_API_KEY: 'config:get-api-key',
   SET_MODEL: 'config:set-model',
+  GET_SANDBOX_STATUS: 'config:get-sandbox-status',
   UPDATED: 'config:updated', // Event: config updated notification
 } as const;
 
@@ -77,6 +85,9 @@ export const MODEL_CHANNELS = {
   ADD_CUSTOM_MODEL: 'models:add-custom-model',
   DELETE_CUSTOM_MODEL: 'models:delete-custom-model',
   CHECK_CONNECTION: 'models:check-connection',
+  SET_PRICING: 'models:set-pricing',
+  SET_REASONING_BUDGET: 'models:set-reasoning-budget',
+  SET_FALLBACK_CHAIN: 'models:set-fallback-chain',
   UPDATED: 'models:updated', // Event: model registry updated
 } as const;
 
@@ -87,6 +98,10 @@ export const PERMISSION_CHANNELS = {
   LIST: 'permissions:list',
   REVOKE: 'permissions:revoke',
   CLEAR: 'permissions:clear',
+  SAVE_RULE: 'permissions:save-rule',
+  MOVE_RULE: 'permissions:move-rule',
+  EXPORT_RULES: 'permissions:export-rules',
+  IMPORT_RULES: 'permissions:import-rules',
 } as const;
 
 /**
@@ -144,6 +159,22 @@ export const MCP_CHANNELS = {
   DELETE_SERVER: 'mcp:delete-server',
   TOGGLE_SERVER: 'mcp:toggle-server',
   GET_SERVER: 'mcp:get-server',
+  // Resources, prompts and list_changed notifications of connected servers
+  LIST_RESOURCES: 'mcp:list-resources',
+  READ_RESOURCE: 'mcp:read-resource',
+  LIST_PROMPTS: 'mcp:list-prompts',
+  GET_PROMPT: 'mcp:get-prompt',
+  LISTS_CHANGED: 'mcp:lists-changed',
+  // Connection health and per-server logs
+  GET_STATUS: 'mcp:get-status',
+  GET_LOGS: 'mcp:get-logs',
+  CLEAR_LOGS: 'mcp:clear-logs',
+  RECONNECT: 'mcp:reconnect',
+  STATUS_CHANGED: 'mcp:status-changed',
+  // Bingowork's own MCP server for other clients
+  SERVER_STATUS: 'mcp:server-status',
+  SERVER_UPDATE: 'mcp:server-update',
+  SERVER_REGENERATE_TOKEN: 'mcp:server-regenerate-token',
 } as const;
 
 /**
@@ -163,6 +194,35 @@ export const TODO_CHANNELS = {
   LIST: 'todo:list',
   REFRESH: 'todo:refresh',
   UPDATED: 'todo:updated',
+  ADD: 'todo:add',
+  TOGGLE: 'todo:toggle',
+  UPDATE: 'todo:update',
+  DELETE: 'todo:delete',
+  REORDER: 'todo:reorder',
+  CLEAR_COMPLETED: 'todo:clear-completed',
+  EXPORT: 'todo:export',
+  UNLINK_EXPORT: 'todo:unlink-export',
+} as const;
+
+/**
+ * Background process IPC channels
+ */
+export const PROCESS_CHANNELS = {
+  LIST: 'process:list',
+  READ_OUTPUT: 'process:read-output',
+  STOP: 'process:stop',
+  REMOVE: 'process:remove',
+  UPDATED: 'process:updated',
+  OUTPUT: 'process:output',
+} as const;
+
+/**
+ * Docker execution container IPC channels
+ */
+export const CONTAINER_CHANNELS = {
+  STATUS: 'container:status',
+  STOP: 'container:stop',
+  UPDATED: 'container:updated',
 } as const;
 
 /**
@@ -186,6 +246,48 @@ export const SCHEDULE_CHANNELS = {
   TASK_FAILED: 'schedule:task-failed',
 } as const;
 
+/**
+ * Token usage & cost accounting IPC channels
+ */
+export const USAGE_CHANNELS = {
+  SUMMARY: 'usage:summary',
+} as const;
+
+/**
+ * Security audit log IPC channels
+ */
+export const AUDIT_CHANNELS = {
+  QUERY: 'audit:query',
+  EXPORT: 'audit:export',
+} as const;
+
+/**
+ * Permanent memory IPC channels
+ */
+export const MEMORY_CHANNELS = {
+  LIST: 'memory:list',
+  TAGS: 'memory:tags',
+  CREATE: 'memory:create',
+  UPDATE: 'memory:update',
+  DELETE: 'memory:delete',
+  RETAG: 'memory:retag',
+  MOVE: 'memory:move',
+  CONTEXT: 'memory:context',
+  EXPORT: 'memory:export',
+  IMPORT: 'memory:import',
+  RETRIEVAL_STATUS: 'memory:retrieval-status',
+  RETRIEVAL_UPDATE: 'memory:retrieval-update',
+  REBUILD_INDEX: 'memory:rebuild-index',
+  PROPOSALS: 'memory:proposals',
+  ACCEPT_PROPOSALS: 'memory:proposals-accept',
+  REJECT_PROPOSALS: 'memory:proposals-reject',
+  EXTRACTION_STATUS: 'memory:extraction-status',
+  EXTRACTION_UPDATE: 'memory:extraction-update',
+  EXTRACT_SESSION: 'memory:extract-session',
+  CHANGED: 'memory:changed', // Event: memories added, edited or removed
+  PROPOSALS_CHANGED: 'memory:proposals-changed', // Event: review inbox or extraction state changed
+} as const;
+
 /**
  * Auto-update management IPC channels
  */
@@ -220,7 +322,12 @@ export const IPC_CHANNELS = {
   MCP: MCP_CHANNELS,
   SKILLS: SKILLS_CHANNELS,
   TODO: TODO_CHANNELS,
+  PROCESS: PROCESS_CHANNELS,
+  CONTAINER: CONTAINER_CHANNELS,
   SCHEDULE: SCHEDULE_CHANNELS,
+  USAGE: USAGE_CHANNELS,
+  AUDIT: AUDIT_CHANNELS,
+  MEMORY: MEMORY_CHANNELS,
   UPDATE: UPDATE_CHANNELS,
 } as const;
 
@@ -241,7 +348,12 @@ export type IpcChannel =
   | (typeof MCP_CHANNELS)[keyof typeof MCP_CHANNELS]
   | (typeof SKILLS_CHANNELS)[keyof typeof SKILLS_CHANNELS]
   | (typeof TODO_CHANNELS)[keyof typeof TODO_CHANNELS]
+  | (typeof PROCESS_CHANNELS)[keyof typeof PROCESS_CHANNELS]
+  | (typeof CONTAINER_CHANNELS)[keyof typeof CONTAINER_CHANNELS]
   | (typeof SCHEDULE_CHANNELS)[keyof typeof SCHEDULE_CHANNELS]
+  | (typeof USAGE_CHANNELS)[keyof typeof USAGE_CHANNELS]
+  | (typeof AUDIT_CHANNELS)[keyof typeof AUDIT_CHANNELS]
+  | (typeof MEMORY_CHANNELS)[keyof typeof MEMORY_CHANNELS]
   | (typeof UPDATE_CHANNELS)[keyof typeof UPDATE_CHANNELS];
 
 /**
@@ -249,6 +361,7 @@ export type IpcChannel =
  */
 export const EVENT_CHANNELS = {
   [AGENT_CHANNELS.STREAM_TOKEN]: true,
+  [AGENT_CHANNELS.STREAM_THINKING]: true,
   [AGENT_CHANNELS.HISTORY_UPDATE]: true,
   [AGENT_CHANNELS.STAGE]: true,
   [AGENT_CHANNELS.TOOL_CALL]: true,
@@ -259,10 +372,20 @@ export const EVENT_CHANNELS = {
   [AGENT_CHANNELS.ARTIFACT_CREATED]: true,
   [AGENT_CHANNELS.ERROR]: true,
   [AGENT_CHANNELS.STATUS]: true,
+  [AGENT_CHANNELS.USAGE]: true,
+  [AGENT_CHANNELS.CONTEXT_COMPACTED]: true,
+  [AGENT_CHANNELS.MODEL_FAILOVER]: true,
+  [AGENT_CHANNELS.SUBAGENT_PROGRESS]: true,
   [CONFIG_CHANNELS.UPDATED]: true,
+  [MCP_CHANNELS.LISTS_CHANGED]: true,
+  [MCP_CHANNELS.STATUS_CHANGED]: true,
   [MODEL_CHANNELS.UPDATED]: true,
   [FLOATING_BALL_CHANNELS.STATE_CHANGED]: true,
   [TODO_CHANNELS.UPDATED]: true,
+  [PROCESS_CHANNELS.UPDATED]: true,
+  [PROCESS_CHANNELS.OUTPUT]: true,
+  [CONTAINER_CHANNELS.UPDATED]: true,
+  [MEMORY_CHANNELS.CHANGED]: true,
   [SCHEDULE_CHANNELS.TASK_CREATED]: true,
   [SCHEDULE_CHANNELS.TASK_UPDATED]: true,
   [SCHEDULE_CHANNELS.TASK_DELETED]: true,
@@ -124,7 +124,7 @@ export const APP_IDENTIFIERS = {
     PROTOCOL: 'bingowork',
     /** Config store name */
     CONFIG_STORE_NAME: 'bingowork-config',
-    /** Session store name */
+    /** Legacy session store, imported into the task database on first start */
     SESSION_STORE_NAME: 'bingowork-sessions',
     /** Task database name */
     TASK_DATABASE_NAME: 'bingowork-tasks.db',
@@ -23,6 +23,7 @@ import type { BaseLLMProvider } from '../agent/providers/BaseLLMProvider';
 import { AnthropicProvider } from '../agent/providers/AnthropicProvider';
 import { OpenAIProvider } from '../agent/providers/OpenAIProvider';
 import { MiniMaxProvider } from '../agent/providers/MiniMaxProvider';
+import { OllamaProvider } from '../agent/providers/OllamaProvider';
 import { LRUCache } from '../../src/utils/LRUCache';
 import { ScheduleManager } from '../agent/schedule/ScheduleManager';
 
@@ -161,6 +162,8 @@ function createLLMProvider(
       return new OpenAIProvider(apiKey, apiUrl);
     case 'minimax':
       return new MiniMaxProvider(apiKey, apiUrl);
+    case 'ollama':
+      return new OllamaProvider(apiKey, apiUrl);
     case 'anthropic':
     default:
       return new AnthropicProvider(apiKey, apiUrl);
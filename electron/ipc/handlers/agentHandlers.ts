@@ -10,6 +10,9 @@ import { configStore } from '../../config/ConfigStore';
 import { sessionStore } from '../../config/SessionStore';
 import { AGENT_CHANNELS } from '../../constants/IpcChannels';
 import { logs } from '../../utils/logger';
+import type { PermissionRuleScope } from '../../agent/security/PermissionRules';
+import { auditLog } from '../../agent/security/AuditLog';
+import { getMemoryExtractor } from '../../agent/memory/MemoryExtractor';
 import * as crypto from 'crypto';
 
 let agent: AgentRuntime | null = null;
@@ -135,6 +138,16 @@ function logPermissionChange(entry: PermissionAuditLogEntry): void {
     permissionAuditLog.shift();
   }
 
+  const ruleId = typeof entry.details?.ruleId === 'string' ? entry.details.ruleId : undefined;
+  auditLog.record({
+    type: entry.action === 'grant' || entry.action === 'revoke' ? 'rule_saved' : 'confirmation_rejected',
+    outcome: entry.action === 'grant' ? 'granted' : entry.action,
+    tool: entry.tool,
+    subject: entry.path,
+    detail: entry.reason ?? (entry.details ? JSON.stringify(entry.details) : undefined),
+    ruleId
+  });
+
   // Log security-relevant events
   if (entry.action === 'verify_fail' || entry.action === 'token_expired') {
     logs.ipc.warn('[Permission Security]', JSON.stringify(entry));
@@ -199,22 +212,6 @@ function verifyConfirmationToken(id: string, token: string): { ok: boolean; erro
   return { ok: true };
 }
 
-/**
- * SECURITY: Check if tool requires specific path (no wildcard allowed)
- */
-function toolRequiresSpecificPath(tool: string): boolean {
-  const toolsRequiringPath = [
-    'write_file',
-    'delete_file',
-    'run_command',
-    'file_system__write_file',
-    'file_system__delete_file',
-    'file_system__run_command'
-  ];
-
-  return toolsRequiringPath.includes(tool);
-}
-
 /**
  * Set the active agent instance
  */
@@ -322,6 +319,18 @@ export function registerAgentHandlers(): void {
     return { success: true };
   });
 
+  // Restore files from the checkpoint and drop the message and everything after it
+  ipcMain.handle(AGENT_CHANNELS.REVERT_TO_MESSAGE, async (_event, id: string) => {
+    if (!agent) throw new Error('Agent not initialized');
+    const result = await agent.revertToMessage(id);
+    return { success: true, result };
+  });
+
+  // User messages that have a checkpoint to revert to
+  ipcMain.handle(AGENT_CHANNELS.GET_REVERTABLE_MESSAGES, () => {
+    return agent ? agent.getRevertableMessageIds() : [];
+  });
+
   // SECURITY: Handle confirmation response with token verification
   ipcMain.handle(
     AGENT_CHANNELS.CONFIRM_RESPONSE,
@@ -337,7 +346,7 @@ export function registerAgentHandlers(): void {
       }: {
         id: string;
         approved: boolean;
-        remember?: boolean;
+        remember?: boolean | PermissionRuleScope;
         tool?: string;
         path?: string;
         token?: string;
@@ -345,8 +354,11 @@ export function registerAgentHandlers(): void {
     ) => {
       logs.ipc.info(`[Permission] Received confirmation response for ${id}, approved: ${approved}`);
 
+      // Plain `true` comes from older dialogs that only had one "remember" option
+      const scope: PermissionRuleScope | null = remember === true ? 'global' : remember || null;
+
       // SECURITY: Verify token if permission persistence is requested
-      if (approved && remember && tool) {
+      if (approved && scope && tool) {
         // SECURITY: Verify token to prevent forgery
         if (!token) {
           logPermissionChange({
@@ -395,45 +407,21 @@ export function registerAgentHandlers(): void {
           };
         }
 
-        // SECURITY: Restrict wildcard permissions for dangerous tools
-        const permissionPath = tool === 'playwright__playwright_screenshot' ? '*' : path;
+        // The rule is built in the main process from the pending request, never from renderer input
+        const rule = agent?.handleConfirmResponseWithRemember(id, approved, scope) ?? null;
+        pendingConfirmations.delete(id);
 
-        if (permissionPath === '*' && toolRequiresSpecificPath(tool)) {
+        if (rule) {
           logPermissionChange({
             timestamp: Date.now(),
-            action: 'verify_fail',
+            action: 'grant',
             tool,
-            path: permissionPath,
-            reason: 'Wildcard permission not allowed for this tool'
+            path,
+            details: { ruleId: rule.id, scope: rule.scope, scopeValue: rule.scopeValue }
           });
-
-          logs.ipc.warn(`[Permission] Wildcard permission denied for tool: ${tool}`);
-
-          agent?.handleConfirmResponse(id, approved);
-          return {
-            success: false,
-            error: 'Wildcard permission not allowed for this tool',
-            message: `Tool ${tool} requires specific path permissions`
-          };
+          logs.ipc.info(`[Permission] Saved ${rule.scope} rule ${rule.id} for ${tool}`);
         }
-
-        // SECURITY: Add permission with expiry (30 days)
-        const permissionExpiry = Date.now() + (30 * 24 * 60 * 60 * 1000); // 30 days
-
-        configStore.addPermission(tool, permissionPath);
-
-        logPermissionChange({
-          timestamp: Date.now(),
-          action: 'grant',
-          tool,
-          path: permissionPath,
-          details: {
-            expiresAt: permissionExpiry,
-            expiryDays: 30
-          }
-        });
-
-        logs.ipc.info(`[Permission] Saved: ${tool} for path: ${permissionPath || '*'}`);
+        return { success: true, rule };
       }
 
       // Clean up pending confirmation
@@ -456,13 +444,16 @@ export function registerAgentHandlers(): void {
   // New session
   ipcMain.handle(AGENT_CHANNELS.NEW_SESSION, () => {
     agent?.clearHistory();
+    getMemoryExtractor().sessionClosed(sessionStore.getCurrentSessionId());
     const session = sessionStore.createSession();
     return { success: true, sessionId: session.id };
   });
 
   // Authorize folder
   ipcMain.handle(AGENT_CHANNELS.AUTHORIZE_FOLDER, (_event, folderPath: string) => {
+    const previousFolders = configStore.getAuthorizedFolders();
     configStore.addAuthorizedFolder(folderPath);
+    auditLog.recordFolderChanges(previousFolders, configStore.getAuthorizedFolders(), 'Selected by user');
     return { success: true, authorizedFolders: configStore.getAuthorizedFolders() };
   });
 
@@ -491,6 +482,7 @@ export function registerAgentHandlers(): void {
   ipcMain.handle(AGENT_CHANNELS.SET_WORKING_DIR, (_event, folderPath: string) => {
     const folders = configStore.getAuthorizedFolders();
     configStore.setAuthorizedFolders([folderPath, ...folders.filter((f) => f !== folderPath)]);
+    auditLog.recordFolderChanges(folders, configStore.getAuthorizedFolders(), 'Working directory');
 
     // Notify renderer that config has changed
     notifyConfigUpdate();
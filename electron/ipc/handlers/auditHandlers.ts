@@ -0,0 +1,67 @@
+/**
+ * Security audit IPC handlers
+ * Filtered queries over the audit log and CSV / JSON export
+ */
+
+import { ipcMain, dialog } from 'electron';
+import fs from 'fs/promises';
+import { AUDIT_CHANNELS } from '../../constants/IpcChannels';
+import { sessionStore } from '../../config/SessionStore';
+import { auditLog, auditRecordsToCsv, auditRecordsToJson } from '../../agent/security/AuditLog';
+import type { AuditLogFilter } from '../../config/TaskDatabase';
+import { getMainWindow } from './windowHandlers';
+
+const MAX_PAGE_SIZE = 500;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * `sessionId: 'current'` resolves to the active session (null when there is none)
+ */
+function resolveFilter(filter: AuditLogFilter = {}): AuditLogFilter | null {
+  if (filter.sessionId !== 'current') return filter;
+  const sessionId = sessionStore.getCurrentSessionId();
+  return sessionId ? { ...filter, sessionId } : null;
+}
+
+/**
+ * Register all audit-related IPC handlers
+ */
+export function registerAuditHandlers(): void {
+  // One page of records, newest first
+  ipcMain.handle(AUDIT_CHANNELS.QUERY, (_event, filter?: AuditLogFilter) => {
+    const resolved = resolveFilter(filter);
+    if (!resolved) return { records: [], total: 0 };
+    return auditLog.query({
+      ...resolved,
+      limit: Math.min(Math.max(resolved.limit || 100, 1), MAX_PAGE_SIZE),
+      offset: Math.max(resolved.offset || 0, 0),
+    });
+  });
+
+  // Save every record matching the filter to a CSV or JSON file
+  ipcMain.handle(
+    AUDIT_CHANNELS.EXPORT,
+    async (_event, { format, filter }: { format: 'csv' | 'json'; filter?: AuditLogFilter }) => {
+      const mainWindow = getMainWindow();
+      if (!mainWindow) return { success: false, error: 'No window' };
+
+      const extension = format === 'csv' ? 'csv' : 'json';
+      const result = await dialog.showSaveDialog(mainWindow, {
+        defaultPath: `bingowork-audit-${new Date().toISOString().slice(0, 10)}.${extension}`,
+        filters: [{ name: extension.toUpperCase(), extensions: [extension] }],
+      });
+      if (result.canceled || !result.filePath) return { success: false, canceled: true };
+
+      try {
+        const resolved = resolveFilter({ ...filter, limit: undefined, offset: undefined });
+        const { records } = resolved ? auditLog.query(resolved) : { records: [] };
+        const content = format === 'csv' ? auditRecordsToCsv(records) : auditRecordsToJson(records, resolved ?? filter);
+        await fs.writeFile(result.filePath, content, 'utf-8');
+        return { success: true, path: result.filePath, count: records.length };
+      } catch (error) {
+        return { success: false, error: errorMessage(error) };
+      }
+    }
+  );
+}
@@ -10,6 +10,8 @@ import { getAgentInstance } from './agentHandlers';
 import { sessionStore } from '../../config/SessionStore';
 import type { TaskDatabase } from '../../config/TaskDatabase';
 import { logs } from '../../utils/logger';
+import { getSandboxStatus } from '../../agent/security/CommandSandbox';
+import { auditLog } from '../../agent/security/AuditLog';
 
 let taskDb: TaskDatabase | null = null;
 
@@ -58,7 +60,9 @@ export function registerConfigHandlers(): void {
     if (typeof cfg.model === 'string') {
       configStore.setModel(cfg.model);
     }
+    const previousFolders = configStore.getAuthorizedFolders();
     configStore.setAuthorizedFolders(Array.isArray(cfg.authorizedFolders) ? cfg.authorizedFolders : []);
+    auditLog.recordFolderChanges(previousFolders, configStore.getAuthorizedFolders(), 'Settings');
     if (typeof cfg.networkAccess === 'boolean') {
       configStore.setNetworkAccess(cfg.networkAccess);
     }
@@ -68,6 +72,15 @@ export function registerConfigHandlers(): void {
     if (typeof cfg.shortcut === 'string') {
       configStore.set('shortcut', cfg.shortcut);
     }
+    if (cfg.commandSandbox && typeof cfg.commandSandbox === 'object') {
+      configStore.setCommandSandbox(cfg.commandSandbox);
+    }
+    if (cfg.pythonExecutionMode === 'host' || cfg.pythonExecutionMode === 'docker') {
+      configStore.setPythonExecutionMode(cfg.pythonExecutionMode);
+    }
+    if (cfg.dockerExecution && typeof cfg.dockerExecution === 'object') {
+      configStore.setDockerExecution(cfg.dockerExecution);
+    }
     if (
       typeof cfg.workMode === 'string' &&
       (cfg.workMode === 'chat' || cfg.workMode === 'code' || cfg.workMode === 'cowork')
@@ -96,6 +109,15 @@ export function registerConfigHandlers(): void {
     return { success: true };
   });
 
+  // Check which command sandbox backends work here (optionally for unsaved settings)
+  ipcMain.handle(CONFIG_CHANNELS.GET_SANDBOX_STATUS, (_event, draft?: { backend?: string }, refresh?: boolean) => {
+    const config = configStore.getCommandSandbox();
+    const backend = draft?.backend === 'auto' || draft?.backend === 'bubblewrap' || draft?.backend === 'unshare'
+      ? draft.backend
+      : config.backend;
+    return getSandboxStatus({ ...config, backend }, Boolean(refresh));
+  });
+
   // Get API key for current provider
   ipcMain.handle(CONFIG_CHANNELS.GET_API_KEY, async (_event, provider?: string) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,53 @@
+/**
+ * Container IPC Handlers
+ *
+ * Reports the Docker execution mode status (daemon availability and the
+ * per-session containers of ContainerManager) to the settings page.
+ */
+
+import { ipcMain, BrowserWindow } from 'electron';
+import { configStore } from '../../config/ConfigStore';
+import { CONTAINER_CHANNELS } from '../../constants/IpcChannels';
+import { ContainerManager } from '../../agent/container/ContainerManager';
+import type { ContainerStatus } from '../../types/ipc';
+
+async function getStatus(refresh: boolean): Promise<ContainerStatus> {
+  const manager = ContainerManager.getInstance();
+  if (refresh) {
+    await manager.healthCheck();
+  }
+  return {
+    enabled: configStore.getPythonExecutionMode() === 'docker',
+    docker: await manager.checkDocker(refresh),
+    containers: manager.list(),
+  };
+}
+
+/**
+ * Register container-related IPC handlers
+ */
+export function registerContainerHandlers(): void {
+  const manager = ContainerManager.getInstance();
+
+  manager.onChange(() => {
+    const containers = manager.list();
+    BrowserWindow.getAllWindows().forEach((win) => {
+      if (!win.isDestroyed()) {
+        win.webContents.send(CONTAINER_CHANNELS.UPDATED, containers);
+      }
+    });
+  });
+
+  // Docker availability and session containers (refresh re-runs the checks)
+  ipcMain.handle(CONTAINER_CHANNELS.STATUS, (_event, refresh?: boolean) => getStatus(Boolean(refresh)));
+
+  // Remove a session's container; the next command starts a fresh one
+  ipcMain.handle(CONTAINER_CHANNELS.STOP, async (_event, sessionId: string) => {
+    try {
+      await manager.stopSession(sessionId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+}
@@ -15,7 +15,12 @@ import { registerSkillsHandlers } from './skillsHandlers';
 import { registerFloatingBallHandlers } from './floatingBallHandlers';
 import { registerShellHandlers } from './shellHandlers';
 import { registerTodoHandlers } from './todoHandlers';
+import { registerProcessHandlers } from './processHandlers';
+import { registerContainerHandlers } from './containerHandlers';
 import { registerScheduleHandlers, setScheduleManager } from './scheduleHandlers';
+import { registerUsageHandlers } from './usageHandlers';
+import { registerAuditHandlers } from './auditHandlers';
+import { registerMemoryHandlers } from './memoryHandlers';
 import { registerUpdateHandlers, setUpdateMainWindow, checkForUpdatesOnStartup } from './updateHandlers';
 import type { TaskDatabase } from '../../config/TaskDatabase';
 
@@ -36,7 +41,12 @@ export function registerAllIPCHandlers(taskDb: TaskDatabase | null): void {
   registerFloatingBallHandlers();
   registerShellHandlers();
   registerTodoHandlers();
+  registerProcessHandlers();
+  registerContainerHandlers();
   registerScheduleHandlers();
+  registerUsageHandlers(taskDb);
+  registerAuditHandlers();
+  registerMemoryHandlers();
   registerUpdateHandlers();
 }
 
@@ -5,7 +5,7 @@
  * V2 format provides structured CRUD operations for MCP server management.
  */
 
-import { ipcMain } from 'electron';
+import { ipcMain, BrowserWindow } from 'electron';
 import path from 'path';
 import os from 'os';
 import fs from 'fs/promises';
@@ -14,14 +14,34 @@ import { IPC_CHANNELS } from '../../constants/IpcChannels';
 import { logs } from '../../utils/logger';
 
 import { AgentRuntime } from '../../agent/AgentRuntime';
+import { configStore, type MCPServerExposureConfig } from '../../config/ConfigStore';
+import { bingoworkMCPServer } from '../../agent/mcp/BingoworkMCPServer';
+import { generateServerToken } from '../../agent/mcp/serverExposure';
+import { PromptInjectionGuard } from '../../agent/security/PromptInjectionGuard';
+import { promptMessagesToText, resourceContentsToAttachment } from '../../agent/mcp/mcpContent';
 import type { MCPServerConfig, MCPConfigFile } from '../../agent/mcp/types.js';
 
 const mcpConfigPath = path.join(os.homedir(), '.bingowork', 'mcp.json');
 
 let agent: AgentRuntime | null = null;
+let removeStatusListener: (() => void) | null = null;
 
 export function setAgentInstance(agentInstance: AgentRuntime): void {
   agent = agentInstance;
+
+  // Live connection state for the settings badges
+  removeStatusListener?.();
+  removeStatusListener = agentInstance.getMCPService().onStatusChange((status) => {
+    BrowserWindow.getAllWindows().forEach((win) => {
+      if (!win.isDestroyed()) {
+        win.webContents.send(IPC_CHANNELS.MCP.STATUS_CHANGED, status);
+      }
+    });
+  });
+
+  // Bingowork's own MCP server needs the agent for tool calls and skills
+  bingoworkMCPServer.setAgent(agentInstance);
+  void bingoworkMCPServer.apply();
 }
 
 /**
@@ -39,11 +59,22 @@ async function reloadMCPServices(): Promise<void> {
       if (toolRegistry) {
         await toolRegistry.loadDynamicTools();
       }
+      // Servers may have come or gone; the chat input refetches resources and prompts
+      agent.broadcast(IPC_CHANNELS.MCP.LISTS_CHANGED, { server: null, kind: null });
       logs.mcp.info('[MCP] MCP services reloaded successfully');
     }
   }
 }
 
+/**
+ * Connected MCP client service, loading servers on first use
+ */
+async function getConnectedMCPService() {
+  if (!agent) throw new Error('Agent not initialized');
+  await agent.ensureExtensionsLoaded();
+  return agent.getMCPService();
+}
+
 /**
  * Load and parse MCP configuration file with auto-migration
  */
@@ -138,26 +169,14 @@ function validateServerConfig(server: MCPServerConfig): { ok: boolean; error?: s
 }
 
 /**
- * Disconnect a specific MCP server by ID
+ * Disconnect a specific MCP server by ID; `forget` drops its status and logs
  */
-async function disconnectServerById(id: string): Promise<void> {
+async function disconnectServerById(id: string, forget = false): Promise<void> {
   if (agent) {
-    const mcpService = agent.getMCPService();
-    if (mcpService) {
-      // Access the internal clients map to disconnect
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const clients = (mcpService as unknown as any).clients;
-      if (clients && clients.has(id)) {
-        const client = clients.get(id);
-        try {
-          const anyClient = client as unknown as { close?: () => unknown; disconnect?: () => unknown };
-          if (typeof anyClient.close === 'function') await anyClient.close();
-          else if (typeof anyClient.disconnect === 'function') await anyClient.disconnect();
-        } catch (e) {
-          logs.mcp.error(`Failed to disconnect MCP server ${id}:`, e);
-        }
-        clients.delete(id);
-      }
+    try {
+      await agent.getMCPService().disconnectServerById(id, forget);
+    } catch (e) {
+      logs.mcp.error(`Failed to disconnect MCP server ${id}:`, e);
     }
   }
 }
@@ -321,7 +340,7 @@ export function registerMCPHandlers(): void {
       }
 
       // Disconnect the server if it's currently connected
-      await disconnectServerById(id);
+      await disconnectServerById(id, true);
 
       config.servers.splice(index, 1);
       await saveMCPConfig(config);
@@ -359,4 +378,121 @@ export function registerMCPHandlers(): void {
       return { success: false, error: (error as Error).message };
     }
   });
+
+  // =====================================================
+  // Resources and prompts of connected servers
+  // =====================================================
+
+  // Resources and resource templates offered by all connected servers
+  ipcMain.handle(IPC_CHANNELS.MCP.LIST_RESOURCES, async () => {
+    try {
+      const mcpService = await getConnectedMCPService();
+      return { success: true, data: await mcpService.listResources() };
+    } catch (error) {
+      console.error('[MCP] Failed to list resources:', error);
+      return { success: false, error: (error as Error).message, data: [] };
+    }
+  });
+
+  // Read a resource as a message attachment; the text is marked as untrusted server data
+  ipcMain.handle(IPC_CHANNELS.MCP.READ_RESOURCE, async (_event, server: string, uri: string) => {
+    try {
+      const mcpService = await getConnectedMCPService();
+      const { text, images } = resourceContentsToAttachment(await mcpService.readResource(server, uri));
+      const { content } = new PromptInjectionGuard().inspect(`${server}__resource`, `Resource: ${uri}\n\n${text}`);
+      return { success: true, data: { text: content, images } };
+    } catch (error) {
+      console.error('[MCP] Failed to read resource:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Prompts offered by all connected servers (shown as slash commands)
+  ipcMain.handle(IPC_CHANNELS.MCP.LIST_PROMPTS, async () => {
+    try {
+      const mcpService = await getConnectedMCPService();
+      return { success: true, data: await mcpService.listPrompts() };
+    } catch (error) {
+      console.error('[MCP] Failed to list prompts:', error);
+      return { success: false, error: (error as Error).message, data: [] };
+    }
+  });
+
+  // Expand a prompt with its arguments into editable text
+  ipcMain.handle(
+    IPC_CHANNELS.MCP.GET_PROMPT,
+    async (_event, server: string, name: string, args?: Record<string, string>) => {
+      try {
+        const mcpService = await getConnectedMCPService();
+        const result = await mcpService.getPrompt(server, name, args);
+        return { success: true, data: { text: promptMessagesToText(result), description: result.description } };
+      } catch (error) {
+        console.error('[MCP] Failed to get prompt:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  // =====================================================
+  // Connection health and logs
+  // =====================================================
+
+  // Connection state of every supervised server
+  ipcMain.handle(IPC_CHANNELS.MCP.GET_STATUS, () => {
+    return { success: true, data: agent ? agent.getMCPService().getServerStatuses() : [] };
+  });
+
+  // Recent stderr lines and connection events of one server
+  ipcMain.handle(IPC_CHANNELS.MCP.GET_LOGS, (_event, id: string) => {
+    return { success: true, data: agent ? agent.getMCPService().getServerLogs(id) : [] };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.MCP.CLEAR_LOGS, (_event, id: string) => {
+    agent?.getMCPService().clearServerLogs(id);
+    return { success: true };
+  });
+
+  // Reconnect now, also out of the failed state
+  ipcMain.handle(IPC_CHANNELS.MCP.RECONNECT, async (_event, id: string) => {
+    try {
+      const mcpService = await getConnectedMCPService();
+      const connected = await mcpService.reconnectServer(id);
+      return connected ? { success: true } : { success: false, error: mcpService.getServerStatuses().find(s => s.id === id)?.lastError || '连接失败' };
+    } catch (error) {
+      console.error('[MCP] Failed to reconnect server:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // =====================================================
+  // Bingowork's own MCP server
+  // =====================================================
+
+  ipcMain.handle(IPC_CHANNELS.MCP.SERVER_STATUS, () => bingoworkMCPServer.getStatus());
+
+  // Save the settings and start, restart or stop the server accordingly
+  ipcMain.handle(IPC_CHANNELS.MCP.SERVER_UPDATE, async (_event, config: Partial<MCPServerExposureConfig>) => {
+    try {
+      // The token only changes through SERVER_REGENERATE_TOKEN
+      const { token: _token, ...settings } = config;
+      configStore.setMCPServer(settings);
+      await bingoworkMCPServer.apply();
+      return { success: true, data: bingoworkMCPServer.getStatus() };
+    } catch (error) {
+      console.error('[MCP] Failed to update MCP server settings:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // New token; connected clients are dropped and must use the new one
+  ipcMain.handle(IPC_CHANNELS.MCP.SERVER_REGENERATE_TOKEN, async () => {
+    try {
+      configStore.setMCPServer({ token: generateServerToken() });
+      await bingoworkMCPServer.apply();
+      return { success: true, data: bingoworkMCPServer.getStatus() };
+    } catch (error) {
+      console.error('[MCP] Failed to regenerate MCP server token:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
 }
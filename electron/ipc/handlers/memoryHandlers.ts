@@ -0,0 +1,323 @@
+/**
+ * Memory IPC handlers
+ * Browse, edit, pin and retag permanent memories, and share them as JSON or
+ * Markdown memory packs
+ */
+
+import { ipcMain, dialog, BrowserWindow } from 'electron';
+import fs from 'fs/promises';
+import { MEMORY_CHANNELS } from '../../constants/IpcChannels';
+import { getMemoryManager, onMemoriesChanged } from '../../agent/memory/MemoryManager';
+import { getMemoryExtractor, onProposalsChanged } from '../../agent/memory/MemoryExtractor';
+import { ApiEmbeddingProvider, LocalEmbeddingProvider } from '../../agent/memory/embeddings';
+import type {
+  MemoryCreateOptions,
+  MemoryExportFormat,
+  MemoryListFilter,
+  MemoryProposalEdit,
+  MemoryScope,
+  MemoryUpdateInput,
+} from '../../agent/memory/types';
+import { configStore, type MemoryExtractionConfig, type MemoryRetrievalConfig } from '../../config/ConfigStore';
+import { SecureCredentials } from '../../config/SecureCredentials';
+import { sessionStore } from '../../config/SessionStore';
+import { getMainWindow } from './windowHandlers';
+import { getAgentInstance } from './agentHandlers';
+
+const MAX_PAGE_SIZE = 500;
+// Keychain account for the embeddings endpoint key
+const EMBEDDING_KEY_ACCOUNT = 'memory-embeddings';
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Hand the configured embedding backend to the MemoryManager
+ */
+async function applyMemoryRetrieval(): Promise<void> {
+  const config = configStore.getMemoryRetrieval();
+  if (!config.enabled) {
+    getMemoryManager().configureRetrieval(null);
+    return;
+  }
+  const provider = config.backend === 'api'
+    ? new ApiEmbeddingProvider(config.apiUrl, (await SecureCredentials.getApiKey(EMBEDDING_KEY_ACCOUNT)) || '', config.apiModel)
+    : new LocalEmbeddingProvider(config.localModel, configStore.getNetworkAccess());
+  getMemoryManager().configureRetrieval(provider, { topK: config.topK, tokenBudget: config.tokenBudget });
+}
+
+function extractionStatus() {
+  return { config: configStore.getMemoryExtraction(), ...getMemoryExtractor().getStatus() };
+}
+
+function broadcast(channel: string): void {
+  BrowserWindow.getAllWindows().forEach((win) => {
+    if (!win.isDestroyed()) {
+      win.webContents.send(channel);
+    }
+  });
+}
+
+async function retrievalStatus() {
+  return {
+    config: configStore.getMemoryRetrieval(),
+    hasApiKey: await SecureCredentials.hasApiKey(EMBEDDING_KEY_ACCOUNT),
+    index: getMemoryManager().getIndexStatus(),
+  };
+}
+
+/**
+ * Register all memory-related IPC handlers
+ */
+export function registerMemoryHandlers(): void {
+  // Project memories follow the primary authorized folder, session memories the open session
+  getMemoryManager().setContextResolver(() => ({
+    projectPath: configStore.getAuthorizedFolders()[0] ?? null,
+    sessionId: sessionStore.getCurrentSessionId(),
+  }));
+  getMemoryManager().purgeExpired();
+  setInterval(() => getMemoryManager().purgeExpired(), PURGE_INTERVAL_MS).unref();
+
+  applyMemoryRetrieval().catch((error) => {
+    console.error('[Memory] Failed to set up semantic retrieval:', error);
+  });
+
+  // The extraction pass uses the chat provider, with its own model when one is set
+  getMemoryExtractor().configure({
+    settings: () => configStore.getMemoryExtraction(),
+    resolveLLM: async () => {
+      const agent = getAgentInstance();
+      if (!agent) return null;
+      const connection = agent.getLLMConnection();
+      if (connection.provider !== 'ollama' && !connection.apiKey.trim()) return null;
+      const model = configStore.getMemoryExtraction().model || connection.model;
+      return model ? { ...connection, model } : null;
+    },
+    getSession: (id) => sessionStore.getSession(id),
+    sessionTitle: (id) => sessionStore.getSessionInfo(id)?.title ?? null,
+    projectPath: () => configStore.getAuthorizedFolders()[0] ?? null,
+  });
+
+  // Changes made by the model (record_fact, forget_fact) refresh the view too
+  onMemoriesChanged(() => broadcast(MEMORY_CHANNELS.CHANGED));
+  onProposalsChanged(() => broadcast(MEMORY_CHANNELS.PROPOSALS_CHANGED));
+
+  // One page of memories, pinned first; `search` matches content and tags
+  ipcMain.handle(MEMORY_CHANNELS.LIST, async (_event, filter: MemoryListFilter = {}) => {
+    try {
+      const data = await getMemoryManager().listMemories({
+        ...filter,
+        limit: Math.min(Math.max(filter.limit || 100, 1), MAX_PAGE_SIZE),
+        offset: Math.max(filter.offset || 0, 0),
+      });
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  ipcMain.handle(MEMORY_CHANNELS.TAGS, async () => {
+    try {
+      return { success: true, data: await getMemoryManager().listTags() };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  ipcMain.handle(
+    MEMORY_CHANNELS.CREATE,
+    async (_event, { content: rawContent, tags, ...options }: { content: string; tags?: string[] } & MemoryCreateOptions) => {
+      try {
+        const content = String(rawContent || '').trim();
+        if (!content) return { success: false, error: '记忆内容不能为空' };
+        const memory = await getMemoryManager().addMemory(content, tags || [], options);
+        return { success: true, data: memory };
+      } catch (error) {
+        return { success: false, error: errorMessage(error) };
+      }
+    }
+  );
+
+  ipcMain.handle(MEMORY_CHANNELS.UPDATE, async (_event, id: number, input: MemoryUpdateInput) => {
+    try {
+      const memory = await getMemoryManager().updateMemory(id, input);
+      return memory ? { success: true, data: memory } : { success: false, error: `记忆 ${id} 不存在` };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  ipcMain.handle(MEMORY_CHANNELS.DELETE, async (_event, ids: number[]) => {
+    try {
+      return { success: true, data: { deleted: await getMemoryManager().deleteMemories(ids) } };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  // Add and remove tags on several memories at once
+  ipcMain.handle(
+    MEMORY_CHANNELS.RETAG,
+    async (_event, { ids, add, remove }: { ids: number[]; add?: string[]; remove?: string[] }) => {
+      try {
+        return { success: true, data: { changed: await getMemoryManager().retagMemories(ids, add, remove) } };
+      } catch (error) {
+        return { success: false, error: errorMessage(error) };
+      }
+    }
+  );
+
+  // Scopes a memory can be moved to: the authorized folders and the open session
+  ipcMain.handle(MEMORY_CHANNELS.CONTEXT, async () => {
+    return {
+      success: true,
+      data: { ...getMemoryManager().currentContext(), projects: configStore.getAuthorizedFolders() },
+    };
+  });
+
+  ipcMain.handle(
+    MEMORY_CHANNELS.MOVE,
+    async (_event, { ids, scope, scopeKey }: { ids: number[]; scope: MemoryScope; scopeKey?: string | null }) => {
+      try {
+        return { success: true, data: { changed: await getMemoryManager().moveMemories(ids, scope, scopeKey) } };
+      } catch (error) {
+        return { success: false, error: errorMessage(error) };
+      }
+    }
+  );
+
+  // Save the selected memories (all when no ids are given) as a memory pack
+  ipcMain.handle(
+    MEMORY_CHANNELS.EXPORT,
+    async (_event, { format, ids }: { format: MemoryExportFormat; ids?: number[] }) => {
+      const mainWindow = getMainWindow();
+      if (!mainWindow) return { success: false, error: 'No window' };
+
+      const extension = format === 'markdown' ? 'md' : 'json';
+      const result = await dialog.showSaveDialog(mainWindow, {
+        defaultPath: `bingowork-memories-${new Date().toISOString().slice(0, 10)}.${extension}`,
+        filters: [{ name: format === 'markdown' ? 'Markdown' : 'JSON', extensions: [extension] }],
+      });
+      if (result.canceled || !result.filePath) return { success: false, canceled: true };
+
+      try {
+        const content = await getMemoryManager().exportMemories(format, ids);
+        await fs.writeFile(result.filePath, content, 'utf-8');
+        return { success: true, path: result.filePath };
+      } catch (error) {
+        return { success: false, error: errorMessage(error) };
+      }
+    }
+  );
+
+  // Read a JSON or Markdown memory pack; duplicates of existing memories are skipped
+  ipcMain.handle(MEMORY_CHANNELS.IMPORT, async (_event, options: { tags?: string[] } = {}) => {
+    const mainWindow = getMainWindow();
+    if (!mainWindow) return { success: false, error: 'No window' };
+
+    const result = await dialog.showOpenDialog(mainWindow, {
+      properties: ['openFile'],
+      filters: [{ name: 'Memory pack', extensions: ['json', 'md', 'markdown'] }],
+    });
+    if (result.canceled || result.filePaths.length === 0) return { success: false, canceled: true };
+
+    try {
+      const text = await fs.readFile(result.filePaths[0], 'utf-8');
+      return { success: true, data: await getMemoryManager().importMemories(text, options.tags) };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  ipcMain.handle(MEMORY_CHANNELS.RETRIEVAL_STATUS, async () => {
+    try {
+      return { success: true, data: await retrievalStatus() };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  // `apiKey` is stored in the keychain, never in the config file; an empty string removes it
+  ipcMain.handle(
+    MEMORY_CHANNELS.RETRIEVAL_UPDATE,
+    async (_event, { apiKey, ...config }: Partial<MemoryRetrievalConfig> & { apiKey?: string }) => {
+      try {
+        configStore.setMemoryRetrieval(config);
+        if (apiKey !== undefined) {
+          await SecureCredentials.setApiKey(EMBEDDING_KEY_ACCOUNT, apiKey.trim());
+        }
+        await applyMemoryRetrieval();
+        return { success: true, data: await retrievalStatus() };
+      } catch (error) {
+        return { success: false, error: errorMessage(error) };
+      }
+    }
+  );
+
+  // Review inbox: facts extracted from finished conversations
+  ipcMain.handle(MEMORY_CHANNELS.PROPOSALS, async () => {
+    try {
+      return { success: true, data: await getMemoryExtractor().listProposals() };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  // `edits` holds reviewer changes to content or tags, keyed by proposal id
+  ipcMain.handle(
+    MEMORY_CHANNELS.ACCEPT_PROPOSALS,
+    async (_event, { ids, edits }: { ids: number[]; edits?: Record<number, MemoryProposalEdit> }) => {
+      try {
+        return { success: true, data: { accepted: await getMemoryExtractor().acceptProposals(ids, edits) } };
+      } catch (error) {
+        return { success: false, error: errorMessage(error) };
+      }
+    }
+  );
+
+  ipcMain.handle(MEMORY_CHANNELS.REJECT_PROPOSALS, async (_event, ids: number[]) => {
+    try {
+      return { success: true, data: { rejected: getMemoryExtractor().rejectProposals(ids) } };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  ipcMain.handle(MEMORY_CHANNELS.EXTRACTION_STATUS, async () => {
+    try {
+      return { success: true, data: extractionStatus() };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  ipcMain.handle(MEMORY_CHANNELS.EXTRACTION_UPDATE, async (_event, config: Partial<MemoryExtractionConfig>) => {
+    try {
+      configStore.setMemoryExtraction(config);
+      return { success: true, data: extractionStatus() };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  // Read a session now, the current one by default, even when automatic extraction is off
+  ipcMain.handle(MEMORY_CHANNELS.EXTRACT_SESSION, async (_event, sessionId?: string) => {
+    try {
+      const id = sessionId || sessionStore.getCurrentSessionId();
+      if (!id) return { success: false, error: '没有可读取的会话' };
+      return { success: true, data: { proposed: await getMemoryExtractor().extractSession(id, true) } };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  // Re-embedding runs in the background; the status reports progress
+  ipcMain.handle(MEMORY_CHANNELS.REBUILD_INDEX, async () => {
+    try {
+      void getMemoryManager().rebuildIndex();
+      return { success: true, data: await retrievalStatus() };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+}
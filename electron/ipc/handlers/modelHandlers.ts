@@ -7,7 +7,9 @@ import { getAgentInstance } from './agentHandlers';
 import { TaskDatabase } from '../../config/TaskDatabase';
 import { OpenAIProvider } from '../../agent/providers/OpenAIProvider';
 import { AnthropicProvider } from '../../agent/providers/AnthropicProvider';
+import { OllamaProvider } from '../../agent/providers/OllamaProvider';
 import { logs } from '../../utils/logger';
+import { toTransportProvider, type ModelPricing, type ProviderProtocol } from '../../types/models';
 
 function broadcast(channel: string, data?: unknown) {
     const windows = BrowserWindow.getAllWindows();
@@ -38,9 +40,11 @@ export function registerModelHandlers(taskDb: TaskDatabase | null): void {
         if (active && active.providerId === String(payload.providerId || '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')) {
             const providerId = active.providerId;
             const apiKey = (await SecureCredentials.getApiKey(providerId)) || '';
-            const transportProvider = active.protocol === 'anthropic' ? 'anthropic' : 'openai';
+            const transportProvider = toTransportProvider(active.protocol);
             const apiUrl = active.effectiveBaseUrl;
             const model = active.modelId;
+            const contextWindow = active.contextWindow;
+            const reasoningBudget = active.reasoningBudget ?? 0;
 
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             configStore.setProvider(transportProvider as any);
@@ -52,10 +56,10 @@ export function registerModelHandlers(taskDb: TaskDatabase | null): void {
             if (agent) {
                 if (apiKey) {
                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    agent.updateLLMConfig({ provider: transportProvider as any, apiUrl, model, apiKey });
+                    agent.updateLLMConfig({ provider: transportProvider as any, apiUrl, model, apiKey, contextWindow, reasoningBudget });
                 } else {
                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    agent.updateLLMConfig({ provider: transportProvider as any, apiUrl, model });
+                    agent.updateLLMConfig({ provider: transportProvider as any, apiUrl, model, contextWindow, reasoningBudget });
                 }
             }
         }
@@ -77,6 +81,30 @@ export function registerModelHandlers(taskDb: TaskDatabase | null): void {
         return { success: true };
     });
 
+    ipcMain.handle(MODEL_CHANNELS.SET_PRICING, async (_event, payload: { modelId: string; pricing: ModelPricing | null }) => {
+        await getService().setModelPricing(payload.modelId, payload.pricing);
+        broadcast(MODEL_CHANNELS.UPDATED);
+        return { success: true };
+    });
+
+    ipcMain.handle(MODEL_CHANNELS.SET_REASONING_BUDGET, async (_event, payload: { modelId: string; budget: number | null }) => {
+        await getService().setModelReasoningBudget(payload.modelId, payload.budget);
+
+        const state = await getService().getState();
+        if (state.activeModelId === payload.modelId) {
+            getAgentInstance()?.updateLLMConfig({ reasoningBudget: payload.budget ?? 0 });
+        }
+
+        broadcast(MODEL_CHANNELS.UPDATED);
+        return { success: true };
+    });
+
+    ipcMain.handle(MODEL_CHANNELS.SET_FALLBACK_CHAIN, async (_event, modelIds: string[]) => {
+        await getService().setFallbackChain(modelIds);
+        broadcast(MODEL_CHANNELS.UPDATED);
+        return { success: true };
+    });
+
     ipcMain.handle(MODEL_CHANNELS.SET_ACTIVE, async (_event, modelId: string) => {
         await getService().setActiveModel(modelId);
 
@@ -89,9 +117,11 @@ export function registerModelHandlers(taskDb: TaskDatabase | null): void {
         const providerId = active.providerId;
         const apiKey = (await SecureCredentials.getApiKey(providerId)) || '';
         const providerProtocol = active.protocol;
-        const transportProvider = providerProtocol === 'anthropic' ? 'anthropic' : 'openai';
+        const transportProvider = toTransportProvider(providerProtocol);
         const apiUrl = active.effectiveBaseUrl;
         const model = active.modelId;
+        const contextWindow = active.contextWindow;
+        const reasoningBudget = active.reasoningBudget ?? 0;
 
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         configStore.setProvider(transportProvider as any);
@@ -103,10 +133,10 @@ export function registerModelHandlers(taskDb: TaskDatabase | null): void {
         if (agent) {
             if (apiKey) {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                agent.updateLLMConfig({ provider: transportProvider as any, apiUrl, model, apiKey });
+                agent.updateLLMConfig({ provider: transportProvider as any, apiUrl, model, apiKey, contextWindow, reasoningBudget });
             } else {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                agent.updateLLMConfig({ provider: transportProvider as any, apiUrl, model });
+                agent.updateLLMConfig({ provider: transportProvider as any, apiUrl, model, contextWindow, reasoningBudget });
             }
         }
 
@@ -116,7 +146,7 @@ export function registerModelHandlers(taskDb: TaskDatabase | null): void {
         return { success: true, activeModelId: state.activeModelId };
     });
 
-    ipcMain.handle(MODEL_CHANNELS.CHECK_CONNECTION, async (_event, payload: { providerId: string; baseUrl?: string; apiKey?: string; protocol?: 'openai' | 'anthropic' }) => {
+    ipcMain.handle(MODEL_CHANNELS.CHECK_CONNECTION, async (_event, payload: { providerId: string; baseUrl?: string; apiKey?: string; protocol?: ProviderProtocol }) => {
         try {
             let apiKey = payload.apiKey || '';
             if (!apiKey && payload.providerId) {
@@ -127,6 +157,12 @@ export function registerModelHandlers(taskDb: TaskDatabase | null): void {
             const baseUrl = payload.baseUrl || '';
             const protocol = payload.protocol || (payload.providerId === 'anthropic' ? 'anthropic' : 'openai');
 
+            if (protocol === 'ollama') {
+                // Report which models the local server has (and which are loaded), so the user can pick one
+                const models = await new OllamaProvider(apiKey, baseUrl).listModels();
+                return { success: true, models };
+            }
+
             let instance;
             if (protocol === 'anthropic') {
                 instance = new AnthropicProvider(apiKey, baseUrl);
@@ -3,31 +3,95 @@
  * Handles all IPC communication related to permission operations
  */
 
-import { ipcMain } from 'electron';
+import { ipcMain, dialog } from 'electron';
+import fs from 'fs/promises';
 import { configStore } from '../../config/ConfigStore';
 import { PERMISSION_CHANNELS } from '../../constants/IpcChannels';
+import {
+  exportPermissionRules,
+  importPermissionRules,
+  normalizePermissionRule,
+} from '../../agent/security/PermissionRules';
+import { getMainWindow } from './windowHandlers';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
 
 /**
  * Register all permission-related IPC handlers
  */
 export function registerPermissionHandlers(): void {
-  // List all permissions
+  // List permission rules in evaluation order
   ipcMain.handle(PERMISSION_CHANNELS.LIST, () => {
-    return configStore.getAllowedPermissions();
+    return configStore.getPermissionRules();
   });
 
-  // Revoke specific permission
-  ipcMain.handle(
-    PERMISSION_CHANNELS.REVOKE,
-    (_event, { tool, pathPattern }: { tool: string; pathPattern?: string }) => {
-      configStore.removePermission(tool, pathPattern);
-      return { success: true };
-    }
-  );
+  // Delete a rule
+  ipcMain.handle(PERMISSION_CHANNELS.REVOKE, (_event, { id }: { id: string }) => {
+    configStore.deletePermissionRule(id);
+    return { success: true };
+  });
 
-  // Clear all permissions
+  // Delete all rules
   ipcMain.handle(PERMISSION_CHANNELS.CLEAR, () => {
-    configStore.clearAllPermissions();
+    configStore.clearPermissionRules();
+    return { success: true };
+  });
+
+  // Create or update a rule (new rules are evaluated first)
+  ipcMain.handle(PERMISSION_CHANNELS.SAVE_RULE, (_event, rule: unknown) => {
+    try {
+      const normalized = normalizePermissionRule(rule);
+      configStore.savePermissionRule(normalized);
+      return { success: true, rule: normalized };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  // Move a rule up (-1) or down (+1)
+  ipcMain.handle(PERMISSION_CHANNELS.MOVE_RULE, (_event, { id, offset }: { id: string; offset: number }) => {
+    configStore.movePermissionRule(id, offset < 0 ? -1 : 1);
     return { success: true };
   });
+
+  // Save the rules to a JSON file
+  ipcMain.handle(PERMISSION_CHANNELS.EXPORT_RULES, async () => {
+    const mainWindow = getMainWindow();
+    if (!mainWindow) return { success: false, error: 'No window' };
+
+    const result = await dialog.showSaveDialog(mainWindow, {
+      defaultPath: 'bingowork-permission-rules.json',
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    });
+    if (result.canceled || !result.filePath) return { success: false, canceled: true };
+
+    try {
+      await fs.writeFile(result.filePath, exportPermissionRules(configStore.getPermissionRules()), 'utf-8');
+      return { success: true, path: result.filePath };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
+
+  // Load rules from a JSON file, appended after the current ones or replacing them
+  ipcMain.handle(PERMISSION_CHANNELS.IMPORT_RULES, async (_event, { replace }: { replace?: boolean } = {}) => {
+    const mainWindow = getMainWindow();
+    if (!mainWindow) return { success: false, error: 'No window' };
+
+    const result = await dialog.showOpenDialog(mainWindow, {
+      properties: ['openFile'],
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    });
+    if (result.canceled || result.filePaths.length === 0) return { success: false, canceled: true };
+
+    try {
+      const content = await fs.readFile(result.filePaths[0], 'utf-8');
+      const current = replace ? [] : configStore.getPermissionRules();
+      const imported = importPermissionRules(content, current.map((r) => r.id));
+      configStore.setPermissionRules([...current, ...imported]);
+      return { success: true, count: imported.length };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  });
 }
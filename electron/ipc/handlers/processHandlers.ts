@@ -0,0 +1,111 @@
+/**
+ * Process IPC Handlers
+ *
+ * Exposes the current session's background processes (ProcessManager) to the
+ * renderer and streams their status and output to all windows.
+ */
+
+import { ipcMain, BrowserWindow } from 'electron';
+import { sessionStore } from '../../config/SessionStore';
+import { PROCESS_CHANNELS } from '../../constants/IpcChannels';
+import { ProcessManager } from '../../agent/process/ProcessManager';
+import { DEFAULT_PLAN_SESSION } from '../../agent/plan/PlanStore';
+import type { ProcessOutputChunk } from '../../types/ipc';
+
+// Output is forwarded in batches so chatty processes do not flood the renderer
+const OUTPUT_FLUSH_MS = 100;
+
+/**
+ * Session whose processes the UI shows (same resolution as the process tools)
+ */
+function currentSessionId(): string {
+  return sessionStore.getCurrentSessionId() || DEFAULT_PLAN_SESSION;
+}
+
+function broadcast(channel: string, payload: unknown): void {
+  BrowserWindow.getAllWindows().forEach((win) => {
+    if (!win.isDestroyed()) {
+      win.webContents.send(channel, payload);
+    }
+  });
+}
+
+/**
+ * Broadcast the process list of the current session, e.g. after switching sessions
+ */
+export function broadcastCurrentProcesses(): void {
+  broadcast(PROCESS_CHANNELS.UPDATED, ProcessManager.getInstance().list(currentSessionId()));
+}
+
+/**
+ * Register process-related IPC handlers
+ */
+export function registerProcessHandlers(): void {
+  const manager = ProcessManager.getInstance();
+  const pending = new Map<string, ProcessOutputChunk>();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flushOutput = () => {
+    flushTimer = null;
+    for (const chunk of pending.values()) {
+      broadcast(PROCESS_CHANNELS.OUTPUT, chunk);
+    }
+    pending.clear();
+  };
+
+  manager.onEvent((event) => {
+    if (event.type === 'output') {
+      const queued = pending.get(event.id);
+      if (queued) {
+        queued.chunk += event.chunk;
+      } else {
+        pending.set(event.id, { id: event.id, sessionId: event.sessionId, chunk: event.chunk, offset: event.offset, stream: event.stream });
+      }
+      flushTimer ??= setTimeout(flushOutput, OUTPUT_FLUSH_MS);
+      return;
+    }
+
+    if (event.process.sessionId === currentSessionId()) {
+      // Deliver buffered output before the status change that may end it
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushOutput();
+      }
+      broadcastCurrentProcesses();
+    }
+  });
+
+  // List the current session's processes
+  ipcMain.handle(PROCESS_CHANNELS.LIST, () => {
+    return manager.list(currentSessionId());
+  });
+
+  // Read buffered output (the tail when no offset is given)
+  ipcMain.handle(PROCESS_CHANNELS.READ_OUTPUT, (_event, id: string, offset?: number) => {
+    try {
+      return { success: true, data: manager.readOutput(id, offset, 64 * 1024) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Stop a process
+  ipcMain.handle(PROCESS_CHANNELS.STOP, (_event, id: string, force?: boolean) => {
+    try {
+      manager.stop(id, force ? 'SIGKILL' : 'SIGTERM');
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Remove a finished process from the list
+  ipcMain.handle(PROCESS_CHANNELS.REMOVE, (_event, id: string) => {
+    try {
+      manager.remove(id);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+}
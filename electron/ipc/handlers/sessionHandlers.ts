@@ -5,8 +5,15 @@
 
 import { ipcMain } from 'electron';
 import { sessionStore } from '../../config/SessionStore';
+import { configStore } from '../../config/ConfigStore';
 import { SESSION_CHANNELS } from '../../constants/IpcChannels';
 import { getAgentInstance } from './agentHandlers';
+import { broadcastCurrentPlan } from './todoHandlers';
+import { broadcastCurrentProcesses } from './processHandlers';
+import { PlanStore } from '../../agent/plan/PlanStore';
+import { ProcessManager } from '../../agent/process/ProcessManager';
+import { ContainerManager } from '../../agent/container/ContainerManager';
+import { getMemoryExtractor } from '../../agent/memory/MemoryExtractor';
 import type { AgentMessage } from '../../agent/AgentConstants';
 import {
   createSuccessResponse,
@@ -22,7 +29,11 @@ export function registerSessionHandlers(): void {
   ipcMain.handle(SESSION_CHANNELS.CREATE, () => {
     const agent = getAgentInstance();
     agent?.clearHistory();
+    // Leaving a conversation queues it for memory extraction
+    getMemoryExtractor().sessionClosed(sessionStore.getCurrentSessionId());
     const session = sessionStore.createSession();
+    broadcastCurrentPlan();
+    broadcastCurrentProcesses();
     return { success: true, sessionId: session.id };
   });
 
@@ -43,7 +54,11 @@ export function registerSessionHandlers(): void {
       if (!session) {
         throw new Error(`Session "${id}" not found`);
       }
+      const previousId = sessionStore.getCurrentSessionId();
+      if (previousId !== id) getMemoryExtractor().sessionClosed(previousId);
       sessionStore.setCurrentSession(id);
+      broadcastCurrentPlan();
+      broadcastCurrentProcesses();
       const agent = getAgentInstance();
       if (agent) {
         agent.loadHistory(session.messages);
@@ -67,11 +82,13 @@ export function registerSessionHandlers(): void {
     const currentId = sessionStore.getCurrentSessionId();
     if (currentId) {
       sessionStore.updateSession(currentId, normalizedMessages);
+      getMemoryExtractor().sessionActive(currentId);
       return { success: true };
     }
     // Create new session if none exists
     const session = sessionStore.createSession();
     sessionStore.updateSession(session.id, normalizedMessages);
+    getMemoryExtractor().sessionActive(session.id);
     return { success: true, sessionId: session.id };
   });
 
@@ -79,6 +96,11 @@ export function registerSessionHandlers(): void {
   ipcMain.handle(SESSION_CHANNELS.DELETE, (event, id: string) => {
     const wasCurrent = sessionStore.getCurrentSessionId() === id;
     sessionStore.deleteSession(id);
+    getMemoryExtractor().sessionDeleted(id);
+    PlanStore.getInstance().clearSession(id);
+    ProcessManager.getInstance().stopSession(id);
+    void ContainerManager.getInstance().stopSession(id);
+    configStore.removeSessionPermissionRules(id);
 
     if (wasCurrent) {
       const newCurrentId = sessionStore.getCurrentSessionId();
@@ -105,6 +127,8 @@ export function registerSessionHandlers(): void {
           }, 50);
         }
       }
+      broadcastCurrentPlan();
+      broadcastCurrentProcesses();
     }
     return { success: true };
   });
@@ -1,58 +1,26 @@
 /**
  * Todo IPC Handlers
  *
- * Handles todo list operations including reading from authorized folders
- * and broadcasting updates to all windows.
+ * Exposes the current session's structured plan (PlanStore) to the renderer
+ * and broadcasts plan changes to all windows.
  */
 
 import { ipcMain, BrowserWindow } from 'electron';
-import fs from 'fs/promises';
 import path from 'path';
 import { configStore } from '../../config/ConfigStore';
+import { sessionStore } from '../../config/SessionStore';
 import { TODO_CHANNELS } from '../../constants/IpcChannels';
-import type { TodoList, TodoItem } from '../../types/ipc';
+import { PlanStore, DEFAULT_PLAN_SESSION } from '../../agent/plan/PlanStore';
+import { isPlanItemStatus, PlanItemPatch } from '../../agent/plan/types';
+import type { TodoList } from '../../types/ipc';
 
-/**
- * Parse TODO.md file content and extract todo items
- * Supports markdown checkbox format: - [x] or - [ ]
- */
-function parseTodoContent(content: string): TodoItem[] {
-  const lines = content.split('\n');
-  const items: TodoItem[] = [];
-
-  console.log(`[Todo] Parsing ${lines.length} lines`);
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    // Match markdown checkbox format: - [x] text or - [ ] text
-    // Improved regex to be more permissive:
-    // - Allow optional space in brackets
-    // - Allow empty text
-    const match = trimmed.match(/^[-*+]\s*\[([ xX]?)\]\s*(.*)$/);
-
-    if (match) {
-      const isCompleted = match[1].toLowerCase() === 'x';
-      // If bracket content is empty, it's incomplete
-      // If bracket content is space, it's incomplete
-
-      items.push({
-        text: match[2].trim(),
-        completed: isCompleted,
-      });
-    }
-  }
-
-  console.log(`[Todo] Parsed ${items.length} items`);
-  return items;
-}
+type TodoActionResult = { success: boolean; error?: string; path?: string };
 
 /**
- * Convert todo items back to markdown format
+ * Session whose plan the UI shows (same resolution as the todo_write tool)
  */
-function itemsToMarkdown(items: TodoItem[]): string {
-  return items
-    .map(item => `- [${item.completed ? 'x' : ' '}] ${item.text}`)
-    .join('\n');
+function currentSessionId(): string {
+  return sessionStore.getCurrentSessionId() || DEFAULT_PLAN_SESSION;
 }
 
 /**
@@ -65,147 +33,119 @@ function getDefaultTodoPath(): string | null {
 }
 
 /**
- * Read TODO.md from the first authorized folder
+ * Broadcast todo update to all windows
  */
-async function readTodoFromAuthorizedFolder(): Promise<TodoList> {
-  const folders = configStore.getAll().authorizedFolders || [];
-
-  if (folders.length === 0) {
-    return { items: [], sourcePath: '', exists: false };
-  }
-
-  const todoPath = path.join(folders[0], 'TODO.md');
-
-  try {
-    const content = await fs.readFile(todoPath, 'utf-8');
-    console.log(`[Todo] Read file from: ${todoPath}, length: ${content.length}`);
-    const items = parseTodoContent(content);
-    const stats = await fs.stat(todoPath);
-    return { items, sourcePath: todoPath, exists: true, lastModified: stats.mtimeMs };
-  } catch {
-    return { items: [], sourcePath: todoPath, exists: false };
-  }
+function broadcastTodoUpdate(todoList: TodoList): void {
+  BrowserWindow.getAllWindows().forEach((win) => {
+    if (!win.isDestroyed()) {
+      win.webContents.send(TODO_CHANNELS.UPDATED, todoList);
+    }
+  });
 }
 
 /**
- * Write todo items to TODO.md
+ * Broadcast the plan of the current session, e.g. after switching sessions
  */
-async function writeTodoItems(items: TodoItem[]): Promise<{ success: boolean; error?: string; path?: string }> {
-  const todoPath = getDefaultTodoPath();
-  if (!todoPath) {
-    return { success: false, error: 'No authorized folder configured' };
-  }
+export function broadcastCurrentPlan(): void {
+  broadcastTodoUpdate(PlanStore.getInstance().getPlan(currentSessionId()));
+}
 
+async function runTodoAction(action: () => Promise<unknown>): Promise<TodoActionResult> {
   try {
-    const content = itemsToMarkdown(items);
-    await fs.mkdir(path.dirname(todoPath), { recursive: true });
-    await fs.writeFile(todoPath, content, 'utf-8');
-
-    // Broadcast update
-    const result: TodoList = {
-      items,
-      sourcePath: todoPath,
-      exists: true,
-      lastModified: Date.now()
-    };
-
-    BrowserWindow.getAllWindows().forEach((win) => {
-      if (!win.isDestroyed()) {
-        win.webContents.send(TODO_CHANNELS.UPDATED, result);
-      }
-    });
-
-    return { success: true, path: todoPath };
+    await action();
+    return { success: true };
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : String(error),
-      path: todoPath
+      error: error instanceof Error ? error.message : String(error)
     };
   }
 }
 
 /**
- * Broadcast todo update to all windows
+ * Register todo-related IPC handlers
  */
-function broadcastTodoUpdate(todoList: TodoList): void {
-  BrowserWindow.getAllWindows().forEach((win) => {
-    if (!win.isDestroyed()) {
-      win.webContents.send(TODO_CHANNELS.UPDATED, todoList);
+export function registerTodoHandlers(): void {
+  const planStore = PlanStore.getInstance();
+
+  // Only the plan of the session on screen is pushed to the renderer
+  planStore.onChange((snapshot) => {
+    if (snapshot.sessionId === currentSessionId()) {
+      broadcastTodoUpdate(snapshot);
     }
   });
-}
 
-/**
- * Register todo-related IPC handlers
- */
-export function registerTodoHandlers(): void {
-  // Get current todo list
-  ipcMain.handle(TODO_CHANNELS.LIST, async () => {
-    return await readTodoFromAuthorizedFolder();
+  // Get current plan
+  ipcMain.handle(TODO_CHANNELS.LIST, () => {
+    return planStore.getPlan(currentSessionId());
   });
 
-  // Refresh and broadcast todo list to all windows
+  // Pull edits from the exported TODO.md and broadcast the plan to all windows
   ipcMain.handle(TODO_CHANNELS.REFRESH, async () => {
-    const result = await readTodoFromAuthorizedFolder();
+    const sessionId = currentSessionId();
+    try {
+      await planStore.syncFromExport(sessionId);
+    } catch (error) {
+      console.error('[Todo] Failed to sync plan from export:', error);
+    }
+    const result = planStore.getPlan(sessionId);
     broadcastTodoUpdate(result);
     return result;
   });
 
-  // Add a new todo item
-  ipcMain.handle('todo:add', async (_event, content: string) => {
-    const current = await readTodoFromAuthorizedFolder();
-    const newItem: TodoItem = { text: content, completed: false };
-    const updated = [...current.items, newItem];
+  // Add a new plan item
+  ipcMain.handle(TODO_CHANNELS.ADD, async (_event, title: string, parentId?: string | null) => {
+    return await runTodoAction(() => planStore.addItem(currentSessionId(), { title, parentId }));
+  });
 
-    return await writeTodoItems(updated);
+  // Toggle an item between done and pending
+  ipcMain.handle(TODO_CHANNELS.TOGGLE, async (_event, id: string) => {
+    return await runTodoAction(async () => {
+      const sessionId = currentSessionId();
+      const item = planStore.getItems(sessionId).find(i => i.id === id);
+      if (!item) throw new Error('Todo item not found');
+      await planStore.updateItem(sessionId, id, { status: item.status === 'done' ? 'pending' : 'done' });
+    });
   });
 
-  // Toggle todo completion status
-  ipcMain.handle('todo:toggle', async (_event, index: number) => {
-    const current = await readTodoFromAuthorizedFolder();
-    if (index < 0 || index >= current.items.length) {
-      return { success: false, error: 'Invalid todo index' };
+  // Update title, status, note or parent of an item
+  ipcMain.handle(TODO_CHANNELS.UPDATE, async (_event, id: string, patch: PlanItemPatch) => {
+    if (patch?.status !== undefined && !isPlanItemStatus(patch.status)) {
+      return { success: false, error: 'Invalid todo status' };
     }
-
-    const updated = current.items.map((item, i) =>
-      i === index ? { ...item, completed: !item.completed } : item
-    );
-
-    return await writeTodoItems(updated);
+    return await runTodoAction(() => planStore.updateItem(currentSessionId(), id, patch || {}));
   });
 
-  // Update todo item text
-  ipcMain.handle('todo:update', async (_event, index: number, text: string) => {
-    const current = await readTodoFromAuthorizedFolder();
-    if (index < 0 || index >= current.items.length) {
-      return { success: false, error: 'Invalid todo index' };
-    }
+  // Delete an item and its sub-items
+  ipcMain.handle(TODO_CHANNELS.DELETE, async (_event, id: string) => {
+    return await runTodoAction(() => planStore.removeItem(currentSessionId(), id));
+  });
 
-    const updated = current.items.map((item, i) =>
-      i === index ? { ...item, text } : item
-    );
+  // Reorder siblings
+  ipcMain.handle(TODO_CHANNELS.REORDER, async (_event, ids: string[], parentId?: string | null) => {
+    return await runTodoAction(() => planStore.reorder(currentSessionId(), ids, parentId || null));
+  });
 
-    return await writeTodoItems(updated);
+  // Clear all completed items
+  ipcMain.handle(TODO_CHANNELS.CLEAR_COMPLETED, async () => {
+    return await runTodoAction(() => planStore.clearCompleted(currentSessionId()));
   });
 
-  // Delete a todo item
-  ipcMain.handle('todo:delete', async (_event, index: number) => {
-    const current = await readTodoFromAuthorizedFolder();
-    if (index < 0 || index >= current.items.length) {
-      return { success: false, error: 'Invalid todo index' };
+  // Mirror the plan to TODO.md (first authorized folder unless a path is given)
+  ipcMain.handle(TODO_CHANNELS.EXPORT, async (_event, filePath?: string) => {
+    const target = filePath || getDefaultTodoPath();
+    if (!target) {
+      return { success: false, error: 'No authorized folder configured' };
     }
-
-    const updated = current.items.filter((_, i) => i !== index);
-
-    return await writeTodoItems(updated);
+    let exportedTo = target;
+    const result = await runTodoAction(async () => {
+      exportedTo = await planStore.enableExport(currentSessionId(), target);
+    });
+    return result.success ? { ...result, path: exportedTo } : result;
   });
 
-  // Clear all completed todos
-  ipcMain.handle('todo:clear-completed', async () => {
-    const current = await readTodoFromAuthorizedFolder();
-    const updated = current.items.filter(item => !item.completed);
-
-    return await writeTodoItems(updated);
+  // Stop mirroring the plan to TODO.md (the file is left as is)
+  ipcMain.handle(TODO_CHANNELS.UNLINK_EXPORT, async () => {
+    return await runTodoAction(() => planStore.disableExport(currentSessionId()));
   });
 }
@@ -0,0 +1,29 @@
+/**
+ * Token usage IPC handlers
+ * Exposes per-session and per-model token totals with cost
+ */
+
+import { ipcMain } from 'electron';
+import { USAGE_CHANNELS } from '../../constants/IpcChannels';
+import { sessionStore } from '../../config/SessionStore';
+import { ModelRegistryService } from '../../models/ModelRegistryService';
+import type { TaskDatabase } from '../../config/TaskDatabase';
+
+/**
+ * Register all usage-related IPC handlers
+ */
+export function registerUsageHandlers(taskDb: TaskDatabase | null): void {
+  // Get usage summary; `sessionId: 'current'` resolves to the active session
+  ipcMain.handle(USAGE_CHANNELS.SUMMARY, (_event, filter?: { sessionId?: string; since?: number }) => {
+    if (!taskDb) {
+      throw new Error('Task database not initialized');
+    }
+    const sessionId = filter?.sessionId === 'current'
+      ? sessionStore.getCurrentSessionId() || undefined
+      : filter?.sessionId;
+    if (filter?.sessionId === 'current' && !sessionId) {
+      return { rows: [], totals: { requests: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, cost: {} } };
+    }
+    return new ModelRegistryService(taskDb).getUsageSummary({ sessionId, since: filter?.since });
+  });
+}
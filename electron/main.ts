@@ -10,16 +10,18 @@ import dotenv from 'dotenv';
 import { setupDevEnvironment, VITE_DEV_SERVER_URL, RENDERER_DIST } from './config/AppConfig';
 import { configStore } from './config/ConfigStore';
 import { TaskDatabase } from './config/TaskDatabase';
+import { sessionStore } from './config/SessionStore';
 
 // Managers
 import { getWindowManager } from './windows/WindowManager';
 import { getTrayManager } from './services/TrayManager';
 import { getShortcutManager } from './services/ShortcutManager';
 import { getAgentInitializer } from './services/AgentInitializer';
-import { permissionManager } from './agent/security/PermissionManager';
+import { auditLog } from './agent/security/AuditLog';
+import { bingoworkMCPServer } from './agent/mcp/BingoworkMCPServer';
 
 // IPC Handlers
-import { registerAllIPCHandlers, setAgentInstance, setMainWindow, setTaskDatabase, setScheduleManager, setUpdateMainWindow, checkForUpdatesOnStartup } from './ipc/handlers';
+import { registerAllIPCHandlers, setAgent, setMainWindow, setTaskDatabase, setScheduleManager, setUpdateMainWindow, checkForUpdatesOnStartup } from './ipc/handlers';
 
 // Schedule Manager
 import { getScheduleManager, initializeScheduleManager } from './agent/schedule/ScheduleManager';
@@ -58,6 +60,9 @@ app.on('before-quit', () => {
     scheduleManager.cleanup();
   }
 
+  // Stop serving MCP clients
+  void bingoworkMCPServer.stop();
+
   // Cleanup managers
   getWindowManager().cleanup();
   getShortcutManager().unregisterShortcuts();
@@ -115,7 +120,8 @@ app.whenReady().then(async () => {
     setTaskDatabase(taskDb);
     setMainWindow(mainWindow);
     setUpdateMainWindow(mainWindow);
-    permissionManager.setTaskDatabase(taskDb);
+    auditLog.setSessionResolver(() => sessionStore.getCurrentSessionId());
+    auditLog.setDatabase(taskDb);
 
     // 7.5. Initialize ScheduleManager
     if (taskDb) {
@@ -156,7 +162,7 @@ app.whenReady().then(async () => {
 
         // Set agent instance for IPC handlers
         if (agent) {
-          setAgentInstance(agent);
+          setAgent(agent);
         }
 
         // Set agent for ScheduleManager and start it
@@ -1,11 +1,14 @@
 import { nanoid } from 'nanoid';
 import { SecureCredentials } from '../config/SecureCredentials';
-import type { TaskDatabase } from '../config/TaskDatabase';
+import type { TaskDatabase, TokenUsageAggregate } from '../config/TaskDatabase';
 import {
     DEFAULT_MODEL_ID,
     ModelError,
     PRESET_MODELS,
+    resolveContextWindow,
     type CreateModelInput,
+    type FailoverModel,
+    type ModelPricing,
     type ModelRegistryStorage,
     type ProviderProtocol,
     type StoredModelConfig,
@@ -30,6 +33,9 @@ export type ModelConfigDTO = {
     isCustom: boolean;
     isConfigured: boolean;
     effectiveBaseUrl: string;
+    contextWindow: number;
+    reasoningBudget?: number;
+    pricing?: ModelPricing;
     updatedAt: number;
 };
 
@@ -37,9 +43,27 @@ export type ModelRegistryStateDTO = {
     activeModelId: string;
     providers: ProviderConfigDTO[];
     models: ModelConfigDTO[];
+    fallbackChain: string[];
     version: number;
 };
 
+export type UsageRowDTO = TokenUsageAggregate & {
+    cost: number | null;
+    currency: ModelPricing['currency'] | null;
+};
+
+export type UsageSummaryDTO = {
+    rows: UsageRowDTO[];
+    totals: {
+        requests: number;
+        inputTokens: number;
+        outputTokens: number;
+        cacheReadTokens: number;
+        cacheWriteTokens: number;
+        cost: Partial<Record<ModelPricing['currency'], number>>;
+    };
+};
+
 type ProviderSettingsStorage = Record<string, { baseUrl?: string; updatedAt: number }>;
 
 const KV_KEYS = {
@@ -79,6 +103,23 @@ function defaultProviderSettings(): ProviderSettingsStorage {
     return out;
 }
 
+/**
+ * Turn token counts into cost using per-million-token prices
+ */
+export function calculateCost(
+    usage: Pick<TokenUsageAggregate, 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheWriteTokens'>,
+    pricing: ModelPricing
+): number {
+    const cacheRead = pricing.cacheReadPerMTok ?? pricing.inputPerMTok;
+    const cacheWrite = pricing.cacheWritePerMTok ?? pricing.inputPerMTok;
+    return (
+        usage.inputTokens * pricing.inputPerMTok +
+        usage.outputTokens * pricing.outputPerMTok +
+        usage.cacheReadTokens * cacheRead +
+        usage.cacheWriteTokens * cacheWrite
+    ) / 1_000_000;
+}
+
 export class ModelRegistryService {
     constructor(private db: TaskDatabase) {}
 
@@ -162,7 +203,8 @@ export class ModelRegistryService {
         const models: ModelConfigDTO[] = Object.values(registry.models).map((m) => {
             const p = providerConfigById.get(m.providerId);
             const effectiveBaseUrl = String(p?.baseUrl || m.baseUrl || '').trim().replace(/\/+$/, '');
-            const isConfigured = Boolean(p?.hasApiKey) && Boolean(effectiveBaseUrl);
+            // Local models need no API key
+            const isConfigured = (m.protocol === 'ollama' || Boolean(p?.hasApiKey)) && Boolean(effectiveBaseUrl);
             return {
                 id: m.id,
                 displayName: m.displayName,
@@ -173,6 +215,10 @@ export class ModelRegistryService {
                 isCustom: Boolean(m.isCustom),
                 isConfigured,
                 effectiveBaseUrl,
+                // Presets stored before contextWindow existed fall back to the preset table
+                contextWindow: m.contextWindow || PRESET_MODELS.find(p => p.id === m.id)?.contextWindow || resolveContextWindow(m.modelId),
+                reasoningBudget: m.reasoningBudget,
+                pricing: this.resolvePricing(m),
                 updatedAt: m.updatedAt,
             };
         }).sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
@@ -189,6 +235,7 @@ export class ModelRegistryService {
             activeModelId,
             providers,
             models,
+            fallbackChain: (registry.fallbackChain || []).filter(id => Boolean(registry.models[id])),
             version: registry.version,
         };
     }
@@ -287,7 +334,8 @@ export class ModelRegistryService {
         delete nextModels[id];
 
         const nextActive = registry.activeModelId === id ? DEFAULT_MODEL_ID : registry.activeModelId;
-        this.saveRegistry({ ...registry, models: nextModels, activeModelId: nextActive });
+        const fallbackChain = registry.fallbackChain?.filter(m => m !== id);
+        this.saveRegistry({ ...registry, models: nextModels, activeModelId: nextActive, fallbackChain });
     }
 
     async setActiveModel(modelId: string): Promise<StoredModelConfig> {
@@ -300,12 +348,153 @@ export class ModelRegistryService {
             throw new ModelError('模型不存在', 'MODEL_NOT_FOUND');
         }
 
-        if (existing.protocol !== 'openai' && existing.protocol !== 'anthropic') {
+        if (existing.protocol !== 'openai' && existing.protocol !== 'anthropic' && existing.protocol !== 'ollama') {
             throw new ModelError('该模型协议暂不支持', 'PROTOCOL_NOT_SUPPORTED');
         }
 
         this.saveRegistry({ ...registry, activeModelId: id });
         return existing;
     }
-}
 
+    private resolvePricing(model: StoredModelConfig): ModelPricing | undefined {
+        if (model.pricing) return model.pricing;
+        // Registries saved before pricing existed lack it on preset entries
+        return PRESET_MODELS.find(p => p.id === model.id)?.pricing;
+    }
+
+    /**
+     * Look up pricing by registry id or by the model name sent to the API.
+     * The active model wins when several entries share the same API model name.
+     */
+    getPricing(model: string): ModelPricing | null {
+        const key = String(model || '').trim();
+        if (!key) return null;
+
+        const registry = this.loadRegistry();
+        const byId = registry.models[key];
+        if (byId) return this.resolvePricing(byId) ?? null;
+
+        const candidates = Object.values(registry.models).filter(m => m.modelId === key);
+        const preferred = candidates.find(m => m.id === registry.activeModelId) || candidates[0];
+        return preferred ? this.resolvePricing(preferred) ?? null : null;
+    }
+
+    async setModelPricing(modelId: string, pricing: ModelPricing | null): Promise<void> {
+        const id = String(modelId || '').trim();
+        if (!id) throw new Error('modelId is required');
+
+        const registry = this.loadRegistry();
+        const existing = registry.models[id];
+        if (!existing) {
+            throw new ModelError('模型不存在', 'MODEL_NOT_FOUND');
+        }
+
+        if (pricing) {
+            const prices = [pricing.inputPerMTok, pricing.outputPerMTok, pricing.cacheReadPerMTok ?? 0, pricing.cacheWritePerMTok ?? 0];
+            if (prices.some(p => typeof p !== 'number' || !Number.isFinite(p) || p < 0)) {
+                throw new Error('价格必须为非负数');
+            }
+        }
+
+        const next: StoredModelConfig = { ...existing, updatedAt: Date.now() };
+        if (pricing) {
+            next.pricing = pricing;
+        } else {
+            delete next.pricing;
+        }
+        this.saveRegistry({ ...registry, models: { ...registry.models, [id]: next } });
+    }
+
+    async setModelReasoningBudget(modelId: string, budget: number | null): Promise<void> {
+        const id = String(modelId || '').trim();
+        if (!id) throw new Error('modelId is required');
+
+        const registry = this.loadRegistry();
+        const existing = registry.models[id];
+        if (!existing) {
+            throw new ModelError('模型不存在', 'MODEL_NOT_FOUND');
+        }
+
+        if (budget !== null && (typeof budget !== 'number' || !Number.isInteger(budget) || budget < 0)) {
+            throw new Error('推理预算必须为非负整数');
+        }
+
+        const next: StoredModelConfig = { ...existing, updatedAt: Date.now() };
+        if (budget) {
+            next.reasoningBudget = budget;
+        } else {
+            delete next.reasoningBudget;
+        }
+        this.saveRegistry({ ...registry, models: { ...registry.models, [id]: next } });
+    }
+
+    async setFallbackChain(modelIds: string[]): Promise<void> {
+        if (!Array.isArray(modelIds)) throw new Error('modelIds must be an array');
+
+        const registry = this.loadRegistry();
+        const chain = Array.from(new Set(modelIds.map(id => String(id || '').trim()).filter(Boolean)));
+        const missing = chain.find(id => !registry.models[id]);
+        if (missing) {
+            throw new ModelError(`模型不存在: ${missing}`, 'MODEL_NOT_FOUND');
+        }
+
+        this.saveRegistry({ ...registry, fallbackChain: chain });
+    }
+
+    /**
+     * Resolve the fallback chain into callable models, in order.
+     * The active model and models without credentials are skipped.
+     */
+    async getFailoverModels(): Promise<FailoverModel[]> {
+        const state = await this.getState();
+        const byId = new Map(state.models.map(m => [m.id, m]));
+        const targets: FailoverModel[] = [];
+
+        for (const id of state.fallbackChain) {
+            const m = byId.get(id);
+            if (!m || m.id === state.activeModelId || !m.isConfigured) continue;
+            targets.push({
+                id: m.id,
+                displayName: m.displayName,
+                modelId: m.modelId,
+                protocol: m.protocol,
+                baseUrl: m.effectiveBaseUrl,
+                apiKey: (await SecureCredentials.getApiKey(m.providerId)) || '',
+                contextWindow: m.contextWindow,
+                reasoningBudget: m.reasoningBudget,
+            });
+        }
+        return targets;
+    }
+
+    getUsageSummary(filter: { sessionId?: string; since?: number } = {}): UsageSummaryDTO {
+        this.ensureDb();
+        const aggregates = this.db.getTokenUsageAggregates(filter);
+        const totals: UsageSummaryDTO['totals'] = {
+            requests: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            cacheReadTokens: 0,
+            cacheWriteTokens: 0,
+            cost: {},
+        };
+
+        const rows: UsageRowDTO[] = aggregates.map((row) => {
+            const pricing = this.getPricing(row.model);
+            const cost = pricing ? calculateCost(row, pricing) : null;
+
+            totals.requests += row.requests;
+            totals.inputTokens += row.inputTokens;
+            totals.outputTokens += row.outputTokens;
+            totals.cacheReadTokens += row.cacheReadTokens;
+            totals.cacheWriteTokens += row.cacheWriteTokens;
+            if (pricing && cost !== null) {
+                totals.cost[pricing.currency] = (totals.cost[pricing.currency] || 0) + cost;
+            }
+
+            return { ...row, cost, currency: pricing?.currency ?? null };
+        });
+
+        return { rows, totals };
+    }
+}
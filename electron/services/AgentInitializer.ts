@@ -6,6 +6,7 @@
 import { AgentRuntime } from '../agent/AgentRuntime';
 import { BrowserWindow } from 'electron';
 import { configStore } from '../config/ConfigStore';
+import { sessionStore } from '../config/SessionStore';
 import { TaskDatabase } from '../config/TaskDatabase';
 import { ModelRegistryService } from '../models/ModelRegistryService';
 import { SecureCredentials } from '../config/SecureCredentials';
@@ -25,6 +26,8 @@ export class AgentInitializer {
       let providerIdForApiKey: string = transportProvider;
       let model = config.model;
       let apiUrl = config.apiUrl;
+      let contextWindow: number | undefined;
+      let reasoningBudget: number | undefined;
 
       if (taskDb) {
         try {
@@ -36,6 +39,8 @@ export class AgentInitializer {
             providerIdForApiKey = activeModel.providerId;
             model = activeModel.modelId;
             apiUrl = activeModel.effectiveBaseUrl;
+            contextWindow = activeModel.contextWindow;
+            reasoningBudget = activeModel.reasoningBudget;
 
             console.log('[AgentInitializer] Using ModelRegistry config:', {
               activeModelId: state.activeModelId,
@@ -92,10 +97,32 @@ export class AgentInitializer {
                 sessionId: null // Will be set by TaskDatabase if needed
               });
             }
+          },
+          recordUsage: ({ provider, model, usage }) => {
+            if (!taskDb) return;
+            try {
+              taskDb.insertTokenUsage({
+                sessionId: sessionStore.getCurrentSessionId(),
+                provider,
+                model,
+                ...usage
+              });
+            } catch (error) {
+              console.warn('[AgentInitializer] Failed to record token usage:', error);
+            }
           }
         }
       );
 
+      if (contextWindow || reasoningBudget) {
+        this.agent.updateLLMConfig({ contextWindow, reasoningBudget });
+      }
+
+      if (taskDb) {
+        // Backup models are looked up when a call fails, so settings changes apply without a restart
+        this.agent.setFailoverResolver(() => new ModelRegistryService(taskDb).getFailoverModels());
+      }
+
       // Initialize the agent (this loads skills, MCP clients, etc.)
       await this.agent.initialize();
 
@@ -119,6 +146,8 @@ export class AgentInitializer {
    */
   cleanup(): void {
     if (this.agent) {
+      // Stops background processes and MCP servers the agent started
+      void this.agent.shutdown();
       this.agent = null;
     }
   }
@@ -1,5 +1,5 @@
 
-import type { AppConfigDTO, Session, SkillInfo, ToolPermission } from '../types/ipc';
+import type { AppConfigDTO, CheckpointRestoreResult, PermissionRule, Session, SkillInfo } from '../types/ipc';
 
 class IPCService {
     async sendMessage(content: string, images: string[] = []): Promise<void> {
@@ -18,6 +18,15 @@ class IPCService {
         await window.ipcRenderer.invoke('agent:regenerate', id);
     }
 
+    async revertToMessage(id: string): Promise<CheckpointRestoreResult | null> {
+        const res = await window.ipcRenderer.invoke('agent:revert-to-message', id) as { result?: CheckpointRestoreResult | null };
+        return res?.result ?? null;
+    }
+
+    async getRevertableMessageIds(): Promise<string[]> {
+        return await window.ipcRenderer.invoke('agent:get-revertable-messages') as string[];
+    }
+
     async setWorkMode(mode: 'chat' | 'code' | 'cowork'): Promise<void> {
         await window.ipcRenderer.invoke('agent:set-work-mode', mode);
     }
@@ -74,12 +83,12 @@ class IPCService {
         await this.updateConfig({ authorizedFolders: folders });
     }
 
-    async listPermissions(): Promise<ToolPermission[]> {
-        return (await window.ipcRenderer.invoke('permissions:list')) as ToolPermission[];
+    async listPermissions(): Promise<PermissionRule[]> {
+        return (await window.ipcRenderer.invoke('permissions:list')) as PermissionRule[];
     }
 
-    async revokePermission(tool: string, pathPattern?: string): Promise<void> {
-        await window.ipcRenderer.invoke('permissions:revoke', { tool, pathPattern });
+    async revokePermission(id: string): Promise<void> {
+        await window.ipcRenderer.invoke('permissions:revoke', { id });
     }
 
     async clearPermissions(): Promise<void> {
@@ -31,7 +31,7 @@ export interface LLMConfig {
   apiKey: string;
   model: string;
   apiUrl: string;
-  provider: 'anthropic' | 'openai' | 'minimax';
+  provider: 'anthropic' | 'openai' | 'minimax' | 'ollama';
 }
 
 /**
@@ -102,7 +102,7 @@ export interface AgentConfig {
   window: Electron.BrowserWindow;
   model: string;
   apiUrl: string;
-  provider: 'anthropic' | 'openai' | 'minimax';
+  provider: 'anthropic' | 'openai' | 'minimax' | 'ollama';
   eventSink?: AgentEventSink;
 }
 
@@ -4,6 +4,9 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import type { PlanNode, PlanSnapshot } from '../agent/plan/types';
+import type { CommandSandboxConfig, DockerExecutionConfig } from '../config/ConfigStore';
+import type { PermissionRule } from '../agent/security/PermissionRules';
 
 // ============================================
 // Agent Types
@@ -21,7 +24,7 @@ export type AgentStage = 'IDLE' | 'THINKING' | 'PLANNING' | 'EXECUTING' | 'FEEDB
 // Config Types
 // ============================================
 
-export type ApiProvider = 'anthropic' | 'openai' | 'minimax';
+export type ApiProvider = 'anthropic' | 'openai' | 'minimax' | 'ollama';
 
 export type WorkMode = 'chat' | 'code' | 'cowork';
 
@@ -43,6 +46,9 @@ export interface AppConfigDTO {
     browserAccess: boolean;
     shortcut: string;
     workMode?: WorkMode;
+    commandSandbox?: CommandSandboxConfig;
+    pythonExecutionMode?: 'host' | 'docker';
+    dockerExecution?: DockerExecutionConfig;
 }
 
 // ============================================
@@ -61,11 +67,12 @@ export interface Session {
 // Permission Types
 // ============================================
 
-export interface ToolPermission {
-    tool: string;
-    pathPattern?: string;
-    grantedAt: number;
-}
+export type {
+    PermissionDecision,
+    PermissionRuleScope,
+    PermissionRuleSource,
+} from '../agent/security/PermissionRules';
+export type { PermissionRule };
 
 // ============================================
 // Skill Types
@@ -82,17 +89,71 @@ export interface SkillInfo {
 // Todo Types
 // ============================================
 
-export interface TodoItem {
-  text: string;
-  completed: boolean;
-}
+// The todo list is the session's structured plan (see electron/agent/plan)
+export type TodoItem = PlanNode;
 
-export interface TodoList {
-  items: TodoItem[];
-  sourcePath: string;
-  exists: boolean;
-  lastModified?: number;
-}
+export type TodoList = PlanSnapshot;
+
+// ============================================
+// Checkpoint Types
+// ============================================
+
+export type { CheckpointRestoreResult } from '../agent/checkpoint/types';
+
+// ============================================
+// Background Process Types
+// ============================================
+
+export type { ManagedProcessInfo, ProcessOutputChunk, ProcessOutputSlice } from '../agent/process/types';
+
+// ============================================
+// Command Sandbox Types
+// ============================================
+
+export type { CommandSandboxConfig, SandboxBackend } from '../config/ConfigStore';
+export type { SandboxStatus, SandboxBackendStatus } from '../agent/security/CommandSandbox';
+
+// ============================================
+// Docker Execution Types
+// ============================================
+
+export type { DockerExecutionConfig } from '../config/ConfigStore';
+export type { ContainerStatus, SessionContainerInfo, DockerAvailability } from '../agent/container/types';
+
+// ============================================
+// Security Audit Types
+// ============================================
+
+export type { AuditRecord, AuditLogFilter } from '../config/TaskDatabase';
+export type { AuditEventType } from '../agent/security/AuditLog';
+
+// ============================================
+// MCP Types
+// ============================================
+
+export type { MCPResourceInfo, MCPPromptInfo, MCPListKind } from '../agent/mcp/types';
+export type { MCPServerState, MCPServerStatus, MCPLogEntry } from '../agent/mcp/MCPSupervisor';
+export type { MCPServerExposureConfig } from '../config/ConfigStore';
+export type { MCPServerExposureStatus } from '../agent/mcp/BingoworkMCPServer';
+
+// ============================================
+// Memory Types
+// ============================================
+
+export type {
+    Memory,
+    MemoryScope,
+    MemoryContext,
+    MemoryListFilter,
+    MemoryUpdateInput,
+    MemoryExportFormat,
+    MemoryImportResult,
+    MemoryIndexStatus,
+    MemorySource,
+    MemoryProposal,
+    MemoryExtractionStatus,
+} from '../agent/memory/types';
+export type { MemoryExtractionConfig, MemoryRetrievalConfig } from '../config/ConfigStore';
 
 // ============================================
 // IPC Event Types
@@ -104,6 +165,7 @@ export interface IPCEvents {
     'agent:error': string;
     'agent:stage': { stage: AgentStage; detail?: unknown };
     'agent:stream-token': string;
+    'agent:stream-thinking': string;
     'agent:tool-call': { callId: string; name: string; input: Record<string, unknown> };
     'agent:tool-result': { callId: string; status: 'done' | 'error'; error?: string };
     'agent:tool-output-stream': { callId: string; chunk: string; type: 'stdout' | 'stderr' };
@@ -111,6 +173,33 @@ export interface IPCEvents {
     'agent:user-question': { id: string; question: string; options?: string[] };
     'agent:artifact-created': { path: string; name: string; type: string };
     'agent:status': string;
+    'agent:usage': {
+        model: string;
+        usage: { inputTokens: number; outputTokens: number; cacheReadTokens: number; cacheWriteTokens: number };
+        turn: { inputTokens: number; outputTokens: number; cacheReadTokens: number; cacheWriteTokens: number };
+    };
+    'agent:context-compacted': {
+        compactedCount: number;
+        tokensBefore: number;
+        tokensAfter: number;
+        summarized: boolean;
+        contextWindow: number;
+    };
+    'agent:model-failover': {
+        from: string;
+        to: string;
+        toDisplayName: string;
+        errorClass: string;
+        reason: string;
+    };
+    'agent:subagent-progress': {
+        parentCallId: string;
+        agentId: string;
+        iteration: number;
+        maxIterations: number;
+        step?: { callId: string; name: string; status: 'running' | 'done' | 'error' };
+        status?: 'completed' | 'budget_exhausted' | 'aborted' | 'failed';
+    };
 
     // Session events
     'session:loaded': Session;
@@ -148,7 +237,7 @@ export interface IPCInvokeChannels {
     'config:update': (config: Partial<AppConfigDTO>) => void;
 
     // Permission operations
-    'permission:list': () => ToolPermission[];
+    'permission:list': () => PermissionRule[];
     'permission:grant': (tool: string, path?: string, remember?: boolean) => void;
     'permission:revoke': (tool: string, path?: string) => void;
 
@@ -11,15 +11,27 @@
  * Provider protocol type - determines API compatibility
  * - anthropic: Anthropic-compatible API (messages format)
  * - openai: OpenAI-compatible API (chat completions format)
- * - custom: Custom implementation (may require special handling)
+ * - ollama: Local Ollama / llama.cpp server (native API, no API key required)
  */
-export type ProviderProtocol = 'anthropic' | 'openai' | 'custom';
+export type ProviderProtocol = 'anthropic' | 'openai' | 'ollama';
 
 /**
  * Authentication method for API requests
  */
 export type AuthType = 'bearer' | 'api-key-header' | 'custom';
 
+/**
+ * Token pricing for a model, expressed per million tokens
+ * Cache prices fall back to the input price when not specified
+ */
+export interface ModelPricing {
+    currency: 'CNY' | 'USD';
+    inputPerMTok: number;
+    outputPerMTok: number;
+    cacheReadPerMTok?: number;
+    cacheWritePerMTok?: number;
+}
+
 /**
  * Model configuration metadata
  * Contains all information needed to connect to and use an LLM model
@@ -61,9 +73,18 @@ export interface ModelConfig {
     // Optional: Maximum tokens supported
     maxTokens?: number;
 
+    // Optional: Context window size in tokens (prompt + completion)
+    contextWindow?: number;
+
     // Optional: Default temperature
     defaultTemperature?: number;
 
+    // Optional: Token budget for extended thinking / reasoning; 0 or unset disables it
+    reasoningBudget?: number;
+
+    // Optional: Token pricing used for cost accounting
+    pricing?: ModelPricing;
+
     // Timestamp when this configuration was last updated
     updatedAt: number;
 }
@@ -93,6 +114,24 @@ export interface ActiveModelConfig {
     supportsVision: boolean;
 }
 
+/**
+ * Backup model resolved with everything needed to call it
+ * Used by the agent to fail over when the active model errors out
+ */
+export interface FailoverModel {
+    // Model configuration ID
+    id: string;
+    displayName: string;
+
+    // Model identifier for API calls
+    modelId: string;
+    protocol: ProviderProtocol;
+    baseUrl: string;
+    apiKey: string;
+    contextWindow: number;
+    reasoningBudget?: number;
+}
+
 // ============================================
 // Preset Model Definitions
 // ============================================
@@ -115,7 +154,9 @@ export const PRESET_MODELS: Omit<ModelConfig, 'isConfigured' | 'updatedAt'>[] =
         isCustom: false,
         supportsVision: true,
         maxTokens: 8192,
-        defaultTemperature: 0.7
+        contextWindow: 128000,
+        defaultTemperature: 0.7,
+        pricing: { currency: 'CNY', inputPerMTok: 2, outputPerMTok: 3, cacheReadPerMTok: 0.2 }
     },
     // Alibaba Qwen
     {
@@ -130,7 +171,9 @@ export const PRESET_MODELS: Omit<ModelConfig, 'isConfigured' | 'updatedAt'>[] =
         isCustom: false,
         supportsVision: true,
         maxTokens: 8192,
-        defaultTemperature: 0.7
+        contextWindow: 128000,
+        defaultTemperature: 0.7,
+        pricing: { currency: 'CNY', inputPerMTok: 2, outputPerMTok: 8 }
     },
     // Moonshot Kimi
     {
@@ -145,7 +188,9 @@ export const PRESET_MODELS: Omit<ModelConfig, 'isConfigured' | 'updatedAt'>[] =
         isCustom: false,
         supportsVision: true,
         maxTokens: 8192,
-        defaultTemperature: 0.7
+        contextWindow: 128000,
+        defaultTemperature: 0.7,
+        pricing: { currency: 'CNY', inputPerMTok: 4, outputPerMTok: 16, cacheReadPerMTok: 1 }
     },
     // ByteDance Doubao
     {
@@ -160,7 +205,9 @@ export const PRESET_MODELS: Omit<ModelConfig, 'isConfigured' | 'updatedAt'>[] =
         isCustom: false,
         supportsVision: true,
         maxTokens: 8192,
-        defaultTemperature: 0.7
+        contextWindow: 256000,
+        defaultTemperature: 0.7,
+        pricing: { currency: 'CNY', inputPerMTok: 0.8, outputPerMTok: 8, cacheReadPerMTok: 0.16 }
     },
     // Zhipu AI GLM
     {
@@ -175,7 +222,9 @@ export const PRESET_MODELS: Omit<ModelConfig, 'isConfigured' | 'updatedAt'>[] =
         isCustom: false,
         supportsVision: true,
         maxTokens: 8192,
-        defaultTemperature: 0.7
+        contextWindow: 200000,
+        defaultTemperature: 0.7,
+        pricing: { currency: 'CNY', inputPerMTok: 4, outputPerMTok: 16, cacheReadPerMTok: 0.8 }
     },
     // ModelScope (using DeepSeek)
     {
@@ -190,7 +239,26 @@ export const PRESET_MODELS: Omit<ModelConfig, 'isConfigured' | 'updatedAt'>[] =
         isCustom: false,
         supportsVision: true,
         maxTokens: 8192,
-        defaultTemperature: 0.7
+        contextWindow: 128000,
+        defaultTemperature: 0.7,
+        pricing: { currency: 'CNY', inputPerMTok: 0, outputPerMTok: 0 }
+    },
+    // Ollama (local, offline)
+    {
+        id: 'ollama-qwen3',
+        displayName: 'Qwen3 8B (本地)',
+        providerId: 'ollama',
+        providerName: 'Ollama',
+        modelId: 'qwen3:8b',
+        baseUrl: 'http://localhost:11434',
+        protocol: 'ollama',
+        authType: 'bearer',
+        isCustom: false,
+        supportsVision: false,
+        maxTokens: 8192,
+        contextWindow: 32768,
+        defaultTemperature: 0.7,
+        pricing: { currency: 'CNY', inputPerMTok: 0, outputPerMTok: 0 }
     }
 ];
 
@@ -199,6 +267,30 @@ export const PRESET_MODELS: Omit<ModelConfig, 'isConfigured' | 'updatedAt'>[] =
  */
 export const DEFAULT_MODEL_ID = 'deepseek-v3.2';
 
+/**
+ * Context window assumed for models that do not declare one
+ */
+export const DEFAULT_CONTEXT_WINDOW = 128000;
+
+/**
+ * Resolve the context window for a registry id or API model name
+ */
+export function resolveContextWindow(model: string): number {
+    const key = String(model || '').trim();
+    const preset = PRESET_MODELS.find(m => m.id === key) || PRESET_MODELS.find(m => m.modelId === key);
+    if (preset?.contextWindow) return preset.contextWindow;
+    if (/^claude-/i.test(key)) return 200000;
+    return DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Map a registry protocol to the transport the agent runtime speaks
+ */
+export function toTransportProvider(protocol: ProviderProtocol): 'anthropic' | 'openai' | 'ollama' {
+    if (protocol === 'anthropic' || protocol === 'ollama') return protocol;
+    return 'openai';
+}
+
 // ============================================
 // Custom Model Input Types
 // ============================================
@@ -216,7 +308,10 @@ export interface CreateModelInput {
     authType?: AuthType;
     supportsVision?: boolean;
     maxTokens?: number;
+    contextWindow?: number;
     defaultTemperature?: number;
+    reasoningBudget?: number;
+    pricing?: ModelPricing;
 }
 
 /**
@@ -230,7 +325,10 @@ export interface UpdateModelInput {
     authType?: AuthType;
     supportsVision?: boolean;
     maxTokens?: number;
+    contextWindow?: number;
     defaultTemperature?: number;
+    reasoningBudget?: number;
+    pricing?: ModelPricing;
 }
 
 // ============================================
@@ -256,6 +354,9 @@ export interface ModelRegistryStorage {
     // All configured models (presets + custom)
     models: Record<string, StoredModelConfig>;
 
+    // Optional: Backup model IDs tried in order when the active model fails
+    fallbackChain?: string[];
+
     // Version for migrations
     version: number;
 }
@@ -1,5 +1,5 @@
 import { useState, memo } from 'react';
-import { ChevronDown, ChevronUp, Terminal, Check, Loader2, AlertTriangle } from 'lucide-react';
+import { ChevronDown, ChevronUp, Terminal, Check, Loader2, AlertTriangle, Bot } from 'lucide-react';
 import { useI18n } from '../i18n/I18nContext';
 
 export interface ToolBlockData {
@@ -9,21 +9,61 @@ export interface ToolBlockData {
     output?: string;
 }
 
+/**
+ * Live progress of a delegate_task sub-agent, nested under its tool block
+ */
+export interface SubAgentProgressView {
+    iteration: number;
+    maxIterations: number;
+    status?: 'completed' | 'budget_exhausted' | 'aborted' | 'failed';
+    steps: { callId: string; name: string; status: 'running' | 'done' | 'error' }[];
+}
+
 interface CollapsibleToolBlockProps {
     toolName: string;
     input: Record<string, unknown>;
     output?: string;
     status?: 'running' | 'done' | 'error';
+    subAgent?: SubAgentProgressView;
 }
 
-export const CollapsibleToolBlock = memo(function CollapsibleToolBlock({ toolName, output, status = 'done' }: CollapsibleToolBlockProps) {
-    const [expanded, setExpanded] = useState(false);
+function getStatusIcon(status: 'running' | 'done' | 'error', size = 14) {
+    if (status === 'running') return <Loader2 size={size} className="text-[#E85D3E] animate-spin" />;
+    if (status === 'error') return <AlertTriangle size={size} className="text-red-500" />;
+    return <Check size={size} className="text-emerald-500" />;
+}
 
-    const getStatusIcon = () => {
-        if (status === 'running') return <Loader2 size={14} className="text-[#E85D3E] animate-spin" />;
-        if (status === 'error') return <AlertTriangle size={14} className="text-red-500" />;
-        return <Check size={14} className="text-emerald-500" />;
-    };
+const SUB_AGENT_STATUS_TEXT: Record<NonNullable<SubAgentProgressView['status']>, string> = {
+    completed: '已完成',
+    budget_exhausted: '迭代预算用尽',
+    aborted: '已中止',
+    failed: '失败',
+};
+
+function SubAgentProgress({ progress }: { progress: SubAgentProgressView }) {
+    return (
+        <div className="px-4 py-2.5 border-t border-stone-200/60 bg-white/60">
+            <div className="flex items-center gap-2 text-xs text-stone-500 mb-1.5">
+                <Bot size={12} />
+                <span>子代理 · 第 {progress.iteration}/{progress.maxIterations} 轮</span>
+                {progress.status && <span className="text-stone-400">· {SUB_AGENT_STATUS_TEXT[progress.status]}</span>}
+            </div>
+            {progress.steps.length > 0 && (
+                <ul className="ml-1.5 pl-3 border-l-2 border-stone-200 space-y-1">
+                    {progress.steps.map(step => (
+                        <li key={step.callId} className="flex items-center gap-2 text-xs text-stone-600">
+                            {getStatusIcon(step.status, 12)}
+                            <span className="font-mono truncate">{step.name}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+export const CollapsibleToolBlock = memo(function CollapsibleToolBlock({ toolName, output, status = 'done', subAgent }: CollapsibleToolBlockProps) {
+    const [expanded, setExpanded] = useState(false);
 
     const fallbackText = status === 'running'
         ? '执行中…'
@@ -38,7 +78,7 @@ export const CollapsibleToolBlock = memo(function CollapsibleToolBlock({ toolNam
                 className="w-full flex items-center justify-between px-4 py-3 bg-stone-50/50 hover:bg-stone-100/60 transition-colors"
             >
                 <div className="flex items-center gap-2.5">
-                    {getStatusIcon()}
+                    {getStatusIcon(status)}
                     <Terminal size={14} className="text-stone-500" />
                     <span className="text-sm font-medium text-stone-700">{toolName}</span>
                 </div>
@@ -49,6 +89,8 @@ export const CollapsibleToolBlock = memo(function CollapsibleToolBlock({ toolNam
                 )}
             </button>
 
+            {subAgent && <SubAgentProgress progress={subAgent} />}
+
             {expanded && (
                 <div className="border-t border-stone-200/60">
                     <div className="p-4 bg-zinc-900/95 font-mono text-xs text-emerald-400 max-h-40 overflow-y-auto custom-scrollbar">
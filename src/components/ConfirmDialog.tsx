@@ -1,30 +1,61 @@
 import { useState } from 'react';
 import { AlertTriangle, Check, X } from 'lucide-react';
 
-interface ConfirmationRequest {
-    id: string;
-    tool: string;
-    description: string;
-    args: Record<string, unknown>;
-    token?: string;
-}
+import type { ConfirmationRequest, RememberScope } from './useConfirmations';
 
 interface ConfirmDialogProps {
     request: ConfirmationRequest | null;
-    onConfirm: (id: string, remember: boolean, tool: string, path?: string, token?: string) => void;
+    onConfirm: (id: string, remember: RememberScope | null, tool: string, path?: string, token?: string) => void;
     onDeny: (id: string) => void;
 }
 
+/**
+ * Unified diff with added/removed lines highlighted
+ */
+function DiffView({ diff }: { diff: string }) {
+    const lines = diff.replace(/\n$/, '').split('\n');
+
+    const lineClass = (line: string) => {
+        if (line.startsWith('+++') || line.startsWith('---')) return 'text-stone-500 font-semibold';
+        if (line.startsWith('@@')) return 'text-sky-700 bg-sky-50/80';
+        if (line.startsWith('+')) return 'text-emerald-800 bg-emerald-50';
+        if (line.startsWith('-')) return 'text-red-800 bg-red-50';
+        return 'text-stone-700';
+    };
+
+    return (
+        <pre className="bg-stone-100/80 py-2 rounded-xl text-xs font-mono overflow-auto max-h-72 border border-stone-200/60 custom-scrollbar">
+            {lines.map((line, index) => (
+                <div key={index} className={`px-4 whitespace-pre ${lineClass(line)}`}>{line || ' '}</div>
+            ))}
+        </pre>
+    );
+}
+
 export function ConfirmDialog({ request, onConfirm, onDeny }: ConfirmDialogProps) {
     const [remember, setRemember] = useState(false);
+    const [rememberScope, setRememberScope] = useState<RememberScope>('session');
 
     if (!request) return null;
 
+    // Where a remembered choice can apply; the folder option needs a path inside an authorized folder
+    const scopes: { id: RememberScope; label: string }[] = request.rememberScopes === null ? [] : [
+        ...(request.rememberScopes?.session !== false ? [{ id: 'session' as const, label: '本会话' }] : []),
+        ...(request.rememberScopes?.folder ? [{ id: 'folder' as const, label: '此文件夹' }] : []),
+        { id: 'global', label: '全局' },
+    ];
+    const scope = scopes.some(s => s.id === rememberScope) ? rememberScope : scopes[0]?.id;
+
     const path = (request.args?.path || request.args?.cwd) as string | undefined;
+    // File edits send a rendered diff; show it instead of the raw arguments
+    const diff = typeof request.args?.diff === 'string' ? request.args.diff : null;
+    const shownArgs = diff !== null
+        ? Object.fromEntries(Object.entries(request.args).filter(([key]) => key !== 'diff'))
+        : request.args;
 
     return (
         <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in">
-            <div className="bg-white/95 backdrop-blur-md border border-stone-200/60 rounded-3xl shadow-2xl max-w-md w-full overflow-hidden animate-scale-in">
+            <div className={`bg-white/95 backdrop-blur-md border border-stone-200/60 rounded-3xl shadow-2xl ${diff !== null ? 'max-w-2xl' : 'max-w-md'} w-full overflow-hidden animate-scale-in`}>
                 {/* Header */}
                 <div className="p-6 border-b border-stone-200/60 bg-amber-50/50">
                     <div className="flex items-center gap-3">
@@ -48,24 +79,51 @@ export function ConfirmDialog({ request, onConfirm, onDeny }: ConfirmDialogProps
                         <p className="text-sm text-stone-500 mb-2">描述</p>
                         <p className="text-stone-800 leading-relaxed">{request.description}</p>
                     </div>
-                    {request.args && Object.keys(request.args).length > 0 && (
+                    {diff !== null && (
+                        <div>
+                            <p className="text-sm text-stone-500 mb-2">变更</p>
+                            {diff ? <DiffView diff={diff} /> : <p className="text-sm text-stone-500">文件内容无变化</p>}
+                        </div>
+                    )}
+                    {shownArgs && Object.keys(shownArgs).length > 0 && (
                         <div>
                             <p className="text-sm text-stone-500 mb-2">参数</p>
                             <pre className="bg-stone-100/80 p-4 rounded-xl text-xs font-mono overflow-x-auto max-h-32 border border-stone-200/60 custom-scrollbar">
-                                {JSON.stringify(request.args, null, 2)}
+                                {JSON.stringify(shownArgs, null, 2)}
                             </pre>
                         </div>
                     )}
-                    {/* Remember checkbox */}
-                    <label className="flex items-center gap-3 cursor-pointer p-3 rounded-xl hover:bg-stone-50/80 transition-colors">
-                        <input
-                            type="checkbox"
-                            checked={remember}
-                            onChange={(e) => setRemember(e.target.checked)}
-                            className="w-4 h-4 rounded accent-[#E85D3E]"
-                        />
-                        <span className="text-sm text-stone-600">记住此选择，以后自动执行</span>
-                    </label>
+                    {/* Remember checkbox: saves an allow rule for this call in the chosen scope */}
+                    {scopes.length > 0 && (
+                        <div className="flex items-center justify-between gap-3 p-3 rounded-xl hover:bg-stone-50/80 transition-colors">
+                            <label className="flex items-center gap-3 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={remember}
+                                    onChange={(e) => setRemember(e.target.checked)}
+                                    className="w-4 h-4 rounded accent-[#E85D3E]"
+                                />
+                                <span className="text-sm text-stone-600">记住此选择，以后自动执行</span>
+                            </label>
+                            {remember && (
+                                <div className="flex gap-1 bg-stone-100 p-1 rounded-lg" role="radiogroup" aria-label="记住范围">
+                                    {scopes.map(s => (
+                                        <button
+                                            type="button"
+                                            key={s.id}
+                                            role="radio"
+                                            aria-checked={scope === s.id}
+                                            title={s.id === 'folder' ? request.rememberScopes?.folder || undefined : undefined}
+                                            onClick={() => setRememberScope(s.id)}
+                                            className={`px-2 py-0.5 text-xs rounded-md transition-colors ${scope === s.id ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
+                                        >
+                                            {s.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </div>
 
                 {/* Actions */}
@@ -81,7 +139,7 @@ export function ConfirmDialog({ request, onConfirm, onDeny }: ConfirmDialogProps
                     </button>
                     <button
                         onClick={() => {
-                            onConfirm(request.id, remember, request.tool, path, request.token);
+                            onConfirm(request.id, remember && scope ? scope : null, request.tool, path, request.token);
                             setRemember(false);
                         }}
                         className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-[#E85D3E] to-[#d14a2e] text-white rounded-2xl hover:from-[#d14a2e] hover:to-[#b53d26] transition-all font-medium shadow-sm"
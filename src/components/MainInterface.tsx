@@ -21,8 +21,10 @@ export default function MainInterface({ onOpenSettings }: MainInterfaceProps) {
         sendMessage,
         abort,
         streamingText,
+        streamingThinking,
         deleteMessage,
         regenerateMessage,
+        revertToMessage,
     } = useAgent();
 
     const {
@@ -118,8 +120,10 @@ export default function MainInterface({ onOpenSettings }: MainInterfaceProps) {
                 <MessageList
                     messages={history}
                     streamingText={streamingText}
+                    streamingThinking={streamingThinking}
                     onDelete={deleteMessage}
                     onRegenerate={regenerateMessage}
+                    onRevert={revertToMessage}
                 />
 
                 {/* Input Area */}
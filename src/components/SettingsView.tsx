@@ -1,8 +1,17 @@
 import { useState, useEffect } from 'react';
-import { X, Settings, FolderOpen, Server, Check, Plus, Trash2, Edit2, Zap, Eye, Clock, Download } from 'lucide-react';
+import { X, Settings, FolderOpen, Server, Check, Plus, Trash2, Edit2, Zap, Eye, Clock, Download, Coins, ShieldCheck, ScrollText, Brain } from 'lucide-react';
 import { SkillEditor } from './SkillEditor';
 import { ModelSettings } from './settings/ModelSettings';
 import { MCPSettings } from './settings/MCPSettings';
+import { MCPServerSettings } from './settings/MCPServerSettings';
+import { UsageSettings } from './settings/UsageSettings';
+import { AuditLogSettings } from './settings/AuditLogSettings';
+import { MemorySettings } from './settings/MemorySettings';
+import { MemoryRetrievalSettings } from './settings/MemoryRetrievalSettings';
+import { MemoryInboxSettings } from './settings/MemoryInboxSettings';
+import { SandboxSettings, type CommandSandboxConfig } from './settings/SandboxSettings';
+import { DockerSettings, type DockerExecutionConfig, type ExecutionMode } from './settings/DockerSettings';
+import { PermissionRulesSettings } from './settings/PermissionRulesSettings';
 import { ScheduleView } from './schedule/ScheduleView';
 import { UpdateDialog } from './UpdateDialog';
 
@@ -12,7 +21,7 @@ interface SettingsViewProps {
 
 interface Config {
     // Legacy model config fields (kept for type compatibility but managed via ModelSettings)
-    provider: 'anthropic' | 'openai' | 'minimax';
+    provider: 'anthropic' | 'openai' | 'minimax' | 'ollama';
     apiKey: string;
     apiKeys?: Record<string, string>;
     apiUrl: string;
@@ -23,6 +32,9 @@ interface Config {
     networkAccess: boolean;
     browserAccess: boolean;
     shortcut: string;
+    commandSandbox: CommandSandboxConfig;
+    pythonExecutionMode: ExecutionMode;
+    dockerExecution: DockerExecutionConfig;
 }
 
 /**
@@ -37,12 +49,6 @@ interface SkillInfo {
     isBuiltin: boolean;
 }
 
-interface ToolPermission {
-    tool: string;
-    pathPattern?: string;
-    grantedAt: number;
-}
-
 export function SettingsView({ onClose }: SettingsViewProps) {
     const [config, setConfig] = useState<Config>({
         provider: 'anthropic',
@@ -53,10 +59,13 @@ export function SettingsView({ onClose }: SettingsViewProps) {
         authorizedFolders: [],
         networkAccess: true,
         browserAccess: false,
-        shortcut: 'Alt+Space'
+        shortcut: 'Alt+Space',
+        commandSandbox: { enabled: false, backend: 'auto', fallbackToHost: false },
+        pythonExecutionMode: 'host',
+        dockerExecution: { image: 'python:3.11-slim', cpus: 2, memoryMb: 2048, network: 'follow' }
     });
     const [saved, setSaved] = useState(false);
-    const [activeTab, setActiveTab] = useState<'api' | 'folders' | 'mcp' | 'skills' | 'schedule' | 'advanced' | 'about'>('api');
+    const [activeTab, setActiveTab] = useState<'api' | 'folders' | 'rules' | 'mcp' | 'skills' | 'memory' | 'schedule' | 'usage' | 'audit' | 'advanced' | 'about'>('api');
     const [isRecordingShortcut, setIsRecordingShortcut] = useState(false);
 
     // Skills State
@@ -65,28 +74,9 @@ export function SettingsView({ onClose }: SettingsViewProps) {
     const [viewingSkill, setViewingSkill] = useState<boolean>(false); // New state for read-only mode
     const [showSkillEditor, setShowSkillEditor] = useState(false);
 
-    // Permissions State
-    const [permissions, setPermissions] = useState<ToolPermission[]>([]);
-
     // Update State
     const [showUpdateDialog, setShowUpdateDialog] = useState(false);
 
-    const loadPermissions = () => {
-        window.ipcRenderer.invoke('permissions:list').then(list => setPermissions(list as ToolPermission[]));
-    };
-
-    const revokePermission = async (tool: string, pathPattern?: string) => {
-        await window.ipcRenderer.invoke('permissions:revoke', { tool, pathPattern });
-        loadPermissions();
-    };
-
-    const clearAllPermissions = async () => {
-        if (confirm('确定要清除所有已授权的权限吗？')) {
-            await window.ipcRenderer.invoke('permissions:clear');
-            loadPermissions();
-        }
-    };
-
     useEffect(() => {
         window.ipcRenderer.invoke('config:get-all').then(async (cfg) => {
             if (cfg) {
@@ -101,8 +91,6 @@ export function SettingsView({ onClose }: SettingsViewProps) {
     useEffect(() => {
         if (activeTab === 'skills') {
             refreshSkills();
-        } else if (activeTab === 'advanced') {
-            loadPermissions();
         }
     }, [activeTab]);
 
@@ -204,9 +192,13 @@ export function SettingsView({ onClose }: SettingsViewProps) {
                     {[
                         { id: 'api' as const, label: '通用', icon: <Settings size={14} /> },
                         { id: 'folders' as const, label: '权限', icon: <FolderOpen size={14} /> },
+                        { id: 'rules' as const, label: '权限规则', icon: <ShieldCheck size={14} /> },
                         { id: 'mcp' as const, label: 'MCP', icon: <Server size={14} /> },
                         { id: 'skills' as const, label: 'Skills', icon: <Zap size={14} /> },
+                        { id: 'memory' as const, label: '记忆', icon: <Brain size={14} /> },
                         { id: 'schedule' as const, label: '定时任务', icon: <Clock size={14} /> },
+                        { id: 'usage' as const, label: '用量', icon: <Coins size={14} /> },
+                        { id: 'audit' as const, label: '审计日志', icon: <ScrollText size={14} /> },
                         { id: 'advanced' as const, label: '高级', icon: <Settings size={14} /> },
                         { id: 'about' as const, label: '关于', icon: <Settings size={14} /> },
                     ].map(tab => (
@@ -294,9 +286,16 @@ export function SettingsView({ onClose }: SettingsViewProps) {
                             </div>
                         )}
 
+                        {activeTab === 'rules' && (
+                            <div role="tabpanel" id="settings-panel-rules" aria-labelledby="settings-tab-rules">
+                                <PermissionRulesSettings />
+                            </div>
+                        )}
+
                         {activeTab === 'mcp' && (
-                            <div role="tabpanel" id="settings-panel-mcp" aria-labelledby="settings-tab-mcp" className="h-full">
+                            <div role="tabpanel" id="settings-panel-mcp" aria-labelledby="settings-tab-mcp" className="h-full space-y-4">
                                 <MCPSettings />
+                                <MCPServerSettings />
                             </div>
                         )}
 
@@ -386,6 +385,30 @@ export function SettingsView({ onClose }: SettingsViewProps) {
                             </div>
                         )}
 
+                        {activeTab === 'usage' && (
+                            <div
+                                role="tabpanel"
+                                id="settings-panel-usage"
+                                aria-labelledby="settings-tab-usage"
+                            >
+                                <UsageSettings />
+                            </div>
+                        )}
+
+                        {activeTab === 'memory' && (
+                            <div role="tabpanel" id="settings-panel-memory" aria-labelledby="settings-tab-memory" className="space-y-4">
+                                <MemoryRetrievalSettings />
+                                <MemoryInboxSettings />
+                                <MemorySettings />
+                            </div>
+                        )}
+
+                        {activeTab === 'audit' && (
+                            <div role="tabpanel" id="settings-panel-audit" aria-labelledby="settings-tab-audit">
+                                <AuditLogSettings />
+                            </div>
+                        )}
+
                         {activeTab === 'advanced' && (
                             <div
                                 role="tabpanel"
@@ -410,6 +433,18 @@ export function SettingsView({ onClose }: SettingsViewProps) {
                                     </button>
                                 </div>
 
+                                <SandboxSettings
+                                    value={config.commandSandbox}
+                                    onChange={(commandSandbox) => setConfig({ ...config, commandSandbox })}
+                                />
+
+                                <DockerSettings
+                                    mode={config.pythonExecutionMode}
+                                    value={config.dockerExecution}
+                                    onModeChange={(pythonExecutionMode) => setConfig({ ...config, pythonExecutionMode })}
+                                    onChange={(dockerExecution) => setConfig({ ...config, dockerExecution })}
+                                />
+
                                 <div className="flex items-center justify-between p-3 bg-white border border-stone-200 rounded-lg">
                                     <div>
                                         <p className="text-sm font-medium text-stone-700">浏览器操作</p>
@@ -454,39 +489,6 @@ export function SettingsView({ onClose }: SettingsViewProps) {
                                         </button>
                                     )}
                                 </div>
-
-                                {/* Permissions Management */}
-                                <div className="space-y-2">
-                                    <p className="text-sm font-medium text-stone-700">已授权的权限</p>
-                                    {permissions.length === 0 ? (
-                                        <p className="text-xs text-stone-400 p-3 bg-stone-50 rounded-lg">暂无已保存的权限</p>
-                                    ) : (
-                                        <div className="space-y-2">
-                                            {permissions.map((p, idx) => (
-                                                <div key={idx} className="flex items-center justify-between p-2 bg-white border border-stone-200 rounded-lg">
-                                                    <div className="flex-1">
-                                                        <p className="text-sm font-mono text-stone-700">{p.tool}</p>
-                                                        <p className="text-xs text-stone-400">{p.pathPattern === '*' ? '所有路径' : p.pathPattern}</p>
-                                                    </div>
-                                                    <button
-                                                        type="button"
-                                                        onClick={() => revokePermission(p.tool, p.pathPattern)}
-                                                        className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500/30 focus-visible:ring-offset-2 focus-visible:ring-offset-white"
-                                                    >
-                                                        撤销
-                                                    </button>
-                                                </div>
-                                            ))}
-                                            <button
-                                                type="button"
-                                                onClick={clearAllPermissions}
-                                                className="w-full px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500/30 focus-visible:ring-offset-2 focus-visible:ring-offset-white"
-                                            >
-                                                清除所有权限
-                                            </button>
-                                        </div>
-                                    )}
-                                </div>
                             </div>
                         )}
 
@@ -1,11 +1,21 @@
 /**
  * Chat Input Component
- * Handles text input and image uploads for chat messages
+ * Handles text input, image uploads, MCP resource attachments and MCP prompt
+ * slash commands for chat messages
  */
 
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { Plus, ArrowUp, X, Square } from 'lucide-react';
+import { Plus, ArrowUp, X, Square, Paperclip, FileText } from 'lucide-react';
 import { useImageUpload } from '../../hooks/useImageUpload';
+import { matchPromptCommands, useMCPExtensions } from '../../hooks/useMCPExtensions';
+import { PromptArgumentsForm, PromptCommandMenu, ResourcePicker } from './MCPInputMenus';
+import type { MCPPromptInfo, MCPResourceInfo } from '../../../electron/types/ipc';
+
+interface ResourceAttachment {
+    key: string;
+    label: string;
+    text: string;
+}
 
 export interface ChatInputProps {
     disabled?: boolean;
@@ -34,7 +44,15 @@ export function ChatInput({
 }: ChatInputProps) {
     const [content, setContent] = useState('');
     const [isComposing, setIsComposing] = useState(false);
+    const [attachments, setAttachments] = useState<ResourceAttachment[]>([]);
+    const [showResources, setShowResources] = useState(false);
+    const [promptIndex, setPromptIndex] = useState(0);
+    const [promptMenuDismissed, setPromptMenuDismissed] = useState(false);
+    const [activePrompt, setActivePrompt] = useState<MCPPromptInfo | null>(null);
+    const [promptBusy, setPromptBusy] = useState(false);
+    const [promptError, setPromptError] = useState<string | null>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const mcp = useMCPExtensions();
 
     // Auto-resize textarea
     useEffect(() => {
@@ -50,6 +68,7 @@ export function ChatInput({
         fileInputRef,
         handleFileSelect,
         handlePaste,
+        addDataUrls,
         removeImage,
         clearImages,
         getImagesForUpload,
@@ -60,28 +79,101 @@ export function ChatInput({
         },
     });
 
+    // Prompts offered while a slash command is being typed
+    const promptMatches = useMemo(() => matchPromptCommands(content, mcp.prompts), [content, mcp.prompts]);
+    const showPromptMenu = promptMatches !== null && !activePrompt && !promptMenuDismissed && (promptMatches.length > 0 || mcp.loading);
+    const { ensureLoaded, getPrompt, readResource } = mcp;
+
+    useEffect(() => {
+        if (content.startsWith('/')) ensureLoaded();
+        setPromptIndex(0);
+        setPromptMenuDismissed(false);
+    }, [content, ensureLoaded]);
+
     // 优化：减少依赖，避免每次输入都重新创建回调
     const handleSend = useCallback(() => {
-        if (!content.trim() && images.length === 0) return;
+        if (!content.trim() && images.length === 0 && attachments.length === 0) return;
 
         const imageUrls = getImagesForUpload();
-        onSend(content.trim(), imageUrls);
+        // Attached resources follow the message text
+        const message = [content.trim(), ...attachments.map(a => a.text)].filter(Boolean).join('\n\n');
+        onSend(message, imageUrls);
 
         setContent('');
         clearImages();
+        setAttachments([]);
         // Reset height
         if (textareaRef.current) {
             textareaRef.current.style.height = 'auto';
         }
-    }, [content, images, getImagesForUpload, onSend, clearImages]);
+    }, [content, images, attachments, getImagesForUpload, onSend, clearImages]);
+
+    const insertPrompt = useCallback(async (prompt: MCPPromptInfo, args: Record<string, string>) => {
+        setPromptBusy(true);
+        setPromptError(null);
+        try {
+            setContent(await getPrompt(prompt, args));
+            setActivePrompt(null);
+            textareaRef.current?.focus();
+        } catch (error) {
+            setActivePrompt(prompt);
+            setPromptError(error instanceof Error ? error.message : String(error));
+        } finally {
+            setPromptBusy(false);
+        }
+    }, [getPrompt]);
+
+    const selectPrompt = useCallback((prompt: MCPPromptInfo) => {
+        setPromptError(null);
+        if (prompt.arguments.length > 0) {
+            setActivePrompt(prompt);
+        } else {
+            void insertPrompt(prompt, {});
+        }
+    }, [insertPrompt]);
+
+    const attachResource = useCallback(async (resource: MCPResourceInfo, uri: string) => {
+        try {
+            const data = await readResource(resource.server, uri);
+            if (data.text) {
+                const label = resource.template ? uri : (resource.title || resource.name);
+                setAttachments(prev => [
+                    ...prev.filter(a => a.key !== `${resource.server}:${uri}`),
+                    { key: `${resource.server}:${uri}`, label, text: data.text },
+                ]);
+            }
+            addDataUrls(data.images);
+            setShowResources(false);
+        } catch (error) {
+            alert(`读取资源失败：${error instanceof Error ? error.message : String(error)}`);
+        }
+    }, [readResource, addDataUrls]);
 
     // Memoize key down handler
     const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+        if (showPromptMenu && promptMatches && promptMatches.length > 0 && !isComposing) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setPromptIndex(i => (i + step + promptMatches.length) % promptMatches.length);
+                return;
+            }
+            if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+                e.preventDefault();
+                selectPrompt(promptMatches[Math.min(promptIndex, promptMatches.length - 1)]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setPromptMenuDismissed(true);
+                return;
+            }
+        }
         if (e.key === 'Enter' && !e.shiftKey && !isComposing) {
             e.preventDefault();
             handleSend();
         }
-    }, [handleSend, isComposing]);
+    }, [handleSend, isComposing, showPromptMenu, promptMatches, promptIndex, selectPrompt]);
 
     // Memoize paste handler
     const handlePasteEvent = useCallback(async (e: React.ClipboardEvent) => {
@@ -103,8 +195,8 @@ export function ChatInput({
 
     // Memoize whether can send
     const canSend = useMemo(() => {
-        return content.trim() || images.length > 0;
-    }, [content, images]);
+        return content.trim() || images.length > 0 || attachments.length > 0;
+    }, [content, images, attachments]);
 
     // Memoize button disabled state
     const buttonDisabled = useMemo(() => {
@@ -138,8 +230,60 @@ export function ChatInput({
                 </div>
             )}
 
+            {/* MCP Resource Attachments */}
+            {attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3 animate-fade-in">
+                    {attachments.map(attachment => (
+                        <span
+                            key={attachment.key}
+                            className="flex items-center gap-1 max-w-[240px] px-2 py-1 text-xs text-stone-600 bg-stone-100 rounded-lg"
+                            title={attachment.key}
+                        >
+                            <FileText size={12} className="shrink-0 text-stone-400" />
+                            <span className="truncate">{attachment.label}</span>
+                            <button
+                                type="button"
+                                onClick={() => setAttachments(prev => prev.filter(a => a.key !== attachment.key))}
+                                className="p-0.5 text-stone-400 hover:text-stone-600 rounded"
+                                aria-label={`移除资源 ${attachment.label}`}
+                            >
+                                <X size={10} />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
             {/* Input Area */}
-            <div className="w-full">
+            <div className="w-full relative">
+                {showPromptMenu && promptMatches && (
+                    <PromptCommandMenu
+                        prompts={promptMatches}
+                        selectedIndex={promptIndex}
+                        loading={mcp.loading}
+                        onSelect={selectPrompt}
+                    />
+                )}
+                {activePrompt && (
+                    <PromptArgumentsForm
+                        key={`${activePrompt.server}:${activePrompt.name}`}
+                        prompt={activePrompt}
+                        busy={promptBusy}
+                        error={promptError}
+                        onSubmit={(args) => { void insertPrompt(activePrompt, args); }}
+                        onCancel={() => setActivePrompt(null)}
+                    />
+                )}
+                {showResources && (
+                    <ResourcePicker
+                        resources={mcp.resources}
+                        loading={mcp.loading}
+                        error={mcp.error}
+                        onAttach={(resource, uri) => { void attachResource(resource, uri); }}
+                        onRefresh={() => { void mcp.refresh(); }}
+                        onClose={() => setShowResources(false)}
+                    />
+                )}
                 <div className="input-bar flex flex-col gap-2 w-full px-4 py-3">
                     <textarea
                         ref={textareaRef}
@@ -174,6 +318,19 @@ export function ChatInput({
                             >
                                 <Plus size={18} />
                             </button>
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    ensureLoaded();
+                                    setShowResources(v => !v);
+                                }}
+                                disabled={disabled}
+                                className={`w-8 h-8 rounded-xl flex items-center justify-center text-stone-500 hover:bg-stone-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed shrink-0 ${showResources ? 'bg-stone-100' : ''}`}
+                                aria-label="附加 MCP 资源"
+                                title="附加 MCP 资源"
+                            >
+                                <Paperclip size={16} />
+                            </button>
                             {models && models.length > 0 && activeModelId && onModelChange ? (
                                 <select
                                     value={activeModelId}
@@ -217,7 +374,7 @@ export function ChatInput({
 
             {/* Helper Text */}
             <div className="mt-3 text-xs text-stone-400 flex items-center justify-between">
-                <span>按 Enter 发送，Shift + Enter 换行</span>
+                <span>按 Enter 发送，Shift + Enter 换行，输入 / 使用 MCP 提示词</span>
                 <span className="text-stone-300">|</span>
                 <span className="text-stone-400">AI 可能会出错，请仔细核对回复内容</span>
             </div>
@@ -10,6 +10,7 @@ import { MessageList } from './MessageList';
 import { ChatInput } from './ChatInput';
 import { useAgent } from '../../hooks/useAgent';
 import { useSessions } from '../../hooks/useIPC';
+import { useUsage } from '../../hooks/useUsage';
 
 export interface CoworkViewRefactoredProps {
     onOpenSettings: () => void;
@@ -50,6 +51,7 @@ export function CoworkViewRefactored({ onOpenSettings }: CoworkViewRefactoredPro
         sendMessage,
         abort,
         streamingText,
+        streamingThinking,
     } = useAgent();
 
     const {
@@ -62,6 +64,9 @@ export function CoworkViewRefactored({ onOpenSettings }: CoworkViewRefactoredPro
         createNew,
     } = useSessions();
 
+    // Token usage for the active session
+    const { summary: sessionUsage } = useUsage({ sessionId: 'current' });
+
     // Handle sending a message
     const handleSendMessage = useCallback(async (content: string, images?: string[]) => {
         await sendMessage(content, images);
@@ -104,6 +109,8 @@ export function CoworkViewRefactored({ onOpenSettings }: CoworkViewRefactoredPro
                 onOpenSettings={onOpenSettings}
                 sidebarCollapsed={sidebarCollapsed}
                 onToggleSidebar={toggleSidebar}
+                usage={sessionUsage}
+                onOpenUsage={onOpenSettings}
             />
 
             {/* Main Content */}
@@ -141,7 +148,7 @@ export function CoworkViewRefactored({ onOpenSettings }: CoworkViewRefactoredPro
                 {/* Chat Area */}
                 <div className="flex-1 flex flex-col transition-all duration-300 ease-in-out">
                     {/* Messages */}
-                    <MessageList messages={history} isDark={false} streamingText={streamingText} />
+                    <MessageList messages={history} isDark={false} streamingText={streamingText} streamingThinking={streamingThinking} />
 
                     {/* Processing Indicator */}
                     {isProcessing && (
@@ -0,0 +1,196 @@
+/**
+ * MCP menus for the chat input: the resource picker, the slash command menu
+ * for server prompts and the argument form a prompt may need
+ */
+
+import { useMemo, useState } from 'react';
+import { FileText, Loader2, RefreshCw, Search, X } from 'lucide-react';
+import type { MCPPromptInfo, MCPResourceInfo } from '../../../electron/types/ipc';
+import { promptCommand } from '../../hooks/useMCPExtensions';
+
+interface ResourcePickerProps {
+    resources: MCPResourceInfo[];
+    loading: boolean;
+    error: string | null;
+    onAttach: (resource: MCPResourceInfo, uri: string) => void;
+    onRefresh: () => void;
+    onClose: () => void;
+}
+
+export function ResourcePicker({ resources, loading, error, onAttach, onRefresh, onClose }: ResourcePickerProps) {
+    const [query, setQuery] = useState('');
+    const [template, setTemplate] = useState<{ resource: MCPResourceInfo; uri: string } | null>(null);
+
+    const filtered = useMemo(() => {
+        const q = query.trim().toLowerCase();
+        if (!q) return resources;
+        return resources.filter(r =>
+            [r.server, r.name, r.title, r.uri, r.description].some(v => v?.toLowerCase().includes(q))
+        );
+    }, [resources, query]);
+
+    return (
+        <div className="absolute bottom-full left-0 mb-2 w-[360px] max-w-full bg-white border border-stone-200 rounded-xl shadow-lg z-20 animate-fade-in">
+            <div className="flex items-center gap-1.5 px-3 py-2 border-b border-stone-100">
+                <Search size={12} className="text-stone-400" />
+                <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="搜索 MCP 资源"
+                    aria-label="搜索 MCP 资源"
+                    autoFocus
+                    className="flex-1 text-xs bg-transparent focus:outline-none"
+                />
+                <button type="button" onClick={onRefresh} aria-label="刷新资源" className="p-1 text-stone-400 hover:text-stone-600 rounded">
+                    <RefreshCw size={12} className={loading ? 'animate-spin' : ''} />
+                </button>
+                <button type="button" onClick={onClose} aria-label="关闭" className="p-1 text-stone-400 hover:text-stone-600 rounded">
+                    <X size={12} />
+                </button>
+            </div>
+
+            {template ? (
+                <div className="p-3 space-y-2">
+                    <p className="text-xs text-stone-500">填写资源模板中的参数：</p>
+                    <input
+                        type="text"
+                        value={template.uri}
+                        onChange={(e) => setTemplate({ ...template, uri: e.target.value })}
+                        aria-label="资源 URI"
+                        autoFocus
+                        className="w-full px-2 py-1.5 text-xs font-mono border border-stone-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#E85D3E]/20"
+                    />
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setTemplate(null)} className="px-2 py-1 text-xs text-stone-500 hover:bg-stone-100 rounded-lg">
+                            返回
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => onAttach(template.resource, template.uri)}
+                            disabled={/[{}]/.test(template.uri)}
+                            className="px-2 py-1 text-xs text-white bg-[#E85D3E] rounded-lg disabled:opacity-50"
+                        >
+                            附加
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="max-h-64 overflow-y-auto py-1">
+                    {error && <p className="px-3 py-2 text-xs text-red-600">{error}</p>}
+                    {!error && filtered.length === 0 && (
+                        <p className="px-3 py-2 text-xs text-stone-400">{loading ? '正在加载...' : '没有可用的 MCP 资源'}</p>
+                    )}
+                    {filtered.map(resource => (
+                        <button
+                            type="button"
+                            key={`${resource.server}:${resource.uri}`}
+                            onClick={() => resource.template
+                                ? setTemplate({ resource, uri: resource.uri })
+                                : onAttach(resource, resource.uri)}
+                            className="w-full text-left px-3 py-1.5 hover:bg-stone-50"
+                            title={resource.description || resource.uri}
+                        >
+                            <div className="flex items-center gap-1.5 text-xs text-stone-700">
+                                <FileText size={12} className="text-stone-400 shrink-0" />
+                                <span className="truncate">{resource.title || resource.name}</span>
+                                {resource.template && <span className="px-1 text-[10px] text-blue-600 bg-blue-50 rounded">模板</span>}
+                                <span className="ml-auto text-[10px] text-stone-400 shrink-0">{resource.server}</span>
+                            </div>
+                            <p className="pl-[18px] text-[10px] font-mono text-stone-400 truncate">{resource.uri}</p>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface PromptCommandMenuProps {
+    prompts: MCPPromptInfo[];
+    selectedIndex: number;
+    loading: boolean;
+    onSelect: (prompt: MCPPromptInfo) => void;
+}
+
+export function PromptCommandMenu({ prompts, selectedIndex, loading, onSelect }: PromptCommandMenuProps) {
+    return (
+        <div className="absolute bottom-full left-0 mb-2 w-[360px] max-w-full max-h-64 overflow-y-auto bg-white border border-stone-200 rounded-xl shadow-lg z-20 py-1" role="listbox" aria-label="MCP 提示词">
+            {prompts.length === 0 && (
+                <p className="px-3 py-2 text-xs text-stone-400 flex items-center gap-1.5">
+                    {loading && <Loader2 size={12} className="animate-spin" />}
+                    {loading ? '正在加载 MCP 提示词...' : '没有匹配的 MCP 提示词'}
+                </p>
+            )}
+            {prompts.map((prompt, index) => (
+                <button
+                    type="button"
+                    key={promptCommand(prompt)}
+                    role="option"
+                    aria-selected={index === selectedIndex}
+                    // Keep focus in the textarea
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => onSelect(prompt)}
+                    className={`w-full text-left px-3 py-1.5 ${index === selectedIndex ? 'bg-stone-100' : 'hover:bg-stone-50'}`}
+                >
+                    <span className="text-xs font-mono text-stone-700">{promptCommand(prompt)}</span>
+                    {(prompt.title || prompt.description) && (
+                        <p className="text-[10px] text-stone-400 truncate">{prompt.title || prompt.description}</p>
+                    )}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+interface PromptArgumentsFormProps {
+    prompt: MCPPromptInfo;
+    busy: boolean;
+    error: string | null;
+    onSubmit: (args: Record<string, string>) => void;
+    onCancel: () => void;
+}
+
+export function PromptArgumentsForm({ prompt, busy, error, onSubmit, onCancel }: PromptArgumentsFormProps) {
+    const [values, setValues] = useState<Record<string, string>>({});
+    const missing = prompt.arguments.some(a => a.required && !values[a.name]?.trim());
+
+    return (
+        <form
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (!missing) onSubmit(values);
+            }}
+            className="absolute bottom-full left-0 mb-2 w-[360px] max-w-full bg-white border border-stone-200 rounded-xl shadow-lg z-20 p-3 space-y-2"
+        >
+            <div>
+                <p className="text-xs font-mono text-stone-700">{promptCommand(prompt)}</p>
+                {prompt.description && <p className="text-[10px] text-stone-400">{prompt.description}</p>}
+            </div>
+            {prompt.arguments.map((arg, index) => (
+                <label key={arg.name} className="block space-y-0.5">
+                    <span className="text-[10px] text-stone-500">
+                        {arg.name}{arg.required && <span className="text-red-500"> *</span>}
+                        {arg.description && <span className="text-stone-400"> · {arg.description}</span>}
+                    </span>
+                    <input
+                        type="text"
+                        value={values[arg.name] || ''}
+                        onChange={(e) => setValues(prev => ({ ...prev, [arg.name]: e.target.value }))}
+                        autoFocus={index === 0}
+                        className="w-full px-2 py-1.5 text-xs border border-stone-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#E85D3E]/20"
+                    />
+                </label>
+            ))}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onCancel} className="px-2 py-1 text-xs text-stone-500 hover:bg-stone-100 rounded-lg">
+                    取消
+                </button>
+                <button type="submit" disabled={missing || busy} className="px-2 py-1 text-xs text-white bg-[#E85D3E] rounded-lg disabled:opacity-50">
+                    {busy ? '正在生成...' : '插入'}
+                </button>
+            </div>
+        </form>
+    );
+}
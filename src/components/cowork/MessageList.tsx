@@ -4,23 +4,37 @@
  */
 
 import { memo, useMemo, useRef, useEffect, useState, useCallback } from 'react';
-import { User, Bot, Copy, RotateCcw, Pencil, Trash2, Check, MoreHorizontal } from 'lucide-react';
+import { User, Bot, Copy, RotateCcw, Pencil, Trash2, Check, MoreHorizontal, Archive, ChevronDown, ChevronRight, Brain, History } from 'lucide-react';
 import { MarkdownRenderer } from '../MarkdownRenderer';
-import { CollapsibleToolBlock } from '../CollapsibleToolBlock';
-import { AgentMessage } from '../../../electron/types/ipc';
+import { CollapsibleToolBlock, SubAgentProgressView } from '../CollapsibleToolBlock';
+import { AgentMessage, CheckpointRestoreResult } from '../../../electron/types/ipc';
 
 export interface MessageListProps {
     messages: AgentMessage[];
     isDark?: boolean;
     streamingText?: string;
+    streamingThinking?: string;
     onDelete?: (id: string) => void;
     onRegenerate?: (id: string) => void;
+    onRevert?: (id: string) => Promise<CheckpointRestoreResult | null>;
 }
 
-export function MessageList({ messages, isDark = false, streamingText = '', onDelete, onRegenerate }: MessageListProps) {
+/**
+ * Untrusted tool output is wrapped in an envelope for the model; show the
+ * content itself, keeping an injection warning if there was one
+ */
+function unwrapUntrustedData(content: string): string {
+    const match = /^<untrusted_data [^>]*>\n[^\n]*\n(?:(WARNING:[^\n]*)\n)?([\s\S]*)\n<\/untrusted_data>$/.exec(content);
+    if (!match) return content;
+    return match[1] ? `⚠ ${match[1]}\n\n${match[2]}` : match[2];
+}
+
+export function MessageList({ messages, isDark = false, streamingText = '', streamingThinking = '', onDelete, onRegenerate, onRevert }: MessageListProps) {
     const scrollRef = useRef<HTMLDivElement>(null);
     const [toolStreamById, setToolStreamById] = useState<Record<string, string>>({});
     const [toolStatusById, setToolStatusById] = useState<Record<string, 'running' | 'done' | 'error'>>({});
+    const [subAgentById, setSubAgentById] = useState<Record<string, SubAgentProgressView>>({});
+    const [revertableIds, setRevertableIds] = useState<Set<string>>(new Set());
     const shouldStickToBottomRef = useRef(true);
 
     const toolResultById = useMemo(() => {
@@ -40,7 +54,7 @@ export function MessageList({ messages, isDark = false, streamingText = '', onDe
                         : b.content == null
                             ? ''
                             : String(b.content);
-                out[id] = content;
+                out[id] = unwrapUntrustedData(content);
             }
         }
         return out;
@@ -113,10 +127,22 @@ export function MessageList({ messages, isDark = false, streamingText = '', onDe
         return () => remove();
     }, []);
 
+    // Checkpoints are taken while the agent works, so re-check whenever the history changes
+    useEffect(() => {
+        let cancelled = false;
+        window.ipcRenderer.invoke('agent:get-revertable-messages')
+            .then((ids) => {
+                if (!cancelled) setRevertableIds(new Set(Array.isArray(ids) ? ids as string[] : []));
+            })
+            .catch(() => undefined);
+        return () => { cancelled = true; };
+    }, [messages]);
+
     useEffect(() => {
         const remove = window.ipcRenderer.on('session:loaded', () => {
             setToolStreamById({});
             setToolStatusById({});
+            setSubAgentById({});
         });
         return () => remove();
     }, []);
@@ -140,6 +166,39 @@ export function MessageList({ messages, isDark = false, streamingText = '', onDe
         };
     }, []);
 
+    useEffect(() => {
+        const remove = window.ipcRenderer.on('agent:subagent-progress', (_event, payload) => {
+            const p = payload as {
+                parentCallId?: string;
+                iteration?: number;
+                maxIterations?: number;
+                step?: SubAgentProgressView['steps'][number];
+                status?: SubAgentProgressView['status'];
+            } | undefined;
+            const id = String(p?.parentCallId || '');
+            if (!id) return;
+            setSubAgentById((prev) => {
+                const current = prev[id] || { iteration: 0, maxIterations: 0, steps: [] };
+                let steps = current.steps;
+                if (p?.step) {
+                    const step = p.step;
+                    const idx = steps.findIndex(s => s.callId === step.callId);
+                    steps = idx >= 0 ? steps.map((s, i) => (i === idx ? step : s)) : [...steps, step];
+                }
+                return {
+                    ...prev,
+                    [id]: {
+                        iteration: p?.iteration ?? current.iteration,
+                        maxIterations: p?.maxIterations ?? current.maxIterations,
+                        status: p?.status ?? current.status,
+                        steps
+                    }
+                };
+            });
+        });
+        return () => remove();
+    }, []);
+
     // 优化：使用 requestAnimationFrame 节流滚动，避免频繁滚动
     const rafRef = useRef<number | null>(null);
     useEffect(() => {
@@ -159,7 +218,7 @@ export function MessageList({ messages, isDark = false, streamingText = '', onDe
                 rafRef.current = null;
             }
         };
-    }, [visibleMessages, streamingText, toolStreamById, scrollToBottom]);
+    }, [visibleMessages, streamingText, streamingThinking, toolStreamById, scrollToBottom]);
 
     useEffect(() => {
         if (messages.length > 0) {
@@ -174,20 +233,28 @@ export function MessageList({ messages, isDark = false, streamingText = '', onDe
     return (
         <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar" onScroll={handleScroll}>
             <div className="max-w-4xl mx-auto py-8 px-6 space-y-8">
-                {visibleMessages.map((message, index) => (
-                    <MessageItem
-                        key={message.id || index}
-                        message={message}
-                        isDark={isDark}
-                        toolResultById={toolResultById}
-                        toolStreamById={toolStreamById}
-                        toolStatusById={toolStatusById}
-                        onDelete={onDelete}
-                        onRegenerate={onRegenerate}
-                    />
-                ))}
-                {streamingText && (
-                    <StreamingMessage text={streamingText} isDark={isDark} />
+                {visibleMessages.map((message, index) => {
+                    const summary = parseConversationSummary(message);
+                    if (summary) {
+                        return <ConversationSummary key={message.id || index} summary={summary} isDark={isDark} />;
+                    }
+                    return (
+                        <MessageItem
+                            key={message.id || index}
+                            message={message}
+                            isDark={isDark}
+                            toolResultById={toolResultById}
+                            toolStreamById={toolStreamById}
+                            toolStatusById={toolStatusById}
+                            subAgentById={subAgentById}
+                            onDelete={onDelete}
+                            onRegenerate={onRegenerate}
+                            onRevert={message.id && revertableIds.has(message.id) ? onRevert : undefined}
+                        />
+                    );
+                })}
+                {(streamingText || streamingThinking) && (
+                    <StreamingMessage text={streamingText} thinking={streamingThinking} isDark={isDark} />
                 )}
             </div>
         </div>
@@ -200,14 +267,16 @@ interface MessageItemProps {
     toolResultById: Record<string, string>;
     toolStreamById: Record<string, string>;
     toolStatusById: Record<string, 'running' | 'done' | 'error'>;
+    subAgentById: Record<string, SubAgentProgressView>;
     onDelete?: (id: string) => void;
     onRegenerate?: (id: string) => void;
+    onRevert?: (id: string) => Promise<CheckpointRestoreResult | null>;
 }
 
 // Custom comparison function for MessageItem
 const areMessageEqual = (prevProps: MessageItemProps, nextProps: MessageItemProps) => {
     // 1. Basic prop check
-    if (prevProps.message !== nextProps.message || prevProps.isDark !== nextProps.isDark) {
+    if (prevProps.message !== nextProps.message || prevProps.isDark !== nextProps.isDark || prevProps.onRevert !== nextProps.onRevert) {
         return false;
     }
 
@@ -216,7 +285,8 @@ const areMessageEqual = (prevProps: MessageItemProps, nextProps: MessageItemProp
     if (
         prevProps.toolResultById === nextProps.toolResultById &&
         prevProps.toolStreamById === nextProps.toolStreamById &&
-        prevProps.toolStatusById === nextProps.toolStatusById
+        prevProps.toolStatusById === nextProps.toolStatusById &&
+        prevProps.subAgentById === nextProps.subAgentById
     ) {
         return true;
     }
@@ -238,6 +308,7 @@ const areMessageEqual = (prevProps: MessageItemProps, nextProps: MessageItemProp
                 if (prevProps.toolResultById[id] !== nextProps.toolResultById[id]) return false;
                 if (prevProps.toolStreamById[id] !== nextProps.toolStreamById[id]) return false;
                 if (prevProps.toolStatusById[id] !== nextProps.toolStatusById[id]) return false;
+                if (prevProps.subAgentById[id] !== nextProps.subAgentById[id]) return false;
             }
         }
     }
@@ -246,7 +317,7 @@ const areMessageEqual = (prevProps: MessageItemProps, nextProps: MessageItemProp
     return true;
 };
 
-const MessageItem = memo(function MessageItem({ message, isDark, toolResultById, toolStreamById, toolStatusById, onDelete, onRegenerate }: MessageItemProps) {
+const MessageItem = memo(function MessageItem({ message, isDark, toolResultById, toolStreamById, toolStatusById, subAgentById, onDelete, onRegenerate, onRevert }: MessageItemProps) {
     const isUser = message.role === 'user';
     const [isCopied, setIsCopied] = useState(false);
 
@@ -313,6 +384,12 @@ const MessageItem = memo(function MessageItem({ message, isDark, toolResultById,
                                 );
                             }
 
+                            // Thinking Block
+                            if ('type' in block && block.type === 'thinking') {
+                                if (!block.thinking) return null;
+                                return <ThinkingSection key={`${message.id || 'msg'}-thinking-${index}`} text={block.thinking} isDark={isDark} />;
+                            }
+
                             // Image Block
                             if ('type' in block && block.type === 'image') {
                                 const source = (block.source && typeof block.source === 'object')
@@ -343,6 +420,7 @@ const MessageItem = memo(function MessageItem({ message, isDark, toolResultById,
                                                 toolStatusById[String(block.id || '')]
                                                 || (toolResultById[String(block.id || '')] ? 'done' : (toolStreamById[String(block.id || '')] ? 'running' : 'done'))
                                             }
+                                            subAgent={subAgentById[String(block.id || '')]}
                                         />
                                     </div>
                                 );
@@ -381,6 +459,30 @@ const MessageItem = memo(function MessageItem({ message, isDark, toolResultById,
                         </button>
                     )}
 
+                    {isUser && onRevert && message.id && (
+                        <button
+                            onClick={async () => {
+                                if (!message.id) return;
+                                if (!confirm('回退到此消息之前？\n\n此后 AI 修改过的文件将恢复为当时的内容，AI 新建的文件将被删除，此消息及之后的对话也会被移除。')) return;
+                                const result = await onRevert(message.id);
+                                const notes: string[] = [];
+                                if (result && result.failed.length > 0) {
+                                    notes.push(`有 ${result.failed.length} 个文件未能恢复：\n${result.failed.map(f => f.path).join('\n')}`);
+                                }
+                                if (result && result.kept.length > 0) {
+                                    notes.push(`以下 ${result.kept.length} 个新文件并非由 AI 直接写入，已保留：\n${result.kept.join('\n')}`);
+                                }
+                                if (notes.length > 0) {
+                                    alert(`已回退。\n\n${notes.join('\n\n')}`);
+                                }
+                            }}
+                            className="p-1.5 rounded-lg text-stone-400 hover:text-stone-600 hover:bg-stone-100 transition-colors"
+                            title="回退到此消息之前（恢复文件）"
+                        >
+                            <History size={14} />
+                        </button>
+                    )}
+
                     {isUser && (
                         <button
                             className="p-1.5 rounded-lg text-stone-400 hover:text-stone-600 hover:bg-stone-100 transition-colors"
@@ -418,6 +520,61 @@ const MessageItem = memo(function MessageItem({ message, isDark, toolResultById,
     );
 }, areMessageEqual);
 
+// Summary messages are inserted by context compaction in the main process
+const SUMMARY_PATTERN = /^<conversation_summary([^>]*)>\n?([\s\S]*?)\n?<\/conversation_summary>\s*$/;
+
+interface ConversationSummaryData {
+    text: string;
+    compactedCount: number;
+    createdAt?: number;
+}
+
+function parseConversationSummary(message: AgentMessage): ConversationSummaryData | null {
+    if (message.role !== 'user') return null;
+    const first = typeof message.content === 'string'
+        ? message.content
+        : (Array.isArray(message.content) ? message.content.find(b => b && b.type === 'text') : undefined);
+    const raw = typeof first === 'string' ? first : (first && 'text' in first ? first.text : '');
+    const match = raw ? SUMMARY_PATTERN.exec(raw) : null;
+    if (!match) return null;
+    const attrs = match[1];
+    const count = /messages="(\d+)"/.exec(attrs)?.[1];
+    const created = /created="(\d+)"/.exec(attrs)?.[1];
+    return {
+        text: match[2],
+        compactedCount: count ? Number(count) : 0,
+        createdAt: created ? Number(created) : undefined
+    };
+}
+
+const ConversationSummary = memo(function ConversationSummary({ summary, isDark }: { summary: ConversationSummaryData; isDark?: boolean }) {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <div className="border border-dashed border-stone-200 rounded-2xl bg-stone-50/60">
+            <button
+                type="button"
+                onClick={() => setExpanded(v => !v)}
+                aria-expanded={expanded}
+                className="w-full flex items-center gap-2 px-4 py-2.5 text-xs text-stone-500 hover:text-stone-700 transition-colors"
+            >
+                <Archive size={14} />
+                <span className="font-medium">对话摘要</span>
+                <span className="text-stone-400">
+                    已压缩 {summary.compactedCount} 条较早的消息
+                    {summary.createdAt ? ` · ${new Date(summary.createdAt).toLocaleString()}` : ''}
+                </span>
+                <span className="ml-auto">{expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}</span>
+            </button>
+            {expanded && (
+                <div className="px-4 pb-4 prose prose-sm max-w-none text-stone-600 prose-p:my-0 prose-p:leading-6">
+                    <MarkdownRenderer content={summary.text} isDark={isDark} />
+                </div>
+            )}
+        </div>
+    );
+});
+
 // Memoize EmptyState since it's static
 const EmptyState = memo(function EmptyState() {
     return (
@@ -433,12 +590,38 @@ const EmptyState = memo(function EmptyState() {
     );
 });
 
+const ThinkingSection = memo(function ThinkingSection({ text, isDark, streaming = false }: { text: string; isDark?: boolean; streaming?: boolean }) {
+    // Expanded while the model is still reasoning, collapsed once it is part of history
+    const [expanded, setExpanded] = useState(streaming);
+
+    return (
+        <div className="border-l-2 border-stone-200 pl-3 text-left">
+            <button
+                type="button"
+                onClick={() => setExpanded(v => !v)}
+                aria-expanded={expanded}
+                className="flex items-center gap-1.5 text-xs text-stone-400 hover:text-stone-600 transition-colors"
+            >
+                <Brain size={12} className={streaming ? 'animate-pulse' : ''} />
+                <span>{streaming ? '思考中...' : 'Thinking'}</span>
+                {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+            </button>
+            {expanded && (
+                <div className="mt-1.5 prose prose-sm max-w-none text-stone-500 prose-p:my-0 prose-p:leading-6">
+                    <MarkdownRenderer content={text} isDark={isDark} />
+                </div>
+            )}
+        </div>
+    );
+});
+
 interface StreamingMessageProps {
     text: string;
+    thinking?: string;
     isDark?: boolean;
 }
 
-const StreamingMessage = memo(function StreamingMessage({ text, isDark }: StreamingMessageProps) {
+const StreamingMessage = memo(function StreamingMessage({ text, thinking, isDark }: StreamingMessageProps) {
     const avatarClass = `flex-shrink-0 w-10 h-10 rounded-xl flex items-center justify-center bg-stone-100 text-stone-600 shadow-sm`;
     const contentWrapperClass = `bg-white text-stone-800 rounded-2xl rounded-tl-sm border border-stone-100 px-5 py-3.5 shadow-sm w-fit max-w-full`;
 
@@ -449,9 +632,16 @@ const StreamingMessage = memo(function StreamingMessage({ text, isDark }: Stream
             </div>
             <div className="flex-1">
                 <div className={contentWrapperClass}>
-                    <div className="prose prose-sm max-w-none text-stone-700">
-                        <MarkdownRenderer content={text} isDark={isDark} />
-                    </div>
+                    {thinking && (
+                        <div className={text ? 'mb-3' : ''}>
+                            <ThinkingSection text={thinking} isDark={isDark} streaming={!text} />
+                        </div>
+                    )}
+                    {text && (
+                        <div className="prose prose-sm max-w-none text-stone-700">
+                            <MarkdownRenderer content={text} isDark={isDark} />
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
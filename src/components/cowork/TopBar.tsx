@@ -1,9 +1,10 @@
 /**
  * Top Bar Component
- * Header with session title, settings access, and new session button
+ * Header with session title, token usage, settings access, and new session button
  */
 
-import { Settings, Plus, MoreVertical, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
+import { Settings, Plus, MoreVertical, PanelLeftClose, PanelLeftOpen, Coins } from 'lucide-react';
+import { formatCost, formatTokenCount, totalTokens, type UsageSummaryDTO } from '../../hooks/useUsage';
 
 export interface TopBarProps {
     title?: string;
@@ -11,6 +12,8 @@ export interface TopBarProps {
     onOpenSettings: () => void;
     sidebarCollapsed?: boolean;
     onToggleSidebar?: () => void;
+    usage?: UsageSummaryDTO | null;
+    onOpenUsage?: () => void;
 }
 
 export function TopBar({
@@ -18,7 +21,9 @@ export function TopBar({
     onNewSession,
     onOpenSettings,
     sidebarCollapsed = false,
-    onToggleSidebar
+    onToggleSidebar,
+    usage,
+    onOpenUsage
 }: TopBarProps) {
     return (
         <div className="h-16 border-b border-stone-200/60 flex items-center justify-between px-5 bg-white/80 backdrop-blur-sm">
@@ -42,6 +47,18 @@ export function TopBar({
 
             {/* Actions */}
             <div className="flex items-center gap-2">
+                {usage && usage.totals.requests > 0 && (
+                    <button
+                        onClick={onOpenUsage}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-stone-500 hover:text-stone-800 hover:bg-stone-100/80 rounded-xl transition-all font-mono"
+                        title={`本会话用量：输入 ${usage.totals.inputTokens} / 输出 ${usage.totals.outputTokens} / 缓存读取 ${usage.totals.cacheReadTokens} / 缓存写入 ${usage.totals.cacheWriteTokens}`}
+                    >
+                        <Coins size={14} />
+                        <span>{formatTokenCount(totalTokens(usage.totals))}</span>
+                        <span className="text-stone-300">·</span>
+                        <span>{formatCost(usage.totals.cost)}</span>
+                    </button>
+                )}
                 <button
                     onClick={onNewSession}
                     className="p-2.5 text-stone-500 hover:text-stone-800 hover:bg-stone-100/80 rounded-xl transition-all"
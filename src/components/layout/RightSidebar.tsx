@@ -1,6 +1,10 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { CheckCircle2, Circle, FileCode, ChevronDown, ChevronRight, Folder, Globe, Terminal, CheckSquare, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Ban, CheckCircle2, Circle, CircleDot, FileCode, FileDown, ChevronDown, ChevronRight, Folder, Globe, Link2Off, Terminal, CheckSquare, Plus, RefreshCw, Shuffle, Square, Trash2, X } from 'lucide-react';
 import { useConfig } from '../../hooks/useIPC';
+import type { ManagedProcessInfo, ProcessOutputChunk, ProcessOutputSlice, TodoItem, TodoList } from '../../../electron/types/ipc';
+
+// Characters of live process output kept in the panel
+const PROCESS_OUTPUT_VIEW_CHARS = 20000;
 
 export function RightSidebar() {
   const { config } = useConfig();
@@ -8,27 +12,33 @@ export function RightSidebar() {
     progress: true,
     artifacts: true,
     todos: true,
+    processes: true,
     context: true,
   });
 
   type StepStatus = 'running' | 'done' | 'error';
   type Step = { callId: string; name: string; status: StepStatus };
   type Artifact = { path: string; name: string; type: string; createdAt: number };
+  type Failover = { from: string; to: string; errorClass: string; at: number };
 
   const [stage, setStage] = useState<string>('IDLE');
   const [statusText, setStatusText] = useState<string>('');
   const [steps, setSteps] = useState<Step[]>([]);
+  const [failovers, setFailovers] = useState<Failover[]>([]);
   const [artifacts, setArtifacts] = useState<Artifact[]>([]);
   const [connectors, setConnectors] = useState<string[]>([]);
   const [workingFiles, setWorkingFiles] = useState<string[]>([]);
-  const [todoList, setTodoList] = useState<{ text: string; completed: boolean }[]>([]);
-  const [todoExists, setTodoExists] = useState<boolean>(false);
+  const [plan, setPlan] = useState<TodoList | null>(null);
   const [showAddTodo, setShowAddTodo] = useState(false);
   const [newTodoText, setNewTodoText] = useState('');
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [processes, setProcesses] = useState<ManagedProcessInfo[]>([]);
+  const [expandedProcess, setExpandedProcess] = useState<string | null>(null);
+  const [processOutput, setProcessOutput] = useState('');
 
   const prevStageRef = useRef<string>('IDLE');
   const progressListRef = useRef<HTMLDivElement>(null);
+  const processOutputRef = useRef<HTMLPreElement>(null);
 
   // Auto-scroll progress list
   useEffect(() => {
@@ -102,6 +112,7 @@ export function RightSidebar() {
         setConnectors([]);
         setWorkingFiles([]);
         setStatusText('');
+        setFailovers([]);
       }
     });
 
@@ -114,6 +125,17 @@ export function RightSidebar() {
       setStatusText(m);
     });
 
+    const removeFailover = window.ipcRenderer.on('agent:model-failover', (_event, payload) => {
+      const p = payload as { from?: string; to?: string; toDisplayName?: string; errorClass?: string } | undefined;
+      if (!p?.to) return;
+      setFailovers(prev => [...prev, {
+        from: String(p.from || ''),
+        to: String(p.toDisplayName || p.to),
+        errorClass: String(p.errorClass || ''),
+        at: Date.now()
+      }]);
+    });
+
     const removeToolCall = window.ipcRenderer.on('agent:tool-call', (_event, payload) => {
       const p = payload as { callId?: string; name?: string; input?: Record<string, unknown> } | undefined;
       const callId = String(p?.callId || '');
@@ -177,6 +199,7 @@ export function RightSidebar() {
       setWorkingFiles([]);
       setArtifacts([]);
       setStatusText('');
+      setFailovers([]);
       setStage('IDLE');
       prevStageRef.current = 'IDLE';
     });
@@ -185,6 +208,7 @@ export function RightSidebar() {
       removeStage();
       removeStatus();
       removeError();
+      removeFailover();
       removeToolCall();
       removeToolResult();
       removeArtifact();
@@ -192,40 +216,102 @@ export function RightSidebar() {
     };
   }, []);
 
-  // Load todo list on mount and when authorized folders change
+  // Load the session plan on mount
   useEffect(() => {
-    const loadTodoList = async () => {
+    const loadPlan = async () => {
       if (!window.ipcRenderer) return;
 
       try {
-        const result = await window.ipcRenderer.invoke('todo:list') as {
-          items: Array<{ text: string; completed: boolean }>;
-          sourcePath: string;
-          exists: boolean;
-        };
-        setTodoList(result.items);
-        setTodoExists(result.exists);
+        const result = await window.ipcRenderer.invoke('todo:list') as TodoList;
+        setPlan(result);
       } catch (error) {
         console.error('Failed to load todo list:', error);
       }
     };
 
-    loadTodoList();
-  }, [selectedFolders]);
+    loadPlan();
+  }, []);
 
-  // Listen for todo updates
+  // Listen for plan updates (agent edits, session switches, TODO.md sync)
   useEffect(() => {
     if (!window.ipcRenderer) return;
 
     const removeTodoUpdated = window.ipcRenderer.on('todo:updated', (_event, payload) => {
-      const p = payload as { items?: Array<{ text: string; completed: boolean }>; sourcePath?: string; exists?: boolean } | undefined;
-      setTodoList(p?.items || []);
-      setTodoExists(p?.exists || false);
+      const p = payload as TodoList | undefined;
+      setPlan(p?.items ? p : null);
     });
 
     return () => { removeTodoUpdated(); };
   }, []);
 
+  // Background processes of the current session
+  useEffect(() => {
+    if (!window.ipcRenderer) return;
+
+    window.ipcRenderer.invoke('process:list')
+      .then((result) => setProcesses(Array.isArray(result) ? result as ManagedProcessInfo[] : []))
+      .catch((error) => console.error('Failed to load processes:', error));
+
+    const removeProcessesUpdated = window.ipcRenderer.on('process:updated', (_event, payload) => {
+      setProcesses(Array.isArray(payload) ? payload as ManagedProcessInfo[] : []);
+    });
+
+    return () => { removeProcessesUpdated(); };
+  }, []);
+
+  // Live output of the expanded process
+  useEffect(() => {
+    if (!window.ipcRenderer || !expandedProcess) return;
+
+    let cancelled = false;
+    setProcessOutput('');
+    window.ipcRenderer.invoke('process:read-output', expandedProcess).then((res) => {
+      const r = res as { success?: boolean; data?: ProcessOutputSlice } | undefined;
+      if (!cancelled && r?.success && r.data) {
+        setProcessOutput(r.data.output.slice(-PROCESS_OUTPUT_VIEW_CHARS));
+      }
+    }).catch((error) => console.error('Failed to read process output:', error));
+
+    const removeOutput = window.ipcRenderer.on('process:output', (_event, payload) => {
+      const chunk = payload as ProcessOutputChunk;
+      if (chunk?.id === expandedProcess) {
+        setProcessOutput((prev) => (prev + chunk.chunk).slice(-PROCESS_OUTPUT_VIEW_CHARS));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      removeOutput();
+    };
+  }, [expandedProcess]);
+
+  // Follow the output while it grows
+  useEffect(() => {
+    if (processOutputRef.current) {
+      processOutputRef.current.scrollTop = processOutputRef.current.scrollHeight;
+    }
+  }, [processOutput]);
+
+  const handleStopProcess = async (id: string) => {
+    try {
+      const res = await window.ipcRenderer.invoke('process:stop', id) as { success?: boolean; error?: string } | undefined;
+      if (res && res.success === false) {
+        alert(res.error || '停止进程失败');
+      }
+    } catch (error) {
+      console.error('Failed to stop process:', error);
+    }
+  };
+
+  const handleRemoveProcess = async (id: string) => {
+    try {
+      await window.ipcRenderer.invoke('process:remove', id);
+      if (expandedProcess === id) setExpandedProcess(null);
+    } catch (error) {
+      console.error('Failed to remove process:', error);
+    }
+  };
+
   const openPath = async (p: string) => {
     if (!window.ipcRenderer) {
       console.warn('Cannot open path in browser environment');
@@ -240,19 +326,19 @@ export function RightSidebar() {
   };
 
   // Todo interaction functions
-  const handleToggleTodo = async (index: number) => {
+  const handleToggleTodo = async (id: string) => {
     if (!window.ipcRenderer) return;
     try {
-      await window.ipcRenderer.invoke('todo:toggle', index);
+      await window.ipcRenderer.invoke('todo:toggle', id);
     } catch (error) {
       console.error('Failed to toggle todo:', error);
     }
   };
 
-  const handleDeleteTodo = async (index: number) => {
+  const handleDeleteTodo = async (id: string) => {
     if (!window.ipcRenderer) return;
     try {
-      await window.ipcRenderer.invoke('todo:delete', index);
+      await window.ipcRenderer.invoke('todo:delete', id);
     } catch (error) {
       console.error('Failed to delete todo:', error);
     }
@@ -288,6 +374,65 @@ export function RightSidebar() {
     }
   };
 
+  const handleToggleExport = async () => {
+    try {
+      const res = await window.ipcRenderer.invoke(plan?.exportPath ? 'todo:unlink-export' : 'todo:export') as { success?: boolean; error?: string } | undefined;
+      if (res && res.success === false) {
+        alert(res.error || '导出失败');
+      }
+    } catch (error) {
+      console.error('Failed to toggle TODO.md export:', error);
+    }
+  };
+
+  const planProgress = plan?.progress;
+  const planPercent = planProgress && planProgress.total > 0 ? Math.round((planProgress.done / planProgress.total) * 100) : 0;
+
+  const renderPlanItems = (items: TodoItem[], depth: number): JSX.Element[] => items.flatMap((item) => [
+    <div
+      key={item.id}
+      className="group flex items-start gap-2 p-2 rounded-lg hover:bg-white/50 transition-colors"
+      style={{ paddingLeft: 8 + depth * 16 }}
+    >
+      <button
+        onClick={() => void handleToggleTodo(item.id)}
+        className="shrink-0 mt-0.5 hover:scale-110 transition-transform"
+        title={item.status === 'done' ? '标记为未完成' : '标记为已完成'}
+        type="button"
+      >
+        {item.status === 'done' ? (
+          <CheckCircle2 size={16} className="text-emerald-500" />
+        ) : item.status === 'in_progress' ? (
+          <CircleDot size={16} className="text-blue-500" />
+        ) : item.status === 'blocked' ? (
+          <Ban size={16} className="text-amber-500" />
+        ) : (
+          <Circle size={16} className="text-stone-300 hover:text-stone-400" />
+        )}
+      </button>
+      <div className="flex-1 min-w-0">
+        <span
+          className={`text-sm leading-relaxed break-words ${item.status === 'done' ? 'text-stone-400 line-through' : 'text-stone-700'
+            }`}
+        >
+          {item.title}
+        </span>
+        {item.note && (
+          <p className="text-[11px] text-stone-400 leading-snug break-words">{item.note}</p>
+        )}
+      </div>
+      <button
+        onClick={() => void handleDeleteTodo(item.id)}
+        className="opacity-0 group-hover:opacity-100 shrink-0 p-1 hover:bg-stone-200/50 rounded transition-all"
+        title="删除任务"
+        type="button"
+      >
+        <Trash2 size={12} className="text-stone-400 hover:text-red-500" />
+      </button>
+    </div>,
+    ...renderPlanItems(item.children, depth + 1)
+  ]);
+
   const stageText = useMemo(() => {
     if (stage === 'THINKING') return '思考中';
     if (stage === 'PLANNING') return '规划中';
@@ -381,6 +526,14 @@ export function RightSidebar() {
                 ) : (
                   <p className="text-xs text-stone-500 leading-relaxed">步骤会随着任务展开而出现。</p>
                 )}
+                {failovers.map(f => (
+                  <div key={f.at} className="flex items-start gap-2 text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-2.5 py-2">
+                    <Shuffle size={12} className="mt-0.5 shrink-0" />
+                    <span className="leading-relaxed">
+                      {f.from} 请求失败（{f.errorClass}），已切换到 <span className="font-medium">{f.to}</span>
+                    </span>
+                  </div>
+                ))}
                 {statusText ? (
                   <p className="text-xs text-stone-500 whitespace-pre-wrap leading-relaxed">{statusText}</p>
                 ) : null}
@@ -434,9 +587,9 @@ export function RightSidebar() {
             <div className="flex items-center justify-between mb-3">
               <div className="flex items-center gap-2">
                 <span className="text-xs text-stone-500">任务</span>
-                {todoList.length > 0 && (
+                {planProgress && planProgress.total > 0 && (
                   <span className="bg-stone-200/60 px-2 py-0.5 rounded-lg text-[10px] font-medium">
-                    {todoList.filter(t => t.completed).length}/{todoList.length}
+                    {planProgress.done}/{planProgress.total}
                   </span>
                 )}
               </div>
@@ -457,7 +610,19 @@ export function RightSidebar() {
                 >
                   <RefreshCw size={14} className="text-stone-500" />
                 </button>
-                {todoList.some(t => t.completed) && (
+                <button
+                  onClick={() => void handleToggleExport()}
+                  className="p-1.5 hover:bg-white/50 rounded-lg transition-colors"
+                  title={plan?.exportPath ? '停止同步到 TODO.md' : '同步到 TODO.md'}
+                  type="button"
+                >
+                  {plan?.exportPath ? (
+                    <Link2Off size={14} className="text-stone-500" />
+                  ) : (
+                    <FileDown size={14} className="text-stone-500" />
+                  )}
+                </button>
+                {planProgress && planProgress.done > 0 && (
                   <button
                     onClick={() => void handleClearCompleted()}
                     className="p-1.5 hover:bg-white/50 rounded-lg transition-colors"
@@ -499,56 +664,113 @@ export function RightSidebar() {
               </div>
             )}
 
-            {!todoExists ? (
-              <div className="text-center py-6">
-                <CheckSquare size={32} className="text-stone-300 mx-auto mb-2" />
-                <p className="text-xs text-stone-500 leading-relaxed">
-                  在授权文件夹中创建 TODO.md 文件以显示任务列表
-                </p>
+            {planProgress && planProgress.total > 0 && (
+              <div className="mb-3">
+                <div className="h-1.5 bg-stone-200/60 rounded-full overflow-hidden">
+                  <div className="h-full bg-emerald-500 transition-all" style={{ width: `${planPercent}%` }} />
+                </div>
+                <div className="flex items-center gap-2 mt-1.5 text-[10px] text-stone-500">
+                  <span>{planPercent}%</span>
+                  {planProgress.inProgress > 0 && <span className="text-blue-500">进行中 {planProgress.inProgress}</span>}
+                  {planProgress.blocked > 0 && <span className="text-amber-600">受阻 {planProgress.blocked}</span>}
+                </div>
               </div>
-            ) : todoList.length === 0 ? (
+            )}
+
+            {!plan || plan.items.length === 0 ? (
               <div className="text-center py-6">
                 <CheckSquare size={32} className="text-stone-300 mx-auto mb-2" />
                 <p className="text-xs text-stone-500 leading-relaxed">
-                  TODO.md 文件为空或没有找到任务项
+                  当前会话暂无任务计划
                 </p>
                 <p className="text-xs text-stone-400 mt-1">点击上方 + 添加任务</p>
               </div>
             ) : (
-              <div className="space-y-1.5 max-h-[240px] overflow-y-auto custom-scrollbar pr-2">
-                {todoList.map((todo, index) => (
-                  <div
-                    key={index}
-                    className="group flex items-start gap-2 p-2 rounded-lg hover:bg-white/50 transition-colors"
-                  >
-                    <button
-                      onClick={() => void handleToggleTodo(index)}
-                      className="shrink-0 mt-0.5 hover:scale-110 transition-transform"
-                      type="button"
-                    >
-                      {todo.completed ? (
-                        <CheckCircle2 size={16} className="text-emerald-500" />
+              <div className="space-y-1 max-h-[240px] overflow-y-auto custom-scrollbar pr-2">
+                {renderPlanItems(plan.items, 0)}
+              </div>
+            )}
+
+            {plan?.exportPath && (
+              <button
+                type="button"
+                onClick={() => void openPath(plan.exportPath!)}
+                className="mt-2 text-[10px] text-stone-400 hover:text-stone-600 truncate w-full text-left"
+                title={plan.exportPath}
+              >
+                已同步到 {plan.exportPath}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Background Processes Section */}
+      <div className="border-b border-stone-200/50">
+        <SectionHeader
+          title="后台进程"
+          isOpen={sections.processes}
+          onToggle={() => toggleSection('processes')}
+        />
+        {sections.processes && (
+          <div className="px-5 pb-4">
+            {processes.length > 0 ? (
+              <div className="space-y-2">
+                {processes.map((p) => (
+                  <div key={p.id} className="bg-white/80 backdrop-blur-sm rounded-xl border border-stone-200/60 shadow-sm overflow-hidden">
+                    <div className="group flex items-center gap-2 p-2.5">
+                      <button
+                        type="button"
+                        onClick={() => setExpandedProcess(expandedProcess === p.id ? null : p.id)}
+                        className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                        title={`${p.command}\n${p.cwd}`}
+                      >
+                        <span
+                          className={`w-2 h-2 rounded-full shrink-0 ${p.status === 'running'
+                            ? 'bg-emerald-500 animate-pulse'
+                            : p.status === 'failed' ? 'bg-red-500' : 'bg-stone-300'
+                            }`}
+                        />
+                        <span className="text-sm text-stone-700 truncate">{p.name}</span>
+                        <span className="text-[10px] text-stone-400 shrink-0">
+                          {p.status === 'running'
+                            ? `PID ${p.pid ?? '-'}`
+                            : p.status === 'stopped' ? '已停止' : `退出码 ${p.exitCode ?? '-'}`}
+                        </span>
+                      </button>
+                      {p.endedAt === null ? (
+                        <button
+                          type="button"
+                          onClick={() => void handleStopProcess(p.id)}
+                          className="shrink-0 p-1 hover:bg-stone-200/50 rounded transition-all"
+                          title="停止进程"
+                        >
+                          <Square size={12} className="text-stone-400 hover:text-red-500" />
+                        </button>
                       ) : (
-                        <Circle size={16} className="text-stone-300 hover:text-stone-400" />
+                        <button
+                          type="button"
+                          onClick={() => void handleRemoveProcess(p.id)}
+                          className="opacity-0 group-hover:opacity-100 shrink-0 p-1 hover:bg-stone-200/50 rounded transition-all"
+                          title="移除"
+                        >
+                          <X size={12} className="text-stone-400" />
+                        </button>
                       )}
-                    </button>
-                    <span
-                      className={`text-sm leading-relaxed break-words flex-1 ${todo.completed ? 'text-stone-400 line-through' : 'text-stone-700'
-                        }`}
-                    >
-                      {todo.text}
-                    </span>
-                    <button
-                      onClick={() => void handleDeleteTodo(index)}
-                      className="opacity-0 group-hover:opacity-100 shrink-0 p-1 hover:bg-stone-200/50 rounded transition-all"
-                      title="删除任务"
-                      type="button"
-                    >
-                      <Trash2 size={12} className="text-stone-400 hover:text-red-500" />
-                    </button>
+                    </div>
+                    {expandedProcess === p.id && (
+                      <pre
+                        ref={processOutputRef}
+                        className="text-[10px] leading-snug font-mono text-stone-100 bg-stone-800 px-3 py-2 max-h-[200px] overflow-auto custom-scrollbar whitespace-pre-wrap break-all"
+                      >
+                        {processOutput || '（暂无输出）'}
+                      </pre>
+                    )}
                   </div>
                 ))}
               </div>
+            ) : (
+              <p className="text-xs text-stone-500 leading-relaxed">暂无后台进程（start_process 启动的进程会出现在这里）。</p>
             )}
           </div>
         )}
@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Download, RefreshCw, Search } from 'lucide-react';
+
+type AuditEventType =
+    | 'permission_prompt'
+    | 'permission_decision'
+    | 'rule_decision'
+    | 'rule_saved'
+    | 'confirmation_rejected'
+    | 'command_blocked'
+    | 'path_authorization'
+    | 'mcp_tool_call';
+
+interface AuditRecord {
+    id: number;
+    ts: number;
+    sessionId: string | null;
+    type: AuditEventType;
+    tool: string | null;
+    argsHash: string | null;
+    outcome: string;
+    ruleId: string | null;
+    subject: string | null;
+    detail: string | null;
+}
+
+interface AuditLogFilter {
+    sessionId?: string;
+    types?: AuditEventType[];
+    outcome?: string;
+    since?: number;
+    search?: string;
+    limit?: number;
+    offset?: number;
+}
+
+type RangeId = 'session' | 'day' | 'week' | 'all';
+
+const RANGES: { id: RangeId; label: string }[] = [
+    { id: 'session', label: '当前会话' },
+    { id: 'day', label: '近 24 小时' },
+    { id: 'week', label: '近 7 天' },
+    { id: 'all', label: '全部' },
+];
+
+const TYPE_LABELS: Record<AuditEventType, string> = {
+    permission_prompt: '权限请求',
+    permission_decision: '用户决定',
+    rule_decision: '规则决定',
+    rule_saved: '保存规则',
+    confirmation_rejected: '确认校验失败',
+    command_blocked: '命令拦截',
+    path_authorization: '目录授权',
+    mcp_tool_call: 'MCP 调用',
+};
+
+const OUTCOME_STYLES: Record<string, string> = {
+    allowed: 'text-green-700 bg-green-50',
+    approved: 'text-green-700 bg-green-50',
+    authorized: 'text-green-700 bg-green-50',
+    granted: 'text-green-700 bg-green-50',
+    success: 'text-green-700 bg-green-50',
+    prompted: 'text-blue-600 bg-blue-50',
+    ask: 'text-blue-600 bg-blue-50',
+    denied: 'text-red-600 bg-red-50',
+    blocked: 'text-red-600 bg-red-50',
+    error: 'text-red-600 bg-red-50',
+};
+
+const PAGE_SIZE = 100;
+const HOUR_MS = 60 * 60 * 1000;
+
+function rangeToFilter(range: RangeId, now: number): AuditLogFilter {
+    if (range === 'session') return { sessionId: 'current' };
+    if (range === 'day') return { since: now - 24 * HOUR_MS };
+    if (range === 'week') return { since: now - 7 * 24 * HOUR_MS };
+    return {};
+}
+
+/**
+ * Security audit log: what the agent asked for, what was decided and by whom
+ */
+export function AuditLogSettings() {
+    const [range, setRange] = useState<RangeId>('session');
+    const [type, setType] = useState<AuditEventType | ''>('');
+    const [search, setSearch] = useState('');
+    const [records, setRecords] = useState<AuditRecord[]>([]);
+    const [total, setTotal] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+    // Anchor the time window when the filters change, so paging stays on the same records
+    const filter = useMemo<AuditLogFilter>(() => ({
+        ...rangeToFilter(range, Date.now()),
+        types: type ? [type] : undefined,
+        search: search.trim() || undefined,
+    }), [range, type, search]);
+
+    const load = useCallback(async (offset: number) => {
+        setLoading(true);
+        try {
+            const page = await window.ipcRenderer.invoke('audit:query', { ...filter, limit: PAGE_SIZE, offset }) as { records: AuditRecord[]; total: number };
+            setRecords(prev => offset === 0 ? page.records : [...prev, ...page.records]);
+            setTotal(page.total);
+            setMessage(null);
+        } catch (error) {
+            setMessage({ text: error instanceof Error ? error.message : String(error), error: true });
+        } finally {
+            setLoading(false);
+        }
+    }, [filter]);
+
+    useEffect(() => {
+        const timer = setTimeout(() => { void load(0); }, 200);
+        return () => clearTimeout(timer);
+    }, [load]);
+
+    const exportLog = async (format: 'csv' | 'json') => {
+        const result = await window.ipcRenderer.invoke('audit:export', { format, filter }) as { success: boolean; canceled?: boolean; count?: number; error?: string };
+        if (result.success) {
+            setMessage({ text: `已导出 ${result.count ?? 0} 条记录` });
+        } else if (!result.canceled) {
+            setMessage({ text: `导出失败：${result.error}`, error: true });
+        }
+    };
+
+    return (
+        <div className="space-y-4 animate-fade-in">
+            <p className="text-xs text-stone-400">
+                记录每次权限请求与决定、规则自动放行或拒绝、被拦截的命令、目录授权以及 MCP 工具调用。参数只保存 SHA-256 摘要。
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <div className="flex gap-1 bg-stone-100 p-1 rounded-xl" role="radiogroup" aria-label="时间范围">
+                    {RANGES.map(r => (
+                        <button
+                            type="button"
+                            key={r.id}
+                            role="radio"
+                            aria-checked={range === r.id}
+                            onClick={() => setRange(r.id)}
+                            className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-all ${range === r.id ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
+                        >
+                            {r.label}
+                        </button>
+                    ))}
+                </div>
+                <select
+                    value={type}
+                    onChange={(e) => setType(e.target.value as AuditEventType | '')}
+                    aria-label="事件类型"
+                    className="px-2 py-1.5 text-xs bg-white border border-stone-200 rounded-lg"
+                >
+                    <option value="">全部类型</option>
+                    {(Object.keys(TYPE_LABELS) as AuditEventType[]).map(t => (
+                        <option key={t} value={t}>{TYPE_LABELS[t]}</option>
+                    ))}
+                </select>
+                <label className="flex-1 min-w-[140px] flex items-center gap-1.5 px-2 py-1.5 bg-white border border-stone-200 rounded-lg">
+                    <Search size={12} className="text-stone-400" />
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="搜索路径、命令或说明"
+                        aria-label="搜索审计日志"
+                        className="flex-1 text-xs bg-transparent focus:outline-none"
+                    />
+                </label>
+                <button
+                    type="button"
+                    onClick={() => { void load(0); }}
+                    aria-label="刷新审计日志"
+                    className="p-2 text-stone-400 hover:text-stone-600 hover:bg-stone-100 rounded-lg transition-all"
+                >
+                    <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+                </button>
+            </div>
+
+            <div className="flex items-center justify-between">
+                <span className="text-xs text-stone-500">共 {total} 条</span>
+                <div className="flex gap-2">
+                    {(['csv', 'json'] as const).map(format => (
+                        <button
+                            type="button"
+                            key={format}
+                            onClick={() => { void exportLog(format); }}
+                            className="flex items-center gap-1 px-2 py-1 text-xs text-stone-600 bg-white border border-stone-200 rounded-lg hover:bg-stone-50"
+                        >
+                            <Download size={12} />
+                            导出 {format.toUpperCase()}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {message && (
+                <div className={`p-2 text-xs rounded-lg ${message.error ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-700'}`}>{message.text}</div>
+            )}
+
+            {records.length === 0 ? (
+                <p className="text-xs text-stone-400 p-3 bg-white border border-stone-200 rounded-lg">暂无审计记录</p>
+            ) : (
+                <div className="bg-white border border-stone-200 rounded-xl divide-y divide-stone-100">
+                    {records.map(record => (
+                        <div key={record.id} className="px-4 py-2.5 text-xs space-y-1">
+                            <div className="flex items-center gap-2">
+                                <span className={`px-1.5 py-0.5 rounded ${OUTCOME_STYLES[record.outcome] || 'text-stone-500 bg-stone-100'}`}>
+                                    {record.outcome}
+                                </span>
+                                <span className="font-medium text-stone-700">{TYPE_LABELS[record.type] || record.type}</span>
+                                {record.tool && <span className="font-mono text-stone-500 truncate">{record.tool}</span>}
+                                <span className="ml-auto text-stone-400 shrink-0">{new Date(record.ts).toLocaleString()}</span>
+                            </div>
+                            {record.subject && (
+                                <p className="font-mono text-stone-600 truncate" title={record.subject}>{record.subject}</p>
+                            )}
+                            <p className="text-stone-400 truncate" title={[record.detail, record.argsHash].filter(Boolean).join('\n')}>
+                                {[
+                                    record.detail,
+                                    record.ruleId && `规则 ${record.ruleId}`,
+                                    record.argsHash && `参数 ${record.argsHash.slice(0, 12)}`,
+                                ].filter(Boolean).join(' · ')}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {records.length < total && (
+                <button
+                    type="button"
+                    onClick={() => { void load(records.length); }}
+                    disabled={loading}
+                    className="w-full py-2 text-xs text-stone-500 bg-white border border-stone-200 rounded-lg hover:bg-stone-50 disabled:opacity-50"
+                >
+                    加载更多
+                </button>
+            )}
+        </div>
+    );
+}
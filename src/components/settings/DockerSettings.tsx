@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Box, RefreshCw, ShieldAlert, Square } from 'lucide-react';
+
+export type ExecutionMode = 'host' | 'docker';
+
+export interface DockerExecutionConfig {
+    image: string;
+    cpus: number;
+    memoryMb: number;
+    network: 'follow' | 'none' | 'bridge';
+}
+
+interface SessionContainerInfo {
+    sessionId: string;
+    name: string;
+    image: string;
+    state: 'starting' | 'running' | 'stopped' | 'error';
+    error?: string;
+    network: 'none' | 'bridge';
+    cpus: number;
+    memoryMb: number;
+    mounts: { hostPath: string; containerPath: string; readOnly: boolean }[];
+    startedAt: number | null;
+    lastHealthCheck: number | null;
+}
+
+interface ContainerStatus {
+    enabled: boolean;
+    docker: { available: boolean; version?: string; error?: string };
+    containers: SessionContainerInfo[];
+}
+
+const NETWORKS: { id: DockerExecutionConfig['network']; label: string }[] = [
+    { id: 'follow', label: '跟随网络访问' },
+    { id: 'none', label: '断开' },
+    { id: 'bridge', label: '允许' },
+];
+
+const STATE_LABELS: Record<SessionContainerInfo['state'], { label: string; className: string }> = {
+    starting: { label: '启动中', className: 'text-blue-600 bg-blue-50' },
+    running: { label: '运行中', className: 'text-green-700 bg-green-50' },
+    stopped: { label: '已停止', className: 'text-stone-500 bg-stone-100' },
+    error: { label: '异常', className: 'text-red-600 bg-red-50' },
+};
+
+interface DockerSettingsProps {
+    mode: ExecutionMode;
+    value: DockerExecutionConfig;
+    onModeChange: (mode: ExecutionMode) => void;
+    onChange: (value: DockerExecutionConfig) => void;
+}
+
+/**
+ * Docker execution mode options (saved with the rest of the settings) plus
+ * Docker availability and the live per-session containers
+ */
+export function DockerSettings({ mode, value, onModeChange, onChange }: DockerSettingsProps) {
+    const [status, setStatus] = useState<ContainerStatus | null>(null);
+    const [checking, setChecking] = useState(false);
+
+    const checkStatus = useCallback(async (refresh: boolean) => {
+        setChecking(true);
+        try {
+            const next = await window.ipcRenderer.invoke('container:status', refresh);
+            setStatus(next as ContainerStatus);
+        } finally {
+            setChecking(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        checkStatus(false);
+        const remove = window.ipcRenderer.on('container:updated', (_event, payload) => {
+            const containers = payload as SessionContainerInfo[];
+            setStatus(prev => prev ? { ...prev, containers } : prev);
+        });
+        return () => remove();
+    }, [checkStatus]);
+
+    const stopContainer = async (sessionId: string) => {
+        await window.ipcRenderer.invoke('container:stop', sessionId);
+        checkStatus(false);
+    };
+
+    const setNumber = (key: 'cpus' | 'memoryMb', raw: string) => {
+        const parsed = Number(raw);
+        if (Number.isFinite(parsed) && parsed > 0) {
+            onChange({ ...value, [key]: parsed });
+        }
+    };
+
+    const enabled = mode === 'docker';
+
+    return (
+        <div className="p-3 bg-white border border-stone-200 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <p className="text-sm font-medium text-stone-700">Docker 执行模式</p>
+                    <p className="text-xs text-stone-400">命令与技能脚本在每个会话独立的容器中执行，仅挂载授权目录</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => onModeChange(enabled ? 'host' : 'docker')}
+                    role="switch"
+                    aria-checked={enabled}
+                    aria-label="Docker 执行模式"
+                    className={`w-10 h-6 rounded-full transition-colors ${enabled ? 'bg-orange-500' : 'bg-stone-200'} focus:outline-none focus-visible:ring-2 focus-visible:ring-orange-500/30 focus-visible:ring-offset-2 focus-visible:ring-offset-white`}
+                >
+                    <div className={`w-4 h-4 rounded-full bg-white shadow transition-transform mx-1 ${enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+                <label className="col-span-3 text-xs text-stone-500">
+                    镜像
+                    <input
+                        type="text"
+                        value={value.image}
+                        onChange={(e) => onChange({ ...value, image: e.target.value })}
+                        placeholder="python:3.11-slim"
+                        className="mt-1 w-full px-2 py-1.5 text-sm bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500"
+                    />
+                </label>
+                <label className="text-xs text-stone-500">
+                    CPU 核数
+                    <input
+                        type="number"
+                        min={0.5}
+                        step={0.5}
+                        value={value.cpus}
+                        onChange={(e) => setNumber('cpus', e.target.value)}
+                        className="mt-1 w-full px-2 py-1.5 text-sm bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500"
+                    />
+                </label>
+                <label className="text-xs text-stone-500">
+                    内存 (MB)
+                    <input
+                        type="number"
+                        min={256}
+                        step={256}
+                        value={value.memoryMb}
+                        onChange={(e) => setNumber('memoryMb', e.target.value)}
+                        className="mt-1 w-full px-2 py-1.5 text-sm bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500"
+                    />
+                </label>
+                <div className="text-xs text-stone-500">
+                    网络
+                    <div className="mt-1 flex gap-1 bg-stone-100 p-1 rounded-lg" role="radiogroup" aria-label="容器网络">
+                        {NETWORKS.map(n => (
+                            <button
+                                type="button"
+                                key={n.id}
+                                role="radio"
+                                aria-checked={value.network === n.id}
+                                title={n.label}
+                                onClick={() => onChange({ ...value, network: n.id })}
+                                className={`flex-1 px-1 py-0.5 text-xs rounded-md truncate transition-colors ${value.network === n.id ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
+                            >
+                                {n.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-stone-400">镜像与资源设置在下次启动容器时生效</p>
+                <button
+                    type="button"
+                    onClick={() => checkStatus(true)}
+                    disabled={checking}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-stone-500 hover:text-stone-700 hover:bg-stone-50 rounded disabled:opacity-50"
+                >
+                    <RefreshCw size={12} className={checking ? 'animate-spin' : ''} />
+                    重新检测
+                </button>
+            </div>
+
+            {status && (
+                status.docker.available ? (
+                    <div className="flex items-start gap-2 p-2 text-xs text-green-700 bg-green-50 rounded-lg">
+                        <Box size={14} className="shrink-0 mt-0.5" />
+                        <span>Docker 可用{status.docker.version ? `（${status.docker.version}）` : ''}</span>
+                    </div>
+                ) : (
+                    <div className="flex items-start gap-2 p-2 text-xs text-amber-700 bg-amber-50 rounded-lg">
+                        <ShieldAlert size={14} className="shrink-0 mt-0.5" />
+                        <span>Docker 不可用：{status.docker.error}</span>
+                    </div>
+                )
+            )}
+
+            {status && status.containers.length > 0 && (
+                <div className="space-y-1.5">
+                    {status.containers.map(c => (
+                        <div key={c.sessionId} className="flex items-center gap-2 p-2 text-xs border border-stone-100 rounded-lg">
+                            <span className={`px-1.5 py-0.5 rounded ${STATE_LABELS[c.state].className}`}>
+                                {STATE_LABELS[c.state].label}
+                            </span>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-mono text-stone-700 truncate" title={c.name}>{c.name}</p>
+                                <p className="text-stone-400 truncate" title={c.error || c.image}>
+                                    {c.error || `${c.image} · ${c.cpus} CPU · ${c.memoryMb} MB · 网络${c.network === 'none' ? '断开' : '允许'} · ${c.mounts.length} 个挂载`}
+                                </p>
+                            </div>
+                            {c.state !== 'stopped' && (
+                                <button
+                                    type="button"
+                                    onClick={() => stopContainer(c.sessionId)}
+                                    title="停止容器"
+                                    aria-label="停止容器"
+                                    className="p-1 text-stone-400 hover:text-red-500 hover:bg-red-50 rounded"
+                                >
+                                    <Square size={12} />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Copy, Eye, EyeOff, KeyRound, Radio } from 'lucide-react';
+import type { MCPServerExposureConfig, MCPServerExposureStatus } from '../../../electron/types/ipc';
+
+type UpdateResult = { success: boolean; data?: MCPServerExposureStatus; error?: string };
+
+function clientSnippets(status: MCPServerExposureStatus): { id: string; label: string; text: string }[] {
+    const { url, config, stdioCommand } = status;
+    return [
+        {
+            id: 'http',
+            label: 'HTTP',
+            text: JSON.stringify({
+                mcpServers: {
+                    bingowork: {
+                        type: 'http',
+                        url: url || `http://127.0.0.1:${config.port}/mcp`,
+                        headers: { Authorization: `Bearer ${config.token}` },
+                    },
+                },
+            }, null, 2),
+        },
+        {
+            id: 'stdio',
+            label: 'stdio',
+            text: JSON.stringify({ mcpServers: { bingowork: stdioCommand } }, null, 2),
+        },
+    ];
+}
+
+/**
+ * Bingowork's own MCP server: lets IDEs and CLI agents use the selected tools
+ * and the skills; every tool call still asks for confirmation unless a
+ * permission rule allows it
+ */
+export function MCPServerSettings() {
+    const [status, setStatus] = useState<MCPServerExposureStatus | null>(null);
+    const [port, setPort] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [showToken, setShowToken] = useState(false);
+    const [copied, setCopied] = useState<string | null>(null);
+
+    const applyStatus = (next: MCPServerExposureStatus) => {
+        setStatus(next);
+        setPort(String(next.config.port));
+    };
+
+    useEffect(() => {
+        window.ipcRenderer.invoke('mcp:server-status').then(next => applyStatus(next as MCPServerExposureStatus));
+    }, []);
+
+    const run = useCallback(async (channel: string, ...args: unknown[]) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const result = await window.ipcRenderer.invoke(channel, ...args) as UpdateResult;
+            if (result.success && result.data) {
+                applyStatus(result.data);
+                if (result.data.error) setError(result.data.error);
+            } else {
+                setError(result.error || '保存失败');
+            }
+        } finally {
+            setBusy(false);
+        }
+    }, []);
+
+    const update = (patch: Partial<MCPServerExposureConfig>) => run('mcp:server-update', patch);
+
+    const copy = async (id: string, text: string) => {
+        await navigator.clipboard.writeText(text);
+        setCopied(id);
+        setTimeout(() => setCopied(current => current === id ? null : current), 1500);
+    };
+
+    if (!status) return null;
+    const { config } = status;
+
+    const toggleTool = (name: string) => update({
+        tools: config.tools.includes(name) ? config.tools.filter(t => t !== name) : [...config.tools, name],
+    });
+
+    return (
+        <div className="p-3 bg-white border border-stone-200 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <p className="text-sm font-medium text-stone-700">作为 MCP 服务器</p>
+                    <p className="text-xs text-stone-400">让 IDE、命令行 Agent 等 MCP 客户端使用 Bingowork 的记忆、定时任务和技能（仅限本机）</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => update({ enabled: !config.enabled })}
+                    disabled={busy}
+                    role="switch"
+                    aria-checked={config.enabled}
+                    aria-label="作为 MCP 服务器"
+                    className={`w-10 h-6 rounded-full transition-colors ${config.enabled ? 'bg-orange-500' : 'bg-stone-200'} focus:outline-none focus-visible:ring-2 focus-visible:ring-orange-500/30 focus-visible:ring-offset-2 focus-visible:ring-offset-white disabled:opacity-50`}
+                >
+                    <div className={`w-4 h-4 rounded-full bg-white shadow transition-transform mx-1 ${config.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                </button>
+            </div>
+
+            {status.running && (
+                <div className="flex items-center gap-2 p-2 text-xs text-green-700 bg-green-50 rounded-lg">
+                    <Radio size={14} className="shrink-0" />
+                    <span className="font-mono truncate">{status.url}</span>
+                    <span className="ml-auto shrink-0">{status.sessions} 个客户端会话</span>
+                </div>
+            )}
+            {error && <p className="p-2 text-xs text-red-600 bg-red-50 rounded-lg">{error}</p>}
+
+            <div className="flex items-center gap-2">
+                <label htmlFor="mcp-server-port" className="text-xs text-stone-500 w-16">端口</label>
+                <input
+                    id="mcp-server-port"
+                    type="number"
+                    min={0}
+                    max={65535}
+                    value={port}
+                    onChange={(e) => setPort(e.target.value)}
+                    onBlur={() => { if (Number(port) !== config.port) update({ port: Number(port) }); }}
+                    className="w-28 px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                />
+                <span className="text-[10px] text-stone-400">0 表示自动选择空闲端口</span>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <span className="text-xs text-stone-500 w-16">访问令牌</span>
+                <code className="flex-1 min-w-0 px-2 py-1 text-xs font-mono bg-stone-50 border border-stone-200 rounded-md truncate">
+                    {config.token ? (showToken ? config.token : '•'.repeat(24)) : '首次启动时生成'}
+                </code>
+                <button type="button" onClick={() => setShowToken(!showToken)} aria-label={showToken ? '隐藏令牌' : '显示令牌'} className="p-1 text-stone-400 hover:text-stone-600 rounded">
+                    {showToken ? <EyeOff size={14} /> : <Eye size={14} />}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => run('mcp:server-regenerate-token')}
+                    disabled={busy}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-stone-500 hover:text-stone-700 hover:bg-stone-50 rounded disabled:opacity-50"
+                >
+                    <KeyRound size={12} />
+                    重新生成
+                </button>
+            </div>
+
+            <div className="space-y-1">
+                <p className="text-xs text-stone-500">开放的工具（调用前仍按权限规则确认）</p>
+                {status.exposableTools.map(tool => (
+                    <label key={tool.name} className="flex items-start gap-2 text-xs text-stone-600" title={tool.description}>
+                        <input
+                            type="checkbox"
+                            checked={config.tools.includes(tool.name)}
+                            onChange={() => toggleTool(tool.name)}
+                            disabled={busy}
+                            className="accent-orange-500 mt-0.5"
+                        />
+                        <span className="font-mono">{tool.name}</span>
+                        {tool.description && <span className="text-stone-400 truncate">{tool.description}</span>}
+                    </label>
+                ))}
+                <label className="flex items-center gap-2 pt-1 text-xs text-stone-600">
+                    <input
+                        type="checkbox"
+                        checked={config.exposeSkills}
+                        onChange={() => update({ exposeSkills: !config.exposeSkills })}
+                        disabled={busy}
+                        className="accent-orange-500"
+                    />
+                    将技能作为 MCP 提示词开放
+                </label>
+            </div>
+
+            {config.enabled && (
+                <div className="space-y-2">
+                    <p className="text-xs text-stone-500">客户端配置</p>
+                    {clientSnippets(status).map(snippet => (
+                        <div key={snippet.id} className="relative">
+                            <span className="absolute top-1.5 left-2 text-[10px] text-stone-400">{snippet.label}</span>
+                            <button
+                                type="button"
+                                onClick={() => copy(snippet.id, snippet.text)}
+                                aria-label={`复制 ${snippet.label} 配置`}
+                                className="absolute top-1 right-1 p-1 text-stone-400 hover:text-stone-200 rounded"
+                            >
+                                {copied === snippet.id ? <Check size={12} /> : <Copy size={12} />}
+                            </button>
+                            <pre className="max-h-40 overflow-auto bg-stone-900 text-stone-200 rounded-lg p-2 pt-5 font-mono text-[10px] leading-4">
+                                {showToken || !config.token ? snippet.text : snippet.text.replace(config.token, '<token>')}
+                            </pre>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
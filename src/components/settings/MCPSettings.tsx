@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
-import { Server, Plus, Trash2, Edit2, Check, X, Terminal, Globe } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Server, Plus, Trash2, Edit2, Check, X, Terminal, Globe, RefreshCw, ScrollText } from 'lucide-react';
+import type { MCPLogEntry, MCPServerState, MCPServerStatus } from '../../../electron/types/ipc';
 
 /**
  * MCP Server Configuration Types
@@ -14,10 +15,21 @@ interface MCPServerConfig {
     args?: string[];
     url?: string;
     env?: Record<string, string>;
+    timeoutMs?: number;
     createdAt?: number;
     updatedAt?: number;
 }
 
+const STATE_BADGES: Record<MCPServerState, { label: string; className: string }> = {
+    connecting: { label: '连接中', className: 'bg-blue-50 text-blue-600' },
+    ready: { label: '已连接', className: 'bg-emerald-50 text-emerald-600' },
+    degraded: { label: '异常', className: 'bg-amber-50 text-amber-600' },
+    failed: { label: '连接失败', className: 'bg-red-50 text-red-600' },
+    stopped: { label: '未连接', className: 'bg-stone-100 text-stone-500' },
+};
+
+const LOG_POLL_MS = 2000;
+
 interface EditingServer {
     server: MCPServerConfig;
     isNew: boolean;
@@ -33,12 +45,35 @@ export function MCPSettings() {
     const [editingServer, setEditingServer] = useState<EditingServer | null>(null);
     const [saved, setSaved] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [statuses, setStatuses] = useState<Record<string, MCPServerStatus>>({});
 
     // Load servers on mount
     useEffect(() => {
         loadServers();
     }, []);
 
+    // Connection state, kept live by status events
+    useEffect(() => {
+        window.ipcRenderer.invoke('mcp:get-status')
+            .then((result) => {
+                const list = (result as { data?: MCPServerStatus[] }).data || [];
+                setStatuses(Object.fromEntries(list.map(s => [s.id, s])));
+            })
+            .catch(() => undefined);
+        const remove = window.ipcRenderer.on('mcp:status-changed', (_event, payload) => {
+            const status = payload as MCPServerStatus;
+            setStatuses(prev => ({ ...prev, [status.id]: status }));
+        });
+        return () => remove();
+    }, []);
+
+    const handleReconnect = async (id: string) => {
+        const result = await window.ipcRenderer.invoke('mcp:reconnect', id) as { success: boolean; error?: string };
+        if (!result.success) {
+            setError(`重连失败: ${result.error || '未知错误'}`);
+        }
+    };
+
     const loadServers = async () => {
         setLoading(true);
         setError(null);
@@ -207,6 +242,8 @@ export function MCPSettings() {
                         <ServerCard
                             key={server.id}
                             server={server}
+                            status={statuses[server.id]}
+                            onReconnect={handleReconnect}
                             onEdit={handleEditServer}
                             onDelete={handleDeleteServer}
                             onToggle={handleToggleServer}
@@ -220,12 +257,28 @@ export function MCPSettings() {
 
 interface ServerCardProps {
     server: MCPServerConfig;
+    status?: MCPServerStatus;
+    onReconnect: (id: string) => Promise<void>;
     onEdit: (server: MCPServerConfig) => void;
     onDelete: (id: string, name: string) => void;
     onToggle: (id: string, enabled: boolean) => void;
 }
 
-function ServerCard({ server, onEdit, onDelete, onToggle }: ServerCardProps) {
+function ServerCard({ server, status, onReconnect, onEdit, onDelete, onToggle }: ServerCardProps) {
+    const [showLogs, setShowLogs] = useState(false);
+    const [reconnecting, setReconnecting] = useState(false);
+    const badge = STATE_BADGES[status?.state || 'stopped'];
+    const canReconnect = server.enabled && status?.state !== 'connecting' && status?.state !== 'ready';
+
+    const reconnect = async () => {
+        setReconnecting(true);
+        try {
+            await onReconnect(server.id);
+        } finally {
+            setReconnecting(false);
+        }
+    };
+
     return (
         <div className={`p-4 bg-white border rounded-xl transition-all ${server.enabled ? 'border-stone-200' : 'border-stone-200 opacity-60'}`}>
             <div className="flex items-start justify-between">
@@ -236,10 +289,18 @@ function ServerCard({ server, onEdit, onDelete, onToggle }: ServerCardProps) {
                     <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
                             <h3 className="text-sm font-medium text-stone-800">{server.name}</h3>
-                            {!server.enabled && (
+                            {!server.enabled ? (
                                 <span className="text-[10px] px-1.5 py-0.5 bg-stone-100 text-stone-500 rounded-full font-medium">
                                     已禁用
                                 </span>
+                            ) : (
+                                <span
+                                    className={`text-[10px] px-1.5 py-0.5 rounded-full font-medium ${badge.className}`}
+                                    title={status?.lastError}
+                                >
+                                    {badge.label}
+                                    {status?.state === 'degraded' && status.nextRetryAt ? `（第 ${status.attempts} 次重连）` : ''}
+                                </span>
                             )}
                         </div>
                         <p className="text-xs text-stone-400 font-mono mt-0.5">{server.id}</p>
@@ -257,9 +318,31 @@ function ServerCard({ server, onEdit, onDelete, onToggle }: ServerCardProps) {
                                 </code>
                             )}
                         </div>
+                        {server.enabled && status?.lastError && status.state !== 'ready' && (
+                            <p className="text-[10px] text-red-500 mt-1 line-clamp-2">{status.lastError}</p>
+                        )}
                     </div>
                 </div>
                 <div className="flex items-center gap-1 shrink-0 ml-2">
+                    {canReconnect && (
+                        <button
+                            type="button"
+                            onClick={reconnect}
+                            disabled={reconnecting}
+                            className="p-2 text-stone-400 hover:text-orange-500 hover:bg-orange-50 rounded-lg transition-colors disabled:opacity-50"
+                            title="重新连接"
+                        >
+                            <RefreshCw size={16} className={reconnecting ? 'animate-spin' : ''} />
+                        </button>
+                    )}
+                    <button
+                        type="button"
+                        onClick={() => setShowLogs(v => !v)}
+                        className={`p-2 rounded-lg transition-colors ${showLogs ? 'text-stone-700 bg-stone-100' : 'text-stone-400 hover:text-stone-600 hover:bg-stone-100'}`}
+                        title="日志"
+                    >
+                        <ScrollText size={16} />
+                    </button>
                     <button
                         type="button"
                         onClick={() => onToggle(server.id, !server.enabled)}
@@ -286,6 +369,60 @@ function ServerCard({ server, onEdit, onDelete, onToggle }: ServerCardProps) {
                     </button>
                 </div>
             </div>
+            {showLogs && <ServerLogViewer serverId={server.id} />}
+        </div>
+    );
+}
+
+/**
+ * Stderr and connection events of one server, polled while open
+ */
+function ServerLogViewer({ serverId }: { serverId: string }) {
+    const [entries, setEntries] = useState<MCPLogEntry[]>([]);
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            const result = await window.ipcRenderer.invoke('mcp:get-logs', serverId) as { data?: MCPLogEntry[] };
+            if (!cancelled) setEntries(result.data || []);
+        };
+        void load();
+        const timer = setInterval(() => { void load(); }, LOG_POLL_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(timer);
+        };
+    }, [serverId]);
+
+    useEffect(() => {
+        const el = scrollRef.current;
+        if (el) el.scrollTop = el.scrollHeight;
+    }, [entries]);
+
+    const clear = async () => {
+        await window.ipcRenderer.invoke('mcp:clear-logs', serverId);
+        setEntries([]);
+    };
+
+    return (
+        <div className="mt-3 border-t border-stone-100 pt-3">
+            <div className="flex items-center justify-between mb-1.5">
+                <span className="text-[10px] text-stone-400">最近 {entries.length} 行（stderr 与连接事件）</span>
+                <button type="button" onClick={clear} className="text-[10px] text-stone-400 hover:text-stone-600">
+                    清空
+                </button>
+            </div>
+            <div ref={scrollRef} className="max-h-48 overflow-y-auto bg-stone-900 rounded-lg p-2 font-mono text-[10px] leading-4">
+                {entries.length === 0 ? (
+                    <p className="text-stone-500">暂无日志</p>
+                ) : entries.map((entry, index) => (
+                    <div key={index} className={entry.stream === 'event' ? 'text-amber-300' : 'text-stone-200'}>
+                        <span className="text-stone-500">{new Date(entry.ts).toLocaleTimeString()} </span>
+                        <span className="whitespace-pre-wrap break-all">{entry.line}</span>
+                    </div>
+                ))}
+            </div>
         </div>
     );
 }
@@ -496,6 +633,21 @@ function ServerEditor({ server, isNew, onSave, onCancel, error, existingIds }: S
                 </div>
             )}
 
+            <div>
+                <label className="block text-xs font-medium text-stone-600 mb-1">
+                    请求超时（秒）
+                </label>
+                <input
+                    type="number"
+                    min={1}
+                    value={formData.timeoutMs ? formData.timeoutMs / 1000 : ''}
+                    onChange={(e) => updateField('timeoutMs', e.target.value ? Math.max(1, Number(e.target.value)) * 1000 : undefined)}
+                    className="w-full px-3 py-2 text-sm border border-stone-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500"
+                    placeholder="60"
+                />
+                <p className="text-xs text-stone-400 mt-1">单次调用超过此时间视为失败，连续失败会触发重连</p>
+            </div>
+
             <div className="flex items-center justify-between p-3 bg-stone-50 rounded-lg">
                 <div>
                     <p className="text-sm font-medium text-stone-700">启用服务器</p>
@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Edit2, FileSearch, X } from 'lucide-react';
+import type { MemoryExtractionConfig, MemoryExtractionStatus, MemoryProposal } from '../../../electron/types/ipc';
+
+type Result<T> = { success: boolean; data?: T; error?: string };
+type ExtractionStatus = MemoryExtractionStatus & { config: MemoryExtractionConfig };
+
+const parseTags = (text: string) => text.split(/[,，]/).map(t => t.trim()).filter(Boolean);
+const folderName = (folder: string) => folder.split(/[\\/]/).filter(Boolean).pop() || folder;
+
+/**
+ * Review inbox for facts extracted from finished conversations, and the
+ * settings of the background extraction pass
+ */
+export function MemoryInboxSettings() {
+    const [status, setStatus] = useState<ExtractionStatus | null>(null);
+    const [draft, setDraft] = useState<MemoryExtractionConfig | null>(null);
+    const [proposals, setProposals] = useState<MemoryProposal[]>([]);
+    const [editing, setEditing] = useState<{ id: number; content: string; tags: string } | null>(null);
+    const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+    const load = useCallback(async () => {
+        const [list, state] = await Promise.all([
+            window.ipcRenderer.invoke('memory:proposals') as Promise<Result<MemoryProposal[]>>,
+            window.ipcRenderer.invoke('memory:extraction-status') as Promise<Result<ExtractionStatus>>,
+        ]);
+        if (list.success && list.data) setProposals(list.data);
+        const next = state.data;
+        if (state.success && next) {
+            setStatus(next);
+            setDraft(prev => prev ?? next.config);
+        }
+    }, []);
+
+    useEffect(() => { void load(); }, [load]);
+    useEffect(() => window.ipcRenderer.on('memory:proposals-changed', () => { void load(); }), [load]);
+
+    const run = async <T,>(channel: string, ...args: unknown[]): Promise<Result<T>> => {
+        const result = await window.ipcRenderer.invoke(channel, ...args) as Result<T>;
+        if (!result.success) setMessage({ text: result.error || '操作失败', error: true });
+        return result;
+    };
+
+    const updateConfig = async (patch: Partial<MemoryExtractionConfig>) => {
+        const result = await run<ExtractionStatus>('memory:extraction-update', patch);
+        if (result.success && result.data) {
+            setStatus(result.data);
+            setDraft(result.data.config);
+        }
+    };
+
+    const accept = async (ids: number[]) => {
+        const edits = editing && ids.includes(editing.id)
+            ? { [editing.id]: { content: editing.content, tags: parseTags(editing.tags) } }
+            : undefined;
+        const result = await run<{ accepted: number }>('memory:proposals-accept', { ids, edits });
+        if (result.success) {
+            setEditing(null);
+            setMessage({ text: `已保存 ${result.data?.accepted ?? 0} 条记忆` });
+        }
+    };
+
+    const reject = async (ids: number[]) => {
+        await run<{ rejected: number }>('memory:proposals-reject', ids);
+        if (editing && ids.includes(editing.id)) setEditing(null);
+    };
+
+    const extractNow = async () => {
+        setMessage(null);
+        const result = await run<{ proposed: number }>('memory:extract-session');
+        if (result.success) {
+            setMessage({ text: result.data?.proposed ? `新增 ${result.data.proposed} 条待审核记忆` : '没有发现新的可记忆内容' });
+        }
+    };
+
+    if (!status || !draft) return null;
+    const reading = status.running.length > 0;
+
+    return (
+        <div className="p-3 bg-white border border-stone-200 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <p className="text-sm font-medium text-stone-700">自动提取</p>
+                    <p className="text-xs text-stone-400">会话空闲或切换后，用模型从对话中提取偏好、项目约定等长期信息，经你确认后保存</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => { void updateConfig({ enabled: !status.config.enabled }); }}
+                    role="switch"
+                    aria-checked={status.config.enabled}
+                    aria-label="自动提取记忆"
+                    className={`w-10 h-6 rounded-full transition-colors ${status.config.enabled ? 'bg-orange-500' : 'bg-stone-200'} focus:outline-none focus-visible:ring-2 focus-visible:ring-orange-500/30 focus-visible:ring-offset-2 focus-visible:ring-offset-white`}
+                >
+                    <div className={`w-4 h-4 rounded-full bg-white shadow transition-transform mx-1 ${status.config.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <label htmlFor="memory-extraction-model" className="text-xs text-stone-500">模型</label>
+                <input
+                    id="memory-extraction-model"
+                    value={draft.model}
+                    onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                    onBlur={() => { if (draft.model !== status.config.model) void updateConfig({ model: draft.model }); }}
+                    placeholder="与对话模型相同"
+                    className="w-48 px-2 py-1 text-xs font-mono bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                />
+                <label htmlFor="memory-extraction-idle" className="text-xs text-stone-500">空闲</label>
+                <input
+                    id="memory-extraction-idle"
+                    type="number"
+                    min={1}
+                    max={240}
+                    value={draft.idleMinutes}
+                    onChange={(e) => setDraft({ ...draft, idleMinutes: Number(e.target.value) })}
+                    onBlur={() => { if (draft.idleMinutes !== status.config.idleMinutes) void updateConfig({ idleMinutes: draft.idleMinutes }); }}
+                    className="w-16 px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                />
+                <span className="text-xs text-stone-400">分钟后提取</span>
+                <button
+                    type="button"
+                    onClick={() => { void extractNow(); }}
+                    disabled={reading}
+                    className="ml-auto flex items-center gap-1 px-2 py-1 text-xs text-stone-600 bg-white border border-stone-200 rounded-md hover:bg-stone-50 disabled:opacity-50"
+                >
+                    <FileSearch size={12} className={reading ? 'animate-pulse' : ''} />
+                    {reading ? '读取中…' : '读取当前会话'}
+                </button>
+            </div>
+
+            {status.lastError && <p className="p-2 text-xs text-red-600 bg-red-50 rounded-lg">上次提取失败：{status.lastError}</p>}
+            {message && (
+                <p className={`p-2 text-xs rounded-lg ${message.error ? 'text-red-600 bg-red-50' : 'text-stone-600 bg-stone-50'}`}>{message.text}</p>
+            )}
+
+            {proposals.length > 0 && (
+                <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs font-medium text-stone-600">待审核 {proposals.length} 条</span>
+                        <button
+                            type="button"
+                            onClick={() => { void accept(proposals.map(p => p.id)); }}
+                            className="ml-auto px-2 py-1 text-xs text-orange-600 hover:bg-orange-50 rounded"
+                        >
+                            全部接受
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => { void reject(proposals.map(p => p.id)); }}
+                            className="px-2 py-1 text-xs text-stone-500 hover:bg-stone-100 rounded"
+                        >
+                            全部拒绝
+                        </button>
+                    </div>
+
+                    {proposals.map(proposal => (
+                        <div key={proposal.id} className="p-2 border border-stone-100 rounded-lg space-y-1.5">
+                            {editing?.id === proposal.id ? (
+                                <>
+                                    <textarea
+                                        value={editing.content}
+                                        onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                                        rows={2}
+                                        aria-label="记忆内容"
+                                        className="w-full px-2 py-1 text-sm bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                                    />
+                                    <input
+                                        value={editing.tags}
+                                        onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                                        placeholder="标签，用逗号分隔"
+                                        aria-label="记忆标签"
+                                        className="w-full px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                                    />
+                                </>
+                            ) : (
+                                <p className="text-sm text-stone-700 whitespace-pre-wrap break-words">{proposal.content}</p>
+                            )}
+                            {proposal.mergeTarget && (
+                                <p className="text-xs text-stone-500">
+                                    将更新记忆 #{proposal.mergeTarget.id}：<span className="line-through">{proposal.mergeTarget.content}</span>
+                                </p>
+                            )}
+                            <div className="flex flex-wrap items-center gap-1">
+                                <span
+                                    title={proposal.scopeKey || undefined}
+                                    className={`px-1.5 py-0.5 text-[10px] rounded ${proposal.scope === 'project' ? 'text-blue-600 bg-blue-50' : 'text-stone-500 bg-stone-100'}`}
+                                >
+                                    {proposal.scope === 'project' ? `项目 ${folderName(proposal.scopeKey || '')}` : '全局'}
+                                </span>
+                                {proposal.tags.map(t => (
+                                    <span key={t} className="px-1.5 py-0.5 text-[10px] text-stone-500 bg-stone-100 rounded">{t}</span>
+                                ))}
+                                <span className="text-[10px] text-stone-400 truncate max-w-[200px]" title={proposal.source.sessionId}>
+                                    来自「{proposal.sessionTitle ?? '已删除的会话'}」
+                                </span>
+                                <div className="ml-auto flex items-center gap-1">
+                                    <button
+                                        type="button"
+                                        onClick={() => { void accept([proposal.id]); }}
+                                        title="接受"
+                                        className="p-1 text-stone-400 hover:text-green-600 hover:bg-green-50 rounded"
+                                    >
+                                        <Check size={14} />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => setEditing(editing?.id === proposal.id ? null : { id: proposal.id, content: proposal.content, tags: proposal.tags.join(', ') })}
+                                        title="编辑后接受"
+                                        className="p-1 text-stone-400 hover:text-stone-600 hover:bg-stone-100 rounded"
+                                    >
+                                        <Edit2 size={14} />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => { void reject([proposal.id]); }}
+                                        title="拒绝"
+                                        className="p-1 text-stone-400 hover:text-red-500 hover:bg-red-50 rounded"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import type { MemoryIndexStatus, MemoryRetrievalConfig } from '../../../electron/types/ipc';
+
+interface RetrievalStatus {
+    config: MemoryRetrievalConfig;
+    hasApiKey: boolean;
+    index: MemoryIndexStatus;
+}
+
+type StatusResult = { success: boolean; data?: RetrievalStatus; error?: string };
+
+const inputClass = 'flex-1 min-w-0 px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20';
+
+/**
+ * Semantic memory search: the embedding backend and how many relevant
+ * memories are added to the system prompt for each message
+ */
+export function MemoryRetrievalSettings() {
+    const [status, setStatus] = useState<RetrievalStatus | null>(null);
+    const [draft, setDraft] = useState<MemoryRetrievalConfig | null>(null);
+    const [apiKey, setApiKey] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const applyStatus = (next: RetrievalStatus) => {
+        setStatus(next);
+        setDraft(next.config);
+    };
+
+    const run = useCallback(async (channel: string, ...args: unknown[]) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const result = await window.ipcRenderer.invoke(channel, ...args) as StatusResult;
+            if (result.success && result.data) {
+                applyStatus(result.data);
+            } else {
+                setError(result.error || '保存失败');
+            }
+        } finally {
+            setBusy(false);
+        }
+    }, []);
+
+    useEffect(() => { void run('memory:retrieval-status'); }, [run]);
+
+    // Indexing runs in the background; poll until it settles
+    useEffect(() => {
+        if (!status?.index.indexing) return;
+        const timer = setTimeout(() => {
+            window.ipcRenderer.invoke('memory:retrieval-status').then(result => {
+                const next = result as StatusResult;
+                if (next.success && next.data) setStatus(next.data);
+            });
+        }, 2000);
+        return () => clearTimeout(timer);
+    }, [status]);
+
+    if (!status || !draft) return null;
+    const { config, index } = status;
+
+    const update = (patch: Partial<MemoryRetrievalConfig> & { apiKey?: string }) => run('memory:retrieval-update', patch);
+    const saveField = <K extends keyof MemoryRetrievalConfig>(key: K) => {
+        if (draft[key] !== config[key]) void update({ [key]: draft[key] });
+    };
+
+    return (
+        <div className="p-3 bg-white border border-stone-200 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <p className="text-sm font-medium text-stone-700">语义检索</p>
+                    <p className="text-xs text-stone-400">按含义而非关键词查找记忆，并在每次发送消息时自动附上最相关的几条</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => update({ enabled: !config.enabled })}
+                    disabled={busy}
+                    role="switch"
+                    aria-checked={config.enabled}
+                    aria-label="语义检索"
+                    className={`w-10 h-6 rounded-full transition-colors ${config.enabled ? 'bg-orange-500' : 'bg-stone-200'} focus:outline-none focus-visible:ring-2 focus-visible:ring-orange-500/30 focus-visible:ring-offset-2 focus-visible:ring-offset-white disabled:opacity-50`}
+                >
+                    <div className={`w-4 h-4 rounded-full bg-white shadow transition-transform mx-1 ${config.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                </button>
+            </div>
+
+            {error && <p className="p-2 text-xs text-red-600 bg-red-50 rounded-lg">{error}</p>}
+
+            {config.enabled && (
+                <>
+                    <div className="flex gap-1 bg-stone-100 p-1 rounded-xl w-fit" role="radiogroup" aria-label="向量模型来源">
+                        {([['local', '本地模型'], ['api', 'OpenAI 兼容接口']] as const).map(([id, label]) => (
+                            <button
+                                type="button"
+                                key={id}
+                                role="radio"
+                                aria-checked={config.backend === id}
+                                onClick={() => update({ backend: id })}
+                                disabled={busy}
+                                className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-all ${config.backend === id ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {config.backend === 'local' ? (
+                        <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                                <label htmlFor="memory-local-model" className="text-xs text-stone-500 w-16">模型</label>
+                                <input
+                                    id="memory-local-model"
+                                    value={draft.localModel}
+                                    onChange={(e) => setDraft({ ...draft, localModel: e.target.value })}
+                                    onBlur={() => saveField('localModel')}
+                                    className={`${inputClass} font-mono`}
+                                />
+                            </div>
+                            <p className="text-[10px] text-stone-400 pl-[72px]">首次使用时下载到 ~/.bingowork/models（约 120 MB），之后完全离线运行</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            <div className="flex items-center gap-2">
+                                <label htmlFor="memory-api-url" className="text-xs text-stone-500 w-16">接口地址</label>
+                                <input
+                                    id="memory-api-url"
+                                    value={draft.apiUrl}
+                                    onChange={(e) => setDraft({ ...draft, apiUrl: e.target.value })}
+                                    onBlur={() => saveField('apiUrl')}
+                                    placeholder="https://api.openai.com/v1"
+                                    className={`${inputClass} font-mono`}
+                                />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <label htmlFor="memory-api-model" className="text-xs text-stone-500 w-16">模型</label>
+                                <input
+                                    id="memory-api-model"
+                                    value={draft.apiModel}
+                                    onChange={(e) => setDraft({ ...draft, apiModel: e.target.value })}
+                                    onBlur={() => saveField('apiModel')}
+                                    className={`${inputClass} font-mono`}
+                                />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <label htmlFor="memory-api-key" className="text-xs text-stone-500 w-16">API Key</label>
+                                <input
+                                    id="memory-api-key"
+                                    type="password"
+                                    value={apiKey}
+                                    onChange={(e) => setApiKey(e.target.value)}
+                                    placeholder={status.hasApiKey ? '已保存，输入新值以替换' : '本地服务可留空'}
+                                    className={inputClass}
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => { void update({ apiKey }).then(() => setApiKey('')); }}
+                                    disabled={busy || (!apiKey && !status.hasApiKey)}
+                                    className="px-2 py-1 text-xs text-stone-600 bg-white border border-stone-200 rounded-md hover:bg-stone-50 disabled:opacity-50"
+                                >
+                                    {apiKey || !status.hasApiKey ? '保存' : '清除'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex items-center gap-2">
+                        <label htmlFor="memory-top-k" className="text-xs text-stone-500 w-16">自动附带</label>
+                        <input
+                            id="memory-top-k"
+                            type="number"
+                            min={1}
+                            max={20}
+                            value={draft.topK}
+                            onChange={(e) => setDraft({ ...draft, topK: Number(e.target.value) })}
+                            onBlur={() => saveField('topK')}
+                            className="w-16 px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                        />
+                        <span className="text-xs text-stone-400">条，最多</span>
+                        <input
+                            type="number"
+                            min={100}
+                            max={8000}
+                            step={100}
+                            value={draft.tokenBudget}
+                            onChange={(e) => setDraft({ ...draft, tokenBudget: Number(e.target.value) })}
+                            onBlur={() => saveField('tokenBudget')}
+                            aria-label="记忆 token 预算"
+                            className="w-20 px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                        />
+                        <span className="text-xs text-stone-400">tokens</span>
+                    </div>
+
+                    <div className="flex items-center gap-2 text-xs">
+                        <span className={index.error ? 'text-red-600' : 'text-stone-500'}>
+                            {index.error
+                                ? `向量索引失败，暂用关键词检索：${index.error}`
+                                : `已索引 ${index.indexed} / ${index.total} 条${index.indexing ? '，索引中…' : ''}`}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={() => { void run('memory:rebuild-index'); }}
+                            disabled={busy || index.indexing}
+                            className="ml-auto flex items-center gap-1 px-2 py-1 text-xs text-stone-500 hover:text-stone-700 hover:bg-stone-50 rounded disabled:opacity-50"
+                        >
+                            <RefreshCw size={12} className={busy || index.indexing ? 'animate-spin' : ''} />
+                            重建索引
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,527 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Check, Download, Edit2, Pin, PinOff, Plus, RefreshCw, Search, Tags, Trash2, Upload, X } from 'lucide-react';
+import type {
+    Memory,
+    MemoryContext,
+    MemoryExportFormat,
+    MemoryImportResult,
+    MemoryListFilter,
+    MemoryScope,
+} from '../../../electron/types/ipc';
+
+type Result<T> = { success: boolean; data?: T; error?: string; canceled?: boolean };
+type ScopeContext = MemoryContext & { projects: string[] };
+
+const PAGE_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCOPE_FILTERS: { id: NonNullable<MemoryListFilter['scope']> | ''; label: string }[] = [
+    { id: '', label: '全部范围' },
+    { id: 'current', label: '当前可见' },
+    { id: 'global', label: '全局' },
+    { id: 'project', label: '项目' },
+    { id: 'session', label: '会话' },
+];
+
+const EXPIRY_OPTIONS = [
+    { days: 0, label: '永久' },
+    { days: 1, label: '1 天后过期' },
+    { days: 7, label: '7 天后过期' },
+    { days: 30, label: '30 天后过期' },
+];
+
+const parseTags = (text: string) => text.split(/[,，]/).map(t => t.trim()).filter(Boolean);
+
+const folderName = (folder: string) => folder.split(/[\\/]/).filter(Boolean).pop() || folder;
+
+// Scope choices are encoded as "global", "session" or "project:<folder>"
+function scopeOptions(context: ScopeContext | null): { value: string; label: string }[] {
+    return [
+        { value: 'global', label: '全局' },
+        ...(context?.projects || []).map(folder => ({ value: `project:${folder}`, label: `项目 ${folderName(folder)}` })),
+        ...(context?.sessionId ? [{ value: 'session', label: '当前会话' }] : []),
+    ];
+}
+
+function parseScopeValue(value: string): { scope: MemoryScope; scopeKey?: string } {
+    if (value.startsWith('project:')) return { scope: 'project', scopeKey: value.slice('project:'.length) };
+    return { scope: value === 'session' ? 'session' : 'global' };
+}
+
+function defaultScopeValue(context: ScopeContext | null): string {
+    return context?.projectPath ? `project:${context.projectPath}` : 'global';
+}
+
+const expiresAtFromDays = (days: number) => (days > 0 ? Date.now() + days * DAY_MS : null);
+
+function ScopeBadge({ memory }: { memory: Memory }) {
+    const label = memory.scope === 'project'
+        ? `项目 ${folderName(memory.scopeKey || '')}`
+        : memory.scope === 'session' ? '会话' : '全局';
+    const expired = memory.expiresAt !== null && memory.expiresAt <= Date.now();
+    return (
+        <>
+            <span
+                title={memory.scopeKey || undefined}
+                className={`px-1.5 py-0.5 text-[10px] rounded ${memory.scope === 'global' ? 'text-stone-500 bg-stone-100' : 'text-blue-600 bg-blue-50'}`}
+            >
+                {label}
+            </span>
+            {memory.expiresAt !== null && (
+                <span className={`text-[10px] ${expired ? 'text-red-500' : 'text-amber-600'}`}>
+                    {expired ? '已过期' : `${new Date(memory.expiresAt).toLocaleDateString()} 过期`}
+                </span>
+            )}
+            {memory.source && (
+                <span className="text-[10px] text-stone-400" title={`会话 ${memory.source.sessionId}`}>
+                    从对话中提取
+                </span>
+            )}
+        </>
+    );
+}
+
+/**
+ * Permanent memories: browse, edit, tag and pin what the agent remembers, and
+ * share memories as JSON or Markdown packs. Pinned memories are part of every
+ * system prompt.
+ */
+export function MemorySettings() {
+    const [search, setSearch] = useState('');
+    const [tag, setTag] = useState('');
+    const [pinnedOnly, setPinnedOnly] = useState(false);
+    const [scopeFilter, setScopeFilter] = useState<NonNullable<MemoryListFilter['scope']> | ''>('');
+    const [context, setContext] = useState<ScopeContext | null>(null);
+    const [memories, setMemories] = useState<Memory[]>([]);
+    const [total, setTotal] = useState(0);
+    const [tags, setTags] = useState<{ tag: string; count: number }[]>([]);
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    // scope '' and expiryDays -1 leave those unchanged
+    const [editing, setEditing] = useState<{ id: number; content: string; tags: string; scope: string; expiryDays: number } | null>(null);
+    const [draft, setDraft] = useState<{ content: string; tags: string; pinned: boolean; scope: string; expiryDays: number } | null>(null);
+    const [retag, setRetag] = useState({ add: '', remove: '' });
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+    const filter = useMemo<MemoryListFilter>(() => ({
+        search: search.trim() || undefined,
+        tag: tag || undefined,
+        pinned: pinnedOnly || undefined,
+        scope: scopeFilter || undefined,
+    }), [search, tag, pinnedOnly, scopeFilter]);
+
+    const load = useCallback(async (offset: number) => {
+        setLoading(true);
+        try {
+            const [page, tagList, scopes] = await Promise.all([
+                window.ipcRenderer.invoke('memory:list', { ...filter, limit: PAGE_SIZE, offset }) as Promise<Result<{ memories: Memory[]; total: number }>>,
+                window.ipcRenderer.invoke('memory:tags') as Promise<Result<{ tag: string; count: number }[]>>,
+                window.ipcRenderer.invoke('memory:context') as Promise<Result<ScopeContext>>,
+            ]);
+            if (!page.success || !page.data) throw new Error(page.error || '加载失败');
+            const { memories: rows, total: count } = page.data;
+            setMemories(prev => offset === 0 ? rows : [...prev, ...rows]);
+            setTotal(count);
+            if (tagList.success && tagList.data) setTags(tagList.data);
+            if (scopes.success && scopes.data) setContext(scopes.data);
+        } catch (error) {
+            setMessage({ text: error instanceof Error ? error.message : String(error), error: true });
+        } finally {
+            setLoading(false);
+        }
+    }, [filter]);
+
+    useEffect(() => {
+        const timer = setTimeout(() => { void load(0); }, 200);
+        return () => clearTimeout(timer);
+    }, [load]);
+
+    // The agent records and forgets facts on its own; follow along
+    useEffect(() => window.ipcRenderer.on('memory:changed', () => { void load(0); }), [load]);
+
+    const run = async <T,>(channel: string, ...args: unknown[]): Promise<Result<T>> => {
+        const result = await window.ipcRenderer.invoke(channel, ...args) as Result<T>;
+        if (!result.success && !result.canceled) {
+            setMessage({ text: result.error || '操作失败', error: true });
+        }
+        return result;
+    };
+
+    const toggleSelected = (id: number) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const saveEdit = async () => {
+        if (!editing) return;
+        const result = await run<Memory>('memory:update', editing.id, {
+            content: editing.content,
+            tags: parseTags(editing.tags),
+            ...(editing.scope && parseScopeValue(editing.scope)),
+            ...(editing.expiryDays >= 0 && { expiresAt: expiresAtFromDays(editing.expiryDays) }),
+        });
+        if (result.success) setEditing(null);
+    };
+
+    const create = async () => {
+        if (!draft) return;
+        const result = await run<Memory>('memory:create', {
+            content: draft.content,
+            tags: parseTags(draft.tags),
+            pinned: draft.pinned,
+            ...parseScopeValue(draft.scope),
+            expiresAt: expiresAtFromDays(draft.expiryDays),
+        });
+        if (result.success) setDraft(null);
+    };
+
+    const move = async (value: string) => {
+        const result = await run<{ changed: number }>('memory:move', { ids: [...selected], ...parseScopeValue(value) });
+        if (result.success) setMessage({ text: `已移动 ${result.data?.changed ?? 0} 条记忆` });
+    };
+
+    const remove = async (ids: number[]) => {
+        if (!confirm(ids.length === 1 ? '确定删除这条记忆吗？' : `确定删除选中的 ${ids.length} 条记忆吗？`)) return;
+        const result = await run<{ deleted: number }>('memory:delete', ids);
+        if (result.success) {
+            setSelected(prev => new Set([...prev].filter(id => !ids.includes(id))));
+            setMessage({ text: `已删除 ${result.data?.deleted ?? 0} 条记忆` });
+        }
+    };
+
+    const applyRetag = async () => {
+        const result = await run<{ changed: number }>('memory:retag', {
+            ids: [...selected],
+            add: parseTags(retag.add),
+            remove: parseTags(retag.remove),
+        });
+        if (result.success) {
+            setRetag({ add: '', remove: '' });
+            setMessage({ text: `已更新 ${result.data?.changed ?? 0} 条记忆的标签` });
+        }
+    };
+
+    const exportPack = async (format: MemoryExportFormat) => {
+        const ids = selected.size > 0 ? [...selected] : undefined;
+        const result = await run<never>('memory:export', { format, ids });
+        if (result.success) setMessage({ text: `已导出 ${ids ? ids.length : '全部'} 条记忆` });
+    };
+
+    const importPack = async () => {
+        const result = await run<MemoryImportResult>('memory:import');
+        if (result.success && result.data) {
+            setMessage({ text: `已导入 ${result.data.imported} 条记忆，跳过 ${result.data.skipped} 条重复` });
+        }
+    };
+
+    return (
+        <div className="space-y-4 animate-fade-in">
+            <p className="text-xs text-stone-400">
+                Agent 通过 record_fact 记住的长期记忆。置顶的记忆会写入每次对话的系统提示词，其余记忆由 Agent 按需搜索。
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="flex-1 min-w-[140px] flex items-center gap-1.5 px-2 py-1.5 bg-white border border-stone-200 rounded-lg">
+                    <Search size={12} className="text-stone-400" />
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="搜索内容或标签"
+                        aria-label="搜索记忆"
+                        className="flex-1 text-xs bg-transparent focus:outline-none"
+                    />
+                </label>
+                <select
+                    value={tag}
+                    onChange={(e) => setTag(e.target.value)}
+                    aria-label="按标签筛选"
+                    className="px-2 py-1.5 text-xs bg-white border border-stone-200 rounded-lg"
+                >
+                    <option value="">全部标签</option>
+                    {tags.map(t => (
+                        <option key={t.tag} value={t.tag}>{t.tag} ({t.count})</option>
+                    ))}
+                </select>
+                <select
+                    value={scopeFilter}
+                    onChange={(e) => setScopeFilter(e.target.value as typeof scopeFilter)}
+                    aria-label="按范围筛选"
+                    className="px-2 py-1.5 text-xs bg-white border border-stone-200 rounded-lg"
+                >
+                    {SCOPE_FILTERS.map(f => (
+                        <option key={f.id} value={f.id}>{f.label}</option>
+                    ))}
+                </select>
+                <label className="flex items-center gap-1.5 text-xs text-stone-600">
+                    <input type="checkbox" checked={pinnedOnly} onChange={() => setPinnedOnly(!pinnedOnly)} className="accent-orange-500" />
+                    仅置顶
+                </label>
+                <button
+                    type="button"
+                    onClick={() => { void load(0); }}
+                    aria-label="刷新记忆"
+                    className="p-2 text-stone-400 hover:text-stone-600 hover:bg-stone-100 rounded-lg transition-all"
+                >
+                    <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-xs text-stone-500">
+                    共 {total} 条{selected.size > 0 && `，已选 ${selected.size} 条`}
+                </span>
+                <div className="flex gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setDraft(draft ? null : { content: '', tags: '', pinned: false, scope: defaultScopeValue(context), expiryDays: 0 })}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-white bg-orange-500 rounded-lg hover:bg-orange-600"
+                    >
+                        <Plus size={12} />
+                        新建
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => { void importPack(); }}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-stone-600 bg-white border border-stone-200 rounded-lg hover:bg-stone-50"
+                    >
+                        <Upload size={12} />
+                        导入
+                    </button>
+                    {(['json', 'markdown'] as const).map(format => (
+                        <button
+                            type="button"
+                            key={format}
+                            onClick={() => { void exportPack(format); }}
+                            className="flex items-center gap-1 px-2 py-1 text-xs text-stone-600 bg-white border border-stone-200 rounded-lg hover:bg-stone-50"
+                        >
+                            <Download size={12} />
+                            导出 {format === 'json' ? 'JSON' : 'Markdown'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {message && (
+                <div className={`p-2 text-xs rounded-lg ${message.error ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-700'}`}>{message.text}</div>
+            )}
+
+            {draft && (
+                <div className="p-3 bg-white border border-orange-200 rounded-lg space-y-2">
+                    <textarea
+                        value={draft.content}
+                        onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                        placeholder="要记住的内容，例如：回答一律使用中文"
+                        aria-label="记忆内容"
+                        rows={3}
+                        className="w-full px-2 py-1.5 text-xs bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                    />
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="text"
+                            value={draft.tags}
+                            onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                            placeholder="标签，用逗号分隔"
+                            aria-label="记忆标签"
+                            className="flex-1 px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                        />
+                        <select
+                            value={draft.scope}
+                            onChange={(e) => setDraft({ ...draft, scope: e.target.value })}
+                            aria-label="记忆范围"
+                            className="px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md"
+                        >
+                            {scopeOptions(context).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                        <select
+                            value={draft.expiryDays}
+                            onChange={(e) => setDraft({ ...draft, expiryDays: Number(e.target.value) })}
+                            aria-label="有效期"
+                            className="px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md"
+                        >
+                            {EXPIRY_OPTIONS.map(o => <option key={o.days} value={o.days}>{o.label}</option>)}
+                        </select>
+                        <label className="flex items-center gap-1.5 text-xs text-stone-600">
+                            <input type="checkbox" checked={draft.pinned} onChange={() => setDraft({ ...draft, pinned: !draft.pinned })} className="accent-orange-500" />
+                            置顶
+                        </label>
+                        <button
+                            type="button"
+                            onClick={() => { void create(); }}
+                            disabled={!draft.content.trim()}
+                            className="px-3 py-1 text-xs text-white bg-orange-500 rounded-md hover:bg-orange-600 disabled:opacity-50"
+                        >
+                            保存
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {selected.size > 0 && (
+                <div className="flex flex-wrap items-center gap-2 p-2 bg-stone-50 border border-stone-200 rounded-lg">
+                    <Tags size={12} className="text-stone-400" />
+                    <input
+                        type="text"
+                        value={retag.add}
+                        onChange={(e) => setRetag({ ...retag, add: e.target.value })}
+                        placeholder="添加标签"
+                        aria-label="批量添加标签"
+                        className="w-28 px-2 py-1 text-xs bg-white border border-stone-200 rounded-md focus:outline-none"
+                    />
+                    <input
+                        type="text"
+                        value={retag.remove}
+                        onChange={(e) => setRetag({ ...retag, remove: e.target.value })}
+                        placeholder="移除标签"
+                        aria-label="批量移除标签"
+                        className="w-28 px-2 py-1 text-xs bg-white border border-stone-200 rounded-md focus:outline-none"
+                    />
+                    <button
+                        type="button"
+                        onClick={() => { void applyRetag(); }}
+                        disabled={!retag.add.trim() && !retag.remove.trim()}
+                        className="px-2 py-1 text-xs text-stone-600 bg-white border border-stone-200 rounded-md hover:bg-stone-100 disabled:opacity-50"
+                    >
+                        更新标签
+                    </button>
+                    <select
+                        value=""
+                        onChange={(e) => { if (e.target.value) void move(e.target.value); }}
+                        aria-label="移动到范围"
+                        className="px-2 py-1 text-xs bg-white border border-stone-200 rounded-md"
+                    >
+                        <option value="">移动到…</option>
+                        {scopeOptions(context).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                    <button
+                        type="button"
+                        onClick={() => { void remove([...selected]); }}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-red-600 bg-white border border-red-200 rounded-md hover:bg-red-50"
+                    >
+                        <Trash2 size={12} />
+                        删除所选
+                    </button>
+                    <button type="button" onClick={() => setSelected(new Set())} className="ml-auto text-xs text-stone-400 hover:text-stone-600">
+                        取消选择
+                    </button>
+                </div>
+            )}
+
+            {memories.length === 0 ? (
+                <p className="text-xs text-stone-400 p-3 bg-white border border-stone-200 rounded-lg">暂无记忆</p>
+            ) : (
+                <div className="bg-white border border-stone-200 rounded-xl divide-y divide-stone-100">
+                    {memories.map(memory => editing?.id === memory.id ? (
+                        <div key={memory.id} className="px-4 py-2.5 space-y-2">
+                            <textarea
+                                value={editing.content}
+                                onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                                aria-label="记忆内容"
+                                rows={3}
+                                className="w-full px-2 py-1.5 text-xs bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                            />
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={editing.tags}
+                                    onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                                    placeholder="标签，用逗号分隔"
+                                    aria-label="记忆标签"
+                                    className="flex-1 px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20"
+                                />
+                                <select
+                                    value={editing.scope}
+                                    onChange={(e) => setEditing({ ...editing, scope: e.target.value })}
+                                    aria-label="记忆范围"
+                                    className="px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md"
+                                >
+                                    <option value="">范围不变</option>
+                                    {scopeOptions(context).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                </select>
+                                <select
+                                    value={editing.expiryDays}
+                                    onChange={(e) => setEditing({ ...editing, expiryDays: Number(e.target.value) })}
+                                    aria-label="有效期"
+                                    className="px-2 py-1 text-xs bg-stone-50 border border-stone-200 rounded-md"
+                                >
+                                    <option value={-1}>有效期不变</option>
+                                    {EXPIRY_OPTIONS.map(o => <option key={o.days} value={o.days}>{o.label}</option>)}
+                                </select>
+                                <button type="button" onClick={() => { void saveEdit(); }} aria-label="保存" className="p-1 text-green-600 hover:bg-green-50 rounded">
+                                    <Check size={14} />
+                                </button>
+                                <button type="button" onClick={() => setEditing(null)} aria-label="取消" className="p-1 text-stone-400 hover:bg-stone-100 rounded">
+                                    <X size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div key={memory.id} className="group flex items-start gap-2 px-4 py-2.5 text-xs">
+                            <input
+                                type="checkbox"
+                                checked={selected.has(memory.id)}
+                                onChange={() => toggleSelected(memory.id)}
+                                aria-label="选择记忆"
+                                className="accent-orange-500 mt-0.5"
+                            />
+                            <div className="flex-1 min-w-0 space-y-1">
+                                <p className="text-stone-700 whitespace-pre-wrap break-words">{memory.content}</p>
+                                <div className="flex flex-wrap items-center gap-1">
+                                    <ScopeBadge memory={memory} />
+                                    {memory.tags.map(t => (
+                                        <button
+                                            type="button"
+                                            key={t}
+                                            onClick={() => setTag(t)}
+                                            className="px-1.5 py-0.5 text-[10px] text-stone-500 bg-stone-100 rounded hover:bg-stone-200"
+                                        >
+                                            {t}
+                                        </button>
+                                    ))}
+                                    <span className="text-[10px] text-stone-400">{new Date(memory.updatedAt).toLocaleString()}</span>
+                                </div>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => { void run<Memory>('memory:update', memory.id, { pinned: !memory.pinned }); }}
+                                aria-label={memory.pinned ? '取消置顶' : '置顶'}
+                                title={memory.pinned ? '取消置顶' : '置顶（始终写入系统提示词）'}
+                                className={`p-1 rounded ${memory.pinned ? 'text-orange-500 hover:bg-orange-50' : 'text-stone-300 hover:text-stone-500 hover:bg-stone-100'}`}
+                            >
+                                {memory.pinned ? <Pin size={14} /> : <PinOff size={14} />}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setEditing({ id: memory.id, content: memory.content, tags: memory.tags.join(', '), scope: '', expiryDays: -1 })}
+                                aria-label="编辑记忆"
+                                className="p-1 text-stone-300 hover:text-stone-500 hover:bg-stone-100 rounded"
+                            >
+                                <Edit2 size={14} />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => { void remove([memory.id]); }}
+                                aria-label="删除记忆"
+                                className="p-1 text-stone-300 hover:text-red-500 hover:bg-red-50 rounded"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {memories.length < total && (
+                <button
+                    type="button"
+                    onClick={() => { void load(memories.length); }}
+                    disabled={loading}
+                    className="w-full py-2 text-xs text-stone-500 bg-white border border-stone-200 rounded-lg hover:bg-stone-50 disabled:opacity-50"
+                >
+                    加载更多
+                </button>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
-import { Check, ChevronDown, ChevronRight, Globe, Key, Plus, RefreshCw, Server, Trash2, Zap } from 'lucide-react';
-import { useModelRegistry, ProviderConfigDTO, ModelConfigDTO } from '../../hooks/useModelRegistry';
+import { ArrowDown, ArrowUp, Brain, Check, ChevronDown, ChevronRight, Globe, Key, Plus, RefreshCw, Server, Trash2, Zap } from 'lucide-react';
+import { useModelRegistry, ProviderConfigDTO, ModelConfigDTO, LocalModelDTO } from '../../hooks/useModelRegistry';
 
 // Define available templates for "Add Provider"
 const PROVIDER_TEMPLATES = [
@@ -9,11 +9,12 @@ const PROVIDER_TEMPLATES = [
     { id: 'deepseek', name: 'DeepSeek', protocol: 'openai', baseUrl: 'https://api.deepseek.com/v1' },
     { id: 'moonshot-kimi', name: 'Moonshot (Kimi)', protocol: 'openai', baseUrl: 'https://api.moonshot.cn/v1' },
     { id: 'alibaba-qwen', name: 'Alibaba (Qwen)', protocol: 'openai', baseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1' },
+    { id: 'ollama', name: 'Ollama / llama.cpp (本地)', protocol: 'ollama', baseUrl: 'http://localhost:11434' },
     { id: 'custom', name: 'Custom (OpenAI Compatible)', protocol: 'openai', baseUrl: '' },
 ];
 
 export function ModelSettings() {
-    const { state, loading, error, setActiveModel, updateProvider, addCustomModel, deleteCustomModel } = useModelRegistry();
+    const { state, loading, error, setActiveModel, updateProvider, addCustomModel, deleteCustomModel, setModelReasoningBudget, setFallbackChain } = useModelRegistry();
     const [showAddProvider, setShowAddProvider] = useState(false);
 
     // Group models by provider for the selector
@@ -74,6 +75,14 @@ export function ModelSettings() {
                 )}
             </section>
 
+            {/* Fallback chain */}
+            <FallbackChainEditor
+                models={state.models}
+                activeModelId={state.activeModelId}
+                chain={state.fallbackChain || []}
+                onChange={setFallbackChain}
+            />
+
             {/* 2. Provider List */}
             <section className="space-y-4">
                 <div className="flex items-center justify-between">
@@ -96,6 +105,7 @@ export function ModelSettings() {
                             onUpdate={updateProvider}
                             onAddCustomModel={addCustomModel}
                             onDeleteCustomModel={deleteCustomModel}
+                            onSetReasoningBudget={setModelReasoningBudget}
                         />
                     ))}
                 </div>
@@ -167,7 +177,8 @@ function ProviderCard({
     models,
     onUpdate,
     onAddCustomModel,
-    onDeleteCustomModel
+    onDeleteCustomModel,
+    onSetReasoningBudget
 }: {
     provider: ProviderConfigDTO;
     models: ModelConfigDTO[];
@@ -175,6 +186,7 @@ function ProviderCard({
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     onAddCustomModel: (payload: any) => Promise<void>;
     onDeleteCustomModel: (id: string) => Promise<void>;
+    onSetReasoningBudget: (id: string, budget: number | null) => Promise<void>;
 }) {
     const [expanded, setExpanded] = useState(false);
     const [apiKey, setApiKey] = useState('');
@@ -183,6 +195,8 @@ function ProviderCard({
     const [checkResult, setCheckResult] = useState<'success' | 'error' | null>(null);
     const [checkError, setCheckError] = useState<string>('');
     const [isDirty, setIsDirty] = useState(false);
+    const [localModels, setLocalModels] = useState<LocalModelDTO[] | null>(null);
+    const isLocal = provider.protocol === 'ollama';
 
     // Sync state when provider updates
     useEffect(() => {
@@ -212,10 +226,11 @@ function ProviderCard({
                 baseUrl,
                 apiKey: apiKey || undefined, // If empty, backend might use stored key?
                 protocol: provider.protocol
-            }) as { success: boolean; error?: string };
+            }) as { success: boolean; error?: string; models?: LocalModelDTO[] };
 
             if (res.success) {
                 setCheckResult('success');
+                if (res.models) setLocalModels(res.models);
             } else {
                 setCheckResult('error');
                 setCheckError(res.error || '未知错误');
@@ -251,7 +266,7 @@ function ProviderCard({
                 </div>
                 <div className="flex items-center gap-3">
                      {/* Status Badge */}
-                     {!provider.hasApiKey && !expanded && (
+                     {!provider.hasApiKey && !isLocal && !expanded && (
                         <span className="text-xs text-amber-500 bg-amber-50 px-2 py-1 rounded-full">需配置</span>
                      )}
                     <ChevronRight size={18} className={`text-stone-400 transition-transform ${expanded ? 'rotate-90' : ''}`} />
@@ -288,7 +303,7 @@ function ProviderCard({
                                     type="password"
                                     value={apiKey}
                                     onChange={(e) => { setApiKey(e.target.value); setIsDirty(true); }}
-                                    placeholder={provider.hasApiKey ? "已配置 (留空保持不变)" : "请输入 API Key"}
+                                    placeholder={provider.hasApiKey ? "已配置 (留空保持不变)" : (isLocal ? "本地服务无需 API Key（可选）" : "请输入 API Key")}
                                     className="flex-1 bg-stone-50 border border-stone-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500"
                                 />
                                 <button
@@ -311,7 +326,7 @@ function ProviderCard({
                                     className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-stone-200 hover:bg-stone-50 text-stone-600 text-xs rounded-lg transition-colors"
                                 >
                                     {checking ? <RefreshCw size={12} className="animate-spin" /> : <Zap size={12} />}
-                                    测试连接
+                                    {isLocal ? '连接并发现模型' : '测试连接'}
                                 </button>
                                 {checkResult === 'success' && <span className="text-xs text-emerald-600 flex items-center gap-1"><Check size={12}/> 连接成功</span>}
                                 {checkResult === 'error' && (
@@ -324,6 +339,43 @@ function ProviderCard({
                         </div>
                     </div>
 
+                    {/* Local model discovery */}
+                    {isLocal && localModels && (
+                        <div className="bg-stone-50/50 rounded-xl border border-stone-200/60 p-3 space-y-2">
+                            <div className="text-xs font-medium text-stone-500">
+                                本地模型（{localModels.length} 个，已加载 {localModels.filter(m => m.loaded).length} 个）
+                            </div>
+                            {localModels.map(local => {
+                                const added = models.some(m => m.modelId === local.name);
+                                return (
+                                    <div key={local.name} className="flex items-center justify-between bg-white p-2 rounded border border-stone-100">
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <span className={`w-1.5 h-1.5 rounded-full ${local.loaded ? 'bg-emerald-500' : 'bg-stone-300'}`} title={local.loaded ? '已加载到内存' : '未加载'} />
+                                            <span className="text-sm text-stone-700 font-mono truncate">{local.name}</span>
+                                            {local.parameterSize && <span className="text-[10px] text-stone-400">{local.parameterSize}</span>}
+                                        </div>
+                                        {added ? (
+                                            <span className="text-[10px] text-stone-400">已添加</span>
+                                        ) : (
+                                            <button
+                                                onClick={() => onAddCustomModel({
+                                                    providerName: provider.providerName,
+                                                    modelId: local.name,
+                                                    displayName: local.name,
+                                                    baseUrl,
+                                                    protocol: 'ollama'
+                                                })}
+                                                className="text-xs text-orange-500 hover:text-orange-600 flex items-center gap-0.5"
+                                            >
+                                                <Plus size={12} /> 添加
+                                            </button>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
                     {/* Model List */}
                     <div className="bg-stone-50/50 rounded-xl border border-stone-200/60 p-3 space-y-3">
                         <div className="text-xs font-medium text-stone-500">模型列表</div>
@@ -331,14 +383,20 @@ function ProviderCard({
                             {models.map(model => (
                                 <div key={model.id} className="flex items-center justify-between bg-white p-2 rounded border border-stone-100">
                                     <div className="text-sm text-stone-700 font-mono">{model.modelId}</div>
-                                    {model.isCustom && (
-                                        <button 
-                                            onClick={() => onDeleteCustomModel(model.id)}
-                                            className="text-stone-300 hover:text-red-500 p-1"
-                                        >
-                                            <Trash2 size={14} />
-                                        </button>
-                                    )}
+                                    <div className="flex items-center gap-2">
+                                        <ReasoningBudgetInput
+                                            budget={model.reasoningBudget}
+                                            onSave={(budget) => onSetReasoningBudget(model.id, budget)}
+                                        />
+                                        {model.isCustom && (
+                                            <button 
+                                                onClick={() => onDeleteCustomModel(model.id)}
+                                                className="text-stone-300 hover:text-red-500 p-1"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        )}
+                                    </div>
                                 </div>
                             ))}
                             
@@ -352,6 +410,113 @@ function ProviderCard({
     );
 }
 
+function ReasoningBudgetInput({ budget, onSave }: { budget?: number; onSave: (budget: number | null) => Promise<void> }) {
+    const [draft, setDraft] = useState(budget ? String(budget) : '');
+
+    useEffect(() => {
+        setDraft(budget ? String(budget) : '');
+    }, [budget]);
+
+    const commit = async () => {
+        const parsed = Number.parseInt(draft, 10);
+        const next = Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+        if ((next ?? undefined) === budget) return;
+        await onSave(next);
+    };
+
+    return (
+        <label className="flex items-center gap-1 text-stone-400" title="推理预算（token）。留空或 0 表示不启用扩展思考">
+            <Brain size={12} />
+            <input
+                type="number"
+                min={0}
+                step={1024}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={() => { void commit(); }}
+                onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                placeholder="思考预算"
+                aria-label="推理预算"
+                className="w-20 bg-stone-50 border border-stone-200 rounded px-1.5 py-0.5 text-xs font-mono focus:outline-none focus:border-orange-500"
+            />
+        </label>
+    );
+}
+
+function FallbackChainEditor({ models, activeModelId, chain, onChange }: {
+    models: ModelConfigDTO[];
+    activeModelId: string;
+    chain: string[];
+    onChange: (modelIds: string[]) => Promise<void>;
+}) {
+    const byId = new Map(models.map(m => [m.id, m]));
+    const candidates = models.filter(m => m.id !== activeModelId && !chain.includes(m.id));
+
+    const move = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= chain.length) return;
+        const next = chain.slice();
+        [next[index], next[target]] = [next[target], next[index]];
+        void onChange(next);
+    };
+
+    return (
+        <section className="bg-white border border-stone-200 rounded-xl p-5 shadow-sm">
+            <label className="block text-sm font-semibold text-stone-800 mb-1">备用模型</label>
+            <p className="text-xs text-stone-400 mb-3">当前模型请求失败（服务错误、网络中断、模型不可用）时，按顺序切换到下列模型并保留对话历史继续执行。</p>
+            {chain.length > 0 ? (
+                <ol className="space-y-1.5 mb-3">
+                    {chain.map((id, index) => {
+                        const m = byId.get(id);
+                        return (
+                            <li key={id} className="flex items-center gap-2 bg-stone-50 border border-stone-100 rounded-lg px-3 py-2 text-sm">
+                                <span className="text-xs text-stone-400 font-mono w-4">{index + 1}</span>
+                                <span className="flex-1 text-stone-700 truncate">
+                                    {m ? `${m.displayName} (${m.providerName})` : id}
+                                </span>
+                                {m && !m.isConfigured && (
+                                    <span className="text-[10px] bg-amber-50 text-amber-600 px-1.5 py-0.5 rounded">未配置，将跳过</span>
+                                )}
+                                {id === activeModelId && (
+                                    <span className="text-[10px] bg-stone-100 text-stone-500 px-1.5 py-0.5 rounded">当前模型，将跳过</span>
+                                )}
+                                <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-stone-400 hover:text-stone-600 disabled:opacity-30" aria-label="上移">
+                                    <ArrowUp size={14} />
+                                </button>
+                                <button type="button" onClick={() => move(index, 1)} disabled={index === chain.length - 1} className="p-1 text-stone-400 hover:text-stone-600 disabled:opacity-30" aria-label="下移">
+                                    <ArrowDown size={14} />
+                                </button>
+                                <button type="button" onClick={() => { void onChange(chain.filter(x => x !== id)); }} className="p-1 text-stone-400 hover:text-red-500" aria-label="移除">
+                                    <Trash2 size={14} />
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ol>
+            ) : (
+                <p className="text-xs text-stone-500 mb-3">尚未配置备用模型，请求失败时任务将直接结束。</p>
+            )}
+            {candidates.length > 0 && (
+                <div className="relative">
+                    <select
+                        value=""
+                        onChange={(e) => { if (e.target.value) void onChange([...chain, e.target.value]); }}
+                        className="w-full appearance-none bg-stone-50 border border-stone-200 text-stone-600 py-2 px-3 pr-8 rounded-lg text-sm focus:outline-none focus:border-orange-500"
+                    >
+                        <option value="">添加备用模型...</option>
+                        {candidates.map(m => (
+                            <option key={m.id} value={m.id}>
+                                {m.displayName} ({m.providerName}){m.isConfigured ? '' : ' - 未配置'}
+                            </option>
+                        ))}
+                    </select>
+                    <Plus className="absolute right-3 top-1/2 -translate-y-1/2 text-stone-400 pointer-events-none" size={14} />
+                </div>
+            )}
+        </section>
+    );
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function AddModelInline({ provider, onAdd }: { provider: ProviderConfigDTO, onAdd: (p: any) => Promise<void> }) {
     const [isAdding, setIsAdding] = useState(false);
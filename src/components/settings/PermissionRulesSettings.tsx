@@ -0,0 +1,328 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+
+type PermissionDecision = 'allow' | 'deny' | 'ask';
+type PermissionRuleScope = 'global' | 'folder' | 'session';
+
+interface PermissionRule {
+    id: string;
+    decision: PermissionDecision;
+    tool: string;
+    paths?: string[];
+    commands?: string[];
+    targets?: string[];
+    scope: PermissionRuleScope;
+    scopeValue?: string;
+    note?: string;
+    literal?: boolean;
+    source: 'manual' | 'remember' | 'import' | 'legacy';
+    createdAt: number;
+}
+
+interface RuleDraft {
+    id?: string;
+    decision: PermissionDecision;
+    tool: string;
+    paths: string;
+    commands: string;
+    targets: string;
+    scope: PermissionRuleScope;
+    scopeValue: string;
+    note: string;
+    literal?: boolean;
+    source?: PermissionRule['source'];
+    createdAt?: number;
+}
+
+const DECISIONS: { id: PermissionDecision; label: string; className: string }[] = [
+    { id: 'allow', label: '允许', className: 'text-green-700 bg-green-50' },
+    { id: 'ask', label: '询问', className: 'text-amber-700 bg-amber-50' },
+    { id: 'deny', label: '拒绝', className: 'text-red-600 bg-red-50' },
+];
+
+const SCOPES: { id: PermissionRuleScope; label: string }[] = [
+    { id: 'global', label: '全局' },
+    { id: 'folder', label: '文件夹' },
+    { id: 'session', label: '会话' },
+];
+
+const SOURCE_LABELS: Record<PermissionRule['source'], string> = {
+    manual: '手动',
+    remember: '记住的选择',
+    import: '导入',
+    legacy: '旧版授权',
+};
+
+const EMPTY_DRAFT: RuleDraft = {
+    decision: 'allow', tool: '', paths: '', commands: '', targets: '', scope: 'global', scopeValue: '', note: '',
+};
+
+const lines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+function toDraft(rule: PermissionRule): RuleDraft {
+    return {
+        id: rule.id,
+        decision: rule.decision,
+        tool: rule.tool,
+        paths: (rule.paths || []).join('\n'),
+        commands: (rule.commands || []).join('\n'),
+        targets: (rule.targets || []).join('\n'),
+        scope: rule.scope,
+        scopeValue: rule.scopeValue || '',
+        note: rule.note || '',
+        literal: rule.literal,
+        source: rule.source,
+        createdAt: rule.createdAt,
+    };
+}
+
+const inputClass = 'w-full px-2 py-1.5 text-sm bg-stone-50 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500';
+
+/**
+ * Ordered allow / deny / ask rules for tool calls; the first matching rule decides
+ */
+export function PermissionRulesSettings() {
+    const [rules, setRules] = useState<PermissionRule[]>([]);
+    const [draft, setDraft] = useState<RuleDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [folders, setFolders] = useState<string[]>([]);
+    const [sessions, setSessions] = useState<{ id: string; title: string }[]>([]);
+
+    const load = useCallback(async () => {
+        const list = await window.ipcRenderer.invoke('permissions:list');
+        setRules(list as PermissionRule[]);
+    }, []);
+
+    useEffect(() => {
+        load();
+        window.ipcRenderer.invoke('agent:get-authorized-folders').then(list => setFolders(list as string[]));
+        window.ipcRenderer.invoke('session:list').then(list => setSessions(list as { id: string; title: string }[]));
+    }, [load]);
+
+    const saveDraft = async () => {
+        if (!draft) return;
+        const result = await window.ipcRenderer.invoke('permissions:save-rule', {
+            id: draft.id,
+            decision: draft.decision,
+            tool: draft.tool,
+            paths: lines(draft.paths),
+            commands: lines(draft.commands),
+            targets: lines(draft.targets),
+            scope: draft.scope,
+            scopeValue: draft.scopeValue,
+            note: draft.note,
+            literal: draft.literal,
+            source: draft.source,
+            createdAt: draft.createdAt,
+        }) as { success: boolean; error?: string };
+        if (!result.success) {
+            setError(result.error || '保存失败');
+            return;
+        }
+        setDraft(null);
+        setError(null);
+        load();
+    };
+
+    const deleteRule = async (id: string) => {
+        await window.ipcRenderer.invoke('permissions:revoke', { id });
+        load();
+    };
+
+    const moveRule = async (id: string, offset: number) => {
+        await window.ipcRenderer.invoke('permissions:move-rule', { id, offset });
+        load();
+    };
+
+    const clearRules = async () => {
+        if (confirm('确定要删除所有权限规则吗？')) {
+            await window.ipcRenderer.invoke('permissions:clear');
+            load();
+        }
+    };
+
+    const exportRules = async () => {
+        const result = await window.ipcRenderer.invoke('permissions:export-rules') as { success: boolean; path?: string; error?: string };
+        if (result.success) setMessage(`已导出到 ${result.path}`);
+        else if (result.error) setMessage(`导出失败：${result.error}`);
+    };
+
+    const importRules = async () => {
+        const replace = rules.length > 0 && confirm('是否用导入的规则替换现有规则？选择"取消"将追加到现有规则之后。');
+        const result = await window.ipcRenderer.invoke('permissions:import-rules', { replace }) as { success: boolean; count?: number; error?: string };
+        if (result.success) {
+            setMessage(`已导入 ${result.count} 条规则`);
+            load();
+        } else if (result.error) {
+            setMessage(`导入失败：${result.error}`);
+        }
+    };
+
+    const scopeLabel = (rule: PermissionRule) => {
+        if (rule.scope === 'folder') return `文件夹 ${rule.scopeValue}`;
+        if (rule.scope === 'session') {
+            const session = sessions.find(s => s.id === rule.scopeValue);
+            return `会话 ${session ? session.title : rule.scopeValue}`;
+        }
+        return '全局';
+    };
+
+    return (
+        <div className="space-y-4 animate-fade-in">
+            <div className="flex items-start justify-between gap-3">
+                <p className="text-xs text-stone-400 leading-relaxed">
+                    按顺序匹配，第一条匹配的规则生效；没有匹配的规则时按各工具默认方式确认。
+                    工具名支持通配符（如 <code>github__*</code>），命令支持前缀匹配（如 <code>git status*</code>）。
+                </p>
+                <div className="flex items-center gap-1 shrink-0">
+                    <button type="button" onClick={importRules} title="导入" aria-label="导入规则" className="p-1.5 text-stone-500 hover:text-stone-700 hover:bg-stone-100 rounded-lg">
+                        <Upload size={14} />
+                    </button>
+                    <button type="button" onClick={exportRules} title="导出" aria-label="导出规则" className="p-1.5 text-stone-500 hover:text-stone-700 hover:bg-stone-100 rounded-lg">
+                        <Download size={14} />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => { setDraft({ ...EMPTY_DRAFT }); setError(null); }}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-orange-500 hover:bg-orange-600 rounded-lg"
+                    >
+                        <Plus size={12} />
+                        新建规则
+                    </button>
+                </div>
+            </div>
+
+            {message && <p className="text-xs text-stone-500 p-2 bg-stone-100 rounded-lg">{message}</p>}
+
+            {draft && (
+                <div className="p-3 bg-white border border-orange-200 rounded-lg space-y-3">
+                    <div className="flex items-center gap-2">
+                        <div className="flex gap-1 bg-stone-100 p-1 rounded-lg" role="radiogroup" aria-label="决策">
+                            {DECISIONS.map(d => (
+                                <button
+                                    type="button"
+                                    key={d.id}
+                                    role="radio"
+                                    aria-checked={draft.decision === d.id}
+                                    onClick={() => setDraft({ ...draft, decision: d.id })}
+                                    className={`px-2.5 py-1 text-xs rounded-md transition-colors ${draft.decision === d.id ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
+                                >
+                                    {d.label}
+                                </button>
+                            ))}
+                        </div>
+                        <input
+                            type="text"
+                            value={draft.tool}
+                            onChange={(e) => setDraft({ ...draft, tool: e.target.value })}
+                            placeholder="工具名，如 run_command、browser_*、github__*"
+                            aria-label="工具"
+                            className={`${inputClass} font-mono`}
+                        />
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        <label className="text-xs text-stone-500">
+                            路径（每行一个）
+                            <textarea value={draft.paths} onChange={(e) => setDraft({ ...draft, paths: e.target.value })} rows={3} placeholder="~/projects/**" className={`mt-1 ${inputClass} font-mono text-xs`} />
+                        </label>
+                        <label className="text-xs text-stone-500">
+                            命令（每行一个）
+                            <textarea value={draft.commands} onChange={(e) => setDraft({ ...draft, commands: e.target.value })} rows={3} placeholder="git status*" className={`mt-1 ${inputClass} font-mono text-xs`} />
+                        </label>
+                        <label className="text-xs text-stone-500">
+                            网络目标（每行一个）
+                            <textarea value={draft.targets} onChange={(e) => setDraft({ ...draft, targets: e.target.value })} rows={3} placeholder="*.github.com" className={`mt-1 ${inputClass} font-mono text-xs`} />
+                        </label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={draft.scope}
+                            onChange={(e) => setDraft({ ...draft, scope: e.target.value as PermissionRuleScope, scopeValue: '' })}
+                            aria-label="作用范围"
+                            className="px-2 py-1.5 text-sm bg-stone-50 border border-stone-200 rounded-md"
+                        >
+                            {SCOPES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                        </select>
+                        {draft.scope === 'folder' && (
+                            <select value={draft.scopeValue} onChange={(e) => setDraft({ ...draft, scopeValue: e.target.value })} aria-label="文件夹" className="flex-1 min-w-0 px-2 py-1.5 text-sm bg-stone-50 border border-stone-200 rounded-md">
+                                <option value="">选择授权文件夹</option>
+                                {folders.map(f => <option key={f} value={f}>{f}</option>)}
+                            </select>
+                        )}
+                        {draft.scope === 'session' && (
+                            <select value={draft.scopeValue} onChange={(e) => setDraft({ ...draft, scopeValue: e.target.value })} aria-label="会话" className="flex-1 min-w-0 px-2 py-1.5 text-sm bg-stone-50 border border-stone-200 rounded-md">
+                                <option value="">选择会话</option>
+                                {sessions.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+                            </select>
+                        )}
+                        <input
+                            type="text"
+                            value={draft.note}
+                            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                            placeholder="备注（可选）"
+                            aria-label="备注"
+                            className={`flex-1 ${inputClass}`}
+                        />
+                    </div>
+                    {error && <p className="text-xs text-red-600">{error}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setDraft(null)} className="px-3 py-1.5 text-xs text-stone-500 hover:bg-stone-100 rounded-lg">取消</button>
+                        <button type="button" onClick={saveDraft} className="px-3 py-1.5 text-xs font-medium text-white bg-orange-500 hover:bg-orange-600 rounded-lg">保存规则</button>
+                    </div>
+                </div>
+            )}
+
+            {rules.length === 0 ? (
+                <p className="text-xs text-stone-400 p-3 bg-stone-50 rounded-lg">暂无权限规则</p>
+            ) : (
+                <div className="space-y-2">
+                    {rules.map((rule, index) => {
+                        const decision = DECISIONS.find(d => d.id === rule.decision)!;
+                        const conditions = [
+                            ...(rule.paths || []).map(p => `路径 ${p}`),
+                            ...(rule.commands || []).map(c => `命令 ${c}`),
+                            ...(rule.targets || []).map(t => `目标 ${t}`),
+                        ];
+                        return (
+                            <div key={rule.id} className="flex items-start gap-2 p-2 bg-white border border-stone-200 rounded-lg">
+                                <span className="w-5 pt-0.5 text-xs text-stone-400 text-right">{index + 1}</span>
+                                <span className={`px-1.5 py-0.5 text-xs rounded ${decision.className}`}>{decision.label}</span>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-mono text-stone-700 truncate">{rule.tool}</p>
+                                    {conditions.length > 0 && (
+                                        <p className="text-xs font-mono text-stone-500 truncate" title={conditions.join('\n')}>{conditions.join(' · ')}</p>
+                                    )}
+                                    <p className="text-xs text-stone-400 truncate">
+                                        {scopeLabel(rule)} · {SOURCE_LABELS[rule.source]}{rule.literal ? ' · 精确匹配' : ''}{rule.note ? ` · ${rule.note}` : ''}
+                                    </p>
+                                </div>
+                                <div className="flex items-center shrink-0">
+                                    <button type="button" onClick={() => moveRule(rule.id, -1)} disabled={index === 0} aria-label="上移" className="p-1 text-stone-400 hover:text-stone-600 rounded disabled:opacity-30">
+                                        <ArrowUp size={12} />
+                                    </button>
+                                    <button type="button" onClick={() => moveRule(rule.id, 1)} disabled={index === rules.length - 1} aria-label="下移" className="p-1 text-stone-400 hover:text-stone-600 rounded disabled:opacity-30">
+                                        <ArrowDown size={12} />
+                                    </button>
+                                    <button type="button" onClick={() => { setDraft(toDraft(rule)); setError(null); }} aria-label="编辑" className="p-1 text-stone-400 hover:text-stone-600 rounded">
+                                        <Pencil size={12} />
+                                    </button>
+                                    <button type="button" onClick={() => deleteRule(rule.id)} aria-label="删除" className="p-1 text-stone-400 hover:text-red-500 rounded">
+                                        <Trash2 size={12} />
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                    <button
+                        type="button"
+                        onClick={clearRules}
+                        className="w-full px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500/30 focus-visible:ring-offset-2 focus-visible:ring-offset-white"
+                    >
+                        删除所有规则
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, ShieldCheck, ShieldAlert } from 'lucide-react';
+
+export type SandboxBackend = 'auto' | 'bubblewrap' | 'unshare';
+
+export interface CommandSandboxConfig {
+    enabled: boolean;
+    backend: SandboxBackend;
+    fallbackToHost: boolean;
+}
+
+interface SandboxStatus {
+    enabled: boolean;
+    activeBackend: Exclude<SandboxBackend, 'auto'> | null;
+    backends: { backend: Exclude<SandboxBackend, 'auto'>; available: boolean; version?: string; reason?: string }[];
+    reason?: string;
+}
+
+const BACKENDS: { id: SandboxBackend; label: string }[] = [
+    { id: 'auto', label: '自动' },
+    { id: 'bubblewrap', label: 'bubblewrap' },
+    { id: 'unshare', label: 'unshare' },
+];
+
+interface SandboxSettingsProps {
+    value: CommandSandboxConfig;
+    onChange: (value: CommandSandboxConfig) => void;
+}
+
+/**
+ * Command sandbox options (saved with the rest of the settings) plus live
+ * availability of the sandbox backends on this machine
+ */
+export function SandboxSettings({ value, onChange }: SandboxSettingsProps) {
+    const [status, setStatus] = useState<SandboxStatus | null>(null);
+    const [checking, setChecking] = useState(false);
+
+    const checkStatus = useCallback(async (refresh: boolean) => {
+        setChecking(true);
+        try {
+            const next = await window.ipcRenderer.invoke('config:get-sandbox-status', { backend: value.backend }, refresh);
+            setStatus(next as SandboxStatus);
+        } finally {
+            setChecking(false);
+        }
+    }, [value.backend]);
+
+    useEffect(() => {
+        checkStatus(false);
+    }, [checkStatus]);
+
+    const toggle = (key: 'enabled' | 'fallbackToHost') => onChange({ ...value, [key]: !value[key] });
+
+    return (
+        <div className="p-3 bg-white border border-stone-200 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <p className="text-sm font-medium text-stone-700">命令沙箱</p>
+                    <p className="text-xs text-stone-400">在隔离环境中执行命令：仅授权目录可写，关闭网络访问时断开网络（仅 Linux）</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => toggle('enabled')}
+                    role="switch"
+                    aria-checked={value.enabled}
+                    aria-label="命令沙箱"
+                    className={`w-10 h-6 rounded-full transition-colors ${value.enabled ? 'bg-orange-500' : 'bg-stone-200'} focus:outline-none focus-visible:ring-2 focus-visible:ring-orange-500/30 focus-visible:ring-offset-2 focus-visible:ring-offset-white`}
+                >
+                    <div className={`w-4 h-4 rounded-full bg-white shadow transition-transform mx-1 ${value.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+                <div className="flex gap-1 bg-stone-100 p-1 rounded-lg" role="radiogroup" aria-label="沙箱实现">
+                    {BACKENDS.map(b => (
+                        <button
+                            type="button"
+                            key={b.id}
+                            role="radio"
+                            aria-checked={value.backend === b.id}
+                            onClick={() => onChange({ ...value, backend: b.id })}
+                            className={`px-2.5 py-1 text-xs rounded-md transition-colors ${value.backend === b.id ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
+                        >
+                            {b.label}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    type="button"
+                    onClick={() => checkStatus(true)}
+                    disabled={checking}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-stone-500 hover:text-stone-700 hover:bg-stone-50 rounded disabled:opacity-50"
+                >
+                    <RefreshCw size={12} className={checking ? 'animate-spin' : ''} />
+                    重新检测
+                </button>
+            </div>
+
+            {status && (
+                status.activeBackend ? (
+                    <div className="flex items-start gap-2 p-2 text-xs text-green-700 bg-green-50 rounded-lg">
+                        <ShieldCheck size={14} className="shrink-0 mt-0.5" />
+                        <span>
+                            可用：{status.activeBackend}
+                            {status.backends.find(b => b.backend === status.activeBackend)?.version ? `（${status.backends.find(b => b.backend === status.activeBackend)?.version}）` : ''}
+                        </span>
+                    </div>
+                ) : (
+                    <div className="flex items-start gap-2 p-2 text-xs text-amber-700 bg-amber-50 rounded-lg">
+                        <ShieldAlert size={14} className="shrink-0 mt-0.5" />
+                        <span>沙箱不可用：{status.reason}</span>
+                    </div>
+                )
+            )}
+
+            <label className="flex items-center gap-2 text-xs text-stone-500">
+                <input
+                    type="checkbox"
+                    checked={value.fallbackToHost}
+                    onChange={() => toggle('fallbackToHost')}
+                    className="accent-orange-500"
+                />
+                沙箱不可用时仍在本机直接执行命令（默认拒绝执行）
+            </label>
+        </div>
+    );
+}
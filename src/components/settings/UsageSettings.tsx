@@ -0,0 +1,264 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, RefreshCw } from 'lucide-react';
+import { formatCost, formatTokenCount, totalTokens, useUsage, type UsageCurrency, type UsageFilter } from '../../hooks/useUsage';
+import { useModelRegistry, type ModelConfigDTO, type ModelPricingDTO } from '../../hooks/useModelRegistry';
+
+type RangeId = 'session' | 'week' | 'month' | 'all';
+
+const RANGES: { id: RangeId; label: string }[] = [
+    { id: 'session', label: '当前会话' },
+    { id: 'week', label: '近 7 天' },
+    { id: 'month', label: '近 30 天' },
+    { id: 'all', label: '全部' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function rangeToFilter(range: RangeId, now: number): UsageFilter {
+    if (range === 'session') return { sessionId: 'current' };
+    if (range === 'week') return { since: now - 7 * DAY_MS };
+    if (range === 'month') return { since: now - 30 * DAY_MS };
+    return {};
+}
+
+export function UsageSettings() {
+    const [range, setRange] = useState<RangeId>('session');
+    // Anchor the time window when the range changes, so the filter stays stable between renders
+    const filter = useMemo(() => rangeToFilter(range, Date.now()), [range]);
+    const { summary, error, refresh } = useUsage(filter);
+    const [sessionTitles, setSessionTitles] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        window.ipcRenderer.invoke('session:list').then((list) => {
+            const titles: Record<string, string> = {};
+            (list as { id: string; title: string }[]).forEach(s => { titles[s.id] = s.title; });
+            setSessionTitles(titles);
+        });
+    }, []);
+
+    // Group rows by session so the most expensive conversations stand out
+    const sessions = useMemo(() => {
+        if (!summary) return [];
+        const groups = new Map<string, { sessionId: string | null; tokens: number; cost: Partial<Record<UsageCurrency, number>>; models: string[]; lastTs: number }>();
+        for (const row of summary.rows) {
+            const key = row.sessionId || '';
+            const group = groups.get(key) || { sessionId: row.sessionId, tokens: 0, cost: {}, models: [], lastTs: 0 };
+            group.tokens += totalTokens(row);
+            if (row.cost !== null && row.currency) {
+                group.cost[row.currency] = (group.cost[row.currency] || 0) + row.cost;
+            }
+            if (!group.models.includes(row.model)) group.models.push(row.model);
+            group.lastTs = Math.max(group.lastTs, row.lastTs);
+            groups.set(key, group);
+        }
+        return Array.from(groups.values()).sort((a, b) => b.tokens - a.tokens);
+    }, [summary]);
+
+    const models = useMemo(() => {
+        if (!summary) return [];
+        const groups = new Map<string, { model: string; requests: number; tokens: number; cost: Partial<Record<UsageCurrency, number>>; priced: boolean }>();
+        for (const row of summary.rows) {
+            const group = groups.get(row.model) || { model: row.model, requests: 0, tokens: 0, cost: {}, priced: false };
+            group.requests += row.requests;
+            group.tokens += totalTokens(row);
+            if (row.cost !== null && row.currency) {
+                group.cost[row.currency] = (group.cost[row.currency] || 0) + row.cost;
+                group.priced = true;
+            }
+            groups.set(row.model, group);
+        }
+        return Array.from(groups.values()).sort((a, b) => b.tokens - a.tokens);
+    }, [summary]);
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between">
+                <div className="flex gap-1 bg-stone-100 p-1 rounded-xl" role="radiogroup" aria-label="统计范围">
+                    {RANGES.map(r => (
+                        <button
+                            type="button"
+                            key={r.id}
+                            role="radio"
+                            aria-checked={range === r.id}
+                            onClick={() => setRange(r.id)}
+                            className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-all ${range === r.id ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
+                        >
+                            {r.label}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    type="button"
+                    onClick={() => { void refresh(); }}
+                    aria-label="刷新用量"
+                    className="p-2 text-stone-400 hover:text-stone-600 hover:bg-stone-100 rounded-lg transition-all"
+                >
+                    <RefreshCw size={14} />
+                </button>
+            </div>
+
+            {error && <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{error}</div>}
+
+            {summary && (
+                <section className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {[
+                        { label: '输入', value: formatTokenCount(summary.totals.inputTokens) },
+                        { label: '输出', value: formatTokenCount(summary.totals.outputTokens) },
+                        { label: '缓存读取 / 写入', value: `${formatTokenCount(summary.totals.cacheReadTokens)} / ${formatTokenCount(summary.totals.cacheWriteTokens)}` },
+                        { label: '费用', value: formatCost(summary.totals.cost) },
+                    ].map(card => (
+                        <div key={card.label} className="bg-white border border-stone-200 rounded-xl p-3">
+                            <p className="text-[11px] text-stone-400">{card.label}</p>
+                            <p className="text-sm font-semibold text-stone-800 font-mono mt-1 truncate">{card.value}</p>
+                        </div>
+                    ))}
+                </section>
+            )}
+
+            <section className="space-y-2">
+                <h3 className="text-sm font-semibold text-stone-700">按模型</h3>
+                {models.length === 0 ? (
+                    <p className="text-xs text-stone-400 p-3 bg-white border border-stone-200 rounded-lg">暂无用量记录</p>
+                ) : (
+                    <div className="bg-white border border-stone-200 rounded-xl divide-y divide-stone-100">
+                        {models.map(m => (
+                            <div key={m.model} className="flex items-center justify-between px-4 py-2.5 text-sm">
+                                <span className="font-mono text-stone-700 truncate">{m.model}</span>
+                                <span className="flex items-center gap-4 text-xs text-stone-500 font-mono shrink-0">
+                                    <span>{m.requests} 次</span>
+                                    <span>{formatTokenCount(m.tokens)}</span>
+                                    <span className="w-24 text-right">{m.priced ? formatCost(m.cost) : '未定价'}</span>
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </section>
+
+            {range !== 'session' && (
+                <section className="space-y-2">
+                    <h3 className="text-sm font-semibold text-stone-700">按会话</h3>
+                    {sessions.length === 0 ? (
+                        <p className="text-xs text-stone-400 p-3 bg-white border border-stone-200 rounded-lg">暂无用量记录</p>
+                    ) : (
+                        <div className="bg-white border border-stone-200 rounded-xl divide-y divide-stone-100">
+                            {sessions.map(s => (
+                                <div key={s.sessionId || 'none'} className="flex items-center justify-between px-4 py-2.5 text-sm gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-stone-700 truncate">
+                                            {s.sessionId ? (sessionTitles[s.sessionId] || '已删除的会话') : '未关联会话'}
+                                        </p>
+                                        <p className="text-[11px] text-stone-400 truncate">
+                                            {new Date(s.lastTs).toLocaleString()} · {s.models.join(', ')}
+                                        </p>
+                                    </div>
+                                    <span className="flex items-center gap-4 text-xs text-stone-500 font-mono shrink-0">
+                                        <span>{formatTokenCount(s.tokens)}</span>
+                                        <span className="w-24 text-right">{formatCost(s.cost)}</span>
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </section>
+            )}
+
+            <PricingTable />
+        </div>
+    );
+}
+
+function PricingTable() {
+    const { state, setModelPricing } = useModelRegistry();
+    if (!state) return null;
+
+    return (
+        <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-stone-700">价格表</h3>
+            <p className="text-xs text-stone-400">单位：每百万 token。缓存价格留空时按输入价格计算。</p>
+            <div className="space-y-2">
+                {state.models.map(m => (
+                    <PricingRow key={m.id} model={m} onSave={(pricing) => setModelPricing(m.id, pricing)} />
+                ))}
+            </div>
+        </section>
+    );
+}
+
+function PricingRow({ model, onSave }: { model: ModelConfigDTO; onSave: (pricing: ModelPricingDTO | null) => Promise<void> }) {
+    const [draft, setDraft] = useState(() => toDraft(model.pricing));
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        setDraft(toDraft(model.pricing));
+    }, [model.pricing]);
+
+    const handleSave = async () => {
+        await onSave(fromDraft(draft));
+        setSaved(true);
+        setTimeout(() => setSaved(false), 1200);
+    };
+
+    const inputClass = 'w-16 px-2 py-1 text-xs font-mono bg-stone-50 border border-stone-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500';
+
+    return (
+        <div className="flex items-center justify-between gap-3 p-3 bg-white border border-stone-200 rounded-lg">
+            <div className="min-w-0">
+                <p className="text-sm text-stone-700 truncate">{model.displayName}</p>
+                <p className="text-[11px] text-stone-400 font-mono truncate">{model.modelId}</p>
+            </div>
+            <div className="flex items-center gap-1.5 shrink-0">
+                <select
+                    value={draft.currency}
+                    onChange={(e) => setDraft({ ...draft, currency: e.target.value as UsageCurrency })}
+                    aria-label="币种"
+                    className="px-1.5 py-1 text-xs bg-stone-50 border border-stone-200 rounded"
+                >
+                    <option value="CNY">¥</option>
+                    <option value="USD">$</option>
+                </select>
+                <input aria-label="输入价格" placeholder="输入" className={inputClass} value={draft.input} onChange={(e) => setDraft({ ...draft, input: e.target.value })} />
+                <input aria-label="输出价格" placeholder="输出" className={inputClass} value={draft.output} onChange={(e) => setDraft({ ...draft, output: e.target.value })} />
+                <input aria-label="缓存读取价格" placeholder="缓存读" className={inputClass} value={draft.cacheRead} onChange={(e) => setDraft({ ...draft, cacheRead: e.target.value })} />
+                <input aria-label="缓存写入价格" placeholder="缓存写" className={inputClass} value={draft.cacheWrite} onChange={(e) => setDraft({ ...draft, cacheWrite: e.target.value })} />
+                <button
+                    type="button"
+                    onClick={() => { void handleSave(); }}
+                    className={`px-2 py-1 text-xs rounded transition-colors ${saved ? 'bg-emerald-100 text-emerald-600' : 'bg-orange-500 text-white hover:bg-orange-600'}`}
+                >
+                    {saved ? <Check size={12} /> : '保存'}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+type PricingDraft = { currency: UsageCurrency; input: string; output: string; cacheRead: string; cacheWrite: string };
+
+function toDraft(pricing?: ModelPricingDTO): PricingDraft {
+    return {
+        currency: pricing?.currency || 'CNY',
+        input: pricing ? String(pricing.inputPerMTok) : '',
+        output: pricing ? String(pricing.outputPerMTok) : '',
+        cacheRead: pricing?.cacheReadPerMTok !== undefined ? String(pricing.cacheReadPerMTok) : '',
+        cacheWrite: pricing?.cacheWritePerMTok !== undefined ? String(pricing.cacheWritePerMTok) : '',
+    };
+}
+
+function fromDraft(draft: PricingDraft): ModelPricingDTO | null {
+    const parse = (raw: string) => {
+        const value = Number.parseFloat(raw);
+        return Number.isFinite(value) && value >= 0 ? value : undefined;
+    };
+    const input = parse(draft.input);
+    const output = parse(draft.output);
+    // Clearing both required prices removes the pricing entry
+    if (input === undefined && output === undefined) return null;
+    return {
+        currency: draft.currency,
+        inputPerMTok: input ?? 0,
+        outputPerMTok: output ?? 0,
+        cacheReadPerMTok: parse(draft.cacheRead),
+        cacheWritePerMTok: parse(draft.cacheWrite),
+    };
+}
@@ -1,11 +1,15 @@
 import { useState, useEffect } from 'react';
 
+type RememberScope = 'session' | 'folder' | 'global';
+
 interface ConfirmationRequest {
     id: string;
     tool: string;
     description: string;
     args: Record<string, unknown>;
     token?: string;
+    // Scopes available for "remember" (folder: the authorized folder the call is in); null offers none
+    rememberScopes?: { session: boolean; folder: string | null } | null;
 }
 
 // Hook for managing confirmations
@@ -21,7 +25,7 @@ export function useConfirmations() {
         return cleanup;
     }, []);
 
-    const handleConfirm = (id: string, remember: boolean, tool: string, path?: string, token?: string) => {
+    const handleConfirm = (id: string, remember: RememberScope | null, tool: string, path?: string, token?: string) => {
         window.ipcRenderer.invoke('agent:confirm-response', { id, approved: true, remember, tool, path, token });
         setPendingRequest(null);
     };
@@ -34,4 +38,4 @@ export function useConfirmations() {
     return { pendingRequest, handleConfirm, handleDeny };
 }
 
-export type { ConfirmationRequest };
+export type { ConfirmationRequest, RememberScope };
@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { AgentMessage, AgentStage } from '../../electron/types/ipc';
+import type { AgentMessage, AgentStage, CheckpointRestoreResult } from '../../electron/types/ipc';
 import { ipcService } from '../../electron/services/IPCService.ts';
 
 export interface UseAgentResult {
@@ -12,10 +12,12 @@ export interface UseAgentResult {
     isProcessing: boolean;
     stage: AgentStage;
     streamingText: string;
+    streamingThinking: string;
     sendMessage: (content: string, images?: string[]) => Promise<void>;
     abort: () => Promise<void>;
     deleteMessage: (id: string) => Promise<void>;
     regenerateMessage: (id: string) => Promise<void>;
+    revertToMessage: (id: string) => Promise<CheckpointRestoreResult | null>;
     error: string | null;
 }
 
@@ -29,12 +31,19 @@ export function useAgent(): UseAgentResult {
     const [error, setError] = useState<string | null>(null);
     const [streamingText, setStreamingText] = useState('');
     const streamingTextRef = useRef('');
+    const [streamingThinking, setStreamingThinking] = useState('');
+    const streamingThinkingRef = useRef('');
     const rafRef = useRef<number | null>(null);
+    const thinkingRafRef = useRef<number | null>(null);
 
     useEffect(() => {
         streamingTextRef.current = streamingText;
     }, [streamingText]);
 
+    useEffect(() => {
+        streamingThinkingRef.current = streamingThinking;
+    }, [streamingThinking]);
+
     useEffect(() => {
         if (!window.ipcRenderer) return;
 
@@ -42,6 +51,7 @@ export function useAgent(): UseAgentResult {
             setHistory(updatedHistory as AgentMessage[]);
             // Do not set isProcessing to false here, wait for agent:processing-state
             setStreamingText(''); // Clear streaming text as it is now part of history
+            setStreamingThinking('');
 
             // 优化：异步保存会话，避免阻塞 UI
             // 使用 setTimeout 将深拷贝操作推迟到下一个事件循环
@@ -63,6 +73,7 @@ export function useAgent(): UseAgentResult {
             setError(err as string);
             // setIsProcessing(false); // Let state manager handle this via processing-state event
             setStreamingText('');
+            setStreamingThinking('');
         });
 
         const removeStageListener = window.ipcRenderer.on('agent:stage', (_event, newStage) => {
@@ -82,11 +93,24 @@ export function useAgent(): UseAgentResult {
             });
         });
 
+        // Reasoning streams on its own channel so it can render apart from the answer
+        const removeThinkingListener = window.ipcRenderer.on('agent:stream-thinking', (_event, token) => {
+            streamingThinkingRef.current += (token as string);
+
+            if (thinkingRafRef.current) return;
+
+            thinkingRafRef.current = requestAnimationFrame(() => {
+                setStreamingThinking(streamingThinkingRef.current);
+                thinkingRafRef.current = null;
+            });
+        });
+
         const removeProcessingStateListener = window.ipcRenderer.on('agent:processing-state', (_event, state) => {
             const { isProcessing } = state as { isProcessing: boolean };
             setIsProcessing(isProcessing);
             if (!isProcessing) {
                 setStreamingText('');
+                setStreamingThinking('');
             }
         });
 
@@ -95,12 +119,17 @@ export function useAgent(): UseAgentResult {
             removeErrorListener();
             removeStageListener();
             removeStreamListener();
+            removeThinkingListener();
             removeProcessingStateListener();
             // 清理 RAF
             if (rafRef.current) {
                 cancelAnimationFrame(rafRef.current);
                 rafRef.current = null;
             }
+            if (thinkingRafRef.current) {
+                cancelAnimationFrame(thinkingRafRef.current);
+                thinkingRafRef.current = null;
+            }
         };
     }, []);
 
@@ -144,15 +173,27 @@ export function useAgent(): UseAgentResult {
         }
     }, []);
 
+    const revertToMessage = useCallback(async (id: string) => {
+        setError(null);
+        try {
+            return await ipcService.revertToMessage(id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+            return null;
+        }
+    }, []);
+
     return {
         history,
         isProcessing,
         stage,
         streamingText,
+        streamingThinking,
         sendMessage,
         abort,
         deleteMessage,
         regenerateMessage,
+        revertToMessage,
         error,
     };
 }
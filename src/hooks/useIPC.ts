@@ -9,7 +9,7 @@ import type {
     AppConfigDTO,
     Session,
     SkillInfo,
-    ToolPermission,
+    PermissionRule,
     WorkMode,
 } from '../../electron/types/ipc';
 import { ipcService } from '../../electron/services/IPCService.ts';
@@ -292,16 +292,16 @@ export function useSessions(): UseSessionsResult {
 // ============================================
 
 export interface UsePermissionsResult {
-    permissions: ToolPermission[];
+    permissions: PermissionRule[];
     loading: boolean;
     refresh: () => Promise<void>;
 }
 
 /**
- * Hook for managing tool permissions
+ * Hook for the permission rules
  */
 export function usePermissions(): UsePermissionsResult {
-    const [permissions, setPermissions] = useState<ToolPermission[]>([]);
+    const [permissions, setPermissions] = useState<PermissionRule[]>([]);
     const [loading, setLoading] = useState(true);
 
     const refresh = useCallback(async () => {
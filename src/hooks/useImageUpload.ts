@@ -182,6 +182,29 @@ export function useImageUpload(options: UseImageUploadOptions = {}) {
         return false;
     }, [processImage]);
 
+    /**
+     * Add images that are already data URLs (e.g. read from an MCP resource)
+     */
+    const addDataUrls = useCallback((dataUrls: string[]) => {
+        const results: ImageUploadResult[] = [];
+        for (const dataUrl of dataUrls) {
+            const match = /^data:([^;]+);base64,(.*)$/.exec(dataUrl);
+            if (!match || !allowedTypes.includes(match[1])) {
+                onError?.(ERROR_MESSAGES.INVALID_IMAGE_TYPE);
+                continue;
+            }
+            const size = Math.floor(match[2].length * 3 / 4);
+            if (size > maxFileSize) {
+                onError?.(ERROR_MESSAGES.FILE_TOO_LARGE((maxFileSize / (1024 * 1024)).toFixed(1) + 'MB'));
+                continue;
+            }
+            results.push({ dataUrl, mimeType: match[1], size });
+        }
+        if (results.length > 0) {
+            setImages(prev => [...prev, ...results]);
+        }
+    }, [allowedTypes, maxFileSize, onError]);
+
     /**
      * Remove an image by index
      */
@@ -216,6 +239,7 @@ export function useImageUpload(options: UseImageUploadOptions = {}) {
         handleFileSelect,
         handlePaste,
         handleDrop,
+        addDataUrls,
         removeImage,
         clearImages,
         triggerFileSelect,
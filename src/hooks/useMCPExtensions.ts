@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { MCPPromptInfo, MCPResourceInfo } from '../../electron/types/ipc';
+
+type IpcResult<T> = { success: boolean; data?: T; error?: string };
+
+export interface MCPResourceAttachment {
+    text: string;
+    images: string[];
+}
+
+/**
+ * Slash command for an MCP prompt, e.g. /github:review-pr
+ */
+export function promptCommand(prompt: Pick<MCPPromptInfo, 'server' | 'name'>): string {
+    return `/${prompt.server}:${prompt.name}`;
+}
+
+/**
+ * Prompts matching a slash command being typed; null when the input is not one
+ */
+export function matchPromptCommands(input: string, prompts: MCPPromptInfo[]): MCPPromptInfo[] | null {
+    const match = /^\/(\S*)$/.exec(input);
+    if (!match) return null;
+    const query = match[1].toLowerCase();
+    return prompts.filter(p => promptCommand(p).slice(1).toLowerCase().includes(query));
+}
+
+async function invokeData<T>(channel: string, ...args: unknown[]): Promise<T> {
+    const result = await window.ipcRenderer.invoke(channel, ...args) as IpcResult<T>;
+    if (!result.success || result.data === undefined) {
+        throw new Error(result.error || '请求失败');
+    }
+    return result.data;
+}
+
+/**
+ * Resources and prompts of the connected MCP servers. Nothing is fetched until
+ * a menu needs it (fetching connects the servers); after that the lists follow
+ * the servers' list_changed notifications
+ */
+export function useMCPExtensions() {
+    const [resources, setResources] = useState<MCPResourceInfo[]>([]);
+    const [prompts, setPrompts] = useState<MCPPromptInfo[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const loadedRef = useRef(false);
+
+    const refresh = useCallback(async () => {
+        loadedRef.current = true;
+        setLoading(true);
+        setError(null);
+        try {
+            const [nextResources, nextPrompts] = await Promise.all([
+                invokeData<MCPResourceInfo[]>('mcp:list-resources'),
+                invokeData<MCPPromptInfo[]>('mcp:list-prompts'),
+            ]);
+            setResources(nextResources);
+            setPrompts(nextPrompts);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const ensureLoaded = useCallback(() => {
+        if (!loadedRef.current) void refresh();
+    }, [refresh]);
+
+    useEffect(() => {
+        const remove = window.ipcRenderer.on('mcp:lists-changed', () => {
+            if (loadedRef.current) void refresh();
+        });
+        return () => remove();
+    }, [refresh]);
+
+    const readResource = useCallback((server: string, uri: string) =>
+        invokeData<MCPResourceAttachment>('mcp:read-resource', server, uri), []);
+
+    const getPrompt = useCallback(async (prompt: MCPPromptInfo, args: Record<string, string>) => {
+        const data = await invokeData<{ text: string }>('mcp:get-prompt', prompt.server, prompt.name, args);
+        return data.text;
+    }, []);
+
+    return { resources, prompts, loading, error, ensureLoaded, refresh, readResource, getPrompt };
+}
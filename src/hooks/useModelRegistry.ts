@@ -6,7 +6,23 @@ export type ProviderConfigDTO = {
     defaultBaseUrl: string;
     baseUrl: string;
     hasApiKey: boolean;
-    protocol: 'openai' | 'anthropic' | 'custom';
+    protocol: 'openai' | 'anthropic' | 'ollama';
+};
+
+export type ModelPricingDTO = {
+    currency: 'CNY' | 'USD';
+    inputPerMTok: number;
+    outputPerMTok: number;
+    cacheReadPerMTok?: number;
+    cacheWritePerMTok?: number;
+};
+
+export type LocalModelDTO = {
+    name: string;
+    sizeBytes?: number;
+    family?: string;
+    parameterSize?: string;
+    loaded: boolean;
 };
 
 export type ModelConfigDTO = {
@@ -15,10 +31,13 @@ export type ModelConfigDTO = {
     providerId: string;
     providerName: string;
     modelId: string;
-    protocol: 'openai' | 'anthropic' | 'custom';
+    protocol: 'openai' | 'anthropic' | 'ollama';
     isCustom: boolean;
     isConfigured: boolean;
     effectiveBaseUrl: string;
+    contextWindow: number;
+    reasoningBudget?: number;
+    pricing?: ModelPricingDTO;
     updatedAt: number;
 };
 
@@ -26,6 +45,7 @@ export type ModelRegistryStateDTO = {
     activeModelId: string;
     providers: ProviderConfigDTO[];
     models: ModelConfigDTO[];
+    fallbackChain: string[];
     version: number;
 };
 
@@ -87,6 +107,36 @@ export function useModelRegistry() {
         }
     }, [refresh]);
 
+    const setModelPricing = useCallback(async (modelId: string, pricing: ModelPricingDTO | null) => {
+        setError(null);
+        try {
+            await window.ipcRenderer.invoke('models:set-pricing', { modelId, pricing });
+            await refresh();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    }, [refresh]);
+
+    const setModelReasoningBudget = useCallback(async (modelId: string, budget: number | null) => {
+        setError(null);
+        try {
+            await window.ipcRenderer.invoke('models:set-reasoning-budget', { modelId, budget });
+            await refresh();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    }, [refresh]);
+
+    const setFallbackChain = useCallback(async (modelIds: string[]) => {
+        setError(null);
+        try {
+            await window.ipcRenderer.invoke('models:set-fallback-chain', modelIds);
+            await refresh();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    }, [refresh]);
+
     useEffect(() => {
         refresh();
     }, [refresh]);
@@ -107,6 +157,9 @@ export function useModelRegistry() {
         updateProvider,
         addCustomModel,
         deleteCustomModel,
+        setModelPricing,
+        setModelReasoningBudget,
+        setFallbackChain,
     };
 }
 
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export type UsageCurrency = 'CNY' | 'USD';
+
+export type UsageRowDTO = {
+    sessionId: string | null;
+    model: string;
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+    firstTs: number;
+    lastTs: number;
+    cost: number | null;
+    currency: UsageCurrency | null;
+};
+
+export type UsageSummaryDTO = {
+    rows: UsageRowDTO[];
+    totals: {
+        requests: number;
+        inputTokens: number;
+        outputTokens: number;
+        cacheReadTokens: number;
+        cacheWriteTokens: number;
+        cost: Partial<Record<UsageCurrency, number>>;
+    };
+};
+
+export type UsageFilter = {
+    // 'current' resolves to the active session in the main process
+    sessionId?: string | 'current';
+    since?: number;
+};
+
+const CURRENCY_SYMBOL: Record<UsageCurrency, string> = { CNY: '¥', USD: '$' };
+
+export function formatTokenCount(count: number): string {
+    if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(2)}M`;
+    if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+    return String(count);
+}
+
+export function formatCost(cost: Partial<Record<UsageCurrency, number>>): string {
+    const parts = (Object.keys(cost) as UsageCurrency[])
+        .map(currency => `${CURRENCY_SYMBOL[currency]}${(cost[currency] || 0).toFixed(4)}`);
+    return parts.length > 0 ? parts.join(' + ') : '-';
+}
+
+export function totalTokens(usage: Pick<UsageRowDTO, 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheWriteTokens'>): number {
+    return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+/**
+ * Token usage summary, refreshed whenever the agent reports new usage
+ */
+export function useUsage(filter: UsageFilter = {}) {
+    const [summary, setSummary] = useState<UsageSummaryDTO | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const { sessionId, since } = filter;
+
+    const refresh = useCallback(async () => {
+        setError(null);
+        try {
+            const next = await window.ipcRenderer.invoke('usage:summary', { sessionId, since }) as UsageSummaryDTO;
+            setSummary(next);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    }, [sessionId, since]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    useEffect(() => {
+        const removeUsage = window.ipcRenderer.on('agent:usage', () => {
+            refresh();
+        });
+        // Session switches change what 'current' points to
+        const removeHistory = sessionId === 'current'
+            ? window.ipcRenderer.on('agent:history-update', () => {
+                refresh();
+            })
+            : null;
+        return () => {
+            removeUsage();
+            removeHistory?.();
+        };
+    }, [refresh, sessionId]);
+
+    return { summary, error, refresh };
+}
@@ -13,7 +13,11 @@ export default defineConfig({
     electron({
       main: {
         // Shortcut of `build.lib.entry`.
-        entry: 'electron/main.ts',
+        // mcp-stdio is the CLI bridge to the app's built-in MCP server
+        entry: {
+          main: 'electron/main.ts',
+          'mcp-stdio': 'electron/cli/mcpStdio.ts',
+        },
         vite: {
           build: {
             rollupOptions: {
@@ -25,6 +29,7 @@ export default defineConfig({
                 'better-sqlite3',
                 'keytar',
                 '@modelcontextprotocol/sdk',
+                '@huggingface/transformers',
                 'node-cron',
                 'cron-parser'
               ],
@@ -47,6 +52,7 @@ export default defineConfig({
                 'better-sqlite3',
                 'keytar',
                 '@modelcontextprotocol/sdk',
+                '@huggingface/transformers',
                 'node-cron',
                 'cron-parser'
               ],